@@ -35,6 +35,7 @@ import NotFound from "./pages/NotFound.tsx";
 import ClientDashboard from "./pages/client/ClientDashboard.tsx";
 import { ArticlePage } from "./pages/client/ArticlePage.tsx";
 import { InviteAccept } from "./pages/InviteAccept.tsx";
+import { BookMeeting } from "./pages/BookMeeting.tsx";
 import PrintBudgetPage from "./pages/PrintBudgetPage.tsx";
 import ProtectedRoute from "./components/ProtectedRoute";
 import AuthRedirect from "./components/AuthRedirect";
@@ -42,6 +43,7 @@ import { AppFooter } from "./components/layout/AppFooter";
 import { DevModeProvider } from "./hooks/useDevMode";
 import { AuthInitializer } from "./components/AuthInitializer";
 import { useAppSelector } from "./store/hooks";
+import { useImpersonationExpiry } from "./hooks/useImpersonationSession";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -81,6 +83,9 @@ const AppContent = () => {
   // Get notesOpen state from Redux
   const notesOpen = useAppSelector((state) => state.leadView.notesOpen);
 
+  // End "View as Client" when its session expires, whichever page is open
+  useImpersonationExpiry();
+
   // Hide footer when dashboard sidebar is visible, or when notes panel is open on right panel routes
   const shouldShowFooter =
     !isLoginPage && !isDashboardSidebarRoute && (!isRightPanelRoute || !notesOpen);
@@ -96,10 +101,11 @@ const AppContent = () => {
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
           <Route path="/invite/accept" element={<InviteAccept />} />
+          <Route path="/book/:slug" element={<BookMeeting />} />
           <Route
             path="/dashboard"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="leads">
                 <Dashboard />
               </ProtectedRoute>
             }
@@ -107,7 +113,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/templates"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="plans">
                 <TemplatesManagement />
               </ProtectedRoute>
             }
@@ -115,7 +121,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/exercises"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="plans">
                 <ExercisesManagement />
               </ProtectedRoute>
             }
@@ -123,7 +129,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/nutrition-templates"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="plans">
                 <NutritionTemplatesManagement />
               </ProtectedRoute>
             }
@@ -131,7 +137,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/supplement-templates"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="plans">
                 <SupplementTemplatesManagement />
               </ProtectedRoute>
             }
@@ -139,7 +145,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/budgets"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="plans">
                 <BudgetManagement />
               </ProtectedRoute>
             }
@@ -147,7 +153,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/subscription-types"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="payments">
                 <SubscriptionTypesManagement />
               </ProtectedRoute>
             }
@@ -155,7 +161,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/payments"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="payments">
                 <PaymentsManagement />
               </ProtectedRoute>
             }
@@ -163,7 +169,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/payments/:id"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="payments">
                 <PaymentDetailView />
               </ProtectedRoute>
             }
@@ -171,7 +177,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/collections"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="payments">
                 <CollectionsManagement />
               </ProtectedRoute>
             }
@@ -179,7 +185,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/collections/:id"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="payments">
                 <CollectionDetailView />
               </ProtectedRoute>
             }
@@ -187,7 +193,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/knowledge-base"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="knowledge_base">
                 <KnowledgeBaseManagement />
               </ProtectedRoute>
             }
@@ -195,7 +201,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/knowledge-base/article/:id"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="knowledge_base">
                 <ArticlePage />
               </ProtectedRoute>
             }
@@ -203,7 +209,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/print/budget/:id"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="plans">
                 <PrintBudgetPage />
               </ProtectedRoute>
             }
@@ -211,7 +217,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/check-in-settings"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="settings">
                 <CheckInSettingsPage />
               </ProtectedRoute>
             }
@@ -219,7 +225,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/whatsapp-automations"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="messaging">
                 <WhatsAppAutomationsPage />
               </ProtectedRoute>
             }
@@ -227,7 +233,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/analytics"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="analytics">
                 <Analytics />
               </ProtectedRoute>
             }
@@ -235,7 +241,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/customers"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="leads">
                 <CustomersManagement />
               </ProtectedRoute>
             }
@@ -243,7 +249,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/meetings"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="meetings">
                 <MeetingsManagement />
               </ProtectedRoute>
             }
@@ -251,7 +257,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/meetings/:id"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="meetings">
                 <MeetingDetailView />
               </ProtectedRoute>
             }
@@ -259,7 +265,7 @@ const AppContent = () => {
           <Route
             path="/leads-refactored"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="leads">
                 <LeadsRefactored />
               </ProtectedRoute>
             }
@@ -268,7 +274,7 @@ const AppContent = () => {
           <Route
             path="/leads/:id"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="leads">
                 <UnifiedProfileView />
               </ProtectedRoute>
             }
@@ -276,7 +282,7 @@ const AppContent = () => {
           <Route
             path="/dashboard/customers/:id"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="leads">
                 <UnifiedProfileView />
               </ProtectedRoute>
             }
@@ -284,7 +290,7 @@ const AppContent = () => {
           <Route
             path="/profile/lead/:leadId"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="leads">
                 <UnifiedProfileView />
               </ProtectedRoute>
             }
@@ -292,7 +298,7 @@ const AppContent = () => {
           <Route
             path="/profile/:customerId/:leadId"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="leads">
                 <UnifiedProfileView />
               </ProtectedRoute>
             }
@@ -300,7 +306,7 @@ const AppContent = () => {
           <Route
             path="/profile/:customerId"
             element={
-              <ProtectedRoute>
+              <ProtectedRoute permission="leads">
                 <UnifiedProfileView />
               </ProtectedRoute>
             }
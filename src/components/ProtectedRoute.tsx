@@ -1,18 +1,23 @@
 import { Navigate } from 'react-router-dom';
 import { useAppSelector } from '@/store/hooks';
+import { usePermissions } from '@/hooks/useStaffPermissions';
+import { getStaffHomePath, type StaffPermission } from '@/utils/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  permission?: StaffPermission; // Capability the staff member needs for this page
 }
 
 /**
  * Protected route for coach/admin users only
- * Redirects trainees to client dashboard
+ * Redirects trainees to client dashboard, and staff without the page's permission
+ * to the first page they may open
  */
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
+const ProtectedRoute = ({ children, permission }: ProtectedRouteProps) => {
   const { isAuthenticated, user, isLoading } = useAppSelector((state) => state.auth);
+  const { permissions, can, isLoading: isLoadingPermissions } = usePermissions();
 
-  if (isLoading) {
+  if (isLoading || (permission && isLoadingPermissions)) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center">
@@ -37,6 +42,18 @@ const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
     return <Navigate to="/client/dashboard" replace />;
   }
 
+  if (permission && !can(permission)) {
+    const homePath = getStaffHomePath(permissions);
+    if (homePath) {
+      return <Navigate to={homePath} replace />;
+    }
+    return (
+      <div className="flex items-center justify-center min-h-screen" dir="rtl">
+        <p className="text-sm text-gray-600">אין לך הרשאה לצפות בעמוד זה. פנה למנהל המערכת.</p>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
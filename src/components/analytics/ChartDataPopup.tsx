@@ -2,6 +2,7 @@
  * ChartDataPopup Component
  * 
  * Professional popup component to display detailed data when a chart element is clicked.
+ * Money totals are shown in the reporting currency, with the original amounts per currency.
  */
 
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
@@ -11,6 +12,7 @@ import { Loader2 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { he } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
+import { BASE_CURRENCY, formatMoney, formatMoneyBreakdown } from '@/utils/currency';
 
 export interface ChartDataPopupItem {
   id: string;
@@ -28,6 +30,9 @@ interface ChartDataPopupProps {
   isLoading?: boolean;
   emptyMessage?: string;
   renderItem?: (item: ChartDataPopupItem) => React.ReactNode;
+  currency?: string; // Reporting currency of the total and of amount metadata
+  totalAmount?: number;
+  originalAmounts?: Record<string, number>;
 }
 
 export const ChartDataPopup = ({
@@ -39,15 +44,15 @@ export const ChartDataPopup = ({
   isLoading = false,
   emptyMessage = 'אין נתונים להצגה',
   renderItem,
+  currency = BASE_CURRENCY,
+  totalAmount,
+  originalAmounts,
 }: ChartDataPopupProps) => {
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('he-IL', {
-      style: 'currency',
-      currency: 'ILS',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number) => formatMoney(amount, currency, { maximumFractionDigits: 0 });
+
+  const originalBreakdown = originalAmounts ? formatMoneyBreakdown(originalAmounts, { maximumFractionDigits: 0 }) : '';
+  const showOriginalBreakdown =
+    !!originalBreakdown && Object.keys(originalAmounts || {}).some((code) => code !== currency);
 
   const defaultRenderItem = (item: ChartDataPopupItem) => (
     <div
@@ -118,8 +123,14 @@ export const ChartDataPopup = ({
             </div>
           ) : (
             <>
-              <div className="mb-4 text-sm text-gray-600 text-right">
-                נמצאו {items.length} פריטים
+              <div className="mb-4 flex items-center justify-between gap-4 text-sm text-gray-600 text-right">
+                <span>נמצאו {items.length} פריטים</span>
+                {totalAmount !== undefined && (
+                  <span>
+                    סה"כ: <span className="font-semibold text-gray-900">{formatCurrency(totalAmount)}</span>
+                    {showOriginalBreakdown && <span className="text-xs text-gray-500"> ({originalBreakdown})</span>}
+                  </span>
+                )}
               </div>
               <ScrollArea className="h-[calc(90vh-200px)] pr-4">
                 <div className="space-y-3">
@@ -0,0 +1,238 @@
+/**
+ * ExchangeRatesDialog Component
+ *
+ * Manually maintained exchange rates to ILS. Reports convert each amount with the latest rate
+ * on or before its date, so a rate per month (or per reporting period) is enough.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAppSelector } from '@/store/hooks';
+import { useDeleteExchangeRate, useExchangeRates, useSaveExchangeRate } from '@/hooks/useExchangeRates';
+import { useToast } from '@/hooks/use-toast';
+import { CURRENCIES, type ExchangeRate } from '@/utils/currency';
+
+type RateCurrency = ExchangeRate['currency'];
+
+const RATE_CURRENCIES = CURRENCIES.filter((currency) => currency.code !== 'ILS');
+
+interface ExchangeRatesDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ExchangeRatesDialog: React.FC<ExchangeRatesDialogProps> = ({ isOpen, onOpenChange }) => {
+  const { toast } = useToast();
+  const { user } = useAppSelector((state) => state.auth);
+  const { data: rates = [], isLoading } = useExchangeRates();
+  const saveRate = useSaveExchangeRate();
+  const deleteRate = useDeleteExchangeRate();
+
+  const [currency, setCurrency] = useState<RateCurrency>('USD');
+  const [rateDate, setRateDate] = useState('');
+  const [rate, setRate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (isOpen) {
+      setCurrency('USD');
+      setRateDate(format(new Date(), 'yyyy-MM-dd'));
+      setRate('');
+      setNotes('');
+    }
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    const value = Number(rate);
+    if (!rateDate || !Number.isFinite(value) || value <= 0) {
+      toast({
+        title: 'שגיאה',
+        description: 'יש להזין תאריך ושער חיובי',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await saveRate.mutateAsync({ currency, rate: value, rate_date: rateDate, notes: notes.trim() || null });
+      toast({
+        title: 'הצלחה',
+        description: 'השער נשמר',
+      });
+      setRate('');
+      setNotes('');
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בשמירת השער',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (exchangeRate: ExchangeRate) => {
+    if (!window.confirm(`למחוק את שער ה-${exchangeRate.currency} מתאריך ${format(new Date(exchangeRate.rate_date), 'dd/MM/yyyy')}?`)) {
+      return;
+    }
+
+    try {
+      await deleteRate.mutateAsync(exchangeRate.id);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל במחיקת השער',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">שערי מטבע</DialogTitle>
+          <DialogDescription className="text-right">
+            שווי יחידת מטבע בשקלים. כל סכום מומר לפי השער האחרון שנקבע עד לתאריך שלו
+          </DialogDescription>
+        </DialogHeader>
+
+        {isAdmin && (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end py-2">
+            <div className="space-y-2">
+              <Label>מטבע</Label>
+              <Select value={currency} onValueChange={(value) => setCurrency(value as RateCurrency)} dir="rtl">
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RATE_CURRENCIES.map((item) => (
+                    <SelectItem key={item.code} value={item.code}>
+                      {item.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="exchange-rate-date">תאריך</Label>
+              <Input
+                id="exchange-rate-date"
+                type="date"
+                value={rateDate}
+                onChange={(e) => setRateDate(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="exchange-rate-value">שער (₪)</Label>
+              <Input
+                id="exchange-rate-value"
+                type="number"
+                min={0}
+                step={0.0001}
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+                placeholder="3.7000"
+              />
+            </div>
+
+            <Button
+              onClick={handleSave}
+              disabled={saveRate.isPending}
+              className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white"
+            >
+              {saveRate.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin ml-2" />
+              ) : (
+                <Plus className="h-4 w-4 ml-2" />
+              )}
+              הוסף
+            </Button>
+
+            <div className="space-y-2 col-span-2 sm:col-span-4">
+              <Label htmlFor="exchange-rate-notes">הערות</Label>
+              <Input
+                id="exchange-rate-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder='למשל: שער יציג בנק ישראל'
+              />
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-[#5B6FB9]" />
+          </div>
+        ) : rates.length === 0 ? (
+          <p className="py-6 text-sm text-center text-gray-500">
+            לא הוזנו שערים. סכומים במטבע ללא שער לא יומרו בדוחות
+          </p>
+        ) : (
+          <div className="max-h-[320px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-9 text-right text-xs">תאריך</TableHead>
+                  <TableHead className="h-9 text-right text-xs">מטבע</TableHead>
+                  <TableHead className="h-9 text-right text-xs">שער</TableHead>
+                  <TableHead className="h-9 text-right text-xs">הערות</TableHead>
+                  {isAdmin && <TableHead className="h-9 text-right text-xs" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((exchangeRate) => (
+                  <TableRow key={exchangeRate.id}>
+                    <TableCell className="py-2 text-xs text-gray-600 whitespace-nowrap">
+                      {format(new Date(exchangeRate.rate_date), 'dd/MM/yyyy')}
+                    </TableCell>
+                    <TableCell className="py-2 text-xs font-semibold text-gray-900">{exchangeRate.currency}</TableCell>
+                    <TableCell className="py-2 text-xs text-gray-900 whitespace-nowrap" dir="ltr">
+                      ₪{exchangeRate.rate.toFixed(4)}
+                    </TableCell>
+                    <TableCell className="py-2 text-xs text-gray-600">{exchangeRate.notes || '-'}</TableCell>
+                    {isAdmin && (
+                      <TableCell className="py-2">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => handleDelete(exchangeRate)}
+                          disabled={deleteRate.isPending}
+                          title="מחק"
+                        >
+                          <Trash2 className="h-3.5 w-3.5 text-red-600" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {!isAdmin && (
+          <p className="text-xs text-gray-500">רק מנהלים יכולים לעדכן שערים</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
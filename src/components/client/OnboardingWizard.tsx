@@ -0,0 +1,348 @@
+/**
+ * OnboardingWizard Component
+ *
+ * First-login wizard of the client portal: baseline measurements (saved as today's daily
+ * check-in), progress photos, blood tests, acknowledging the action plan and WhatsApp
+ * notification preferences. Progress is saved per step, so the trainee can continue later.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Check, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { VisualProgressCard } from '@/components/client/VisualProgressCard';
+import { BloodTestsCard } from '@/components/client/BloodTestsCard.tsx';
+import { supabase } from '@/lib/supabaseClient';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import { useAppDispatch } from '@/store/hooks';
+import {
+  upsertCheckIn,
+  updateClientCustomer,
+  type ClientCustomer,
+  type ClientLead,
+} from '@/store/slices/clientSlice';
+import { useActiveBudgetForCustomerOrLeads } from '@/hooks/useBudgets';
+import { useBloodTestsForCustomer } from '@/hooks/useBloodTests';
+import {
+  ONBOARDING_STEPS,
+  ONBOARDING_STEP_COLUMNS,
+  isOnboardingStepDone,
+  useUpdateTraineeOnboarding,
+  type OnboardingStep,
+  type TraineeOnboarding,
+} from '@/hooks/useTraineeOnboarding';
+
+interface OnboardingWizardProps {
+  isOpen: boolean;
+  customer: ClientCustomer;
+  leads: ClientLead[];
+  onboarding: TraineeOnboarding | null;
+}
+
+const MEASUREMENT_FIELDS = [
+  { key: 'weight', label: 'משקל (ק"ג)', required: true },
+  { key: 'waist_circumference', label: 'היקף מותן (ס"מ)' },
+  { key: 'belly_circumference', label: 'היקף בטן (ס"מ)' },
+  { key: 'thigh_circumference', label: 'היקף ירכיים (ס"מ)' },
+  { key: 'arm_circumference', label: 'היקף יד (ס"מ)' },
+  { key: 'neck_circumference', label: 'היקף צוואר (ס"מ)' },
+] as const;
+
+type MeasurementKey = (typeof MEASUREMENT_FIELDS)[number]['key'];
+
+const STEP_DESCRIPTIONS: Record<OnboardingStep, string> = {
+  measurements: 'המדדים נשמרים כדיווח של היום ומשמשים נקודת פתיחה למעקב ההתקדמות',
+  photos: 'תמונות מלפנים, מהצד ומאחור עוזרות לראות את השינוי לאורך הזמן. התמונות גלויות רק לך ולמאמן',
+  blood_tests: 'אם יש לך בדיקות דם עדכניות, העלה/י אותן כדי שהמאמן יוכל להתאים את התכנית',
+  action_plan: 'עבור/י על תכנית הפעולה שהמאמן הכין עבורך',
+  notifications: 'בחר/י על אילו תזכורות לקבל הודעת וואטסאפ',
+};
+
+export const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ isOpen, customer, leads, onboarding }) => {
+  const dispatch = useAppDispatch();
+  const { toast } = useToast();
+  const updateOnboarding = useUpdateTraineeOnboarding();
+  const leadIds = useMemo(() => leads.map((lead) => lead.id), [leads]);
+  const { data: activeBudget } = useActiveBudgetForCustomerOrLeads(customer.id, leadIds);
+  const { data: bloodTests = [] } = useBloodTestsForCustomer(customer.id);
+
+  const [stepIndex, setStepIndex] = useState(() => {
+    const firstOpenStep = ONBOARDING_STEPS.findIndex((step) => !isOnboardingStepDone(onboarding, step.key));
+    return firstOpenStep === -1 ? ONBOARDING_STEPS.length - 1 : firstOpenStep;
+  });
+  const [measurements, setMeasurements] = useState<Record<MeasurementKey, string>>({
+    weight: '',
+    waist_circumference: '',
+    belly_circumference: '',
+    thigh_circumference: '',
+    arm_circumference: '',
+    neck_circumference: '',
+  });
+  const [isPlanAcknowledged, setIsPlanAcknowledged] = useState(false);
+  const [checkInReminders, setCheckInReminders] = useState(customer.check_in_reminders_enabled ?? true);
+  const [meetingReminders, setMeetingReminders] = useState(customer.meeting_reminders_enabled ?? true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setCheckInReminders(customer.check_in_reminders_enabled ?? true);
+    setMeetingReminders(customer.meeting_reminders_enabled ?? true);
+  }, [customer.check_in_reminders_enabled, customer.meeting_reminders_enabled]);
+
+  const step = ONBOARDING_STEPS[stepIndex].key;
+  const isLastStep = stepIndex === ONBOARDING_STEPS.length - 1;
+
+  // Marks the step as done (or skipped) and moves on; the last step completes the onboarding
+  const finishStep = async (skipped = false, extraUpdates: Partial<TraineeOnboarding> = {}) => {
+    const now = new Date().toISOString();
+    const skippedSteps = onboarding?.skipped_steps.filter((key) => key !== step) || [];
+
+    await updateOnboarding.mutateAsync({
+      customerId: customer.id,
+      updates: {
+        ...(skipped ? {} : { [ONBOARDING_STEP_COLUMNS[step]]: now }),
+        skipped_steps: skipped ? [...skippedSteps, step] : skippedSteps,
+        ...(isLastStep ? { completed_at: now } : {}),
+        ...extraUpdates,
+      },
+    });
+
+    if (isLastStep) {
+      toast({ title: 'הצלחה', description: 'ההרשמה הושלמה, בהצלחה!' });
+    } else {
+      setStepIndex(stepIndex + 1);
+    }
+  };
+
+  const runStep = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'לא ניתן היה לשמור',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveMeasurements = () =>
+    runStep(async () => {
+      const values = Object.fromEntries(
+        MEASUREMENT_FIELDS.map(({ key }) => [key, measurements[key] ? parseFloat(measurements[key]) : null])
+      ) as Record<MeasurementKey, number | null>;
+
+      await dispatch(
+        upsertCheckIn({
+          customer_id: customer.id,
+          lead_id: leads[0]?.id || null,
+          check_in_date: format(new Date(), 'yyyy-MM-dd'),
+          ...values,
+        })
+      ).unwrap();
+
+      await finishStep();
+    });
+
+  const handleContinuePhotos = () =>
+    runStep(async () => {
+      // Same folder as VisualProgressCard
+      const { data } = await supabase.storage.from('client-assets').list(`${customer.id}/progress`, { limit: 1 });
+      await finishStep(!data || data.length === 0);
+    });
+
+  const handleContinueBloodTests = () => runStep(() => finishStep(bloodTests.length === 0));
+
+  const handleAcknowledgePlan = () =>
+    runStep(() =>
+      activeBudget?.budget
+        ? finishStep(false, { acknowledged_budget_id: activeBudget.budget.id })
+        : finishStep(true)
+    );
+
+  const handleSaveNotifications = () =>
+    runStep(async () => {
+      await dispatch(
+        updateClientCustomer({
+          customerId: customer.id,
+          updates: {
+            check_in_reminders_enabled: checkInReminders,
+            meeting_reminders_enabled: meetingReminders,
+          },
+        })
+      ).unwrap();
+
+      await finishStep();
+    });
+
+  const budget = activeBudget?.budget;
+
+  return (
+    <Dialog open={isOpen}>
+      <DialogContent
+        className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto [&>button]:hidden"
+        dir="rtl"
+        onInteractOutside={(e) => e.preventDefault()}
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="text-right">
+            {customer.full_name ? `ברוכים הבאים, ${customer.full_name.split(' ')[0]}!` : 'ברוכים הבאים!'}
+          </DialogTitle>
+          <DialogDescription className="text-right">{STEP_DESCRIPTIONS[step]}</DialogDescription>
+        </DialogHeader>
+
+        {/* Steps */}
+        <div className="flex items-center gap-1.5">
+          {ONBOARDING_STEPS.map((item, index) => (
+            <div key={item.key} className="flex-1 flex flex-col items-center gap-1">
+              <div
+                className={cn(
+                  'h-1.5 w-full rounded-full',
+                  index < stepIndex ? 'bg-[#5B6FB9]' : index === stepIndex ? 'bg-[#5B6FB9]/60' : 'bg-gray-200'
+                )}
+              />
+              <span
+                className={cn(
+                  'text-[11px] sm:text-xs',
+                  index === stepIndex ? 'font-semibold text-[#5B6FB9]' : 'text-gray-500'
+                )}
+              >
+                {item.label}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="py-2">
+          {step === 'measurements' && (
+            <div className="grid grid-cols-2 gap-3">
+              {MEASUREMENT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1.5">
+                  <Label htmlFor={`onboarding-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`onboarding-${field.key}`}
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="0.1"
+                    value={measurements[field.key]}
+                    onChange={(e) => setMeasurements({ ...measurements, [field.key]: e.target.value })}
+                    dir="ltr"
+                    className="text-left"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {step === 'photos' && <VisualProgressCard customerId={customer.id} />}
+
+          {step === 'blood_tests' && <BloodTestsCard customerId={customer.id} leads={leads} />}
+
+          {step === 'action_plan' &&
+            (budget ? (
+              <div className="space-y-4">
+                <div className="rounded-lg border border-slate-200 p-4 space-y-2 text-sm">
+                  <p className="font-bold text-gray-900">{budget.name}</p>
+                  {budget.description && <p className="text-gray-600 whitespace-pre-line">{budget.description}</p>}
+                  {budget.nutrition_targets?.calories > 0 && (
+                    <p className="text-gray-700">
+                      יעד תזונה: {budget.nutrition_targets.calories} קק"ל · {budget.nutrition_targets.protein} גרם חלבון
+                    </p>
+                  )}
+                  {budget.steps_goal > 0 && (
+                    <p className="text-gray-700">יעד צעדים: {budget.steps_goal.toLocaleString('he-IL')} ביום</p>
+                  )}
+                  {budget.eating_rules && <p className="text-gray-700 whitespace-pre-line">{budget.eating_rules}</p>}
+                  <p className="text-xs text-gray-500">התכנית המלאה זמינה בכל עת בלשונית "תכנית פעולה"</p>
+                </div>
+                <label className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={isPlanAcknowledged}
+                    onCheckedChange={(checked) => setIsPlanAcknowledged(checked === true)}
+                  />
+                  קראתי את תכנית הפעולה ואני מתחייב/ת לפעול לפיה
+                </label>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600 text-center py-6">
+                המאמן שלך עדיין מכין את תכנית הפעולה. היא תופיע בלשונית "תכנית פעולה" ברגע שתהיה מוכנה.
+              </p>
+            ))}
+
+          {step === 'notifications' && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4 rounded-lg border border-slate-200 p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">תזכורת לדיווח יומי</p>
+                  <p className="text-xs text-gray-500">הודעה כשלא מילאת דיווח יומי כמה ימים</p>
+                </div>
+                <Switch checked={checkInReminders} onCheckedChange={setCheckInReminders} />
+              </div>
+              <div className="flex items-center justify-between gap-4 rounded-lg border border-slate-200 p-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">תזכורות לפגישות</p>
+                  <p className="text-xs text-gray-500">יום ושעה לפני כל פגישה עם המאמן</p>
+                </div>
+                <Switch checked={meetingReminders} onCheckedChange={setMeetingReminders} />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setStepIndex(stepIndex - 1)}
+            disabled={stepIndex === 0 || isSaving}
+          >
+            הקודם
+          </Button>
+
+          <div className="flex items-center gap-2">
+            {(step === 'photos' || step === 'blood_tests') && (
+              <Button variant="ghost" onClick={() => runStep(() => finishStep(true))} disabled={isSaving}>
+                אעשה זאת מאוחר יותר
+              </Button>
+            )}
+            <Button
+              onClick={
+                step === 'measurements'
+                  ? handleSaveMeasurements
+                  : step === 'photos'
+                    ? handleContinuePhotos
+                    : step === 'blood_tests'
+                      ? handleContinueBloodTests
+                      : step === 'action_plan'
+                        ? handleAcknowledgePlan
+                        : handleSaveNotifications
+              }
+              disabled={
+                isSaving ||
+                (step === 'measurements' && !measurements.weight) ||
+                (step === 'action_plan' && !!budget && !isPlanAcknowledged)
+              }
+              className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white"
+            >
+              {isSaving ? (
+                <Loader2 className="h-4 w-4 animate-spin ml-2" />
+              ) : (
+                isLastStep && <Check className="h-4 w-4 ml-2" />
+              )}
+              {isLastStep ? 'סיום' : 'המשך'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -53,6 +53,7 @@ export const WeeklyReviewsList: React.FC<WeeklyReviewsListProps> = ({
       let query = supabase
         .from('weekly_reviews')
         .select('id, week_start_date, week_end_date, target_calories, target_protein, target_carbs, target_fat, target_fiber, target_steps, actual_calories_avg, actual_protein_avg, actual_carbs_avg, actual_fat_avg, actual_fiber_avg, weekly_avg_weight, trainer_summary, action_plan, updated_steps_goal, updated_calories_target, created_at, updated_at')
+        .eq('is_draft', false) // Drafts are visible only to the coach
         .order('week_start_date', { ascending: false });
 
       if (leadId) {
@@ -50,6 +50,7 @@ export const WeeklySummariesView: React.FC<WeeklySummariesViewProps> = ({
       let query = supabase
         .from('weekly_reviews')
         .select('*')
+        .eq('is_draft', false) // Drafts are visible only to the coach
         .order('week_start_date', { ascending: false })
         .limit(20);
 
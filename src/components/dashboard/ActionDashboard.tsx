@@ -38,13 +38,20 @@ import { WeeklyReviewWrapper } from './WeeklyReviewWrapper';
 import { LeadAutomationCard } from './LeadAutomationCard';
 import { LeadFormsCard } from './LeadFormsCard';
 import { ReadOnlyField } from './ReadOnlyField';
+import { LeadAssigneeSelect } from './LeadAssigneeSelect';
 import { LeadPaymentCard } from './LeadPaymentCard';
 import { CollectionsCard } from './CollectionsCard';
 import { usePlansHistory } from '@/hooks/usePlansHistory';
 import { ProgressGalleryCard } from './ProgressGalleryCard';
 import { BloodTestsGalleryCard } from './BloodTestsGalleryCard.tsx';
 import { CreateSubscriptionModal } from './dialogs/CreateSubscriptionModal';
-import { useMeetings, useDeleteMeeting } from '@/hooks/useMeetings';
+import { CreateInstallmentPlanDialog, type InstallmentPlanDefaults } from './dialogs/CreateInstallmentPlanDialog';
+import { useMeetings, useDeleteMeeting, type Meeting } from '@/hooks/useMeetings';
+import {
+  getMeetingDate as getCalendarMeetingDate,
+  getMeetingStatusValue,
+  getMeetingTimeDisplayValue,
+} from './calendar/utils';
 import { usePaymentHistory, useDeletePayment } from '@/hooks/usePaymentHistory';
 import { CreditCard, Plus, Trash2, RotateCcw, Images, Stethoscope } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -121,6 +128,7 @@ export const ActionDashboard: React.FC<ActionDashboardProps> = ({
   const [isMeetingDialogOpen, setIsMeetingDialogOpen] = useState(false);
   const [isCreateCustomerDialogOpen, setIsCreateCustomerDialogOpen] = useState(false);
   const [isCreateSubscriptionModalOpen, setIsCreateSubscriptionModalOpen] = useState(false);
+  const [installmentPlanDefaults, setInstallmentPlanDefaults] = useState<InstallmentPlanDefaults | null>(null);
   const [isAddPaymentDialogOpen, setIsAddPaymentDialogOpen] = useState(false);
 
   // Selection state for meetings and payments
@@ -194,103 +202,23 @@ export const ActionDashboard: React.FC<ActionDashboardProps> = ({
   // Sort meetings by date (most recent first)
   const sortedMeetings = useMemo(() => {
     return [...leadMeetings].sort((a, b) => {
-      const dateA = a.meeting_data?.date || a.meeting_data?.['תאריך'] || a.created_at;
-      const dateB = b.meeting_data?.date || b.meeting_data?.['תאריך'] || b.created_at;
-      return new Date(dateB).getTime() - new Date(dateA).getTime();
+      const dateA = getCalendarMeetingDate(a)?.getTime() ?? new Date(a.created_at).getTime();
+      const dateB = getCalendarMeetingDate(b)?.getTime() ?? new Date(b.created_at).getTime();
+      return dateB - dateA;
     });
   }, [leadMeetings]);
 
   // Helper function to extract meeting date
-  const getMeetingDate = (meeting: any) => {
-    const meetingData = meeting.meeting_data || {};
-    const schedulingData = (() => {
-      if (meetingData.event_start_time || meetingData.event_end_time) {
-        return { eventStartTime: meetingData.event_start_time || meetingData.eventStartTime };
-      }
-      if (meetingData.scheduling && Array.isArray(meetingData.scheduling) && meetingData.scheduling.length > 0) {
-        const scheduling = meetingData.scheduling[0];
-        if (scheduling.value) {
-          return { eventStartTime: scheduling.value.eventStartTime };
-        }
-      }
-      return null;
-    })();
-
-    if (schedulingData?.eventStartTime) {
-      try {
-        const date = new Date(schedulingData.eventStartTime);
-        if (!isNaN(date.getTime())) {
-          return formatDate(date.toISOString());
-        }
-      } catch (e) {
-        // Silent failure
-      }
-    }
-
-    return meetingData.date ||
-      meetingData.meeting_date ||
-      meetingData['תאריך'] ||
-      meetingData['תאריך פגישה'] ||
-      formatDate(meeting.created_at);
+  const getMeetingDate = (meeting: Meeting) => {
+    const date = getCalendarMeetingDate(meeting);
+    return formatDate(date ? date.toISOString() : meeting.created_at);
   };
 
   // Helper function to extract meeting time
-  const getMeetingTime = (meeting: any) => {
-    const meetingData = meeting.meeting_data || {};
-    const schedulingData = (() => {
-      if (meetingData.event_start_time || meetingData.event_end_time) {
-        return {
-          eventStartTime: meetingData.event_start_time || meetingData.eventStartTime,
-          eventEndTime: meetingData.event_end_time || meetingData.eventEndTime,
-        };
-      }
-      if (meetingData.scheduling && Array.isArray(meetingData.scheduling) && meetingData.scheduling.length > 0) {
-        const scheduling = meetingData.scheduling[0];
-        if (scheduling.value) {
-          return {
-            eventStartTime: scheduling.value.eventStartTime,
-            eventEndTime: scheduling.value.eventEndTime,
-          };
-        }
-      }
-      return null;
-    })();
-
-    if (schedulingData?.eventStartTime) {
-      try {
-        const startDate = new Date(schedulingData.eventStartTime);
-        if (!isNaN(startDate.getTime())) {
-          const hours = startDate.getHours().toString().padStart(2, '0');
-          const minutes = startDate.getMinutes().toString().padStart(2, '0');
-          const startTime = `${hours}:${minutes}`;
-
-          if (schedulingData.eventEndTime) {
-            try {
-              const endDate = new Date(schedulingData.eventEndTime);
-              if (!isNaN(endDate.getTime())) {
-                const endHours = endDate.getHours().toString().padStart(2, '0');
-                const endMinutes = endDate.getMinutes().toString().padStart(2, '0');
-                const endTime = `${endHours}:${endMinutes}`;
-                return `${startTime} - ${endTime}`;
-              }
-            } catch (e) {
-              // Silent failure
-            }
-          }
-          return startTime;
-        }
-      } catch (e) {
-        // Silent failure
-      }
-    }
-    return '-';
-  };
+  const getMeetingTime = (meeting: Meeting) => getMeetingTimeDisplayValue(meeting) || '-';
 
   // Helper function to get meeting status
-  const getMeetingStatus = (meeting: any) => {
-    const meetingData = meeting.meeting_data || {};
-    return meetingData.status || meetingData['סטטוס'] || 'פעיל';
-  };
+  const getMeetingStatus = (meeting: Meeting) => getMeetingStatusValue(meeting);
 
   // Helper function to get status badge color
   const getMeetingStatusColor = (status: string) => {
@@ -1255,6 +1183,12 @@ export const ActionDashboard: React.FC<ActionDashboardProps> = ({
                 className="border-0 p-0"
                 onEditingChange={(isEditing) => handleCrmFieldEditingChange('gender', isEditing)}
               />
+              <LeadAssigneeSelect
+                value={activeLead.assigned_to || null}
+                onSave={async (assignedTo) => {
+                  await onUpdateLead({ assigned_to: assignedTo });
+                }}
+              />
               {onUpdateLead && (
                 <InlineEditableField
                   ref={createdAtRef}
@@ -1671,12 +1605,33 @@ export const ActionDashboard: React.FC<ActionDashboardProps> = ({
               join_date: todayStr,
               subscription_data: updatedSubscription,
             });
+
+            // Offer to split the subscription price into an installment schedule
+            if (leadId && sub1.price > 0) {
+              setInstallmentPlanDefaults({
+                subscriptionName: sub1.name,
+                totalAmount: sub1.price,
+                currency: sub1.currency || 'ILS',
+                installmentsCount: sub1.duration_unit === 'months' ? sub1.duration : 1,
+              });
+            }
           } catch (error: any) {
             // Error creating subscription
           }
         }}
       />
 
+      {leadId && (
+        <CreateInstallmentPlanDialog
+          isOpen={!!installmentPlanDefaults}
+          onOpenChange={(open) => {
+            if (!open) setInstallmentPlanDefaults(null);
+          }}
+          leadId={leadId}
+          defaults={installmentPlanDefaults || undefined}
+        />
+      )}
+
       {/* Add Payment Dialog */}
       <AddPaymentDialog
         isOpen={isAddPaymentDialogOpen}
@@ -28,6 +28,7 @@ import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { fetchSubscriptionTypes } from '@/store/slices/subscriptionTypesSlice';
 import { useEffect } from 'react';
 import { useBudgets } from '@/hooks/useBudgets';
+import { getStaffMemberName, useStaffMembers } from '@/hooks/useStaffMembers';
 import type { DurationUnit } from '@/store/slices/subscriptionTypesSlice';
 
 // Helper function to get duration unit label in Hebrew
@@ -44,6 +45,9 @@ const getDurationUnitLabel = (unit: DurationUnit, count: number): string => {
   }
 };
 
+// The lead gets a coach from the lead assignment settings (round-robin) unless one is picked
+const AUTO_ASSIGN_VALUE = '__auto__';
+
 interface AddLeadDialogProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
@@ -72,6 +76,7 @@ export const AddLeadDialog = ({ isOpen, onOpenChange, onLeadCreated }: AddLeadDi
   // Fetch subscription types and budgets when dialog opens
   const { data: budgetsData, isLoading: isLoadingBudgets } = useBudgets();
   const budgets = budgetsData?.data || [];
+  const { data: staffMembers = [] } = useStaffMembers();
 
   useEffect(() => {
     if (isOpen) {
@@ -375,6 +380,28 @@ export const AddLeadDialog = ({ isOpen, onOpenChange, onLeadCreated }: AddLeadDi
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="assigned_to" className="text-right text-sm">
+                מאמן אחראי
+              </Label>
+              <Select
+                value={formData.assigned_to || AUTO_ASSIGN_VALUE}
+                onValueChange={(value) => handleInputChange('assigned_to', value === AUTO_ASSIGN_VALUE ? '' : value)}
+              >
+                <SelectTrigger className="text-right h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO_ASSIGN_VALUE}>לפי הגדרות חלוקת הלידים</SelectItem>
+                  {staffMembers.map((member) => (
+                    <SelectItem key={member.id} value={member.id}>
+                      {getStaffMemberName(member)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {/* Physical Metrics Section */}
@@ -0,0 +1,541 @@
+/**
+ * AutomationRulesDialog Component
+ *
+ * Manage the triggers (rules) that send a WhatsApp flow automatically,
+ * and view the audit log of their executions.
+ */
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { Plus, Trash2, Pencil, Loader2, X, Zap } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { RTLSwitch } from '@/components/ui/RTLSwitch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { STATUS_CATEGORIES } from '@/hooks/useLeadStatus';
+import {
+  useAutomationRules,
+  useAutomationRuleRuns,
+  useSaveAutomationRule,
+  useToggleAutomationRule,
+  useDeleteAutomationRule,
+  describeRuleTrigger,
+  TRIGGER_TYPE_LABELS,
+  CONDITION_FIELDS,
+  CONDITION_OPERATORS,
+  type AutomationRule,
+  type AutomationRuleInput,
+  type AutomationTriggerType,
+} from '@/hooks/useAutomationRules';
+
+interface AutomationRulesDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  flowKey: string;
+  flowLabel: string;
+}
+
+const ANY_STATUS = '__any__';
+
+const RUN_STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  queued: { label: 'נשלח לתור', className: 'bg-green-50 text-green-700 border-green-200' },
+  skipped: { label: 'דולג', className: 'bg-gray-50 text-gray-700 border-gray-200' },
+  failed: { label: 'נכשל', className: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+const createEmptyRule = (flowKey: string): AutomationRuleInput => ({
+  flow_key: flowKey,
+  name: '',
+  trigger_type: 'lead_status_changed',
+  trigger_config: {},
+  conditions: [],
+  delay_minutes: 0,
+  is_active: true,
+});
+
+export const AutomationRulesDialog: React.FC<AutomationRulesDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  flowKey,
+  flowLabel,
+}) => {
+  const { toast } = useToast();
+  const [activeTab, setActiveTab] = useState('rules');
+  const [editingRule, setEditingRule] = useState<(AutomationRuleInput & { id?: string }) | null>(null);
+
+  const { data: allRules = [], isLoading } = useAutomationRules();
+  const { data: runs = [], isLoading: isLoadingRuns } = useAutomationRuleRuns(flowKey, isOpen && activeTab === 'log');
+  const saveRule = useSaveAutomationRule();
+  const toggleRule = useToggleAutomationRule();
+  const deleteRule = useDeleteAutomationRule();
+
+  const rules = allRules.filter((rule) => rule.flow_key === flowKey);
+
+  const handleEdit = (rule: AutomationRule) => {
+    setEditingRule({
+      id: rule.id,
+      flow_key: rule.flow_key,
+      name: rule.name,
+      trigger_type: rule.trigger_type,
+      trigger_config: rule.trigger_config || {},
+      conditions: rule.conditions || [],
+      delay_minutes: rule.delay_minutes,
+      is_active: rule.is_active,
+    });
+  };
+
+  const handleTriggerTypeChange = (triggerType: AutomationTriggerType) => {
+    if (!editingRule) return;
+    const needsDays = triggerType === 'no_check_in' || triggerType === 'subscription_expiring';
+    setEditingRule({
+      ...editingRule,
+      trigger_type: triggerType,
+      trigger_config: needsDays ? { days: triggerType === 'no_check_in' ? 3 : 7 } : {},
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingRule) return;
+
+    if (!editingRule.name.trim()) {
+      toast({
+        title: 'שגיאה',
+        description: 'אנא הזן שם לחוק',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const days = editingRule.trigger_config.days;
+    if (
+      (editingRule.trigger_type === 'no_check_in' || editingRule.trigger_type === 'subscription_expiring') &&
+      (days === undefined || isNaN(days) || days < 0)
+    ) {
+      toast({
+        title: 'שגיאה',
+        description: 'אנא הזן מספר ימים תקין',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await saveRule.mutateAsync({
+        ...editingRule,
+        name: editingRule.name.trim(),
+        conditions: editingRule.conditions.filter((condition) => condition.field),
+      });
+      toast({
+        title: 'הצלחה',
+        description: 'החוק נשמר בהצלחה',
+      });
+      setEditingRule(null);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בשמירת החוק',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggle = async (rule: AutomationRule, isActive: boolean) => {
+    try {
+      await toggleRule.mutateAsync({ id: rule.id, isActive });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בעדכון החוק',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (rule: AutomationRule) => {
+    try {
+      await deleteRule.mutateAsync(rule.id);
+      toast({
+        title: 'הצלחה',
+        description: 'החוק נמחק',
+      });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל במחיקת החוק',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const updateCondition = (index: number, updates: Partial<AutomationRuleInput['conditions'][number]>) => {
+    if (!editingRule) return;
+    setEditingRule({
+      ...editingRule,
+      conditions: editingRule.conditions.map((condition, i) =>
+        i === index ? { ...condition, ...updates } : condition
+      ),
+    });
+  };
+
+  const subStatuses = STATUS_CATEGORIES.find(
+    (category) => category.label === editingRule?.trigger_config.statusMain
+  )?.subStatuses;
+
+  const renderRuleForm = () => {
+    if (!editingRule) return null;
+
+    return (
+      <div className="grid gap-4 py-2">
+        <div className="grid gap-2">
+          <Label htmlFor="rule-name">שם החוק</Label>
+          <Input
+            id="rule-name"
+            value={editingRule.name}
+            onChange={(e) => setEditingRule({ ...editingRule, name: e.target.value })}
+            placeholder="לדוגמה: שליחת תכנית פעולה לאחר תשלום"
+            dir="rtl"
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <Label>טריגר</Label>
+          <Select
+            value={editingRule.trigger_type}
+            onValueChange={(value) => handleTriggerTypeChange(value as AutomationTriggerType)}
+            dir="rtl"
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent dir="rtl">
+              {(Object.keys(TRIGGER_TYPE_LABELS) as AutomationTriggerType[]).map((type) => (
+                <SelectItem key={type} value={type}>{TRIGGER_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {editingRule.trigger_type === 'lead_status_changed' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="grid gap-2">
+              <Label>סטטוס חדש</Label>
+              <Select
+                value={editingRule.trigger_config.statusMain || ANY_STATUS}
+                onValueChange={(value) =>
+                  setEditingRule({
+                    ...editingRule,
+                    trigger_config: { statusMain: value === ANY_STATUS ? undefined : value },
+                  })
+                }
+                dir="rtl"
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent dir="rtl">
+                  <SelectItem value={ANY_STATUS}>כל סטטוס</SelectItem>
+                  {STATUS_CATEGORIES.map((category) => (
+                    <SelectItem key={category.id} value={category.label}>{category.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {subStatuses && subStatuses.length > 0 && (
+              <div className="grid gap-2">
+                <Label>תת סטטוס</Label>
+                <Select
+                  value={editingRule.trigger_config.statusSub || ANY_STATUS}
+                  onValueChange={(value) =>
+                    setEditingRule({
+                      ...editingRule,
+                      trigger_config: {
+                        ...editingRule.trigger_config,
+                        statusSub: value === ANY_STATUS ? undefined : value,
+                      },
+                    })
+                  }
+                  dir="rtl"
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent dir="rtl">
+                    <SelectItem value={ANY_STATUS}>כל תת סטטוס</SelectItem>
+                    {subStatuses.map((sub) => (
+                      <SelectItem key={sub.id} value={sub.label}>{sub.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+
+        {(editingRule.trigger_type === 'no_check_in' || editingRule.trigger_type === 'subscription_expiring') && (
+          <div className="grid gap-2">
+            <Label htmlFor="rule-days">
+              {editingRule.trigger_type === 'no_check_in' ? 'ימים ללא דיווח' : 'ימים לפני סיום המנוי'}
+            </Label>
+            <Input
+              id="rule-days"
+              type="number"
+              min={0}
+              value={editingRule.trigger_config.days ?? ''}
+              onChange={(e) =>
+                setEditingRule({
+                  ...editingRule,
+                  trigger_config: { days: e.target.value === '' ? undefined : Number(e.target.value) },
+                })
+              }
+            />
+            <p className="text-xs text-muted-foreground">נבדק פעם ביום בשעה 09:00</p>
+          </div>
+        )}
+
+        <div className="grid gap-2">
+          <Label htmlFor="rule-delay">השהיה לפני שליחה (דקות)</Label>
+          <Input
+            id="rule-delay"
+            type="number"
+            min={0}
+            value={editingRule.delay_minutes}
+            onChange={(e) => setEditingRule({ ...editingRule, delay_minutes: Math.max(0, Number(e.target.value) || 0) })}
+          />
+        </div>
+
+        <div className="grid gap-2">
+          <div className="flex items-center justify-between">
+            <Label>תנאים (כל התנאים חייבים להתקיים)</Label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() =>
+                setEditingRule({
+                  ...editingRule,
+                  conditions: [...editingRule.conditions, { field: 'status_main', operator: 'equals', value: '' }],
+                })
+              }
+            >
+              <Plus className="h-3.5 w-3.5 ml-1" />
+              הוסף תנאי
+            </Button>
+          </div>
+          {editingRule.conditions.length === 0 && (
+            <p className="text-xs text-muted-foreground">ללא תנאים - החוק יופעל בכל פעם שהטריגר מתרחש</p>
+          )}
+          {editingRule.conditions.map((condition, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={condition.field}
+                onValueChange={(value) => updateCondition(index, { field: value })}
+                dir="rtl"
+              >
+                <SelectTrigger className="h-9 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent dir="rtl">
+                  {CONDITION_FIELDS.map((field) => (
+                    <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={condition.operator}
+                onValueChange={(value) => updateCondition(index, { operator: value as typeof condition.operator })}
+                dir="rtl"
+              >
+                <SelectTrigger className="h-9 w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent dir="rtl">
+                  {CONDITION_OPERATORS.map((operator) => (
+                    <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {condition.operator !== 'is_empty' && condition.operator !== 'is_not_empty' && (
+                <Input
+                  className="h-9 flex-1"
+                  value={condition.value || ''}
+                  onChange={(e) => updateCondition(index, { value: e.target.value })}
+                  dir="rtl"
+                />
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0 text-gray-500 hover:text-red-600"
+                onClick={() =>
+                  setEditingRule({
+                    ...editingRule,
+                    conditions: editingRule.conditions.filter((_, i) => i !== index),
+                  })
+                }
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) setEditingRule(null);
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>טריגרים: {flowLabel}</DialogTitle>
+          <DialogDescription>
+            שליחה אוטומטית של האוטומציה כאשר מתרחש אירוע
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingRule ? (
+          <>
+            {renderRuleForm()}
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setEditingRule(null)}>
+                ביטול
+              </Button>
+              <Button onClick={handleSave} disabled={saveRule.isPending}>
+                {saveRule.isPending && <Loader2 className="h-4 w-4 animate-spin ml-2" />}
+                שמור חוק
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <Tabs value={activeTab} onValueChange={setActiveTab} dir="rtl">
+            <TabsList>
+              <TabsTrigger value="rules">חוקים</TabsTrigger>
+              <TabsTrigger value="log">יומן הרצות</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="rules" className="space-y-2">
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                </div>
+              ) : rules.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">
+                  אין טריגרים לאוטומציה זו - היא נשלחת ידנית בלבד
+                </p>
+              ) : (
+                rules.map((rule) => (
+                  <div
+                    key={rule.id}
+                    className="flex items-center justify-between gap-3 rounded-lg border border-slate-200 px-3 py-2"
+                  >
+                    <div className="flex items-center gap-3 min-w-0">
+                      <RTLSwitch
+                        checked={rule.is_active}
+                        onCheckedChange={(checked) => handleToggle(rule, checked)}
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{rule.name}</p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {describeRuleTrigger(rule)}
+                          {rule.conditions?.length > 0 && ` · ${rule.conditions.length} תנאים`}
+                          {rule.delay_minutes > 0 && ` · השהיה ${rule.delay_minutes} דק'`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleEdit(rule)}
+                        title="ערוך חוק"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-red-600 hover:bg-red-50"
+                        onClick={() => handleDelete(rule)}
+                        disabled={deleteRule.isPending}
+                        title="מחק חוק"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => setEditingRule(createEmptyRule(flowKey))}
+              >
+                <Zap className="h-4 w-4 ml-2" />
+                הוסף טריגר
+              </Button>
+            </TabsContent>
+
+            <TabsContent value="log">
+              {isLoadingRuns ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+                </div>
+              ) : runs.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">עדיין לא היו הרצות</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {runs.map((run) => {
+                    const status = RUN_STATUS_LABELS[run.status] || RUN_STATUS_LABELS.skipped;
+                    return (
+                      <div
+                        key={run.id}
+                        className="flex items-start justify-between gap-3 rounded-md border border-slate-100 px-3 py-2 text-xs"
+                      >
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">
+                            {run.customer?.full_name || 'לקוח'} · {run.rule_name || TRIGGER_TYPE_LABELS[run.trigger_type]}
+                          </p>
+                          {run.reason && <p className="text-gray-500 truncate" title={run.reason}>{run.reason}</p>}
+                        </div>
+                        <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                          <Badge variant="outline" className={cn('text-[10px]', status.className)}>
+                            {status.label}
+                          </Badge>
+                          <span className="text-gray-400">
+                            {format(new Date(run.created_at), 'dd/MM HH:mm', { locale: he })}
+                          </span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
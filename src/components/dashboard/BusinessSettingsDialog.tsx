@@ -0,0 +1,245 @@
+/**
+ * BusinessSettingsDialog Component
+ *
+ * Business details printed on tax documents (name, ע.מ. / ח.פ., contact details, VAT rate),
+ * and whether documents are issued automatically for paid payments and refunds.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RTLSwitch } from '@/components/ui/RTLSwitch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppSelector } from '@/store/hooks';
+import { useBusinessSettings, useUpdateBusinessSettings, type BusinessType } from '@/hooks/useTaxDocuments';
+import { useToast } from '@/hooks/use-toast';
+
+const BUSINESS_TYPES: BusinessType[] = ['עוסק מורשה', 'עוסק פטור', 'חברה בע"מ'];
+const DEFAULT_VAT_RATE = 18;
+
+interface BusinessSettingsDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const BusinessSettingsDialog: React.FC<BusinessSettingsDialogProps> = ({
+  isOpen,
+  onOpenChange,
+}) => {
+  const { toast } = useToast();
+  const { user } = useAppSelector((state) => state.auth);
+  const { data: settings, isLoading } = useBusinessSettings();
+  const updateSettings = useUpdateBusinessSettings();
+
+  const [isActive, setIsActive] = useState(false);
+  const [businessName, setBusinessName] = useState('');
+  const [businessType, setBusinessType] = useState<BusinessType>('עוסק מורשה');
+  const [businessNumber, setBusinessNumber] = useState('');
+  const [address, setAddress] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [vatRate, setVatRate] = useState(DEFAULT_VAT_RATE);
+
+  const isAdmin = user?.role === 'admin';
+  const isExempt = businessType === 'עוסק פטור';
+
+  useEffect(() => {
+    if (isOpen && settings) {
+      setIsActive(settings.is_active);
+      setBusinessName(settings.business_name);
+      setBusinessType(settings.business_type);
+      setBusinessNumber(settings.business_number);
+      setAddress(settings.address || '');
+      setPhone(settings.phone || '');
+      setEmail(settings.email || '');
+      setVatRate(settings.vat_rate);
+    }
+  }, [isOpen, settings]);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    if (isActive && (!businessName.trim() || !businessNumber.trim())) {
+      toast({
+        title: 'שגיאה',
+        description: 'יש להזין שם עסק ומספר עוסק / ח.פ. לפני הפעלת הפקת המסמכים',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await updateSettings.mutateAsync({
+        id: settings.id,
+        is_active: isActive,
+        business_name: businessName.trim(),
+        business_type: businessType,
+        business_number: businessNumber.trim(),
+        address: address.trim() || null,
+        phone: phone.trim() || null,
+        email: email.trim() || null,
+        vat_rate: Math.min(99, Math.max(0, Number.isFinite(vatRate) ? vatRate : DEFAULT_VAT_RATE)),
+      });
+      toast({
+        title: 'הצלחה',
+        description: 'פרטי העסק נשמרו',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בשמירת ההגדרות',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const isDisabled = !isAdmin;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">פרטי העסק וחשבוניות</DialogTitle>
+          <DialogDescription className="text-right">
+            לכל תשלום ששולם תופק חשבונית מס קבלה (קבלה לעוסק פטור) במספור רץ, ולכל החזר חשבונית זיכוי
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-[#5B6FB9]" />
+          </div>
+        ) : !settings ? (
+          <p className="py-6 text-sm text-center text-gray-500">פרטי העסק אינם זמינים</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-between">
+              <Label>הפקת מסמכי מס אוטומטית</Label>
+              <RTLSwitch checked={isActive} onCheckedChange={setIsActive} disabled={isDisabled} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="business-name">שם העסק</Label>
+                <Input
+                  id="business-name"
+                  value={businessName}
+                  onChange={(e) => setBusinessName(e.target.value)}
+                  disabled={isDisabled}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>סוג עוסק</Label>
+                <Select
+                  value={businessType}
+                  onValueChange={(value) => setBusinessType(value as BusinessType)}
+                  disabled={isDisabled}
+                  dir="rtl"
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BUSINESS_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="business-number">ע.מ. / ח.פ.</Label>
+                <Input
+                  id="business-number"
+                  value={businessNumber}
+                  onChange={(e) => setBusinessNumber(e.target.value)}
+                  disabled={isDisabled}
+                  dir="ltr"
+                />
+              </div>
+
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="business-address">כתובת</Label>
+                <Input
+                  id="business-address"
+                  value={address}
+                  onChange={(e) => setAddress(e.target.value)}
+                  disabled={isDisabled}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="business-phone">טלפון</Label>
+                <Input
+                  id="business-phone"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  disabled={isDisabled}
+                  dir="ltr"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="business-email">אימייל</Label>
+                <Input
+                  id="business-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isDisabled}
+                  dir="ltr"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="business-vat-rate">מע"מ (%)</Label>
+                <Input
+                  id="business-vat-rate"
+                  type="number"
+                  min={0}
+                  max={99}
+                  step={0.5}
+                  value={isExempt ? 0 : vatRate}
+                  onChange={(e) => setVatRate(Number(e.target.value))}
+                  disabled={isDisabled || isExempt}
+                />
+              </div>
+            </div>
+
+            {!isAdmin && (
+              <p className="text-xs text-gray-500">רק מנהלים יכולים לשנות את ההגדרות</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            ביטול
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!settings || !isAdmin || updateSettings.isPending}
+            className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white"
+          >
+            {updateSettings.isPending && <Loader2 className="h-4 w-4 animate-spin ml-2" />}
+            שמור
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
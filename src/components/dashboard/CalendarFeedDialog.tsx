@@ -0,0 +1,188 @@
+/**
+ * CalendarFeedDialog Component
+ *
+ * Lets a coach subscribe to their meetings from a phone / Google / Outlook calendar.
+ * Each subscription gets its own secret link that can be revoked at any time.
+ */
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarPlus, Copy, Loader2, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  getCalendarFeedUrl,
+  getCalendarSubscribeUrl,
+  useCalendarFeedTokens,
+  useCreateCalendarFeedToken,
+  useRevokeCalendarFeedToken,
+} from '@/hooks/useCalendarFeedTokens';
+import { useToast } from '@/hooks/use-toast';
+
+interface CalendarFeedDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const CalendarFeedDialog: React.FC<CalendarFeedDialogProps> = ({ isOpen, onOpenChange }) => {
+  const { toast } = useToast();
+  const { data: tokens = [], isLoading } = useCalendarFeedTokens();
+  const createToken = useCreateCalendarFeedToken();
+  const revokeToken = useRevokeCalendarFeedToken();
+  const [label, setLabel] = useState('');
+
+  const activeTokens = tokens.filter((token) => !token.revoked_at);
+  const revokedTokens = tokens.filter((token) => token.revoked_at);
+
+  const handleCreate = async () => {
+    try {
+      await createToken.mutateAsync(label.trim() || null);
+      setLabel('');
+      toast({
+        title: 'הצלחה',
+        description: 'נוצר קישור חדש ליומן',
+      });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: (error as Error)?.message || 'נכשל ביצירת הקישור',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getCalendarFeedUrl(token));
+      toast({
+        title: 'הועתק',
+        description: 'הקישור הועתק - הדבק אותו ב"הוספת יומן מכתובת URL"',
+      });
+    } catch {
+      toast({
+        title: 'שגיאה',
+        description: 'לא ניתן להעתיק את הקישור',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRevoke = async (tokenId: string) => {
+    if (!window.confirm('היומן המחובר לקישור זה יפסיק להתעדכן. לבטל את הקישור?')) return;
+
+    try {
+      await revokeToken.mutateAsync(tokenId);
+      toast({
+        title: 'הצלחה',
+        description: 'הקישור בוטל',
+      });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: (error as Error)?.message || 'נכשל בביטול הקישור',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">סנכרון פגישות ליומן</DialogTitle>
+          <DialogDescription className="text-right">
+            הפגישות שאתה אחראי עליהן יופיעו ביומן בטלפון ויתעדכנו אוטומטית. אל תשתף את הקישור - כל מי שמחזיק בו יכול לראות את הפגישות.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex gap-2">
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="שם המכשיר (לדוגמה: אייפון)"
+              disabled={createToken.isPending}
+            />
+            <Button
+              onClick={handleCreate}
+              disabled={createToken.isPending}
+              className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white flex-shrink-0"
+            >
+              {createToken.isPending ? <Loader2 className="h-4 w-4 animate-spin ml-2" /> : <CalendarPlus className="h-4 w-4 ml-2" />}
+              צור קישור
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-[#5B6FB9]" />
+            </div>
+          ) : activeTokens.length === 0 ? (
+            <p className="py-4 text-sm text-center text-gray-500">אין קישורים פעילים</p>
+          ) : (
+            <div className="space-y-2">
+              {activeTokens.map((token) => (
+                <div key={token.id} className="rounded-lg border border-gray-200 p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{token.label || 'יומן'}</p>
+                      <p className="text-xs text-gray-500">
+                        נוצר {format(new Date(token.created_at), 'dd/MM/yyyy')}
+                        {' · '}
+                        {token.last_used_at
+                          ? `סונכרן לאחרונה ${format(new Date(token.last_used_at), 'dd/MM/yyyy HH:mm')}`
+                          : 'טרם סונכרן'}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button variant="outline" size="sm" onClick={() => handleCopy(token.token)}>
+                        <Copy className="h-3.5 w-3.5 ml-1" />
+                        העתק
+                      </Button>
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={getCalendarSubscribeUrl(token.token)}>הוסף ליומן</a>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(token.id)}
+                        disabled={revokeToken.isPending}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        title="בטל קישור"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <Input value={getCalendarFeedUrl(token.token)} readOnly dir="ltr" className="text-xs h-8" onFocus={(e) => e.target.select()} />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {revokedTokens.length > 0 && (
+            <div className="space-y-1 pt-2 border-t border-gray-100">
+              <p className="text-xs font-medium text-gray-500">קישורים שבוטלו</p>
+              {revokedTokens.map((token) => (
+                <div key={token.id} className="flex items-center justify-between text-xs text-gray-500">
+                  <span>{token.label || 'יומן'}</span>
+                  <Badge variant="outline" className="text-[10px]">
+                    בוטל {format(new Date(token.revoked_at as string), 'dd/MM/yyyy')}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
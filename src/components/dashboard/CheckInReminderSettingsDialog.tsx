@@ -0,0 +1,162 @@
+/**
+ * CheckInReminderSettingsDialog Component
+ *
+ * Settings for missed daily check-in alerts: after how many days without a check-in
+ * the coach is notified, and an optional WhatsApp flow sent to the trainee.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RTLSwitch } from '@/components/ui/RTLSwitch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppSelector } from '@/store/hooks';
+import { useAutomationFlows } from '@/hooks/useAutomationFlows';
+import {
+  DEFAULT_MISSED_CHECK_IN_DAYS,
+  useCheckInReminderSettings,
+  useUpdateCheckInReminderSettings,
+} from '@/hooks/useCheckInCompliance';
+import { useToast } from '@/hooks/use-toast';
+
+const NO_REMINDER = '__none__';
+
+interface CheckInReminderSettingsDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const CheckInReminderSettingsDialog: React.FC<CheckInReminderSettingsDialogProps> = ({
+  isOpen,
+  onOpenChange,
+}) => {
+  const { toast } = useToast();
+  const { user } = useAppSelector((state) => state.auth);
+  const { flows } = useAutomationFlows();
+  const { data: settings, isLoading } = useCheckInReminderSettings();
+  const updateSettings = useUpdateCheckInReminderSettings();
+
+  const [isActive, setIsActive] = useState(true);
+  const [missedDays, setMissedDays] = useState(DEFAULT_MISSED_CHECK_IN_DAYS);
+  const [reminderFlowKey, setReminderFlowKey] = useState<string>(NO_REMINDER);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (isOpen && settings) {
+      setIsActive(settings.is_active);
+      setMissedDays(settings.missed_days);
+      setReminderFlowKey(settings.reminder_flow_key || NO_REMINDER);
+    }
+  }, [isOpen, settings]);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      await updateSettings.mutateAsync({
+        id: settings.id,
+        is_active: isActive,
+        missed_days: Math.min(30, Math.max(1, missedDays || DEFAULT_MISSED_CHECK_IN_DAYS)),
+        reminder_flow_key: reminderFlowKey === NO_REMINDER ? null : reminderFlowKey,
+      });
+      toast({
+        title: 'הצלחה',
+        description: 'הגדרות התזכורות נשמרו',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בשמירת ההגדרות',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">תזכורות דיווח יומי</DialogTitle>
+          <DialogDescription className="text-right">
+            מתאמנים פעילים שלא מילאו דיווח יומי יסומנו, והמאמן שלהם יקבל התראה (פעם אחת עד הדיווח הבא)
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-[#5B6FB9]" />
+          </div>
+        ) : !settings ? (
+          <p className="py-6 text-sm text-center text-gray-500">הגדרות התזכורות אינן זמינות</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-between">
+              <Label>זיהוי דיווחים חסרים</Label>
+              <RTLSwitch checked={isActive} onCheckedChange={setIsActive} disabled={!isAdmin} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="missed-days">ימים ללא דיווח</Label>
+              <Input
+                id="missed-days"
+                type="number"
+                min={1}
+                max={30}
+                value={missedDays}
+                onChange={(e) => setMissedDays(Number(e.target.value))}
+                disabled={!isAdmin || !isActive}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>תזכורת וואטסאפ למתאמן</Label>
+              <Select value={reminderFlowKey} onValueChange={setReminderFlowKey} disabled={!isAdmin || !isActive} dir="rtl">
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_REMINDER}>ללא - התראה למאמן בלבד</SelectItem>
+                  {flows.map((flow) => (
+                    <SelectItem key={flow.key} value={flow.key}>
+                      {flow.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!isAdmin && (
+              <p className="text-xs text-gray-500">רק מנהלים יכולים לשנות את ההגדרות</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            ביטול
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!settings || !isAdmin || updateSettings.isPending}
+            className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white"
+          >
+            {updateSettings.isPending && <Loader2 className="h-4 w-4 animate-spin ml-2" />}
+            שמור
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,68 @@
+/**
+ * CheckInStreakBadge Component
+ *
+ * Daily check-in compliance of a trainee: the current streak, or how long ago the
+ * last check-in was (red once it passes the missed check-in threshold).
+ */
+
+import React from 'react';
+import { Flame, CalendarX, CalendarCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { DEFAULT_MISSED_CHECK_IN_DAYS, getDaysSinceCheckIn } from '@/hooks/useCheckInCompliance';
+
+interface CheckInStreakBadgeProps {
+  streak: number;
+  lastCheckInDate: string | null | undefined;
+  checkInsLast7Days?: number;
+  missedDays?: number; // Threshold for the missed check-in alert
+  className?: string;
+}
+
+export const CheckInStreakBadge: React.FC<CheckInStreakBadgeProps> = ({
+  streak,
+  lastCheckInDate,
+  checkInsLast7Days,
+  missedDays = DEFAULT_MISSED_CHECK_IN_DAYS,
+  className,
+}) => {
+  const daysSince = getDaysSinceCheckIn(lastCheckInDate);
+
+  const title = [
+    lastCheckInDate ? `דיווח אחרון: ${format(new Date(`${lastCheckInDate}T00:00:00`), 'dd/MM/yyyy')}` : 'אין דיווחים',
+    checkInsLast7Days !== undefined ? `${checkInsLast7Days}/7 דיווחים בשבוע האחרון` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  let tone: string;
+  let Icon = CalendarCheck;
+  let label: string;
+
+  if (daysSince === null) {
+    tone = 'bg-gray-50 text-gray-500 border-gray-200';
+    Icon = CalendarX;
+    label = 'אין דיווחים';
+  } else if (daysSince >= missedDays) {
+    tone = 'bg-red-50 text-red-700 border-red-200';
+    Icon = CalendarX;
+    label = `לא דיווח/ה ${daysSince} ימים`;
+  } else if (streak > 0) {
+    tone = 'bg-emerald-50 text-emerald-700 border-emerald-200';
+    Icon = Flame;
+    label = `${streak} ימים ברצף`;
+  } else {
+    tone = 'bg-amber-50 text-amber-700 border-amber-200';
+    label = daysSince === 1 ? 'דיווח אחרון אתמול' : `דיווח אחרון לפני ${daysSince} ימים`;
+  }
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 rounded-md border px-1.5 py-0.5 text-xs font-medium whitespace-nowrap', tone, className)}
+      title={title}
+    >
+      <Icon className="h-3 w-3 flex-shrink-0" />
+      {label}
+    </span>
+  );
+};
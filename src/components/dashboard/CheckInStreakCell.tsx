@@ -0,0 +1,27 @@
+/**
+ * CheckInStreakCell Component
+ *
+ * Leads table cell: daily check-in streak / days since the last check-in.
+ */
+
+import React from 'react';
+import type { Lead } from '@/store/slices/dashboardSlice';
+import { CheckInStreakBadge } from '@/components/dashboard/CheckInStreakBadge';
+import { useCheckInReminderSettings } from '@/hooks/useCheckInCompliance';
+
+export const CheckInStreakCell: React.FC<{ lead: Lead }> = ({ lead }) => {
+  const { data: settings } = useCheckInReminderSettings();
+
+  if (!lead.lastCheckInDate && !lead.checkInStreak) {
+    return <span className="text-gray-400">-</span>;
+  }
+
+  return (
+    <CheckInStreakBadge
+      streak={lead.checkInStreak || 0}
+      lastCheckInDate={lead.lastCheckInDate}
+      checkInsLast7Days={lead.checkInsLast7Days}
+      missedDays={settings?.missed_days}
+    />
+  );
+};
@@ -66,6 +66,11 @@ import { useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { AddLeadDialogWithCustomer } from './AddLeadDialogWithCustomer';
 import { AvatarUpload } from './AvatarUpload';
+import { useWhatsAppConversation } from '@/hooks/useWhatsAppConversation';
+import { useCheckInStats, useCheckInReminderSettings } from '@/hooks/useCheckInCompliance';
+import { CheckInStreakBadge } from './CheckInStreakBadge';
+import { OnboardingStatusBadge } from './OnboardingStatusBadge';
+import { useTraineeOnboarding } from '@/hooks/useTraineeOnboarding';
 
 interface LeadData {
   id: string;
@@ -105,7 +110,7 @@ export const ClientHeroBar: React.FC<ClientHeroBarProps> = ({
   notesCount = 0,
 }) => {
   const dispatch = useAppDispatch();
-  const { isHistoryOpen, isNotesOpen, toggleHistory, toggleNotes } = useLeadSidebar();
+  const { isHistoryOpen, isNotesOpen, isWhatsAppOpen, toggleHistory, toggleNotes, toggleWhatsApp } = useLeadSidebar();
   const { user } = useAppSelector((state) => state.auth);
   const { invitations } = useAppSelector((state) => state.invitation);
   const { toast } = useToast();
@@ -113,6 +118,10 @@ export const ClientHeroBar: React.FC<ClientHeroBarProps> = ({
   const navigate = useNavigate();
   const { data: allMeetingsData, isLoading: isLoadingMeetings } = useMeetings();
   const allMeetings = allMeetingsData?.data || [];
+  const { unreadCount: whatsAppUnreadCount } = useWhatsAppConversation(customer?.id);
+  const { data: checkInStats } = useCheckInStats(customer?.user_id ? customer.id : null);
+  const { data: checkInReminderSettings } = useCheckInReminderSettings();
+  const { data: onboardingData } = useTraineeOnboarding(customer?.user_id ? customer.id : null);
 
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [deleteType, setDeleteType] = useState<'lead' | 'customer' | null>(null);
@@ -342,6 +351,25 @@ export const ClientHeroBar: React.FC<ClientHeroBarProps> = ({
           <h1 className="text-sm sm:text-base font-bold text-gray-900 flex-shrink-0 truncate max-w-[100px] sm:max-w-[150px] lg:max-w-none">{customer.full_name}</h1>
         )}
 
+        {/* Daily check-in streak - trainees only */}
+        {customer.user_id && (
+          <CheckInStreakBadge
+            streak={checkInStats?.current_streak || 0}
+            lastCheckInDate={checkInStats?.last_check_in_date}
+            checkInsLast7Days={checkInStats?.check_ins_last_7_days ?? 0}
+            missedDays={checkInReminderSettings?.missed_days}
+            className="hidden sm:inline-flex flex-shrink-0"
+          />
+        )}
+
+        {/* First-login onboarding - trainees only */}
+        {customer.user_id && onboardingData?.isAvailable && (
+          <OnboardingStatusBadge
+            onboarding={onboardingData.onboarding}
+            className="hidden sm:inline-flex flex-shrink-0"
+          />
+        )}
+
         {/* Phone - On same line - Editable - Hidden on very small screens */}
         {onUpdateCustomer && customer && (
           <div className="hidden sm:flex items-center gap-1.5 flex-shrink-0 group/phone">
@@ -591,6 +619,34 @@ export const ClientHeroBar: React.FC<ClientHeroBarProps> = ({
             </TooltipContent>
           </Tooltip>
 
+          {/* WhatsApp Chat Toggle Button - Hidden on mobile */}
+          <Tooltip delayDuration={0}>
+            <TooltipTrigger asChild>
+              <Button
+                size="icon"
+                onClick={toggleWhatsApp}
+                className={cn(
+                  "hidden lg:flex h-8 w-8 rounded-lg transition-colors relative flex-shrink-0",
+                  isWhatsAppOpen
+                    ? "bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white"
+                    : "bg-transparent text-gray-700 hover:bg-[#5B6FB9] hover:text-white border border-gray-200"
+                )}
+              >
+                <WhatsAppIcon className="h-4 w-4" />
+                {whatsAppUnreadCount > 0 && (
+                  <Badge
+                    className="absolute -top-1 -right-1 h-4 min-w-4 px-1 flex items-center justify-center text-[10px] font-semibold rounded-full border-2 bg-green-600 text-white border-white"
+                  >
+                    {whatsAppUnreadCount > 99 ? '99+' : whatsAppUnreadCount}
+                  </Badge>
+                )}
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom" align="center" dir="rtl">
+              <p>שיחת וואטסאפ {whatsAppUnreadCount > 0 && `(${whatsAppUnreadCount} חדשות)`}</p>
+            </TooltipContent>
+          </Tooltip>
+
           {/* Notes Toggle Button - Hidden on mobile */}
           <Tooltip delayDuration={0}>
             <TooltipTrigger asChild>
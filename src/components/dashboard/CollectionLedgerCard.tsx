@@ -0,0 +1,118 @@
+/**
+ * CollectionLedgerCard Component
+ *
+ * Ledger (כרטסת) of a collection: the amount due, payments, refunds and the running balance.
+ */
+
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BookOpen, ExternalLink } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useCollectionLedger } from '@/hooks/useCollectionLedger';
+import type { AllCollectionRecord } from '@/hooks/useAllCollections';
+import type { LedgerEntryType } from '@/utils/collections';
+import { formatMoney } from '@/utils/currency';
+
+interface CollectionLedgerCardProps {
+  collection: AllCollectionRecord;
+}
+
+const ENTRY_TYPES: Record<LedgerEntryType, { label: string; className: string }> = {
+  charge: { label: 'חיוב', className: 'bg-slate-50 text-slate-700 border-slate-200' },
+  payment: { label: 'תשלום', className: 'bg-green-50 text-green-700 border-green-200' },
+  refund: { label: 'החזר', className: 'bg-orange-50 text-orange-700 border-orange-200' },
+  pending: { label: 'ממתין', className: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  failed: { label: 'נכשל', className: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+export const CollectionLedgerCard: React.FC<CollectionLedgerCardProps> = ({ collection }) => {
+  const navigate = useNavigate();
+  const { data: entries = [], isLoading } = useCollectionLedger(collection);
+  const formatAmount = (amount: number) => formatMoney(amount, collection.currency);
+
+  return (
+    <Card className="p-4 border border-slate-200 rounded-xl shadow-sm bg-white" style={{ minWidth: 0 }}>
+      <div className="flex items-center justify-between gap-2 mb-4 pb-3 border-b border-slate-100">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-emerald-100 flex items-center justify-center">
+            <BookOpen className="h-4 w-4 text-emerald-600" />
+          </div>
+          <h3 className="text-sm font-bold text-gray-900">כרטסת</h3>
+        </div>
+        {(collection.refunded_amount || 0) > 0 && (
+          <span className="text-xs text-orange-700">הוחזרו {formatAmount(collection.refunded_amount || 0)}</span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 text-center py-4">טוען...</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-9 text-right text-xs">תאריך</TableHead>
+              <TableHead className="h-9 text-right text-xs">סוג</TableHead>
+              <TableHead className="h-9 text-right text-xs">תיאור</TableHead>
+              <TableHead className="h-9 text-right text-xs">סכום</TableHead>
+              <TableHead className="h-9 text-right text-xs">יתרה</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => {
+              const entryType = ENTRY_TYPES[entry.type];
+              const isInformational = entry.type === 'pending' || entry.type === 'failed';
+
+              return (
+                <TableRow
+                  key={entry.id}
+                  className={cn(entry.paymentId && 'cursor-pointer hover:bg-slate-50')}
+                  onClick={() => entry.paymentId && navigate(`/dashboard/payments/${entry.paymentId}`)}
+                >
+                  <TableCell className="py-2 text-xs text-gray-600 whitespace-nowrap">
+                    {format(new Date(entry.date), 'dd/MM/yyyy')}
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <Badge variant="outline" className={cn('text-[10px] px-1.5 py-0', entryType.className)}>
+                      {entryType.label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="py-2 text-xs text-gray-900">
+                    <div className="flex items-center gap-1">
+                      <span className="truncate">{entry.description}</span>
+                      {entry.receiptUrl && (
+                        <a
+                          href={entry.receiptUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-blue-600 hover:text-blue-700 flex-shrink-0"
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell
+                    className={cn(
+                      'py-2 text-xs font-semibold whitespace-nowrap',
+                      isInformational ? 'text-gray-400' : entry.amount < 0 ? 'text-green-600' : 'text-gray-900'
+                    )}
+                  >
+                    {isInformational ? '-' : formatAmount(entry.amount)}
+                  </TableCell>
+                  <TableCell className="py-2 text-xs font-semibold text-gray-900 whitespace-nowrap">
+                    {formatAmount(entry.balance)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+};
@@ -8,10 +8,12 @@ import React, { useState, useMemo } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Receipt, Plus, Calendar, Trash2 } from 'lucide-react';
+import { Receipt, Plus, Calendar, Trash2, CalendarRange } from 'lucide-react';
 import { useCollectionsByLead } from '@/hooks/useCollectionsByLead';
 import { usePaymentHistory } from '@/hooks/usePaymentHistory';
 import { AddCollectionDialog } from './dialogs/AddCollectionDialog';
+import { CreateInstallmentPlanDialog } from './dialogs/CreateInstallmentPlanDialog';
+import { InstallmentPlansSection } from './InstallmentPlansSection';
 import { format } from 'date-fns';
 import { he } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
@@ -31,6 +33,7 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabaseClient';
 import { useQueryClient } from '@tanstack/react-query';
+import { formatMoney } from '@/utils/currency';
 
 interface CollectionsCardProps {
   leadId: string | null;
@@ -46,6 +49,7 @@ export const CollectionsCard: React.FC<CollectionsCardProps> = ({
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isInstallmentDialogOpen, setIsInstallmentDialogOpen] = useState(false);
   const [selectedCollections, setSelectedCollections] = useState<Set<string>>(new Set());
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const { data: collections = [], isLoading } = useCollectionsByLead(leadId);
@@ -56,30 +60,14 @@ export const CollectionsCard: React.FC<CollectionsCardProps> = ({
     return paymentHistory.filter((payment) => !payment.collection_id);
   }, [paymentHistory]);
 
-  // Calculate remaining amount for each collection
-  const collectionsWithRemaining = useMemo(() => {
-    return collections.map((collection) => {
-      const linkedPayments = paymentHistory.filter(
-        (payment) => payment.collection_id === collection.id
-      );
-      const paidAmount = linkedPayments.reduce((sum, payment) => sum + (payment.amount || 0), 0);
-      const remaining = Math.max(0, collection.total_amount - paidAmount);
-      return {
-        ...collection,
-        paidAmount,
-        remaining,
-      };
-    });
-  }, [collections, paymentHistory]);
-
   // Sort collections by date (most recent first)
   const sortedCollections = useMemo(() => {
-    return [...collectionsWithRemaining].sort((a, b) => {
+    return [...collections].sort((a, b) => {
       const dateA = a.due_date || a.created_at;
       const dateB = b.due_date || b.created_at;
       return new Date(dateB).getTime() - new Date(dateA).getTime();
     });
-  }, [collectionsWithRemaining]);
+  }, [collections]);
 
   const handleCreateCollection = () => {
     setIsAddDialogOpen(true);
@@ -157,12 +145,7 @@ export const CollectionsCard: React.FC<CollectionsCardProps> = ({
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('he-IL', {
-      style: 'currency',
-      currency: 'ILS',
-    }).format(amount);
-  };
+  const formatCurrency = (amount: number, currency?: string) => formatMoney(amount, currency);
 
   if (!leadId) {
     return null;
@@ -190,6 +173,15 @@ export const CollectionsCard: React.FC<CollectionsCardProps> = ({
                   מחק ({selectedCollections.size})
                 </Button>
               )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setIsInstallmentDialogOpen(true)}
+                className="h-8 text-xs"
+              >
+                <CalendarRange className="h-3.5 w-3.5 mr-1" />
+                פריסת תשלומים
+              </Button>
               <Button
                 size="sm"
                 onClick={handleCreateCollection}
@@ -202,6 +194,8 @@ export const CollectionsCard: React.FC<CollectionsCardProps> = ({
           </div>
         </div>
 
+        <InstallmentPlansSection leadId={leadId} />
+
         <div className="flex-1 overflow-auto max-h-[300px]">
           {isLoading ? (
             <div className="text-center text-gray-500 py-8">
@@ -242,7 +236,7 @@ export const CollectionsCard: React.FC<CollectionsCardProps> = ({
                             onCheckedChange={(checked) => handleCollectionToggle(collection.id, checked === true)}
                           />
                         </TableCell>
-                        <TableCell className="text-xs py-3 px-3 text-gray-900 text-right align-middle">
+                        <TableCell className={cn("text-xs py-3 px-3 text-right align-middle", collection.is_overdue ? "text-red-600 font-semibold" : "text-gray-900")}>
                           {collection.due_date
                             ? format(new Date(collection.due_date), 'dd/MM/yyyy', { locale: he })
                             : format(new Date(collection.created_at), 'dd/MM/yyyy', { locale: he })
@@ -254,10 +248,10 @@ export const CollectionsCard: React.FC<CollectionsCardProps> = ({
                           </Badge>
                         </TableCell>
                         <TableCell className="text-xs py-3 px-3 text-gray-900 font-semibold text-right align-middle">
-                          {formatCurrency(collection.total_amount)}
+                          {formatCurrency(collection.total_amount, collection.currency)}
                         </TableCell>
                         <TableCell className="text-xs py-3 px-3 text-gray-700 text-right align-middle">
-                          {formatCurrency(collection.remaining)}
+                          {formatCurrency(collection.remaining_amount || 0, collection.currency)}
                         </TableCell>
                       </TableRow>
                     ))}
@@ -278,6 +272,12 @@ export const CollectionsCard: React.FC<CollectionsCardProps> = ({
         }}
       />
 
+      <CreateInstallmentPlanDialog
+        isOpen={isInstallmentDialogOpen}
+        onOpenChange={setIsInstallmentDialogOpen}
+        leadId={leadId}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent dir="rtl">
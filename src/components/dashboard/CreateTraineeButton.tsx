@@ -14,9 +14,7 @@ import {
 } from '@/components/ui/tooltip';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { createTraineeUserWithPassword } from '@/store/slices/invitationSlice';
-import { startImpersonation } from '@/store/slices/impersonationSlice';
 import { useToast } from '@/hooks/use-toast';
-import { useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '@/lib/supabaseClient';
 import {
   Dialog,
@@ -33,6 +31,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertCircle, CheckCircle2 } from 'lucide-react';
 import { sendWhatsAppMessage, replacePlaceholders } from '@/services/greenApiService';
 import { TemplateEditorModal } from './TemplateEditorModal';
+import { ImpersonationReasonDialog } from './ImpersonationReasonDialog';
 import { fetchTemplates, saveTemplate } from '@/store/slices/automationSlice';
 import {
   Select,
@@ -41,7 +40,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { getActiveFlows, getFlowLabel } from '@/utils/whatsappAutomationFlows';
+import { useAutomationFlows } from '@/hooks/useAutomationFlows';
 
 interface CreateTraineeButtonProps {
   customerId: string;
@@ -59,12 +58,11 @@ export const CreateTraineeButton: React.FC<CreateTraineeButtonProps> = ({
   customerPhone,
 }) => {
   const dispatch = useAppDispatch();
-  const navigate = useNavigate();
-  const location = useLocation();
   const { toast } = useToast();
   const { user } = useAppSelector((state) => state.auth);
   const { isLoading } = useAppSelector((state) => state.invitation);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isImpersonationDialogOpen, setIsImpersonationDialogOpen] = useState(false);
   const [isTemplateEditorOpen, setIsTemplateEditorOpen] = useState(false);
   const [email, setEmail] = useState(customerEmail || '');
   const [password, setPassword] = useState('');
@@ -81,6 +79,7 @@ export const CreateTraineeButton: React.FC<CreateTraineeButtonProps> = ({
   const [isLoadingTemplates, setIsLoadingTemplates] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
 
+  const { getActiveFlows, getFlowLabel } = useAutomationFlows();
   const traineeFlowLabel = getFlowLabel('trainee_user_credentials', 'פרטי כניסה למתאמן');
 
   // Default template for trainee user credentials
@@ -160,7 +159,7 @@ export const CreateTraineeButton: React.FC<CreateTraineeButtonProps> = ({
     if (isDialogOpen) {
       loadTemplates();
     }
-  }, [dispatch, isDialogOpen]);
+  }, [dispatch, isDialogOpen, getActiveFlows]);
 
   // Check if customer already has a user account
   useEffect(() => {
@@ -343,7 +342,7 @@ export const CreateTraineeButton: React.FC<CreateTraineeButtonProps> = ({
     }
   };
 
-  const handleWatchAsUser = async () => {
+  const handleWatchAsUser = () => {
     if (!existingUserId || !customerId) {
       toast({
         title: 'שגיאה',
@@ -353,38 +352,9 @@ export const CreateTraineeButton: React.FC<CreateTraineeButtonProps> = ({
       return;
     }
 
-    try {
-      // Store current location before navigating
-      const currentLocation = location.pathname + location.search;
-      
-      // Start impersonation
-      dispatch(
-        startImpersonation({
-          userId: existingUserId,
-          customerId,
-          originalUser: {
-            id: user!.id,
-            email: user!.email || '',
-            role: user!.role || 'user',
-          },
-          previousLocation: currentLocation,
-        })
-      );
-
-      // Navigate to client dashboard
-      navigate('/client/dashboard');
-      
-      toast({
-        title: 'מצב תצוגה פעיל',
-        description: 'אתה צופה בממשק הלקוח. לחץ על "יציאה ממצב תצוגה" כדי לחזור.',
-      });
-    } catch (error: any) {
-      toast({
-        title: 'שגיאה',
-        description: 'נכשל בכניסה למצב תצוגה',
-        variant: 'destructive',
-      });
-    }
+    // The session (reason, duration) is started from the reason dialog
+    setIsDialogOpen(false);
+    setIsImpersonationDialogOpen(true);
   };
 
   const handleSendWhatsApp = async () => {
@@ -428,6 +398,7 @@ export const CreateTraineeButton: React.FC<CreateTraineeButtonProps> = ({
         phoneNumber: customerPhone,
         message,
         buttons: processedButtons,
+        flowKey: selectedTemplateKey && selectedTemplateKey !== 'default' ? selectedTemplateKey : null,
       });
 
       if (result.success) {
@@ -453,15 +424,23 @@ export const CreateTraineeButton: React.FC<CreateTraineeButtonProps> = ({
   if (userExists && existingUserId && !isCheckingUser) {
     const isInactive = existingUserIsActive === false;
     return (
-      <Button
-        size="default"
-        onClick={handleWatchAsUser}
-        disabled={isInactive}
-        className="bg-transparent text-gray-700 hover:bg-[#5B6FB9] hover:text-white border border-gray-200 text-base font-semibold rounded-lg px-4 py-2 flex items-center gap-2"
-      >
-        <Eye className="h-5 w-5" strokeWidth={2.5} />
-        <span>{isInactive ? 'משתמש מושבת' : 'צפה כמתאמן'}</span>
-      </Button>
+      <>
+        <Button
+          size="default"
+          onClick={handleWatchAsUser}
+          disabled={isInactive}
+          className="bg-transparent text-gray-700 hover:bg-[#5B6FB9] hover:text-white border border-gray-200 text-base font-semibold rounded-lg px-4 py-2 flex items-center gap-2"
+        >
+          <Eye className="h-5 w-5" strokeWidth={2.5} />
+          <span>{isInactive ? 'משתמש מושבת' : 'צפה כמתאמן'}</span>
+        </Button>
+        <ImpersonationReasonDialog
+          isOpen={isImpersonationDialogOpen}
+          onOpenChange={setIsImpersonationDialogOpen}
+          customerId={customerId || null}
+          customerName={customerName}
+        />
+      </>
     );
   }
 
@@ -668,6 +647,7 @@ export const CreateTraineeButton: React.FC<CreateTraineeButtonProps> = ({
         flowKey="trainee_user_credentials"
         flowLabel={traineeFlowLabel}
         initialTemplate={messageTemplate || DEFAULT_TRAINEE_TEMPLATE}
+        previewLeadId={leadId}
         onSave={async (template, buttons, media) => {
           try {
             // Save to database
@@ -688,6 +668,13 @@ export const CreateTraineeButton: React.FC<CreateTraineeButtonProps> = ({
           }
         }}
       />
+
+      <ImpersonationReasonDialog
+        isOpen={isImpersonationDialogOpen}
+        onOpenChange={setIsImpersonationDialogOpen}
+        customerId={customerId || null}
+        customerName={customerName}
+      />
     </Dialog>
   );
 };
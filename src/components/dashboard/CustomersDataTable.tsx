@@ -6,6 +6,7 @@ import { customerColumns } from './columns/customerColumns';
 interface CustomersDataTableProps {
   customers: Customer[];
   onBulkDelete?: (payload: { ids: string[]; selectAllAcrossPages: boolean; totalCount: number }) => Promise<void> | void;
+  onBulkBroadcast?: (payload: { ids: string[]; selectAllAcrossPages: boolean; totalCount: number }) => void;
   onSortChange?: (columnId: string, sortOrder: 'ASC' | 'DESC') => void;
   sortBy?: string;
   sortOrder?: 'ASC' | 'DESC';
@@ -16,6 +17,7 @@ interface CustomersDataTableProps {
 export const CustomersDataTable = ({ 
   customers, 
   onBulkDelete,
+  onBulkBroadcast,
   onSortChange,
   sortBy,
   sortOrder,
@@ -41,6 +43,7 @@ export const CustomersDataTable = ({
       enableRowSelection
       totalCount={customers.length}
       onBulkDelete={onBulkDelete}
+      onBulkBroadcast={onBulkBroadcast}
       selectionLabel="לקוחות"
       groupCurrentPage={groupCurrentPage}
       groupPageSize={groupPageSize}
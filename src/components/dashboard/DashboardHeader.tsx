@@ -6,13 +6,16 @@ import { useUpdateSidebarWidthPreference } from '@/hooks/useSidebarWidthPreferen
 import { cn } from '@/lib/utils';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { toggleSidebar, setSidebarWidth } from '@/store/slices/sidebarSlice';
-import { ChevronRight, ChevronLeft, LogOut, Eye, Menu, X, UserSearch } from 'lucide-react';
-import { stopImpersonation } from '@/store/slices/impersonationSlice';
+import { ChevronRight, ChevronLeft, LogOut, Eye, Menu, X, UserSearch, CalendarSync, ShieldCheck } from 'lucide-react';
+import { useStopImpersonation } from '@/hooks/useImpersonationSession';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { NotificationBell } from '@/components/dashboard/NotificationBell';
 import { UserImpersonationDialog } from '@/components/dashboard/UserImpersonationDialog';
+import { CalendarFeedDialog } from '@/components/dashboard/CalendarFeedDialog';
+import { StaffPermissionsDialog } from '@/components/dashboard/StaffPermissionsDialog';
+import { usePermissions } from '@/hooks/useStaffPermissions';
 
 // Custom hook to detect if screen is desktop (lg breakpoint = 1024px)
 const useIsDesktop = () => {
@@ -49,9 +52,13 @@ export const DashboardHeader = ({
   const navigate = useNavigate();
   const location = useLocation();
   const { user } = useAppSelector((state) => state.auth);
-  const { isImpersonating, previousLocation } = useAppSelector((state) => state.impersonation);
+  const { isImpersonating } = useAppSelector((state) => state.impersonation);
+  const stopImpersonationSession = useStopImpersonation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isImpersonationDialogOpen, setIsImpersonationDialogOpen] = useState(false);
+  const [isCalendarFeedDialogOpen, setIsCalendarFeedDialogOpen] = useState(false);
+  const [isStaffPermissionsDialogOpen, setIsStaffPermissionsDialogOpen] = useState(false);
+  const { can } = usePermissions();
   const [isResizing, setIsResizing] = useState(false);
   const isDesktop = useIsDesktop();
   const startXRef = useRef<number>(0);
@@ -73,6 +80,9 @@ export const DashboardHeader = ({
     user && 
     (user.role === 'admin' || user.role === 'user');
 
+  const isStaff = !!user && (user.role === 'admin' || user.role === 'user');
+  const canManageStaff = isStaff && can('users');
+
   const handleToggleSidebar = () => {
     dispatch(toggleSidebar());
   };
@@ -312,12 +322,7 @@ export const DashboardHeader = ({
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => {
-                    dispatch(stopImpersonation());
-                    // Navigate back to previous location or default to dashboard
-                    const returnPath = previousLocation || '/dashboard';
-                    navigate(returnPath);
-                  }}
+                  onClick={() => stopImpersonationSession()}
                   className="h-6 px-2 text-orange-600 hover:bg-orange-100 flex-shrink-0"
                 >
                   יציאה
@@ -360,6 +365,30 @@ export const DashboardHeader = ({
                     <span className="text-sm sm:text-base font-semibold text-gray-900 break-all">{userEmail}</span>
                   </div>
                   <div className="h-px bg-gray-200" />
+                  {isStaff && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="default"
+                      onClick={() => setIsCalendarFeedDialogOpen(true)}
+                      className="w-full text-gray-700 hover:bg-gray-100 text-base rounded-lg px-4 py-2 justify-start"
+                    >
+                      <CalendarSync className="h-4 w-4 ml-2" />
+                      סנכרון פגישות ליומן
+                    </Button>
+                  )}
+                  {canManageStaff && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="default"
+                      onClick={() => setIsStaffPermissionsDialogOpen(true)}
+                      className="w-full text-gray-700 hover:bg-gray-100 text-base rounded-lg px-4 py-2 justify-start"
+                    >
+                      <ShieldCheck className="h-4 w-4 ml-2" />
+                      תפקידים והרשאות
+                    </Button>
+                  )}
                   <Button
                     type="button"
                     variant="outline"
@@ -386,6 +415,22 @@ export const DashboardHeader = ({
         </div>
       </header>
 
+      {/* Calendar Feed Dialog */}
+      {isStaff && (
+        <CalendarFeedDialog
+          isOpen={isCalendarFeedDialogOpen}
+          onOpenChange={setIsCalendarFeedDialogOpen}
+        />
+      )}
+
+      {/* Staff Permissions Dialog */}
+      {canManageStaff && (
+        <StaffPermissionsDialog
+          isOpen={isStaffPermissionsDialogOpen}
+          onOpenChange={setIsStaffPermissionsDialogOpen}
+        />
+      )}
+
       {/* User Impersonation Dialog */}
       {showImpersonationButton && (
         <UserImpersonationDialog
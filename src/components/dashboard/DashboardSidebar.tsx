@@ -31,6 +31,8 @@ import {
 import { useInterfaceOrder, useUpdateInterfaceOrders } from '@/hooks/useInterfaceOrder';
 import { useToast } from '@/hooks/use-toast';
 import { useDefaultView } from '@/hooks/useDefaultView';
+import { usePermissions } from '@/hooks/useStaffPermissions';
+import type { StaffPermission } from '@/utils/permissions';
 
 interface NavItem {
   id: string;
@@ -38,6 +40,7 @@ interface NavItem {
   label: string;
   icon: React.ComponentType<{ className?: string }>;
   path: string;
+  permission: StaffPermission; // Hidden from staff without this capability
 }
 
 const navigationItems: NavItem[] = [
@@ -47,6 +50,7 @@ const navigationItems: NavItem[] = [
     label: 'לידים',
     icon: UserPlus,
     path: '/dashboard',
+    permission: 'leads',
   },
   {
     id: 'customers',
@@ -54,6 +58,7 @@ const navigationItems: NavItem[] = [
     label: 'לקוחות',
     icon: Users,
     path: '/dashboard/customers',
+    permission: 'leads',
   },
   {
     id: 'meetings',
@@ -61,6 +66,7 @@ const navigationItems: NavItem[] = [
     label: 'פגישות',
     icon: Calendar,
     path: '/dashboard/meetings',
+    permission: 'meetings',
   },
   {
     id: 'templates',
@@ -68,6 +74,7 @@ const navigationItems: NavItem[] = [
     label: 'תכניות אימונים',
     icon: Dumbbell,
     path: '/dashboard/templates',
+    permission: 'plans',
   },
   {
     id: 'exercises',
@@ -75,6 +82,7 @@ const navigationItems: NavItem[] = [
     label: 'תרגילים',
     icon: Target,
     path: '/dashboard/exercises',
+    permission: 'plans',
   },
   {
     id: 'nutrition-templates',
@@ -82,6 +90,7 @@ const navigationItems: NavItem[] = [
     label: 'תבניות תזונה',
     icon: Apple,
     path: '/dashboard/nutrition-templates',
+    permission: 'plans',
   },
   {
     id: 'supplement-templates',
@@ -89,6 +98,7 @@ const navigationItems: NavItem[] = [
     label: 'תוספים',
     icon: Pill,
     path: '/dashboard/supplement-templates',
+    permission: 'plans',
   },
   {
     id: 'budgets',
@@ -96,6 +106,7 @@ const navigationItems: NavItem[] = [
     label: 'תכניות פעולה',
     icon: Calculator,
     path: '/dashboard/budgets',
+    permission: 'plans',
   },
   {
     id: 'payments',
@@ -103,6 +114,7 @@ const navigationItems: NavItem[] = [
     label: 'תשלומים',
     icon: CreditCard,
     path: '/dashboard/payments',
+    permission: 'payments',
   },
   {
     id: 'collections',
@@ -110,6 +122,7 @@ const navigationItems: NavItem[] = [
     label: 'גבייה',
     icon: Receipt,
     path: '/dashboard/collections',
+    permission: 'payments',
   },
   {
     id: 'subscription-types',
@@ -117,6 +130,7 @@ const navigationItems: NavItem[] = [
     label: 'סוגי מנויים',
     icon: CreditCard,
     path: '/dashboard/subscription-types',
+    permission: 'payments',
   },
   {
     id: 'knowledge-base',
@@ -124,6 +138,7 @@ const navigationItems: NavItem[] = [
     label: 'מאגר ידע',
     icon: Book,
     path: '/dashboard/knowledge-base',
+    permission: 'knowledge_base',
   },
   {
     id: 'check-in-settings',
@@ -131,6 +146,7 @@ const navigationItems: NavItem[] = [
     label: 'הגדרות צ\'ק-אין',
     icon: Settings,
     path: '/dashboard/check-in-settings',
+    permission: 'settings',
   },
   {
     id: 'whatsapp-automations',
@@ -138,6 +154,7 @@ const navigationItems: NavItem[] = [
     label: 'אוטומציית WhatsApp',
     icon: Send,
     path: '/dashboard/whatsapp-automations',
+    permission: 'messaging',
   },
   {
     id: 'analytics',
@@ -145,6 +162,7 @@ const navigationItems: NavItem[] = [
     label: 'אנליטיקה',
     icon: BarChart3,
     path: '/dashboard/analytics',
+    permission: 'analytics',
   },
 ];
 
@@ -177,6 +195,7 @@ export const DashboardSidebar = ({ onSaveViewClick, onEditViewClick }: Dashboard
 
   // Fetch interface order for drag-and-drop
   const { data: interfaceOrder } = useInterfaceOrder();
+  const { can } = usePermissions();
   const updateInterfaceOrders = useUpdateInterfaceOrders();
 
   const [editIconDialogOpen, setEditIconDialogOpen] = useState(false);
@@ -199,10 +218,16 @@ export const DashboardSidebar = ({ onSaveViewClick, onEditViewClick }: Dashboard
     })
   );
 
+  // Only the pages the staff member has permission for
+  const permittedNavigationItems = useMemo(
+    () => navigationItems.filter((item) => can(item.permission)),
+    [can]
+  );
+
   // Sort navigation items based on user's custom order
   const sortedNavigationItems = useMemo(() => {
     if (!interfaceOrder || interfaceOrder.length === 0) {
-      return navigationItems;
+      return permittedNavigationItems;
     }
 
     // Create a map of interface_key to display_order
@@ -217,7 +242,7 @@ export const DashboardSidebar = ({ onSaveViewClick, onEditViewClick }: Dashboard
     const itemsWithOrder: NavItem[] = [];
     const itemsWithoutOrder: NavItem[] = [];
 
-    navigationItems.forEach((item) => {
+    permittedNavigationItems.forEach((item) => {
       const orderEntry = Array.from(orderMap.entries()).find(([_, key]) => key === item.resourceKey);
       if (orderEntry) {
         itemsWithOrder.push({ ...item, _order: orderEntry[0] } as NavItem & { _order: number });
@@ -232,7 +257,7 @@ export const DashboardSidebar = ({ onSaveViewClick, onEditViewClick }: Dashboard
       const { _order, ...rest } = item as any;
       return rest as NavItem;
     });
-  }, [interfaceOrder]);
+  }, [interfaceOrder, permittedNavigationItems]);
 
   // Filter navigation items based on search query
   // Show items that match the label OR show all items (views will be filtered within each item)
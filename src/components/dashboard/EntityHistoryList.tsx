@@ -0,0 +1,135 @@
+/**
+ * EntityHistoryList Component
+ *
+ * Field-by-field change history (entity_audit_log) of a payment, a collection or a whole
+ * trainee profile, in the style of BudgetHistoryList.
+ */
+
+import React from 'react';
+import { ArrowLeft, History } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { formatDate } from '@/utils/dashboard';
+import { useEntityHistory, type EntityHistoryItem, type EntityHistoryScope } from '@/hooks/useEntityHistory';
+import {
+  ENTITY_ACTION_LABELS,
+  ENTITY_TABLE_LABELS,
+  formatEntityHistoryValue,
+  getEntityFieldLabel,
+  isVisibleHistoryField,
+} from '@/utils/entityHistory';
+
+interface EntityHistoryListProps {
+  scope: EntityHistoryScope | null;
+  // Show what was changed (lead, payment, note...) when the history spans several tables
+  showTableName?: boolean;
+}
+
+const ACTION_BADGE_CLASSES: Record<EntityHistoryItem['action'], string> = {
+  create: 'bg-green-50 text-green-700 border-green-200',
+  update: 'bg-blue-50 text-blue-700 border-blue-200',
+  delete: 'bg-red-50 text-red-700 border-red-200',
+};
+
+export const EntityHistoryList: React.FC<EntityHistoryListProps> = ({ scope, showTableName = false }) => {
+  const { data, isLoading } = useEntityHistory(scope);
+  const history = data?.items || [];
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8 min-h-[200px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center p-8 text-center text-gray-500 min-h-[200px]">
+        <History className="h-10 w-10 mb-3 text-gray-300" />
+        <p>אין היסטוריית שינויים</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-[400px] w-full pl-4" dir="rtl">
+      <div className="space-y-2">
+        {history.map((item) => (
+          <EntityHistoryRow
+            key={item.id}
+            item={item}
+            profileNames={data?.profileNames || {}}
+            showTableName={showTableName}
+          />
+        ))}
+      </div>
+    </ScrollArea>
+  );
+};
+
+const EntityHistoryRow = ({
+  item,
+  profileNames,
+  showTableName,
+}: {
+  item: EntityHistoryItem;
+  profileNames: Record<string, string>;
+  showTableName: boolean;
+}) => {
+  const changedFields = item.changed_fields.filter(isVisibleHistoryField);
+  const tableLabel = ENTITY_TABLE_LABELS[item.table_name] || item.table_name;
+
+  return (
+    <Card className="px-4 py-2 border border-slate-100 bg-white hover:bg-slate-50 transition-colors">
+      <div className="flex items-start justify-between gap-4">
+        <Badge variant="outline" className={`${ACTION_BADGE_CLASSES[item.action]} shrink-0`}>
+          {showTableName ? `${ENTITY_ACTION_LABELS[item.action]} ${tableLabel}` : ENTITY_ACTION_LABELS[item.action]}
+        </Badge>
+
+        <div className="flex-1 flex flex-wrap justify-start items-center gap-x-4 gap-y-1 overflow-hidden">
+          {item.action === 'update' ? (
+            changedFields.map((field) => (
+              <div key={field} className="flex items-center gap-1.5 text-xs">
+                <span className="font-medium text-slate-700">{getEntityFieldLabel(field)}:</span>
+                <div className="flex items-center gap-1 bg-slate-50 px-1.5 py-0.5 rounded border border-slate-100">
+                  <span className="text-slate-400 line-through opacity-70 whitespace-normal break-words">
+                    {formatEntityHistoryValue(field, item.old_values?.[field], profileNames)}
+                  </span>
+                  <ArrowLeft className="h-3 w-3 text-slate-300 shrink-0" />
+                  <span className="text-slate-900 font-medium whitespace-normal break-words">
+                    {formatEntityHistoryValue(field, item.new_values?.[field], profileNames)}
+                  </span>
+                </div>
+              </div>
+            ))
+          ) : (
+            <span className="text-xs text-slate-600 truncate">{getRecordSummary(item)}</span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 text-xs text-slate-500 shrink-0">
+          <span>{formatDate(item.changed_at)}</span>
+          <span>{new Date(item.changed_at).toLocaleTimeString('he-IL', { hour: '2-digit', minute: '2-digit' })}</span>
+          <span className="text-slate-300">|</span>
+          <span>{item.changer_name}</span>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+// One line describing a created / deleted row
+const getRecordSummary = (item: EntityHistoryItem): string => {
+  const values = (item.action === 'delete' ? item.old_values : item.new_values) || {};
+  const summaryField = ['product_name', 'content', 'description', 'full_name', 'meeting_type'].find(
+    (field) => typeof values[field] === 'string' && values[field]
+  );
+  const verb = item.action === 'delete' ? 'נמחק/ה' : 'נוצר/ה';
+  const tableLabel = ENTITY_TABLE_LABELS[item.table_name] || item.table_name;
+
+  return summaryField
+    ? `${verb} ${tableLabel}: ${formatEntityHistoryValue(summaryField, values[summaryField])}`
+    : `${verb} ${tableLabel}`;
+};
@@ -0,0 +1,94 @@
+/**
+ * FinanceExportMenu Component
+ *
+ * "ייצוא" button for the payments and collections tables: downloads all rows matching the
+ * table's current filters and search as CSV or XLSX, with a monthly summary (a second sheet in XLSX,
+ * a second file in CSV).
+ */
+
+import React from 'react';
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAppSelector } from '@/store/hooks';
+import { selectFilterGroup, selectSearchQuery } from '@/store/slices/tableStateSlice';
+import { MAX_EXPORT_ROWS, useExportCollections, useExportPayments } from '@/hooks/useFinanceExport';
+import { useToast } from '@/hooks/use-toast';
+import type { ExportFormat } from '@/utils/spreadsheetExport';
+
+interface FinanceExportMenuProps {
+  resourceKey: 'payments' | 'collections';
+}
+
+export const FinanceExportMenu: React.FC<FinanceExportMenuProps> = ({ resourceKey }) => {
+  const { toast } = useToast();
+  const searchQuery = useAppSelector((state) => selectSearchQuery(state, resourceKey));
+  const filterGroup = useAppSelector((state) => selectFilterGroup(state, resourceKey));
+  const exportPayments = useExportPayments();
+  const exportCollections = useExportCollections();
+
+  const exportMutation = resourceKey === 'payments' ? exportPayments : exportCollections;
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      const { count, isTruncated } = await exportMutation.mutateAsync({ search: searchQuery, filterGroup, format });
+      const entityLabel = resourceKey === 'payments' ? 'תשלומים' : 'גביות';
+
+      if (isTruncated) {
+        toast({
+          title: 'אזהרה',
+          description: `הייצוא מוגבל ל-${MAX_EXPORT_ROWS.toLocaleString('he-IL')} שורות ולכן הקובץ חלקי. צמצמו את הסינון (למשל לפי טווח תאריכים) וייצאו בחלקים.`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'הצלחה',
+          description: format === 'csv'
+            ? `יוצאו ${count} ${entityLabel} (שני קבצים: רשומות וסיכום חודשי)`
+            : `יוצאו ${count} ${entityLabel}`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בייצוא הנתונים',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu dir="rtl">
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={exportMutation.isPending}
+          className="rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
+          size="sm"
+        >
+          {exportMutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          <span>ייצוא</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuItem onClick={() => handleExport('xlsx')} className="cursor-pointer flex items-center gap-2">
+          <FileSpreadsheet className="h-4 w-4 flex-shrink-0" />
+          <span>Excel (XLSX)</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('csv')} className="cursor-pointer flex items-center gap-2">
+          <FileText className="h-4 w-4 flex-shrink-0" />
+          <span>CSV</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,139 @@
+/**
+ * ImpersonationReasonDialog Component
+ *
+ * Asks for the reason and duration before "View as Client" starts. The session is recorded
+ * on the server and ends automatically when the time is up.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  DEFAULT_IMPERSONATION_DURATION,
+  IMPERSONATION_DURATION_OPTIONS,
+  useStartImpersonation,
+} from '@/hooks/useImpersonationSession';
+import { useToast } from '@/hooks/use-toast';
+
+interface ImpersonationReasonDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerId: string | null;
+  customerName?: string | null;
+}
+
+export const ImpersonationReasonDialog: React.FC<ImpersonationReasonDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  customerId,
+  customerName,
+}) => {
+  const { toast } = useToast();
+  const startImpersonationSession = useStartImpersonation();
+  const [reason, setReason] = useState('');
+  const [durationMinutes, setDurationMinutes] = useState(DEFAULT_IMPERSONATION_DURATION);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setReason('');
+      setDurationMinutes(DEFAULT_IMPERSONATION_DURATION);
+    }
+  }, [isOpen]);
+
+  const handleStart = async () => {
+    if (!customerId || !reason.trim()) return;
+
+    setIsStarting(true);
+    try {
+      await startImpersonationSession({
+        customerId,
+        reason: reason.trim(),
+        durationMinutes,
+        customerName,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בכניסה למצב תצוגה',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">
+            {customerName ? `צפייה כמתאמן - ${customerName}` : 'צפייה כמתאמן'}
+          </DialogTitle>
+          <DialogDescription className="text-right">
+            הצפייה נרשמת ביומן הביקורת, כולל כל מסך שנצפה, ומסתיימת אוטומטית בתום הזמן
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="impersonation-reason">סיבת הצפייה</Label>
+            <Textarea
+              id="impersonation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="לדוגמה: המתאמן דיווח שהתכנית לא מוצגת לו"
+              rows={3}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>משך</Label>
+            <Select
+              value={String(durationMinutes)}
+              onValueChange={(value) => setDurationMinutes(Number(value))}
+              dir="rtl"
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IMPERSONATION_DURATION_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes} דקות
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            ביטול
+          </Button>
+          <Button
+            onClick={handleStart}
+            disabled={!customerId || !reason.trim() || isStarting}
+            className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white"
+          >
+            {isStarting && <Loader2 className="h-4 w-4 animate-spin ml-2" />}
+            התחל צפייה
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,115 @@
+/**
+ * InstallmentPlansSection Component
+ *
+ * Installment plans (תשלומים) of a lead, shown above the lead's collections:
+ * progress, next due payment, failed Stripe charges and cancellation.
+ */
+
+import React from 'react';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, CreditCard, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useCancelInstallmentPlan,
+  useInstallmentPlansByLead,
+  type InstallmentPlan,
+} from '@/hooks/useInstallmentPlans';
+
+interface InstallmentPlansSectionProps {
+  leadId: string;
+}
+
+const getPlanStatusColor = (status: InstallmentPlan['status']) => {
+  switch (status) {
+    case 'פעיל':
+      return 'bg-blue-50 text-blue-700 border-blue-200';
+    case 'הושלם':
+      return 'bg-green-50 text-green-700 border-green-200';
+    default:
+      return 'bg-gray-50 text-gray-700 border-gray-200';
+  }
+};
+
+export const InstallmentPlansSection: React.FC<InstallmentPlansSectionProps> = ({ leadId }) => {
+  const { toast } = useToast();
+  const { data: plans = [] } = useInstallmentPlansByLead(leadId);
+  const cancelPlan = useCancelInstallmentPlan();
+
+  const handleCancel = async (plan: InstallmentPlan) => {
+    const message = plan.stripe_subscription_id
+      ? 'לבטל את לוח התשלומים? המנוי ב-Stripe יבוטל והתשלומים הפתוחים יבוטלו.'
+      : 'לבטל את לוח התשלומים? התשלומים הפתוחים יבוטלו.';
+    if (!window.confirm(message)) return;
+
+    try {
+      await cancelPlan.mutateAsync(plan);
+      toast({ title: 'הצלחה', description: 'לוח התשלומים בוטל' });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: (error as Error)?.message || 'נכשל בביטול לוח התשלומים',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (plans.length === 0) return null;
+
+  return (
+    <div className="space-y-2 py-3 border-b border-slate-100">
+      {plans.map((plan) => {
+        const paidCount = plan.installments.filter((installment) => installment.status === 'שולם').length;
+        const failedCount = plan.installments.filter((installment) => installment.status === 'נכשל').length;
+        const nextInstallment = plan.installments.find((installment) =>
+          ['ממתין', 'נכשל'].includes(installment.status)
+        );
+
+        return (
+          <div key={plan.id} className="flex items-center justify-between gap-2 rounded-lg bg-slate-50 px-3 py-2">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <p className="text-xs font-semibold text-gray-900 truncate">{plan.subscription_name}</p>
+                <Badge variant="outline" className={cn('text-[10px] px-1.5 py-0', getPlanStatusColor(plan.status))}>
+                  {plan.status}
+                </Badge>
+                {plan.billing_method === 'stripe' && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 bg-indigo-50 text-indigo-700 border-indigo-200">
+                    <CreditCard className="h-3 w-3 ml-1" />
+                    Stripe
+                  </Badge>
+                )}
+              </div>
+              <p className="text-[11px] text-gray-600 mt-0.5">
+                {paidCount}/{plan.installments_count} שולמו
+                {nextInstallment && plan.status === 'פעיל' && (
+                  <> · הבא: {format(new Date(nextInstallment.due_date), 'dd/MM/yyyy')}</>
+                )}
+              </p>
+              {failedCount > 0 && plan.status === 'פעיל' && (
+                <p className="text-[11px] text-red-600 mt-0.5 flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {failedCount} תשלומים נכשלו
+                </p>
+              )}
+            </div>
+            {plan.status === 'פעיל' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs text-red-600 hover:text-red-700 hover:bg-red-50 flex-shrink-0"
+                onClick={() => handleCancel(plan)}
+                disabled={cancelPlan.isPending}
+              >
+                <XCircle className="h-3.5 w-3.5 ml-1" />
+                בטל
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+/**
+ * LeadAssigneeSelect Component
+ *
+ * The lead's coach (leads.assigned_to), in the same label/value layout as the other
+ * CRM fields. Saves on selection.
+ */
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getStaffMemberName, useStaffMembers } from '@/hooks/useStaffMembers';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+const UNASSIGNED_VALUE = '__unassigned__';
+
+interface LeadAssigneeSelectProps {
+  value: string | null;
+  onSave: (assignedTo: string | null) => Promise<void>;
+  label?: string;
+  className?: string;
+}
+
+export const LeadAssigneeSelect = ({
+  value,
+  onSave,
+  label = 'מאמן אחראי',
+  className,
+}: LeadAssigneeSelectProps) => {
+  const { toast } = useToast();
+  const { data: staffMembers = [] } = useStaffMembers();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // A deactivated coach is not in the staff list but is still shown until reassigned
+  const isInactiveCoach = !!value && !staffMembers.some((member) => member.id === value);
+
+  const handleChange = async (selected: string) => {
+    const assignedTo = selected === UNASSIGNED_VALUE ? null : selected;
+    if (assignedTo === value) return;
+
+    setIsSaving(true);
+    try {
+      await onSave(assignedTo);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בשיוך המאמן',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col gap-1.5 py-0.5 min-w-0 w-full text-right', className)}>
+      <span className="text-xs text-gray-500 font-medium flex-shrink-0" style={{ fontSize: '12px', fontWeight: 500 }}>
+        {label}:
+      </span>
+      <div className="flex items-center gap-1.5 min-w-0">
+        <Select value={value || UNASSIGNED_VALUE} onValueChange={handleChange} disabled={isSaving} dir="rtl">
+          <SelectTrigger className="h-8 text-sm font-semibold text-slate-900">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED_VALUE}>ללא מאמן</SelectItem>
+            {isInactiveCoach && value && (
+              <SelectItem value={value} disabled>
+                מאמן לא פעיל
+              </SelectItem>
+            )}
+            {staffMembers.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {getStaffMemberName(member)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isSaving && <Loader2 className="h-3.5 w-3.5 animate-spin text-gray-400 flex-shrink-0" />}
+      </div>
+    </div>
+  );
+};
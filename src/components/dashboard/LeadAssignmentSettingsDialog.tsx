@@ -0,0 +1,174 @@
+/**
+ * LeadAssignmentSettingsDialog Component
+ *
+ * How new leads get a coach: manually (picked in the add-lead dialog or on the lead page)
+ * or round-robin between the selected coaches.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppSelector } from '@/store/hooks';
+import {
+  useLeadAssignmentSettings,
+  useUpdateLeadAssignmentSettings,
+  type LeadAssignmentMode,
+} from '@/hooks/useLeadAssignment';
+import { getStaffMemberName, useStaffMembers } from '@/hooks/useStaffMembers';
+import { useToast } from '@/hooks/use-toast';
+
+interface LeadAssignmentSettingsDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const LeadAssignmentSettingsDialog: React.FC<LeadAssignmentSettingsDialogProps> = ({
+  isOpen,
+  onOpenChange,
+}) => {
+  const { toast } = useToast();
+  const { user } = useAppSelector((state) => state.auth);
+  const { data: settings, isLoading } = useLeadAssignmentSettings();
+  const { data: staffMembers = [] } = useStaffMembers();
+  const updateSettings = useUpdateLeadAssignmentSettings();
+
+  const [mode, setMode] = useState<LeadAssignmentMode>('manual');
+  const [coachIds, setCoachIds] = useState<string[]>([]);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (isOpen && settings) {
+      setMode(settings.mode);
+      setCoachIds(settings.coach_ids || []);
+    }
+  }, [isOpen, settings]);
+
+  const toggleCoach = (coachId: string, checked: boolean) => {
+    setCoachIds((prev) => (checked ? [...prev, coachId] : prev.filter((id) => id !== coachId)));
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    // Coaches who were deactivated drop out of the rotation
+    const activeCoachIds = coachIds.filter((id) => staffMembers.some((member) => member.id === id));
+    if (mode === 'round_robin' && activeCoachIds.length === 0) {
+      toast({
+        title: 'שגיאה',
+        description: 'יש לבחור לפחות מאמן אחד לחלוקה',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await updateSettings.mutateAsync({ id: settings.id, mode, coach_ids: activeCoachIds });
+      toast({
+        title: 'הצלחה',
+        description: 'הגדרות חלוקת הלידים נשמרו',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בשמירת ההגדרות',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">חלוקת לידים</DialogTitle>
+          <DialogDescription className="text-right">
+            ליד חדש שנוצר ללא מאמן (מהמערכת, מטופס או מקביעת פגישה) מקבל מאמן לפי ההגדרה כאן
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-[#5B6FB9]" />
+          </div>
+        ) : !settings ? (
+          <p className="py-6 text-sm text-center text-gray-500">הגדרות חלוקת הלידים אינן זמינות</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>שיטת חלוקה</Label>
+              <Select
+                value={mode}
+                onValueChange={(value) => setMode(value as LeadAssignmentMode)}
+                disabled={!isAdmin}
+                dir="rtl"
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="manual">ידני - הליד נשאר ללא מאמן עד שמשייכים אותו</SelectItem>
+                  <SelectItem value="round_robin">סבב - כל ליד חדש למאמן הבא בתור</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {mode === 'round_robin' && (
+              <div className="space-y-2">
+                <Label>מאמנים בסבב</Label>
+                <div className="max-h-[240px] overflow-y-auto rounded-lg border border-gray-200 divide-y divide-gray-100">
+                  {staffMembers.map((member) => (
+                    <label
+                      key={member.id}
+                      className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50"
+                    >
+                      <Checkbox
+                        checked={coachIds.includes(member.id)}
+                        onCheckedChange={(checked) => toggleCoach(member.id, checked === true)}
+                        disabled={!isAdmin}
+                      />
+                      <span className="text-gray-900">{getStaffMemberName(member)}</span>
+                      {member.id === settings.last_assigned_to && (
+                        <span className="mr-auto text-xs text-gray-500">קיבל/ה את הליד האחרון</span>
+                      )}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {!isAdmin && (
+              <p className="text-xs text-gray-500">רק מנהלים יכולים לשנות את ההגדרות</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            ביטול
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!settings || !isAdmin || updateSettings.isPending}
+            className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white"
+          >
+            {updateSettings.isPending && <Loader2 className="h-4 w-4 animate-spin ml-2" />}
+            שמור
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -27,11 +27,25 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Settings, Send, Loader2, Plus, Trash2, Zap, ChevronDown, Search } from 'lucide-react';
+import { Settings, Send, Loader2, Plus, Trash2, Zap, ChevronDown, Search, Clock, X, AlertCircle } from 'lucide-react';
+import { format, addDays, addHours } from 'date-fns';
+import { he } from 'date-fns/locale';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { fetchTemplates, saveTemplate, setSendingFlow } from '@/store/slices/automationSlice';
+import {
+  useAutomationFlows,
+  useCreateAutomationFlow,
+  useUpdateAutomationFlowLabel,
+  useDeleteAutomationFlow,
+} from '@/hooks/useAutomationFlows';
+import {
+  useScheduledMessages,
+  useScheduleWhatsAppMessage,
+  useCancelScheduledMessage,
+} from '@/hooks/useScheduledMessages';
 import { sendWhatsAppMessage, replacePlaceholders } from '@/services/greenApiService';
 import { TemplateEditorModal } from './TemplateEditorModal';
+import { buildLeadPlaceholders } from '@/utils/templateRenderer';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import type { Customer } from '@/hooks/useCustomers';
@@ -53,79 +67,6 @@ interface LeadData {
   [key: string]: any;
 }
 
-interface FlowConfig {
-  key: string;
-  label: string;
-  icon?: React.ReactNode;
-}
-
-const DEFAULT_FLOW_CONFIGS: FlowConfig[] = [
-  {
-    key: 'customer_journey_start',
-    label: 'תחילת מסע לקוח ותיאום פגישה',
-  },
-  {
-    key: 'intro_questionnaire',
-    label: 'אוטומטי שליחת שאלון הכרות לאחר קביעת שיחה',
-  },
-  {
-    key: 'budget',
-    label: 'שליחת תכנית פעולה',
-  },
-  {
-    key: 'payment_request',
-    label: 'בקשת תשלום',
-  },
-  {
-    key: 'trainee_user_credentials',
-    label: 'שליחת פרטי משתמש חניך',
-  },
-];
-
-// Load custom flows from localStorage
-const loadCustomFlows = (): FlowConfig[] => {
-  try {
-    const stored = localStorage.getItem('custom_automation_flows');
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch (error) {
-    // Silent failure
-  }
-  return [];
-};
-
-// Save custom flows to localStorage
-const saveCustomFlows = (flows: FlowConfig[]): void => {
-  try {
-    localStorage.setItem('custom_automation_flows', JSON.stringify(flows));
-  } catch (error) {
-    // Silent failure
-  }
-};
-
-// Load deleted default flows from localStorage
-const loadDeletedDefaultFlows = (): string[] => {
-  try {
-    const stored = localStorage.getItem('deleted_default_automation_flows');
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch (error) {
-    // Silent failure
-  }
-  return [];
-};
-
-// Save deleted default flows to localStorage
-const saveDeletedDefaultFlows = (deletedKeys: string[]): void => {
-  try {
-    localStorage.setItem('deleted_default_automation_flows', JSON.stringify(deletedKeys));
-  } catch (error) {
-    // Silent failure
-  }
-};
-
 interface LeadAutomationCardProps {
   customer: Customer | null;
   lead: LeadData | null;
@@ -144,121 +85,48 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
   const templates = useAppSelector((state) => state.automation.templates);
   const sendingFlow = useAppSelector((state) => state.automation.sendingFlow);
   const [editingFlowKey, setEditingFlowKey] = useState<string | null>(null);
-  const [customFlows, setCustomFlows] = useState<FlowConfig[]>(loadCustomFlows());
-  const [deletedDefaultFlows, setDeletedDefaultFlows] = useState<string[]>(loadDeletedDefaultFlows());
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [newFlowLabel, setNewFlowLabel] = useState('');
   const [newFlowKey, setNewFlowKey] = useState('');
   const [deletingFlowKey, setDeletingFlowKey] = useState<string | null>(null);
   const [selectedFlowKey, setSelectedFlowKey] = useState<string | null>(null);
   const [isComboboxOpen, setIsComboboxOpen] = useState(false);
+  const [schedulingFlowKey, setSchedulingFlowKey] = useState<string | null>(null);
+  const [scheduleDate, setScheduleDate] = useState('');
+  const [scheduleTime, setScheduleTime] = useState('09:00');
 
-  // Load custom flows and deleted default flows on mount
-  useEffect(() => {
-    setCustomFlows(loadCustomFlows());
-    setDeletedDefaultFlows(loadDeletedDefaultFlows());
-  }, []);
-
-  // Combine default and custom flows, filtering out deleted default flows
-  // Custom flows with keys matching default flows are label overrides, not separate flows
-  const activeDefaultFlows = DEFAULT_FLOW_CONFIGS.filter(flow => !deletedDefaultFlows.includes(flow.key));
-  const defaultFlowKeys = new Set(activeDefaultFlows.map(f => f.key));
-  const labelOverrides = new Map(customFlows.filter(f => defaultFlowKeys.has(f.key)).map(f => [f.key, f.label]));
-  const pureCustomFlows = customFlows.filter(f => !defaultFlowKeys.has(f.key));
-  
-  // Merge default flows with label overrides, then add pure custom flows
-  const allFlows = [
-    ...activeDefaultFlows.map(flow => ({
-      ...flow,
-      label: labelOverrides.get(flow.key) || flow.label
-    })),
-    ...pureCustomFlows
-  ];
+  // Active flows (defaults + customs) shared by all coaches
+  const { flows: allFlows, getFlowLabel } = useAutomationFlows();
+  const createFlow = useCreateAutomationFlow();
+  const updateFlowLabel = useUpdateAutomationFlowLabel();
+  const deleteFlow = useDeleteAutomationFlow();
+
+  // Delayed sends for this customer
+  const { data: scheduledMessages = [] } = useScheduledMessages(customer?.id);
+  const scheduleMessage = useScheduleWhatsAppMessage();
+  const cancelScheduledMessage = useCancelScheduledMessage();
 
   // Fetch templates on mount
   useEffect(() => {
     dispatch(fetchTemplates());
   }, [dispatch]);
 
-  // Calculate age from birth_date
-  const calculateAge = (birthDate: string | null | undefined): number | null => {
-    if (!birthDate) return null;
-    try {
-      const birth = new Date(birthDate);
-      const today = new Date();
-      let age = today.getFullYear() - birth.getFullYear();
-      const monthDiff = today.getMonth() - birth.getMonth();
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
-        age--;
-      }
-      return age;
-    } catch {
-      return null;
-    }
-  };
-
-  // Calculate BMI
-  const calculateBMI = (height: number | null | undefined, weight: number | null | undefined): number | null => {
-    if (!height || !weight || height === 0) return null;
-    const heightInMeters = height / 100;
-    const bmi = weight / (heightInMeters * heightInMeters);
-    return Math.round(bmi * 10) / 10;
-  };
-
   // Build placeholders object from customer and lead data
-  const buildPlaceholders = (): Record<string, string | number> => {
-    const age = calculateAge(lead?.birth_date);
-    const bmi = calculateBMI(lead?.height, lead?.weight);
-    const status = lead?.status_sub || lead?.status_main || '';
-    
-    const getGenderLabel = (gender: string | null | undefined): string => {
-      if (!gender) return '';
-      switch (gender) {
-        case 'male': return 'זכר';
-        case 'female': return 'נקבה';
-        case 'other': return 'אחר';
-        default: return gender;
-      }
-    };
-
-    const formatDate = (date: string | null | undefined): string => {
-      if (!date) return '';
-      try {
-        return new Date(date).toLocaleDateString('he-IL');
-      } catch {
-        return date;
-      }
-    };
-
-    return {
-      name: customer?.full_name || '',
-      phone: customer?.phone || '',
-      email: customer?.email || '',
-      city: lead?.city || '',
-      gender: getGenderLabel(lead?.gender),
-      status: status,
-      created_date: formatDate(lead?.created_at),
-      lead_id: lead?.id || '', // Supabase row ID for URL parameters
-      fitness_goal: lead?.fitness_goal || '',
-      activity_level: lead?.activity_level || '',
-      preferred_time: lead?.preferred_time || '',
-      height: lead?.height || '',
-      weight: lead?.weight || '',
-      bmi: bmi || '',
-      age: age || '',
-      workout_plan_name: workoutPlanName || '',
-      nutrition_plan_name: nutritionPlanName || '',
-    };
-  };
+  const buildPlaceholders = (): Record<string, string | number> =>
+    buildLeadPlaceholders(customer, lead, {
+      workout_plan_name: workoutPlanName,
+      nutrition_plan_name: nutritionPlanName,
+    });
 
-  const handleSendFlow = async (flowKey: string) => {
+  // Render the flow template for this customer (returns null and shows an error if it can't be sent)
+  const renderFlowMessage = (flowKey: string) => {
     if (!customer?.phone) {
       toast({
         title: 'שגיאה',
         description: 'מספר טלפון לא זמין ללקוח',
         variant: 'destructive',
       });
-      return;
+      return null;
     }
 
     const template = templates[flowKey];
@@ -269,32 +137,39 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
         variant: 'destructive',
       });
       setEditingFlowKey(flowKey);
-      return;
+      return null;
     }
 
-    dispatch(setSendingFlow({ flowKey, isSending: true }));
+    const placeholders = buildPlaceholders();
+    const message = replacePlaceholders(template.template_content, placeholders);
 
-    try {
-      const placeholders = buildPlaceholders();
-      const message = replacePlaceholders(template.template_content, placeholders);
+    // Process buttons if they exist
+    const buttons = template.buttons?.map(btn => ({
+      id: btn.id,
+      text: replacePlaceholders(btn.text, placeholders), // Replace placeholders in button text
+    }));
+
+    // Process media if it exists
+    const media = template.media ? {
+      type: template.media.type as 'image' | 'video' | 'gif',
+      url: template.media.url,
+    } : undefined;
 
-      // Process buttons if they exist
-      const processedButtons = template.buttons?.map(btn => ({
-        id: btn.id,
-        text: replacePlaceholders(btn.text, placeholders), // Replace placeholders in button text
-      }));
+    return { phoneNumber: customer.phone, message, buttons, media };
+  };
 
-      // Process media if it exists
-      const media = template.media ? {
-        type: template.media.type as 'image' | 'video' | 'gif',
-        url: template.media.url,
-      } : undefined;
+  const handleSendFlow = async (flowKey: string) => {
+    const rendered = renderFlowMessage(flowKey);
+    if (!rendered) return;
 
+    dispatch(setSendingFlow({ flowKey, isSending: true }));
+
+    try {
       const result = await sendWhatsAppMessage({
-        phoneNumber: customer.phone,
-        message,
-        buttons: processedButtons,
-        media,
+        ...rendered,
+        customerId: customer.id,
+        leadId: lead?.id || null,
+        flowKey,
       });
 
       if (result.success) {
@@ -317,6 +192,71 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
     }
   };
 
+  const openScheduleDialog = (flowKey: string) => {
+    // Default to tomorrow at 09:00
+    setScheduleDate(format(addDays(new Date(), 1), 'yyyy-MM-dd'));
+    setScheduleTime('09:00');
+    setSchedulingFlowKey(flowKey);
+  };
+
+  const handleScheduleFlow = async () => {
+    if (!schedulingFlowKey) return;
+
+    const scheduledFor = new Date(`${scheduleDate}T${scheduleTime}`);
+    if (!scheduleDate || !scheduleTime || isNaN(scheduledFor.getTime()) || scheduledFor <= new Date()) {
+      toast({
+        title: 'שגיאה',
+        description: 'אנא בחר מועד עתידי לשליחה',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Placeholders are filled in now, so the message reflects the data at scheduling time
+    const rendered = renderFlowMessage(schedulingFlowKey);
+    if (!rendered) return;
+
+    try {
+      await scheduleMessage.mutateAsync({
+        ...rendered,
+        scheduledFor,
+        customerId: customer.id,
+        leadId: lead?.id || null,
+        flowKey: schedulingFlowKey,
+      });
+
+      toast({
+        title: 'הצלחה',
+        description: `ההודעה תישלח ב-${format(scheduledFor, 'dd/MM/yyyy HH:mm', { locale: he })}`,
+      });
+      setSchedulingFlowKey(null);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בתזמון ההודעה',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCancelScheduled = async (id: string) => {
+    if (!customer) return;
+
+    try {
+      await cancelScheduledMessage.mutateAsync({ id, customerId: customer.id });
+      toast({
+        title: 'הצלחה',
+        description: 'ההודעה המתוזמנת בוטלה',
+      });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בביטול ההודעה',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleSaveTemplate = async (
     flowKey: string, 
     templateContent: string, 
@@ -327,41 +267,9 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
     try {
       await dispatch(saveTemplate({ flowKey, templateContent, buttons, media })).unwrap();
       
-      // Update flow label if provided
-      if (label && label.trim()) {
-        const isDefaultFlow = DEFAULT_FLOW_CONFIGS.some(f => f.key === flowKey);
-        const defaultFlowLabel = DEFAULT_FLOW_CONFIGS.find(f => f.key === flowKey)?.label;
-        const customFlow = customFlows.find(f => f.key === flowKey);
-        
-        // Get current label (custom overrides default)
-        const currentLabel = customFlow?.label || defaultFlowLabel || '';
-        
-        // Only update if label actually changed
-        if (currentLabel !== label.trim()) {
-          let updatedCustomFlows: FlowConfig[];
-          
-          if (isDefaultFlow) {
-            // For default flows, add/update in custom flows to override default label
-            const existingCustomIndex = customFlows.findIndex(f => f.key === flowKey);
-            if (existingCustomIndex >= 0) {
-              // Update existing custom flow
-              updatedCustomFlows = customFlows.map((flow, idx) => 
-                idx === existingCustomIndex ? { ...flow, label: label.trim() } : flow
-              );
-            } else {
-              // Add new custom flow to override default
-              updatedCustomFlows = [...customFlows, { key: flowKey, label: label.trim() }];
-            }
-          } else {
-            // For custom flows, just update in place
-            updatedCustomFlows = customFlows.map(flow => 
-              flow.key === flowKey ? { ...flow, label: label.trim() } : flow
-            );
-          }
-          
-          setCustomFlows(updatedCustomFlows);
-          saveCustomFlows(updatedCustomFlows);
-        }
+      // Update flow label if provided (only if it actually changed)
+      if (label && label.trim() && getFlowLabel(flowKey, '') !== label.trim()) {
+        await updateFlowLabel.mutateAsync({ flowKey, label: label.trim() });
       }
       
       toast({
@@ -378,7 +286,7 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
     }
   };
 
-  const handleAddAutomation = () => {
+  const handleAddAutomation = async () => {
     if (!newFlowLabel.trim() || !newFlowKey.trim()) {
       toast({
         title: 'שגיאה',
@@ -398,14 +306,21 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
       return;
     }
 
-    const newFlow: FlowConfig = {
+    const newFlow = {
       key: newFlowKey.trim(),
       label: newFlowLabel.trim(),
     };
 
-    const updatedFlows = [...customFlows, newFlow];
-    setCustomFlows(updatedFlows);
-    saveCustomFlows(updatedFlows);
+    try {
+      await createFlow.mutateAsync({ flowKey: newFlow.key, label: newFlow.label });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בהוספת האוטומציה',
+        variant: 'destructive',
+      });
+      return;
+    }
 
     toast({
       title: 'הצלחה',
@@ -439,20 +354,18 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
     setNewFlowKey(generatedKey);
   };
 
-  const handleDeleteAutomation = (flowKey: string) => {
-    // Check if it's a default flow
-    const isDefaultFlow = DEFAULT_FLOW_CONFIGS.some(flow => flow.key === flowKey);
-    
-    if (isDefaultFlow) {
-      // Mark default flow as deleted
-      const updatedDeleted = [...deletedDefaultFlows, flowKey];
-      setDeletedDefaultFlows(updatedDeleted);
-      saveDeletedDefaultFlows(updatedDeleted);
-    } else {
-      // Remove from custom flows
-      const updatedFlows = customFlows.filter(flow => flow.key !== flowKey);
-      setCustomFlows(updatedFlows);
-      saveCustomFlows(updatedFlows);
+  const handleDeleteAutomation = async (flowKey: string) => {
+    // Default flows are deactivated, custom flows are removed
+    try {
+      await deleteFlow.mutateAsync(flowKey);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל במחיקת האוטומציה',
+        variant: 'destructive',
+      });
+      setDeletingFlowKey(null);
+      return;
     }
 
     // If the deleted flow was being edited, close the editor
@@ -498,6 +411,9 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
       })()
     : null;
 
+  // Pending messages plus failures the coach should know about
+  const upcomingMessages = scheduledMessages.filter(m => m.status === 'pending' || m.status === 'failed');
+
   return (
     <>
       <Card className="p-6 border border-slate-100 rounded-xl shadow-md bg-white flex flex-col h-full">
@@ -588,6 +504,20 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
                   <Send className="h-4 w-4" />
                 )}
               </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => {
+                  if (selectedFlowKey) {
+                    openScheduleDialog(selectedFlowKey);
+                  }
+                }}
+                disabled={!selectedFlowKey || !templates[selectedFlowKey]?.template_content?.trim()}
+                className="h-9 w-9 flex-shrink-0 border-amber-300 hover:bg-amber-50 hover:border-amber-400 text-amber-600"
+                title="תזמן שליחה"
+              >
+                <Clock className="h-4 w-4" />
+              </Button>
               <Button
                 variant="outline"
                 size="icon"
@@ -617,6 +547,56 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
             </>
           )}
         </div>
+
+        {/* Scheduled Messages */}
+        {upcomingMessages.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <p className="text-xs font-semibold text-gray-500">הודעות מתוזמנות</p>
+            {upcomingMessages.map((scheduled) => (
+              <div
+                key={scheduled.id}
+                className={cn(
+                  'flex items-center justify-between gap-2 rounded-lg border px-3 py-2 text-xs',
+                  scheduled.status === 'failed' ? 'border-red-200 bg-red-50' : 'border-slate-200 bg-slate-50'
+                )}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {scheduled.status === 'failed' ? (
+                    <AlertCircle className="h-3.5 w-3.5 text-red-600 flex-shrink-0" />
+                  ) : (
+                    <Clock className="h-3.5 w-3.5 text-amber-600 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">
+                      {scheduled.flow_key ? getFlowLabel(scheduled.flow_key) : 'הודעה'}
+                    </p>
+                    <p
+                      className={cn('truncate', scheduled.status === 'failed' ? 'text-red-600' : 'text-gray-500')}
+                      title={scheduled.last_error || undefined}
+                    >
+                      {scheduled.status === 'failed'
+                        ? `השליחה נכשלה (${scheduled.attempts} ניסיונות)`
+                        : format(new Date(scheduled.scheduled_for), 'EEEE dd/MM HH:mm', { locale: he })}
+                      {scheduled.status === 'pending' && scheduled.attempts > 0 && ' · ממתין לניסיון חוזר'}
+                    </p>
+                  </div>
+                </div>
+                {scheduled.status === 'pending' && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleCancelScheduled(scheduled.id)}
+                    disabled={cancelScheduledMessage.isPending}
+                    className="h-7 w-7 flex-shrink-0 text-gray-500 hover:text-red-600 hover:bg-red-50"
+                    title="בטל שליחה"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
       </Card>
 
       {/* Template Editor Modal */}
@@ -629,6 +609,7 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
           initialTemplate={editingTemplate}
           initialButtons={editingButtons}
           initialMedia={editingMedia}
+          previewLeadId={lead?.id}
           onSave={(template, buttons, media, label) => handleSaveTemplate(editingFlowKey, template, buttons, media, label)}
         />
       )}
@@ -658,6 +639,77 @@ export const LeadAutomationCard: React.FC<LeadAutomationCardProps> = ({
         </AlertDialog>
       )}
 
+      {/* Schedule Send Dialog */}
+      <Dialog open={!!schedulingFlowKey} onOpenChange={(open) => !open && setSchedulingFlowKey(null)}>
+        <DialogContent className="sm:max-w-[425px]" dir="rtl">
+          <DialogHeader>
+            <DialogTitle>תזמון שליחה</DialogTitle>
+            <DialogDescription>
+              {schedulingFlowKey ? `"${getFlowLabel(schedulingFlowKey)}" תישלח ל${customer.full_name} במועד שנבחר` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => {
+                  setScheduleDate(format(addDays(new Date(), 1), 'yyyy-MM-dd'));
+                  setScheduleTime('09:00');
+                }}
+              >
+                מחר ב-09:00
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => {
+                  const inOneHour = addHours(new Date(), 1);
+                  setScheduleDate(format(inOneHour, 'yyyy-MM-dd'));
+                  setScheduleTime(format(inOneHour, 'HH:mm'));
+                }}
+              >
+                בעוד שעה
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="grid gap-2">
+                <Label htmlFor="schedule-date">תאריך</Label>
+                <Input
+                  id="schedule-date"
+                  type="date"
+                  value={scheduleDate}
+                  min={format(new Date(), 'yyyy-MM-dd')}
+                  onChange={(e) => setScheduleDate(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="schedule-time">שעה</Label>
+                <Input
+                  id="schedule-time"
+                  type="time"
+                  value={scheduleTime}
+                  onChange={(e) => setScheduleTime(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSchedulingFlowKey(null)}>
+              ביטול
+            </Button>
+            <Button onClick={handleScheduleFlow} disabled={scheduleMessage.isPending}>
+              {scheduleMessage.isPending && <Loader2 className="h-4 w-4 animate-spin ml-2" />}
+              תזמן שליחה
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Add Automation Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
         <DialogContent className="sm:max-w-[425px]">
@@ -11,6 +11,8 @@ import { DailyCheckInDetailModal } from './dialogs/DailyCheckInDetailModal';
 // Interfaces (keeping compatible for now, though many are unused in this component)
 import { BudgetHistoryList } from './BudgetHistoryList';
 import { SavedActionPlansList } from './SavedActionPlansList';
+import { WhatsAppMessagesLog } from './WhatsAppMessagesLog';
+import { EntityHistoryList } from './EntityHistoryList';
 
 interface WorkoutHistoryItem {
   id?: string;
@@ -168,7 +170,7 @@ export const LeadHistoryTabs = ({
       <Tabs value={activeTab} onValueChange={setActiveTab} dir="rtl" className="w-full">
         <div className="relative mb-4 -mx-3 px-3">
           <div className="overflow-x-auto scrollbar-hide pb-1">
-            <TabsList className="inline-flex min-w-full lg:grid lg:grid-cols-4 h-10 bg-gray-100 rounded-lg p-1 gap-1">
+            <TabsList className="inline-flex min-w-full lg:grid lg:grid-cols-6 h-10 bg-gray-100 rounded-lg p-1 gap-1">
               <TabsTrigger 
                 value="daily-activity" 
                 className="whitespace-nowrap px-3 lg:px-2 text-xs sm:text-sm font-semibold rounded-md data-[state=active]:bg-[#E0F2FE] data-[state=active]:text-[#0C4A6E] data-[state=active]:shadow-sm data-[state=inactive]:text-[#0C4A6E]/70 data-[state=inactive]:hover:bg-[#E0F2FE]/50 transition-all flex-shrink-0"
@@ -193,6 +195,18 @@ export const LeadHistoryTabs = ({
               >
                 תכניות פעולה שמורות
               </TabsTrigger>
+              <TabsTrigger 
+                value="whatsapp-messages" 
+                className="whitespace-nowrap px-3 lg:px-2 text-xs sm:text-sm font-semibold rounded-md data-[state=active]:bg-[#E0F2FE] data-[state=active]:text-[#0C4A6E] data-[state=active]:shadow-sm data-[state=inactive]:text-[#0C4A6E]/70 data-[state=inactive]:hover:bg-[#E0F2FE]/50 transition-all flex-shrink-0"
+              >
+                הודעות וואטסאפ
+              </TabsTrigger>
+              <TabsTrigger 
+                value="change-history" 
+                className="whitespace-nowrap px-3 lg:px-2 text-xs sm:text-sm font-semibold rounded-md data-[state=active]:bg-[#E0F2FE] data-[state=active]:text-[#0C4A6E] data-[state=active]:shadow-sm data-[state=inactive]:text-[#0C4A6E]/70 data-[state=inactive]:hover:bg-[#E0F2FE]/50 transition-all flex-shrink-0"
+              >
+                היסטוריית שינויים
+              </TabsTrigger>
             </TabsList>
           </div>
         </div>
@@ -226,6 +240,16 @@ export const LeadHistoryTabs = ({
         <TabsContent value="saved-action-plans" className="mt-0">
           <SavedActionPlansList leadId={leadId} customerId={customerId} />
         </TabsContent>
+
+        {/* WhatsApp Messages Tab - delivery / read status of messages sent to the client */}
+        <TabsContent value="whatsapp-messages" className="mt-0">
+          <WhatsAppMessagesLog customerId={customerId} />
+        </TabsContent>
+
+        {/* Change History Tab - edits to the lead, customer, payments, collections, meetings and notes */}
+        <TabsContent value="change-history" className="mt-0">
+          <EntityHistoryList scope={customerId ? { customerId } : null} showTableName />
+        </TabsContent>
       </Tabs>
 
       <DailyCheckInDetailModal
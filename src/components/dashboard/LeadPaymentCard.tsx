@@ -9,6 +9,7 @@
  * - Currency and amount auto-population
  * - Stripe payment/subscription link generation
  * - WhatsApp integration
+ * - Failed payment flag while payment reminders (dunning) are running
  */
 
 import React, { useState, useEffect } from 'react';
@@ -44,6 +45,8 @@ import { TemplateEditorModal } from './TemplateEditorModal';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
+import { useAutomationFlows } from '@/hooks/useAutomationFlows';
+import { PaymentDunningBanner } from './PaymentDunningBanner';
 
 interface LeadPaymentCardProps {
   customerPhone?: string | null;
@@ -73,22 +76,8 @@ export const LeadPaymentCard: React.FC<LeadPaymentCardProps> = ({
   const [isProductSelectorOpen, setIsProductSelectorOpen] = useState(false);
   const [productSearchQuery, setProductSearchQuery] = useState('');
 
-  // Helper function to get flow label (check custom flows, then default)
-  const getFlowLabel = (flowKey: string, defaultLabel: string): string => {
-    try {
-      const stored = localStorage.getItem('custom_automation_flows');
-      if (stored) {
-        const customFlows: Array<{ key: string; label: string }> = JSON.parse(stored);
-        const customFlow = customFlows.find(f => f.key === flowKey);
-        if (customFlow) {
-          return customFlow.label;
-        }
-      }
-    } catch (error) {
-      // Error loading custom flows
-    }
-    return defaultLabel;
-  };
+  // Flow label (shared flow definitions, falls back to the default label)
+  const { getFlowLabel } = useAutomationFlows();
 
   // Get dynamic label for payment_request flow
   const paymentFlowLabel = getFlowLabel('payment_request', 'בקשת תשלום');
@@ -302,6 +291,7 @@ export const LeadPaymentCard: React.FC<LeadPaymentCardProps> = ({
         metadata: {
           ...(customerId && { customer_id: customerId }),
           ...(leadId && { lead_id: leadId }),
+          ...(selectedProduct?.name && { product_name: selectedProduct.name }),
           ...(customerEmail && { customerEmail }),
           ...(customerName && { customerName }),
           ...(billingMode && { billingMode }),
@@ -339,6 +329,7 @@ export const LeadPaymentCard: React.FC<LeadPaymentCardProps> = ({
         const result = await sendWhatsAppMessage({
           phoneNumber: customerPhone,
           message: message,
+          purpose: 'payment',
         });
         
         whatsappResponse = result;
@@ -458,6 +449,8 @@ export const LeadPaymentCard: React.FC<LeadPaymentCardProps> = ({
 
       {/* Content */}
       <div className="flex-1 space-y-4">
+        <PaymentDunningBanner leadId={leadId} customerId={customerId} />
+
         {/* Mode Toggle: Product Selection vs Manual Entry */}
         <div className="flex items-center justify-between mb-4">
           <div className="flex items-center gap-2">
@@ -862,6 +855,7 @@ export const LeadPaymentCard: React.FC<LeadPaymentCardProps> = ({
         flowKey="payment_request"
         flowLabel={paymentFlowLabel}
         initialTemplate={paymentMessageTemplate}
+        previewLeadId={leadId}
         onSave={handleSaveTemplate}
       />
     </Card>
@@ -1,11 +1,12 @@
 /**
  * LeadSidebarContainer Component
  * 
- * Dynamic sidebar container that switches between History and Submission sidebars.
+ * Dynamic sidebar container that switches between History, WhatsApp chat and Submission sidebars.
  * Notes are handled separately in PageLayout via ResizableNotesPanel (right side).
  * 
  * Layout:
  * - History Sidebar: 350px width (LeadHistorySidebar)
+ * - WhatsApp Sidebar: 350px width (WhatsAppChatSidebar)
  * - Submission Sidebar: 400px width (FormSubmissionSidebar)
  * - Smooth transitions between states
  */
@@ -13,6 +14,7 @@
 import React from 'react';
 import { LeadHistorySidebar } from './LeadHistorySidebar';
 import { FormSubmissionSidebar } from './FormSubmissionSidebar';
+import { WhatsAppChatSidebar } from './WhatsAppChatSidebar';
 import { useAppSelector } from '@/store/hooks';
 import { selectLeftSidebar } from '@/store/slices/leadViewSlice';
 import { cn } from '@/lib/utils';
@@ -27,6 +29,13 @@ interface LeadSidebarContainerProps {
   getStatusColor: (status: string) => string;
   getStatusBorderColor: (status: string) => string;
 
+  // WhatsApp chat sidebar props
+  customer?: {
+    id: string;
+    full_name?: string | null;
+    phone?: string | null;
+  } | null;
+
   // Form submission sidebar props
   formSubmission?: {
     formType: FormType;
@@ -46,6 +55,7 @@ export const LeadSidebarContainer: React.FC<LeadSidebarContainerProps> = ({
   onLeadSelect,
   getStatusColor,
   getStatusBorderColor,
+  customer,
   formSubmission,
   onUpdateLead,
 }) => {
@@ -53,9 +63,10 @@ export const LeadSidebarContainer: React.FC<LeadSidebarContainerProps> = ({
 
   const showHistory = leftSidebar === 'history';
   const showSubmission = leftSidebar === 'submission';
+  const showWhatsApp = leftSidebar === 'whatsapp';
 
   // Notes are handled separately in PageLayout via ResizableNotesPanel (right side)
-  // This container only handles history and submission sidebars (left side)
+  // This container only handles history, whatsapp and submission sidebars (left side)
 
   return (
     <>
@@ -72,6 +83,18 @@ export const LeadSidebarContainer: React.FC<LeadSidebarContainerProps> = ({
         </div>
       )}
 
+      {/* WhatsApp Chat Sidebar - 350px - Replaces history when open */}
+      {showWhatsApp && customer && (
+        <div className="relative flex-shrink-0 overflow-hidden transition-all duration-300 w-[350px]">
+          <WhatsAppChatSidebar
+            customerId={customer.id}
+            customerName={customer.full_name}
+            customerPhone={customer.phone}
+            activeLeadId={activeLeadId}
+          />
+        </div>
+      )}
+
       {/* Form Submission Sidebar - Resizable (350px-800px) - Replaces history when open */}
       {showSubmission && formSubmission && (
         <FormSubmissionSidebar
@@ -13,6 +13,7 @@ interface LeadsDataTableProps {
   sortOrder?: 'ASC' | 'DESC';
   totalCount?: number;
   onBulkDelete?: (payload: { ids: string[]; selectAllAcrossPages: boolean; totalCount: number }) => Promise<void> | void;
+  onBulkBroadcast?: (payload: { ids: string[]; selectAllAcrossPages: boolean; totalCount: number }) => void;
   onBulkEdit?: (payload: { ids: string[]; selectAllAcrossPages: boolean; totalCount: number; updates: Record<string, any> }) => Promise<void> | void;
   groupCurrentPage?: number;
   groupPageSize?: number;
@@ -28,6 +29,7 @@ export const LeadsDataTable = ({
   sortOrder: externalSortOrder,
   totalCount,
   onBulkDelete,
+  onBulkBroadcast,
   onBulkEdit,
   groupCurrentPage,
   groupPageSize,
@@ -64,7 +66,7 @@ export const LeadsDataTable = ({
   }, []);
 
   // Default column order matching the image (from right to left in RTL)
-  // Order: createdDate, name, status, age, fitnessGoal, activityLevel, preferredTime, phone, source, notes
+  // Order: createdDate, name, status, age, fitnessGoal, activityLevel, preferredTime, phone, source, notes, checkInStreak
   // Hidden columns (id, email, height, weight) are placed at the end
   const initialColumnOrder = useMemo(() => {
     return [
@@ -78,6 +80,7 @@ export const LeadsDataTable = ({
       'phone',        // טלפון
       'source',       // מקור
       'notes',        // הערות
+      'checkInStreak', // דיווח יומי
       // Hidden columns at the end
       'id',
       'email',
@@ -109,6 +112,7 @@ export const LeadsDataTable = ({
       enableRowSelection
       totalCount={totalCount}
       onBulkDelete={onBulkDelete}
+      onBulkBroadcast={onBulkBroadcast}
       onBulkEdit={onBulkEdit}
       selectionLabel={pluralLabel}
       groupCurrentPage={groupCurrentPage}
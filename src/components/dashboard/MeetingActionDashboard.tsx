@@ -1,126 +1,104 @@
 /**
  * MeetingActionDashboard Component
- * 
- * Main content area for meeting details
- * Similar structure to ActionDashboard but for meetings
+ *
+ * Follow-up panel on the meeting page: meeting status, attendance (attended / no-show /
+ * rescheduled / cancelled) and the WhatsApp reminders that were sent
  */
 
 import React from 'react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { 
-  Calendar, 
-  Clock, 
-  User, 
-  Phone, 
-  Mail, 
-  FileText,
-  CalendarPlus,
-} from 'lucide-react';
-import { formatDate } from '@/utils/dashboard';
+import { BellRing, CheckCircle2, ClipboardCheck, Loader2 } from 'lucide-react';
+import { formatDateTime } from '@/utils/dashboard';
 import { cn } from '@/lib/utils';
+import type { Meeting } from '@/hooks/useMeetings';
+import {
+  MEETING_ATTENDANCE_STATUSES,
+  type MeetingAttendanceStatus,
+} from '@/components/dashboard/calendar/utils';
 
 interface MeetingActionDashboardProps {
-  meeting: any;
-  customer: any;
-  schedulingData: any;
-  meetingType: any;
+  meeting: Meeting;
   status: string;
-  meetingDate: string | null;
-  formatTimeRange: () => string;
-  notes: string | null;
   getStatusColor: (status: string) => string;
-  onAddToCalendar: () => void;
-  hasCalendarUrl: boolean;
+  onAttendanceChange: (attendanceStatus: MeetingAttendanceStatus | null) => void;
+  isUpdatingAttendance?: boolean;
 }
 
+const REMINDERS = [
+  { key: 'reminder_24h_sent_at', label: 'תזכורת 24 שעות לפני' },
+  { key: 'reminder_1h_sent_at', label: 'תזכורת שעה לפני' },
+] as const;
+
 export const MeetingActionDashboard: React.FC<MeetingActionDashboardProps> = ({
   meeting,
-  customer,
-  schedulingData,
-  meetingType,
   status,
-  meetingDate,
-  formatTimeRange,
-  notes,
   getStatusColor,
-  onAddToCalendar,
-  hasCalendarUrl,
+  onAttendanceChange,
+  isUpdatingAttendance = false,
 }) => {
   return (
-          <div className="flex items-center gap-2 mb-5 pb-3 border-b border-slate-100">
-            </div>
-          </div>
-            <div className="space-y-4">
-              <div>
-                <Badge 
-                  variant="outline" 
-                >
-                  {meetingType.label}
-                </Badge>
-              </div>
-              <div>
-                  <p className="text-sm font-semibold text-gray-900">
-                  </p>
-                </div>
-              </div>
-            </div>
-            <div className="space-y-4">
-              <div>
-                <label className="text-xs font-semibold text-gray-500 block mb-2">תאריך</label>
-                <div className="flex items-center gap-2">
-                  <Calendar className="h-4 w-4 text-gray-400" />
-                  <p className="text-sm font-semibold text-gray-900">
-                    {meetingDate || <span className="text-gray-400">לא צוין</span>}
-                  </p>
-                </div>
-              </div>
-              <div>
-                <label className="text-xs font-semibold text-gray-500 block mb-2">שעה</label>
-                <div className="flex items-center gap-2">
-                  <Clock className="h-4 w-4 text-gray-400" />
-                  <p className="text-sm font-semibold text-gray-900">
-                    {formatTimeRange() || <span className="text-gray-400">לא צוין</span>}
-                  </p>
-                </div>
-              </div>
-              {schedulingData?.timezone && (
-                <div>
-                  <label className="text-xs font-semibold text-gray-500 block mb-2">אזור זמן</label>
-                  <p className="text-sm text-gray-700 font-medium">{schedulingData.timezone}</p>
-                </div>
-              )}
-            {hasCalendarUrl && (
-              <Button
-                variant="outline"
-                size="sm"
-                className="w-full mt-3 text-xs border-[#5B6FB9] text-[#5B6FB9] hover:bg-[#5B6FB9] hover:text-white transition-colors"
-                onClick={onAddToCalendar}
-              >
-                <CalendarPlus className="h-3.5 w-3.5 ml-1.5" />
-                הוסף ללוח שנה
-              </Button>
-            )}
+    <Card className="p-4 border border-slate-200 rounded-xl shadow-sm bg-white">
+      <div className="flex items-center justify-between mb-4 pb-3 border-b border-slate-100">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-green-100 flex items-center justify-center">
+            <ClipboardCheck className="h-4 w-4 text-green-600" />
           </div>
-        </Card>
-
+          <h3 className="text-sm font-bold text-gray-900">מעקב הגעה</h3>
+        </div>
+        <Badge variant="outline" className={cn('text-xs', getStatusColor(status))}>
+          {status}
+        </Badge>
       </div>
 
-      {/* Notes Card (if exists) */}
-      {notes && (
-          <div className="flex items-center gap-2 mb-5 pb-3 border-b border-slate-100">
-            <div className="w-10 h-10 rounded-lg bg-amber-100 flex items-center justify-center">
-              <FileText className="h-5 w-5 text-amber-600" />
-            </div>
-            <h3 className="text-base font-bold text-gray-900">הערות ותיאור</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="text-xs font-semibold text-gray-500 block mb-2">נוכחות</label>
+          <div className="flex flex-wrap items-center gap-2">
+            {MEETING_ATTENDANCE_STATUSES.map((attendance) => {
+              const isSelected = meeting.attendance_status === attendance.value;
+              return (
+                <Button
+                  key={attendance.value}
+                  variant="outline"
+                  size="sm"
+                  disabled={isUpdatingAttendance}
+                  onClick={() => onAttendanceChange(isSelected ? null : attendance.value)}
+                  className={cn('h-8 text-xs', isSelected && attendance.color)}
+                >
+                  {isSelected && <CheckCircle2 className="h-3.5 w-3.5 ml-1" />}
+                  {attendance.label}
+                </Button>
+              );
+            })}
+            {isUpdatingAttendance && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
           </div>
-          <div>
-            <p className="text-sm text-gray-700 whitespace-pre-wrap leading-relaxed">{String(notes)}</p>
+          <p className="text-xs text-gray-500 mt-2">
+            {meeting.attendance_status && meeting.attendance_updated_at
+              ? `עודכן ב-${formatDateTime(meeting.attendance_updated_at)}`
+              : 'טרם סומן אם הליד הגיע לפגישה'}
+          </p>
+        </div>
+
+        <div>
+          <label className="text-xs font-semibold text-gray-500 block mb-2">תזכורות וואטסאפ</label>
+          <div className="space-y-2">
+            {REMINDERS.map((reminder) => {
+              const sentAt = meeting[reminder.key];
+              return (
+                <div key={reminder.key} className="flex items-center gap-2">
+                  <BellRing className={cn('h-4 w-4', sentAt ? 'text-green-600' : 'text-gray-300')} />
+                  <p className="text-sm text-gray-900">{reminder.label}</p>
+                  <span className="text-xs text-gray-500">
+                    {sentAt ? `נשלחה ${formatDateTime(sentAt)}` : 'לא נשלחה'}
+                  </span>
+                </div>
+              );
+            })}
           </div>
-        </Card>
-      )}
-    </div>
+        </div>
+      </div>
+    </Card>
   );
 };
-
@@ -8,7 +8,7 @@ import { useDispatch, useSelector } from 'react-redux';
 import { format, parseISO, isValid, addDays, setMonth, setYear, addWeeks, subWeeks, startOfWeek, endOfWeek, subMonths, addMonths } from 'date-fns';
 import { he } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
-import type { Meeting } from '@/hooks/useMeetings';
+import { fetchMeetingConflicts, type Meeting } from '@/hooks/useMeetings';
 import { Button } from '@/components/ui/button';
 import { ChevronLeft, ChevronRight, Settings, GripVertical } from 'lucide-react';
 import {
@@ -54,7 +54,10 @@ import {
   availableFields, 
   getMeetingTimeDisplayValue, 
   getMeetingCustomer,
-  getMeetingSchedulingData
+  getMeetingStart,
+  getMeetingEnd,
+  isMeetingCancelled,
+  DEFAULT_MEETING_DURATION_MINUTES
 } from './calendar/utils';
 import { MonthView } from './calendar/MonthView';
 import { WeekView } from './calendar/WeekView';
@@ -108,70 +111,55 @@ export const MeetingsCalendarView: React.FC<MeetingsCalendarViewProps> = ({ meet
   }, [currentDate, calendarViewType]);
 
   const updateMeetingDate = async (meetingId: string, newDate: Date, preserveTime: boolean = false) => {
-    try {
-      // Get the meeting to preserve existing data
-      const { data: meeting, error: fetchError } = await supabase
-        .from('meetings')
-        .select('*')
-        .eq('id', meetingId)
-        .single();
-
-      if (fetchError || !meeting) throw fetchError;
+    const meeting = meetings.find((m) => m.id === meetingId);
+    if (!meeting) return;
+
+    const oldStart = getMeetingStart(meeting);
+    const oldEnd = getMeetingEnd(meeting);
+    const durationMs = oldStart && oldEnd
+      ? oldEnd.getTime() - oldStart.getTime()
+      : DEFAULT_MEETING_DURATION_MINUTES * 60 * 1000;
+
+    let newStartTime: Date | null = new Date(newDate);
+    if (preserveTime) {
+      if (oldStart) {
+        // Keep the original time of day on the new date
+        newStartTime.setHours(oldStart.getHours(), oldStart.getMinutes(), oldStart.getSeconds(), 0);
+      } else {
+        // Date-only meeting moved to another day stays date-only
+        newStartTime = null;
+      }
+    }
+    const newEndTime = newStartTime && (oldEnd || !preserveTime)
+      ? new Date(newStartTime.getTime() + durationMs)
+      : null;
 
-      const meetingData = meeting.meeting_data || {};
-      const schedulingData = getMeetingSchedulingData(meetingData);
-      
-      let newStartTime = new Date(newDate);
-      let newEndTime = new Date(newDate);
-      
-      if (schedulingData?.eventStartTime) {
-        const oldStart = new Date(schedulingData.eventStartTime);
-        
-        if (preserveTime) {
-          // Keep the original time from the meeting
-          newStartTime.setHours(oldStart.getHours(), oldStart.getMinutes(), oldStart.getSeconds());
-          
-          if (schedulingData?.eventEndTime) {
-            const oldEnd = new Date(schedulingData.eventEndTime);
-            newEndTime = new Date(newDate);
-            newEndTime.setHours(oldEnd.getHours(), oldEnd.getMinutes(), oldEnd.getSeconds());
-          }
-        } else {
-          // Use the time from newDate (which has the new hour) and preserve duration
-          if (schedulingData?.eventEndTime) {
-            const oldEnd = new Date(schedulingData.eventEndTime);
-            const durationMs = oldEnd.getTime() - oldStart.getTime();
-            newEndTime = new Date(newStartTime.getTime() + durationMs);
-          } else {
-            // Default 1 hour duration
-            newEndTime = new Date(newStartTime.getTime() + 60 * 60 * 1000);
+    try {
+      if (newStartTime && meeting.owner_id && !isMeetingCancelled(meeting)) {
+        const conflicts = await fetchMeetingConflicts({
+          ownerId: meeting.owner_id,
+          startTime: newStartTime,
+          endTime: newEndTime,
+          excludeMeetingId: meeting.id,
+        });
+
+        if (conflicts.length > 0) {
+          const conflictList = conflicts
+            .map((conflict) => `${format(parseISO(conflict.start_time), 'HH:mm')} ${conflict.customer_name || ''}`.trim())
+            .join(', ');
+          if (!window.confirm(`למאמן יש פגישה חופפת (${conflictList}). להזיז בכל זאת?`)) {
+            return;
           }
         }
-      } else if (!preserveTime) {
-        // No existing scheduling data, use newDate time and 1 hour duration
-        newEndTime = new Date(newStartTime.getTime() + 60 * 60 * 1000);
       }
 
-      // Update meeting_data with new dates and times
-      const updatedMeetingData = {
-        ...meetingData,
-        'תאריך': format(newDate, 'yyyy-MM-dd'),
-        'תאריך פגישה': format(newDate, 'yyyy-MM-dd'),
-        date: format(newDate, 'yyyy-MM-dd'),
-        meeting_date: format(newDate, 'yyyy-MM-dd'),
-        event_start_time: newStartTime.toISOString(),
-        eventStartTime: newStartTime.toISOString(),
-        event_end_time: newEndTime.toISOString(),
-        eventEndTime: newEndTime.toISOString(),
-        meeting_time_start: format(newStartTime, 'HH:mm'),
-        meeting_time_end: format(newEndTime, 'HH:mm'),
-        'שעת התחלה': format(newStartTime, 'HH:mm'),
-        'שעת סיום': format(newEndTime, 'HH:mm'),
-      };
-
       const { error: updateError } = await supabase
         .from('meetings')
-        .update({ meeting_data: updatedMeetingData })
+        .update({
+          start_time: newStartTime ? newStartTime.toISOString() : null,
+          end_time: newEndTime ? newEndTime.toISOString() : null,
+          meeting_date: format(newDate, 'yyyy-MM-dd'),
+        })
         .eq('id', meetingId);
 
       if (updateError) throw updateError;
@@ -182,10 +170,10 @@ export const MeetingsCalendarView: React.FC<MeetingsCalendarViewProps> = ({ meet
         title: 'הצלחה',
         description: 'תאריך ושעת הפגישה עודכנו בהצלחה',
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'שגיאה',
-        description: error?.message || 'לא ניתן לעדכן את תאריך הפגישה',
+        description: (error as Error)?.message || 'לא ניתן לעדכן את תאריך הפגישה',
         variant: 'destructive',
       });
     }
@@ -4,7 +4,7 @@
  * Displays a bell icon with unread count badge and dropdown menu
  */
 
-import { Bell, Filter, Trash2, RefreshCw, Calendar, CheckCircle2, X } from 'lucide-react';
+import { Bell, Filter, Trash2, RefreshCw, Calendar, CheckCircle2, X, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import {
@@ -37,6 +37,12 @@ const NOTIFICATION_TYPES: Record<string, { label: string; color: string; bgColor
   meal_logged: { label: 'ארוחה נרשמה', color: 'text-cyan-700', bgColor: 'bg-cyan-100 border-cyan-200' },
   appointment_created: { label: 'תור נוצר', color: 'text-indigo-700', bgColor: 'bg-indigo-100 border-indigo-200' },
   subscription_ending: { label: 'סיום מנוי', color: 'text-red-700', bgColor: 'bg-red-100 border-red-200' },
+  whatsapp_button_reply: { label: 'תגובה בוואטסאפ', color: 'text-emerald-700', bgColor: 'bg-emerald-100 border-emerald-200' },
+  whatsapp_delivery_failed: { label: 'הודעה לא נמסרה', color: 'text-red-700', bgColor: 'bg-red-100 border-red-200' },
+  missed_check_in: { label: 'דיווח יומי חסר', color: 'text-amber-700', bgColor: 'bg-amber-100 border-amber-200' },
+  collection_overdue: { label: 'גבייה באיחור', color: 'text-red-700', bgColor: 'bg-red-100 border-red-200' },
+  payment_dunning_started: { label: 'תשלום נכשל', color: 'text-red-700', bgColor: 'bg-red-100 border-red-200' },
+  payment_dunning_escalated: { label: 'תשלום לא הוסדר', color: 'text-red-700', bgColor: 'bg-red-100 border-red-200' },
   default: { label: 'התראה', color: 'text-gray-700', bgColor: 'bg-gray-100 border-gray-200' },
 };
 
@@ -289,7 +295,13 @@ export const NotificationBell = () => {
                         </div>
 
                         {/* Title */}
-                        <p className="text-sm font-semibold text-gray-900 text-right mb-1.5">
+                        <p
+                          className={cn(
+                            'text-sm font-semibold text-right mb-1.5 flex items-center gap-1.5',
+                            notification.type === 'whatsapp_delivery_failed' ? 'text-red-700' : 'text-gray-900'
+                          )}
+                        >
+                          {notification.type === 'whatsapp_delivery_failed' && <AlertCircle className="h-4 w-4 flex-shrink-0" />}
                           {notification.title}
                         </p>
 
@@ -301,6 +313,9 @@ export const NotificationBell = () => {
                         {/* Metadata and Actions */}
                         <div className="flex items-center justify-between text-xs text-gray-500" dir="rtl">
                           <div className="flex items-center gap-3" dir="rtl">
+                            {notification.type === 'whatsapp_delivery_failed' && notification.metadata?.reason && (
+                              <span className="text-red-600">{notification.metadata.reason}</span>
+                            )}
                             {notification.metadata?.appointment_date && (
                               <div className="flex items-center gap-1">
                                 <Calendar className="h-3 w-3" />
@@ -0,0 +1,57 @@
+/**
+ * OnboardingStatusBadge Component
+ *
+ * First-login onboarding progress of a trainee, for coaches: done, how many steps are
+ * done, or not started. Skipped steps are listed in the tooltip.
+ */
+
+import React from 'react';
+import { ClipboardCheck, ClipboardList } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { ONBOARDING_STEPS, isOnboardingStepDone, type TraineeOnboarding } from '@/hooks/useTraineeOnboarding';
+
+interface OnboardingStatusBadgeProps {
+  onboarding: TraineeOnboarding | null;
+  className?: string;
+}
+
+export const OnboardingStatusBadge: React.FC<OnboardingStatusBadgeProps> = ({ onboarding, className }) => {
+  const doneSteps = ONBOARDING_STEPS.filter((step) => isOnboardingStepDone(onboarding, step.key)).length;
+  const skippedLabels = ONBOARDING_STEPS.filter((step) => onboarding?.skipped_steps.includes(step.key)).map(
+    (step) => step.label
+  );
+
+  const title = [
+    onboarding?.completed_at ? `הושלם: ${format(new Date(onboarding.completed_at), 'dd/MM/yyyy')}` : null,
+    skippedLabels.length > 0 ? `דולגו: ${skippedLabels.join(', ')}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  let tone: string;
+  let Icon = ClipboardList;
+  let label: string;
+
+  if (onboarding?.completed_at) {
+    tone = 'bg-emerald-50 text-emerald-700 border-emerald-200';
+    Icon = ClipboardCheck;
+    label = 'הרשמה הושלמה';
+  } else if (doneSteps > 0) {
+    tone = 'bg-amber-50 text-amber-700 border-amber-200';
+    label = `הרשמה ${doneSteps}/${ONBOARDING_STEPS.length}`;
+  } else {
+    tone = 'bg-gray-50 text-gray-500 border-gray-200';
+    label = 'טרם השלים/ה הרשמה';
+  }
+
+  return (
+    <span
+      className={cn('inline-flex items-center gap-1 rounded-md border px-1.5 py-0.5 text-xs font-medium whitespace-nowrap', tone, className)}
+      title={title || undefined}
+    >
+      <Icon className="h-3 w-3 flex-shrink-0" />
+      {label}
+    </span>
+  );
+};
@@ -297,6 +297,7 @@ export const PageLayout: React.FC<PageLayoutProps> = ({
                   onLeadSelect={onLeadSelect}
                   getStatusColor={getStatusColor}
                   getStatusBorderColor={getStatusBorderColor}
+                  customer={customer}
                   formSubmission={formSubmissionData}
                   onUpdateLead={onUpdateLead}
                 />
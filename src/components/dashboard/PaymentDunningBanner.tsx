@@ -0,0 +1,107 @@
+/**
+ * PaymentDunningBanner Component
+ *
+ * Flags a lead whose payment failed and is being reminded (payment_dunning), with the
+ * reminders' progress and a button to stop them.
+ */
+
+import React from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, ExternalLink, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_DUNNING_STEP_DAYS,
+  useActivePaymentDunning,
+  usePaymentDunningSettings,
+  useStopPaymentDunning,
+} from '@/hooks/usePaymentDunning';
+
+interface PaymentDunningBannerProps {
+  leadId?: string | null;
+  customerId?: string | null;
+}
+
+const formatAmount = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('he-IL', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
+
+export const PaymentDunningBanner: React.FC<PaymentDunningBannerProps> = ({ leadId, customerId }) => {
+  const { toast } = useToast();
+  const { data: dunning } = useActivePaymentDunning(leadId, customerId);
+  const { data: settings } = usePaymentDunningSettings();
+  const stopDunning = useStopPaymentDunning();
+
+  if (!dunning) return null;
+
+  const totalSteps = (settings?.step_days || DEFAULT_DUNNING_STEP_DAYS).length;
+
+  const handleStop = async () => {
+    if (!window.confirm('להפסיק את תזכורות התשלום ללקוח זה?')) return;
+
+    try {
+      await stopDunning.mutateAsync(dunning.id);
+      toast({ title: 'הצלחה', description: 'תזכורות התשלום הופסקו' });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: (error as Error)?.message || 'לא ניתן להפסיק את התזכורות',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-red-200 bg-red-50 p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-start gap-2">
+          <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="text-sm font-semibold text-red-800">
+              תשלום נכשל · {formatAmount(dunning.amount, dunning.currency)}
+            </p>
+            <p className="text-xs text-red-700">
+              {dunning.product_name} · {format(new Date(dunning.started_at), 'dd/MM/yyyy')}
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleStop}
+          disabled={stopDunning.isPending}
+          className="h-7 px-2.5 text-xs border-red-200 text-red-700 hover:bg-red-100 flex-shrink-0"
+        >
+          {stopDunning.isPending && <Loader2 className="h-3 w-3 ml-1 animate-spin" />}
+          הפסק תזכורות
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-red-700">
+        <span>תזכורות שנשלחו: {Math.min(dunning.messages_sent, totalSteps)}/{totalSteps}</span>
+        {dunning.next_attempt_at && dunning.messages_sent < totalSteps && (
+          <span>תזכורת הבאה: {format(new Date(dunning.next_attempt_at), 'dd/MM/yyyy HH:mm')}</span>
+        )}
+        {dunning.last_payment_link && (
+          <a
+            href={dunning.last_payment_link}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-blue-700 hover:text-blue-800"
+          >
+            <ExternalLink className="h-3 w-3" />
+            קישור אחרון
+          </a>
+        )}
+      </div>
+
+      {dunning.last_error && (
+        <p className="text-xs text-red-600">שליחה אחרונה נכשלה: {dunning.last_error}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+/**
+ * PaymentDunningSettingsDialog Component
+ *
+ * Settings for payment reminders after a failed payment: on which days the WhatsApp
+ * reminders are sent, with which flow, and when the coach takes over.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RTLSwitch } from '@/components/ui/RTLSwitch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppSelector } from '@/store/hooks';
+import { useAutomationFlows } from '@/hooks/useAutomationFlows';
+import {
+  DEFAULT_DUNNING_STEP_DAYS,
+  usePaymentDunningSettings,
+  useUpdatePaymentDunningSettings,
+} from '@/hooks/usePaymentDunning';
+import { useToast } from '@/hooks/use-toast';
+
+const DEFAULT_FLOW_KEY = 'payment_request';
+const DEFAULT_ESCALATE_AFTER_DAYS = 10;
+
+// "0, 3, 7" -> [0, 3, 7]: sorted, unique, 0-60 days, at most 10 reminders
+const parseStepDays = (value: string): number[] =>
+  Array.from(
+    new Set(
+      value
+        .split(/[,\s]+/)
+        .filter(Boolean)
+        .map(Number)
+        .filter((day) => Number.isInteger(day) && day >= 0 && day <= 60)
+    )
+  )
+    .sort((a, b) => a - b)
+    .slice(0, 10);
+
+interface PaymentDunningSettingsDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const PaymentDunningSettingsDialog: React.FC<PaymentDunningSettingsDialogProps> = ({
+  isOpen,
+  onOpenChange,
+}) => {
+  const { toast } = useToast();
+  const { user } = useAppSelector((state) => state.auth);
+  const { flows } = useAutomationFlows();
+  const { data: settings, isLoading } = usePaymentDunningSettings();
+  const updateSettings = useUpdatePaymentDunningSettings();
+
+  const [isActive, setIsActive] = useState(true);
+  const [stepDays, setStepDays] = useState(DEFAULT_DUNNING_STEP_DAYS.join(', '));
+  const [flowKey, setFlowKey] = useState(DEFAULT_FLOW_KEY);
+  const [escalateAfterDays, setEscalateAfterDays] = useState(DEFAULT_ESCALATE_AFTER_DAYS);
+  const [includeOverdueCollections, setIncludeOverdueCollections] = useState(false);
+
+  const isAdmin = user?.role === 'admin';
+
+  useEffect(() => {
+    if (isOpen && settings) {
+      setIsActive(settings.is_active);
+      setStepDays(settings.step_days.join(', '));
+      setFlowKey(settings.flow_key || DEFAULT_FLOW_KEY);
+      setEscalateAfterDays(settings.escalate_after_days);
+      setIncludeOverdueCollections(settings.include_overdue_collections);
+    }
+  }, [isOpen, settings]);
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    const parsedStepDays = parseStepDays(stepDays);
+    if (parsedStepDays.length === 0) {
+      toast({
+        title: 'שגיאה',
+        description: 'יש להזין לפחות יום תזכורת אחד',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await updateSettings.mutateAsync({
+        id: settings.id,
+        is_active: isActive,
+        step_days: parsedStepDays,
+        flow_key: flowKey,
+        escalate_after_days: Math.min(90, Math.max(1, escalateAfterDays || DEFAULT_ESCALATE_AFTER_DAYS)),
+        include_overdue_collections: includeOverdueCollections,
+      });
+      toast({
+        title: 'הצלחה',
+        description: 'הגדרות תזכורות התשלום נשמרו',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בשמירת ההגדרות',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">תזכורות תשלום</DialogTitle>
+          <DialogDescription className="text-right">
+            כשתשלום Stripe נכשל, המאמן מקבל התראה והלקוח מקבל תזכורות וואטסאפ עם קישור תשלום חדש, עד שהתשלום מוסדר
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-[#5B6FB9]" />
+          </div>
+        ) : !settings ? (
+          <p className="py-6 text-sm text-center text-gray-500">הגדרות תזכורות התשלום אינן זמינות</p>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="flex items-center justify-between">
+              <Label>תזכורות לתשלומים שנכשלו</Label>
+              <RTLSwitch checked={isActive} onCheckedChange={setIsActive} disabled={!isAdmin} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dunning-step-days">ימי תזכורת (ימים אחרי הכישלון)</Label>
+              <Input
+                id="dunning-step-days"
+                value={stepDays}
+                onChange={(e) => setStepDays(e.target.value)}
+                placeholder="0, 3, 7"
+                disabled={!isAdmin || !isActive}
+                dir="ltr"
+              />
+              <p className="text-xs text-gray-500">0 = מיד. כל תזכורת נשלחת עם קישור תשלום חדש</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>תבנית הודעה</Label>
+              <Select value={flowKey} onValueChange={setFlowKey} disabled={!isAdmin || !isActive} dir="rtl">
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {flows.map((flow) => (
+                    <SelectItem key={flow.key} value={flow.key}>
+                      {flow.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="dunning-escalate-days">העברה לטיפול המאמן אחרי (ימים)</Label>
+              <Input
+                id="dunning-escalate-days"
+                type="number"
+                min={1}
+                max={90}
+                value={escalateAfterDays}
+                onChange={(e) => setEscalateAfterDays(Number(e.target.value))}
+                disabled={!isAdmin || !isActive}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>תזכורות גם לגביות באיחור</Label>
+              <RTLSwitch
+                checked={includeOverdueCollections}
+                onCheckedChange={setIncludeOverdueCollections}
+                disabled={!isAdmin || !isActive}
+              />
+            </div>
+
+            {!isAdmin && (
+              <p className="text-xs text-gray-500">רק מנהלים יכולים לשנות את ההגדרות</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            ביטול
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!settings || !isAdmin || updateSettings.isPending}
+            className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white"
+          >
+            {updateSettings.isPending && <Loader2 className="h-4 w-4 animate-spin ml-2" />}
+            שמור
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -27,6 +27,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { saveTemplate, fetchTemplates } from '@/store/slices/automationSlice';
 import { supabase } from '@/lib/supabaseClient';
+import { useAutomationFlows } from '@/hooks/useAutomationFlows';
 
 interface SendBudgetModalProps {
   isOpen: boolean;
@@ -64,22 +65,8 @@ export const SendBudgetModal: React.FC<SendBudgetModalProps> = ({
   
   const isSending = budget ? (sendingWhatsApp[budget.id] || false) : false;
 
-  // Helper function to get flow label (check custom flows, then default)
-  const getFlowLabel = (flowKey: string, defaultLabel: string): string => {
-    try {
-      const stored = localStorage.getItem('custom_automation_flows');
-      if (stored) {
-        const customFlows: Array<{ key: string; label: string }> = JSON.parse(stored);
-        const customFlow = customFlows.find(f => f.key === flowKey);
-        if (customFlow) {
-          return customFlow.label;
-        }
-      }
-    } catch (error) {
-      // Silent failure
-    }
-    return defaultLabel;
-  };
+  // Flow label (shared flow definitions, falls back to the default label)
+  const { getFlowLabel } = useAutomationFlows();
 
   const budgetFlowLabel = getFlowLabel('budget', 'שליחת תכנית פעולה');
 
@@ -39,6 +39,7 @@ export const SmartTraineeActionButton: React.FC<SmartTraineeActionButtonProps> =
       <ViewAsClientButton
         customerId={customerId}
         userId={userId}
+        customerName={customerName || null}
       />
     );
   } else {
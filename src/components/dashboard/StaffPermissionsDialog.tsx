@@ -0,0 +1,196 @@
+/**
+ * StaffPermissionsDialog Component
+ *
+ * Staff roles and permissions: the role of each staff member, and which capabilities
+ * each role has. Changes are saved immediately.
+ */
+
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  usePermissions,
+  useSetRolePermission,
+  useStaffRoleAssignments,
+  useStaffRoles,
+  useUpdateStaffRole,
+} from '@/hooks/useStaffPermissions';
+import { getStaffMemberName } from '@/hooks/useStaffMembers';
+import { useToast } from '@/hooks/use-toast';
+import type { StaffPermission } from '@/utils/permissions';
+
+// Staff without a role are treated as coaches (see user_has_permission)
+const DEFAULT_STAFF_ROLE = 'coach';
+
+interface StaffPermissionsDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const StaffPermissionsDialog: React.FC<StaffPermissionsDialogProps> = ({
+  isOpen,
+  onOpenChange,
+}) => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const { data: staffRoles, isLoading: isLoadingRoles } = useStaffRoles();
+  const { data: staffMembers = [], isLoading: isLoadingMembers } = useStaffRoleAssignments();
+  const updateStaffRole = useUpdateStaffRole();
+  const setRolePermission = useSetRolePermission();
+
+  const canManage = can('users');
+  const editableRoles = (staffRoles?.roles || []).filter((role) => !role.is_system);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: 'שגיאה',
+      description: error instanceof Error ? error.message : 'נכשל בשמירת ההרשאות',
+      variant: 'destructive',
+    });
+  };
+
+  const handleRoleChange = async (profileId: string, staffRole: string) => {
+    try {
+      await updateStaffRole.mutateAsync({ profileId, staffRole });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handlePermissionToggle = async (roleKey: string, permission: StaffPermission, granted: boolean) => {
+    try {
+      await setRolePermission.mutateAsync({ roleKey, permission, granted });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const hasRolePermission = (roleKey: string, permission: StaffPermission) =>
+    !!staffRoles?.rolePermissions.some((item) => item.role_key === roleKey && item.permission === permission);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">תפקידים והרשאות</DialogTitle>
+          <DialogDescription className="text-right">
+            כל איש צוות מקבל תפקיד, ולכל תפקיד יש הרשאות. עמודים ונתונים ללא הרשאה מוסתרים וחסומים
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoadingRoles || isLoadingMembers ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-[#5B6FB9]" />
+          </div>
+        ) : !staffRoles ? (
+          <p className="py-6 text-sm text-center text-gray-500">הגדרות ההרשאות אינן זמינות</p>
+        ) : (
+          <Tabs defaultValue="members" dir="rtl">
+            <TabsList>
+              <TabsTrigger value="members">אנשי צוות</TabsTrigger>
+              <TabsTrigger value="roles">הרשאות לפי תפקיד</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="members">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">איש צוות</TableHead>
+                    <TableHead className="text-right">תפקיד</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {staffMembers.map((member) => (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">
+                        {getStaffMemberName(member)}
+                        {member.is_active === false && (
+                          <span className="mr-2 text-xs text-amber-600">(לא פעיל)</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {member.role === 'admin' ? (
+                          <span className="text-sm text-gray-600">מנהל (גישה מלאה)</span>
+                        ) : (
+                          <Select
+                            value={member.staff_role || DEFAULT_STAFF_ROLE}
+                            onValueChange={(value) => handleRoleChange(member.id, value)}
+                            disabled={!canManage || updateStaffRole.isPending}
+                            dir="rtl"
+                          >
+                            <SelectTrigger className="h-8 w-[200px]">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {editableRoles.map((role) => (
+                                <SelectItem key={role.key} value={role.key}>
+                                  {role.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="roles">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">הרשאה</TableHead>
+                    {editableRoles.map((role) => (
+                      <TableHead key={role.key} className="text-center">
+                        {role.label}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {staffRoles.permissions.map((permission) => (
+                    <TableRow key={permission.key}>
+                      <TableCell>
+                        <div className="font-medium text-gray-900">{permission.label}</div>
+                        {permission.description && (
+                          <div className="text-xs text-gray-500">{permission.description}</div>
+                        )}
+                      </TableCell>
+                      {editableRoles.map((role) => (
+                        <TableCell key={role.key} className="text-center">
+                          <Checkbox
+                            checked={hasRolePermission(role.key, permission.key)}
+                            onCheckedChange={(checked) =>
+                              handlePermissionToggle(role.key, permission.key, checked === true)
+                            }
+                            disabled={!canManage || setRolePermission.isPending}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {!canManage && (
+          <p className="text-xs text-gray-500">רק מנהלים יכולים לשנות את ההגדרות</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
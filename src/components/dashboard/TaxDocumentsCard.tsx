@@ -0,0 +1,199 @@
+/**
+ * TaxDocumentsCard Component
+ *
+ * Tax documents of a payment (חשבונית מס קבלה / קבלה / חשבונית זיכוי): view the PDF and send it
+ * to the customer by WhatsApp. Documents are issued automatically; payments paid before issuing
+ * was enabled can be issued from here.
+ */
+
+import React from 'react';
+import { format } from 'date-fns';
+import { FileText, Loader2, Send, Eye, Plus } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  useBusinessSettings,
+  useIssuePaymentTaxDocument,
+  useOpenTaxDocument,
+  usePaymentTaxDocuments,
+  useSendTaxDocument,
+} from '@/hooks/useTaxDocuments';
+import { formatTaxDocumentAmount, isCreditNote, type TaxDocument } from '@/utils/taxDocuments';
+
+interface TaxDocumentsCardProps {
+  paymentId: string;
+  paymentStatus: string;
+}
+
+export const TaxDocumentsCard: React.FC<TaxDocumentsCardProps> = ({ paymentId, paymentStatus }) => {
+  const { toast } = useToast();
+  const { data: documents = [], isLoading } = usePaymentTaxDocuments(paymentId);
+  const { data: businessSettings } = useBusinessSettings();
+  const issueDocument = useIssuePaymentTaxDocument();
+  const openDocument = useOpenTaxDocument();
+  const sendDocument = useSendTaxDocument();
+
+  const hasInvoice = documents.some((document) => !isCreditNote(document));
+  const canIssue = !hasInvoice && paymentStatus === 'שולם' && !!businessSettings?.is_active;
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: 'שגיאה',
+      description: (error as Error)?.message || fallback,
+      variant: 'destructive',
+    });
+  };
+
+  const handleIssue = async () => {
+    try {
+      await issueDocument.mutateAsync(paymentId);
+      toast({ title: 'הצלחה', description: 'המסמך הופק' });
+    } catch (error) {
+      showError(error, 'לא ניתן להפיק את המסמך');
+    }
+  };
+
+  const handleOpen = async (document: TaxDocument) => {
+    // Open the tab right away: browsers block popups opened after an await
+    const tab = window.open('about:blank', '_blank');
+    try {
+      const url = await openDocument.mutateAsync(document);
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        window.location.href = url;
+      }
+    } catch (error) {
+      tab?.close();
+      showError(error, 'לא ניתן לפתוח את המסמך');
+    }
+  };
+
+  const handleSend = async (document: TaxDocument) => {
+    try {
+      await sendDocument.mutateAsync(document);
+      toast({ title: 'הצלחה', description: 'המסמך נשלח ללקוח בוואטסאפ' });
+    } catch (error) {
+      showError(error, 'לא ניתן לשלוח את המסמך');
+    }
+  };
+
+  return (
+    <Card className="p-4 border border-slate-200 rounded-xl shadow-sm bg-white" style={{ minWidth: 0 }}>
+      <div className="flex items-center justify-between gap-2 mb-4 pb-3 border-b border-slate-100">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-emerald-100 flex items-center justify-center">
+            <FileText className="h-4 w-4 text-emerald-600" />
+          </div>
+          <h3 className="text-sm font-bold text-gray-900">מסמכי מס</h3>
+        </div>
+        {canIssue && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleIssue}
+            disabled={issueDocument.isPending}
+            className="h-7 px-2.5 text-xs"
+          >
+            {issueDocument.isPending ? (
+              <Loader2 className="h-3 w-3 ml-1 animate-spin" />
+            ) : (
+              <Plus className="h-3 w-3 ml-1" />
+            )}
+            הפק חשבונית
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500 text-center py-4">טוען...</p>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">
+          {businessSettings?.is_active ? 'לא הופקו מסמכים לתשלום זה' : 'הפקת מסמכי מס אינה פעילה (פרטי העסק בדף התשלומים)'}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="h-9 text-right text-xs">מסמך</TableHead>
+              <TableHead className="h-9 text-right text-xs">תאריך</TableHead>
+              <TableHead className="h-9 text-right text-xs">סכום</TableHead>
+              <TableHead className="h-9 text-right text-xs">מע"מ</TableHead>
+              <TableHead className="h-9 text-right text-xs">נשלח</TableHead>
+              <TableHead className="h-9 text-right text-xs" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {documents.map((document) => {
+              const creditNote = isCreditNote(document);
+              const isOpening = openDocument.isPending && openDocument.variables?.id === document.id;
+              const isSending = sendDocument.isPending && sendDocument.variables?.id === document.id;
+
+              return (
+                <TableRow key={document.id}>
+                  <TableCell className="py-2">
+                    <div className="flex items-center gap-1.5">
+                      <Badge
+                        variant="outline"
+                        className={cn(
+                          'text-[10px] px-1.5 py-0',
+                          creditNote
+                            ? 'bg-orange-50 text-orange-700 border-orange-200'
+                            : 'bg-green-50 text-green-700 border-green-200'
+                        )}
+                      >
+                        {document.document_type}
+                      </Badge>
+                      <span className="text-xs font-semibold text-gray-900">{document.document_number}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell className="py-2 text-xs text-gray-600 whitespace-nowrap">
+                    {format(new Date(document.issued_at), 'dd/MM/yyyy')}
+                  </TableCell>
+                  <TableCell className="py-2 text-xs font-semibold text-gray-900 whitespace-nowrap">
+                    {creditNote && '-'}
+                    {formatTaxDocumentAmount(document.total_amount, document.currency)}
+                  </TableCell>
+                  <TableCell className="py-2 text-xs text-gray-600 whitespace-nowrap">
+                    {document.vat_rate > 0 ? formatTaxDocumentAmount(document.vat_amount, document.currency) : '-'}
+                  </TableCell>
+                  <TableCell className="py-2 text-xs text-gray-600 whitespace-nowrap">
+                    {document.sent_at ? format(new Date(document.sent_at), 'dd/MM/yyyy') : '-'}
+                  </TableCell>
+                  <TableCell className="py-2">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => handleOpen(document)}
+                        disabled={isOpening}
+                        title="צפה במסמך"
+                      >
+                        {isOpening ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Eye className="h-3.5 w-3.5" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => handleSend(document)}
+                        disabled={isSending || !document.customer_phone}
+                        title="שלח בוואטסאפ"
+                      >
+                        {isSending ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Send className="h-3.5 w-3.5" />}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Card>
+  );
+};
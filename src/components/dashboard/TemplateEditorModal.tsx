@@ -22,7 +22,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Loader2, Smile, Bold, Italic, Underline, Strikethrough, List, ListOrdered, AlignRight, AlignLeft, AlignCenter, Plus, Trash2, HelpCircle, Smartphone, Image, Video, X } from 'lucide-react';
+import { Loader2, Smile, Bold, Italic, Underline, Strikethrough, List, ListOrdered, AlignRight, AlignLeft, AlignCenter, Plus, Trash2, HelpCircle, Smartphone, Image, Video, X, UserRound, ChevronDown } from 'lucide-react';
 import EmojiPicker, { EmojiClickData } from 'emoji-picker-react';
 import ReactQuill, { Quill } from 'react-quill';
 import 'react-quill/dist/quill.snow.css';
@@ -30,18 +30,40 @@ import { AVAILABLE_PLACEHOLDERS, getPlaceholdersByCategory, getCategoryLabel, ty
 import { cn } from '@/lib/utils';
 import { supabase } from '@/lib/supabaseClient';
 import { DevModeId } from '@/components/ui/DevModeId';
+import { STATUS_CATEGORIES } from '@/hooks/useLeadStatus';
+import { useAutomationFlows } from '@/hooks/useAutomationFlows';
+import { MEETING_REMINDER_FLOW_KEYS } from '@/utils/whatsappAutomationFlows';
+import { useTemplatePreviewLeadOptions, useTemplatePreviewValues } from '@/hooks/useTemplatePreview';
+import { renderTemplate, TEMPLATE_FORMATS } from '@/utils/templateRenderer';
 
 export interface WhatsAppButton {
   id: string;
   text: string;
-  action?: string; // Response action after click: 'reply', 'flow', 'url', 'none'
+  action?: string; // Response action after click: 'reply', 'status', 'meeting', 'flow', 'notify', 'url', 'none'
   actionConfig?: {
     replyMessage?: string; // For 'reply' action
-    flowKey?: string; // For 'flow' action
+    statusMain?: string; // For 'status' action
+    statusSub?: string; // For 'status' action
+    meetingType?: string; // For 'meeting' action
+    flowKey?: string; // For 'flow' action (follow-up template)
+    notifyMessage?: string; // For 'notify' action
     url?: string; // For 'url' action
   };
 }
 
+// Actions run by receive-whatsapp-webhook when the client presses the button
+const BUTTON_ACTIONS: Array<{ value: string; label: string }> = [
+  { value: 'status', label: 'שינוי סטטוס ליד' },
+  { value: 'meeting', label: 'יצירת פגישה' },
+  { value: 'flow', label: 'שליחת תבנית המשך' },
+  { value: 'notify', label: 'התראה למאמן' },
+  { value: 'reply', label: 'תגובה אוטומטית' },
+  { value: 'url', label: 'שליחת קישור' },
+  { value: 'none', label: 'ללא פעולה' },
+];
+
+const MEETING_TYPES = ['פגישת הכרות', 'פגישת מעקב', 'פגישת ביקורת חודשית', 'פגישת תזונה', 'תיאום תקציב'];
+
 export interface MediaData {
   type: 'image' | 'video' | 'gif';
   file?: File;
@@ -57,6 +79,7 @@ interface TemplateEditorModalProps {
   initialTemplate: string;
   initialButtons?: WhatsAppButton[];
   initialMedia?: MediaData | null;
+  previewLeadId?: string | null; // Lead the live preview is rendered against (can be changed in the preview)
   onSave: (template: string, buttons?: WhatsAppButton[], media?: MediaData | null, label?: string) => Promise<void>;
 }
 
@@ -68,6 +91,7 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
   initialTemplate,
   initialButtons = [],
   initialMedia = null,
+  previewLeadId = null,
   onSave,
 }) => {
   const getValidButtons = (buttonsInput?: WhatsAppButton[] | any): WhatsAppButton[] => {
@@ -556,7 +580,10 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
               ...btn,
               action,
               actionConfig: action === 'reply' ? { replyMessage: '' } :
+                           action === 'status' ? { statusMain: '', statusSub: '' } :
+                           action === 'meeting' ? { meetingType: MEETING_TYPES[0] } :
                            action === 'flow' ? { flowKey: '' } :
+                           action === 'notify' ? { notifyMessage: '' } :
                            action === 'url' ? { url: '' } :
                            undefined
             };
@@ -585,7 +612,16 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
     );
   };
 
-  const categories: Placeholder['category'][] = ['customer', 'lead', 'fitness', 'plans'];
+  const categories: Placeholder['category'][] = MEETING_REMINDER_FLOW_KEYS.includes(flowKey)
+    ? ['meeting', 'customer', 'lead', 'fitness', 'plans']
+    : ['customer', 'lead', 'fitness', 'plans'];
+
+  // Follow-up templates a button can send (a flow can't trigger itself)
+  const { flows: activeFlows } = useAutomationFlows();
+  const followUpFlows = useMemo(
+    () => activeFlows.filter((flow) => flow.key !== flowKey),
+    [activeFlows, flowKey]
+  );
 
   const safeButtons = React.useMemo(() => {
     try {
@@ -610,12 +646,32 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
     }
   }, [buttons]);
 
+  // Lead the preview is rendered against
+  const [selectedPreviewLeadId, setSelectedPreviewLeadId] = useState<string | null>(previewLeadId);
+  const [previewLeadSearch, setPreviewLeadSearch] = useState('');
+  const [isPreviewLeadPickerOpen, setIsPreviewLeadPickerOpen] = useState(false);
+  const { data: previewLeadOptions = [], isFetching: isSearchingPreviewLeads } = useTemplatePreviewLeadOptions(
+    previewLeadSearch,
+    isOpen && isPreviewLeadPickerOpen
+  );
+  const { data: previewValues } = useTemplatePreviewValues(isOpen ? selectedPreviewLeadId : null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedPreviewLeadId(previewLeadId);
+    }
+  }, [isOpen, previewLeadId]);
+
+  // Without a lead the template is shown as written
+  const renderPreviewText = (text: string): string =>
+    previewValues ? renderTemplate(text, previewValues) : text;
+
   // Live preview of message - preserve line breaks
   const previewMessage = useMemo(() => {
     if (!template) return '';
     
     // Convert HTML line break elements to newlines before extracting text
-    let htmlWithBreaks = template;
+    let htmlWithBreaks = previewValues ? renderTemplate(template, previewValues) : template;
     
     // Replace <br>, <br/>, <br /> with newlines
     htmlWithBreaks = htmlWithBreaks.replace(/<br\s*\/?>/gi, '\n');
@@ -635,7 +691,7 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
     
     // Clean up multiple consecutive newlines (more than 2) to max 2
     return text.replace(/\n{3,}/g, '\n\n');
-  }, [template]);
+  }, [template, previewValues]);
 
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
@@ -699,6 +755,33 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
                   </Card>
                 );
               })}
+
+              {/* Advanced syntax (see utils/templateRenderer) */}
+              <Card className="bg-white border-0 shadow-sm rounded-2xl">
+                <CardHeader className="pb-2 px-3 pt-3">
+                  <CardTitle className="text-xs font-semibold text-slate-700 uppercase tracking-wide">
+                    תחביר מתקדם
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="px-3 pb-3 space-y-2 text-[10px] text-slate-600">
+                  <div>
+                    <span className="font-mono block text-slate-800" dir="ltr">{'{{first_name|חברה}}'}</span>
+                    ערך ברירת מחדל כשהשדה ריק
+                  </div>
+                  <div>
+                    <span className="font-mono block text-slate-800" dir="ltr">{'{{#if budget_link}}...{{/if}}'}</span>
+                    הצגת שורה רק אם יש ערך ({'{{else}}'} לחלופה, {'{{#unless}}'} להפך)
+                  </div>
+                  <div>
+                    <span className="font-mono block text-slate-800" dir="ltr">{'{{g:מוכן|מוכנה}}'}</span>
+                    ניסוח לפי מגדר (זכר|נקבה|לא ידוע)
+                  </div>
+                  <div>
+                    <span className="font-mono block text-slate-800" dir="ltr">{'{{weight:number}}'}</span>
+                    עיצוב: {TEMPLATE_FORMATS.map((f) => f.key).join(', ')}
+                  </div>
+                </CardContent>
+              </Card>
             </div>
           </div>
 
@@ -925,10 +1008,9 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
                                   <SelectValue placeholder="בחר פעולה" />
                                 </SelectTrigger>
                                 <SelectContent dir="rtl">
-                                  <SelectItem value="reply">תגובה אוטומטית</SelectItem>
-                                  <SelectItem value="flow">הפעלת זרימה</SelectItem>
-                                  <SelectItem value="url">פתיחת קישור</SelectItem>
-                                  <SelectItem value="none">ללא פעולה</SelectItem>
+                                  {BUTTON_ACTIONS.map((action) => (
+                                    <SelectItem key={action.value} value={action.value}>{action.label}</SelectItem>
+                                  ))}
                                 </SelectContent>
                               </Select>
                               
@@ -946,25 +1028,100 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
                                 </div>
                               )}
                               
+                              {button.action === 'status' && (
+                                <div className="mt-2 space-y-2">
+                                  <Label className="text-xs text-slate-500 mb-1 block">סטטוס חדש לליד</Label>
+                                  <Select
+                                    value={button.actionConfig?.statusMain || ''}
+                                    onValueChange={(value) => {
+                                      handleButtonActionConfigChange(button.id, 'statusMain', value);
+                                      handleButtonActionConfigChange(button.id, 'statusSub', '');
+                                    }}
+                                  >
+                                    <SelectTrigger className="h-8 text-xs bg-white border border-slate-200 focus:border-[#5B6FB9] rounded-lg px-2" dir="rtl">
+                                      <SelectValue placeholder="בחר סטטוס" />
+                                    </SelectTrigger>
+                                    <SelectContent dir="rtl">
+                                      {STATUS_CATEGORIES.map((category) => (
+                                        <SelectItem key={category.id} value={category.label}>{category.label}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  {(() => {
+                                    const subStatuses = STATUS_CATEGORIES.find(
+                                      (category) => category.label === button.actionConfig?.statusMain
+                                    )?.subStatuses;
+                                    if (!subStatuses?.length) return null;
+                                    return (
+                                      <Select
+                                        value={button.actionConfig?.statusSub || ''}
+                                        onValueChange={(value) => handleButtonActionConfigChange(button.id, 'statusSub', value)}
+                                      >
+                                        <SelectTrigger className="h-8 text-xs bg-white border border-slate-200 focus:border-[#5B6FB9] rounded-lg px-2" dir="rtl">
+                                          <SelectValue placeholder="בחר תת-סטטוס" />
+                                        </SelectTrigger>
+                                        <SelectContent dir="rtl">
+                                          {subStatuses.map((sub) => (
+                                            <SelectItem key={sub.id} value={sub.label}>{sub.label}</SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                    );
+                                  })()}
+                                </div>
+                              )}
+
+                              {button.action === 'meeting' && (
+                                <div className="mt-2">
+                                  <Label className="text-xs text-slate-500 mb-1 block">סוג פגישה</Label>
+                                  <Select
+                                    value={button.actionConfig?.meetingType || MEETING_TYPES[0]}
+                                    onValueChange={(value) => handleButtonActionConfigChange(button.id, 'meetingType', value)}
+                                  >
+                                    <SelectTrigger className="h-8 text-xs bg-white border border-slate-200 focus:border-[#5B6FB9] rounded-lg px-2" dir="rtl">
+                                      <SelectValue placeholder="בחר סוג פגישה" />
+                                    </SelectTrigger>
+                                    <SelectContent dir="rtl">
+                                      {MEETING_TYPES.map((type) => (
+                                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <p className="text-[11px] text-slate-400 mt-1">הפגישה תיווצר בסטטוס "מתוכנן" לתיאום מועד</p>
+                                </div>
+                              )}
+
                               {button.action === 'flow' && (
                                 <div className="mt-2">
-                                  <Label className="text-xs text-slate-500 mb-1 block">מזהה זרימה</Label>
+                                  <Label className="text-xs text-slate-500 mb-1 block">תבנית המשך</Label>
                                   <Select
                                     value={button.actionConfig?.flowKey || ''}
                                     onValueChange={(value) => handleButtonActionConfigChange(button.id, 'flowKey', value)}
                                   >
                                     <SelectTrigger className="h-8 text-xs bg-white border border-slate-200 focus:border-[#5B6FB9] rounded-lg px-2" dir="rtl">
-                                      <SelectValue placeholder="בחר זרימה" />
+                                      <SelectValue placeholder="בחר תבנית" />
                                     </SelectTrigger>
                                     <SelectContent dir="rtl">
-                                      <SelectItem value="start_customer_journey">תחילת מסע לקוח</SelectItem>
-                                      <SelectItem value="send_questionnaire">שליחת שאלון</SelectItem>
-                                      <SelectItem value="send_payment">שליחת תשלום</SelectItem>
-                                      <SelectItem value="send_budget">שליחת תכנית פעולה</SelectItem>
+                                      {followUpFlows.map((flow) => (
+                                        <SelectItem key={flow.key} value={flow.key}>{flow.label}</SelectItem>
+                                      ))}
                                     </SelectContent>
                                   </Select>
                                 </div>
                               )}
+
+                              {button.action === 'notify' && (
+                                <div className="mt-2">
+                                  <Label className="text-xs text-slate-500 mb-1 block">הודעה למאמן (אופציונלי)</Label>
+                                  <Input
+                                    value={button.actionConfig?.notifyMessage || ''}
+                                    onChange={(e) => handleButtonActionConfigChange(button.id, 'notifyMessage', e.target.value)}
+                                    placeholder="לדוגמה: הלקוח ביקש שיחה חוזרת"
+                                    className="h-8 text-xs bg-white border border-slate-200 focus:border-[#5B6FB9] rounded-lg px-2"
+                                    dir="rtl"
+                                  />
+                                </div>
+                              )}
                               
                               {button.action === 'url' && (
                                 <div className="mt-2">
@@ -1008,6 +1165,68 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
               <Smartphone className="h-4 w-4" />
               תצוגה מקדימה
             </Label>
+            <Popover open={isPreviewLeadPickerOpen} onOpenChange={setIsPreviewLeadPickerOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" className="mb-3 justify-between bg-white border-slate-200 text-xs font-normal">
+                  <span className="flex items-center gap-2 truncate">
+                    <UserRound className="h-3.5 w-3.5 flex-shrink-0" />
+                    {previewValues
+                      ? `לפי: ${previewValues.full_name || previewValues.phone || 'ליד'}`
+                      : 'בחר ליד לתצוגה מקדימה'}
+                  </span>
+                  <ChevronDown className="h-3.5 w-3.5 opacity-50" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 p-2" align="start" dir="rtl">
+                <Input
+                  value={previewLeadSearch}
+                  onChange={(e) => setPreviewLeadSearch(e.target.value)}
+                  placeholder="חיפוש לפי שם או טלפון..."
+                  className="h-8 text-xs mb-2"
+                />
+                <div className="max-h-60 overflow-y-auto space-y-0.5">
+                  {selectedPreviewLeadId && (
+                    <button
+                      type="button"
+                      className="w-full text-right px-2 py-1.5 text-xs rounded-md text-slate-500 hover:bg-slate-100"
+                      onClick={() => {
+                        setSelectedPreviewLeadId(null);
+                        setIsPreviewLeadPickerOpen(false);
+                      }}
+                    >
+                      ללא ליד (הצג את התבנית כפי שנכתבה)
+                    </button>
+                  )}
+                  {isSearchingPreviewLeads && previewLeadOptions.length === 0 ? (
+                    <div className="flex justify-center py-3">
+                      <Loader2 className="h-4 w-4 animate-spin text-slate-400" />
+                    </div>
+                  ) : previewLeadOptions.length === 0 ? (
+                    <p className="text-xs text-slate-500 text-center py-3">לא נמצאו לידים</p>
+                  ) : (
+                    previewLeadOptions.map((option) => (
+                      <button
+                        key={option.lead_id}
+                        type="button"
+                        className={cn(
+                          'w-full text-right px-2 py-1.5 text-xs rounded-md hover:bg-slate-100',
+                          option.lead_id === selectedPreviewLeadId && 'bg-slate-100 font-medium'
+                        )}
+                        onClick={() => {
+                          setSelectedPreviewLeadId(option.lead_id);
+                          setIsPreviewLeadPickerOpen(false);
+                        }}
+                      >
+                        <span className="block truncate">{option.full_name || option.phone || option.lead_id}</span>
+                        <span className="block text-[10px] text-slate-500 truncate">
+                          {[option.phone, option.status].filter(Boolean).join(' · ')}
+                        </span>
+                      </button>
+                    ))
+                  )}
+                </div>
+              </PopoverContent>
+            </Popover>
             <Card className="flex-1 bg-white border-0 shadow-sm rounded-2xl overflow-hidden flex flex-col">
               <div className="bg-slate-900 rounded-t-2xl px-4 py-2 flex items-center gap-2 flex-shrink-0">
                 <div className="w-3 h-3 rounded-full bg-red-500"></div>
@@ -1160,7 +1379,7 @@ export const TemplateEditorModal: React.FC<TemplateEditorModalProps> = ({
                         className="w-full bg-[#5B6FB9] text-white rounded-lg py-3 px-4 text-sm font-medium hover:bg-[#5B6FB9]/90 transition-colors text-center"
                         disabled
                       >
-                        {button.text || `כפתור ${index + 1}`}
+                        {renderPreviewText(button.text) || `כפתור ${index + 1}`}
                       </button>
                     ))}
                   </div>
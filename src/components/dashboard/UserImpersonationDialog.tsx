@@ -1,13 +1,12 @@
 /**
  * UserImpersonationDialog Component
  * 
- * Dialog for searching and impersonating users by name or phone
+ * Dialog for searching and impersonating users by name or phone.
+ * The session itself (reason, duration) is started from ImpersonationReasonDialog.
  */
 
 import { useState, useEffect } from 'react';
-import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { startImpersonation } from '@/store/slices/impersonationSlice';
-import { useNavigate, useLocation } from 'react-router-dom';
+import { useAppSelector } from '@/store/hooks';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabaseClient';
 import {
@@ -19,6 +18,7 @@ import {
   CommandItem,
 } from '@/components/ui/command';
 import { User, Phone } from 'lucide-react';
+import { ImpersonationReasonDialog } from './ImpersonationReasonDialog';
 
 interface UserImpersonationDialogProps {
   open: boolean;
@@ -40,9 +40,7 @@ export const UserImpersonationDialog: React.FC<UserImpersonationDialogProps> = (
   const [searchQuery, setSearchQuery] = useState('');
   const [customers, setCustomers] = useState<CustomerWithUser[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const dispatch = useAppDispatch();
-  const navigate = useNavigate();
-  const location = useLocation();
+  const [selectedCustomer, setSelectedCustomer] = useState<CustomerWithUser | null>(null);
   const { toast } = useToast();
   const { user } = useAppSelector((state) => state.auth);
 
@@ -93,7 +91,7 @@ export const UserImpersonationDialog: React.FC<UserImpersonationDialogProps> = (
     return () => clearTimeout(timeoutId);
   }, [searchQuery, open, toast]);
 
-  const handleSelectUser = async (customer: CustomerWithUser) => {
+  const handleSelectUser = (customer: CustomerWithUser) => {
     if (!customer.user_id) {
       toast({
         title: 'שגיאה',
@@ -103,42 +101,13 @@ export const UserImpersonationDialog: React.FC<UserImpersonationDialogProps> = (
       return;
     }
 
-    try {
-      // Store current location before navigating
-      const currentLocation = location.pathname + location.search;
-      
-      // Start impersonation
-      dispatch(
-        startImpersonation({
-          userId: customer.user_id,
-          customerId: customer.id,
-          originalUser: {
-            id: user.id,
-            email: user.email || '',
-            role: user.role || 'user',
-          },
-          previousLocation: currentLocation,
-        })
-      );
-
-      // Close dialog and navigate to client dashboard
-      onOpenChange(false);
-      navigate('/client/dashboard');
-      
-      toast({
-        title: 'מצב תצוגה פעיל',
-        description: `אתה צופה במערכת בעיניו של ${customer.full_name}`,
-      });
-    } catch (error: any) {
-      toast({
-        title: 'שגיאה',
-        description: 'נכשל בכניסה למצב תצוגה',
-        variant: 'destructive',
-      });
-    }
+    // Close the search and ask for the reason
+    onOpenChange(false);
+    setSelectedCustomer(customer);
   };
 
   return (
+    <>
     <CommandDialog open={open} onOpenChange={onOpenChange}>
       <CommandInput
         placeholder="חפש לפי שם או טלפון..."
@@ -182,5 +151,13 @@ export const UserImpersonationDialog: React.FC<UserImpersonationDialogProps> = (
         )}
       </CommandList>
     </CommandDialog>
+
+    <ImpersonationReasonDialog
+      isOpen={!!selectedCustomer}
+      onOpenChange={(isOpen) => !isOpen && setSelectedCustomer(null)}
+      customerId={selectedCustomer?.id || null}
+      customerName={selectedCustomer?.full_name}
+    />
+    </>
   );
 };
\ No newline at end of file
@@ -20,6 +20,7 @@ import { cn } from '@/lib/utils';
 import { sendWhatsAppMessage, replacePlaceholders } from '@/services/greenApiService';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { fetchTemplates } from '@/store/slices/automationSlice';
+import { formatWeeklyChange } from '@/utils/dashboard';
 
 interface WeeklyCheckInsListProps {
   leadId?: string | null;
@@ -46,6 +47,12 @@ interface WeeklyReview {
   weekly_avg_weight: number | null;
   trainer_summary: string | null;
   action_plan: string | null;
+  is_draft: boolean | null;
+  check_ins_count: number | null;
+  actual_steps_avg: number | null;
+  weight_change: number | null;
+  waist_change: number | null;
+  calories_avg_change: number | null;
   created_at: string;
   updated_at: string;
 }
@@ -83,7 +90,7 @@ export const WeeklyCheckInsList: React.FC<WeeklyCheckInsListProps> = ({
     queryFn: async () => {
       let query = supabase
         .from('weekly_reviews')
-        .select('id, week_start_date, week_end_date, target_calories, target_protein, target_carbs, target_fat, target_fiber, target_steps, actual_calories_avg, actual_protein_avg, actual_carbs_avg, actual_fat_avg, actual_fiber_avg, weekly_avg_weight, trainer_summary, action_plan, created_at, updated_at')
+        .select('id, week_start_date, week_end_date, target_calories, target_protein, target_carbs, target_fat, target_fiber, target_steps, actual_calories_avg, actual_protein_avg, actual_carbs_avg, actual_fat_avg, actual_fiber_avg, weekly_avg_weight, trainer_summary, action_plan, is_draft, check_ins_count, actual_steps_avg, weight_change, waist_change, calories_avg_change, created_at, updated_at')
         .order('week_start_date', { ascending: false });
 
       if (leadId) {
@@ -200,6 +207,13 @@ export const WeeklyCheckInsList: React.FC<WeeklyCheckInsListProps> = ({
           '{{actual_protein}}': review.actual_protein_avg ? Math.round(review.actual_protein_avg).toString() : '-',
           '{{actual_fiber}}': review.actual_fiber_avg ? Math.round(review.actual_fiber_avg).toString() : '-',
           '{{actual_weight}}': review.weekly_avg_weight ? review.weekly_avg_weight.toFixed(1) : '-',
+          '{{actual_steps}}': review.actual_steps_avg ? Math.round(review.actual_steps_avg).toString() : '-',
+          '{{check_ins_count}}': review.check_ins_count?.toString() || '-',
+          
+          // Week-over-week changes
+          '{{weight_change}}': formatWeeklyChange(review.weight_change, 1),
+          '{{waist_change}}': formatWeeklyChange(review.waist_change),
+          '{{calories_change}}': formatWeeklyChange(review.calories_avg_change),
           
           // Trainer feedback
           '{{trainer_summary}}': review.trainer_summary || '',
@@ -250,6 +264,7 @@ export const WeeklyCheckInsList: React.FC<WeeklyCheckInsListProps> = ({
         message,
         buttons: processedButtons,
         media,
+        flowKey: 'weekly_review',
       });
 
       if (result.success) {
@@ -319,6 +334,14 @@ export const WeeklyCheckInsList: React.FC<WeeklyCheckInsListProps> = ({
                       <h4 className="text-sm font-semibold text-slate-900">
                         {formatWeekRange(review.week_start_date, review.week_end_date)}
                       </h4>
+                      {review.is_draft && (
+                        <span
+                          className="inline-flex items-center rounded-md border border-indigo-200 bg-indigo-50 px-1.5 py-0.5 text-xs font-medium text-indigo-700"
+                          title="נוצר אוטומטית מהדיווחים היומיים - לא נשמר עדיין ואינו גלוי למתאמן"
+                        >
+                          טיוטה
+                        </span>
+                      )}
                     </div>
                     
                     {/* Summary Metrics */}
@@ -339,6 +362,11 @@ export const WeeklyCheckInsList: React.FC<WeeklyCheckInsListProps> = ({
                         <div className="text-xs text-slate-600 mb-1">משקל ממוצע</div>
                         <div className="text-sm font-semibold text-slate-900">
                           {review.weekly_avg_weight ? `${review.weekly_avg_weight.toFixed(1)} ק"ג` : '—'}
+                          {review.weight_change !== null && review.weight_change !== undefined && (
+                            <span className="text-xs font-normal text-slate-500 mr-1" dir="ltr">
+                              ({formatWeeklyChange(review.weight_change, 1)})
+                            </span>
+                          )}
                         </div>
                       </div>
                       <div className="bg-slate-50 rounded-lg p-2">
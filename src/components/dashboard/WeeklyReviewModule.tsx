@@ -16,7 +16,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { sendWhatsAppMessage, formatPhoneNumber, replacePlaceholders } from '@/services/greenApiService';
-import { Calendar as CalendarIcon, Target, TrendingUp, MessageSquare, Save, Clock } from 'lucide-react';
+import { Calendar as CalendarIcon, Target, TrendingUp, MessageSquare, Save, Clock, Sparkles, RefreshCw } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { format, startOfWeek, endOfWeek, addWeeks, subWeeks, parseISO } from 'date-fns';
 import { he } from 'date-fns/locale';
@@ -25,6 +25,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { cn } from '@/lib/utils';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { fetchTemplates } from '@/store/slices/automationSlice';
+import { formatWeeklyChange } from '@/utils/dashboard';
 
 interface WeeklyReviewModuleProps {
   leadId?: string | null;
@@ -61,6 +62,16 @@ interface WeeklyReviewData {
   action_plan: string;
   updated_steps_goal: number | null;
   updated_calories_target: number | null;
+  is_draft?: boolean;
+  // Filled by generate_weekly_review_draft()
+  generated_at?: string | null;
+  check_ins_count?: number | null;
+  actual_steps_avg?: number | null;
+  weight_change?: number | null;
+  waist_change?: number | null;
+  calories_avg_change?: number | null;
+  protein_avg_change?: number | null;
+  steps_avg_change?: number | null;
 }
 
 export const WeeklyReviewModule: React.FC<WeeklyReviewModuleProps> = ({
@@ -316,7 +327,7 @@ export const WeeklyReviewModule: React.FC<WeeklyReviewModuleProps> = ({
     queryFn: async () => {
       let query = supabase
         .from('weekly_reviews')
-        .select('id, week_start_date, week_end_date, target_calories, target_protein, target_carbs, target_fat, target_fiber, target_steps, target_weight, target_waist, actual_calories_avg, actual_protein_avg, actual_carbs_avg, actual_fat_avg, actual_fiber_avg, actual_calories_weekly_avg, weekly_avg_weight, waist_measurement, trainer_summary, action_plan, updated_steps_goal, updated_calories_target, lead_id, customer_id, created_by, created_at, updated_at')
+        .select('id, week_start_date, week_end_date, target_calories, target_protein, target_carbs, target_fat, target_fiber, target_steps, target_weight, target_waist, actual_calories_avg, actual_protein_avg, actual_carbs_avg, actual_fat_avg, actual_fiber_avg, actual_calories_weekly_avg, weekly_avg_weight, waist_measurement, trainer_summary, action_plan, updated_steps_goal, updated_calories_target, is_draft, generated_at, check_ins_count, actual_steps_avg, weight_change, waist_change, calories_avg_change, protein_avg_change, steps_avg_change, lead_id, customer_id, created_by, created_at, updated_at')
         .eq('week_start_date', weekStartStr)
         .maybeSingle();
 
@@ -617,6 +628,50 @@ export const WeeklyReviewModule: React.FC<WeeklyReviewModuleProps> = ({
     },
   });
 
+  // Build the draft server-side (targets from the active plans, averages and changes from check-ins)
+  const generateDraftMutation = useMutation({
+    mutationFn: async () => {
+      let finalCustomerId = customerId;
+
+      if (!finalCustomerId && leadId) {
+        const { data: leadData, error: leadError } = await supabase
+          .from('leads')
+          .select('customer_id')
+          .eq('id', leadId)
+          .single();
+
+        if (leadError) throw leadError;
+        finalCustomerId = leadData?.customer_id;
+      }
+
+      if (!finalCustomerId) throw new Error('לא נמצא לקוח עבור הדיווח');
+
+      const { data, error } = await supabase.rpc('generate_weekly_review_draft', {
+        p_customer_id: finalCustomerId,
+        p_week_start: weekStartStr,
+        p_lead_id: leadId || null,
+      });
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weekly-review'] });
+      queryClient.invalidateQueries({ queryKey: ['weekly-reviews-list'] });
+      toast({
+        title: 'הצלחה',
+        description: 'הנתונים מולאו מהדיווחים היומיים',
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'שגיאה',
+        description: error?.message || 'נכשל במילוי הנתונים מהדיווחים',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // Send WhatsApp mutation
   const [isSendingWhatsApp, setIsSendingWhatsApp] = useState(false);
   
@@ -663,6 +718,8 @@ export const WeeklyReviewModule: React.FC<WeeklyReviewModuleProps> = ({
       action_plan: actionPlan,
       updated_steps_goal: parseNumber(updatedStepsGoal),
       updated_calories_target: parseNumber(updatedCaloriesTarget),
+      // Saving a draft makes it a regular review (visible to the trainee)
+      is_draft: false,
     };
 
     if (leadId) {
@@ -748,6 +805,13 @@ export const WeeklyReviewModule: React.FC<WeeklyReviewModuleProps> = ({
         '{{actual_protein}}': actualProtein ? Math.round(parseFloat(actualProtein)).toString() : '-',
         '{{actual_fiber}}': actualFiber ? Math.round(parseFloat(actualFiber)).toString() : '-',
         '{{actual_weight}}': actualWeight ? parseFloat(actualWeight).toFixed(1) : '-',
+        '{{actual_steps}}': existingReview?.actual_steps_avg ? Math.round(existingReview.actual_steps_avg).toString() : '-',
+        '{{check_ins_count}}': existingReview?.check_ins_count?.toString() || (weekCheckIns?.length || 0).toString(),
+        
+        // Week-over-week changes (from the generated draft)
+        '{{weight_change}}': formatWeeklyChange(existingReview?.weight_change, 1),
+        '{{waist_change}}': formatWeeklyChange(existingReview?.waist_change),
+        '{{calories_change}}': formatWeeklyChange(existingReview?.calories_avg_change),
         
         // Trainer feedback
         '{{trainer_summary}}': trainerSummary || '',
@@ -811,6 +875,8 @@ ${actionPlan || '(ניתן להוסיף דגשים כאן)'}
     weekEnd,
     templates,
     customerName,
+    existingReview,
+    weekCheckIns,
     targetCalories,
     targetProtein,
     targetFiber,
@@ -886,6 +952,7 @@ ${actionPlan || '(ניתן להוסיף דגשים כאן)'}
         message: cleanedMessage,
         buttons: whatsappButtons,
         media: whatsappMedia,
+        flowKey: 'weekly_review',
       });
 
       if (result.success) {
@@ -982,6 +1049,34 @@ ${actionPlan || '(ניתן להוסיף דגשים כאן)'}
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
+        {/* Auto-generated draft / fill from the plans and check-ins */}
+        {(!existingReview || existingReview.is_draft) && (
+          <div className="flex items-center justify-between gap-3 rounded-xl border border-indigo-200 bg-indigo-50 px-3 py-2">
+            <div className="flex items-center gap-2 text-sm text-indigo-900">
+              <Sparkles className="h-4 w-4 flex-shrink-0" />
+              {existingReview?.is_draft ? (
+                <span>
+                  טיוטה אוטומטית
+                  {existingReview.generated_at ? ` (${format(parseISO(existingReview.generated_at), 'dd/MM HH:mm')})` : ''}
+                  {' '}- נותר לכתוב סיכום ודגשים ולשמור
+                </span>
+              ) : (
+                <span>ניתן למלא את היעדים והממוצעים אוטומטית מהתוכניות הפעילות והדיווחים היומיים</span>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => generateDraftMutation.mutate()}
+              disabled={generateDraftMutation.isPending}
+              className="gap-1.5 flex-shrink-0 bg-white"
+            >
+              <RefreshCw className={cn('h-3.5 w-3.5', generateDraftMutation.isPending && 'animate-spin')} />
+              {existingReview?.is_draft ? 'רענן נתונים' : 'מילוי אוטומטי'}
+            </Button>
+          </div>
+        )}
+
         {/* Comparison Table - All fields editable */}
         <div className="w-full overflow-hidden">
           <table className="w-full text-sm table-auto" dir="rtl">
@@ -1185,6 +1280,51 @@ ${actionPlan || '(ניתן להוסיף דגשים כאן)'}
           </table>
         </div>
 
+        {/* Week-over-week changes (computed with the draft) */}
+        {existingReview?.generated_at && (
+          <div>
+            <div className="flex items-center gap-2 mb-2 text-sm font-semibold text-gray-700">
+              <TrendingUp className="h-4 w-4 text-blue-600" />
+              שינוי משבוע קודם
+              {existingReview.check_ins_count !== null && existingReview.check_ins_count !== undefined && (
+                <span className="text-xs font-normal text-gray-500">({existingReview.check_ins_count}/7 דיווחים)</span>
+              )}
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+              {[
+                { label: 'משקל ממוצע', value: formatWeeklyChange(existingReview.weight_change, 1), unit: 'ק"ג', change: existingReview.weight_change, lowerIsBetter: true },
+                { label: 'היקף מותן', value: formatWeeklyChange(existingReview.waist_change), unit: 'ס"מ', change: existingReview.waist_change, lowerIsBetter: true },
+                { label: 'קלוריות', value: formatWeeklyChange(existingReview.calories_avg_change), unit: 'קק"ל', change: existingReview.calories_avg_change, lowerIsBetter: null },
+                { label: 'חלבון', value: formatWeeklyChange(existingReview.protein_avg_change), unit: 'גרם', change: existingReview.protein_avg_change, lowerIsBetter: null },
+                {
+                  label: existingReview.actual_steps_avg ? `צעדים (${Math.round(existingReview.actual_steps_avg).toLocaleString()})` : 'צעדים',
+                  value: formatWeeklyChange(existingReview.steps_avg_change),
+                  unit: '',
+                  change: existingReview.steps_avg_change,
+                  lowerIsBetter: false,
+                },
+              ].map((item) => (
+                <div key={item.label} className="bg-slate-50 rounded-lg p-2">
+                  <div className="text-xs text-slate-600 mb-1">{item.label}</div>
+                  <div
+                    className={cn(
+                      'text-sm font-semibold text-right',
+                      item.change === null || item.change === undefined || item.change === 0 || item.lowerIsBetter === null
+                        ? 'text-slate-900'
+                        : (item.change < 0) === item.lowerIsBetter
+                          ? 'text-emerald-600'
+                          : 'text-amber-600'
+                    )}
+                    dir="ltr"
+                  >
+                    {item.value} {item.value !== '-' && item.unit}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Trainer Inputs - Side by Side */}
         <div className="grid grid-cols-2 gap-4">
           <div>
@@ -6,6 +6,7 @@ interface WhatsAppAutomationsDataTableProps {
   automations: WhatsAppAutomation[];
   onEdit?: (automation: WhatsAppAutomation) => void;
   onDelete?: (automation: WhatsAppAutomation) => void;
+  onManageTriggers?: (automation: WhatsAppAutomation) => void;
   onSortChange?: (columnId: string, sortOrder: 'ASC' | 'DESC') => void;
   sortBy?: string;
   sortOrder?: 'ASC' | 'DESC';
@@ -15,13 +16,14 @@ export const WhatsAppAutomationsDataTable = ({
   automations,
   onEdit,
   onDelete,
+  onManageTriggers,
   onSortChange,
   sortBy,
   sortOrder,
 }: WhatsAppAutomationsDataTableProps) => {
   const columns = useMemo(
-    () => createWhatsAppAutomationColumns({ onEdit, onDelete }),
-    [onEdit, onDelete]
+    () => createWhatsAppAutomationColumns({ onEdit, onDelete, onManageTriggers }),
+    [onEdit, onDelete, onManageTriggers]
   );
 
   return (
@@ -0,0 +1,315 @@
+/**
+ * WhatsAppBroadcastDialog Component
+ *
+ * Sends a WhatsApp flow template to every lead/customer in the current filter or selection.
+ * Messages are rendered per recipient and queued with a send interval, then the dialog
+ * shows the progress report (sent / failed / delivered / read).
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Loader2, Send, Ban, CheckCheck, AlertCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { fetchTemplates } from '@/store/slices/automationSlice';
+import { useAutomationFlows } from '@/hooks/useAutomationFlows';
+import {
+  BROADCAST_SEND_INTERVALS,
+  useBroadcastFailures,
+  useCancelWhatsAppBroadcast,
+  useCreateWhatsAppBroadcast,
+  useWhatsAppBroadcast,
+  type BroadcastAudience,
+} from '@/hooks/useWhatsAppBroadcasts';
+import { cleanWhatsAppMessage } from '@/services/greenApiService';
+import { useToast } from '@/hooks/use-toast';
+
+interface WhatsAppBroadcastDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  audience: BroadcastAudience;
+  recipientCount: number;
+  resolveRecipientIds: () => Promise<string[]>; // Current selection, or every row matching the filter
+  filterSnapshot?: Record<string, unknown>;
+}
+
+const formatDuration = (seconds: number): string => {
+  if (seconds < 60) return `${seconds} שניות`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `כ-${minutes} דקות`;
+  return `כ-${Math.round((minutes / 60) * 10) / 10} שעות`;
+};
+
+const StatBox: React.FC<{ label: string; value: number; className?: string }> = ({ label, value, className }) => (
+  <div className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-center">
+    <div className={`text-lg font-semibold ${className || 'text-slate-900'}`}>{value}</div>
+    <div className="text-xs text-slate-500">{label}</div>
+  </div>
+);
+
+export const WhatsAppBroadcastDialog: React.FC<WhatsAppBroadcastDialogProps> = ({
+  isOpen,
+  onOpenChange,
+  audience,
+  recipientCount,
+  resolveRecipientIds,
+  filterSnapshot,
+}) => {
+  const dispatch = useAppDispatch();
+  const { toast } = useToast();
+  const { templates } = useAppSelector((state) => state.automation);
+  const { flows, getFlowLabel } = useAutomationFlows();
+
+  const [flowKey, setFlowKey] = useState('');
+  const [name, setName] = useState('');
+  const [sendInterval, setSendInterval] = useState(10);
+  const [broadcastId, setBroadcastId] = useState<string | null>(null);
+
+  const createBroadcast = useCreateWhatsAppBroadcast();
+  const cancelBroadcast = useCancelWhatsAppBroadcast();
+  const { data: broadcast } = useWhatsAppBroadcast(broadcastId);
+  const { data: failures = [] } = useBroadcastFailures(broadcastId, !!broadcast && broadcast.failed_count > 0);
+
+  useEffect(() => {
+    if (isOpen) {
+      dispatch(fetchTemplates());
+      setBroadcastId(null);
+      setFlowKey('');
+      setName('');
+    }
+  }, [isOpen, dispatch]);
+
+  // Only flows that already have a template can be broadcast
+  const availableFlows = useMemo(
+    () => flows.filter((flow) => templates[flow.key]?.template_content?.trim()),
+    [flows, templates]
+  );
+
+  const selectedTemplate = flowKey ? templates[flowKey] : null;
+  const audienceLabel = audience === 'leads' ? 'לידים' : 'לקוחות';
+
+  const handleFlowChange = (value: string) => {
+    setFlowKey(value);
+    if (!name.trim()) {
+      setName(`${getFlowLabel(value)} - ${format(new Date(), 'dd/MM/yyyy')}`);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!selectedTemplate) return;
+
+    try {
+      const ids = await resolveRecipientIds();
+      if (ids.length === 0) {
+        throw new Error(`לא נמצאו ${audienceLabel} לשליחה`);
+      }
+
+      const created = await createBroadcast.mutateAsync({
+        name: name.trim() || getFlowLabel(flowKey),
+        audience,
+        ids,
+        template: selectedTemplate,
+        sendIntervalSeconds: sendInterval,
+        filterSnapshot,
+      });
+
+      setBroadcastId(created.id);
+      toast({
+        title: 'ההודעות נכנסו לתור',
+        description: `${created.queued_count} הודעות יישלחו בהדרגה`,
+      });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל ביצירת ההפצה',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!broadcastId) return;
+
+    try {
+      await cancelBroadcast.mutateAsync(broadcastId);
+      toast({
+        title: 'ההפצה נעצרה',
+        description: 'הודעות שטרם נשלחו בוטלו',
+      });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בעצירת ההפצה',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const processed = broadcast ? broadcast.sent_count + broadcast.failed_count + broadcast.cancelled_count : 0;
+  const progress = broadcast && broadcast.queued_count > 0 ? Math.round((processed / broadcast.queued_count) * 100) : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">שליחת הודעת וואטסאפ קבוצתית</DialogTitle>
+          <DialogDescription className="text-right">
+            {broadcast
+              ? broadcast.name
+              : `ההודעה תישלח ל-${recipientCount} ${audienceLabel} עם הפרטים האישיים של כל נמען`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!broadcast ? (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>תבנית</Label>
+              <Select value={flowKey} onValueChange={handleFlowChange} dir="rtl">
+                <SelectTrigger>
+                  <SelectValue placeholder="בחר תבנית" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableFlows.length === 0 ? (
+                    <div className="px-2 py-3 text-sm text-slate-500 text-center">אין תבניות מוגדרות</div>
+                  ) : (
+                    availableFlows.map((flow) => (
+                      <SelectItem key={flow.key} value={flow.key}>
+                        {flow.label}
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedTemplate && (
+              <div className="rounded-lg bg-[#DCF8C6]/60 border border-green-100 p-3 max-h-40 overflow-y-auto">
+                <p className="text-sm text-slate-800 whitespace-pre-wrap">
+                  {cleanWhatsAppMessage(selectedTemplate.template_content)}
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>שם ההפצה</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="לדוגמה: ברכת חג" />
+            </div>
+
+            <div className="space-y-2">
+              <Label>מרווח בין הודעות</Label>
+              <Select value={String(sendInterval)} onValueChange={(value) => setSendInterval(Number(value))} dir="rtl">
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BROADCAST_SEND_INTERVALS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {seconds} שניות
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-500">
+                זמן שליחה משוער: {formatDuration(recipientCount * sendInterval)}. נמענים ללא טלפון או עם טלפון כפול יידלגו.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-1.5">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-slate-600">
+                  {broadcast.pending_count > 0 ? 'שולח...' : 'ההפצה הסתיימה'}
+                </span>
+                <span className="font-medium">
+                  {processed} / {broadcast.queued_count}
+                </span>
+              </div>
+              <Progress value={progress} />
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              <StatBox label="נשלחו" value={broadcast.sent_count} className="text-green-700" />
+              <StatBox label="ממתינות" value={broadcast.pending_count} className="text-amber-600" />
+              <StatBox label="נכשלו" value={broadcast.failed_count} className="text-red-600" />
+              <StatBox label="דולגו" value={broadcast.skipped_count + broadcast.cancelled_count} className="text-slate-500" />
+            </div>
+
+            <div className="flex items-center gap-4 text-sm text-slate-600">
+              <span className="flex items-center gap-1">
+                <CheckCheck className="h-4 w-4 text-gray-400" />
+                נמסרו: {broadcast.delivered_count}
+              </span>
+              <span className="flex items-center gap-1">
+                <CheckCheck className="h-4 w-4 text-sky-500" />
+                נקראו: {broadcast.read_count}
+              </span>
+              {broadcast.undelivered_count > 0 && (
+                <span className="flex items-center gap-1 text-red-600">
+                  <AlertCircle className="h-4 w-4" />
+                  לא נמסרו: {broadcast.undelivered_count}
+                </span>
+              )}
+            </div>
+
+            {failures.length > 0 && (
+              <div className="rounded-lg border border-red-100 bg-red-50/60 max-h-40 overflow-y-auto divide-y divide-red-100">
+                {failures.map((failure) => (
+                  <div key={failure.id} className="px-3 py-2 text-xs">
+                    <span className="font-medium text-slate-800">{failure.customer?.full_name || failure.phone}</span>
+                    {failure.last_error && <span className="text-red-600"> - {failure.last_error}</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {!broadcast ? (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)} disabled={createBroadcast.isPending}>
+                ביטול
+              </Button>
+              <Button
+                onClick={handleSend}
+                disabled={!selectedTemplate || recipientCount === 0 || createBroadcast.isPending}
+                className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white gap-2"
+              >
+                {createBroadcast.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                שלח ל-{recipientCount} {audienceLabel}
+              </Button>
+            </>
+          ) : (
+            <>
+              {broadcast.pending_count > 0 && (
+                <Button
+                  variant="outline"
+                  onClick={handleCancel}
+                  disabled={cancelBroadcast.isPending}
+                  className="gap-2 text-red-600 border-red-200 hover:bg-red-50"
+                >
+                  <Ban className="h-4 w-4" />
+                  עצור הפצה
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)}>סגור</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,223 @@
+/**
+ * WhatsAppChatSidebar Component
+ *
+ * Threaded WhatsApp conversation for a customer.
+ * Shows incoming replies (from receive-whatsapp-webhook) next to outgoing messages
+ * (sent via send-whatsapp-message) and lets the coach reply without leaving the profile.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircle, Send, X, Loader2, MousePointerClick } from 'lucide-react';
+import { format, isSameDay } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useLeadSidebar } from '@/hooks/useLeadSidebar';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  useWhatsAppConversation,
+  useSendWhatsAppReply,
+  useMarkWhatsAppConversationRead,
+  type WhatsAppMessage,
+} from '@/hooks/useWhatsAppConversation';
+import { WhatsAppDeliveryStatus } from './WhatsAppDeliveryStatus';
+
+interface WhatsAppChatSidebarProps {
+  customerId: string | null;
+  customerName?: string | null;
+  customerPhone?: string | null;
+  activeLeadId?: string | null;
+}
+
+const MessageBubble: React.FC<{ message: WhatsAppMessage }> = ({ message }) => {
+  const isIncoming = message.direction === 'incoming';
+  const text = message.body || message.button_text || (message.media_url ? '📎 קובץ מדיה' : '');
+
+  return (
+    <div className={cn('flex', isIncoming ? 'justify-start' : 'justify-end')}>
+      <div
+        className={cn(
+          'max-w-[85%] rounded-lg px-3 py-2 text-sm shadow-sm',
+          isIncoming
+            ? 'bg-white border border-gray-200 text-gray-900 rounded-tr-none'
+            : 'bg-[#DCF8C6] text-gray-900 rounded-tl-none'
+        )}
+      >
+        {message.button_text && isIncoming && (
+          <div className="flex items-center gap-1 text-xs text-[#5B6FB9] font-medium mb-1">
+            <MousePointerClick className="h-3 w-3" />
+            <span>לחיצה על כפתור</span>
+          </div>
+        )}
+        {message.media_url && (
+          <a
+            href={message.media_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-xs text-blue-600 underline mb-1"
+          >
+            פתח מדיה
+          </a>
+        )}
+        <p className="whitespace-pre-wrap break-words">{text}</p>
+        <div className="flex items-center gap-1 text-[10px] text-gray-500 mt-1" dir="ltr">
+          <span>{format(new Date(message.message_timestamp), 'HH:mm')}</span>
+          <WhatsAppDeliveryStatus message={message} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const WhatsAppChatSidebar: React.FC<WhatsAppChatSidebarProps> = ({
+  customerId,
+  customerName,
+  customerPhone,
+  activeLeadId,
+}) => {
+  const { closeWhatsApp } = useLeadSidebar();
+  const { toast } = useToast();
+  const { messages, unreadCount, isLoading } = useWhatsAppConversation(customerId);
+  const sendReply = useSendWhatsAppReply();
+  const markRead = useMarkWhatsAppConversationRead();
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Scroll to the latest message
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  // Opening the panel marks incoming messages as read
+  useEffect(() => {
+    if (customerId && unreadCount > 0 && !markRead.isPending) {
+      markRead.mutate(customerId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [customerId, unreadCount]);
+
+  const handleSend = async () => {
+    const message = draft.trim();
+    if (!message || !customerId || !customerPhone) return;
+
+    try {
+      await sendReply.mutateAsync({
+        phoneNumber: customerPhone,
+        message,
+        customerId,
+        leadId: activeLeadId,
+      });
+      setDraft('');
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'שגיאה בשליחת ההודעה',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="flex-shrink-0 flex flex-col min-h-0 w-[350px]" dir="rtl">
+      <Card className="flex-1 flex flex-col overflow-hidden border border-gray-200 rounded-xl bg-white">
+        {/* Header */}
+        <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 rounded-t-xl flex-shrink-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 min-w-0">
+              <MessageCircle className="h-5 w-5 text-green-600 flex-shrink-0" />
+              <div className="min-w-0">
+                <h2 className="text-base font-bold text-gray-900 truncate">שיחת וואטסאפ</h2>
+                {customerName && <p className="text-xs text-gray-500 truncate">{customerName}</p>}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={closeWhatsApp}
+              className="h-7 w-7 text-gray-500 hover:text-gray-900 hover:bg-white/80"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        {/* Messages */}
+        <div className="flex-1 overflow-y-auto p-3 bg-[#EFEAE2] min-h-[300px]">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <MessageCircle className="h-12 w-12 mx-auto mb-3 text-gray-400" />
+              <p className="text-sm">אין הודעות עדיין</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {messages.map((message, index) => {
+                const previous = messages[index - 1];
+                const showDate =
+                  !previous ||
+                  !isSameDay(new Date(previous.message_timestamp), new Date(message.message_timestamp));
+
+                return (
+                  <React.Fragment key={message.id}>
+                    {showDate && (
+                      <div className="flex justify-center my-2">
+                        <span className="text-[11px] bg-white/80 text-gray-600 px-2 py-0.5 rounded-md shadow-sm">
+                          {format(new Date(message.message_timestamp), 'EEEE, dd/MM/yyyy', { locale: he })}
+                        </span>
+                      </div>
+                    )}
+                    <MessageBubble message={message} />
+                  </React.Fragment>
+                );
+              })}
+              <div ref={bottomRef} />
+            </div>
+          )}
+        </div>
+
+        {/* Composer */}
+        <div className="p-3 border-t border-gray-200 flex-shrink-0">
+          {!customerPhone ? (
+            <p className="text-xs text-gray-500 text-center">אין מספר טלפון ללקוח</p>
+          ) : (
+            <div className="flex items-end gap-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="כתוב הודעה..."
+                className="min-h-[40px] max-h-32 resize-none text-sm"
+                rows={1}
+                dir="rtl"
+              />
+              <Button
+                size="icon"
+                onClick={handleSend}
+                disabled={!draft.trim() || sendReply.isPending}
+                className="h-10 w-10 flex-shrink-0 bg-green-600 hover:bg-green-700 text-white"
+              >
+                {sendReply.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+/**
+ * WhatsAppDeliveryStatus Component
+ *
+ * WhatsApp-style ticks for an outgoing message:
+ * one grey tick = sent, two grey ticks = delivered, two blue ticks = read
+ */
+
+import React from 'react';
+import { Check, CheckCheck, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import type { WhatsAppMessage } from '@/hooks/useWhatsAppConversation';
+
+const STATUS_LABELS: Record<string, string> = {
+  sent: 'נשלחה',
+  delivered: 'נמסרה',
+  read: 'נקראה',
+  failed: 'לא נמסרה',
+};
+
+interface WhatsAppDeliveryStatusProps {
+  message: Pick<WhatsAppMessage, 'direction' | 'delivery_status' | 'delivery_error' | 'delivered_at' | 'read_at'>;
+  showLabel?: boolean;
+  className?: string;
+}
+
+export const WhatsAppDeliveryStatus: React.FC<WhatsAppDeliveryStatusProps> = ({
+  message,
+  showLabel = false,
+  className,
+}) => {
+  if (message.direction !== 'outgoing' || !message.delivery_status) {
+    return null;
+  }
+
+  const status = message.delivery_status;
+  const label = STATUS_LABELS[status] || status;
+  const title = status === 'failed'
+    ? `${label}${message.delivery_error ? ` (${message.delivery_error})` : ''}`
+    : status === 'read' && message.read_at
+      ? `${label} ב-${format(new Date(message.read_at), 'dd/MM/yyyy HH:mm')}`
+      : status === 'delivered' && message.delivered_at
+        ? `${label} ב-${format(new Date(message.delivered_at), 'dd/MM/yyyy HH:mm')}`
+        : label;
+
+  const Icon = status === 'failed' ? AlertCircle : status === 'sent' ? Check : CheckCheck;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1',
+        status === 'read' ? 'text-sky-500' : status === 'failed' ? 'text-red-500' : 'text-gray-400',
+        className
+      )}
+      title={title}
+    >
+      <Icon className="h-3.5 w-3.5" />
+      {showLabel && <span className="text-xs">{label}</span>}
+    </span>
+  );
+};
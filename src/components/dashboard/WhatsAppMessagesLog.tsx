@@ -0,0 +1,82 @@
+/**
+ * WhatsAppMessagesLog Component
+ *
+ * Outgoing WhatsApp messages sent to the customer with their delivery status
+ * (sent / delivered / read / failed), newest first
+ */
+
+import React, { useMemo } from 'react';
+import { Loader2, MessageCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { useWhatsAppConversation } from '@/hooks/useWhatsAppConversation';
+import { useAutomationFlows } from '@/hooks/useAutomationFlows';
+import { WhatsAppDeliveryStatus } from './WhatsAppDeliveryStatus';
+
+interface WhatsAppMessagesLogProps {
+  customerId?: string | null;
+}
+
+export const WhatsAppMessagesLog: React.FC<WhatsAppMessagesLogProps> = ({ customerId }) => {
+  const { messages, isLoading } = useWhatsAppConversation(customerId);
+  const { getFlowLabel } = useAutomationFlows();
+
+  const outgoingMessages = useMemo(
+    () => messages.filter((message) => message.direction === 'outgoing').reverse(),
+    [messages]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (outgoingMessages.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <MessageCircle className="h-10 w-10 text-gray-300 mb-2" />
+        <p className="text-sm text-gray-500">לא נשלחו הודעות וואטסאפ ללקוח</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-slate-100">
+      {outgoingMessages.map((message) => {
+        const text = message.body || (message.media_url ? '📎 קובץ מדיה' : '');
+        return (
+          <div
+            key={message.id}
+            className={cn(
+              'py-2.5 px-1 flex items-start gap-3',
+              message.delivery_status === 'failed' && 'bg-red-50/60'
+            )}
+          >
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-xs text-gray-500">
+                  {format(new Date(message.message_timestamp), 'dd/MM/yyyy HH:mm', { locale: he })}
+                </span>
+                {message.flow_key && (
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0 font-normal">
+                    {getFlowLabel(message.flow_key)}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm text-gray-800 line-clamp-2 whitespace-pre-wrap break-words">{text}</p>
+              {message.delivery_status === 'failed' && message.delivery_error && (
+                <p className="text-xs text-red-600 mt-1">{message.delivery_error}</p>
+              )}
+            </div>
+            <WhatsAppDeliveryStatus message={message} showLabel className="flex-shrink-0 mt-0.5" />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -5,13 +5,14 @@ import { cn } from '@/lib/utils';
 import { useDraggable, useDroppable } from '@dnd-kit/core';
 import { CSS } from '@dnd-kit/utilities';
 import { format } from 'date-fns';
-import { GripVertical, Pencil } from 'lucide-react';
+import { GripVertical, Pencil, MapPin, Video } from 'lucide-react';
 import { Meeting } from '@/hooks/useMeetings';
 import { 
   getMeetingCustomer, 
   getMeetingTimeDisplayValue, 
   getMeetingStatusValue, 
-  getMeetingTypeValue 
+  getMeetingTypeValue,
+  getMeetingOwnerName
 } from './utils';
 import { RootState } from '@/store/store';
 import { Badge } from '@/components/ui/badge';
@@ -43,6 +44,7 @@ export const DraggableMeetingCard = ({
   const time = getMeetingTimeDisplayValue(meeting);
   const status = getMeetingStatusValue(meeting);
   const type = getMeetingTypeValue(meeting);
+  const ownerName = getMeetingOwnerName(meeting);
   const customerName = customer?.full_name;
   const phone = customer?.phone;
   const email = customer?.email;
@@ -104,6 +106,15 @@ export const DraggableMeetingCard = ({
               <span className="text-[10px] text-primary/60 truncate">{type}</span>
             )}
           </div>
+          {visibleFields.owner && ownerName && (
+            <div className="text-[10px] text-primary/70 truncate">{ownerName}</div>
+          )}
+          {visibleFields.location && (meeting.location || meeting.video_link) && (
+            <div className="flex items-center gap-1 text-[10px] text-primary/70 min-w-0">
+              {meeting.location ? <MapPin className="h-2.5 w-2.5 shrink-0" /> : <Video className="h-2.5 w-2.5 shrink-0" />}
+              <span className="truncate">{meeting.location || 'שיחת וידאו'}</span>
+            </div>
+          )}
           {(visibleFields.phone || visibleFields.email) && (
             <div className="flex flex-col gap-0.5 mt-1">
               {visibleFields.phone && phone && (
@@ -157,6 +168,9 @@ export const DraggableMeetingCard = ({
         {visibleFields.type && type && (
           <span className="text-[9px] text-primary/60 truncate max-w-[60px]">{type}</span>
         )}
+        {visibleFields.owner && ownerName && (
+          <span className="text-[9px] text-primary/60 truncate max-w-[60px]">{ownerName}</span>
+        )}
         {visibleFields.phone && phone && (
           <span className="text-[9px] text-primary/60">{phone}</span>
         )}
@@ -6,174 +6,91 @@ export const availableFields = [
   { id: 'time', label: 'שעה', default: true },
   { id: 'status', label: 'סטטוס', default: true },
   { id: 'type', label: 'סוג פגישה', default: false },
+  { id: 'owner', label: 'מאמן', default: false },
+  { id: 'location', label: 'מיקום', default: false },
   { id: 'phone', label: 'טלפון', default: false },
   { id: 'email', label: 'אימייל', default: false },
 ];
 
-export const getMeetingCustomer = (meeting: Meeting) => meeting.customer || (meeting.lead as any)?.customer;
+export const MEETING_STATUSES = ['פעיל', 'מתוכנן', 'הושלם', 'בוטל', 'מבוטל'];
+export const CANCELLED_MEETING_STATUSES = ['בוטל', 'מבוטל'];
 
-export const getMeetingSchedulingData = (meetingData: Record<string, any>) => {
-  if (meetingData.event_start_time || meetingData.event_end_time || meetingData.eventStartTime || meetingData.eventEndTime) {
-    return {
-      eventStartTime: meetingData.event_start_time || meetingData.eventStartTime,
-      eventEndTime: meetingData.event_end_time || meetingData.eventEndTime,
-    };
-  }
+export type MeetingAttendanceStatus = 'attended' | 'no_show' | 'rescheduled' | 'cancelled';
 
-  if (meetingData.scheduling && Array.isArray(meetingData.scheduling) && meetingData.scheduling.length > 0) {
-    const scheduling = meetingData.scheduling[0];
-    if (scheduling.value) {
-      return {
-        eventStartTime: scheduling.value.eventStartTime,
-        eventEndTime: scheduling.value.eventEndTime,
-      };
-    }
-  }
+export const MEETING_ATTENDANCE_STATUSES: { value: MeetingAttendanceStatus; label: string; color: string }[] = [
+  { value: 'attended', label: 'הגיע', color: 'bg-green-100 text-green-800 border-green-200' },
+  { value: 'no_show', label: 'לא הגיע', color: 'bg-red-100 text-red-800 border-red-200' },
+  { value: 'rescheduled', label: 'נדחתה', color: 'bg-amber-100 text-amber-800 border-amber-200' },
+  { value: 'cancelled', label: 'בוטלה', color: 'bg-gray-100 text-gray-800 border-gray-200' },
+];
 
-  const eventStartTimeKey = 'scheduling[0].value.eventStartTime';
-  const eventEndTimeKey = 'scheduling[0].value.eventEndTime';
+export const MEETING_TYPES = [
+  { value: 'פגישת הכרות', label: 'פגישת הכרות' },
+  { value: 'פגישת מעקב', label: 'פגישת מעקב' },
+  { value: 'פגישת ביקורת חודשית', label: 'פגישת ביקורת חודשית' },
+  { value: 'פגישת תזונה', label: 'פגישת תזונה' },
+  { value: 'תיאום תקציב', label: 'תיאום תכנית פעולה' },
+];
 
-  if (meetingData[eventStartTimeKey] || meetingData[eventEndTimeKey]) {
-    return {
-      eventStartTime: meetingData[eventStartTimeKey],
-      eventEndTime: meetingData[eventEndTimeKey],
-    };
-  }
+// Meetings without an end time are shown (and checked for conflicts) as one hour
+export const DEFAULT_MEETING_DURATION_MINUTES = 60;
 
-  return null;
+export const getMeetingCustomer = (meeting: Meeting) => meeting.customer || (meeting.lead as any)?.customer;
+
+const parseTimestamp = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isValid(date) ? date : null;
 };
 
+export const getMeetingStart = (meeting: Meeting): Date | null => parseTimestamp(meeting.start_time);
+
+export const getMeetingEnd = (meeting: Meeting): Date | null => parseTimestamp(meeting.end_time);
+
 export const getMeetingDate = (meeting: Meeting): Date | null => {
-  const meetingData = meeting.meeting_data || {};
-  const schedulingData = getMeetingSchedulingData(meetingData);
-  
-  // First try to get date from scheduling data
-  if (schedulingData?.eventStartTime) {
-    const startDate = new Date(schedulingData.eventStartTime);
-    if (isValid(startDate)) {
-      return startDate;
-    }
-  }
+  const start = getMeetingStart(meeting);
+  if (start) return start;
 
-  // Fallback to other date fields
-  const dateStr = meetingData.date ||
-    meetingData.meeting_date ||
-    meetingData['תאריך'] ||
-    meetingData['תאריך פגישה'] ||
-    meetingData['Date'] ||
-    meetingData['Meeting Date'] ||
-    null;
-
-  if (dateStr) {
-    const parsed = parseISO(String(dateStr));
-    if (isValid(parsed)) {
-      return parsed;
-    }
-    // Try regular Date parse
-    const date = new Date(String(dateStr));
-    if (isValid(date)) {
-      return date;
-    }
+  // Date-only meetings (no time picked yet)
+  if (meeting.meeting_date) {
+    const parsed = parseISO(meeting.meeting_date);
+    if (isValid(parsed)) return parsed;
   }
 
   return null;
 };
 
 export const getMeetingTimeDisplayValue = (meeting: Meeting) => {
-  const meetingData = meeting.meeting_data || {};
-  const schedulingData = getMeetingSchedulingData(meetingData);
-  if (!schedulingData?.eventStartTime && !schedulingData?.eventEndTime) return null;
-
-  let meetingStartTime: string | null = null;
-  let meetingEndTime: string | null = null;
-
-  if (schedulingData?.eventStartTime) {
-    const startDate = new Date(schedulingData.eventStartTime);
-    if (isValid(startDate)) {
-      const hours = startDate.getHours().toString().padStart(2, '0');
-      const minutes = startDate.getMinutes().toString().padStart(2, '0');
-      meetingStartTime = `${hours}:${minutes}`;
-    }
-  }
+  const start = getMeetingStart(meeting);
+  if (!start) return null;
 
-  if (schedulingData?.eventEndTime) {
-    const endDate = new Date(schedulingData.eventEndTime);
-    if (isValid(endDate)) {
-      const hours = endDate.getHours().toString().padStart(2, '0');
-      const minutes = endDate.getMinutes().toString().padStart(2, '0');
-      meetingEndTime = `${hours}:${minutes}`;
-    }
-  }
+  const end = getMeetingEnd(meeting);
+  return end ? `${format(start, 'HH:mm')} - ${format(end, 'HH:mm')}` : format(start, 'HH:mm');
+};
 
-  if (meetingStartTime && meetingEndTime) {
-    return meetingStartTime > meetingEndTime ? `${meetingEndTime} - ${meetingStartTime}` : `${meetingStartTime} - ${meetingEndTime}`;
-  }
+export const getMeetingStatusValue = (meeting: Meeting) => meeting.status || 'פעיל';
 
-  return meetingStartTime || null;
-};
+export const getMeetingTypeValue = (meeting: Meeting) => meeting.meeting_type || 'פגישת הכרות';
 
-export const getMeetingStatusValue = (meeting: Meeting) => {
-  const meetingData = meeting.meeting_data || {};
-  return String(meetingData.status || meetingData['סטטוס'] || 'פעיל');
-};
+export const getMeetingOwnerName = (meeting: Meeting) => meeting.owner?.full_name || meeting.owner?.email || null;
 
-export const getMeetingTypeValue = (meeting: Meeting) => {
-  const meetingData = meeting.meeting_data || {};
-  return String(
-    meetingData['סוג פגישה'] ||
-    meetingData.meeting_type ||
-    meetingData['פגישת הכרות'] ||
-    meetingData.type ||
-    'פגישת הכרות'
-  );
-};
+export const getMeetingAttendanceLabel = (value: string | null | undefined) =>
+  MEETING_ATTENDANCE_STATUSES.find((status) => status.value === value)?.label || null;
+
+export const isMeetingCancelled = (meeting: Pick<Meeting, 'status'>) =>
+  CANCELLED_MEETING_STATUSES.includes(meeting.status || '');
 
 export const getMeetingHour = (meeting: Meeting): number | null => {
-  const meetingData = meeting.meeting_data || {};
-  const schedulingData = getMeetingSchedulingData(meetingData);
-  
-  if (schedulingData?.eventStartTime) {
-    const startDate = new Date(schedulingData.eventStartTime);
-    if (!isNaN(startDate.getTime())) {
-      return startDate.getHours() + startDate.getMinutes() / 60;
-    }
-  }
-  
-  // Try to parse time from other fields
-  const timeStr = meetingData.meeting_time_start || meetingData['שעת התחלה'] || meetingData['שעה'];
-  if (timeStr) {
-    const timeMatch = String(timeStr).match(/(\d{1,2}):(\d{2})/);
-    if (timeMatch) {
-      return parseInt(timeMatch[1]) + parseInt(timeMatch[2]) / 60;
-    }
-  }
-  
-  return null;
+  const start = getMeetingStart(meeting);
+  return start ? start.getHours() + start.getMinutes() / 60 : null;
 };
 
 export const getMeetingEndHour = (meeting: Meeting): number | null => {
-  const meetingData = meeting.meeting_data || {};
-  const schedulingData = getMeetingSchedulingData(meetingData);
-  
-  if (schedulingData?.eventEndTime) {
-    const endDate = new Date(schedulingData.eventEndTime);
-    if (!isNaN(endDate.getTime())) {
-      return endDate.getHours() + endDate.getMinutes() / 60;
-    }
-  }
-  
-  // Try to parse end time from other fields
-  const timeStr = meetingData.meeting_time_end || meetingData['שעת סיום'];
-  if (timeStr) {
-    const timeMatch = String(timeStr).match(/(\d{1,2}):(\d{2})/);
-    if (timeMatch) {
-      return parseInt(timeMatch[1]) + parseInt(timeMatch[2]) / 60;
-    }
-  }
-  
-  // Default to 1 hour duration if no end time
+  const end = getMeetingEnd(meeting);
+  if (end) return end.getHours() + end.getMinutes() / 60;
+
   const startHour = getMeetingHour(meeting);
-  return startHour !== null ? startHour + 1 : null;
+  return startHour !== null ? startHour + DEFAULT_MEETING_DURATION_MINUTES / 60 : null;
 };
 
 export const generateHours = () => {
@@ -4,6 +4,7 @@ import { formatDate } from '@/utils/dashboard';
 import type { DataTableColumn } from '@/components/ui/DataTable';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { formatMoney } from '@/utils/currency';
 import { User, Calendar, CreditCard, FileText, DollarSign } from 'lucide-react';
 import { format } from 'date-fns';
 import { he } from 'date-fns/locale';
@@ -56,13 +57,14 @@ export const collectionColumns: DataTableColumn<AllCollectionRecord>[] = [
     meta: {
       align: 'right',
     },
-    cell: ({ getValue }) => {
+    cell: ({ getValue, row }) => {
       const value = getValue() as string | null;
       if (!value) return <span className="text-gray-400">-</span>;
       try {
         const date = new Date(value);
         const formatted = format(date, 'dd/MM/yyyy', { locale: he });
-        const isOverdue = date < new Date() && date < new Date(new Date().setHours(0, 0, 0, 0));
+        // Only open collections are overdue (is_overdue comes from collections_with_payments)
+        const isOverdue = !!row.original.is_overdue;
         return (
           <div className="flex items-center gap-2">
             <Calendar className={cn('h-4 w-4 flex-shrink-0', isOverdue ? 'text-red-400' : 'text-slate-400')} />
@@ -87,20 +89,9 @@ export const collectionColumns: DataTableColumn<AllCollectionRecord>[] = [
     meta: {
       align: 'right',
     },
-    cell: ({ getValue, row }) => {
-      const value = getValue() as string;
-      const record = row.original;
-      // Auto-update status based on paid amount
-      let displayStatus = value;
-      if (record.paid_amount !== undefined && record.total_amount > 0) {
-        if (record.paid_amount >= record.total_amount) {
-          displayStatus = 'הושלם';
-        } else if (record.paid_amount > 0) {
-          displayStatus = 'חלקי';
-        } else {
-          displayStatus = 'ממתין';
-        }
-      }
+    cell: ({ getValue }) => {
+      // Reconciled from the linked payments in the database (set_collection_status)
+      const displayStatus = getValue() as string;
 
       const statusConfig: Record<string, { label: string; className: string }> = {
         'ממתין': {
@@ -189,12 +180,9 @@ export const collectionColumns: DataTableColumn<AllCollectionRecord>[] = [
       align: 'right',
       isNumeric: true,
     },
-    cell: ({ getValue }) => {
+    cell: ({ getValue, row }) => {
       const amount = getValue() as number;
-      const formatted = new Intl.NumberFormat('he-IL', {
-        style: 'currency',
-        currency: 'ILS',
-      }).format(amount);
+      const formatted = formatMoney(amount, row.original.currency);
       return (
         <span className="text-sm font-bold text-slate-900">{formatted}</span>
       );
@@ -212,13 +200,10 @@ export const collectionColumns: DataTableColumn<AllCollectionRecord>[] = [
       align: 'right',
       isNumeric: true,
     },
-    cell: ({ getValue }) => {
+    cell: ({ getValue, row }) => {
       const amount = getValue() as number | undefined;
       if (amount === undefined) return <span className="text-sm text-slate-400">—</span>;
-      const formatted = new Intl.NumberFormat('he-IL', {
-        style: 'currency',
-        currency: 'ILS',
-      }).format(amount);
+      const formatted = formatMoney(amount, row.original.currency);
       return (
         <span className="text-sm font-semibold text-green-600">{formatted}</span>
       );
@@ -236,13 +221,10 @@ export const collectionColumns: DataTableColumn<AllCollectionRecord>[] = [
       align: 'right',
       isNumeric: true,
     },
-    cell: ({ getValue }) => {
+    cell: ({ getValue, row }) => {
       const amount = getValue() as number | undefined;
       if (amount === undefined) return <span className="text-sm text-slate-400">—</span>;
-      const formatted = new Intl.NumberFormat('he-IL', {
-        style: 'currency',
-        currency: 'ILS',
-      }).format(amount);
+      const formatted = formatMoney(amount, row.original.currency);
       return (
         <span className={cn(
           'text-sm font-semibold',
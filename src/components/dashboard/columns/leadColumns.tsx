@@ -7,6 +7,7 @@ import { getEntityRelationships } from '@/utils/entityRelationships.tsx';
 import { budgetColumns } from '@/components/dashboard/BudgetsDataTable';
 import { nutritionTemplateColumns } from '@/components/dashboard/columns/templateColumns';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { CheckInStreakCell } from '@/components/dashboard/CheckInStreakCell';
 import { 
   fetchCustomerNotes, 
   selectCustomerNotes, 
@@ -102,7 +103,8 @@ const NotesCell: React.FC<{ lead: Lead }> = ({ lead }) => {
  * 
  * Column order matches the default view (from right to left in RTL):
  * 1. createdDate, 2. name, 3. status, 4. age, 5. fitnessGoal,
- * 6. activityLevel, 7. preferredTime, 8. phone, 9. source, 10. notes
+ * 6. activityLevel, 7. preferredTime, 8. phone, 9. source, 10. notes,
+ * 11. checkInStreak, 12. assignedToName
  * Hidden: id, email, height, weight
  */
 export const leadColumns: DataTableColumn<Lead>[] = [
@@ -393,6 +395,39 @@ export const leadColumns: DataTableColumn<Lead>[] = [
       return <span className="text-gray-900 font-semibold">{value} ק"ג</span>;
     },
   },
+  {
+    id: 'checkInStreak',
+    header: 'דיווח יומי',
+    accessorKey: 'checkInStreak',
+    enableSorting: true,
+    enableResizing: true,
+    enableHiding: true,
+    size: 160,
+    meta: {
+      align: 'right',
+      isNumeric: true,
+      sortKey: 'check_in_streak',
+    },
+    cell: ({ row }) => <CheckInStreakCell lead={row.original} />,
+  },
+  {
+    id: 'assignedToName',
+    header: 'מאמן',
+    accessorKey: 'assignedToName',
+    enableSorting: true,
+    enableResizing: true,
+    enableHiding: true,
+    size: 150,
+    meta: {
+      align: 'right',
+      sortKey: 'assigned_to_name',
+    },
+    cell: ({ getValue }) => {
+      const value = getValue() as string | null;
+      if (!value) return <span className="text-gray-400">ללא מאמן</span>;
+      return <span className="text-gray-900">{value}</span>;
+    },
+  },
 ];
 
 /**
@@ -443,6 +478,7 @@ export const defaultLeadColumnVisibility: Record<string, boolean> = {
   status: true,
   phone: true,
   createdDate: true, // תאריך יצירה - visible by default
+  assignedToName: true, // מאמן - visible by default
   // All other columns hidden by default
   age: false,
   height: false,
@@ -453,6 +489,7 @@ export const defaultLeadColumnVisibility: Record<string, boolean> = {
   email: false,
   source: false,
   notes: false,
+  checkInStreak: false,
 };
 
 
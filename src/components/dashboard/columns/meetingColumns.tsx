@@ -3,113 +3,24 @@ import { formatDate } from '@/utils/dashboard';
 import { Badge } from '@/components/ui/badge';
 import type { DataTableColumn } from '@/components/ui/DataTable';
 import { MeetingDeleteButton } from '@/components/dashboard/MeetingDeleteButton';
+import {
+  getMeetingCustomer,
+  getMeetingDate,
+  getMeetingOwnerName,
+  getMeetingStatusValue,
+  getMeetingTimeDisplayValue,
+  getMeetingTypeValue,
+} from '@/components/dashboard/calendar/utils';
 
 const compareStrings = (a: string, b: string) => a.localeCompare(b, 'he');
 const compareNumbers = (a: number, b: number) => a - b;
 
-const getMeetingCustomer = (meeting: Meeting) => meeting.customer || (meeting.lead as any)?.customer;
-
-const getMeetingSchedulingData = (meetingData: Record<string, any>) => {
-  if (meetingData.event_start_time || meetingData.event_end_time || meetingData.eventStartTime || meetingData.eventEndTime) {
-    return {
-      eventStartTime: meetingData.event_start_time || meetingData.eventStartTime,
-      eventEndTime: meetingData.event_end_time || meetingData.eventEndTime,
-    };
-  }
-
-  if (meetingData.scheduling && Array.isArray(meetingData.scheduling) && meetingData.scheduling.length > 0) {
-    const scheduling = meetingData.scheduling[0];
-    if (scheduling.value) {
-      return {
-        eventStartTime: scheduling.value.eventStartTime,
-        eventEndTime: scheduling.value.eventEndTime,
-      };
-    }
-  }
-
-  const eventStartTimeKey = 'scheduling[0].value.eventStartTime';
-  const eventEndTimeKey = 'scheduling[0].value.eventEndTime';
-
-  if (meetingData[eventStartTimeKey] || meetingData[eventEndTimeKey]) {
-    return {
-      eventStartTime: meetingData[eventStartTimeKey],
-      eventEndTime: meetingData[eventEndTimeKey],
-    };
-  }
-
-  return null;
-};
-
 const getMeetingDateDisplayValue = (meeting: Meeting) => {
-  const meetingData = meeting.meeting_data || {};
-  const schedulingData = getMeetingSchedulingData(meetingData);
-  if (schedulingData?.eventStartTime) {
-    const startDate = new Date(schedulingData.eventStartTime);
-    if (!isNaN(startDate.getTime())) {
-      return formatDate(startDate.toISOString());
-    }
-  }
-
-  return meetingData.date ||
-    meetingData.meeting_date ||
-    meetingData['תאריך'] ||
-    meetingData['תאריך פגישה'] ||
-    meetingData['Date'] ||
-    meetingData['Meeting Date'] ||
-    null;
-};
-
-const getMeetingDateSortValue = (meeting: Meeting) => {
-  const meetingData = meeting.meeting_data || {};
-  const schedulingData = getMeetingSchedulingData(meetingData);
-  if (schedulingData?.eventStartTime) {
-    const startDate = new Date(schedulingData.eventStartTime);
-    if (!isNaN(startDate.getTime())) return startDate.getTime();
-  }
-
-  const fallback = getMeetingDateDisplayValue(meeting);
-  if (!fallback) return 0;
-  const parsed = Date.parse(String(fallback));
-  return isNaN(parsed) ? 0 : parsed;
+  const date = getMeetingDate(meeting);
+  return date ? formatDate(date.toISOString()) : null;
 };
 
-const getMeetingTimeDisplayValue = (meeting: Meeting) => {
-  const meetingData = meeting.meeting_data || {};
-  const schedulingData = getMeetingSchedulingData(meetingData);
-  if (!schedulingData?.eventStartTime && !schedulingData?.eventEndTime) return null;
-
-  let meetingStartTime: string | null = null;
-  let meetingEndTime: string | null = null;
-
-  if (schedulingData?.eventStartTime) {
-    const startDate = new Date(schedulingData.eventStartTime);
-    if (!isNaN(startDate.getTime())) {
-      const hours = startDate.getHours().toString().padStart(2, '0');
-      const minutes = startDate.getMinutes().toString().padStart(2, '0');
-      meetingStartTime = `${hours}:${minutes}`;
-    }
-  }
-
-  if (schedulingData?.eventEndTime) {
-    const endDate = new Date(schedulingData.eventEndTime);
-    if (!isNaN(endDate.getTime())) {
-      const hours = endDate.getHours().toString().padStart(2, '0');
-      const minutes = endDate.getMinutes().toString().padStart(2, '0');
-      meetingEndTime = `${hours}:${minutes}`;
-    }
-  }
-
-  if (meetingStartTime && meetingEndTime) {
-    return meetingStartTime > meetingEndTime ? `${meetingEndTime} - ${meetingStartTime}` : `${meetingStartTime} - ${meetingEndTime}`;
-  }
-
-  return meetingStartTime || null;
-};
-
-const getMeetingStatusValue = (meeting: Meeting) => {
-  const meetingData = meeting.meeting_data || {};
-  return String(meetingData.status || meetingData['סטטוס'] || 'פעיל');
-};
+const getMeetingDateSortValue = (meeting: Meeting) => getMeetingDate(meeting)?.getTime() ?? 0;
 
 const getMeetingEmailValue = (meeting: Meeting) => {
   const customer = getMeetingCustomer(meeting);
@@ -122,17 +33,6 @@ const getMeetingPhoneValue = (meeting: Meeting) => {
   return String(customer?.phone || '-');
 };
 
-const getMeetingTypeValue = (meeting: Meeting) => {
-  const meetingData = meeting.meeting_data || {};
-  return String(
-    meetingData['סוג פגישה'] ||
-    meetingData.meeting_type ||
-    meetingData['פגישת הכרות'] ||
-    meetingData.type ||
-    'פגישת הכרות'
-  );
-};
-
 const getMeetingNotesValue = (meeting: Meeting) => {
   const meetingData = meeting.meeting_data || {};
   return String(
@@ -302,6 +202,56 @@ export const meetingColumns: DataTableColumn<Meeting>[] = [
       );
     },
   },
+  {
+    id: 'owner',
+    header: 'מאמן',
+    accessorKey: 'owner_id',
+    enableSorting: true,
+    enableResizing: true,
+    enableHiding: true,
+    size: 150,
+    meta: {
+      align: 'right',
+    },
+    sortingFn: (rowA, rowB) => compareStrings(getMeetingOwnerName(rowA.original) || '', getMeetingOwnerName(rowB.original) || ''),
+    cell: ({ row }) => {
+      const ownerName = getMeetingOwnerName(row.original);
+      return <span className={ownerName ? 'text-sm text-gray-700' : 'text-gray-400'}>{ownerName || '-'}</span>;
+    },
+  },
+  {
+    id: 'location',
+    header: 'מיקום',
+    accessorKey: 'location',
+    enableSorting: true,
+    enableResizing: true,
+    enableHiding: true,
+    size: 180,
+    meta: {
+      align: 'right',
+    },
+    sortingFn: (rowA, rowB) => compareStrings(rowA.original.location || '', rowB.original.location || ''),
+    cell: ({ row }) => {
+      const { location, video_link } = row.original;
+      if (location) {
+        return <span className="text-sm text-gray-700 truncate block max-w-[180px]" title={location}>{location}</span>;
+      }
+      if (video_link) {
+        return (
+          <a
+            href={video_link}
+            target="_blank"
+            rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
+            className="text-sm text-[#5B6FB9] hover:underline"
+          >
+            שיחת וידאו
+          </a>
+        );
+      }
+      return <span className="text-gray-400">-</span>;
+    },
+  },
   {
     id: 'notes',
     header: 'הערות',
@@ -369,6 +319,8 @@ export const defaultMeetingColumnVisibility = {
   email: true,
   meeting_type: true,
   status: true,
+  owner: false,
+  location: false,
   notes: false,
   created_at: true,
   actions: true,
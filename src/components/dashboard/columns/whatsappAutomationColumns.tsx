@@ -9,11 +9,13 @@ export interface WhatsAppAutomation {
   label: string;
   hasTemplate?: boolean;
   isAutoTrigger?: boolean;
+  triggerCount?: number; // Active automation rules
 }
 
 interface WhatsAppAutomationColumnsProps {
   onEdit?: (automation: WhatsAppAutomation) => void;
   onDelete?: (automation: WhatsAppAutomation) => void;
+  onManageTriggers?: (automation: WhatsAppAutomation) => void;
 }
 
 /**
@@ -22,6 +24,7 @@ interface WhatsAppAutomationColumnsProps {
 export const createWhatsAppAutomationColumns = ({
   onEdit,
   onDelete,
+  onManageTriggers,
 }: WhatsAppAutomationColumnsProps = {}): DataTableColumn<WhatsAppAutomation>[] => [
   {
     id: 'label',
@@ -66,6 +69,29 @@ export const createWhatsAppAutomationColumns = ({
       );
     },
   },
+  {
+    id: 'triggers',
+    header: 'טריגרים',
+    accessorFn: (row) => row.triggerCount || 0,
+    enableSorting: true,
+    enableResizing: true,
+    enableHiding: true,
+    size: 150,
+    meta: {
+      align: 'right',
+    },
+    cell: ({ row }) => {
+      const triggerCount = row.original.triggerCount || 0;
+      return triggerCount > 0 ? (
+        <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200 gap-1">
+          <Zap className="h-3 w-3" />
+          {triggerCount === 1 ? 'טריגר פעיל' : `${triggerCount} טריגרים`}
+        </Badge>
+      ) : (
+        <span className="text-sm text-gray-400">ידני</span>
+      );
+    },
+  },
   {
     id: 'key',
     header: 'מפתח',
@@ -88,7 +114,7 @@ export const createWhatsAppAutomationColumns = ({
     enableSorting: false,
     enableResizing: false,
     enableHiding: false,
-    size: 120,
+    size: 160,
     meta: {
       align: 'center',
     },
@@ -96,6 +122,18 @@ export const createWhatsAppAutomationColumns = ({
       const automation = row.original;
       return (
         <div className="flex items-center justify-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-9 w-9 border-amber-300 hover:bg-amber-50 hover:border-amber-400 text-amber-600"
+            title="טריגרים"
+            onClick={(e) => {
+              e.stopPropagation();
+              onManageTriggers?.(automation);
+            }}
+          >
+            <Zap className="h-3.5 w-3.5" />
+          </Button>
           <Button
             variant="outline"
             size="icon"
@@ -132,6 +170,7 @@ export const createWhatsAppAutomationColumns = ({
 export const defaultWhatsAppAutomationColumnVisibility: Record<string, boolean> = {
   label: true,
   status: true,
+  triggers: true,
   key: true,
   actions: true,
 };
@@ -86,8 +86,8 @@ export const AddCollectionDialog = ({
   const [formData, setFormData] = useState({
     lead_id: leadId || '',
     total_amount: '',
+    currency: 'ILS',
     due_date: '',
-    status: 'ממתין',
     description: '',
     notes: '',
   });
@@ -98,8 +98,8 @@ export const AddCollectionDialog = ({
       setFormData({
         lead_id: leadId || '',
         total_amount: '',
+        currency: 'ILS',
         due_date: '',
-        status: 'ממתין',
         description: '',
         notes: '',
       });
@@ -137,8 +137,10 @@ export const AddCollectionDialog = ({
         .insert({
           lead_id: formData.lead_id,
           total_amount: Number(formData.total_amount),
+          currency: formData.currency,
           due_date: formData.due_date || null,
-          status: formData.status,
+          // The status follows the linked payments (set_collection_status)
+          status: 'ממתין',
           description: formData.description || null,
           notes: formData.notes || null,
           created_by: user?.id || null,
@@ -283,35 +285,34 @@ export const AddCollectionDialog = ({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="due_date">תאריך יעד</Label>
-            <Input
-              id="due_date"
-              type="date"
-              value={formData.due_date}
-              onChange={(e) => handleInputChange('due_date', e.target.value)}
-              disabled={isSubmitting}
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="status">סטטוס</Label>
+            <Label htmlFor="currency">מטבע</Label>
             <Select
-              value={formData.status}
-              onValueChange={(value) => handleInputChange('status', value)}
+              value={formData.currency}
+              onValueChange={(value) => handleInputChange('currency', value)}
               disabled={isSubmitting}
             >
               <SelectTrigger>
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="ממתין">ממתין</SelectItem>
-                <SelectItem value="חלקי">חלקי</SelectItem>
-                <SelectItem value="הושלם">הושלם</SelectItem>
-                <SelectItem value="בוטל">בוטל</SelectItem>
+                <SelectItem value="ILS">₪ ILS</SelectItem>
+                <SelectItem value="USD">$ USD</SelectItem>
+                <SelectItem value="EUR">€ EUR</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="due_date">תאריך יעד</Label>
+            <Input
+              id="due_date"
+              type="date"
+              value={formData.due_date}
+              onChange={(e) => handleInputChange('due_date', e.target.value)}
+              disabled={isSubmitting}
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="description">תיאור</Label>
             <Input
@@ -34,6 +34,7 @@ import { useQueryClient } from '@tanstack/react-query';
 import { useCollectionsByLead } from '@/hooks/useCollectionsByLead';
 import { useAllCollections, type AllCollectionRecord } from '@/hooks/useAllCollections';
 import { cn } from '@/lib/utils';
+import { getCurrencySymbol } from '@/utils/currency';
 
 interface AddPaymentDialogProps {
   isOpen: boolean;
@@ -163,29 +164,36 @@ export const AddPaymentDialog = ({
 
     // Add amount
     if (collection.total_amount) {
-      parts.push(`₪${collection.total_amount.toFixed(2)}`);
+      parts.push(`${getCurrencySymbol(collection.currency)}${collection.total_amount.toFixed(2)}`);
     }
 
     // If no customer name, use description as fallback
     if (!collection.customer_name && collection.description) {
-      return `${collection.description} - (${collection.status}) ₪${collection.total_amount.toFixed(2)}`;
+      return `${collection.description} - (${collection.status}) ${getCurrencySymbol(collection.currency)}${collection.total_amount.toFixed(2)}`;
     }
 
     return parts.join(' - ');
   };
 
-  // Auto-fill product name when collection is selected
+  const selectedCollection = useMemo(
+    () =>
+      formData.collection_id && formData.collection_id !== 'none'
+        ? collections.find((c) => c.id === formData.collection_id)
+        : undefined,
+    [formData.collection_id, collections]
+  );
+
+  // Auto-fill product name and currency when collection is selected
+  // (a payment toward a collection is always in the collection's currency)
   useEffect(() => {
-    if (formData.collection_id && formData.collection_id !== 'none') {
-      const selectedCollection = collections.find((c) => c.id === formData.collection_id);
-      if (selectedCollection?.description) {
-        setFormData((prev) => ({
-          ...prev,
-          product_name: selectedCollection.description || '',
-        }));
-      }
+    if (selectedCollection) {
+      setFormData((prev) => ({
+        ...prev,
+        product_name: selectedCollection.description || prev.product_name,
+        currency: selectedCollection.currency || prev.currency,
+      }));
     }
-  }, [formData.collection_id, collections]);
+  }, [selectedCollection]);
 
   const handleInputChange = (field: string, value: string) => {
     setFormData((prev) => ({
@@ -264,7 +272,7 @@ export const AddPaymentDialog = ({
           collection_id: formData.collection_id && formData.collection_id !== 'none' ? formData.collection_id : null,
           product_name: formData.product_name.trim(),
           amount: Number(formData.amount),
-          currency: formData.currency,
+          currency: selectedCollection?.currency || formData.currency,
           status: formData.status,
           notes: formData.notes || null,
           created_by: user?.id || null,
@@ -285,6 +293,9 @@ export const AddPaymentDialog = ({
       queryClient.invalidateQueries({ queryKey: ['payment-history'] });
       queryClient.invalidateQueries({ queryKey: ['collections-by-lead'] });
       queryClient.invalidateQueries({ queryKey: ['all-collections'] });
+      queryClient.invalidateQueries({ queryKey: ['collection'] });
+      queryClient.invalidateQueries({ queryKey: ['collection-ledger'] });
+      queryClient.invalidateQueries({ queryKey: ['payment-dunning'] });
 
       // Call callback if provided
       if (onPaymentCreated) {
@@ -433,7 +444,7 @@ export const AddPaymentDialog = ({
             <Select
               value={formData.currency}
               onValueChange={(value) => handleInputChange('currency', value)}
-              disabled={isSubmitting}
+              disabled={isSubmitting || !!selectedCollection}
             >
               <SelectTrigger>
                 <SelectValue />
@@ -444,6 +455,9 @@ export const AddPaymentDialog = ({
                 <SelectItem value="EUR">€ EUR</SelectItem>
               </SelectContent>
             </Select>
+            {selectedCollection && (
+              <p className="text-xs text-muted-foreground">תשלום לגבייה הוא במטבע הגבייה</p>
+            )}
           </div>
 
           <div className="space-y-2">
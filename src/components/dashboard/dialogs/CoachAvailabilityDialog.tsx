@@ -0,0 +1,460 @@
+/**
+ * CoachAvailabilityDialog Component
+ *
+ * Lets a coach publish a self-service booking page (/book/:slug) and set the weekly
+ * hours, breaks, holidays and buffer that the page offers slots from.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Copy, Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RTLSwitch } from '@/components/ui/RTLSwitch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  BOOKING_SLUG_PATTERN,
+  DEFAULT_BOOKING_SETTINGS,
+  WEEKDAY_LABELS,
+  getBookingPageUrl,
+  useAddCoachAvailabilityException,
+  useCoachAvailabilityExceptions,
+  useCoachAvailabilityRules,
+  useCoachBookingSettings,
+  useDeleteCoachAvailabilityException,
+  useSaveCoachAvailability,
+  type CoachAvailabilityRule,
+  type CoachBookingSettings,
+} from '@/hooks/useCoachAvailability';
+import { MEETING_TYPES } from '@/components/dashboard/calendar/utils';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+type SettingsForm = Omit<CoachBookingSettings, 'coach_id' | 'created_at' | 'updated_at'>;
+
+interface CoachAvailabilityDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NUMBER_FIELDS: Array<{ key: keyof SettingsForm; label: string; min: number; max: number }> = [
+  { key: 'slot_duration_minutes', label: 'אורך פגישה (דקות)', min: 10, max: 240 },
+  { key: 'buffer_minutes', label: 'מרווח בין פגישות (דקות)', min: 0, max: 120 },
+  { key: 'min_notice_hours', label: 'התראה מינימלית (שעות)', min: 0, max: 168 },
+  { key: 'max_days_ahead', label: 'ימים קדימה להזמנה', min: 1, max: 90 },
+];
+
+const toTimeInput = (time: string) => time.slice(0, 5);
+
+export const CoachAvailabilityDialog: React.FC<CoachAvailabilityDialogProps> = ({ isOpen, onOpenChange }) => {
+  const { toast } = useToast();
+  const { data: savedSettings, isLoading: isLoadingSettings } = useCoachBookingSettings();
+  const { data: savedRules = [], isLoading: isLoadingRules } = useCoachAvailabilityRules();
+  const { data: exceptions = [] } = useCoachAvailabilityExceptions();
+  const saveAvailability = useSaveCoachAvailability();
+  const addException = useAddCoachAvailabilityException();
+  const deleteException = useDeleteCoachAvailabilityException();
+
+  const [settings, setSettings] = useState<SettingsForm>(DEFAULT_BOOKING_SETTINGS);
+  const [rules, setRules] = useState<CoachAvailabilityRule[]>([]);
+  const [newException, setNewException] = useState({ date_from: '', date_to: '', label: '' });
+
+  // Reset the form from the saved values every time the dialog opens
+  useEffect(() => {
+    if (!isOpen || isLoadingSettings || isLoadingRules) return;
+
+    const saved = savedSettings || DEFAULT_BOOKING_SETTINGS;
+    setSettings({
+      is_bookable: saved.is_bookable,
+      booking_slug: saved.booking_slug,
+      display_name: saved.display_name,
+      meeting_type: saved.meeting_type,
+      slot_duration_minutes: saved.slot_duration_minutes,
+      buffer_minutes: saved.buffer_minutes,
+      min_notice_hours: saved.min_notice_hours,
+      max_days_ahead: saved.max_days_ahead,
+    });
+    setRules(savedRules.map((rule) => ({
+      ...rule,
+      start_time: toTimeInput(rule.start_time),
+      end_time: toTimeInput(rule.end_time),
+    })));
+  }, [isOpen, isLoadingSettings, isLoadingRules, savedSettings, savedRules]);
+
+  const updateSetting = <K extends keyof SettingsForm>(key: K, value: SettingsForm[K]) => {
+    setSettings((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const addRule = (weekday: number, kind: CoachAvailabilityRule['kind']) => {
+    setRules((prev) => [
+      ...prev,
+      kind === 'hours'
+        ? { weekday, kind, start_time: '09:00', end_time: '17:00' }
+        : { weekday, kind, start_time: '13:00', end_time: '14:00' },
+    ]);
+  };
+
+  const updateRule = (index: number, field: 'start_time' | 'end_time', value: string) => {
+    setRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule)));
+  };
+
+  const removeRule = (index: number) => {
+    setRules((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleCopyLink = async () => {
+    if (!settings.booking_slug) return;
+
+    try {
+      await navigator.clipboard.writeText(getBookingPageUrl(settings.booking_slug));
+      toast({
+        title: 'הועתק',
+        description: 'הקישור לקביעת פגישה הועתק',
+      });
+    } catch {
+      toast({
+        title: 'שגיאה',
+        description: 'לא ניתן להעתיק את הקישור',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    const slug = settings.booking_slug?.trim().toLowerCase() || null;
+
+    if (settings.is_bookable && !slug) {
+      toast({
+        title: 'שגיאה',
+        description: 'יש לבחור כתובת לקישור לפני הפעלת קביעת פגישות',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (slug && !BOOKING_SLUG_PATTERN.test(slug)) {
+      toast({
+        title: 'שגיאה',
+        description: 'כתובת הקישור יכולה להכיל אותיות באנגלית, ספרות ומקפים בלבד (3-50 תווים)',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (rules.some((rule) => !rule.start_time || !rule.end_time || rule.end_time <= rule.start_time)) {
+      toast({
+        title: 'שגיאה',
+        description: 'שעת הסיום חייבת להיות אחרי שעת ההתחלה',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const outOfRange = NUMBER_FIELDS.find(({ key, min, max }) => {
+      const value = settings[key] as number;
+      return !Number.isInteger(value) || value < min || value > max;
+    });
+    if (outOfRange) {
+      toast({
+        title: 'שגיאה',
+        description: `${outOfRange.label}: ערך בין ${outOfRange.min} ל-${outOfRange.max}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await saveAvailability.mutateAsync({
+        settings: {
+          ...settings,
+          booking_slug: slug,
+          display_name: settings.display_name?.trim() || null,
+        },
+        rules,
+      });
+      toast({
+        title: 'הצלחה',
+        description: 'הזמינות נשמרה',
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: (error as Error)?.message || 'נכשל בשמירת הזמינות',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAddException = async () => {
+    const dateTo = newException.date_to || newException.date_from;
+    if (!newException.date_from || dateTo < newException.date_from) {
+      toast({
+        title: 'שגיאה',
+        description: 'יש לבחור טווח תאריכים תקין',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      await addException.mutateAsync({
+        date_from: newException.date_from,
+        date_to: dateTo,
+        label: newException.label.trim() || null,
+      });
+      setNewException({ date_from: '', date_to: '', label: '' });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: (error as Error)?.message || 'נכשל בהוספת החופשה',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDeleteException = async (exceptionId: string) => {
+    try {
+      await deleteException.mutateAsync(exceptionId);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: (error as Error)?.message || 'נכשל במחיקת החופשה',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const isLoading = isLoadingSettings || isLoadingRules;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] max-h-[90vh] overflow-y-auto" dir="rtl">
+        <DialogHeader>
+          <DialogTitle className="text-right">זמינות לקביעת פגישות</DialogTitle>
+          <DialogDescription className="text-right">
+            לקוחות יוכלו לקבוע שיחה בעצמם דרך הקישור שלך, רק בשעות הפנויות. לאחר קביעת הפגישה נשלחת הודעת "תחילת מסע לקוח" בוואטסאפ.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-[#5B6FB9]" />
+          </div>
+        ) : (
+          <div className="space-y-6 py-2">
+            {/* Booking link */}
+            <section className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="is_bookable" className="text-sm font-semibold">קביעת פגישות עצמית</Label>
+                <RTLSwitch
+                  id="is_bookable"
+                  checked={settings.is_bookable}
+                  onCheckedChange={(checked) => updateSetting('is_bookable', checked)}
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="booking_slug" className="block text-right text-xs">כתובת הקישור</Label>
+                  <Input
+                    id="booking_slug"
+                    value={settings.booking_slug || ''}
+                    onChange={(e) => updateSetting('booking_slug', e.target.value.toLowerCase())}
+                    placeholder="my-name"
+                    dir="ltr"
+                  />
+                </div>
+                <div className="space-y-1.5">
+                  <Label htmlFor="display_name" className="block text-right text-xs">שם שיוצג ללקוח</Label>
+                  <Input
+                    id="display_name"
+                    value={settings.display_name || ''}
+                    onChange={(e) => updateSetting('display_name', e.target.value)}
+                    placeholder="השם שלך"
+                  />
+                </div>
+              </div>
+              {settings.booking_slug && savedSettings?.booking_slug === settings.booking_slug && (
+                <div className="flex gap-2">
+                  <Input value={getBookingPageUrl(settings.booking_slug)} readOnly dir="ltr" className="text-xs h-8" onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="sm" onClick={handleCopyLink} className="flex-shrink-0">
+                    <Copy className="h-3.5 w-3.5 ml-1" />
+                    העתק
+                  </Button>
+                </div>
+              )}
+            </section>
+
+            {/* Meeting settings */}
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold text-gray-900">הגדרות פגישה</h3>
+              <div className="space-y-1.5">
+                <Label className="block text-right text-xs">סוג פגישה</Label>
+                <Select value={settings.meeting_type} onValueChange={(value) => updateSetting('meeting_type', value)}>
+                  <SelectTrigger className="text-right">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent dir="rtl">
+                    {MEETING_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {NUMBER_FIELDS.map(({ key, label, min, max }) => (
+                  <div key={key} className="space-y-1.5">
+                    <Label htmlFor={key} className="block text-right text-xs">{label}</Label>
+                    <Input
+                      id={key}
+                      type="number"
+                      min={min}
+                      max={max}
+                      value={settings[key] as number}
+                      onChange={(e) => updateSetting(key, Number(e.target.value) as never)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Weekly hours and breaks */}
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900">שעות פעילות והפסקות</h3>
+              {WEEKDAY_LABELS.map((dayLabel, weekday) => (
+                <div key={weekday} className="flex items-start gap-3 rounded-lg border border-gray-200 p-2">
+                  <span className="w-14 pt-1.5 text-sm font-medium text-gray-700 flex-shrink-0">{dayLabel}</span>
+                  <div className="flex-1 space-y-1.5">
+                    {rules.map((rule, index) => rule.weekday === weekday && (
+                      <div key={index} className="flex items-center gap-2">
+                        <span
+                          className={cn(
+                            'w-14 text-xs font-medium flex-shrink-0',
+                            rule.kind === 'break' ? 'text-amber-600' : 'text-green-700'
+                          )}
+                        >
+                          {rule.kind === 'break' ? 'הפסקה' : 'זמין'}
+                        </span>
+                        <Input
+                          type="time"
+                          value={rule.start_time}
+                          onChange={(e) => updateRule(index, 'start_time', e.target.value)}
+                          className="h-8 w-28"
+                        />
+                        <span className="text-gray-400">-</span>
+                        <Input
+                          type="time"
+                          value={rule.end_time}
+                          onChange={(e) => updateRule(index, 'end_time', e.target.value)}
+                          className="h-8 w-28"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeRule(index)}
+                          className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                          title="הסר"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => addRule(weekday, 'hours')} className="h-7 text-xs">
+                        <Plus className="h-3 w-3 ml-1" />
+                        שעות
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => addRule(weekday, 'break')} className="h-7 text-xs">
+                        <Plus className="h-3 w-3 ml-1" />
+                        הפסקה
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </section>
+
+            {/* Holidays */}
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900">חופשות וימים חסומים</h3>
+              {exceptions.map((exception) => (
+                <div key={exception.id} className="flex items-center justify-between rounded-lg border border-gray-200 px-3 py-1.5 text-sm">
+                  <span>
+                    {format(new Date(exception.date_from), 'dd/MM/yyyy')}
+                    {exception.date_to !== exception.date_from && ` - ${format(new Date(exception.date_to), 'dd/MM/yyyy')}`}
+                    {exception.label && <span className="text-gray-500"> · {exception.label}</span>}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteException(exception.id)}
+                    disabled={deleteException.isPending}
+                    className="h-7 w-7 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                    title="מחק"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  type="date"
+                  value={newException.date_from}
+                  onChange={(e) => setNewException((prev) => ({ ...prev, date_from: e.target.value }))}
+                  className="h-8 w-36"
+                  title="מתאריך"
+                />
+                <Input
+                  type="date"
+                  value={newException.date_to}
+                  onChange={(e) => setNewException((prev) => ({ ...prev, date_to: e.target.value }))}
+                  className="h-8 w-36"
+                  title="עד תאריך"
+                />
+                <Input
+                  value={newException.label}
+                  onChange={(e) => setNewException((prev) => ({ ...prev, label: e.target.value }))}
+                  placeholder="תיאור (לדוגמה: חג)"
+                  className="h-8 flex-1 min-w-[120px]"
+                />
+                <Button variant="outline" size="sm" onClick={handleAddException} disabled={addException.isPending}>
+                  <Plus className="h-3.5 w-3.5 ml-1" />
+                  הוסף
+                </Button>
+              </div>
+            </section>
+          </div>
+        )}
+
+        <DialogFooter className="flex-row-reverse gap-2">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saveAvailability.isPending}>
+            ביטול
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={isLoading || saveAvailability.isPending}
+            className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90"
+          >
+            {saveAvailability.isPending ? 'שומר...' : 'שמור'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
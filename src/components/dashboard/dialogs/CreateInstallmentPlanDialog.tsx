@@ -0,0 +1,267 @@
+/**
+ * CreateInstallmentPlanDialog Component
+ *
+ * Splits a subscription total into an installment schedule (תשלומים).
+ * Each installment becomes a collection; Stripe plans are billed by recurring Stripe invoices.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCreateInstallmentPlan, type InstallmentBillingMethod } from '@/hooks/useInstallmentPlans';
+import {
+  buildInstallmentSchedule,
+  MAX_INSTALLMENTS,
+  type InstallmentIntervalUnit,
+} from '@/utils/installments';
+import type { Currency } from '@/store/slices/subscriptionTypesSlice';
+
+export interface InstallmentPlanDefaults {
+  subscriptionName?: string;
+  totalAmount?: number;
+  currency?: Currency;
+  installmentsCount?: number;
+}
+
+interface CreateInstallmentPlanDialogProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  leadId: string;
+  defaults?: InstallmentPlanDefaults;
+}
+
+const formatAmount = (amount: number, currency: Currency) =>
+  new Intl.NumberFormat('he-IL', { style: 'currency', currency }).format(amount);
+
+export const CreateInstallmentPlanDialog = ({
+  isOpen,
+  onOpenChange,
+  leadId,
+  defaults,
+}: CreateInstallmentPlanDialogProps) => {
+  const { toast } = useToast();
+  const createPlan = useCreateInstallmentPlan();
+
+  const [subscriptionName, setSubscriptionName] = useState('');
+  const [totalAmount, setTotalAmount] = useState<number>(0);
+  const [currency, setCurrency] = useState<Currency>('ILS');
+  const [installmentsCount, setInstallmentsCount] = useState<number>(1);
+  const [intervalUnit, setIntervalUnit] = useState<InstallmentIntervalUnit>('months');
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [billingMethod, setBillingMethod] = useState<InstallmentBillingMethod>('manual');
+
+  useEffect(() => {
+    if (isOpen) {
+      setSubscriptionName(defaults?.subscriptionName || '');
+      setTotalAmount(defaults?.totalAmount || 0);
+      setCurrency(defaults?.currency || 'ILS');
+      setInstallmentsCount(Math.min(Math.max(defaults?.installmentsCount || 1, 1), MAX_INSTALLMENTS));
+      setIntervalUnit('months');
+      setStartDate(format(new Date(), 'yyyy-MM-dd'));
+      setBillingMethod('manual');
+    }
+  }, [isOpen, defaults]);
+
+  const schedule = useMemo(
+    () => buildInstallmentSchedule({ totalAmount, count: installmentsCount, startDate, intervalUnit }),
+    [totalAmount, installmentsCount, startDate, intervalUnit]
+  );
+
+  const handleSubmit = async () => {
+    if (!subscriptionName.trim()) {
+      toast({ title: 'שגיאה', description: 'נא להזין שם מנוי', variant: 'destructive' });
+      return;
+    }
+    if (!(totalAmount > 0)) {
+      toast({ title: 'שגיאה', description: 'נא להזין סכום כולל תקין', variant: 'destructive' });
+      return;
+    }
+    if (installmentsCount < 1 || installmentsCount > MAX_INSTALLMENTS) {
+      toast({ title: 'שגיאה', description: `מספר התשלומים חייב להיות בין 1 ל-${MAX_INSTALLMENTS}`, variant: 'destructive' });
+      return;
+    }
+
+    try {
+      const { stripeError } = await createPlan.mutateAsync({
+        leadId,
+        subscriptionName: subscriptionName.trim(),
+        totalAmount,
+        currency,
+        intervalUnit,
+        billingMethod,
+        schedule,
+      });
+
+      if (stripeError) {
+        toast({
+          title: 'לוח התשלומים נשמר ללא Stripe',
+          description: `יצירת המנוי ב-Stripe נכשלה (${stripeError}). התשלומים יגבו ידנית.`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'הצלחה',
+          description: `נוצר לוח של ${schedule.length} תשלומים`,
+        });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: (error as Error)?.message || 'נכשל ביצירת לוח התשלומים',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg" dir="rtl">
+        <DialogHeader>
+          <DialogTitle>פריסת תשלומים</DialogTitle>
+          <DialogDescription>
+            כל תשלום נוצר כגבייה נפרדת עם תאריך יעד.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="installment-subscription-name">מנוי</Label>
+            <Input
+              id="installment-subscription-name"
+              value={subscriptionName}
+              onChange={(e) => setSubscriptionName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="installment-total">סכום כולל</Label>
+              <Input
+                id="installment-total"
+                type="number"
+                min={0}
+                step="0.01"
+                value={totalAmount || ''}
+                onChange={(e) => setTotalAmount(Number(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>מטבע</Label>
+              <Select value={currency} onValueChange={(value) => setCurrency(value as Currency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ILS">₪ ILS</SelectItem>
+                  <SelectItem value="USD">$ USD</SelectItem>
+                  <SelectItem value="EUR">€ EUR</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="installment-count">מספר תשלומים</Label>
+              <Input
+                id="installment-count"
+                type="number"
+                min={1}
+                max={MAX_INSTALLMENTS}
+                value={installmentsCount}
+                onChange={(e) => setInstallmentsCount(Math.min(Number(e.target.value) || 1, MAX_INSTALLMENTS))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>תדירות</Label>
+              <Select value={intervalUnit} onValueChange={(value) => setIntervalUnit(value as InstallmentIntervalUnit)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="months">חודשי</SelectItem>
+                  <SelectItem value="weeks">שבועי</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="installment-start">תשלום ראשון</Label>
+              <Input
+                id="installment-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>אופן גבייה</Label>
+            <Select value={billingMethod} onValueChange={(value) => setBillingMethod(value as InstallmentBillingMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="manual">ידני - רישום תשלומים בגבייה</SelectItem>
+                <SelectItem value="stripe">Stripe - חשבונית חוזרת ללקוח</SelectItem>
+              </SelectContent>
+            </Select>
+            {billingMethod === 'stripe' && (
+              <p className="text-xs text-gray-500">
+                Stripe ישלח ללקוח חשבונית עם קישור לתשלום בכל מועד, והתשלומים יסומנו אוטומטית.
+              </p>
+            )}
+          </div>
+
+          {schedule.length > 0 && (
+            <div className="max-h-[220px] overflow-auto rounded-lg border border-slate-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-9 text-right text-xs">#</TableHead>
+                    <TableHead className="h-9 text-right text-xs">תאריך יעד</TableHead>
+                    <TableHead className="h-9 text-right text-xs">סכום</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedule.map((item) => (
+                    <TableRow key={item.installment_number}>
+                      <TableCell className="py-2 text-xs">{item.installment_number}</TableCell>
+                      <TableCell className="py-2 text-xs">{format(new Date(item.due_date), 'dd/MM/yyyy')}</TableCell>
+                      <TableCell className="py-2 text-xs font-semibold">{formatAmount(item.amount, currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={createPlan.isPending}>
+            ביטול
+          </Button>
+          <Button onClick={handleSubmit} disabled={createPlan.isPending || schedule.length === 0}>
+            {createPlan.isPending && <Loader2 className="h-4 w-4 ml-2 animate-spin" />}
+            צור לוח תשלומים
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -26,7 +26,7 @@ import {
 } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { Calendar as CalendarIcon, Pencil } from 'lucide-react';
+import { Calendar as CalendarIcon, AlertTriangle } from 'lucide-react';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { Check, ChevronsUpDown } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
@@ -36,7 +36,18 @@ import { useQueryClient } from '@tanstack/react-query';
 import { format, differenceInMinutes, parseISO, isValid } from 'date-fns';
 import { he } from 'date-fns/locale';
 import { cn } from '@/lib/utils';
-import { Meeting } from '@/hooks/useMeetings';
+import { Meeting, MeetingConflict, fetchMeetingConflicts } from '@/hooks/useMeetings';
+import { useStaffMembers, getStaffMemberName } from '@/hooks/useStaffMembers';
+import { MEETING_STATUSES, MEETING_TYPES, isMeetingCancelled } from '@/components/dashboard/calendar/utils';
+
+const NO_OWNER = '__none__';
+
+// "yyyy-MM-dd" + "HH:mm" in the browser's local time
+const toDateTime = (date: string, time: string): Date | null => {
+  if (!date || !time) return null;
+  const value = new Date(`${date}T${time}:00`);
+  return isValid(value) ? value : null;
+};
 
 interface MeetingDialogProps {
   isOpen: boolean;
@@ -89,46 +100,46 @@ export const MeetingDialog = ({
     meeting_time_end: '',
     status: 'פעיל',
     meeting_type: '',
+    location: '',
+    video_link: '',
+    owner_id: NO_OWNER,
     notes: '',
   });
 
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [isOwnerTouched, setIsOwnerTouched] = useState(false);
+  const [conflicts, setConflicts] = useState<MeetingConflict[]>([]);
+  const [isConflictConfirmed, setIsConflictConfirmed] = useState(false);
+  const { data: staffMembers = [] } = useStaffMembers();
 
   // Initialize form when dialog opens
   useEffect(() => {
     if (isOpen) {
+      setConflicts([]);
+      setIsConflictConfirmed(false);
+
       if (meeting) {
         const mData = meeting.meeting_data || {};
-        
-        let mDate = mData.date || mData.meeting_date || mData['תאריך'] || format(new Date(), 'yyyy-MM-dd');
-        let startTime = mData.time_start || mData.meeting_time_start || '';
-        let endTime = mData.time_end || mData.meeting_time_end || '';
-
-        // Try to get from eventStartTime if available
-        if (mData.eventStartTime) {
-          const startDate = parseISO(mData.eventStartTime);
-          if (isValid(startDate)) {
-            mDate = format(startDate, 'yyyy-MM-dd');
-            startTime = format(startDate, 'HH:mm');
-          }
-        }
-        if (mData.eventEndTime) {
-          const endDate = parseISO(mData.eventEndTime);
-          if (isValid(endDate)) {
-            endTime = format(endDate, 'HH:mm');
-          }
-        }
+        const start = meeting.start_time ? parseISO(meeting.start_time) : null;
+        const end = meeting.end_time ? parseISO(meeting.end_time) : null;
+        const mDate = start && isValid(start)
+          ? format(start, 'yyyy-MM-dd')
+          : meeting.meeting_date || format(new Date(), 'yyyy-MM-dd');
 
         setFormData({
           lead_id: meeting.lead_id || '',
           meeting_date: mDate,
-          meeting_time_start: startTime,
-          meeting_time_end: endTime,
-          status: mData.status || mData['סטטוס'] || 'פעיל',
-          meeting_type: mData.meeting_type || mData['סוג פגישה'] || '',
+          meeting_time_start: start && isValid(start) ? format(start, 'HH:mm') : '',
+          meeting_time_end: end && isValid(end) ? format(end, 'HH:mm') : '',
+          status: meeting.status || 'פעיל',
+          meeting_type: meeting.meeting_type || '',
+          location: meeting.location || '',
+          video_link: meeting.video_link || '',
+          owner_id: meeting.owner_id || NO_OWNER,
           notes: mData.notes || mData['הערות'] || '',
         });
         setSelectedDate(parseISO(mDate));
+        setIsOwnerTouched(true);
       } else {
         const dateToUse = initialDate ? new Date(initialDate) : new Date();
         const dateStr = format(dateToUse, 'yyyy-MM-dd');
@@ -141,12 +152,72 @@ export const MeetingDialog = ({
           meeting_time_end: '',
           status: 'פעיל',
           meeting_type: '',
+          location: '',
+          video_link: '',
+          owner_id: user?.id || NO_OWNER,
           notes: '',
         });
         setSelectedDate(dateToUse);
+        setIsOwnerTouched(false);
       }
     }
-  }, [isOpen, leadId, initialDate, meeting]);
+  }, [isOpen, leadId, initialDate, meeting, user?.id]);
+
+  // New meetings default to the lead's assigned coach
+  useEffect(() => {
+    if (!isOpen || isEditMode || isOwnerTouched || !formData.lead_id) return;
+
+    let isMounted = true;
+    supabase
+      .from('leads')
+      .select('assigned_to')
+      .eq('id', formData.lead_id)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (isMounted && data?.assigned_to) {
+          setFormData((prev) => ({ ...prev, owner_id: data.assigned_to }));
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isOpen, isEditMode, isOwnerTouched, formData.lead_id]);
+
+  const startDateTime = toDateTime(formData.meeting_date, formData.meeting_time_start);
+  const endDateTime = startDateTime ? toDateTime(formData.meeting_date, formData.meeting_time_end) : null;
+  const ownerId = formData.owner_id === NO_OWNER ? null : formData.owner_id;
+  const startIso = startDateTime?.toISOString() || null;
+  const endIso = endDateTime?.toISOString() || null;
+
+  // Warn about overlapping meetings of the same coach
+  useEffect(() => {
+    if (!isOpen || !startIso || !ownerId || isMeetingCancelled({ status: formData.status })) {
+      setConflicts([]);
+      return;
+    }
+
+    let isMounted = true;
+    fetchMeetingConflicts({
+      ownerId,
+      startTime: new Date(startIso),
+      endTime: endIso ? new Date(endIso) : null,
+      excludeMeetingId: meeting?.id,
+    })
+      .then((result) => {
+        if (isMounted) {
+          setConflicts(result);
+          setIsConflictConfirmed(false);
+        }
+      })
+      .catch(() => {
+        if (isMounted) setConflicts([]);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isOpen, startIso, endIso, ownerId, formData.status, meeting?.id]);
 
   useEffect(() => {
     if (selectedDate && isValid(selectedDate)) {
@@ -157,20 +228,16 @@ export const MeetingDialog = ({
 
   const handleInputChange = (field: string, value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
+    if (field === 'owner_id') setIsOwnerTouched(true);
   };
 
-  const duration = formData.meeting_time_start && formData.meeting_time_end 
+  const duration = startDateTime && endDateTime
     ? (() => {
-        const start = new Date(`${formData.meeting_date}T${formData.meeting_time_start}`);
-        const end = new Date(`${formData.meeting_date}T${formData.meeting_time_end}`);
-        if (isValid(start) && isValid(end)) {
-          const mins = differenceInMinutes(end, start);
-          if (mins < 0) return null;
-          const hrs = Math.floor(mins / 60);
-          const remainingMins = mins % 60;
-          return hrs > 0 ? `${hrs} שעות ו-${remainingMins} דקות` : `${remainingMins} דקות`;
-        }
-        return null;
+        const mins = differenceInMinutes(endDateTime, startDateTime);
+        if (mins <= 0) return null;
+        const hrs = Math.floor(mins / 60);
+        const remainingMins = mins % 60;
+        return hrs > 0 ? `${hrs} שעות ו-${remainingMins} דקות` : `${remainingMins} דקות`;
       })()
     : null;
 
@@ -193,63 +260,46 @@ export const MeetingDialog = ({
       return;
     }
 
+    if (endDateTime && startDateTime && endDateTime <= startDateTime) {
+      toast({
+        title: 'שגיאה',
+        description: 'שעת הסיום חייבת להיות אחרי שעת ההתחלה',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (conflicts.length > 0 && !isConflictConfirmed) {
+      setIsConflictConfirmed(true);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
-      const existingData = meeting?.meeting_data || {};
+      // Scheduling lives in columns; meeting_data keeps the raw Fillout payload and notes
       const meetingData: Record<string, any> = {
-        ...existingData,
-        'תאריך': formData.meeting_date,
-        'תאריך פגישה': formData.meeting_date,
-        date: formData.meeting_date,
-        meeting_date: formData.meeting_date,
-        'סטטוס': formData.status,
-        status: formData.status,
+        ...(meeting?.meeting_data || {}),
         notes: formData.notes,
         'הערות': formData.notes,
       };
 
-      if (formData.meeting_type) {
-        meetingData['סוג פגישה'] = formData.meeting_type;
-        meetingData.meeting_type = formData.meeting_type;
-        meetingData.type = formData.meeting_type;
-      }
-
-      if (formData.meeting_time_start) {
-        const [hours, minutes] = formData.meeting_time_start.split(':');
-        const startDateTime = new Date(`${formData.meeting_date}T${hours}:${minutes}:00`);
-        const startDateTimeISO = startDateTime.toISOString();
-        
-        meetingData['שעה'] = formData.meeting_time_end 
-          ? `${formData.meeting_time_start} - ${formData.meeting_time_end}`
-          : formData.meeting_time_start;
-        meetingData.meeting_time = formData.meeting_time_end 
-          ? `${formData.meeting_time_start} - ${formData.meeting_time_end}`
-          : formData.meeting_time_start;
-        
-        meetingData.time_start = formData.meeting_time_start;
-        meetingData.meeting_time_start = formData.meeting_time_start;
-        meetingData.event_start_time = startDateTimeISO;
-        meetingData.eventStartTime = startDateTimeISO;
-        meetingData['שעת התחלה'] = formData.meeting_time_start;
-        
-        if (formData.meeting_time_end) {
-          const [endHours, endMinutes] = formData.meeting_time_end.split(':');
-          const endDateTime = new Date(`${formData.meeting_date}T${endHours}:${endMinutes}:00`);
-          const endDateTimeISO = endDateTime.toISOString();
-          
-          meetingData.time_end = formData.meeting_time_end;
-          meetingData.meeting_time_end = formData.meeting_time_end;
-          meetingData.event_end_time = endDateTimeISO;
-          meetingData.eventEndTime = endDateTimeISO;
-          meetingData['שעת סיום'] = formData.meeting_time_end;
-        }
-      }
+      const scheduleFields = {
+        start_time: startDateTime ? startDateTime.toISOString() : null,
+        end_time: endDateTime ? endDateTime.toISOString() : null,
+        meeting_date: formData.meeting_date,
+        meeting_type: formData.meeting_type || null,
+        status: formData.status,
+        location: formData.location.trim() || null,
+        video_link: formData.video_link.trim() || null,
+        owner_id: ownerId,
+      };
 
       if (isEditMode && meeting) {
         const { error } = await supabase
           .from('meetings')
           .update({
+            ...scheduleFields,
             meeting_data: meetingData,
             lead_id: formData.lead_id || null,
           })
@@ -265,6 +315,7 @@ export const MeetingDialog = ({
         const { error } = await supabase
           .from('meetings')
           .insert({
+            ...scheduleFields,
             lead_id: formData.lead_id || null,
             meeting_data: meetingData,
             created_by: user?.id || null,
@@ -286,10 +337,10 @@ export const MeetingDialog = ({
       }
 
       onOpenChange(false);
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'שגיאה',
-        description: error?.message || 'פעולה נכשלה. אנא נסה שוב.',
+        description: (error as Error)?.message || 'פעולה נכשלה. אנא נסה שוב.',
         variant: 'destructive',
       });
     } finally {
@@ -412,11 +463,9 @@ export const MeetingDialog = ({
                 <SelectValue placeholder="בחר סוג פגישה" />
               </SelectTrigger>
               <SelectContent dir="rtl">
-                <SelectItem value="פגישת הכרות">פגישת הכרות</SelectItem>
-                <SelectItem value="פגישת מעקב">פגישת מעקב</SelectItem>
-                <SelectItem value="פגישת ביקורת חודשית">פגישת ביקורת חודשית</SelectItem>
-                <SelectItem value="פגישת תזונה">פגישת תזונה</SelectItem>
-                <SelectItem value="תיאום תקציב">תיאום תכנית פעולה</SelectItem>
+                {MEETING_TYPES.map((type) => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -453,6 +502,72 @@ export const MeetingDialog = ({
             </div>
           )}
 
+          {conflicts.length > 0 && (
+            <div className="bg-amber-50 p-2 rounded-md border border-amber-200 text-amber-800 text-xs space-y-1">
+              <div className="flex items-center gap-1 font-medium">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                למאמן יש פגישה חופפת
+              </div>
+              {conflicts.map((conflict) => (
+                <div key={conflict.id}>
+                  {format(parseISO(conflict.start_time), 'HH:mm')}
+                  {conflict.end_time ? ` - ${format(parseISO(conflict.end_time), 'HH:mm')}` : ''}
+                  {conflict.customer_name ? ` · ${conflict.customer_name}` : ''}
+                  {conflict.meeting_type ? ` · ${conflict.meeting_type}` : ''}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="owner_id" className="block text-right">מאמן אחראי</Label>
+            <Select
+              value={formData.owner_id}
+              onValueChange={(value) => handleInputChange('owner_id', value)}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger className="text-right">
+                <SelectValue placeholder="בחר מאמן" />
+              </SelectTrigger>
+              <SelectContent dir="rtl">
+                <SelectItem value={NO_OWNER}>ללא מאמן</SelectItem>
+                {staffMembers.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>{getStaffMemberName(member)}</SelectItem>
+                ))}
+                {ownerId && !staffMembers.some((member) => member.id === ownerId) && meeting?.owner && (
+                  <SelectItem value={ownerId}>{getStaffMemberName(meeting.owner)}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="location" className="block text-right">מיקום</Label>
+              <Input
+                id="location"
+                value={formData.location}
+                onChange={(e) => handleInputChange('location', e.target.value)}
+                placeholder="כתובת / סטודיו"
+                disabled={isSubmitting}
+                className="text-right"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="video_link" className="block text-right">קישור לשיחת וידאו</Label>
+              <Input
+                id="video_link"
+                type="url"
+                dir="ltr"
+                value={formData.video_link}
+                onChange={(e) => handleInputChange('video_link', e.target.value)}
+                placeholder="https://"
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="status" className="block text-right">סטטוס</Label>
             <Select
@@ -464,11 +579,9 @@ export const MeetingDialog = ({
                 <SelectValue />
               </SelectTrigger>
               <SelectContent dir="rtl">
-                <SelectItem value="פעיל">פעיל</SelectItem>
-                <SelectItem value="מתוכנן">מתוכנן</SelectItem>
-                <SelectItem value="הושלם">הושלם</SelectItem>
-                <SelectItem value="בוטל">בוטל</SelectItem>
-                <SelectItem value="מבוטל">מבוטל</SelectItem>
+                {MEETING_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -501,7 +614,11 @@ export const MeetingDialog = ({
             disabled={isSubmitting}
             className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90"
           >
-            {isSubmitting ? 'שומר...' : isEditMode ? 'עדכן פגישה' : 'צור פגישה'}
+            {isSubmitting
+              ? 'שומר...'
+              : isConflictConfirmed && conflicts.length > 0
+              ? 'שמור בכל זאת'
+              : isEditMode ? 'עדכן פגישה' : 'צור פגישה'}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -43,6 +43,7 @@ import {
   MoreHorizontal,
   Trash2,
   Edit,
+  Send,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -93,6 +94,7 @@ import { BulkEditModal } from './BulkEditModal';
 export interface DataTableColumn<T> extends Omit<ColumnDef<T>, 'id'> {
   id: string;
   accessorKey?: keyof T | string;
+  accessorFn?: (row: T) => unknown; // Derived value used for sorting
   header: string | ((props: any) => React.ReactNode);
   cell?: (props: any) => React.ReactNode;
   enableSorting?: boolean;
@@ -104,6 +106,7 @@ export interface DataTableColumn<T> extends Omit<ColumnDef<T>, 'id'> {
     className?: string;
     sortKey?: string;
     sortKeys?: string[];
+    isNumeric?: boolean; // Filtered as a number (see columnToFilterUtils)
   };
 }
 
@@ -129,6 +132,7 @@ export interface DataTableProps<T> {
   selectionLabel?: string;
   onBulkDelete?: (params: { ids: string[], selectAllAcrossPages: boolean, totalCount: number }) => Promise<void>;
   onBulkEdit?: (params: { ids: string[], selectAllAcrossPages: boolean, totalCount: number, updates: Record<string, any> }) => Promise<void>;
+  onBulkBroadcast?: (params: { ids: string[], selectAllAcrossPages: boolean, totalCount: number }) => void;
   groupCurrentPage?: number;
   groupPageSize?: number;
   singularLabel?: string;
@@ -340,6 +344,7 @@ export function DataTable<T extends Record<string, any>>({
   selectionLabel = 'רשומות',
   onBulkDelete,
   onBulkEdit,
+  onBulkBroadcast,
   groupCurrentPage,
   groupPageSize = 100,
   singularLabel = 'פריט',
@@ -867,6 +872,7 @@ export function DataTable<T extends Record<string, any>>({
           <div className="text-sm text-slate-700">{selectAllAcrossPages ? <span>נבחרו כל {totalItems} {selectionLabel}</span> : <span>נבחרו {selectedCount} מתוך {totalItems} {selectionLabel}</span>}</div>
           <div className="flex items-center gap-2">
             {showSelectAllAcrossPages && <Button type="button" variant="outline" size="sm" onClick={() => setSelectAllAcrossPages(true)}>בחר את כל {totalItems} {selectionLabel}</Button>}
+            {onBulkBroadcast && <Button type="button" variant="outline" size="sm" onClick={() => onBulkBroadcast({ ids: Array.from(selectedRowIds), selectAllAcrossPages, totalCount: totalItems })} className="gap-2"><Send className="h-4 w-4" /> שליחת הודעה</Button>}
             {onBulkEdit && <Button type="button" variant="outline" size="sm" onClick={() => setIsBulkEditOpen(true)} className="gap-2"><Edit className="h-4 w-4" /> עריכה קבוצתית</Button>}
             {onBulkDelete && <Button type="button" variant="destructive" size="sm" onClick={() => setIsBulkDeleteOpen(true)} className="gap-2"><Trash2 className="h-4 w-4" /> מחיקה</Button>}
             <Button type="button" variant="ghost" size="sm" onClick={handleClearSelection}>ביטול בחירה</Button>
@@ -26,6 +26,7 @@ export interface AddLeadFormData {
   preferred_time: string;
   subscription_type_id: string;
   budget_id: string;
+  assigned_to: string; // Empty = assigned by the lead assignment settings (round-robin or none)
 }
 
 const initialFormData: AddLeadFormData = {
@@ -46,6 +47,7 @@ const initialFormData: AddLeadFormData = {
   preferred_time: '',
   subscription_type_id: '',
   budget_id: '',
+  assigned_to: '',
 };
 
 export const useAddLead = () => {
@@ -312,6 +314,7 @@ export const useAddLead = () => {
         fitness_goal: formData.fitness_goal || null,
         activity_level: formData.activity_level || null,
         preferred_time: formData.preferred_time || null,
+        assigned_to: formData.assigned_to || null,
         join_date: joinDate,
         // Set default JSONB values
         daily_protocol: {},
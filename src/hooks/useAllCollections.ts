@@ -19,16 +19,48 @@ export interface AllCollectionRecord {
   lead_name?: string | null;
   customer_name?: string | null;
   total_amount: number;
+  currency?: string; // Currency of the total and the balance (ILS by default)
   due_date?: string | null;
   status: 'ממתין' | 'חלקי' | 'הושלם' | 'בוטל';
   description?: string | null;
   notes?: string | null;
   created_at: string;
   updated_at: string;
-  paid_amount?: number; // Calculated from linked payments
-  remaining_amount?: number; // Calculated: total_amount - paid_amount
+  paid_amount?: number; // Paid payments minus refunds (reconciled in the database)
+  remaining_amount?: number; // total_amount - paid_amount
+  refunded_amount?: number;
+  last_payment_at?: string | null;
+  is_overdue?: boolean; // Open and past its due date
+  days_overdue?: number;
 }
 
+export const COLLECTION_FILTER_FIELDS: FilterFieldConfigMap = {
+  created_at: { column: 'created_at', type: 'date' },
+  due_date: { column: 'due_date', type: 'date' },
+  status: { column: 'status', type: 'multiselect' },
+  total_amount: { column: 'total_amount', type: 'number' },
+  paid_amount: { column: 'paid_amount', type: 'number' },
+  remaining_amount: { column: 'remaining_amount', type: 'number' },
+  description: { column: 'description', type: 'text' },
+  customer_name: { column: 'customer_name', type: 'text' },
+  lead_name: { column: 'lead_name', type: 'text' },
+  lead_id_text: {
+    custom: (filter, negate) => {
+      const value = filter.values[0];
+      if (!value) return [];
+      return [[{ column: 'lead_id::text', operator: 'ilike', value: `%${value}%`, negate }]];
+    },
+  },
+};
+
+/**
+ * The table's filters combined with its search box, shared by the table query and the export
+ */
+export const buildCollectionsFilterGroup = (search?: string, filterGroup?: FilterGroup | null) => {
+  const searchGroup = search ? createSearchGroup(search, ['description', 'customer_name', 'lead_name', 'lead_id_text']) : null;
+  return mergeFilterGroups(filterGroup || null, searchGroup);
+};
+
 export const useAllCollections = (filters?: { 
   search?: string; 
   filterGroup?: FilterGroup | null;
@@ -43,29 +75,8 @@ export const useAllCollections = (filters?: {
     queryKey: ['all-collections', filters],
     queryFn: async () => {
       try {
-        const fieldConfigs: FilterFieldConfigMap = {
-          created_at: { column: 'created_at', type: 'date' },
-          due_date: { column: 'due_date', type: 'date' },
-          status: { column: 'status', type: 'multiselect' },
-          total_amount: { column: 'total_amount', type: 'number' },
-          paid_amount: { column: 'paid_amount', type: 'number' },
-          remaining_amount: { column: 'remaining_amount', type: 'number' },
-          description: { column: 'description', type: 'text' },
-          customer_name: { column: 'customer_name', type: 'text' },
-          lead_name: { column: 'lead_name', type: 'text' },
-          lead_id_text: {
-            custom: (filter, negate) => {
-              const value = filter.values[0];
-              if (!value) return [];
-              return [[{ column: 'lead_id::text', operator: 'ilike', value: `%${value}%`, negate }]];
-            },
-          },
-        };
-
-        const searchGroup = filters?.search
-          ? createSearchGroup(filters.search, ['description', 'customer_name', 'lead_name', 'lead_id_text'])
-          : null;
-        const combinedGroup = mergeFilterGroups(filters?.filterGroup || null, searchGroup);
+        const fieldConfigs = COLLECTION_FILTER_FIELDS;
+        const combinedGroup = buildCollectionsFilterGroup(filters?.search, filters?.filterGroup);
 
         const groupByMap: Record<string, string> = {
           created_at: 'created_at',
@@ -153,6 +164,7 @@ export const useAllCollections = (filters?: {
           lead_name: record.lead_name || null,
           customer_name: record.customer_name || null,
           total_amount: Number(record.total_amount) || 0,
+          currency: record.currency || 'ILS',
           due_date: record.due_date || null,
           status: record.status || 'ממתין',
           description: record.description || null,
@@ -161,6 +173,10 @@ export const useAllCollections = (filters?: {
           updated_at: record.updated_at,
           paid_amount: Number(record.paid_amount) || 0,
           remaining_amount: Number(record.remaining_amount) || 0,
+          refunded_amount: Number(record.refunded_amount) || 0,
+          last_payment_at: record.last_payment_at || null,
+          is_overdue: !!record.is_overdue,
+          days_overdue: Number(record.days_overdue) || 0,
         })) as AllCollectionRecord[];
 
         return { data: mappedData, totalCount };
@@ -27,6 +27,30 @@ export interface AllPaymentRecord {
   lead_name?: string | null;
 }
 
+export const PAYMENT_FILTER_FIELDS: FilterFieldConfigMap = {
+  created_at: { column: 'created_at', type: 'date' },
+  status: { column: 'status', type: 'multiselect' },
+  amount: { column: 'amount', type: 'number' },
+  currency: { column: 'currency', type: 'multiselect' },
+  product_name: { column: 'product_name', type: 'text' },
+  customer_name: { column: 'customer.full_name', type: 'text' },
+  lead_id_text: {
+    custom: (filter, negate) => {
+      const value = filter.values[0];
+      if (!value) return [];
+      return [[{ column: 'lead_id::text', operator: 'ilike', value: `%${value}%`, negate }]];
+    },
+  },
+};
+
+/**
+ * The table's filters combined with its search box, shared by the table query and the export
+ */
+export const buildPaymentsFilterGroup = (search?: string, filterGroup?: FilterGroup | null) => {
+  const searchGroup = search ? createSearchGroup(search, ['product_name', 'customer_name', 'lead_id_text']) : null;
+  return mergeFilterGroups(filterGroup || null, searchGroup);
+};
+
 export const useAllPayments = (filters?: { 
   search?: string; 
   filterGroup?: FilterGroup | null;
@@ -41,26 +65,8 @@ export const useAllPayments = (filters?: {
     queryKey: ['all-payments', filters],
     queryFn: async () => {
       try {
-        const fieldConfigs: FilterFieldConfigMap = {
-          created_at: { column: 'created_at', type: 'date' },
-          status: { column: 'status', type: 'multiselect' },
-          amount: { column: 'amount', type: 'number' },
-          currency: { column: 'currency', type: 'multiselect' },
-          product_name: { column: 'product_name', type: 'text' },
-          customer_name: { column: 'customer.full_name', type: 'text' },
-          lead_id_text: {
-            custom: (filter, negate) => {
-              const value = filter.values[0];
-              if (!value) return [];
-              return [[{ column: 'lead_id::text', operator: 'ilike', value: `%${value}%`, negate }]];
-            },
-          },
-        };
-
-        const searchGroup = filters?.search
-          ? createSearchGroup(filters.search, ['product_name', 'customer_name', 'lead_id_text'])
-          : null;
-        const combinedGroup = mergeFilterGroups(filters?.filterGroup || null, searchGroup);
+        const fieldConfigs = PAYMENT_FILTER_FIELDS;
+        const combinedGroup = buildPaymentsFilterGroup(filters?.search, filters?.filterGroup);
 
         const groupByMap: Record<string, string> = {
           date: 'created_at',
@@ -0,0 +1,184 @@
+/**
+ * useAutomationFlows Hook
+ *
+ * WhatsApp automation flow definitions (built-in + custom) from whatsapp_automation_flows.
+ * Shared by all coaches, so every browser and edge function sees the same flows.
+ * Flows saved in localStorage by older versions are migrated on first load.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+import {
+  DEFAULT_FLOW_CONFIGS,
+  isDefaultFlowKey,
+  resolveActiveFlows,
+  loadLegacyLocalStorageFlows,
+  clearLegacyLocalStorageFlows,
+  type AutomationFlowRow,
+  type FlowConfig,
+} from '@/utils/whatsappAutomationFlows';
+
+const AUTOMATION_FLOWS_QUERY_KEY = ['automation-flows'];
+
+// Run the localStorage migration once per page load
+let legacyMigration: Promise<void> | null = null;
+
+const migrateLegacyFlows = (userId: string): Promise<void> => {
+  if (!legacyMigration) {
+    legacyMigration = (async () => {
+      const { customFlows, deletedDefaultFlows } = loadLegacyLocalStorageFlows();
+      if (customFlows.length === 0 && deletedDefaultFlows.length === 0) return;
+
+      // Custom flows with a built-in key were label overrides
+      for (const flow of customFlows) {
+        const { error } = isDefaultFlowKey(flow.key)
+          ? await supabase
+              .from('whatsapp_automation_flows')
+              .update({ label: flow.label })
+              .eq('flow_key', flow.key)
+          : await supabase
+              .from('whatsapp_automation_flows')
+              .upsert(
+                { flow_key: flow.key, label: flow.label, created_by: userId },
+                { onConflict: 'flow_key', ignoreDuplicates: true }
+              );
+        if (error) throw error;
+      }
+
+      if (deletedDefaultFlows.length > 0) {
+        const { error } = await supabase
+          .from('whatsapp_automation_flows')
+          .update({ is_active: false })
+          .in('flow_key', deletedDefaultFlows)
+          .eq('is_default', true);
+        if (error) throw error;
+      }
+
+      clearLegacyLocalStorageFlows();
+    })().catch(() => {
+      // Keep the localStorage entries and retry on the next page load
+    });
+  }
+  return legacyMigration;
+};
+
+export const useAutomationFlows = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  const query = useQuery({
+    queryKey: AUTOMATION_FLOWS_QUERY_KEY,
+    queryFn: async (): Promise<AutomationFlowRow[]> => {
+      if (user?.id) {
+        await migrateLegacyFlows(user.id);
+      }
+
+      const { data, error } = await supabase
+        .from('whatsapp_automation_flows')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []) as AutomationFlowRow[];
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+
+  const flows = useMemo(() => resolveActiveFlows(query.data || []), [query.data]);
+
+  const getActiveFlows = useCallback((): FlowConfig[] => flows, [flows]);
+
+  const getFlowLabel = useCallback(
+    (flowKey: string, defaultLabel?: string): string => {
+      const flow = flows.find(f => f.key === flowKey);
+      return flow?.label || defaultLabel || DEFAULT_FLOW_CONFIGS.find(f => f.key === flowKey)?.label || flowKey;
+    },
+    [flows]
+  );
+
+  return {
+    ...query,
+    flows,
+    getActiveFlows,
+    getFlowLabel,
+  };
+};
+
+// Add a custom flow (re-activates a previously removed flow with the same key)
+export const useCreateAutomationFlow = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async ({ flowKey, label }: { flowKey: string; label: string }) => {
+      const { error } = await supabase
+        .from('whatsapp_automation_flows')
+        .upsert(
+          {
+            flow_key: flowKey,
+            label,
+            is_active: true,
+            is_default: isDefaultFlowKey(flowKey),
+            created_by: user?.id || null,
+          },
+          { onConflict: 'flow_key' }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: AUTOMATION_FLOWS_QUERY_KEY });
+    },
+  });
+};
+
+// Rename a flow (built-in or custom)
+export const useUpdateAutomationFlowLabel = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ flowKey, label }: { flowKey: string; label: string }) => {
+      const { error } = await supabase
+        .from('whatsapp_automation_flows')
+        .update({ label })
+        .eq('flow_key', flowKey);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: AUTOMATION_FLOWS_QUERY_KEY });
+    },
+  });
+};
+
+// Remove a flow - built-in flows are deactivated, custom flows are deleted
+export const useDeleteAutomationFlow = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (flowKey: string) => {
+      const { error } = isDefaultFlowKey(flowKey)
+        ? await supabase
+            .from('whatsapp_automation_flows')
+            .update({ is_active: false })
+            .eq('flow_key', flowKey)
+        : await supabase
+            .from('whatsapp_automation_flows')
+            .delete()
+            .eq('flow_key', flowKey);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: AUTOMATION_FLOWS_QUERY_KEY });
+    },
+  });
+};
@@ -0,0 +1,228 @@
+/**
+ * useAutomationRules Hook
+ *
+ * Trigger-based rules that send a WhatsApp flow automatically (whatsapp_automation_rules)
+ * and their execution audit log (automation_rule_runs).
+ * Rules are executed server-side by the run-automation-rules edge function.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+
+export type AutomationTriggerType =
+  | 'lead_status_changed'
+  | 'payment_completed'
+  | 'budget_assigned'
+  | 'no_check_in'
+  | 'subscription_expiring';
+
+export type ConditionOperator = 'equals' | 'not_equals' | 'contains' | 'is_empty' | 'is_not_empty';
+
+export interface AutomationRuleCondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+export interface AutomationRuleTriggerConfig {
+  statusMain?: string;
+  statusSub?: string;
+  days?: number;
+}
+
+export interface AutomationRule {
+  id: string;
+  flow_key: string;
+  name: string;
+  trigger_type: AutomationTriggerType;
+  trigger_config: AutomationRuleTriggerConfig;
+  conditions: AutomationRuleCondition[];
+  delay_minutes: number;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AutomationRuleRun {
+  id: string;
+  rule_id: string | null;
+  rule_name: string | null;
+  flow_key: string | null;
+  trigger_type: AutomationTriggerType;
+  lead_id: string | null;
+  customer_id: string | null;
+  status: 'queued' | 'skipped' | 'failed';
+  reason: string | null;
+  scheduled_message_id: string | null;
+  created_at: string;
+  customer?: { full_name: string | null } | null;
+}
+
+export type AutomationRuleInput = Pick<
+  AutomationRule,
+  'flow_key' | 'name' | 'trigger_type' | 'trigger_config' | 'conditions' | 'delay_minutes' | 'is_active'
+>;
+
+export const TRIGGER_TYPE_LABELS: Record<AutomationTriggerType, string> = {
+  lead_status_changed: 'שינוי סטטוס ליד',
+  payment_completed: 'תשלום שולם',
+  budget_assigned: 'שיוך תכנית פעולה',
+  no_check_in: 'ללא דיווח יומי',
+  subscription_expiring: 'מנוי עומד להסתיים',
+};
+
+// Lead / customer fields available in rule conditions (see _shared/automationRules.ts)
+export const CONDITION_FIELDS: Array<{ value: string; label: string }> = [
+  { value: 'status_main', label: 'סטטוס ראשי' },
+  { value: 'status_sub', label: 'תת סטטוס' },
+  { value: 'subscription_status', label: 'סטטוס מנוי' },
+  { value: 'source', label: 'מקור' },
+  { value: 'city', label: 'עיר' },
+  { value: 'gender', label: 'מגדר' },
+  { value: 'fitness_goal', label: 'מטרת כושר' },
+  { value: 'email', label: 'אימייל' },
+  { value: 'product_name', label: 'שם מוצר (תשלום)' },
+];
+
+export const CONDITION_OPERATORS: Array<{ value: ConditionOperator; label: string }> = [
+  { value: 'equals', label: 'שווה ל' },
+  { value: 'not_equals', label: 'שונה מ' },
+  { value: 'contains', label: 'מכיל' },
+  { value: 'is_empty', label: 'ריק' },
+  { value: 'is_not_empty', label: 'לא ריק' },
+];
+
+const AUTOMATION_RULES_QUERY_KEY = ['automation-rules'];
+
+export const useAutomationRules = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: AUTOMATION_RULES_QUERY_KEY,
+    queryFn: async (): Promise<AutomationRule[]> => {
+      const { data, error } = await supabase
+        .from('whatsapp_automation_rules')
+        .select('*')
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []) as AutomationRule[];
+    },
+    enabled: !!user?.id,
+  });
+};
+
+// Recent rule executions, optionally for a single flow
+export const useAutomationRuleRuns = (flowKey?: string | null, enabled = true) => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['automation-rule-runs', flowKey || 'all'],
+    queryFn: async (): Promise<AutomationRuleRun[]> => {
+      let query = supabase
+        .from('automation_rule_runs')
+        .select('*, customer:customers(full_name)')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (flowKey) {
+        query = query.eq('flow_key', flowKey);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []) as AutomationRuleRun[];
+    },
+    enabled: !!user?.id && enabled,
+  });
+};
+
+export const useSaveAutomationRule = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async ({ id, ...rule }: AutomationRuleInput & { id?: string }) => {
+      const { error } = id
+        ? await supabase.from('whatsapp_automation_rules').update(rule).eq('id', id)
+        : await supabase
+            .from('whatsapp_automation_rules')
+            .insert({ ...rule, created_by: user?.id || null });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: AUTOMATION_RULES_QUERY_KEY });
+    },
+  });
+};
+
+export const useToggleAutomationRule = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase
+        .from('whatsapp_automation_rules')
+        .update({ is_active: isActive })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: AUTOMATION_RULES_QUERY_KEY });
+    },
+  });
+};
+
+export const useDeleteAutomationRule = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('whatsapp_automation_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: AUTOMATION_RULES_QUERY_KEY });
+    },
+  });
+};
+
+// Human readable summary of a rule's trigger
+export const describeRuleTrigger = (rule: Pick<AutomationRule, 'trigger_type' | 'trigger_config'>): string => {
+  const label = TRIGGER_TYPE_LABELS[rule.trigger_type] || rule.trigger_type;
+  const config = rule.trigger_config || {};
+
+  switch (rule.trigger_type) {
+    case 'lead_status_changed': {
+      const status = [config.statusMain, config.statusSub].filter(Boolean).join(' / ');
+      return status ? `${label}: ${status}` : `${label} (כל סטטוס)`;
+    }
+    case 'no_check_in':
+      return `${label} ${config.days ?? 0} ימים`;
+    case 'subscription_expiring':
+      return config.days ? `${label} בעוד ${config.days} ימים` : `${label} היום`;
+    default:
+      return label;
+  }
+};
@@ -0,0 +1,83 @@
+/**
+ * useCalendarFeedTokens Hook
+ *
+ * The current user's secret tokens for the meetings ICS feed (meetings-ics-feed edge
+ * function). Tokens are created and revoked through RPCs so they are always server-generated.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+
+export interface CalendarFeedToken {
+  id: string;
+  user_id: string;
+  token: string;
+  label: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+export const getCalendarFeedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/meetings-ics-feed?token=${token}`;
+
+// webcal:// opens the "subscribe" flow directly in Apple / Outlook calendars
+export const getCalendarSubscribeUrl = (token: string) =>
+  getCalendarFeedUrl(token).replace(/^https?:\/\//, 'webcal://');
+
+export const useCalendarFeedTokens = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['calendar-feed-tokens', user?.id],
+    queryFn: async (): Promise<CalendarFeedToken[]> => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('calendar_feed_tokens')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []) as CalendarFeedToken[];
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useCreateCalendarFeedToken = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (label: string | null): Promise<CalendarFeedToken> => {
+      const { data, error } = await supabase.rpc('create_calendar_feed_token', { p_label: label });
+      if (error) throw error;
+      return data as CalendarFeedToken;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed-tokens'] });
+    },
+  });
+};
+
+export const useRevokeCalendarFeedToken = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (tokenId: string) => {
+      const { error } = await supabase.rpc('revoke_calendar_feed_token', { p_token_id: tokenId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed-tokens'] });
+    },
+  });
+};
@@ -0,0 +1,118 @@
+/**
+ * useCheckInCompliance Hook
+ *
+ * Daily check-in compliance per customer (customer_check_in_stats) and the
+ * missed check-in alert settings (check_in_reminder_settings).
+ * Missed check-ins are detected server-side by the check-missed-check-ins edge function.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+
+export interface CheckInStats {
+  customer_id: string;
+  last_check_in_date: string | null;
+  current_streak: number;
+  longest_streak: number;
+  check_ins_last_7_days: number;
+}
+
+export interface CheckInReminderSettings {
+  id: string;
+  is_active: boolean;
+  missed_days: number;
+  reminder_flow_key: string | null;
+  updated_at: string;
+}
+
+export const DEFAULT_MISSED_CHECK_IN_DAYS = 3;
+
+// Days since the last check-in (null when the customer never checked in)
+export const getDaysSinceCheckIn = (lastCheckInDate: string | null | undefined): number | null => {
+  if (!lastCheckInDate) return null;
+  const last = new Date(`${lastCheckInDate}T00:00:00`);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.max(0, Math.round((today.getTime() - last.getTime()) / (24 * 60 * 60 * 1000)));
+};
+
+export const useCheckInStats = (customerId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['check-in-stats', customerId],
+    queryFn: async (): Promise<CheckInStats | null> => {
+      if (!customerId) return null;
+
+      const { data, error } = await supabase
+        .from('customer_check_in_stats')
+        .select('*')
+        .eq('customer_id', customerId)
+        .maybeSingle();
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return null;
+        }
+        throw error;
+      }
+
+      return data as CheckInStats | null;
+    },
+    enabled: !!customerId,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useCheckInReminderSettings = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['check-in-reminder-settings'],
+    queryFn: async (): Promise<CheckInReminderSettings | null> => {
+      const { data, error } = await supabase
+        .from('check_in_reminder_settings')
+        .select('id, is_active, missed_days, reminder_flow_key, updated_at')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return null;
+        }
+        throw error;
+      }
+
+      return data as CheckInReminderSettings | null;
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useUpdateCheckInReminderSettings = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async (params: {
+      id: string;
+      is_active: boolean;
+      missed_days: number;
+      reminder_flow_key: string | null;
+    }) => {
+      const { id, ...updates } = params;
+      const { data, error } = await supabase
+        .from('check_in_reminder_settings')
+        .update({ ...updates, updated_by: user?.id || null })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as CheckInReminderSettings;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['check-in-reminder-settings'] });
+    },
+  });
+};
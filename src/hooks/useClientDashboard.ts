@@ -1,12 +1,13 @@
 import { useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { fetchClientData, setActiveLead, fetchClientDataByUserId } from '@/store/slices/clientSlice';
 import { startImpersonation } from '@/store/slices/impersonationSlice';
-import { supabase } from '@/lib/supabaseClient';
+import { fetchActiveImpersonationSession } from '@/hooks/useImpersonationSession';
 
 export const useClientDashboard = () => {
   const dispatch = useAppDispatch();
+  const navigate = useNavigate();
   const params = useParams<{ customerId?: string }>();
   const { user } = useAppSelector((state) => state.auth);
   const { isImpersonating, impersonatedUserId, impersonatedCustomerId } = useAppSelector(
@@ -16,37 +17,41 @@ export const useClientDashboard = () => {
     (state) => state.client
   );
 
-  // Restore impersonation state from URL on page load/refresh
+  // Resume the impersonation session on page load/refresh. Only a session that is still
+  // active on the server is resumed, so every view stays audited.
   useEffect(() => {
     const urlCustomerId = params.customerId;
     
     // If URL has customerId, user is admin/manager, and not already impersonating
     if (urlCustomerId && user && (user.role === 'admin' || user.role === 'user') && !isImpersonating) {
-      // Fetch customer to get user_id
-      supabase
-        .from('customers')
-        .select('user_id')
-        .eq('id', urlCustomerId)
-        .maybeSingle()
-        .then(({ data: customerData, error: customerError }) => {
-          if (!customerError && customerData?.user_id && user) {
-            // Restore impersonation state
-            dispatch(
-              startImpersonation({
-                userId: customerData.user_id,
-                customerId: urlCustomerId,
-                originalUser: {
-                  id: user.id,
-                  email: user.email || '',
-                  role: user.role || 'user',
-                },
-                previousLocation: null, // Can't restore previous location on refresh
-              })
-            );
+      fetchActiveImpersonationSession(urlCustomerId)
+        .then((session) => {
+          if (!session) {
+            navigate('/dashboard', { replace: true });
+            return;
           }
+
+          dispatch(
+            startImpersonation({
+              userId: session.target_user_id,
+              customerId: urlCustomerId,
+              originalUser: {
+                id: user.id,
+                email: user.email || '',
+                role: user.role || 'user',
+              },
+              previousLocation: null, // Can't restore previous location on refresh
+              sessionId: session.id as string,
+              expiresAt: session.expires_at,
+            })
+          );
+        })
+        .catch((error) => {
+          console.error('[useClientDashboard] Failed to resume impersonation session:', error);
+          navigate('/dashboard', { replace: true });
         });
     }
-  }, [params.customerId, user, isImpersonating, dispatch]);
+  }, [params.customerId, user, isImpersonating, dispatch, navigate]);
 
   // Fetch client data when user is available
   useEffect(() => {
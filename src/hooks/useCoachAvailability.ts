@@ -0,0 +1,229 @@
+/**
+ * useCoachAvailability Hook
+ *
+ * The current coach's booking settings, weekly hours / breaks and holidays,
+ * used by the public booking page (public-booking edge function).
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+import type { AvailabilityRule } from '@/utils/bookingSlots';
+
+export interface CoachBookingSettings {
+  coach_id: string;
+  is_bookable: boolean;
+  booking_slug: string | null;
+  display_name: string | null;
+  meeting_type: string;
+  slot_duration_minutes: number;
+  buffer_minutes: number;
+  min_notice_hours: number;
+  max_days_ahead: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface CoachAvailabilityRule extends AvailabilityRule {
+  id?: string;
+}
+
+export interface CoachAvailabilityException {
+  id: string;
+  coach_id: string;
+  date_from: string;
+  date_to: string;
+  label: string | null;
+  created_at: string;
+}
+
+export const DEFAULT_BOOKING_SETTINGS: Omit<CoachBookingSettings, 'coach_id'> = {
+  is_bookable: false,
+  booking_slug: null,
+  display_name: null,
+  meeting_type: 'פגישת הכרות',
+  slot_duration_minutes: 30,
+  buffer_minutes: 0,
+  min_notice_hours: 12,
+  max_days_ahead: 21,
+};
+
+export const WEEKDAY_LABELS = ['ראשון', 'שני', 'שלישי', 'רביעי', 'חמישי', 'שישי', 'שבת'];
+
+export const BOOKING_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{1,48}[a-z0-9]$/;
+
+export const getBookingPageUrl = (slug: string) => `${window.location.origin}/book/${slug}`;
+
+const isMissingTable = (error: { code?: string; message: string }) =>
+  error.code === '42P01' || error.message.includes('does not exist');
+
+export const useCoachBookingSettings = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['coach-booking-settings', user?.id],
+    queryFn: async (): Promise<CoachBookingSettings | null> => {
+      if (!user?.id) return null;
+
+      const { data, error } = await supabase
+        .from('coach_booking_settings')
+        .select('*')
+        .eq('coach_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        if (isMissingTable(error)) return null;
+        throw error;
+      }
+
+      return data as CoachBookingSettings | null;
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useCoachAvailabilityRules = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['coach-availability-rules', user?.id],
+    queryFn: async (): Promise<CoachAvailabilityRule[]> => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('coach_availability_rules')
+        .select('id, weekday, kind, start_time, end_time')
+        .eq('coach_id', user.id)
+        .order('weekday', { ascending: true })
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        if (isMissingTable(error)) return [];
+        throw error;
+      }
+
+      return (data || []) as CoachAvailabilityRule[];
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useCoachAvailabilityExceptions = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['coach-availability-exceptions', user?.id],
+    queryFn: async (): Promise<CoachAvailabilityException[]> => {
+      if (!user?.id) return [];
+
+      const { data, error } = await supabase
+        .from('coach_availability_exceptions')
+        .select('*')
+        .eq('coach_id', user.id)
+        .gte('date_to', new Date().toISOString().split('T')[0])
+        .order('date_from', { ascending: true });
+
+      if (error) {
+        if (isMissingTable(error)) return [];
+        throw error;
+      }
+
+      return (data || []) as CoachAvailabilityException[];
+    },
+    enabled: !!user?.id,
+  });
+};
+
+/**
+ * Save the booking settings together with the full weekly schedule (replaces all rules)
+ */
+export const useSaveCoachAvailability = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async ({
+      settings,
+      rules,
+    }: {
+      settings: Omit<CoachBookingSettings, 'coach_id' | 'created_at' | 'updated_at'>;
+      rules: CoachAvailabilityRule[];
+    }) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const { error: settingsError } = await supabase
+        .from('coach_booking_settings')
+        .upsert({ ...settings, coach_id: user.id }, { onConflict: 'coach_id' });
+
+      if (settingsError) {
+        if (settingsError.code === '23505') {
+          throw new Error('כתובת הקישור כבר בשימוש, בחר כתובת אחרת');
+        }
+        throw settingsError;
+      }
+
+      const { error: deleteError } = await supabase
+        .from('coach_availability_rules')
+        .delete()
+        .eq('coach_id', user.id);
+
+      if (deleteError) throw deleteError;
+
+      if (rules.length > 0) {
+        const { error: insertError } = await supabase.from('coach_availability_rules').insert(
+          rules.map((rule) => ({
+            coach_id: user.id,
+            weekday: rule.weekday,
+            kind: rule.kind,
+            start_time: rule.start_time,
+            end_time: rule.end_time,
+          }))
+        );
+
+        if (insertError) throw insertError;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coach-booking-settings'] });
+      queryClient.invalidateQueries({ queryKey: ['coach-availability-rules'] });
+    },
+  });
+};
+
+export const useAddCoachAvailabilityException = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async (exception: { date_from: string; date_to: string; label: string | null }) => {
+      if (!user?.id) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('coach_availability_exceptions')
+        .insert({ ...exception, coach_id: user.id });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coach-availability-exceptions'] });
+    },
+  });
+};
+
+export const useDeleteCoachAvailabilityException = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (exceptionId: string) => {
+      const { error } = await supabase
+        .from('coach_availability_exceptions')
+        .delete()
+        .eq('id', exceptionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['coach-availability-exceptions'] });
+    },
+  });
+};
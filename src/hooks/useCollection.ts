@@ -2,11 +2,13 @@
  * useCollection Hook
  * 
  * Fetches a single collection by ID with all related information.
+ * The paid/remaining amounts are reconciled in the database from the linked payments.
  */
 
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabaseClient';
 import type { AllCollectionRecord } from './useAllCollections';
+import { getCollectionDaysOverdue, isCollectionOverdue } from '@/utils/collections';
 
 export const useCollection = (collectionId: string | null) => {
   return useQuery({
@@ -36,19 +38,6 @@ export const useCollection = (collectionId: string | null) => {
 
         if (!data) return null;
 
-        // Get all payments linked to this collection
-        const { data: payments } = await supabase
-          .from('payments')
-          .select('amount, status')
-          .eq('collection_id', collectionId);
-
-        // Calculate paid amount (only from paid payments)
-        const paidAmount = (payments || [])
-          .filter((p: any) => p.status === 'שולם')
-          .reduce((sum: number, p: any) => sum + (Number(p.amount) || 0), 0);
-
-        const remainingAmount = Math.max(0, Number(data.total_amount) - paidAmount);
-
         return {
           id: data.id,
           lead_id: data.lead_id,
@@ -56,14 +45,19 @@ export const useCollection = (collectionId: string | null) => {
           lead_name: data.lead?.customer?.full_name || null,
           customer_name: data.customer?.full_name || data.lead?.customer?.full_name || null,
           total_amount: Number(data.total_amount) || 0,
+          currency: data.currency || 'ILS',
           due_date: data.due_date || null,
           status: data.status || 'ממתין',
           description: data.description || null,
           notes: data.notes || null,
           created_at: data.created_at,
           updated_at: data.updated_at,
-          paid_amount: paidAmount,
-          remaining_amount: remainingAmount,
+          paid_amount: Number(data.paid_amount) || 0,
+          remaining_amount: Number(data.remaining_amount) || 0,
+          refunded_amount: Number(data.refunded_amount) || 0,
+          last_payment_at: data.last_payment_at || null,
+          is_overdue: isCollectionOverdue(data),
+          days_overdue: getCollectionDaysOverdue(data),
         } as AllCollectionRecord;
       } catch (error: any) {
         if (error.code === '42P01' || error.message?.includes('does not exist')) {
@@ -0,0 +1,42 @@
+/**
+ * useCollectionLedger Hook
+ *
+ * Ledger of a collection (גבייה): the amount due, its payments and refunds with the running balance.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { buildCollectionLedger, type LedgerEntry, type LedgerPayment } from '@/utils/collections';
+import type { AllCollectionRecord } from './useAllCollections';
+
+export const useCollectionLedger = (collection: AllCollectionRecord | null | undefined) => {
+  return useQuery({
+    queryKey: ['collection-ledger', collection?.id, collection?.total_amount, collection?.updated_at],
+    queryFn: async (): Promise<LedgerEntry[]> => {
+      if (!collection) return [];
+
+      const { data, error } = await supabase
+        .from('payments')
+        .select('id, product_name, amount, refunded_amount, status, created_at, refunded_at, receipt_url')
+        .eq('collection_id', collection.id)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      const payments = ((data || []) as LedgerPayment[]).map((payment) => ({
+        ...payment,
+        amount: Number(payment.amount) || 0,
+        refunded_amount: Number(payment.refunded_amount) || 0,
+      }));
+
+      return buildCollectionLedger(collection, payments);
+    },
+    enabled: !!collection?.id,
+    retry: false,
+  });
+};
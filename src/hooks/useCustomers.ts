@@ -69,6 +69,42 @@ export interface CustomerWithLeads extends Customer {
   }>;
 }
 
+const customerFieldConfigs: FilterFieldConfigMap = {
+  created_at: { column: 'created_at', type: 'date' },
+  full_name: { column: 'full_name', type: 'text' },
+  phone: { column: 'phone', type: 'text' },
+  email: { column: 'email', type: 'text' },
+  total_leads: { column: 'total_leads', type: 'number' },
+  total_spent: { column: 'total_spent', type: 'number' },
+  membership_tier: { column: 'membership_tier', type: 'select' },
+};
+
+const customerSearchColumns = ['full_name', 'phone', 'email'];
+
+/**
+ * Fetch the ids of all customers matching the search and filters (no pagination)
+ * Used for bulk actions on "select all across pages"
+ */
+export async function fetchCustomerIdsByFilter(filters: {
+  searchQuery?: string;
+  filterGroup?: FilterGroup | null;
+}): Promise<string[]> {
+  const searchGroup = filters.searchQuery ? createSearchGroup(filters.searchQuery, customerSearchColumns) : null;
+  const combinedGroup = mergeFilterGroups(filters.filterGroup || null, searchGroup);
+
+  let query = supabase
+    .from('customers_with_lead_counts')
+    .select('id');
+
+  if (combinedGroup) {
+    query = applyFilterGroupToQuery(query, combinedGroup, customerFieldConfigs);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map((row: { id: string }) => row.id);
+}
+
 // Fetch all customers with lead counts (with pagination)
 export const useCustomers = (filters?: { 
   search?: string; 
@@ -92,17 +128,9 @@ export const useCustomers = (filters?: {
       }
 
       try {
-        const fieldConfigs: FilterFieldConfigMap = {
-          created_at: { column: 'created_at', type: 'date' },
-          full_name: { column: 'full_name', type: 'text' },
-          phone: { column: 'phone', type: 'text' },
-          email: { column: 'email', type: 'text' },
-          total_leads: { column: 'total_leads', type: 'number' },
-          total_spent: { column: 'total_spent', type: 'number' },
-          membership_tier: { column: 'membership_tier', type: 'select' },
-        };
+        const fieldConfigs = customerFieldConfigs;
 
-        const searchGroup = filters?.search ? createSearchGroup(filters.search, ['full_name', 'phone', 'email']) : null;
+        const searchGroup = filters?.search ? createSearchGroup(filters.search, customerSearchColumns) : null;
         const combinedGroup = mergeFilterGroups(filters?.filterGroup || null, searchGroup);
 
         // Get total count first (for pagination)
@@ -40,7 +40,7 @@ import {
 } from '@/store/slices/tableStateSlice';
 import { useEntityQuery } from '@/hooks/useEntityQuery';
 
-export const useDashboardLogic = (options?: { filterGroup?: FilterGroup | null }) => {
+export const useDashboardLogic = (options?: { filterGroup?: FilterGroup | null; assignedTo?: string | null }) => {
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
@@ -189,6 +189,7 @@ export const useDashboardLogic = (options?: { filterGroup?: FilterGroup | null }
         offset: (currentPage - 1) * pageSize,
         sortBy: sortField || 'created_at',
         sortOrder: sortOrder || 'DESC',
+        assignedTo: options?.assignedTo || null,
       };
 
       // Fetch leads with budget data
@@ -197,6 +198,7 @@ export const useDashboardLogic = (options?: { filterGroup?: FilterGroup | null }
         getFilteredLeadsCount({
           searchQuery: debouncedSearchQuery || null,
           filterGroup: filterGroup,
+          assignedTo: options?.assignedTo || null,
         }),
       ]);
 
@@ -207,7 +209,7 @@ export const useDashboardLogic = (options?: { filterGroup?: FilterGroup | null }
     } finally {
       setIsQueryLoading(false);
     }
-  }, [currentPage, pageSize, sortBy, sortOrder, debouncedSearchQuery, activeFilters]);
+  }, [currentPage, pageSize, sortBy, sortOrder, debouncedSearchQuery, activeFilters, options?.filterGroup, options?.assignedTo]);
 
   // Trigger fetch when params change
   useEffect(() => {
@@ -226,7 +228,8 @@ export const useDashboardLogic = (options?: { filterGroup?: FilterGroup | null }
       return;
     }
 
-    if (queryData && queryData.length > 0) {
+    // Also when empty, so e.g. a coach without trainees sees the empty state
+    if (queryData) {
       // Adapt Data - queryData from fetchFilteredLeads already has budget_assignments nested
       const adaptedLeads: Lead[] = queryData.map((row: any) => {
         // mapLeadToUIFormat already handles budget_assignments from the nested query
@@ -0,0 +1,105 @@
+/**
+ * useEntityHistory Hook
+ *
+ * Change history from entity_audit_log: of a single row (a payment, a collection), or of
+ * everything tied to a trainee (lead, customer, payments, collections, meetings, notes).
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  PROFILE_REFERENCE_FIELDS,
+  type EntityHistoryAction,
+  type EntityHistoryTable,
+} from '@/utils/entityHistory';
+
+export interface EntityHistoryItem {
+  id: string;
+  table_name: EntityHistoryTable;
+  record_id: string;
+  action: EntityHistoryAction;
+  changed_fields: string[];
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  customer_id: string | null;
+  lead_id: string | null;
+  changed_by: string | null;
+  changed_at: string;
+  changer_name: string;
+}
+
+export type EntityHistoryScope =
+  | { tableName: EntityHistoryTable; recordId: string }
+  | { customerId: string };
+
+interface EntityHistoryRow extends Omit<EntityHistoryItem, 'changer_name'> {
+  changer: { full_name: string | null; email: string | null } | null;
+}
+
+const HISTORY_LIMIT = 200;
+
+export const useEntityHistory = (scope: EntityHistoryScope | null) => {
+  return useQuery({
+    queryKey: ['entity-history', scope],
+    queryFn: async () => {
+      if (!scope) return { items: [] as EntityHistoryItem[], profileNames: {} };
+
+      let query = supabase
+        .from('entity_audit_log')
+        .select(`
+          *,
+          changer:changed_by (
+            full_name,
+            email
+          )
+        `);
+
+      query = 'customerId' in scope
+        ? query.eq('customer_id', scope.customerId)
+        : query.eq('table_name', scope.tableName).eq('record_id', scope.recordId);
+
+      const { data, error } = await query
+        .order('changed_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) {
+        // History is empty until the audit migration is applied
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return { items: [] as EntityHistoryItem[], profileNames: {} };
+        }
+        throw error;
+      }
+
+      const items = ((data || []) as EntityHistoryRow[]).map(({ changer, ...item }) => ({
+        ...item,
+        changer_name: changer?.full_name || changer?.email || 'מערכת',
+      })) as EntityHistoryItem[];
+
+      // Resolve staff ids (coach, meeting owner) to names for the diff
+      const profileIds = new Set<string>();
+      items.forEach((item) => {
+        PROFILE_REFERENCE_FIELDS.forEach((field) => {
+          [item.old_values?.[field], item.new_values?.[field]].forEach((value) => {
+            if (typeof value === 'string') profileIds.add(value);
+          });
+        });
+      });
+
+      const profileNames: Record<string, string> = {};
+      if (profileIds.size > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, full_name, email')
+          .in('id', Array.from(profileIds));
+
+        (profiles || []).forEach((profile: { id: string; full_name: string | null; email: string | null }) => {
+          profileNames[profile.id] = profile.full_name || profile.email || '';
+        });
+      }
+
+      return { items, profileNames };
+    },
+    enabled: !!scope,
+    refetchOnMount: true,
+  });
+};
@@ -0,0 +1,76 @@
+/**
+ * useExchangeRates Hook
+ *
+ * Manually maintained, date-stamped exchange rates to ILS (exchange_rates), used to convert
+ * reports into a reporting currency.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+import type { ExchangeRate } from '@/utils/currency';
+
+export const fetchExchangeRates = async (): Promise<ExchangeRate[]> => {
+  const { data, error } = await supabase
+    .from('exchange_rates')
+    .select('id, currency, rate, rate_date, notes, created_at')
+    .order('rate_date', { ascending: false })
+    .order('currency', { ascending: true });
+
+  if (error) {
+    if (error.code === '42P01' || error.message.includes('does not exist')) {
+      return [];
+    }
+    throw error;
+  }
+
+  return (data || []).map((rate) => ({ ...rate, rate: Number(rate.rate) })) as ExchangeRate[];
+};
+
+export const useExchangeRates = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['exchange-rates'],
+    queryFn: fetchExchangeRates,
+    enabled: !!user?.id,
+  });
+};
+
+// A rate for the same currency and date replaces the existing one
+export const useSaveExchangeRate = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async (params: Pick<ExchangeRate, 'currency' | 'rate' | 'rate_date' | 'notes'>) => {
+      const { data, error } = await supabase
+        .from('exchange_rates')
+        .upsert({ ...params, created_by: user?.id || null }, { onConflict: 'currency,rate_date' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ExchangeRate;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+    },
+  });
+};
+
+export const useDeleteExchangeRate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (rateId: string) => {
+      const { error } = await supabase.from('exchange_rates').delete().eq('id', rateId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['exchange-rates'] });
+      queryClient.invalidateQueries({ queryKey: ['analytics'] });
+    },
+  });
+};
@@ -0,0 +1,305 @@
+/**
+ * useFinanceExport Hook
+ *
+ * Exports payments and collections for the bookkeeper as CSV or XLSX, with the same filters and
+ * search as the table (all matching rows, not only the current page). Both formats include a monthly
+ * summary grouped by product and status (a second sheet in XLSX, a second file in CSV).
+ */
+
+import { useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/lib/supabaseClient';
+import type { FilterGroup } from '@/components/dashboard/TableFilter';
+import { applyFilterGroupToQuery } from '@/utils/postgrestFilterUtils';
+import { buildPaymentsFilterGroup, PAYMENT_FILTER_FIELDS } from '@/hooks/useAllPayments';
+import { buildCollectionsFilterGroup, COLLECTION_FILTER_FIELDS } from '@/hooks/useAllCollections';
+import { downloadSpreadsheet, type ExportFormat, type SpreadsheetSheet } from '@/utils/spreadsheetExport';
+
+export interface FinanceExportResult {
+  count: number;
+  isTruncated: boolean; // More rows matched than MAX_EXPORT_ROWS
+}
+
+export interface FinanceExportParams {
+  search?: string;
+  filterGroup?: FilterGroup | null;
+  format: ExportFormat;
+}
+
+interface PaymentExportRecord {
+  id: string;
+  created_at: string;
+  product_name: string | null;
+  amount: number | string;
+  currency: string | null;
+  status: string;
+  refunded_amount?: number | string | null;
+  stripe_payment_id: string | null;
+  transaction_id: string | null;
+  lead_id: string | null;
+  collection_id?: string | null;
+  customer: { full_name: string | null } | null;
+  lead: { id: string; customer: { full_name: string | null } | null } | null;
+  collection: { id: string; description: string | null } | null;
+}
+
+interface CollectionExportRecord {
+  id: string;
+  created_at: string;
+  lead_id: string | null;
+  lead_name: string | null;
+  customer_name: string | null;
+  description: string | null;
+  total_amount: number | string;
+  currency?: string | null;
+  paid_amount: number | string | null;
+  remaining_amount: number | string | null;
+  refunded_amount?: number | string | null;
+  status: string;
+  due_date: string | null;
+  is_overdue?: boolean | null;
+  days_overdue?: number | null;
+  last_payment_at?: string | null;
+}
+
+const BATCH_SIZE = 1000;
+export const MAX_EXPORT_ROWS = 50000;
+
+const formatDate = (value: string | null | undefined, pattern = 'dd/MM/yyyy') =>
+  value ? format(new Date(value), pattern) : '';
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Fetch every row matching the query, BATCH_SIZE rows at a time (PostgREST caps a single response),
+ * up to MAX_EXPORT_ROWS
+ */
+const fetchAllRows = async <T>(
+  fetchRange: (from: number, to: number) => PromiseLike<{ data: unknown; error: unknown }>
+): Promise<{ rows: T[]; isTruncated: boolean }> => {
+  const rows: T[] = [];
+
+  for (let from = 0; from < MAX_EXPORT_ROWS; from += BATCH_SIZE) {
+    const { data, error } = await fetchRange(from, from + BATCH_SIZE - 1);
+    if (error) throw error;
+
+    const batch = (data || []) as T[];
+    rows.push(...batch);
+    if (batch.length < BATCH_SIZE) return { rows, isTruncated: false };
+  }
+
+  // Reached the cap - check whether anything was left out
+  const { data, error } = await fetchRange(MAX_EXPORT_ROWS, MAX_EXPORT_ROWS);
+  if (error) throw error;
+
+  return { rows, isTruncated: ((data || []) as T[]).length > 0 };
+};
+
+/**
+ * Group rows by the key and sum their amounts, sorted by key
+ */
+const summarize = <T>(
+  rows: T[],
+  getKey: (row: T) => string[],
+  getAmounts: (row: T) => number[]
+): { key: string[]; count: number; amounts: number[] }[] => {
+  const groups = new Map<string, { key: string[]; count: number; amounts: number[] }>();
+
+  rows.forEach((row) => {
+    const key = getKey(row);
+    const amounts = getAmounts(row);
+    const id = key.join('\u0000');
+    const group = groups.get(id) || { key, count: 0, amounts: amounts.map(() => 0) };
+    group.count += 1;
+    group.amounts = group.amounts.map((sum, index) => sum + amounts[index]);
+    groups.set(id, group);
+  });
+
+  return [...groups.values()]
+    .map((group) => ({ ...group, amounts: group.amounts.map(roundAmount) }))
+    .sort((a, b) => a.key.join('\u0000').localeCompare(b.key.join('\u0000'), 'he'));
+};
+
+const exportFileName = (prefix: string) => `${prefix}-${format(new Date(), 'yyyy-MM-dd')}`;
+
+const buildPaymentSheets = (records: PaymentExportRecord[]): SpreadsheetSheet[] => {
+  const payments: SpreadsheetSheet = {
+    name: 'תשלומים',
+    columns: [
+      'תאריך',
+      'לקוח',
+      'ליד',
+      'מוצר',
+      'סכום',
+      'מטבע',
+      'סטטוס',
+      'סכום שהוחזר',
+      'גבייה',
+      'מזהה גבייה',
+      'Stripe Payment ID',
+      'מזהה עסקה',
+      'מזהה תשלום',
+    ],
+    rows: records.map((record) => [
+      formatDate(record.created_at, 'dd/MM/yyyy HH:mm'),
+      record.customer?.full_name || '',
+      record.lead?.customer?.full_name || record.lead_id || '',
+      record.product_name || '',
+      Number(record.amount) || 0,
+      record.currency || 'ILS',
+      record.status,
+      Number(record.refunded_amount) || 0,
+      record.collection?.description || '',
+      record.collection_id || '',
+      record.stripe_payment_id || '',
+      record.transaction_id || '',
+      record.id,
+    ]),
+  };
+
+  const summary: SpreadsheetSheet = {
+    name: 'סיכום חודשי',
+    columns: ['חודש', 'מוצר', 'סטטוס', 'מטבע', 'מספר תשלומים', 'סכום', 'סכום שהוחזר', 'נטו'],
+    rows: summarize(
+      records,
+      (record) => [
+        formatDate(record.created_at, 'yyyy-MM'),
+        record.product_name || 'ללא שם מוצר',
+        record.status,
+        record.currency || 'ILS',
+      ],
+      (record) => [Number(record.amount) || 0, Number(record.refunded_amount) || 0]
+    ).map(({ key, count, amounts: [amount, refunded] }) => [
+      ...key,
+      count,
+      amount,
+      refunded,
+      roundAmount(amount - refunded),
+    ]),
+  };
+
+  return [payments, summary];
+};
+
+const buildCollectionSheets = (records: CollectionExportRecord[]): SpreadsheetSheet[] => {
+  const collections: SpreadsheetSheet = {
+    name: 'גביות',
+    columns: [
+      'תאריך יצירה',
+      'לקוח',
+      'ליד',
+      'תיאור',
+      'סכום כולל',
+      'שולם',
+      'נותר',
+      'הוחזר',
+      'מטבע',
+      'סטטוס',
+      'תאריך יעד',
+      'ימי איחור',
+      'תשלום אחרון',
+      'מזהה גבייה',
+    ],
+    rows: records.map((record) => [
+      formatDate(record.created_at),
+      record.customer_name || '',
+      record.lead_name || record.lead_id || '',
+      record.description || '',
+      Number(record.total_amount) || 0,
+      Number(record.paid_amount) || 0,
+      Number(record.remaining_amount) || 0,
+      Number(record.refunded_amount) || 0,
+      record.currency || 'ILS',
+      record.status,
+      formatDate(record.due_date),
+      record.is_overdue ? Number(record.days_overdue) || 0 : '',
+      formatDate(record.last_payment_at),
+      record.id,
+    ]),
+  };
+
+  // Collections have no product; the description is what was sold
+  const summary: SpreadsheetSheet = {
+    name: 'סיכום חודשי',
+    columns: ['חודש', 'תיאור', 'סטטוס', 'מטבע', 'מספר גביות', 'סכום כולל', 'שולם', 'נותר'],
+    rows: summarize(
+      records,
+      (record) => [
+        formatDate(record.created_at, 'yyyy-MM'),
+        record.description || 'ללא תיאור',
+        record.status,
+        record.currency || 'ILS',
+      ],
+      (record) => [
+        Number(record.total_amount) || 0,
+        Number(record.paid_amount) || 0,
+        Number(record.remaining_amount) || 0,
+      ]
+    ).map(({ key, count, amounts }) => [...key, count, ...amounts]),
+  };
+
+  return [collections, summary];
+};
+
+export const useExportPayments = () => {
+  return useMutation({
+    mutationFn: async ({ search, filterGroup, format: exportFormat }: FinanceExportParams): Promise<FinanceExportResult> => {
+      const combinedGroup = buildPaymentsFilterGroup(search, filterGroup);
+
+      const { rows: records, isTruncated } = await fetchAllRows<PaymentExportRecord>((from, to) => {
+        let query = supabase
+          .from('payments')
+          .select(
+            `
+            *,
+            customer:customers(full_name),
+            lead:leads(id, customer:customers(full_name)),
+            collection:collections(id, description)
+          `
+          )
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true });
+
+        if (combinedGroup) {
+          query = applyFilterGroupToQuery(query, combinedGroup, PAYMENT_FILTER_FIELDS);
+        }
+        return query.range(from, to);
+      });
+
+      if (records.length === 0) {
+        throw new Error('אין תשלומים לייצוא');
+      }
+
+      downloadSpreadsheet(buildPaymentSheets(records), exportFormat, exportFileName('payments'));
+      return { count: records.length, isTruncated };
+    },
+  });
+};
+
+export const useExportCollections = () => {
+  return useMutation({
+    mutationFn: async ({ search, filterGroup, format: exportFormat }: FinanceExportParams): Promise<FinanceExportResult> => {
+      const combinedGroup = buildCollectionsFilterGroup(search, filterGroup);
+
+      const { rows: records, isTruncated } = await fetchAllRows<CollectionExportRecord>((from, to) => {
+        let query = supabase
+          .from('collections_with_payments')
+          .select('*')
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true });
+
+        if (combinedGroup) {
+          query = applyFilterGroupToQuery(query, combinedGroup, COLLECTION_FILTER_FIELDS);
+        }
+        return query.range(from, to);
+      });
+
+      if (records.length === 0) {
+        throw new Error('אין גביות לייצוא');
+      }
+
+      downloadSpreadsheet(buildCollectionSheets(records), exportFormat, exportFileName('collections'));
+      return { count: records.length, isTruncated };
+    },
+  });
+};
@@ -0,0 +1,193 @@
+/**
+ * useImpersonationSession Hook
+ *
+ * Server-side sessions behind "View as Client" (impersonation_sessions): starting one with a
+ * reason and a time limit, ending it, ending it automatically when it expires, and logging
+ * every trainee screen viewed to impersonation_audit_log.
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { startImpersonation, stopImpersonation } from '@/store/slices/impersonationSlice';
+import { useToast } from '@/hooks/use-toast';
+
+export interface ImpersonationSession {
+  id: string | null; // null when the RPC found no session
+  actor_id: string;
+  target_user_id: string;
+  target_customer_id: string;
+  reason: string;
+  started_at: string;
+  expires_at: string;
+  ended_at: string | null;
+}
+
+export const IMPERSONATION_DURATION_OPTIONS = [15, 30, 60];
+export const DEFAULT_IMPERSONATION_DURATION = 30;
+
+// Client dashboard tabs that show the trainee's health data
+const HEALTH_DATA_SECTIONS = ['checkin', 'summaries', 'progress', 'bloodtests'];
+
+/**
+ * Starts a session and enters "View as Client" for the trainee
+ */
+export const useStartImpersonation = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useCallback(
+    async ({
+      customerId,
+      reason,
+      durationMinutes = DEFAULT_IMPERSONATION_DURATION,
+      customerName,
+    }: {
+      customerId: string;
+      reason: string;
+      durationMinutes?: number;
+      customerName?: string | null;
+    }) => {
+      if (!user) return;
+
+      const { data, error } = await supabase.rpc('start_impersonation_session', {
+        p_customer_id: customerId,
+        p_reason: reason,
+        p_duration_minutes: durationMinutes,
+        p_user_agent: navigator.userAgent,
+      });
+
+      if (error) throw error;
+      const session = data as ImpersonationSession;
+
+      dispatch(
+        startImpersonation({
+          userId: session.target_user_id,
+          customerId,
+          originalUser: {
+            id: user.id,
+            email: user.email || '',
+            role: user.role || 'user',
+          },
+          previousLocation: location.pathname + location.search,
+          sessionId: session.id as string,
+          expiresAt: session.expires_at,
+        })
+      );
+
+      // customerId in the URL lets a refresh resume the session
+      navigate(`/client/dashboard/${customerId}`);
+
+      toast({
+        title: 'מצב תצוגה פעיל',
+        description: customerName
+          ? `אתה צופה במערכת בעיניו של ${customerName} ל-${durationMinutes} דקות`
+          : `אתה צופה בממשק הלקוח ל-${durationMinutes} דקות. לחץ על "יציאה ממצב תצוגה" כדי לחזור.`,
+      });
+    },
+    [dispatch, navigate, location.pathname, location.search, toast, user]
+  );
+};
+
+/**
+ * Ends the session and leaves "View as Client"
+ */
+export const useStopImpersonation = () => {
+  const dispatch = useAppDispatch();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { sessionId, previousLocation } = useAppSelector((state) => state.impersonation);
+
+  return useCallback(
+    (endReason: 'manual' | 'expired' = 'manual') => {
+      if (sessionId) {
+        supabase
+          .rpc('end_impersonation_session', { p_session_id: sessionId, p_end_reason: endReason })
+          .then(({ error }) => {
+            if (error) console.error('[impersonation] Failed to end session:', error.message);
+          });
+      }
+
+      dispatch(stopImpersonation());
+      // Navigate back to previous location or default to dashboard
+      navigate(previousLocation || '/dashboard');
+
+      toast(
+        endReason === 'expired'
+          ? {
+              title: 'מצב התצוגה הסתיים',
+              description: 'הזמן שהוקצב לצפייה כמתאמן הסתיים. חזרת למצב מנהל',
+            }
+          : {
+              title: 'יציאה ממצב תצוגה',
+              description: 'חזרת למצב מנהל',
+            }
+      );
+    },
+    [dispatch, navigate, previousLocation, sessionId, toast]
+  );
+};
+
+/**
+ * Leaves "View as Client" when the session expires. Mounted once for the whole app.
+ */
+export const useImpersonationExpiry = () => {
+  const { isImpersonating, expiresAt } = useAppSelector((state) => state.impersonation);
+  const stopImpersonationSession = useStopImpersonation();
+
+  useEffect(() => {
+    if (!isImpersonating || !expiresAt) return;
+
+    const timeoutId = setTimeout(
+      () => stopImpersonationSession('expired'),
+      Math.max(new Date(expiresAt).getTime() - Date.now(), 0)
+    );
+    return () => clearTimeout(timeoutId);
+  }, [isImpersonating, expiresAt, stopImpersonationSession]);
+};
+
+/**
+ * Logs a trainee screen viewed during the session; leaves "View as Client" if the
+ * server says the session is over
+ */
+export const useLogImpersonationView = (section: string) => {
+  const { isImpersonating, sessionId } = useAppSelector((state) => state.impersonation);
+  const stopImpersonationSession = useStopImpersonation();
+
+  useEffect(() => {
+    if (!isImpersonating || !sessionId) return;
+
+    supabase
+      .rpc('log_impersonation_view', {
+        p_session_id: sessionId,
+        p_section: section,
+        p_health_data: HEALTH_DATA_SECTIONS.includes(section),
+      })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('[impersonation] Failed to log view:', error.message);
+          return;
+        }
+        if (data === false) {
+          stopImpersonationSession('expired');
+        }
+      });
+    // Only log when the session or the section changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isImpersonating, sessionId, section]);
+};
+
+/**
+ * The caller's active session for a trainee, to resume "View as Client" after a refresh
+ */
+export const fetchActiveImpersonationSession = async (customerId: string): Promise<ImpersonationSession | null> => {
+  const { data, error } = await supabase.rpc('get_active_impersonation_session', { p_customer_id: customerId });
+
+  if (error) throw error;
+  const session = data as ImpersonationSession | null;
+  return session?.id ? session : null;
+};
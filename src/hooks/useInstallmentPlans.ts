@@ -0,0 +1,187 @@
+/**
+ * useInstallmentPlans Hook
+ *
+ * Installment plans (תשלומים) of a lead: the subscription total split into payments,
+ * each with its own collection. Stripe plans are billed by a Stripe subscription.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import {
+  cancelStripeInstallmentSubscription,
+  createStripeInstallmentSubscription,
+} from '@/services/stripeServiceEdge';
+import type { InstallmentIntervalUnit, InstallmentScheduleItem } from '@/utils/installments';
+import type { Currency } from '@/store/slices/subscriptionTypesSlice';
+
+export type InstallmentStatus = 'ממתין' | 'שולם' | 'נכשל' | 'בוטל';
+export type InstallmentPlanStatus = 'פעיל' | 'הושלם' | 'בוטל';
+export type InstallmentBillingMethod = 'manual' | 'stripe';
+
+export interface PaymentInstallment {
+  id: string;
+  plan_id: string;
+  collection_id: string | null;
+  installment_number: number;
+  amount: number;
+  due_date: string;
+  status: InstallmentStatus;
+  payment_id: string | null;
+  stripe_invoice_id: string | null;
+  paid_at: string | null;
+  failed_at: string | null;
+  failure_reason: string | null;
+  attempt_count: number;
+}
+
+export interface InstallmentPlan {
+  id: string;
+  lead_id: string;
+  customer_id: string | null;
+  subscription_name: string;
+  total_amount: number;
+  currency: Currency;
+  installments_count: number;
+  interval_unit: InstallmentIntervalUnit;
+  start_date: string;
+  billing_method: InstallmentBillingMethod;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  status: InstallmentPlanStatus;
+  created_at: string;
+  installments: PaymentInstallment[];
+}
+
+const invalidateBillingQueries = (queryClient: ReturnType<typeof useQueryClient>) => {
+  queryClient.invalidateQueries({ queryKey: ['installment-plans'] });
+  queryClient.invalidateQueries({ queryKey: ['collections-by-lead'] });
+  queryClient.invalidateQueries({ queryKey: ['all-collections'] });
+};
+
+export const useInstallmentPlansByLead = (leadId: string | null) => {
+  return useQuery({
+    queryKey: ['installment-plans', leadId],
+    queryFn: async (): Promise<InstallmentPlan[]> => {
+      if (!leadId) return [];
+
+      const { data, error } = await supabase
+        .from('installment_plans')
+        .select('*, installments:payment_installments(*)')
+        .eq('lead_id', leadId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      return ((data || []) as InstallmentPlan[]).map((plan) => ({
+        ...plan,
+        total_amount: Number(plan.total_amount) || 0,
+        installments: [...(plan.installments || [])]
+          .map((installment) => ({ ...installment, amount: Number(installment.amount) || 0 }))
+          .sort((a, b) => a.installment_number - b.installment_number),
+      }));
+    },
+    enabled: !!leadId,
+    retry: false,
+  });
+};
+
+export const useCreateInstallmentPlan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      leadId,
+      subscriptionName,
+      totalAmount,
+      currency,
+      intervalUnit,
+      billingMethod,
+      schedule,
+    }: {
+      leadId: string;
+      subscriptionName: string;
+      totalAmount: number;
+      currency: Currency;
+      intervalUnit: InstallmentIntervalUnit;
+      billingMethod: InstallmentBillingMethod;
+      schedule: InstallmentScheduleItem[];
+    }) => {
+      const { data: planId, error } = await supabase.rpc('create_installment_plan', {
+        p_lead_id: leadId,
+        p_subscription_name: subscriptionName,
+        p_total_amount: totalAmount,
+        p_currency: currency,
+        p_interval_unit: intervalUnit,
+        p_billing_method: billingMethod,
+        p_installments: schedule.map(({ amount, due_date }) => ({ amount, due_date })),
+      });
+
+      if (error) throw error;
+
+      // The schedule is saved either way; a Stripe failure leaves the plan to be billed manually
+      let stripeError: string | null = null;
+      if (billingMethod === 'stripe') {
+        const result = await createStripeInstallmentSubscription(planId as string);
+        if (!result.success) {
+          stripeError = result.error || 'Failed to create Stripe subscription';
+          await supabase.from('installment_plans').update({ billing_method: 'manual' }).eq('id', planId);
+        }
+      }
+
+      return { planId: planId as string, stripeError };
+    },
+    onSuccess: () => invalidateBillingQueries(queryClient),
+  });
+};
+
+// Cancel a plan: stops the Stripe subscription and cancels the unpaid installments and their collections
+export const useCancelInstallmentPlan = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (plan: InstallmentPlan) => {
+      if (plan.stripe_subscription_id) {
+        const result = await cancelStripeInstallmentSubscription(plan.id);
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to cancel Stripe subscription');
+        }
+      }
+
+      const openInstallments = plan.installments.filter((installment) =>
+        ['ממתין', 'נכשל'].includes(installment.status)
+      );
+
+      if (openInstallments.length > 0) {
+        const { error: installmentsError } = await supabase
+          .from('payment_installments')
+          .update({ status: 'בוטל' })
+          .in('id', openInstallments.map((installment) => installment.id));
+        if (installmentsError) throw installmentsError;
+
+        const collectionIds = openInstallments
+          .map((installment) => installment.collection_id)
+          .filter((id): id is string => !!id);
+        if (collectionIds.length > 0) {
+          const { error: collectionsError } = await supabase
+            .from('collections')
+            .update({ status: 'בוטל' })
+            .in('id', collectionIds);
+          if (collectionsError) throw collectionsError;
+        }
+      }
+
+      const { error } = await supabase
+        .from('installment_plans')
+        .update({ status: 'בוטל' })
+        .eq('id', plan.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => invalidateBillingQueries(queryClient),
+  });
+};
@@ -0,0 +1,107 @@
+/**
+ * useLeadAssignment Hook
+ *
+ * Coach assignment of leads (leads.assigned_to): the assignment settings
+ * (lead_assignment_settings - manual or round-robin, applied by a DB trigger on new leads)
+ * and the "my trainees" scope of the leads table.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+
+export type LeadAssignmentMode = 'manual' | 'round_robin';
+
+export interface LeadAssignmentSettings {
+  id: string;
+  mode: LeadAssignmentMode;
+  coach_ids: string[];
+  last_assigned_to: string | null;
+  updated_at: string;
+}
+
+// 'mine' = leads assigned to the logged-in coach, 'all' = every lead
+export type LeadAssigneeScope = 'mine' | 'all';
+
+const ASSIGNEE_SCOPE_STORAGE_KEY = 'leadsAssigneeScope';
+
+export const useLeadAssignmentSettings = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['lead-assignment-settings'],
+    queryFn: async (): Promise<LeadAssignmentSettings | null> => {
+      const { data, error } = await supabase
+        .from('lead_assignment_settings')
+        .select('id, mode, coach_ids, last_assigned_to, updated_at')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return null;
+        }
+        throw error;
+      }
+
+      return data as LeadAssignmentSettings | null;
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useUpdateLeadAssignmentSettings = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async (params: { id: string; mode: LeadAssignmentMode; coach_ids: string[] }) => {
+      const { id, ...updates } = params;
+      const { data, error } = await supabase
+        .from('lead_assignment_settings')
+        .update({ ...updates, updated_by: user?.id || null })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as LeadAssignmentSettings;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lead-assignment-settings'] });
+    },
+  });
+};
+
+/**
+ * Which leads the leads table shows. Coaches start with their own trainees, admins with
+ * all leads; the choice is remembered per user in this browser.
+ */
+export const useLeadAssigneeScope = () => {
+  const { user } = useAppSelector((state) => state.auth);
+  const storageKey = `${ASSIGNEE_SCOPE_STORAGE_KEY}:${user?.id || ''}`;
+  const defaultScope: LeadAssigneeScope = user?.role === 'admin' ? 'all' : 'mine';
+
+  const [savedScope, setSavedScope] = useState(() => localStorage.getItem(storageKey));
+
+  // Re-read when the logged-in user changes
+  useEffect(() => {
+    setSavedScope(localStorage.getItem(storageKey));
+  }, [storageKey]);
+
+  const scope: LeadAssigneeScope = savedScope === 'mine' || savedScope === 'all' ? savedScope : defaultScope;
+
+  const setScope = useCallback((nextScope: LeadAssigneeScope) => {
+    localStorage.setItem(storageKey, nextScope);
+    setSavedScope(nextScope);
+  }, [storageKey]);
+
+  return {
+    scope,
+    setScope,
+    // Pass to the lead queries: only the coach's leads in 'mine' scope
+    assignedTo: scope === 'mine' && user?.id ? user.id : null,
+  };
+};
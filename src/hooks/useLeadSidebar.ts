@@ -39,6 +39,10 @@ export const useLeadSidebar = () => {
     dispatch(toggleLeftSidebar('history'));
   }, [dispatch]);
 
+  const toggleWhatsApp = useCallback(() => {
+    dispatch(toggleLeftSidebar('whatsapp'));
+  }, [dispatch]);
+
   const toggleNotes = useCallback(() => {
     dispatch(toggleNotesAction());
   }, [dispatch]);
@@ -51,12 +55,17 @@ export const useLeadSidebar = () => {
     dispatch(setLeftSidebar('none'));
   }, [dispatch]);
 
+  const closeWhatsApp = useCallback(() => {
+    dispatch(setLeftSidebar('none'));
+  }, [dispatch]);
+
   const closeNotes = useCallback(() => {
     dispatch(setNotesOpen(false));
   }, [dispatch]);
 
   const isHistoryOpen = leftSidebar === 'history';
   const isSubmissionOpen = leftSidebar === 'submission';
+  const isWhatsAppOpen = leftSidebar === 'whatsapp';
   const isNotesOpen = notesOpen;
   const isAnyOpen = leftSidebar !== 'none' || notesOpen;
 
@@ -66,14 +75,17 @@ export const useLeadSidebar = () => {
     notesOpen,
     isHistoryOpen,
     isSubmissionOpen,
+    isWhatsAppOpen,
     isNotesOpen,
     isAnyOpen,
     openHistory,
     openNotes,
     toggleHistory,
+    toggleWhatsApp,
     toggleNotes,
     close,
     closeHistory,
+    closeWhatsApp,
     closeNotes,
   };
 };
@@ -1,8 +1,8 @@
 import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
 import { useEffect } from 'react';
 import { supabase } from '@/lib/supabaseClient';
-import type { FilterGroup, ActiveFilter } from '@/components/dashboard/TableFilter';
-import { applyFilterGroupToQuery, type FilterFieldConfigMap, type FilterDnf } from '@/utils/postgrestFilterUtils';
+import type { FilterGroup } from '@/components/dashboard/TableFilter';
+import { applyFilterGroupToQuery, type FilterFieldConfigMap } from '@/utils/postgrestFilterUtils';
 import { createSearchGroup, mergeFilterGroups } from '@/utils/filterGroupUtils';
 import { applySort } from '@/utils/supabaseSort';
 
@@ -11,7 +11,20 @@ export interface Meeting {
   lead_id: string | null;
   customer_id: string | null;
   fillout_submission_id: string | null;
-  meeting_data: Record<string, any>; // JSONB data from Fillout
+  meeting_data: Record<string, any>; // Raw JSONB payload from Fillout (notes and form answers)
+  start_time: string | null;
+  end_time: string | null;
+  meeting_date: string | null; // Local date of start_time, or a date-only meeting
+  meeting_type: string | null;
+  status: string | null;
+  location: string | null;
+  video_link: string | null;
+  owner_id: string | null; // Coach running the meeting
+  attendance_status: 'attended' | 'no_show' | 'rescheduled' | 'cancelled' | null; // NULL until recorded
+  attendance_updated_at: string | null;
+  attendance_updated_by: string | null;
+  reminder_24h_sent_at: string | null;
+  reminder_1h_sent_at: string | null;
   created_at: string;
   updated_at: string;
   created_by: string | null;
@@ -32,39 +45,38 @@ export interface Meeting {
     phone: string;
     email: string | null;
   } | null;
+  owner?: {
+    id: string;
+    full_name: string | null;
+    email: string;
+  } | null;
 }
 
-// Fetch all meetings with joined lead and customer data
-const buildDateDnf = (filter: ActiveFilter, column: string, negate: boolean): FilterDnf => {
-  const value = filter.values[0];
-
-  if (filter.operator === 'equals') {
-    return [[{ column, operator: 'eq', value, negate }]];
-  }
-  if (filter.operator === 'before') {
-    return [[{ column, operator: 'lt', value, negate }]];
-  }
-  if (filter.operator === 'after') {
-    return [[{ column, operator: 'gt', value, negate }]];
-  }
-  if (filter.operator === 'between') {
-    const start = filter.values[0];
-    const end = filter.values[1];
-    if (!start || !end) return [];
-    if (!negate) {
-      return [[
-        { column, operator: 'gte', value: start },
-        { column, operator: 'lte', value: end },
-      ]];
-    }
-    return [
-      [{ column, operator: 'lt', value: start }],
-      [{ column, operator: 'gt', value: end }],
-    ];
-  }
-  return [];
+export interface MeetingConflict {
+  id: string;
+  start_time: string;
+  end_time: string | null;
+  meeting_type: string | null;
+  customer_name: string | null;
+}
+
+const MEETING_SELECT = `
+  *,
+  lead:leads(id, customer_id, customer:customers(id, full_name, phone, email)),
+  customer:customers(id, full_name, phone, email),
+  owner:profiles(id, full_name, email)
+`;
+
+// Search box dates: "yyyy-mm-dd" or "dd/mm/yyyy"
+const parseSearchDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  const match = trimmed.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  if (!match) return null;
+  return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
 };
 
+// Fetch all meetings with joined lead and customer data
 export const useMeetings = (filters?: { 
   search?: string; 
   filterGroup?: FilterGroup | null;
@@ -80,48 +92,20 @@ export const useMeetings = (filters?: {
   const query = useQuery<{ data: Meeting[]; totalCount: number }>({
     queryKey: ['meetings', filters],
     queryFn: async () => {
-      const meetingDateKeys = [
-        'meeting_data->>date',
-        'meeting_data->>meeting_date',
-        "meeting_data->>'תאריך'",
-        "meeting_data->>'תאריך פגישה'",
-      ];
-      const meetingStatusKeys = ['meeting_data->>status', "meeting_data->>'סטטוס'"];
-
       const fieldConfigs: FilterFieldConfigMap = {
         created_at: { column: 'created_at', type: 'date' },
-        meeting_date: {
-          custom: (filter, negate) => {
-            return meetingDateKeys.flatMap((column) => buildDateDnf(filter, column, negate));
-          },
-        },
-        status: {
-          custom: (filter, negate) => {
-            const value = filter.values[0];
-            if (!value) return [];
-            return meetingStatusKeys.map((column) => [
-              { column, operator: 'eq', value, negate: filter.operator === 'isNot' ? !negate : negate },
-            ]);
-          },
-        },
+        meeting_date: { column: 'meeting_date', type: 'date' },
+        status: { column: 'status', type: 'select' },
+        meeting_type: { column: 'meeting_type', type: 'select' },
         customer_name: { column: 'customer.full_name', type: 'text' },
         customer_phone: { column: 'customer.phone', type: 'text' },
-        meeting_status_search: {
-          custom: (filter) => {
-            const value = filter.values[0];
-            if (!value) return [];
-            return meetingStatusKeys.map((column) => [
-              { column, operator: 'ilike', value: `%${value}%` },
-            ]);
-          },
-        },
+        meeting_status_search: { column: 'status', type: 'text' },
         meeting_date_search: {
           custom: (filter) => {
             const value = filter.values[0];
             if (!value) return [];
-            return meetingDateKeys.map((column) => [
-              { column, operator: 'ilike', value: `%${value}%` },
-            ]);
+            const date = parseSearchDate(value);
+            return date ? [[{ column: 'meeting_date', operator: 'eq', value: date }]] : [];
           },
         },
       };
@@ -142,31 +126,28 @@ export const useMeetings = (filters?: {
       // Map groupBy columns to database columns
       const groupByMap: Record<string, string> = {
         created_at: 'created_at',
-        status: 'meeting_data->>status',
-        meeting_date: 'meeting_data->>date',
+        status: 'status',
+        meeting_date: 'meeting_date',
+        meeting_type: 'meeting_type',
+        owner: 'owner_id',
         customer_name: 'customer.full_name',
       };
       const sortMap: Record<string, string> = {
         customer_name: 'customer.full_name',
-        meeting_date: 'meeting_data->>date',
-        meeting_time: 'meeting_data->>event_start_time',
+        meeting_date: 'start_time',
+        meeting_time: 'start_time',
         phone: 'customer.phone',
-        status: 'meeting_data->>status',
+        status: 'status',
         email: 'customer.email',
-        meeting_type: 'meeting_data->>meeting_type',
+        meeting_type: 'meeting_type',
+        location: 'location',
         notes: 'meeting_data->>notes',
         created_at: 'created_at',
       };
 
       let query = supabase
         .from('meetings')
-        .select(
-          `
-          *,
-          lead:leads(id, customer_id, customer:customers(id, full_name, phone, email)),
-          customer:customers(id, full_name, phone, email)
-        `
-        );
+        .select(MEETING_SELECT);
 
       // Always apply pagination limit (max 100 records per request for performance)
       const maxPageSize = Math.min(pageSize, 100);
@@ -270,11 +251,7 @@ export const useMeeting = (meetingId: string | null) => {
 
       const { data, error } = await supabase
         .from('meetings')
-        .select(`
-          *,
-          lead:leads(id, customer_id, customer:customers(id, full_name, phone, email)),
-          customer:customers(id, full_name, phone, email)
-        `)
+        .select(MEETING_SELECT)
         .eq('id', meetingId)
         .single();
 
@@ -313,5 +290,64 @@ export const useDeleteMeeting = () => {
   });
 };
 
+// Record whether the lead showed up. Attended / cancelled also move the meeting status
+// so the calendar and the meetings table stay in sync.
+export const useUpdateMeetingAttendance = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      meetingId,
+      attendanceStatus,
+    }: {
+      meetingId: string;
+      attendanceStatus: Meeting['attendance_status'];
+    }) => {
+      const { data: { user } } = await supabase.auth.getUser();
 
+      const updates: Record<string, unknown> = {
+        attendance_status: attendanceStatus,
+        attendance_updated_at: attendanceStatus ? new Date().toISOString() : null,
+        attendance_updated_by: attendanceStatus ? user?.id || null : null,
+      };
+      if (attendanceStatus === 'attended') updates.status = 'הושלם';
+      if (attendanceStatus === 'cancelled') updates.status = 'בוטל';
 
+      const { error } = await supabase
+        .from('meetings')
+        .update(updates)
+        .eq('id', meetingId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { meetingId }) => {
+      queryClient.invalidateQueries({ queryKey: ['meeting', meetingId] });
+      queryClient.invalidateQueries({ queryKey: ['meetings'] });
+    },
+  });
+};
+
+// Non-cancelled meetings of the same coach overlapping the given time range
+export const fetchMeetingConflicts = async ({
+  ownerId,
+  startTime,
+  endTime,
+  excludeMeetingId,
+}: {
+  ownerId: string | null | undefined;
+  startTime: Date;
+  endTime?: Date | null;
+  excludeMeetingId?: string | null;
+}): Promise<MeetingConflict[]> => {
+  if (!ownerId) return [];
+
+  const { data, error } = await supabase.rpc('get_meeting_conflicts', {
+    p_owner_id: ownerId,
+    p_start: startTime.toISOString(),
+    p_end: endTime ? endTime.toISOString() : null,
+    p_exclude_meeting_id: excludeMeetingId || null,
+  });
+
+  if (error) throw error;
+  return (data || []) as MeetingConflict[];
+};
@@ -0,0 +1,161 @@
+/**
+ * usePaymentDunning Hook
+ *
+ * Dunning cases (payment_dunning) of a lead / customer and the dunning settings
+ * (payment_dunning_settings). Cases are opened and closed by DB triggers on payments;
+ * the reminders are sent by the process-payment-dunning edge function.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+
+export type PaymentDunningStatus = 'פעיל' | 'שולם' | 'הופסק' | 'הסתיים';
+
+export interface PaymentDunning {
+  id: string;
+  lead_id: string | null;
+  customer_id: string;
+  collection_id: string | null;
+  failed_payment_id: string | null;
+  product_name: string;
+  amount: number;
+  currency: string;
+  status: PaymentDunningStatus;
+  messages_sent: number;
+  next_attempt_at: string | null;
+  last_sent_at: string | null;
+  last_payment_link: string | null;
+  last_error: string | null;
+  started_at: string;
+  resolved_at: string | null;
+}
+
+export interface PaymentDunningSettings {
+  id: string;
+  is_active: boolean;
+  step_days: number[];
+  flow_key: string | null;
+  escalate_after_days: number;
+  include_overdue_collections: boolean;
+  updated_at: string;
+}
+
+export const DEFAULT_DUNNING_STEP_DAYS = [0, 3, 7];
+
+/**
+ * Active dunning case of a lead, falling back to the customer's (cases of overdue
+ * collections and failed payments without a lead)
+ */
+export const useActivePaymentDunning = (
+  leadId: string | null | undefined,
+  customerId: string | null | undefined
+) => {
+  return useQuery({
+    queryKey: ['payment-dunning', leadId, customerId],
+    queryFn: async (): Promise<PaymentDunning | null> => {
+      let query = supabase
+        .from('payment_dunning')
+        .select('*')
+        .eq('status', 'פעיל')
+        .order('started_at', { ascending: false })
+        .limit(1);
+
+      query = leadId ? query.eq('lead_id', leadId) : query.eq('customer_id', customerId as string);
+
+      const { data, error } = await query.maybeSingle();
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return null;
+        }
+        throw error;
+      }
+
+      return data ? { ...data, amount: Number(data.amount) || 0 } as PaymentDunning : null;
+    },
+    enabled: !!(leadId || customerId),
+    retry: false,
+  });
+};
+
+export const useStopPaymentDunning = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async (dunningId: string) => {
+      const { error } = await supabase
+        .from('payment_dunning')
+        .update({
+          status: 'הופסק',
+          stopped_by: user?.id || null,
+          resolved_at: new Date().toISOString(),
+          next_attempt_at: null,
+        })
+        .eq('id', dunningId)
+        .eq('status', 'פעיל');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payment-dunning'] });
+    },
+  });
+};
+
+export const usePaymentDunningSettings = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['payment-dunning-settings'],
+    queryFn: async (): Promise<PaymentDunningSettings | null> => {
+      const { data, error } = await supabase
+        .from('payment_dunning_settings')
+        .select('id, is_active, step_days, flow_key, escalate_after_days, include_overdue_collections, updated_at')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return null;
+        }
+        throw error;
+      }
+
+      return data as PaymentDunningSettings | null;
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useUpdatePaymentDunningSettings = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async (params: {
+      id: string;
+      is_active: boolean;
+      step_days: number[];
+      flow_key: string | null;
+      escalate_after_days: number;
+      include_overdue_collections: boolean;
+    }) => {
+      const { id, ...updates } = params;
+      const { data, error } = await supabase
+        .from('payment_dunning_settings')
+        .update({ ...updates, updated_by: user?.id || null })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as PaymentDunningSettings;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['payment-dunning-settings'] });
+    },
+  });
+};
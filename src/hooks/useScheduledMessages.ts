@@ -0,0 +1,130 @@
+/**
+ * useScheduledMessages Hook
+ *
+ * WhatsApp messages queued for later sending (scheduled_messages table).
+ * The process-scheduled-messages edge function sends them when due and retries Green API failures.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+import { cleanWhatsAppMessage } from '@/services/greenApiService';
+
+export type ScheduledMessageStatus = 'pending' | 'sent' | 'failed' | 'cancelled';
+
+export interface ScheduledMessage {
+  id: string;
+  lead_id: string | null;
+  customer_id: string | null;
+  phone: string;
+  flow_key: string | null;
+  message: string;
+  buttons: Array<{ id: string; text: string }>;
+  media: { type: 'image' | 'video' | 'gif'; url: string } | null;
+  scheduled_for: string;
+  status: ScheduledMessageStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Scheduled messages of a customer (pending and failed first, then recent history)
+export const useScheduledMessages = (customerId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['scheduled-messages', customerId],
+    queryFn: async (): Promise<ScheduledMessage[]> => {
+      if (!customerId) return [];
+
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .select('*')
+        .eq('customer_id', customerId)
+        .order('scheduled_for', { ascending: true })
+        .limit(100);
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []) as ScheduledMessage[];
+    },
+    enabled: !!customerId,
+    retry: false,
+  });
+};
+
+export const useScheduleWhatsAppMessage = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async (params: {
+      phoneNumber: string;
+      message: string;
+      scheduledFor: Date;
+      customerId: string;
+      leadId?: string | null;
+      flowKey?: string | null;
+      buttons?: Array<{ id: string; text: string }>;
+      media?: { type: 'image' | 'video' | 'gif'; url: string };
+    }) => {
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .insert({
+          phone: params.phoneNumber,
+          // Sent as-is by process-scheduled-messages, so strip the editor HTML now
+          message: cleanWhatsAppMessage(params.message),
+          scheduled_for: params.scheduledFor.toISOString(),
+          customer_id: params.customerId,
+          lead_id: params.leadId || null,
+          flow_key: params.flowKey || null,
+          buttons: params.buttons || [],
+          media: params.media || null,
+          created_by: user?.id || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as ScheduledMessage;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['scheduled-messages', variables.customerId] });
+    },
+  });
+};
+
+export const useCancelScheduledMessage = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; customerId: string }) => {
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .update({
+          status: 'cancelled',
+          cancelled_at: new Date().toISOString(),
+          cancelled_by: user?.id || null,
+        })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        throw new Error('ההודעה כבר נשלחה או בוטלה');
+      }
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['scheduled-messages', variables.customerId] });
+    },
+  });
+};
@@ -0,0 +1,40 @@
+/**
+ * useStaffMembers Hook
+ *
+ * Active staff profiles (admins and coaches), e.g. for picking a meeting owner.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+
+export interface StaffMember {
+  id: string;
+  full_name: string | null;
+  email: string;
+  role: 'admin' | 'user';
+}
+
+export const getStaffMemberName = (member: Pick<StaffMember, 'full_name' | 'email'>) =>
+  member.full_name || member.email;
+
+export const useStaffMembers = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['staff-members'],
+    queryFn: async (): Promise<StaffMember[]> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email, role')
+        .in('role', ['admin', 'user'])
+        .eq('is_active', true)
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as StaffMember[];
+    },
+    enabled: !!user?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+};
@@ -0,0 +1,182 @@
+/**
+ * useStaffPermissions Hook
+ *
+ * Capabilities of the logged-in staff member (get_my_permissions) and management of
+ * staff roles: which capabilities each role has and which role each staff member has.
+ */
+
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+import { ALL_STAFF_PERMISSIONS, type StaffPermission } from '@/utils/permissions';
+
+export interface StaffRole {
+  key: string;
+  label: string;
+  description: string | null;
+  is_system: boolean;
+  display_order: number;
+}
+
+export interface StaffPermissionDefinition {
+  key: StaffPermission;
+  label: string;
+  description: string | null;
+  display_order: number;
+}
+
+export interface StaffRolePermission {
+  role_key: string;
+  permission: StaffPermission;
+}
+
+export interface StaffRoleAssignment {
+  id: string;
+  full_name: string | null;
+  email: string;
+  role: 'admin' | 'user';
+  staff_role: string | null;
+  is_active: boolean | null;
+}
+
+const isMissingObjectError = (error: { code?: string; message: string }) =>
+  error.code === '42P01' || error.code === '42883' || error.code === 'PGRST202' || error.message.includes('does not exist');
+
+/**
+ * Capabilities of the logged-in user. Trainees have none; staff have every capability
+ * until the permissions migration is applied.
+ */
+export const usePermissions = () => {
+  const { user } = useAppSelector((state) => state.auth);
+  const isStaff = user?.role === 'admin' || user?.role === 'user';
+
+  const { data: permissions = [], isLoading } = useQuery({
+    queryKey: ['my-permissions', user?.id],
+    queryFn: async (): Promise<StaffPermission[]> => {
+      const { data, error } = await supabase.rpc('get_my_permissions');
+
+      if (error) {
+        if (isMissingObjectError(error)) {
+          return ALL_STAFF_PERMISSIONS;
+        }
+        throw error;
+      }
+
+      return (data || []) as StaffPermission[];
+    },
+    enabled: !!user?.id && isStaff,
+  });
+
+  const can = useCallback((permission: StaffPermission) => permissions.includes(permission), [permissions]);
+
+  return {
+    permissions,
+    can,
+    isLoading: isStaff && isLoading,
+  };
+};
+
+export const useStaffRoles = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['staff-roles'],
+    queryFn: async () => {
+      const [rolesResult, permissionsResult, rolePermissionsResult] = await Promise.all([
+        supabase
+          .from('staff_roles')
+          .select('key, label, description, is_system, display_order')
+          .order('display_order', { ascending: true }),
+        supabase
+          .from('staff_permissions')
+          .select('key, label, description, display_order')
+          .order('display_order', { ascending: true }),
+        supabase.from('staff_role_permissions').select('role_key, permission'),
+      ]);
+
+      const error = rolesResult.error || permissionsResult.error || rolePermissionsResult.error;
+      if (error) {
+        if (isMissingObjectError(error)) {
+          return null;
+        }
+        throw error;
+      }
+
+      return {
+        roles: (rolesResult.data || []) as StaffRole[],
+        permissions: (permissionsResult.data || []) as StaffPermissionDefinition[],
+        rolePermissions: (rolePermissionsResult.data || []) as StaffRolePermission[],
+      };
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useSetRolePermission = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      roleKey,
+      permission,
+      granted,
+    }: {
+      roleKey: string;
+      permission: StaffPermission;
+      granted: boolean;
+    }) => {
+      const { error } = granted
+        ? await supabase.from('staff_role_permissions').insert({ role_key: roleKey, permission })
+        : await supabase
+            .from('staff_role_permissions')
+            .delete()
+            .eq('role_key', roleKey)
+            .eq('permission', permission);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['staff-roles'] });
+      queryClient.invalidateQueries({ queryKey: ['my-permissions'] });
+    },
+  });
+};
+
+export const useStaffRoleAssignments = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['staff-role-assignments'],
+    queryFn: async (): Promise<StaffRoleAssignment[]> => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, email, role, staff_role, is_active')
+        .in('role', ['admin', 'user'])
+        .order('full_name', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as StaffRoleAssignment[];
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useUpdateStaffRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ profileId, staffRole }: { profileId: string; staffRole: string }) => {
+      const { error } = await supabase.rpc('set_staff_role', {
+        p_profile_id: profileId,
+        p_staff_role: staffRole,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['staff-role-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['my-permissions'] });
+    },
+  });
+};
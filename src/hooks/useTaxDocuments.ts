@@ -0,0 +1,210 @@
+/**
+ * useTaxDocuments Hook
+ *
+ * Tax documents (tax_documents) of a payment and the business details printed on them
+ * (business_settings). Documents are issued in the database when a payment is paid or refunded,
+ * and their PDF is rendered right away by the render-tax-document edge function and stored in
+ * client-assets/tax-documents.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+import { sendWhatsAppMessage } from '@/services/greenApiService';
+import { formatTaxDocumentAmount, getTaxDocumentTitle, type TaxDocument } from '@/utils/taxDocuments';
+
+export type BusinessType = 'עוסק מורשה' | 'עוסק פטור' | 'חברה בע"מ';
+
+export interface BusinessSettings {
+  id: string;
+  is_active: boolean;
+  business_name: string;
+  business_type: BusinessType;
+  business_number: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  vat_rate: number;
+  updated_at: string;
+}
+
+const VIEW_URL_EXPIRY_SECONDS = 60 * 60;
+const SEND_URL_EXPIRY_SECONDS = 30 * 24 * 60 * 60; // The customer may open the link days later
+
+const TAX_DOCUMENT_SELECT = `
+  *,
+  original_document:original_document_id(document_type, document_number)
+`;
+
+/**
+ * Signed URL of the document's PDF. A document issued while the render trigger wasn't
+ * set up (or whose rendering failed) is rendered now by the same edge function.
+ */
+const getTaxDocumentPdfUrl = async (taxDocument: TaxDocument, expiresIn: number): Promise<string> => {
+  let pdfPath = taxDocument.pdf_path;
+
+  if (!pdfPath) {
+    const { data: rendered, error: renderError } = await supabase.functions.invoke('render-tax-document', {
+      body: { document_id: taxDocument.id },
+    });
+    if (renderError) throw renderError;
+
+    pdfPath = rendered?.data?.rendered?.[0]?.pdf_path as string | undefined;
+    if (!pdfPath) throw new Error('לא ניתן ליצור את קובץ המסמך');
+  }
+
+  const { data, error } = await supabase.storage.from('client-assets').createSignedUrl(pdfPath, expiresIn);
+  if (error || !data?.signedUrl) throw error || new Error('לא ניתן ליצור קישור למסמך');
+
+  return data.signedUrl;
+};
+
+export const usePaymentTaxDocuments = (paymentId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['tax-documents', paymentId],
+    queryFn: async (): Promise<TaxDocument[]> => {
+      if (!paymentId) return [];
+
+      const { data, error } = await supabase
+        .from('tax_documents')
+        .select(TAX_DOCUMENT_SELECT)
+        .eq('payment_id', paymentId)
+        .order('issued_at', { ascending: true });
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []).map((document) => ({
+        ...document,
+        total_amount: Number(document.total_amount) || 0,
+        amount_before_vat: Number(document.amount_before_vat) || 0,
+        vat_rate: Number(document.vat_rate) || 0,
+        vat_amount: Number(document.vat_amount) || 0,
+      })) as TaxDocument[];
+    },
+    enabled: !!paymentId,
+    retry: false,
+  });
+};
+
+// For payments paid before issuing was enabled
+export const useIssuePaymentTaxDocument = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (paymentId: string) => {
+      const { data, error } = await supabase.rpc('issue_payment_tax_document', { p_payment_id: paymentId });
+      if (error) throw error;
+      return data as TaxDocument;
+    },
+    onSuccess: (_data, paymentId) => {
+      queryClient.invalidateQueries({ queryKey: ['tax-documents', paymentId] });
+    },
+  });
+};
+
+export const useOpenTaxDocument = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (taxDocument: TaxDocument) => getTaxDocumentPdfUrl(taxDocument, VIEW_URL_EXPIRY_SECONDS),
+    onSuccess: (_url, taxDocument) => {
+      if (!taxDocument.pdf_path) {
+        queryClient.invalidateQueries({ queryKey: ['tax-documents', taxDocument.payment_id] });
+      }
+    },
+  });
+};
+
+export const useSendTaxDocument = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (taxDocument: TaxDocument) => {
+      if (!taxDocument.customer_phone) {
+        throw new Error('ללקוח אין מספר טלפון');
+      }
+
+      const url = await getTaxDocumentPdfUrl(taxDocument, SEND_URL_EXPIRY_SECONDS);
+      const message = [
+        taxDocument.customer_name ? `שלום ${taxDocument.customer_name},` : 'שלום,',
+        `מצורפת ${getTaxDocumentTitle(taxDocument)} על סך ${formatTaxDocumentAmount(taxDocument.total_amount, taxDocument.currency)}:`,
+        url,
+        taxDocument.business.name,
+      ].join('\n');
+
+      const result = await sendWhatsAppMessage({
+        phoneNumber: taxDocument.customer_phone,
+        message,
+        customerId: taxDocument.customer_id,
+        leadId: taxDocument.lead_id,
+        purpose: 'payment',
+      });
+      if (!result?.success) {
+        throw new Error(result?.error || 'שליחת ההודעה נכשלה');
+      }
+
+      const { error } = await supabase
+        .from('tax_documents')
+        .update({ sent_at: new Date().toISOString() })
+        .eq('id', taxDocument.id);
+      if (error) throw error;
+    },
+    onSuccess: (_data, taxDocument) => {
+      queryClient.invalidateQueries({ queryKey: ['tax-documents', taxDocument.payment_id] });
+    },
+  });
+};
+
+export const useBusinessSettings = () => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['business-settings'],
+    queryFn: async (): Promise<BusinessSettings | null> => {
+      const { data, error } = await supabase
+        .from('business_settings')
+        .select('id, is_active, business_name, business_type, business_number, address, phone, email, vat_rate, updated_at')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return null;
+        }
+        throw error;
+      }
+
+      return data ? { ...data, vat_rate: Number(data.vat_rate) } as BusinessSettings : null;
+    },
+    enabled: !!user?.id,
+  });
+};
+
+export const useUpdateBusinessSettings = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async (params: Omit<BusinessSettings, 'updated_at'>) => {
+      const { id, ...updates } = params;
+      const { data, error } = await supabase
+        .from('business_settings')
+        .update({ ...updates, updated_by: user?.id || null })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as BusinessSettings;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['business-settings'] });
+    },
+  });
+};
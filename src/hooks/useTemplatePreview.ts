@@ -0,0 +1,78 @@
+/**
+ * useTemplatePreview Hook
+ *
+ * Loads a real lead for the template editor's live preview:
+ * search leads by customer name / phone, then build the lead's placeholder values.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+import { buildLeadPlaceholders, type PlaceholderCustomer, type PlaceholderLead } from '@/utils/templateRenderer';
+
+export interface TemplatePreviewLeadOption {
+  lead_id: string;
+  full_name: string;
+  phone: string | null;
+  status: string | null;
+}
+
+// Leads matching the search (latest first), for picking the preview lead
+export const useTemplatePreviewLeadOptions = (search: string, enabled = true) => {
+  const { user } = useAppSelector((state) => state.auth);
+  const term = search.trim().replace(/[%,()]/g, '');
+
+  return useQuery({
+    queryKey: ['template-preview-leads', term],
+    queryFn: async (): Promise<TemplatePreviewLeadOption[]> => {
+      let query = supabase
+        .from('leads')
+        .select('id, status_main, status_sub, customer:customers!inner(full_name, phone)')
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (term) {
+        query = query.or(`full_name.ilike.%${term}%,phone.ilike.%${term}%`, { referencedTable: 'customers' });
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []).map((lead) => {
+        const customer = (Array.isArray(lead.customer) ? lead.customer[0] : lead.customer) as
+          | { full_name: string | null; phone: string | null }
+          | null;
+        return {
+          lead_id: lead.id,
+          full_name: customer?.full_name || '',
+          phone: customer?.phone || null,
+          status: lead.status_sub || lead.status_main || null,
+        };
+      });
+    },
+    enabled: !!user?.id && enabled,
+  });
+};
+
+// Placeholder values of a lead (same values used when the flow is sent)
+export const useTemplatePreviewValues = (leadId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['template-preview-values', leadId],
+    queryFn: async (): Promise<Record<string, string | number> | null> => {
+      if (!leadId) return null;
+
+      const { data: lead, error } = await supabase
+        .from('leads')
+        .select('*, customer:customers(full_name, phone, email)')
+        .eq('id', leadId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!lead) return null;
+
+      const { customer, ...leadData } = lead as PlaceholderLead & { customer: PlaceholderCustomer | null };
+      return buildLeadPlaceholders(customer, leadData);
+    },
+    enabled: !!leadId,
+  });
+};
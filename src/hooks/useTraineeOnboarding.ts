@@ -0,0 +1,102 @@
+/**
+ * useTraineeOnboarding Hook
+ *
+ * First-login onboarding of trainees (trainee_onboarding): progress through the wizard steps in
+ * the client portal, and the completion status coaches see on the client hero bar.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+
+export type OnboardingStep = 'measurements' | 'photos' | 'blood_tests' | 'action_plan' | 'notifications';
+
+export interface TraineeOnboarding {
+  id: string;
+  customer_id: string;
+  measurements_completed_at: string | null;
+  photos_completed_at: string | null;
+  blood_tests_completed_at: string | null;
+  action_plan_acknowledged_at: string | null;
+  acknowledged_budget_id: string | null;
+  notifications_completed_at: string | null;
+  skipped_steps: OnboardingStep[];
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const ONBOARDING_STEPS: { key: OnboardingStep; label: string }[] = [
+  { key: 'measurements', label: 'מדדים' },
+  { key: 'photos', label: 'תמונות' },
+  { key: 'blood_tests', label: 'בדיקות דם' },
+  { key: 'action_plan', label: 'תכנית פעולה' },
+  { key: 'notifications', label: 'התראות' },
+];
+
+// Column marking each step as done
+export const ONBOARDING_STEP_COLUMNS: Record<OnboardingStep, keyof TraineeOnboarding> = {
+  measurements: 'measurements_completed_at',
+  photos: 'photos_completed_at',
+  blood_tests: 'blood_tests_completed_at',
+  action_plan: 'action_plan_acknowledged_at',
+  notifications: 'notifications_completed_at',
+};
+
+// A step counts once it was done or skipped
+export const isOnboardingStepDone = (onboarding: TraineeOnboarding | null, step: OnboardingStep): boolean =>
+  !!onboarding && (!!onboarding[ONBOARDING_STEP_COLUMNS[step]] || onboarding.skipped_steps.includes(step));
+
+/**
+ * Onboarding of a trainee. `isAvailable` is false until the onboarding migration is applied,
+ * so the wizard isn't shown.
+ */
+export const useTraineeOnboarding = (customerId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['trainee-onboarding', customerId],
+    queryFn: async (): Promise<{ onboarding: TraineeOnboarding | null; isAvailable: boolean }> => {
+      if (!customerId) return { onboarding: null, isAvailable: false };
+
+      const { data, error } = await supabase
+        .from('trainee_onboarding')
+        .select('*')
+        .eq('customer_id', customerId)
+        .maybeSingle();
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return { onboarding: null, isAvailable: false };
+        }
+        throw error;
+      }
+
+      return { onboarding: data as TraineeOnboarding | null, isAvailable: true };
+    },
+    enabled: !!customerId,
+  });
+};
+
+export const useUpdateTraineeOnboarding = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      customerId,
+      updates,
+    }: {
+      customerId: string;
+      updates: Partial<Omit<TraineeOnboarding, 'id' | 'customer_id' | 'created_at' | 'updated_at'>>;
+    }) => {
+      const { data, error } = await supabase
+        .from('trainee_onboarding')
+        .upsert({ customer_id: customerId, ...updates }, { onConflict: 'customer_id' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as TraineeOnboarding;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['trainee-onboarding', variables.customerId] });
+    },
+  });
+};
@@ -0,0 +1,298 @@
+/**
+ * useWhatsAppBroadcasts Hook
+ *
+ * Bulk WhatsApp sends to a filtered lead/customer view or selection (whatsapp_broadcasts).
+ * Every recipient gets a rendered message in scheduled_messages, spaced out by the send interval;
+ * process-scheduled-messages sends them and retries Green API failures.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { useAppSelector } from '@/store/hooks';
+import { cleanWhatsAppMessage } from '@/services/greenApiService';
+import {
+  buildLeadPlaceholders,
+  renderTemplate,
+  type PlaceholderCustomer,
+  type PlaceholderLead,
+} from '@/utils/templateRenderer';
+import type { WhatsAppFlowTemplate } from '@/store/slices/automationSlice';
+
+export type BroadcastAudience = 'leads' | 'customers';
+
+export interface WhatsAppBroadcast {
+  id: string;
+  name: string;
+  flow_key: string;
+  audience: BroadcastAudience;
+  filter_snapshot: Record<string, unknown>;
+  total_recipients: number;
+  skipped_count: number;
+  send_interval_seconds: number;
+  starts_at: string;
+  created_by: string | null;
+  created_at: string;
+  // whatsapp_broadcasts_with_stats
+  queued_count: number;
+  pending_count: number;
+  sent_count: number;
+  failed_count: number;
+  cancelled_count: number;
+  delivered_count: number;
+  read_count: number;
+  undelivered_count: number;
+}
+
+export interface BroadcastFailure {
+  id: string;
+  phone: string;
+  last_error: string | null;
+  customer: { full_name: string | null } | null;
+}
+
+interface BroadcastRecipient {
+  leadId: string | null;
+  customerId: string;
+  customer: PlaceholderCustomer;
+  lead: PlaceholderLead | null;
+}
+
+// Seconds between two messages of a broadcast (Green API rate limit)
+export const BROADCAST_SEND_INTERVALS = [5, 10, 20, 30];
+
+const CHUNK_SIZE = 100;
+
+const chunk = <T,>(items: T[], size = CHUNK_SIZE): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Load the customer (and lead) data needed to render each recipient's message
+ * Customers are rendered with their most recent lead
+ */
+const fetchBroadcastRecipients = async (
+  audience: BroadcastAudience,
+  ids: string[]
+): Promise<BroadcastRecipient[]> => {
+  const recipients: BroadcastRecipient[] = [];
+
+  for (const idsChunk of chunk(ids)) {
+    if (audience === 'leads') {
+      const { data, error } = await supabase
+        .from('leads')
+        .select('*, customer:customers(id, full_name, phone, email)')
+        .in('id', idsChunk);
+      if (error) throw error;
+
+      (data || []).forEach(({ customer, ...lead }) => {
+        if (!customer) return;
+        recipients.push({ leadId: lead.id, customerId: customer.id, customer, lead });
+      });
+    } else {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, full_name, phone, email, leads(*)')
+        .in('id', idsChunk);
+      if (error) throw error;
+
+      (data || []).forEach(({ leads, ...customer }) => {
+        const latestLead = [...(leads || [])].sort((a, b) =>
+          String(b.created_at).localeCompare(String(a.created_at))
+        )[0] || null;
+        recipients.push({ leadId: latestLead?.id || null, customerId: customer.id, customer, lead: latestLead });
+      });
+    }
+  }
+
+  return recipients;
+};
+
+// Recent broadcasts with their progress
+export const useWhatsAppBroadcasts = (enabled = true) => {
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useQuery({
+    queryKey: ['whatsapp-broadcasts'],
+    queryFn: async (): Promise<WhatsAppBroadcast[]> => {
+      const { data, error } = await supabase
+        .from('whatsapp_broadcasts_with_stats')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []) as WhatsAppBroadcast[];
+    },
+    enabled: !!user?.id && enabled,
+  });
+};
+
+// A single broadcast - polled while messages are still waiting to be sent
+export const useWhatsAppBroadcast = (broadcastId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['whatsapp-broadcast', broadcastId],
+    queryFn: async (): Promise<WhatsAppBroadcast | null> => {
+      if (!broadcastId) return null;
+
+      const { data, error } = await supabase
+        .from('whatsapp_broadcasts_with_stats')
+        .select('*')
+        .eq('id', broadcastId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as WhatsAppBroadcast | null;
+    },
+    enabled: !!broadcastId,
+    refetchInterval: (query) => {
+      const broadcast = query.state.data;
+      return broadcast && broadcast.pending_count > 0 ? 5000 : false;
+    },
+  });
+};
+
+// Messages of a broadcast that failed after all retries
+export const useBroadcastFailures = (broadcastId: string | null | undefined, enabled = true) => {
+  return useQuery({
+    queryKey: ['whatsapp-broadcast-failures', broadcastId],
+    queryFn: async (): Promise<BroadcastFailure[]> => {
+      if (!broadcastId) return [];
+
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .select('id, phone, last_error, customer:customers(full_name)')
+        .eq('broadcast_id', broadcastId)
+        .eq('status', 'failed')
+        .order('updated_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return (data || []) as unknown as BroadcastFailure[];
+    },
+    enabled: !!broadcastId && enabled,
+  });
+};
+
+export const useCreateWhatsAppBroadcast = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (params: {
+      name: string;
+      audience: BroadcastAudience;
+      ids: string[];
+      template: WhatsAppFlowTemplate;
+      sendIntervalSeconds: number;
+      filterSnapshot?: Record<string, unknown>;
+      startsAt?: Date;
+    }): Promise<WhatsAppBroadcast> => {
+      const recipients = await fetchBroadcastRecipients(params.audience, params.ids);
+
+      // One message per phone number; recipients without a phone are skipped
+      const seenPhones = new Set<string>();
+      const sendable = recipients.filter(({ customer }) => {
+        const phone = customer.phone?.replace(/\D/g, '');
+        if (!phone || seenPhones.has(phone)) return false;
+        seenPhones.add(phone);
+        return true;
+      });
+
+      if (sendable.length === 0) {
+        throw new Error('לא נמצאו נמענים עם מספר טלפון');
+      }
+
+      const startsAt = params.startsAt || new Date();
+
+      const media = params.template.media?.url
+        ? { type: params.template.media.type, url: params.template.media.url }
+        : null;
+
+      // Placeholders are filled in per recipient now, like a single scheduled message
+      const rows = sendable.map(({ customer, lead, customerId, leadId }, index) => {
+        const placeholders = buildLeadPlaceholders(customer, lead);
+        return {
+          customer_id: customerId,
+          lead_id: leadId,
+          phone: customer.phone as string,
+          flow_key: params.template.flow_key,
+          message: cleanWhatsAppMessage(renderTemplate(params.template.template_content, placeholders)),
+          buttons: (params.template.buttons || []).map((btn) => ({
+            id: btn.id,
+            text: cleanWhatsAppMessage(renderTemplate(btn.text, placeholders)),
+          })),
+          media,
+          scheduled_for: new Date(startsAt.getTime() + index * params.sendIntervalSeconds * 1000).toISOString(),
+        };
+      });
+
+      // The broadcast and its messages are created in one transaction
+      const { data: broadcast, error: broadcastError } = await supabase.rpc('create_whatsapp_broadcast', {
+        p_broadcast: {
+          name: params.name,
+          flow_key: params.template.flow_key,
+          audience: params.audience,
+          filter_snapshot: params.filterSnapshot || {},
+          total_recipients: params.ids.length,
+          skipped_count: params.ids.length - sendable.length,
+          send_interval_seconds: params.sendIntervalSeconds,
+          starts_at: startsAt.toISOString(),
+        },
+        p_messages: rows,
+      });
+
+      if (broadcastError) throw broadcastError;
+
+      return {
+        ...broadcast,
+        queued_count: rows.length,
+        pending_count: rows.length,
+        sent_count: 0,
+        failed_count: 0,
+        cancelled_count: 0,
+        delivered_count: 0,
+        read_count: 0,
+        undelivered_count: 0,
+      } as WhatsAppBroadcast;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['whatsapp-broadcasts'] });
+    },
+  });
+};
+
+// Stop a broadcast - messages that weren't sent yet are cancelled
+export const useCancelWhatsAppBroadcast = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAppSelector((state) => state.auth);
+
+  return useMutation({
+    mutationFn: async (broadcastId: string) => {
+      const { error } = await supabase
+        .from('scheduled_messages')
+        .update({
+          status: 'cancelled',
+          cancelled_at: new Date().toISOString(),
+          cancelled_by: user?.id || null,
+        })
+        .eq('broadcast_id', broadcastId)
+        .eq('status', 'pending');
+
+      if (error) throw error;
+      return broadcastId;
+    },
+    onSuccess: (broadcastId) => {
+      queryClient.invalidateQueries({ queryKey: ['whatsapp-broadcast', broadcastId] });
+      queryClient.invalidateQueries({ queryKey: ['whatsapp-broadcasts'] });
+    },
+  });
+};
@@ -0,0 +1,156 @@
+/**
+ * useWhatsAppConversation Hook
+ *
+ * Fetches the WhatsApp conversation (incoming + outgoing messages) for a customer,
+ * keeps it live via a realtime subscription, and exposes reply / mark-as-read mutations.
+ */
+
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabaseClient';
+import { sendWhatsAppMessage } from '@/services/greenApiService';
+
+// Green API outgoingMessageStatus, tracked by receive-whatsapp-webhook
+export type WhatsAppDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface WhatsAppMessage {
+  id: string;
+  customer_id: string | null;
+  lead_id: string | null;
+  direction: 'incoming' | 'outgoing';
+  phone: string;
+  sender_name: string | null;
+  message_type: string;
+  body: string | null;
+  button_id: string | null;
+  button_text: string | null;
+  media_url: string | null;
+  green_api_message_id: string | null;
+  sent_by: string | null;
+  flow_key?: string | null;
+  delivery_status: WhatsAppDeliveryStatus | null;
+  delivery_error: string | null;
+  delivered_at: string | null;
+  read_at: string | null;
+  is_read: boolean;
+  message_timestamp: string;
+  created_at: string;
+}
+
+export const useWhatsAppConversation = (customerId: string | null | undefined) => {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['whatsapp-conversation', customerId],
+    queryFn: async (): Promise<WhatsAppMessage[]> => {
+      if (!customerId) return [];
+
+      const { data, error } = await supabase
+        .from('whatsapp_messages')
+        .select('*')
+        .eq('customer_id', customerId)
+        .order('message_timestamp', { ascending: true })
+        .limit(500);
+
+      if (error) {
+        if (error.code === '42P01' || error.message.includes('does not exist')) {
+          return [];
+        }
+        throw error;
+      }
+
+      return (data || []) as WhatsAppMessage[];
+    },
+    enabled: !!customerId,
+    retry: false,
+  });
+
+  // Real-time subscription so replies show up while the panel is open
+  useEffect(() => {
+    if (!customerId) return;
+
+    const channel = supabase
+      .channel(`whatsapp-messages-${customerId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'whatsapp_messages',
+          filter: `customer_id=eq.${customerId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['whatsapp-conversation', customerId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [customerId, queryClient]);
+
+  const messages = query.data || [];
+  const unreadCount = messages.filter((m) => m.direction === 'incoming' && !m.is_read).length;
+
+  return {
+    ...query,
+    messages,
+    unreadCount,
+  };
+};
+
+export const useSendWhatsAppReply = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      phoneNumber,
+      message,
+      customerId,
+      leadId,
+    }: {
+      phoneNumber: string;
+      message: string;
+      customerId: string;
+      leadId?: string | null;
+    }) => {
+      const result = await sendWhatsAppMessage({
+        phoneNumber,
+        message,
+        customerId,
+        leadId: leadId || null,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error || 'שגיאה בשליחת ההודעה');
+      }
+
+      return result.data;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['whatsapp-conversation', variables.customerId] });
+    },
+  });
+};
+
+export const useMarkWhatsAppConversationRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (customerId: string) => {
+      const { error } = await supabase
+        .from('whatsapp_messages')
+        .update({ is_read: true })
+        .eq('customer_id', customerId)
+        .eq('direction', 'incoming')
+        .eq('is_read', false);
+
+      if (error) throw error;
+      return customerId;
+    },
+    onSuccess: (customerId) => {
+      queryClient.invalidateQueries({ queryKey: ['whatsapp-conversation', customerId] });
+    },
+  });
+};
@@ -3,12 +3,19 @@
  * 
  * Business logic for the analytics dashboard page.
  * Fetches statistics from Supabase for leads, customers, payments, and meetings.
+ * Money amounts are converted into the reporting currency with the exchange rates
+ * (see utils/currency.ts); the original amounts per currency are kept alongside.
  */
 
 import { useState, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/lib/supabaseClient';
 import { startOfDay, endOfDay } from 'date-fns';
+import { fetchExchangeRates } from '@/hooks/useExchangeRates';
+import { BASE_CURRENCY, createCurrencyConverter, type CurrencyCode } from '@/utils/currency';
+
+// Original (unconverted) amounts per currency code
+export type AmountsByCurrency = Record<string, number>;
 
 export interface AnalyticsData {
   // Leads statistics
@@ -21,18 +28,26 @@ export interface AnalyticsData {
   customersOverTime: { date: string; count: number }[];
   totalCustomers: number;
   
-  // Payments/Revenue statistics
-  paymentsOverTime: { date: string; amount: number; count: number }[];
-  paymentsByStatus: { status: string; amount: number; count: number }[];
-  paymentsByType: { product_name: string; amount: number; count: number }[];
+  // Payments/Revenue statistics (amounts in the reporting currency)
+  paymentsOverTime: { date: string; amount: number; count: number; originalAmounts: AmountsByCurrency }[];
+  paymentsByStatus: { status: string; amount: number; count: number; originalAmounts: AmountsByCurrency }[];
+  paymentsByType: { product_name: string; amount: number; count: number; originalAmounts: AmountsByCurrency }[];
   totalRevenue: number;
+  revenueByCurrency: AmountsByCurrency;
   totalPayments: number;
   
-  // Collections statistics
+  // Collections statistics (amounts in the reporting currency)
   collectionsOverTime: { date: string; amount: number; count: number }[];
   collectionsByStatus: { status: string; amount: number; count: number }[];
   totalCollections: number;
   totalCollectionsAmount: number;
+  collectionsAmountByCurrency: AmountsByCurrency;
+  totalCollectionsRemaining: number; // Open balance of pending / partial collections
+  collectionsRemainingByCurrency: AmountsByCurrency;
+
+  // Currency conversion
+  reportingCurrency: CurrencyCode;
+  unconvertedCurrencies: string[]; // Currencies without an exchange rate, left out of the converted amounts
   
   // Meetings statistics
   meetingsOverTime: { date: string; count: number }[];
@@ -40,9 +55,47 @@ export interface AnalyticsData {
   totalMeetings: number;
   completedMeetings: number;
   scheduledMeetings: number;
+
+  // Attendance statistics (meetings marked as attended or no-show)
+  noShowByType: AttendanceBreakdown[];
+  noShowByOwner: AttendanceBreakdown[];
+  attendedMeetings: number;
+  noShowMeetings: number;
+  noShowRate: number; // Percent of no-shows out of meetings with recorded attendance
+
+  // Coach caseloads (leads.assigned_to)
+  coachCaseloads: CoachCaseload[];
+}
+
+export interface AttendanceBreakdown {
+  label: string;
+  attended: number;
+  noShow: number;
+  rate: number;
 }
 
-export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
+export interface CoachCaseload {
+  coach_id: string | null; // null = leads without a coach
+  coach_name: string | null;
+  is_active: boolean;
+  active_trainees: number;
+  total_leads: number;
+  new_leads: number; // Leads created in the selected date range
+}
+
+const NO_OWNER_LABEL = 'ללא מאמן';
+
+const getNoShowRate = (attended: number, noShow: number) =>
+  attended + noShow > 0 ? Math.round((noShow / (attended + noShow)) * 1000) / 10 : 0;
+
+const addAmount = (amounts: AmountsByCurrency, currency: string, amount: number) => {
+  amounts[currency] = Math.round(((amounts[currency] || 0) + amount) * 100) / 100;
+};
+
+export const useAnalytics = (
+  dateRange?: { from?: Date; to?: Date } | null,
+  reportingCurrency: CurrencyCode = BASE_CURRENCY
+) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -60,7 +113,7 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
 
   // Fetch all analytics data
   const { data: analyticsData, isLoading: isLoadingData, error: dataError } = useQuery({
-    queryKey: ['analytics', dateFilter ? `${dateFilter.from}-${dateFilter.to}` : 'all'],
+    queryKey: ['analytics', dateFilter ? `${dateFilter.from}-${dateFilter.to}` : 'all', reportingCurrency],
     queryFn: async (): Promise<AnalyticsData> => {
       setIsLoading(true);
       setError(null);
@@ -101,7 +154,7 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
         // Build base query for Payments
         let paymentsQuery = supabase
           .from('payments')
-          .select('id, created_at, amount, status, product_name');
+          .select('id, created_at, amount, currency, status, product_name');
         
         // Apply date filter only if dateFilter exists
         if (dateFilter) {
@@ -117,7 +170,7 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
         // Build base query for Collections
         let collectionsQuery = supabase
           .from('collections')
-          .select('id, created_at, total_amount, status');
+          .select('id, created_at, total_amount, remaining_amount, currency, status');
         
         // Apply date filter only if dateFilter exists
         if (dateFilter) {
@@ -133,7 +186,7 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
         // Build base query for Meetings
         let meetingsQuery = supabase
           .from('meetings')
-          .select('id, created_at, meeting_data');
+          .select('id, created_at, status, meeting_type, attendance_status, owner:profiles(full_name, email)');
         
         // Apply date filter only if dateFilter exists
         if (dateFilter) {
@@ -146,6 +199,30 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
 
         if (meetingsError) throw meetingsError;
 
+        // Caseload per coach; missing until the lead assignment migration is applied
+        const { data: coachCaseloads, error: caseloadsError } = await supabase.rpc('get_coach_caseloads', {
+          p_from: dateFilter?.from ?? null,
+          p_to: dateFilter?.to ?? null,
+        });
+
+        if (caseloadsError && caseloadsError.code !== 'PGRST202' && !caseloadsError.message.includes('does not exist')) {
+          throw caseloadsError;
+        }
+
+        const exchangeRates = await fetchExchangeRates();
+        const converter = createCurrencyConverter(exchangeRates, reportingCurrency);
+        const unconvertedCurrencies = new Set<string>();
+
+        // Amount in the reporting currency; amounts without a rate are counted as 0 and reported
+        const toReporting = (amount: unknown, currency: string | null, date: string) => {
+          const converted = converter.convert(Number(amount) || 0, currency, date);
+          if (converted === null) {
+            unconvertedCurrencies.add(currency || BASE_CURRENCY);
+            return 0;
+          }
+          return converted;
+        };
+
         // Process Leads data
         const leadsByStatus = (leads || []).reduce((acc: Record<string, number>, lead) => {
           const status = lead.status_main || 'ללא סטטוס';
@@ -182,43 +259,39 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
           .sort((a, b) => a.date.localeCompare(b.date));
 
         // Process Payments data
-        const paymentsByDate = (payments || []).reduce((acc: Record<string, { amount: number; count: number }>, payment) => {
-          const date = payment.created_at.split('T')[0]; // Get YYYY-MM-DD part
-          if (!acc[date]) {
-            acc[date] = { amount: 0, count: 0 };
+        type PaymentTotals = { amount: number; count: number; originalAmounts: AmountsByCurrency };
+        const addPayment = (acc: Record<string, PaymentTotals>, key: string, payment: NonNullable<typeof payments>[number]) => {
+          if (!acc[key]) {
+            acc[key] = { amount: 0, count: 0, originalAmounts: {} };
           }
-          acc[date].amount += Number(payment.amount) || 0;
-          acc[date].count += 1;
+          acc[key].amount += toReporting(payment.amount, payment.currency, payment.created_at);
+          acc[key].count += 1;
+          addAmount(acc[key].originalAmounts, payment.currency || BASE_CURRENCY, Number(payment.amount) || 0);
           return acc;
+        };
+
+        const paymentsByDate = (payments || []).reduce((acc: Record<string, PaymentTotals>, payment) => {
+          const date = payment.created_at.split('T')[0]; // Get YYYY-MM-DD part
+          return addPayment(acc, date, payment);
         }, {});
 
         const paymentsOverTime = Object.entries(paymentsByDate)
           .map(([date, data]) => ({ date: `${date}T00:00:00.000Z`, ...data })) // Convert to ISO format
           .sort((a, b) => a.date.localeCompare(b.date));
 
-        const paymentsByStatus = (payments || []).reduce((acc: Record<string, { amount: number; count: number }>, payment) => {
-          const status = payment.status || 'ללא סטטוס';
-          if (!acc[status]) {
-            acc[status] = { amount: 0, count: 0 };
-          }
-          acc[status].amount += Number(payment.amount) || 0;
-          acc[status].count += 1;
-          return acc;
+        const paymentsByStatus = (payments || []).reduce((acc: Record<string, PaymentTotals>, payment) => {
+          return addPayment(acc, payment.status || 'ללא סטטוס', payment);
         }, {});
 
-        const paymentsByType = (payments || []).reduce((acc: Record<string, { amount: number; count: number }>, payment) => {
-          const product = payment.product_name || 'ללא שם מוצר';
-          if (!acc[product]) {
-            acc[product] = { amount: 0, count: 0 };
-          }
-          acc[product].amount += Number(payment.amount) || 0;
-          acc[product].count += 1;
-          return acc;
+        const paymentsByType = (payments || []).reduce((acc: Record<string, PaymentTotals>, payment) => {
+          return addPayment(acc, payment.product_name || 'ללא שם מוצר', payment);
         }, {});
 
-        const totalRevenue = (payments || [])
-          .filter(p => p.status === 'שולם')
-          .reduce((sum, p) => sum + (Number(p.amount) || 0), 0);
+        const paidPayments = (payments || []).filter(p => p.status === 'שולם');
+        const totalRevenue = paidPayments
+          .reduce((sum, p) => sum + toReporting(p.amount, p.currency, p.created_at), 0);
+        const revenueByCurrency: AmountsByCurrency = {};
+        paidPayments.forEach((p) => addAmount(revenueByCurrency, p.currency || BASE_CURRENCY, Number(p.amount) || 0));
 
         // Process Collections data
         const collectionsByDate = (collections || []).reduce((acc: Record<string, { amount: number; count: number }>, collection) => {
@@ -226,7 +299,7 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
           if (!acc[date]) {
             acc[date] = { amount: 0, count: 0 };
           }
-          acc[date].amount += Number(collection.total_amount) || 0;
+          acc[date].amount += toReporting(collection.total_amount, collection.currency, collection.created_at);
           acc[date].count += 1;
           return acc;
         }, {});
@@ -240,13 +313,23 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
           if (!acc[status]) {
             acc[status] = { amount: 0, count: 0 };
           }
-          acc[status].amount += Number(collection.total_amount) || 0;
+          acc[status].amount += toReporting(collection.total_amount, collection.currency, collection.created_at);
           acc[status].count += 1;
           return acc;
         }, {});
 
         const totalCollectionsAmount = (collections || [])
-          .reduce((sum, c) => sum + (Number(c.total_amount) || 0), 0);
+          .reduce((sum, c) => sum + toReporting(c.total_amount, c.currency, c.created_at), 0);
+        const collectionsAmountByCurrency: AmountsByCurrency = {};
+        (collections || []).forEach((c) => addAmount(collectionsAmountByCurrency, c.currency || BASE_CURRENCY, Number(c.total_amount) || 0));
+
+        // Open balances are converted at today's rate: they haven't been paid yet
+        const openCollections = (collections || []).filter(c => c.status === 'ממתין' || c.status === 'חלקי');
+        const today = new Date().toISOString();
+        const totalCollectionsRemaining = openCollections
+          .reduce((sum, c) => sum + toReporting(c.remaining_amount, c.currency, today), 0);
+        const collectionsRemainingByCurrency: AmountsByCurrency = {};
+        openCollections.forEach((c) => addAmount(collectionsRemainingByCurrency, c.currency || BASE_CURRENCY, Number(c.remaining_amount) || 0));
 
         // Process Meetings data
         const meetingsByDate = (meetings || []).reduce((acc: Record<string, number>, meeting) => {
@@ -259,25 +342,56 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
           .map(([date, count]) => ({ date: `${date}T00:00:00.000Z`, count })) // Convert to ISO format
           .sort((a, b) => a.date.localeCompare(b.date));
 
-        // Extract meeting status from meeting_data JSONB
         const meetingsByStatus = (meetings || []).reduce((acc: Record<string, number>, meeting) => {
-          const status = meeting.meeting_data?.status || 
-                        meeting.meeting_data?.['סטטוס'] || 
-                        'ללא סטטוס';
+          const status = meeting.status || 'ללא סטטוס';
           acc[status] = (acc[status] || 0) + 1;
           return acc;
         }, {});
 
         const completedMeetings = (meetings || []).filter(m => {
-          const status = m.meeting_data?.status || m.meeting_data?.['סטטוס'] || '';
+          const status = m.status || '';
           return status === 'הושלם' || status === 'completed' || status === 'בוצע';
         }).length;
 
         const scheduledMeetings = (meetings || []).filter(m => {
-          const status = m.meeting_data?.status || m.meeting_data?.['סטטוס'] || '';
+          const status = m.status || '';
           return status === 'מתוכנן' || status === 'scheduled' || status === 'נקבע';
         }).length;
 
+        // Attendance: only meetings the coach marked as attended / no-show count towards the rate
+        const countAttendance = (
+          acc: Record<string, { attended: number; noShow: number }>,
+          key: string,
+          isNoShow: boolean
+        ) => {
+          acc[key] = acc[key] || { attended: 0, noShow: 0 };
+          if (isNoShow) acc[key].noShow++;
+          else acc[key].attended++;
+        };
+        const attendanceCounts = {
+          byType: {} as Record<string, { attended: number; noShow: number }>,
+          byOwner: {} as Record<string, { attended: number; noShow: number }>,
+        };
+        let attendedMeetings = 0;
+        let noShowMeetings = 0;
+
+        (meetings || []).forEach((meeting) => {
+          if (meeting.attendance_status !== 'attended' && meeting.attendance_status !== 'no_show') return;
+
+          const isNoShow = meeting.attendance_status === 'no_show';
+          if (isNoShow) noShowMeetings++;
+          else attendedMeetings++;
+
+          const owner = meeting.owner as unknown as { full_name: string | null; email: string } | null;
+          countAttendance(attendanceCounts.byType, meeting.meeting_type || 'פגישת הכרות', isNoShow);
+          countAttendance(attendanceCounts.byOwner, owner?.full_name || owner?.email || NO_OWNER_LABEL, isNoShow);
+        });
+
+        const toAttendanceBreakdown = (acc: Record<string, { attended: number; noShow: number }>) =>
+          Object.entries(acc)
+            .map(([label, { attended, noShow }]) => ({ label, attended, noShow, rate: getNoShowRate(attended, noShow) }))
+            .sort((a, b) => b.attended + b.noShow - (a.attended + a.noShow));
+
         return {
           // Leads
           leadsByStatus: Object.entries(leadsByStatus).map(([status, count]) => ({ status, count })),
@@ -297,6 +411,7 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
             .sort((a, b) => b.amount - a.amount)
             .slice(0, 10), // Top 10 products
           totalRevenue,
+          revenueByCurrency,
           totalPayments: payments?.length || 0,
           
           // Collections
@@ -304,6 +419,13 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
           collectionsByStatus: Object.entries(collectionsByStatus).map(([status, data]) => ({ status, ...data })),
           totalCollections: collections?.length || 0,
           totalCollectionsAmount,
+          collectionsAmountByCurrency,
+          totalCollectionsRemaining,
+          collectionsRemainingByCurrency,
+
+          // Currency conversion
+          reportingCurrency,
+          unconvertedCurrencies: [...unconvertedCurrencies],
           
           // Meetings
           meetingsOverTime,
@@ -311,6 +433,21 @@ export const useAnalytics = (dateRange?: { from?: Date; to?: Date } | null) => {
           totalMeetings: meetings?.length || 0,
           completedMeetings,
           scheduledMeetings,
+
+          // Attendance
+          noShowByType: toAttendanceBreakdown(attendanceCounts.byType),
+          noShowByOwner: toAttendanceBreakdown(attendanceCounts.byOwner),
+          attendedMeetings,
+          noShowMeetings,
+          noShowRate: getNoShowRate(attendedMeetings, noShowMeetings),
+
+          // Coaches
+          coachCaseloads: ((coachCaseloads || []) as CoachCaseload[]).map((row) => ({
+            ...row,
+            active_trainees: Number(row.active_trainees) || 0,
+            total_leads: Number(row.total_leads) || 0,
+            new_leads: Number(row.new_leads) || 0,
+          })),
         };
       } catch (err: any) {
         setError(err?.message || 'שגיאה בטעינת הנתונים');
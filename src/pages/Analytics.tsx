@@ -8,13 +8,14 @@
 import { useState, useMemo, useCallback } from 'react';
 import { DashboardHeader } from '@/components/dashboard/DashboardHeader';
 import { DashboardSidebar } from '@/components/dashboard/DashboardSidebar';
-import { useAnalytics } from './Analytics';
+import { useAnalytics, type AmountsByCurrency } from './Analytics';
 import { useSidebarWidth } from '@/hooks/useSidebarWidth';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
-import { CalendarIcon, Users, DollarSign } from 'lucide-react';
+import { CalendarIcon, Users, DollarSign, ArrowRightLeft } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import Highcharts from 'highcharts';
 import HighchartsReact from 'highcharts-react-official';
 import { format, parseISO, startOfDay, endOfDay } from 'date-fns';
@@ -24,7 +25,32 @@ import { useAppSelector, useAppDispatch } from '@/store/hooks';
 import { logoutUser } from '@/store/slices/authSlice';
 import { useNavigate } from 'react-router-dom';
 import { ChartDataPopup, type ChartDataPopupItem } from '@/components/analytics/ChartDataPopup';
+import { ExchangeRatesDialog } from '@/components/analytics/ExchangeRatesDialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/lib/supabaseClient';
+import { useExchangeRates } from '@/hooks/useExchangeRates';
+import {
+  BASE_CURRENCY,
+  CURRENCIES,
+  createCurrencyConverter,
+  formatMoney,
+  formatMoneyBreakdown,
+  getCurrencySymbol,
+  type CurrencyCode,
+} from '@/utils/currency';
+
+type PopupPayment = {
+  id: string;
+  created_at: string;
+  amount: number | string;
+  currency: string | null;
+  status: string | null;
+  product_name: string | null;
+};
+
+// A payment's amount in its own currency
+const formatPaymentAmount = (payment: PopupPayment) =>
+  formatMoney(Number(payment.amount) || 0, payment.currency, { maximumFractionDigits: 0 });
 
 const Analytics = () => {
   const sidebarWidth = useSidebarWidth();
@@ -43,18 +69,28 @@ const Analytics = () => {
     return { from, to };
   });
   const [showAllData, setShowAllData] = useState(false);
+  const [noShowBreakdown, setNoShowBreakdown] = useState<'type' | 'owner'>('type');
 
-  const { analyticsData, isLoading, error } = useAnalytics(showAllData ? null : dateRange || undefined);
+  const [reportingCurrency, setReportingCurrency] = useState<CurrencyCode>(BASE_CURRENCY);
+  const [isExchangeRatesOpen, setIsExchangeRatesOpen] = useState(false);
 
-  // Format currency
+  const { analyticsData, isLoading, error } = useAnalytics(showAllData ? null : dateRange || undefined, reportingCurrency);
+  const { data: exchangeRates = [] } = useExchangeRates();
+  const currencyConverter = useMemo(
+    () => createCurrencyConverter(exchangeRates, reportingCurrency),
+    [exchangeRates, reportingCurrency]
+  );
+
+  // Format currency (amounts are converted into the reporting currency)
   const formatCurrency = useCallback((amount: number) => {
-    return new Intl.NumberFormat('he-IL', {
-      style: 'currency',
-      currency: 'ILS',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  }, []);
+    return formatMoney(amount, reportingCurrency, { maximumFractionDigits: 0 });
+  }, [reportingCurrency]);
+
+  // Original amounts, shown next to a converted amount when any of them is in another currency
+  const formatOriginalAmounts = useCallback((amounts: AmountsByCurrency | undefined) => {
+    if (!amounts || !Object.keys(amounts).some((code) => code !== reportingCurrency)) return '';
+    return formatMoneyBreakdown(amounts, { maximumFractionDigits: 0 });
+  }, [reportingCurrency]);
 
   // Popup state
   const [popupOpen, setPopupOpen] = useState(false);
@@ -62,6 +98,25 @@ const Analytics = () => {
   const [popupDescription, setPopupDescription] = useState('');
   const [popupItems, setPopupItems] = useState<ChartDataPopupItem[]>([]);
   const [popupLoading, setPopupLoading] = useState(false);
+  const [popupTotal, setPopupTotal] = useState<{ amount: number; originalAmounts: AmountsByCurrency } | null>(null);
+
+  const handlePopupOpenChange = useCallback((open: boolean) => {
+    setPopupOpen(open);
+    if (!open) setPopupTotal(null);
+  }, []);
+
+  // Total of the listed payments in the reporting currency, and per original currency
+  const getPaymentsTotal = useCallback((payments: PopupPayment[]) => {
+    const originalAmounts: AmountsByCurrency = {};
+    let amount = 0;
+    payments.forEach((payment) => {
+      const value = Number(payment.amount) || 0;
+      const currency = payment.currency || BASE_CURRENCY;
+      originalAmounts[currency] = (originalAmounts[currency] || 0) + value;
+      amount += currencyConverter.convert(value, currency, payment.created_at) ?? 0;
+    });
+    return { amount, originalAmounts };
+  }, [currencyConverter]);
 
   // Fetch detailed data functions
   const fetchLeadsByStatus = useCallback(async (status: string) => {
@@ -204,7 +259,7 @@ const Analytics = () => {
       
       const { data, error: fetchError } = await supabase
         .from('payments')
-        .select('id, created_at, amount, status, product_name')
+        .select('id, created_at, amount, currency, status, product_name')
         .gte('created_at', start.toISOString())
         .lte('created_at', end.toISOString())
         .order('created_at', { ascending: false });
@@ -214,15 +269,16 @@ const Analytics = () => {
       const items: ChartDataPopupItem[] = (data || []).map((payment) => ({
         id: payment.id,
         title: payment.product_name || 'ללא שם מוצר',
-        subtitle: formatCurrency(Number(payment.amount) || 0),
+        subtitle: formatPaymentAmount(payment),
         metadata: {
           'תאריך': payment.created_at,
           'סטטוס': payment.status || 'ללא סטטוס',
-          'סכום': Number(payment.amount) || 0,
+          'סכום': formatPaymentAmount(payment),
         },
       }));
       
       setPopupItems(items);
+      setPopupTotal(getPaymentsTotal(data || []));
       setPopupTitle(`תשלומים בתאריך: ${format(date, 'dd/MM/yyyy', { locale: he })}`);
       setPopupDescription(`נמצאו ${items.length} תשלומים בתאריך זה`);
       setPopupOpen(true);
@@ -232,14 +288,14 @@ const Analytics = () => {
     } finally {
       setPopupLoading(false);
     }
-  }, []);
+  }, [getPaymentsTotal]);
 
   const fetchPaymentsByStatus = useCallback(async (status: string) => {
     setPopupLoading(true);
     try {
       let query = supabase
         .from('payments')
-        .select('id, created_at, amount, status, product_name')
+        .select('id, created_at, amount, currency, status, product_name')
         .eq('status', status);
       
       const dateFilter = showAllData ? null : (dateRange?.from && dateRange?.to ? {
@@ -260,14 +316,15 @@ const Analytics = () => {
       const items: ChartDataPopupItem[] = (data || []).map((payment) => ({
         id: payment.id,
         title: payment.product_name || 'ללא שם מוצר',
-        subtitle: formatCurrency(Number(payment.amount) || 0),
+        subtitle: formatPaymentAmount(payment),
         metadata: {
           'תאריך': payment.created_at,
-          'סכום': Number(payment.amount) || 0,
+          'סכום': formatPaymentAmount(payment),
         },
       }));
       
       setPopupItems(items);
+      setPopupTotal(getPaymentsTotal(data || []));
       setPopupTitle(`תשלומים עם סטטוס: ${status}`);
       setPopupDescription(`נמצאו ${items.length} תשלומים עם סטטוס זה`);
       setPopupOpen(true);
@@ -277,7 +334,7 @@ const Analytics = () => {
     } finally {
       setPopupLoading(false);
     }
-  }, [showAllData, dateRange]);
+  }, [showAllData, dateRange, getPaymentsTotal]);
 
   const fetchCustomersByDate = useCallback(async (dateStr: string) => {
     setPopupLoading(true);
@@ -327,7 +384,7 @@ const Analytics = () => {
       
       const { data, error: fetchError } = await supabase
         .from('meetings')
-        .select('id, created_at, meeting_data')
+        .select('id, created_at, status, meeting_data')
         .gte('created_at', start.toISOString())
         .lte('created_at', end.toISOString())
         .order('created_at', { ascending: false });
@@ -337,7 +394,7 @@ const Analytics = () => {
       const items: ChartDataPopupItem[] = (data || []).map((meeting) => {
         const meetingData = meeting.meeting_data || {};
         const name = meetingData.name || meetingData['שם'] || 'ללא שם';
-        const status = meetingData.status || meetingData['סטטוס'] || 'ללא סטטוס';
+        const status = meeting.status || 'ללא סטטוס';
         
         return {
           id: meeting.id,
@@ -465,7 +522,7 @@ const Analytics = () => {
     try {
       let query = supabase
         .from('payments')
-        .select('id, created_at, amount, status, product_name')
+        .select('id, created_at, amount, currency, status, product_name')
         .eq('status', 'שולם');
       
       const dateFilter = showAllData ? null : (dateRange?.from && dateRange?.to ? {
@@ -486,15 +543,16 @@ const Analytics = () => {
       const items: ChartDataPopupItem[] = (data || []).map((payment) => ({
         id: payment.id,
         title: payment.product_name || 'ללא שם מוצר',
-        subtitle: formatCurrency(Number(payment.amount) || 0),
+        subtitle: formatPaymentAmount(payment),
         metadata: {
           'תאריך': payment.created_at,
-          'סכום': Number(payment.amount) || 0,
+          'סכום': formatPaymentAmount(payment),
           'סטטוס': payment.status || 'ללא סטטוס',
         },
       }));
       
       setPopupItems(items);
+      setPopupTotal(getPaymentsTotal(data || []));
       setPopupTitle('סה"כ הכנסות - תשלומים מאושרים');
       setPopupDescription(`נמצאו ${items.length} תשלומים מאושרים${dateFilter ? ' בתקופה הנבחרת' : ''}`);
       setPopupOpen(true);
@@ -504,14 +562,14 @@ const Analytics = () => {
     } finally {
       setPopupLoading(false);
     }
-  }, [showAllData, dateRange, formatCurrency]);
+  }, [showAllData, dateRange, getPaymentsTotal]);
 
   const fetchAllMeetings = useCallback(async () => {
     setPopupLoading(true);
     try {
       let query = supabase
         .from('meetings')
-        .select('id, created_at, meeting_data');
+        .select('id, created_at, status, meeting_data');
       
       const dateFilter = showAllData ? null : (dateRange?.from && dateRange?.to ? {
         from: startOfDay(dateRange.from).toISOString(),
@@ -531,7 +589,7 @@ const Analytics = () => {
       const items: ChartDataPopupItem[] = (data || []).map((meeting) => {
         const meetingData = meeting.meeting_data || {};
         const name = meetingData.name || meetingData['שם'] || 'ללא שם';
-        const status = meetingData.status || meetingData['סטטוס'] || 'ללא סטטוס';
+        const status = meeting.status || 'ללא סטטוס';
         
         return {
           id: meeting.id,
@@ -830,7 +888,7 @@ const Analytics = () => {
         },
       },
       yAxis: {
-        title: { text: 'סכום (₪)' },
+        title: { text: `סכום (${getCurrencySymbol(reportingCurrency)})` },
         labels: {
           style: {
             fontFamily: 'Heebo, system-ui, sans-serif',
@@ -844,7 +902,8 @@ const Analytics = () => {
         borderRadius: 8,
         shadow: { color: 'rgba(0, 0, 0, 0.1)', width: 2 },
         formatter: function() {
-          return `<b>${this.x}</b><br/>${formatCurrency(this.y as number)}`;
+          const original = formatOriginalAmounts(analyticsData.paymentsOverTime[this.index]?.originalAmounts);
+          return `<b>${this.x}</b><br/>${formatCurrency(this.y as number)}${original ? `<br/><span style="font-size: 11px">${original}</span>` : ''}`;
         },
       },
       plotOptions: {
@@ -887,7 +946,7 @@ const Analytics = () => {
         data: analyticsData.paymentsOverTime.map(item => item.amount),
       }],
     };
-  }, [analyticsData, fetchPaymentsByDate, formatCurrency]);
+  }, [analyticsData, fetchPaymentsByDate, formatCurrency, formatOriginalAmounts, reportingCurrency]);
 
   // Payments By Status Chart
   const paymentsByStatusOptions = useMemo((): Highcharts.Options => {
@@ -916,7 +975,8 @@ const Analytics = () => {
         borderRadius: 8,
         shadow: { color: 'rgba(0, 0, 0, 0.1)', width: 2 },
         formatter: function() {
-          return `<b>${this.point.name}</b><br/>${formatCurrency((this.point as any).amount || 0)}<br/>${this.y} תשלומים (${this.percentage.toFixed(1)}%)`;
+          const original = formatOriginalAmounts((this.options as { originalAmounts?: AmountsByCurrency }).originalAmounts);
+          return `<b>${this.point.name}</b><br/>${formatCurrency((this.point as any).amount || 0)}${original ? ` (${original})` : ''}<br/>${this.y} תשלומים (${this.percentage.toFixed(1)}%)`;
         },
       },
       plotOptions: {
@@ -959,11 +1019,12 @@ const Analytics = () => {
           name: item.status,
           y: item.count,
           amount: item.amount,
+          originalAmounts: item.originalAmounts,
         })),
         colors: ['#10b981', '#f59e0b', '#ef4444', '#6b7280'],
       }],
     };
-  }, [analyticsData, fetchPaymentsByStatus, formatCurrency]);
+  }, [analyticsData, fetchPaymentsByStatus, formatCurrency, formatOriginalAmounts]);
 
   // Customers Over Time Chart
   const customersOverTimeOptions = useMemo((): Highcharts.Options => {
@@ -1121,6 +1182,68 @@ const Analytics = () => {
     };
   }, [analyticsData, fetchMeetingsByDate]);
 
+  // No-show rate by meeting type / coach
+  const noShowOptions = useMemo((): Highcharts.Options => {
+    const breakdown = analyticsData
+      ? (noShowBreakdown === 'type' ? analyticsData.noShowByType : analyticsData.noShowByOwner)
+      : [];
+
+    return {
+      chart: {
+        type: 'column',
+        height: 350,
+        backgroundColor: 'transparent',
+      },
+      title: {
+        text: '',
+      },
+      credits: { enabled: false },
+      xAxis: {
+        categories: breakdown.map(item => item.label),
+        labels: {
+          style: {
+            fontFamily: 'Heebo, system-ui, sans-serif',
+            fontSize: '11px',
+          },
+        },
+      },
+      yAxis: {
+        title: { text: 'אחוז אי-הגעה' },
+        max: 100,
+        labels: {
+          format: '{value}%',
+          style: {
+            fontFamily: 'Heebo, system-ui, sans-serif',
+            fontSize: '11px',
+          },
+        },
+      },
+      tooltip: {
+        backgroundColor: 'rgba(255, 255, 255, 0.95)',
+        borderColor: '#e5e7eb',
+        borderRadius: 8,
+        shadow: { color: 'rgba(0, 0, 0, 0.1)', width: 2 },
+        formatter: function() {
+          const item = breakdown[this.index];
+          return item
+            ? `<b>${item.label}</b><br/>אי-הגעה: ${item.rate}%<br/>הגיעו: ${item.attended} · לא הגיעו: ${item.noShow}`
+            : '';
+        },
+      },
+      plotOptions: {
+        column: {
+          color: '#ef4444',
+          borderRadius: 4,
+        },
+      },
+      series: [{
+        type: 'column',
+        name: 'אחוז אי-הגעה',
+        data: breakdown.map(item => item.rate),
+      }],
+    };
+  }, [analyticsData, noShowBreakdown]);
+
   return (
     <>
       <DashboardHeader
@@ -1144,6 +1267,28 @@ const Analytics = () => {
                 <p className="text-gray-600 text-sm md:text-base">סקירה מקיפה של כל הנתונים והסטטיסטיקות</p>
               </div>
               <div className="flex items-center gap-4 flex-wrap">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={reportingCurrency}
+                    onValueChange={(value) => setReportingCurrency(value as CurrencyCode)}
+                    dir="rtl"
+                  >
+                    <SelectTrigger className="w-[150px]" title="מטבע דיווח">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map((currency) => (
+                        <SelectItem key={currency.code} value={currency.code}>
+                          {currency.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={() => setIsExchangeRatesOpen(true)}>
+                    <ArrowRightLeft className="h-4 w-4 ml-2" />
+                    שערי מטבע
+                  </Button>
+                </div>
                 <div className="flex items-center gap-2">
                   <input
                     type="checkbox"
@@ -1273,6 +1418,12 @@ const Analytics = () => {
               </div>
             )}
 
+            {analyticsData && analyticsData.unconvertedCurrencies.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-lg text-sm">
+                אין שער מטבע עבור {analyticsData.unconvertedCurrencies.join(', ')}. סכומים אלה לא נכללו בסכומים המומרים ל-{reportingCurrency} (ניתן להוסיף שער ב"שערי מטבע")
+              </div>
+            )}
+
             {isLoading ? (
               <div className="flex items-center justify-center py-12">
                 <div className="text-center">
@@ -1344,8 +1495,11 @@ const Analytics = () => {
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <div className="flex items-center gap-2 text-purple-100 text-sm">
+                      <div className="flex flex-col gap-1 text-purple-100 text-sm">
                         <span>תשלומים מאושרים</span>
+                        {formatOriginalAmounts(analyticsData.revenueByCurrency) && (
+                          <span className="text-xs">{formatOriginalAmounts(analyticsData.revenueByCurrency)}</span>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -1480,7 +1634,21 @@ const Analytics = () => {
                       </div>
                       <div className="flex justify-between items-center p-4 bg-gradient-to-r from-gray-50 to-gray-100 rounded-lg border border-gray-200">
                         <span className="text-gray-700 font-medium">סה"כ גבייה</span>
-                        <span className="font-bold text-gray-900 text-xl">{formatCurrency(analyticsData.totalCollectionsAmount)}</span>
+                        <div className="text-left">
+                          <span className="font-bold text-gray-900 text-xl">{formatCurrency(analyticsData.totalCollectionsAmount)}</span>
+                          {formatOriginalAmounts(analyticsData.collectionsAmountByCurrency) && (
+                            <p className="text-xs text-gray-500">{formatOriginalAmounts(analyticsData.collectionsAmountByCurrency)}</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex justify-between items-center p-4 bg-gradient-to-r from-gray-50 to-gray-100 rounded-lg border border-gray-200">
+                        <span className="text-gray-700 font-medium">יתרה פתוחה לגבייה</span>
+                        <div className="text-left">
+                          <span className="font-bold text-gray-900 text-xl">{formatCurrency(analyticsData.totalCollectionsRemaining)}</span>
+                          {formatOriginalAmounts(analyticsData.collectionsRemainingByCurrency) && (
+                            <p className="text-xs text-gray-500">{formatOriginalAmounts(analyticsData.collectionsRemainingByCurrency)}</p>
+                          )}
+                        </div>
                       </div>
                       <div className="flex justify-between items-center p-4 bg-gradient-to-r from-gray-50 to-gray-100 rounded-lg border border-gray-200">
                         <span className="text-gray-700 font-medium">מספר גבייה</span>
@@ -1488,6 +1656,95 @@ const Analytics = () => {
                       </div>
                     </CardContent>
                   </Card>
+
+                  {/* Meeting No-Shows */}
+                  <Card className="shadow-md hover:shadow-lg transition-shadow lg:col-span-2">
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                      <div>
+                        <CardTitle className="text-lg font-semibold">אי-הגעה לפגישות</CardTitle>
+                        <CardDescription>
+                          {analyticsData.noShowRate}% אי-הגעה · {analyticsData.attendedMeetings} הגיעו, {analyticsData.noShowMeetings} לא הגיעו
+                        </CardDescription>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant={noShowBreakdown === 'type' ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setNoShowBreakdown('type')}
+                        >
+                          לפי סוג פגישה
+                        </Button>
+                        <Button
+                          variant={noShowBreakdown === 'owner' ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setNoShowBreakdown('owner')}
+                        >
+                          לפי מאמן
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="pt-2">
+                      {analyticsData.attendedMeetings + analyticsData.noShowMeetings > 0 ? (
+                        <HighchartsReact
+                          highcharts={Highcharts}
+                          options={noShowOptions}
+                        />
+                      ) : (
+                        <p className="py-12 text-center text-sm text-gray-500">
+                          עדיין לא סומנה הגעה לפגישות בטווח התאריכים שנבחר
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  {/* Coach Caseloads */}
+                  <Card className="shadow-md hover:shadow-lg transition-shadow lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle className="text-lg font-semibold">עומס מתאמנים לפי מאמן</CardTitle>
+                      <CardDescription>
+                        מתאמנים פעילים וסה"כ לידים לכל מאמן; לידים חדשים לפי טווח התאריכים שנבחר
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="pt-2">
+                      {analyticsData.coachCaseloads.length > 0 ? (
+                        <Table dir="rtl">
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="text-right">מאמן</TableHead>
+                              <TableHead className="text-right">מתאמנים פעילים</TableHead>
+                              <TableHead className="text-right">סה"כ לידים</TableHead>
+                              <TableHead className="text-right">לידים חדשים</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {analyticsData.coachCaseloads.map((row) => (
+                              <TableRow key={row.coach_id || 'unassigned'}>
+                                <TableCell className="font-medium">
+                                  {row.coach_id ? (
+                                    <span className="flex items-center gap-2">
+                                      {row.coach_name}
+                                      {!row.is_active && (
+                                        <span className="text-xs text-amber-600">(לא פעיל)</span>
+                                      )}
+                                    </span>
+                                  ) : (
+                                    <span className="text-gray-500">ללא מאמן</span>
+                                  )}
+                                </TableCell>
+                                <TableCell>{row.active_trainees}</TableCell>
+                                <TableCell>{row.total_leads}</TableCell>
+                                <TableCell>{row.new_leads}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      ) : (
+                        <p className="py-12 text-center text-sm text-gray-500">
+                          עדיין לא שויכו לידים למאמנים
+                        </p>
+                      )}
+                    </CardContent>
+                  </Card>
                 </div>
               </>
             ) : null}
@@ -1498,12 +1755,17 @@ const Analytics = () => {
       {/* Chart Data Popup */}
       <ChartDataPopup
         open={popupOpen}
-        onOpenChange={setPopupOpen}
+        onOpenChange={handlePopupOpenChange}
         title={popupTitle}
         description={popupDescription}
         items={popupItems}
         isLoading={popupLoading}
+        currency={reportingCurrency}
+        totalAmount={popupTotal?.amount}
+        originalAmounts={popupTotal?.originalAmounts}
       />
+
+      <ExchangeRatesDialog isOpen={isExchangeRatesOpen} onOpenChange={setIsExchangeRatesOpen} />
     </>
   );
 };
@@ -0,0 +1,286 @@
+/**
+ * BookMeeting Page
+ *
+ * Public self-service booking page (/book/:slug)
+ * Visitors pick a free slot from the coach's availability and leave their details;
+ * the public-booking edge function creates the meeting (and the lead when needed).
+ */
+
+import { useMemo, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { he } from 'date-fns/locale';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CalendarCheck, CheckCircle2, Clock, Loader2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { bookMeeting, getBookingPage, PublicBookingError } from '@/services/publicBookingService';
+import type { BookingSlot } from '@/utils/bookingSlots';
+
+const formatSlotDate = (date: string) => format(new Date(`${date}T00:00:00`), 'EEEE, d בMMMM', { locale: he });
+
+export const BookMeeting = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<BookingSlot | null>(null);
+  const [form, setForm] = useState({ full_name: '', phone: '', email: '', notes: '' });
+  const [formError, setFormError] = useState('');
+
+  const { data: page, isLoading, error, refetch } = useQuery({
+    queryKey: ['public-booking', slug],
+    queryFn: () => getBookingPage(slug),
+    enabled: !!slug,
+    retry: false,
+    staleTime: 60 * 1000,
+  });
+
+  const booking = useMutation({
+    mutationFn: bookMeeting,
+    onError: (bookingError) => {
+      if (bookingError instanceof PublicBookingError && bookingError.code === 'SLOT_TAKEN') {
+        setSelectedSlot(null);
+        setFormError('המועד שבחרת נתפס כרגע. אנא בחר מועד אחר.');
+        refetch();
+        return;
+      }
+      if (bookingError instanceof PublicBookingError && bookingError.code === 'TOO_MANY_ATTEMPTS') {
+        setFormError('בוצעו יותר מדי ניסיונות לקביעת פגישה. אנא נסה שוב מאוחר יותר.');
+        return;
+      }
+      setFormError('לא הצלחנו לקבוע את הפגישה. אנא נסה שוב.');
+    },
+  });
+
+  const slotsByDate = useMemo(() => {
+    const grouped = new Map<string, BookingSlot[]>();
+    (page?.slots || []).forEach((slot) => {
+      grouped.set(slot.date, [...(grouped.get(slot.date) || []), slot]);
+    });
+    return grouped;
+  }, [page?.slots]);
+
+  const dates = Array.from(slotsByDate.keys());
+  const activeDate = selectedDate && slotsByDate.has(selectedDate) ? selectedDate : dates[0] || null;
+
+  const handleSubmit = () => {
+    setFormError('');
+
+    if (!selectedSlot) return;
+    if (form.full_name.trim().length < 2) {
+      setFormError('אנא הזן שם מלא');
+      return;
+    }
+    if (form.phone.replace(/\D/g, '').length < 9) {
+      setFormError('אנא הזן מספר טלפון תקין');
+      return;
+    }
+
+    booking.mutate({
+      slug,
+      start_time: selectedSlot.start,
+      full_name: form.full_name.trim(),
+      phone: form.phone.trim(),
+      email: form.email.trim() || undefined,
+      notes: form.notes.trim() || undefined,
+    });
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <div className="text-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-[#5B6FB9]" />
+          <p className="text-gray-600">טוען מועדים פנויים...</p>
+        </div>
+      );
+    }
+
+    if (error || !page) {
+      return (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-semibold mb-1">העמוד לא נמצא</p>
+            <p className="text-sm">ייתכן שהקישור שגוי או שקביעת הפגישות אינה זמינה כרגע.</p>
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (booking.isSuccess && selectedSlot) {
+      return (
+        <Alert className="border-green-200 bg-green-50">
+          <CheckCircle2 className="h-4 w-4 text-green-600" />
+          <AlertDescription className="text-green-800">
+            <p className="font-semibold mb-2">הפגישה נקבעה!</p>
+            <p className="text-sm">
+              {formatSlotDate(selectedSlot.date)} בשעה {selectedSlot.time}
+            </p>
+            <p className="text-sm mt-1">נשלח אליך אישור בוואטסאפ בקרוב.</p>
+          </AlertDescription>
+        </Alert>
+      );
+    }
+
+    if (selectedSlot) {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between rounded-lg bg-blue-50 border border-blue-100 px-3 py-2 text-sm text-blue-800">
+            <span className="flex items-center gap-2">
+              <Clock className="h-4 w-4" />
+              {formatSlotDate(selectedSlot.date)} · {selectedSlot.time}
+            </span>
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedSlot(null)} disabled={booking.isPending}>
+              שינוי מועד
+            </Button>
+          </div>
+
+          {formError && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>
+                <p className="text-sm">{formError}</p>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="full_name">שם מלא</Label>
+            <Input
+              id="full_name"
+              value={form.full_name}
+              onChange={(e) => setForm((prev) => ({ ...prev, full_name: e.target.value }))}
+              disabled={booking.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="phone">טלפון (וואטסאפ)</Label>
+            <Input
+              id="phone"
+              type="tel"
+              value={form.phone}
+              onChange={(e) => setForm((prev) => ({ ...prev, phone: e.target.value }))}
+              placeholder="050-0000000"
+              dir="ltr"
+              className="text-right"
+              disabled={booking.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="email">אימייל (לא חובה)</Label>
+            <Input
+              id="email"
+              type="email"
+              value={form.email}
+              onChange={(e) => setForm((prev) => ({ ...prev, email: e.target.value }))}
+              dir="ltr"
+              className="text-right"
+              disabled={booking.isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notes">משהו שחשוב לך שנדע? (לא חובה)</Label>
+            <Textarea
+              id="notes"
+              value={form.notes}
+              onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+              className="min-h-[80px]"
+              disabled={booking.isPending}
+            />
+          </div>
+
+          <Button
+            onClick={handleSubmit}
+            disabled={booking.isPending}
+            className="w-full bg-[#5B6FB9] hover:bg-[#5B6FB9]/90"
+          >
+            {booking.isPending ? (
+              <>
+                <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                קובע פגישה...
+              </>
+            ) : (
+              'קבע פגישה'
+            )}
+          </Button>
+        </div>
+      );
+    }
+
+    if (dates.length === 0) {
+      return <p className="py-6 text-center text-gray-600">אין כרגע מועדים פנויים. אנא נסה שוב מאוחר יותר.</p>;
+    }
+
+    return (
+      <div className="space-y-4">
+        {formError && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertDescription>
+              <p className="text-sm">{formError}</p>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {dates.map((date) => (
+            <Button
+              key={date}
+              variant="outline"
+              size="sm"
+              onClick={() => setSelectedDate(date)}
+              className={cn(
+                'flex-shrink-0',
+                date === activeDate && 'border-[#5B6FB9] bg-[#5B6FB9]/10 text-[#5B6FB9]'
+              )}
+            >
+              {formatSlotDate(date)}
+            </Button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {(activeDate ? slotsByDate.get(activeDate) || [] : []).map((slot) => (
+            <Button
+              key={slot.start}
+              variant="outline"
+              onClick={() => {
+                setFormError('');
+                setSelectedSlot(slot);
+              }}
+              className="hover:border-[#5B6FB9] hover:text-[#5B6FB9]"
+            >
+              {slot.time}
+            </Button>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4" dir="rtl">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-center flex items-center justify-center gap-2">
+            <CalendarCheck className="h-6 w-6 text-[#5B6FB9]" />
+            קביעת פגישה
+          </CardTitle>
+          {page && (
+            <CardDescription className="text-center">
+              {page.meeting_type}
+              {page.coach_name && ` עם ${page.coach_name}`}
+              {` · ${page.slot_duration_minutes} דקות`}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -17,6 +17,7 @@ import { useAppSelector, useAppDispatch } from '@/store/hooks';
 import { logoutUser } from '@/store/slices/authSlice';
 import { selectCustomerNotes, fetchCustomerNotes } from '@/store/slices/leadViewSlice';
 import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/utils/currency';
 
 export const useCollectionDetailView = () => {
   const { id } = useParams<{ id: string }>();
@@ -173,24 +174,15 @@ export const useCollectionDetailView = () => {
   };
 
   const formattedTotalAmount = collection
-    ? new Intl.NumberFormat('he-IL', {
-        style: 'currency',
-        currency: 'ILS',
-      }).format(collection.total_amount)
+    ? formatMoney(collection.total_amount, collection.currency)
     : '₪ 0.00';
 
   const formattedPaidAmount = collection
-    ? new Intl.NumberFormat('he-IL', {
-        style: 'currency',
-        currency: 'ILS',
-      }).format(collection.paid_amount || 0)
+    ? formatMoney(collection.paid_amount || 0, collection.currency)
     : '₪ 0.00';
 
   const formattedRemainingAmount = collection
-    ? new Intl.NumberFormat('he-IL', {
-        style: 'currency',
-        currency: 'ILS',
-      }).format(collection.remaining_amount || 0)
+    ? formatMoney(collection.remaining_amount || 0, collection.currency)
     : '₪ 0.00';
 
   return {
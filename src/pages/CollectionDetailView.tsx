@@ -6,6 +6,7 @@
  * - ClientHero header (same as customer page)
  * - Tabs below header: הערות, היסטוריה, צפה כמתאמן, תשלומים, WhatsApp
  * - Three vertical panels: Client Details, Collection Details, Notes (using CustomerNotesSidebar)
+ * - Below the panels: ledger (payments, refunds and running balance) and change history tabs
  */
 
 import { useNavigate } from 'react-router-dom';
@@ -15,9 +16,12 @@ import { ClientHero } from '@/components/dashboard/ClientHero';
 import { ClientHeroBar } from '@/components/dashboard/ClientHeroBar';
 import { ResizableNotesPanel } from '@/components/dashboard/ResizableNotesPanel';
 import { LeadSidebarContainer } from '@/components/dashboard/LeadSidebarContainer';
+import { CollectionLedgerCard } from '@/components/dashboard/CollectionLedgerCard';
+import { EntityHistoryList } from '@/components/dashboard/EntityHistoryList';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useCollectionDetailView } from './CollectionDetailView';
 import { useSidebarWidth } from '@/hooks/useSidebarWidth';
 import {
@@ -27,6 +31,7 @@ import {
   Wallet,
   DollarSign,
   FileText,
+  AlertTriangle,
 } from 'lucide-react';
 import { formatDate } from '@/utils/dashboard';
 import { cn } from '@/lib/utils';
@@ -358,20 +363,28 @@ const CollectionDetailView = () => {
                       </div>
                       <div>
                         <label className="text-xs font-semibold text-gray-500 block mb-1">סטטוס</label>
-                        <Badge
-                          className={cn(
-                            'text-xs font-semibold px-2.5 py-1 border',
-                            statusConfig.className
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            className={cn(
+                              'text-xs font-semibold px-2.5 py-1 border',
+                              statusConfig.className
+                            )}
+                          >
+                            {statusConfig.label}
+                          </Badge>
+                          {collection.is_overdue && (
+                            <Badge className="text-xs font-semibold px-2.5 py-1 border bg-red-50 text-red-700 border-red-200">
+                              <AlertTriangle className="h-3 w-3 ml-1" />
+                              באיחור {collection.days_overdue} ימים
+                            </Badge>
                           )}
-                        >
-                          {statusConfig.label}
-                        </Badge>
+                        </div>
                       </div>
                       <div>
                         <label className="text-xs font-semibold text-gray-500 block mb-1">תאריך יעד</label>
                         <div className="flex items-center gap-2">
-                          <Calendar className="h-4 w-4 text-gray-400" />
-                          <p className="text-sm text-gray-900">
+                          <Calendar className={cn('h-4 w-4', collection.is_overdue ? 'text-red-400' : 'text-gray-400')} />
+                          <p className={cn('text-sm', collection.is_overdue ? 'text-red-600 font-semibold' : 'text-gray-900')}>
                             {collection.due_date ? formatDate(collection.due_date) : '-'}
                           </p>
                         </div>
@@ -407,6 +420,26 @@ const CollectionDetailView = () => {
                     </div>
                   </Card>
                 </div>
+
+                {/* Ledger (amount due, payments, refunds and running balance) and the change history of the collection */}
+                <Tabs defaultValue="ledger" dir="rtl" className="mt-4 w-full">
+                  <TabsList className="h-10 bg-gray-100 rounded-lg p-1 gap-1 mb-3">
+                    <TabsTrigger value="ledger" className="whitespace-nowrap px-3 text-xs sm:text-sm font-semibold rounded-md data-[state=active]:bg-[#E0F2FE] data-[state=active]:text-[#0C4A6E] data-[state=active]:shadow-sm data-[state=inactive]:text-[#0C4A6E]/70 data-[state=inactive]:hover:bg-[#E0F2FE]/50 transition-all">
+                      כרטסת
+                    </TabsTrigger>
+                    <TabsTrigger value="history" className="whitespace-nowrap px-3 text-xs sm:text-sm font-semibold rounded-md data-[state=active]:bg-[#E0F2FE] data-[state=active]:text-[#0C4A6E] data-[state=active]:shadow-sm data-[state=inactive]:text-[#0C4A6E]/70 data-[state=inactive]:hover:bg-[#E0F2FE]/50 transition-all">
+                      היסטוריית שינויים
+                    </TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="ledger" className="mt-0">
+                    <CollectionLedgerCard collection={collection} />
+                  </TabsContent>
+                  <TabsContent value="history" className="mt-0">
+                    <Card className="p-4 border border-slate-200 rounded-xl shadow-sm bg-white" style={{ minWidth: 0 }}>
+                      <EntityHistoryList scope={{ tableName: 'collections', recordId: collection.id }} />
+                    </Card>
+                  </TabsContent>
+                </Tabs>
               </div>
             </div>
           </main>
@@ -22,6 +22,7 @@ import { groupDataByKeys, getTotalGroupsCount } from '@/utils/groupDataByKey';
 import { useDefaultView } from '@/hooks/useDefaultView';
 import { useSavedView } from '@/hooks/useSavedViews';
 import { AddCollectionDialog } from '@/components/dashboard/dialogs/AddCollectionDialog';
+import { FinanceExportMenu } from '@/components/dashboard/FinanceExportMenu';
 import { Button } from '@/components/ui/button';
 import { Plus } from 'lucide-react';
 
@@ -134,14 +135,17 @@ const CollectionsManagement = () => {
             enableSearch={true}
             columns={collectionColumns}
             customActions={
-              <Button
-                onClick={() => setIsAddCollectionDialogOpen(true)}
-                className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
-                size="sm"
-              >
-                <Plus className="h-4 w-4" />
-                <span>צור גביה</span>
-              </Button>
+              <>
+                <Button
+                  onClick={() => setIsAddCollectionDialogOpen(true)}
+                  className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
+                  size="sm"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>צור גביה</span>
+                </Button>
+                <FinanceExportMenu resourceKey="collections" />
+              </>
             }
           />
         </div>
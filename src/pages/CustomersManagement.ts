@@ -9,7 +9,7 @@ import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useDefaultView } from '@/hooks/useDefaultView';
 import { useSavedView } from '@/hooks/useSavedViews';
 import { useSyncSavedViewFilters } from '@/hooks/useSyncSavedViewFilters';
-import { useCustomers } from '@/hooks/useCustomers';
+import { useCustomers, fetchCustomerIdsByFilter } from '@/hooks/useCustomers';
 import { useBulkDeleteRecords } from '@/hooks/useBulkDeleteRecords';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { logoutUser } from '@/store/slices/authSlice';
@@ -158,6 +158,28 @@ export const useCustomersManagement = () => {
     });
   };
 
+  // WhatsApp broadcast - selected customers, or every customer matching the current filter
+  const [broadcastTarget, setBroadcastTarget] = useState<{ ids: string[]; selectAllAcrossPages: boolean } | null>(null);
+
+  const handleBulkBroadcast = useCallback((payload: { ids: string[]; selectAllAcrossPages: boolean }) => {
+    setBroadcastTarget({ ids: payload.ids, selectAllAcrossPages: payload.selectAllAcrossPages });
+  }, []);
+
+  const broadcastRecipientCount = broadcastTarget?.selectAllAcrossPages
+    ? totalCustomers
+    : broadcastTarget?.ids.length || 0;
+
+  const resolveBroadcastCustomerIds = useCallback(async () => {
+    if (!broadcastTarget) return [];
+    return broadcastTarget.selectAllAcrossPages
+      ? await fetchCustomerIdsByFilter({ searchQuery, filterGroup })
+      : broadcastTarget.ids;
+  }, [broadcastTarget, searchQuery, filterGroup]);
+
+  const broadcastFilterSnapshot = broadcastTarget?.selectAllAcrossPages
+    ? { searchQuery, filterGroup, viewId }
+    : { ids: broadcastTarget?.ids || [] };
+
   return {
     // Data
     customers, // Raw customers data
@@ -174,6 +196,9 @@ export const useCustomersManagement = () => {
     pageSize,
     sortBy,
     sortOrder,
+    broadcastTarget,
+    broadcastRecipientCount,
+    broadcastFilterSnapshot,
     
     // Handlers
     handleSaveViewClick,
@@ -181,6 +206,9 @@ export const useCustomersManagement = () => {
     handleLogout,
     getCurrentFilterConfig,
     handleBulkDelete,
+    handleBulkBroadcast,
+    setBroadcastTarget,
+    resolveBroadcastCustomerIds,
     handleSortChange,
     handlePageChange,
     handlePageSizeChange,
@@ -10,7 +10,10 @@ import { TableActionHeader } from '@/components/dashboard/TableActionHeader';
 import { SaveViewModal } from '@/components/dashboard/SaveViewModal';
 import { CustomersDataTable } from '@/components/dashboard/CustomersDataTable';
 import { AddLeadDialog } from '@/components/dashboard/AddLeadDialog';
+import { WhatsAppBroadcastDialog } from '@/components/dashboard/WhatsAppBroadcastDialog';
 import { Pagination } from '@/components/dashboard/Pagination';
+import { Button } from '@/components/ui/button';
+import { Send } from 'lucide-react';
 import { useAppSelector } from '@/store/hooks';
 import { getCustomerFilterFields } from '@/hooks/useTableFilters';
 import { customerColumns } from '@/components/dashboard/columns/customerColumns';
@@ -48,6 +51,12 @@ const CustomersManagement = () => {
     handlePageChange,
     handlePageSizeChange,
     handleBulkDelete,
+    handleBulkBroadcast,
+    broadcastTarget,
+    setBroadcastTarget,
+    broadcastRecipientCount,
+    broadcastFilterSnapshot,
+    resolveBroadcastCustomerIds,
     sortBy,
     sortOrder,
     handleSortChange,
@@ -194,6 +203,18 @@ const CustomersManagement = () => {
             enableGroupBy={true}
             enableSearch={true}
             columns={customerColumns}
+            customActions={
+              <Button
+                variant="outline"
+                onClick={() => handleBulkBroadcast({ ids: [], selectAllAcrossPages: true })}
+                disabled={!totalCustomers}
+                className="rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
+                size="sm"
+              >
+                <Send className="h-4 w-4" />
+                <span>שליחת הודעה</span>
+              </Button>
+            }
           />
         </div>
 
@@ -211,6 +232,7 @@ const CustomersManagement = () => {
               <CustomersDataTable 
                 customers={filteredCustomers} 
                 onBulkDelete={handleBulkDelete}
+                onBulkBroadcast={handleBulkBroadcast}
                 onSortChange={handleSortChange}
                 sortBy={sortBy || undefined}
                 sortOrder={sortOrder || undefined}
@@ -257,6 +279,16 @@ const CustomersManagement = () => {
         onLeadCreated={handleLeadCreated}
       />
 
+      {/* WhatsApp Broadcast Dialog */}
+      <WhatsAppBroadcastDialog
+        isOpen={!!broadcastTarget}
+        onOpenChange={(open) => !open && setBroadcastTarget(null)}
+        audience="customers"
+        recipientCount={broadcastRecipientCount}
+        resolveRecipientIds={resolveBroadcastCustomerIds}
+        filterSnapshot={broadcastFilterSnapshot}
+      />
+
       <SaveViewModal
         isOpen={isSaveViewModalOpen}
         onOpenChange={setIsSaveViewModalOpen}
@@ -4,6 +4,8 @@ import { LeadsDataTable } from '@/components/dashboard/LeadsDataTable';
 import { AddLeadDialog } from '@/components/dashboard/AddLeadDialog';
 import { SaveViewModal } from '@/components/dashboard/SaveViewModal';
 import { TableActionHeader } from '@/components/dashboard/TableActionHeader';
+import { WhatsAppBroadcastDialog } from '@/components/dashboard/WhatsAppBroadcastDialog';
+import { LeadAssignmentSettingsDialog } from '@/components/dashboard/LeadAssignmentSettingsDialog';
 import { Pagination } from '@/components/dashboard/Pagination';
 import { allLeadColumns } from '@/components/dashboard/columns/leadColumns';
 import { useDashboardLogic } from '@/hooks/useDashboardLogic';
@@ -14,7 +16,10 @@ import { selectActiveFilters, selectColumnOrder, selectColumnSizing, selectFilte
 import { groupDataByKeys, getTotalGroupsCount, getAllGroupKeys } from '@/utils/groupDataByKey';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabaseClient';
+import { Button } from '@/components/ui/button';
+import { Send, Shuffle } from 'lucide-react';
 import { useSyncSavedViewFilters } from '@/hooks/useSyncSavedViewFilters';
+import { useLeadAssigneeScope, type LeadAssigneeScope } from '@/hooks/useLeadAssignment';
 
 const Dashboard = () => {
   const [searchParams] = useSearchParams();
@@ -26,6 +31,8 @@ const Dashboard = () => {
   const columnOrder = useAppSelector((state) => selectColumnOrder(state, 'leads'));
   const columnSizing = useAppSelector((state) => selectColumnSizing(state, 'leads'));
   const isGroupingActive = !!(groupByKeys[0] || groupByKeys[1]);
+  const { scope: assigneeScope, setScope: setAssigneeScope, assignedTo } = useLeadAssigneeScope();
+  const [isAssignmentSettingsOpen, setIsAssignmentSettingsOpen] = useState(false);
 
   // Safety check: Redirect trainees immediately
   useEffect(() => {
@@ -72,7 +79,7 @@ const Dashboard = () => {
     sortOrder,
     handleSortChange,
     entityConfig, // Config from Backend
-  } = useDashboardLogic({ filterGroup });
+  } = useDashboardLogic({ filterGroup, assignedTo });
 
   // Merge local columns with backend config
   const mergedColumns = useMemo(() => {
@@ -133,6 +140,11 @@ const Dashboard = () => {
   }, [entityConfig]);
 
 
+  const handleAssigneeScopeChange = useCallback((scope: LeadAssigneeScope) => {
+    setAssigneeScope(scope);
+    handlePageChange(1);
+  }, [setAssigneeScope, handlePageChange]);
+
   // Group pagination state (separate from record pagination)
   // Use the same pageSize as regular pagination for consistency, but allow it to be changed
   const [groupCurrentPage, setGroupCurrentPage] = useState(1);
@@ -181,7 +193,7 @@ const Dashboard = () => {
   const handleBulkDelete = useCallback(
     async (payload: { ids: string[]; selectAllAcrossPages: boolean }) => {
       const idsToDelete = payload.selectAllAcrossPages
-        ? await fetchLeadIdsByFilter({ searchQuery, filterGroup })
+        ? await fetchLeadIdsByFilter({ searchQuery, filterGroup, assignedTo })
         : payload.ids;
 
       if (!idsToDelete.length) return;
@@ -200,13 +212,13 @@ const Dashboard = () => {
 
       refreshLeads();
     },
-    [searchQuery, filterGroup, toast, refreshLeads]
+    [searchQuery, filterGroup, assignedTo, toast, refreshLeads]
   );
 
   const handleBulkEdit = useCallback(
     async (payload: { ids: string[]; selectAllAcrossPages: boolean; totalCount: number; updates: Record<string, any> }) => {
       const idsToUpdate = payload.selectAllAcrossPages
-        ? await fetchLeadIdsByFilter({ searchQuery, filterGroup })
+        ? await fetchLeadIdsByFilter({ searchQuery, filterGroup, assignedTo })
         : payload.ids;
 
       if (!idsToUpdate.length || Object.keys(payload.updates).length === 0) return;
@@ -225,9 +237,26 @@ const Dashboard = () => {
 
       refreshLeads();
     },
-    [searchQuery, filterGroup, toast, refreshLeads]
+    [searchQuery, filterGroup, assignedTo, toast, refreshLeads]
+  );
+
+  // WhatsApp broadcast - selected leads, or every lead matching the current filter
+  const [broadcastTarget, setBroadcastTarget] = useState<{ ids: string[]; selectAllAcrossPages: boolean; totalCount: number } | null>(null);
+
+  const handleBulkBroadcast = useCallback(
+    (payload: { ids: string[]; selectAllAcrossPages: boolean; totalCount: number }) => {
+      setBroadcastTarget(payload);
+    },
+    []
   );
 
+  const resolveBroadcastLeadIds = useCallback(async () => {
+    if (!broadcastTarget) return [];
+    return broadcastTarget.selectAllAcrossPages
+      ? await fetchLeadIdsByFilter({ searchQuery, filterGroup, assignedTo })
+      : broadcastTarget.ids;
+  }, [broadcastTarget, searchQuery, filterGroup, assignedTo]);
+
   useSyncSavedViewFilters('leads', savedView, isLoadingView);
 
   // Show save suggestion when filters change
@@ -295,6 +324,49 @@ const Dashboard = () => {
             enableSearch={true}
             columns={mergedColumns}
             getAllGroupKeys={getAllGroupKeysFn}
+            customActions={
+              <>
+                <div className="flex items-center rounded-lg border border-gray-200 p-0.5 flex-shrink-0">
+                  <Button
+                    variant={assigneeScope === 'mine' ? 'default' : 'ghost'}
+                    onClick={() => handleAssigneeScopeChange('mine')}
+                    className="rounded-md h-9 sm:h-10 px-3 text-sm"
+                    size="sm"
+                  >
+                    המתאמנים שלי
+                  </Button>
+                  <Button
+                    variant={assigneeScope === 'all' ? 'default' : 'ghost'}
+                    onClick={() => handleAssigneeScopeChange('all')}
+                    className="rounded-md h-9 sm:h-10 px-3 text-sm"
+                    size="sm"
+                  >
+                    כל הלידים
+                  </Button>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => handleBulkBroadcast({ ids: [], selectAllAcrossPages: true, totalCount: totalLeads || 0 })}
+                  disabled={!totalLeads}
+                  className="rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
+                  size="sm"
+                >
+                  <Send className="h-4 w-4" />
+                  <span>שליחת הודעה</span>
+                </Button>
+                {authUser?.role === 'admin' && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setIsAssignmentSettingsOpen(true)}
+                    className="rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
+                    size="sm"
+                  >
+                    <Shuffle className="h-4 w-4" />
+                    <span>חלוקת לידים</span>
+                  </Button>
+                )}
+              </>
+            }
           />
         </div>
 
@@ -331,6 +403,7 @@ const Dashboard = () => {
                 totalCount={totalLeads}
                 onBulkDelete={handleBulkDelete}
                 onBulkEdit={handleBulkEdit}
+                onBulkBroadcast={handleBulkBroadcast}
                 singularLabel="ליד"
                 pluralLabel="לידים"
               />
@@ -339,7 +412,9 @@ const Dashboard = () => {
             <div className="p-8 text-center text-gray-500 h-full flex items-center justify-center">
               <div>
                 <p className="text-lg font-medium mb-2">לא נמצאו תוצאות</p>
-                <p className="text-sm">נסה לשנות את פרמטרי החיפוש</p>
+                <p className="text-sm">
+                  {assigneeScope === 'mine' ? 'מוצגים רק המתאמנים שלך. ניתן לעבור ל"כל הלידים"' : 'נסה לשנות את פרמטרי החיפוש'}
+                </p>
                 {!isLoading && totalLeads === 0 && (
                   <p className="text-xs text-gray-400 mt-2">
                     מספר לידים: 0
@@ -375,6 +450,25 @@ const Dashboard = () => {
         onLeadCreated={refreshLeads}
       />
 
+      {/* WhatsApp Broadcast Dialog */}
+      <WhatsAppBroadcastDialog
+        isOpen={!!broadcastTarget}
+        onOpenChange={(open) => !open && setBroadcastTarget(null)}
+        audience="leads"
+        recipientCount={broadcastTarget?.selectAllAcrossPages ? broadcastTarget.totalCount : broadcastTarget?.ids.length || 0}
+        resolveRecipientIds={resolveBroadcastLeadIds}
+        filterSnapshot={
+          broadcastTarget?.selectAllAcrossPages
+            ? { searchQuery, filterGroup, viewId, assignedTo }
+            : { ids: broadcastTarget?.ids || [] }
+        }
+      />
+
+      <LeadAssignmentSettingsDialog
+        isOpen={isAssignmentSettingsOpen}
+        onOpenChange={setIsAssignmentSettingsOpen}
+      />
+
       {/* Save View Modal */}
       <SaveViewModal
         isOpen={isSaveViewModalOpen}
@@ -19,7 +19,7 @@ import { LeadSidebarContainer } from '@/components/dashboard/LeadSidebarContaine
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { useMeeting, useDeleteMeeting } from '@/hooks/useMeetings';
+import { useMeeting, useDeleteMeeting, useUpdateMeetingAttendance } from '@/hooks/useMeetings';
 import { useSidebarWidth } from '@/hooks/useSidebarWidth';
 import { useAppSelector, useAppDispatch } from '@/store/hooks';
 import { logoutUser } from '@/store/slices/authSlice';
@@ -30,7 +30,10 @@ import {
   Handshake,
   Trash2,
   ChevronRight,
-  Pencil
+  Pencil,
+  MapPin,
+  Video,
+  CalendarPlus
 } from 'lucide-react';
 import { formatDate } from '@/utils/dashboard';
 import { cn } from '@/lib/utils';
@@ -52,6 +55,17 @@ import {
 } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { MeetingDialog } from '@/components/dashboard/dialogs/MeetingDialog';
+import { MeetingActionDashboard } from '@/components/dashboard/MeetingActionDashboard';
+import {
+  getMeetingDate,
+  getMeetingEnd,
+  getMeetingOwnerName,
+  getMeetingStart,
+  getMeetingStatusValue,
+  getMeetingTimeDisplayValue,
+  type MeetingAttendanceStatus,
+} from '@/components/dashboard/calendar/utils';
+import { downloadMeetingsIcs } from '@/utils/ics';
 
 // Meeting type configuration
 const MEETING_TYPES = {
@@ -93,6 +107,7 @@ const MeetingDetailView = () => {
   const sidebarWidth = useSidebarWidth();
   const { data: meeting, isLoading, error: meetingError } = useMeeting(id || null);
   const deleteMeeting = useDeleteMeeting();
+  const updateAttendance = useUpdateMeetingAttendance();
   const { toast } = useToast();
 
   // Get customer from meeting
@@ -212,6 +227,24 @@ const MeetingDetailView = () => {
     }
   };
 
+  const handleAttendanceChange = async (attendanceStatus: MeetingAttendanceStatus | null) => {
+    if (!meeting?.id) return;
+
+    try {
+      await updateAttendance.mutateAsync({ meetingId: meeting.id, attendanceStatus });
+      toast({
+        title: 'הצלחה',
+        description: attendanceStatus ? 'סטטוס ההגעה עודכן' : 'סטטוס ההגעה נוקה',
+      });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: (error as Error)?.message || 'נכשל בעדכון סטטוס ההגעה',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const getStatusColor = (status: string) => {
     const statusStr = String(status);
     if (statusStr.includes('בוטל') || statusStr.includes('מבוטל')) return 'bg-red-50 text-red-700 border-red-200';
@@ -242,24 +275,16 @@ const MeetingDetailView = () => {
 
   // Calculate meeting duration
   const meetingDuration = useMemo(() => {
-    if (!meeting?.meeting_data) return null;
-    const mData = meeting.meeting_data;
-    const start = mData.eventStartTime || mData.event_start_time;
-    const end = mData.eventEndTime || mData.event_end_time;
-    
-    if (start && end) {
-      const startTime = new Date(start);
-      const endTime = new Date(end);
-      if (!isNaN(startTime.getTime()) && !isNaN(endTime.getTime())) {
-        const diffMs = endTime.getTime() - startTime.getTime();
-        const diffMins = Math.floor(diffMs / 60000);
-        if (diffMins < 0) return null;
-        const hrs = Math.floor(diffMins / 60);
-        const mins = diffMins % 60;
-        return hrs > 0 ? `${hrs} שעות ו-${mins} דקות` : `${mins} דקות`;
-      }
-    }
-    return null;
+    if (!meeting) return null;
+    const startTime = getMeetingStart(meeting);
+    const endTime = getMeetingEnd(meeting);
+    if (!startTime || !endTime) return null;
+
+    const diffMins = Math.floor((endTime.getTime() - startTime.getTime()) / 60000);
+    if (diffMins < 0) return null;
+    const hrs = Math.floor(diffMins / 60);
+    const mins = diffMins % 60;
+    return hrs > 0 ? `${hrs} שעות ו-${mins} דקות` : `${mins} דקות`;
   }, [meeting]);
 
   // Fetch notes when customer changes - MUST be before early returns
@@ -417,65 +442,20 @@ const MeetingDetailView = () => {
 
   const schedulingData = extractSchedulingData();
 
-  // Extract meeting date and time
-  let meetingDate = null;
-  let meetingStartTime = null;
-  let meetingEndTime = null;
+  const meetingDateValue = getMeetingDate(meeting);
+  const meetingDate = meetingDateValue ? formatDate(meetingDateValue.toISOString()) : null;
+  const meetingOwnerName = getMeetingOwnerName(meeting);
 
-  if (schedulingData?.eventStartTime) {
-    try {
-      const startDate = new Date(schedulingData.eventStartTime);
-      if (!isNaN(startDate.getTime())) {
-        meetingDate = formatDate(startDate.toISOString());
-        const hours = startDate.getHours().toString().padStart(2, '0');
-        const minutes = startDate.getMinutes().toString().padStart(2, '0');
-        meetingStartTime = `${hours}:${minutes}`;
-      }
-    } catch (e) {
-    }
-  } else if (meetingData.date || meetingData.meeting_date || meetingData['תאריך']) {
-    // Fallback to manual date/time fields if scheduling data is missing
-    const dateStr = meetingData.date || meetingData.meeting_date || meetingData['תאריך'];
-    meetingDate = formatDate(dateStr);
-    meetingStartTime = meetingData.meeting_time_start || meetingData['שעת התחלה'] || meetingData.time || meetingData['שעה'];
-    meetingEndTime = meetingData.meeting_time_end || meetingData['שעת סיום'];
-  }
-
-  if (schedulingData?.eventEndTime) {
-    try {
-      const endDate = new Date(schedulingData.eventEndTime);
-      if (!isNaN(endDate.getTime())) {
-        const hours = endDate.getHours().toString().padStart(2, '0');
-        const minutes = endDate.getMinutes().toString().padStart(2, '0');
-        meetingEndTime = `${hours}:${minutes}`;
-      }
-    } catch (e) {
-    }
-  }
-
-  // Determine meeting type - check multiple possible field names
-  const meetingTypeName = schedulingData?.name || 
-                         meetingData['סוג פגישה'] || 
-                         meetingData.meeting_type ||
-                         meetingData['פגישת הכרות'] || 
-                         'פגישת הכרות';
+  const meetingTypeName = meeting.meeting_type || schedulingData?.name || 'פגישת הכרות';
   const meetingType = MEETING_TYPES[meetingTypeName as MeetingTypeKey] || {
     label: meetingTypeName,
     color: 'bg-gray-100 text-gray-800 border-gray-300',
     icon: '📅',
   };
 
-  const formatTimeRange = () => {
-    if (meetingStartTime && meetingEndTime) {
-      if (meetingStartTime > meetingEndTime) {
-        return `${meetingEndTime} - ${meetingStartTime}`;
-      }
-      return `${meetingStartTime} - ${meetingEndTime}`;
-    }
-    return meetingStartTime || '-';
-  };
+  const formatTimeRange = () => getMeetingTimeDisplayValue(meeting) || '-';
 
-  const status = meetingData.status || meetingData['סטטוס'] || 'פעיל';
+  const status = getMeetingStatusValue(meeting);
 
   const HEADER_HEIGHT = 60;
 
@@ -707,6 +687,16 @@ const MeetingDetailView = () => {
                           >
                             <Pencil className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => downloadMeetingsIcs([meeting], `meeting-${meeting.id.slice(0, 8)}`)}
+                            disabled={!meeting.start_time && !meeting.meeting_date}
+                            className="h-8 w-8 p-0 text-gray-600 hover:text-gray-700 hover:bg-gray-100"
+                            title="הוסף ליומן (.ics)"
+                          >
+                            <CalendarPlus className="h-4 w-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -762,6 +752,46 @@ const MeetingDetailView = () => {
                           )}
                         </div>
 
+                        {(meetingOwnerName || meeting.location || meeting.video_link) && (
+                          <div className="grid grid-cols-2 gap-4">
+                            {meetingOwnerName && (
+                              <div>
+                                <label className="text-xs font-semibold text-gray-500 block mb-1">מאמן אחראי</label>
+                                <div className="flex items-center gap-2">
+                                  <User className="h-4 w-4 text-gray-400" />
+                                  <p className="text-sm text-gray-900 truncate">{meetingOwnerName}</p>
+                                </div>
+                              </div>
+                            )}
+                            {meeting.location && (
+                              <div>
+                                <label className="text-xs font-semibold text-gray-500 block mb-1">מיקום</label>
+                                <div className="flex items-center gap-2">
+                                  <MapPin className="h-4 w-4 text-gray-400" />
+                                  <p className="text-sm text-gray-900 truncate">{meeting.location}</p>
+                                </div>
+                              </div>
+                            )}
+                            {meeting.video_link && (
+                              <div>
+                                <label className="text-xs font-semibold text-gray-500 block mb-1">שיחת וידאו</label>
+                                <div className="flex items-center gap-2">
+                                  <Video className="h-4 w-4 text-gray-400" />
+                                  <a
+                                    href={meeting.video_link}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-sm text-[#5B6FB9] hover:underline truncate"
+                                    dir="ltr"
+                                  >
+                                    {meeting.video_link}
+                                  </a>
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                        )}
+
                         <div>
                           <label className="text-xs font-semibold text-gray-500 block mb-1">תאריך יצירה</label>
                           <div className="flex items-center gap-2">
@@ -790,6 +820,16 @@ const MeetingDetailView = () => {
                       </div>
                     </Card>
                   </div>
+
+                  <div className="mt-4">
+                    <MeetingActionDashboard
+                      meeting={meeting}
+                      status={status}
+                      getStatusColor={getStatusColor}
+                      onAttendanceChange={handleAttendanceChange}
+                      isUpdatingAttendance={updateAttendance.isPending}
+                    />
+                  </div>
                 </div>
               </div>
             </main>
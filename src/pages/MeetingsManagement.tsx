@@ -18,8 +18,10 @@ import { getMeetingFilterFields } from '@/hooks/useTableFilters';
 import { useDefaultView } from '@/hooks/useDefaultView';
 import { useSavedView } from '@/hooks/useSavedViews';
 import { MeetingDialog } from '@/components/dashboard/dialogs/MeetingDialog';
+import { CoachAvailabilityDialog } from '@/components/dashboard/dialogs/CoachAvailabilityDialog';
 import { Button } from '@/components/ui/button';
-import { Plus, Table2, Calendar as CalendarIcon } from 'lucide-react';
+import { Plus, Table2, Calendar as CalendarIcon, Download, CalendarClock } from 'lucide-react';
+import { downloadMeetingsIcs } from '@/utils/ics';
 import { MeetingsCalendarView } from '@/components/dashboard/MeetingsCalendarView';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 
@@ -48,6 +50,7 @@ const MeetingsManagement = () => {
   const [isSaveViewModalOpen, setIsSaveViewModalOpen] = useState(false);
   const [saveViewResourceKey, setSaveViewResourceKey] = useState<string>('meetings');
   const [isMeetingDialogOpen, setIsMeetingDialogOpen] = useState(false);
+  const [isAvailabilityDialogOpen, setIsAvailabilityDialogOpen] = useState(false);
   const [viewMode, setViewMode] = useState<'table' | 'calendar'>('table');
   const [initialMeetingDate, setInitialMeetingDate] = useState<Date | null>(null);
 
@@ -159,6 +162,27 @@ const MeetingsManagement = () => {
                   <span className="text-sm">לוח שנה</span>
                 </ToggleGroupItem>
               </ToggleGroup>
+              <Button
+                variant="outline"
+                onClick={() => downloadMeetingsIcs(filteredMeetings || [], 'meetings', savedView?.view_name || 'פגישות')}
+                disabled={!filteredMeetings || filteredMeetings.length === 0}
+                className="rounded-lg flex items-center gap-1.5 flex-shrink-0 h-10 sm:h-11 px-3 text-sm"
+                size="sm"
+                title="ייצוא הפגישות המוצגות לקובץ יומן (.ics)"
+              >
+                <Download className="h-4 w-4" />
+                <span className="hidden sm:inline">ייצוא ליומן</span>
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setIsAvailabilityDialogOpen(true)}
+                className="rounded-lg flex items-center gap-1.5 flex-shrink-0 h-10 sm:h-11 px-3 text-sm"
+                size="sm"
+                title="שעות פנויות וקישור לקביעת פגישה עצמית"
+              >
+                <CalendarClock className="h-4 w-4" />
+                <span className="hidden sm:inline">זמינות</span>
+              </Button>
               <Button
                 onClick={() => setIsMeetingDialogOpen(true)}
                 className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
@@ -266,6 +290,11 @@ const MeetingsManagement = () => {
         }}
         initialDate={initialMeetingDate}
       />
+
+      <CoachAvailabilityDialog
+        isOpen={isAvailabilityDialogOpen}
+        onOpenChange={setIsAvailabilityDialogOpen}
+      />
     </>
   );
 };
@@ -6,6 +6,7 @@
  * - ClientHero header (same as customer page)
  * - Tabs below header: הערות, היסטוריה, צפה כמתאמן, תשלומים, WhatsApp
  * - Three vertical panels: Client Details, Payment Details, Notes (using CustomerNotesSidebar)
+ * - Below the panels: tax documents (invoice / receipt, credit notes) and change history tabs
  */
 
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
@@ -16,9 +17,12 @@ import { ClientHero } from '@/components/dashboard/ClientHero';
 import { ClientHeroBar } from '@/components/dashboard/ClientHeroBar';
 import { ResizableNotesPanel } from '@/components/dashboard/ResizableNotesPanel';
 import { LeadSidebarContainer } from '@/components/dashboard/LeadSidebarContainer';
+import { TaxDocumentsCard } from '@/components/dashboard/TaxDocumentsCard';
+import { EntityHistoryList } from '@/components/dashboard/EntityHistoryList';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { usePayment } from '@/hooks/usePayment';
 import { useSidebarWidth } from '@/hooks/useSidebarWidth';
 import { useAppSelector, useAppDispatch } from '@/store/hooks';
@@ -518,7 +522,7 @@ const PaymentDetailView = () => {
                         )}
                         {payment.receipt_url && (
                           <div>
-                            <label className="text-xs font-semibold text-gray-500 block mb-1">קבלה</label>
+                            <label className="text-xs font-semibold text-gray-500 block mb-1">קבלת Stripe</label>
                             <a
                               href={payment.receipt_url}
                               target="_blank"
@@ -542,6 +546,26 @@ const PaymentDetailView = () => {
                       </div>
                     </Card>
                   </div>
+
+                  {/* Tax documents (invoice / receipt and credit notes) and the change history of the payment */}
+                  <Tabs defaultValue="tax-documents" dir="rtl" className="mt-4 w-full">
+                    <TabsList className="h-10 bg-gray-100 rounded-lg p-1 gap-1 mb-3">
+                      <TabsTrigger value="tax-documents" className="whitespace-nowrap px-3 text-xs sm:text-sm font-semibold rounded-md data-[state=active]:bg-[#E0F2FE] data-[state=active]:text-[#0C4A6E] data-[state=active]:shadow-sm data-[state=inactive]:text-[#0C4A6E]/70 data-[state=inactive]:hover:bg-[#E0F2FE]/50 transition-all">
+                        מסמכי מס
+                      </TabsTrigger>
+                      <TabsTrigger value="history" className="whitespace-nowrap px-3 text-xs sm:text-sm font-semibold rounded-md data-[state=active]:bg-[#E0F2FE] data-[state=active]:text-[#0C4A6E] data-[state=active]:shadow-sm data-[state=inactive]:text-[#0C4A6E]/70 data-[state=inactive]:hover:bg-[#E0F2FE]/50 transition-all">
+                        היסטוריית שינויים
+                      </TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="tax-documents" className="mt-0">
+                      <TaxDocumentsCard paymentId={payment.id} paymentStatus={payment.status} />
+                    </TabsContent>
+                    <TabsContent value="history" className="mt-0">
+                      <Card className="p-4 border border-slate-200 rounded-xl shadow-sm bg-white" style={{ minWidth: 0 }}>
+                        <EntityHistoryList scope={{ tableName: 'payments', recordId: payment.id }} />
+                      </Card>
+                    </TabsContent>
+                  </Tabs>
                 </div>
               </div>
             </main>
@@ -20,8 +20,10 @@ import { selectActiveFilters, selectGroupByKeys } from '@/store/slices/tableStat
 import { useAppSelector } from '@/store/hooks';
 import { groupDataByKeys, getTotalGroupsCount } from '@/utils/groupDataByKey';
 import { AddPaymentDialog } from '@/components/dashboard/dialogs/AddPaymentDialog';
+import { BusinessSettingsDialog } from '@/components/dashboard/BusinessSettingsDialog';
+import { FinanceExportMenu } from '@/components/dashboard/FinanceExportMenu';
 import { Button } from '@/components/ui/button';
-import { Plus } from 'lucide-react';
+import { FileText, Plus } from 'lucide-react';
 
 const PaymentsManagement = () => {
   const navigate = useNavigate();
@@ -71,6 +73,7 @@ const PaymentsManagement = () => {
   }, [pageSize]);
 
   const [isAddPaymentDialogOpen, setIsAddPaymentDialogOpen] = useState(false);
+  const [isBusinessSettingsOpen, setIsBusinessSettingsOpen] = useState(false);
 
   // Auto-navigate to default view if no view_id is present
   useEffect(() => {
@@ -135,14 +138,26 @@ const PaymentsManagement = () => {
             enableSearch={true}
             columns={paymentColumns}
             customActions={
-              <Button
-                onClick={() => setIsAddPaymentDialogOpen(true)}
-                className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
-                size="sm"
-              >
-                <Plus className="h-4 w-4" />
-                <span>צור תשלום</span>
-              </Button>
+              <>
+                <Button
+                  onClick={() => setIsAddPaymentDialogOpen(true)}
+                  className="bg-[#5B6FB9] hover:bg-[#5B6FB9]/90 text-white rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
+                  size="sm"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>צור תשלום</span>
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsBusinessSettingsOpen(true)}
+                  className="rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
+                  size="sm"
+                >
+                  <FileText className="h-4 w-4" />
+                  <span>פרטי העסק</span>
+                </Button>
+                <FinanceExportMenu resourceKey="payments" />
+              </>
             }
           />
         </div>
@@ -221,6 +236,12 @@ const PaymentsManagement = () => {
         isOpen={isAddPaymentDialogOpen}
         onOpenChange={setIsAddPaymentDialogOpen}
       />
+
+      {/* Business Details (tax documents) Dialog */}
+      <BusinessSettingsDialog
+        isOpen={isBusinessSettingsOpen}
+        onOpenChange={setIsBusinessSettingsOpen}
+      />
     </>
   );
 };
@@ -25,14 +25,13 @@ import {
   setSortBy,
   setSortOrder,
 } from '@/store/slices/tableStateSlice';
-import { 
-  getActiveFlows, 
-  saveCustomFlows, 
-  loadCustomFlows,
-  loadDeletedDefaultFlows,
-  saveDeletedDefaultFlows,
-  DEFAULT_FLOW_CONFIGS
-} from '@/utils/whatsappAutomationFlows';
+import {
+  useAutomationFlows,
+  useCreateAutomationFlow,
+  useUpdateAutomationFlowLabel,
+  useDeleteAutomationFlow,
+} from '@/hooks/useAutomationFlows';
+import { useAutomationRules } from '@/hooks/useAutomationRules';
 
 export const useWhatsAppAutomationsPage = () => {
   const dispatch = useAppDispatch();
@@ -48,10 +47,13 @@ export const useWhatsAppAutomationsPage = () => {
   const [newFlowLabel, setNewFlowLabel] = useState('');
   const [newFlowKey, setNewFlowKey] = useState('');
   const [deletingFlowKey, setDeletingFlowKey] = useState<string | null>(null);
-  
-  // Local state for immediate updates
-  const [customFlows, setCustomFlows] = useState(loadCustomFlows());
-  const [deletedDefaultFlows, setDeletedDefaultFlows] = useState(loadDeletedDefaultFlows());
+  const [triggersFlow, setTriggersFlow] = useState<{ key: string; label: string } | null>(null);
+
+  const { flows: activeFlows, getFlowLabel, isLoading: isLoadingFlows } = useAutomationFlows();
+  const createFlow = useCreateAutomationFlow();
+  const updateFlowLabel = useUpdateAutomationFlowLabel();
+  const deleteFlow = useDeleteAutomationFlow();
+  const { data: automationRules = [] } = useAutomationRules();
 
   const searchQuery = useAppSelector((state) => selectSearchQuery(state, 'whatsapp_automations'));
   const currentPage = useAppSelector((state) => selectCurrentPage(state, 'whatsapp_automations'));
@@ -78,33 +80,21 @@ export const useWhatsAppAutomationsPage = () => {
   // with the DB results.
   
   const automations: WhatsAppAutomation[] = useMemo(() => {
-    // 1. Get all active flows (defaults + customs)
-    // We recreate the logic from getActiveFlows locally using the state to ensure reactivity
-    const activeDefaultFlows = DEFAULT_FLOW_CONFIGS.filter(flow => !deletedDefaultFlows.includes(flow.key));
-    const defaultFlowKeys = new Set(activeDefaultFlows.map(f => f.key));
-    const labelOverrides = new Map(customFlows.filter(f => defaultFlowKeys.has(f.key)).map(f => [f.key, f.label]));
-    const pureCustomFlows = customFlows.filter(f => !defaultFlowKeys.has(f.key));
-    
-    const activeFlows = [
-      ...activeDefaultFlows.map(flow => ({
-        ...flow,
-        label: labelOverrides.get(flow.key) || flow.label
-      })),
-      ...pureCustomFlows
-    ];
-
+    // 1. Active flows (defaults + customs) come from whatsapp_automation_flows via useAutomationFlows
     // 2. Map to WhatsAppAutomation format
     const mergedAutomations = activeFlows.map(flow => {
       // Find matching template from DB results if available (for hasTemplate check)
       // Note: templatesList might only contain a subset if paginated.
       // Ideally, we should check the full 'templates' map from Redux which is loaded via fetchTemplates()
       const template = templates[flow.key];
+      const triggerCount = automationRules.filter(rule => rule.flow_key === flow.key && rule.is_active).length;
       
       return {
         key: flow.key,
         label: flow.label,
         hasTemplate: !!template?.template_content?.trim(),
-        isAutoTrigger: false, // This info is not available in flow config yet
+        isAutoTrigger: triggerCount > 0,
+        triggerCount,
       };
     });
 
@@ -117,7 +107,7 @@ export const useWhatsAppAutomationsPage = () => {
     }
 
     return mergedAutomations;
-  }, [templatesList, templates, customFlows, deletedDefaultFlows, searchQuery]);
+  }, [templates, activeFlows, automationRules, searchQuery]);
 
   const totalTemplates = automations.length;
 
@@ -201,35 +191,10 @@ export const useWhatsAppAutomationsPage = () => {
         localStorage.setItem(localStorageKey, templateContent);
       }
 
-      // Handle label update using the shared logic
-      if (label && label.trim()) {
-        const isDefaultFlow = DEFAULT_FLOW_CONFIGS.some(f => f.key === flowKey);
-        const defaultFlowLabel = DEFAULT_FLOW_CONFIGS.find(f => f.key === flowKey)?.label;
-        const customFlow = customFlows.find(f => f.key === flowKey);
-        
-        const currentLabel = customFlow?.label || defaultFlowLabel || '';
-        
-        if (currentLabel !== label.trim()) {
-          let updatedCustomFlows;
-          if (isDefaultFlow) {
-            const existingCustomIndex = customFlows.findIndex(f => f.key === flowKey);
-            if (existingCustomIndex >= 0) {
-               updatedCustomFlows = customFlows.map((flow, idx) => 
-                idx === existingCustomIndex ? { ...flow, label: label.trim() } : flow
-              );
-            } else {
-              updatedCustomFlows = [...customFlows, { key: flowKey, label: label.trim() }];
-            }
-          } else {
-            updatedCustomFlows = customFlows.map(flow => 
-              flow.key === flowKey ? { ...flow, label: label.trim() } : flow
-            );
-          }
-          
-          setCustomFlows(updatedCustomFlows);
-          saveCustomFlows(updatedCustomFlows);
-          setEditingFlowLabel(label.trim());
-        }
+      // Handle label update (shared by all coaches)
+      if (label && label.trim() && getFlowLabel(flowKey, '') !== label.trim()) {
+        await updateFlowLabel.mutateAsync({ flowKey, label: label.trim() });
+        setEditingFlowLabel(label.trim());
       }
 
       await queryClient.invalidateQueries({ queryKey: ['whatsapp-flow-templates'] });
@@ -248,7 +213,7 @@ export const useWhatsAppAutomationsPage = () => {
     }
   };
 
-  const handleAddAutomation = () => {
+  const handleAddAutomation = async () => {
     if (!newFlowLabel.trim() || !newFlowKey.trim()) {
       toast({
         title: 'שגיאה',
@@ -268,10 +233,16 @@ export const useWhatsAppAutomationsPage = () => {
     }
 
     // Add to custom flows
-    const newFlow = { key: newFlowKey.trim(), label: newFlowLabel.trim() };
-    const updatedFlows = [...customFlows, newFlow];
-    setCustomFlows(updatedFlows);
-    saveCustomFlows(updatedFlows);
+    try {
+      await createFlow.mutateAsync({ flowKey: newFlowKey.trim(), label: newFlowLabel.trim() });
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל בהוספת האוטומציה',
+        variant: 'destructive',
+      });
+      return;
+    }
 
     toast({
       title: 'הצלחה',
@@ -287,19 +258,17 @@ export const useWhatsAppAutomationsPage = () => {
   };
 
   const handleDeleteAutomation = async (flowKey: string) => {
-    // Check if it's a default flow
-    const isDefaultFlow = DEFAULT_FLOW_CONFIGS.some(flow => flow.key === flowKey);
-    
-    if (isDefaultFlow) {
-      // Mark default flow as deleted in localStorage
-      const updatedDeleted = [...deletedDefaultFlows, flowKey];
-      setDeletedDefaultFlows(updatedDeleted);
-      saveDeletedDefaultFlows(updatedDeleted);
-    } else {
-      // Remove from custom flows in localStorage
-      const updatedFlows = customFlows.filter(flow => flow.key !== flowKey);
-      setCustomFlows(updatedFlows);
-      saveCustomFlows(updatedFlows);
+    // Default flows are deactivated, custom flows are removed
+    try {
+      await deleteFlow.mutateAsync(flowKey);
+    } catch (error) {
+      toast({
+        title: 'שגיאה',
+        description: error instanceof Error ? error.message : 'נכשל במחיקת האוטומציה',
+        variant: 'destructive',
+      });
+      setDeletingFlowKey(null);
+      return;
     }
 
     // Also remove the template from DB if it exists
@@ -337,6 +306,10 @@ export const useWhatsAppAutomationsPage = () => {
     setDeletingFlowKey(automation.key);
   };
 
+  const handleManageTriggers = (automation: WhatsAppAutomation) => {
+    setTriggersFlow({ key: automation.key, label: automation.label || automation.key });
+  };
+
   const flowConfig = editingFlowKey
     ? { key: editingFlowKey, label: editingFlowLabel || editingFlowKey }
     : null;
@@ -402,13 +375,14 @@ export const useWhatsAppAutomationsPage = () => {
   return {
     // Data
     automations,
-    isLoading: isLoading || isLoadingTemplates,
+    isLoading: isLoading || isLoadingTemplates || isLoadingFlows,
     templates,
     totalTemplates,
 
     // State
     editingFlowKey,
     deletingFlowKey,
+    triggersFlow,
     isAddDialogOpen,
     newFlowLabel,
     newFlowKey,
@@ -429,6 +403,7 @@ export const useWhatsAppAutomationsPage = () => {
     handleDeleteAutomation,
     handleEdit,
     handleDelete,
+    handleManageTriggers,
     handleLabelChange,
     handleSortChange,
     handlePageChange,
@@ -436,6 +411,7 @@ export const useWhatsAppAutomationsPage = () => {
     handleSearchChange,
     setEditingFlowKey,
     setDeletingFlowKey,
+    setTriggersFlow,
     setIsAddDialogOpen,
     setNewFlowLabel,
     setNewFlowKey,
@@ -27,8 +27,11 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Send, Plus, Loader2 } from 'lucide-react';
+import { Send, Plus, Loader2, CalendarX, CreditCard } from 'lucide-react';
 import { TemplateEditorModal } from '@/components/dashboard/TemplateEditorModal';
+import { AutomationRulesDialog } from '@/components/dashboard/AutomationRulesDialog';
+import { CheckInReminderSettingsDialog } from '@/components/dashboard/CheckInReminderSettingsDialog';
+import { PaymentDunningSettingsDialog } from '@/components/dashboard/PaymentDunningSettingsDialog';
 import { TableManagementLayout } from '@/components/dashboard/TableManagementLayout';
 import { TableActionHeader } from '@/components/dashboard/TableActionHeader';
 import { WhatsAppAutomationsDataTable } from '@/components/dashboard/WhatsAppAutomationsDataTable';
@@ -61,6 +64,8 @@ export const WhatsAppAutomationsPage: React.FC = () => {
   const columnSizing = useAppSelector((state) => selectColumnSizing(state, 'whatsapp_automations'));
 
   const [isSaveViewModalOpen, setIsSaveViewModalOpen] = useState(false);
+  const [isCheckInSettingsOpen, setIsCheckInSettingsOpen] = useState(false);
+  const [isDunningSettingsOpen, setIsDunningSettingsOpen] = useState(false);
 
   // Auto-navigate to default view if no view_id is present
   useEffect(() => {
@@ -89,6 +94,7 @@ export const WhatsAppAutomationsPage: React.FC = () => {
     isLoading,
     editingFlowKey,
     deletingFlowKey,
+    triggersFlow,
     isAddDialogOpen,
     newFlowLabel,
     newFlowKey,
@@ -102,9 +108,11 @@ export const WhatsAppAutomationsPage: React.FC = () => {
     handleDeleteAutomation,
     handleEdit,
     handleDelete,
+    handleManageTriggers,
     handleLabelChange,
     setEditingFlowKey,
     setDeletingFlowKey,
+    setTriggersFlow,
     setIsAddDialogOpen,
     setNewFlowLabel,
     setNewFlowKey,
@@ -121,8 +129,8 @@ export const WhatsAppAutomationsPage: React.FC = () => {
   // Create columns for TableActionHeader (needed for column visibility)
   // Note: Action handlers will be passed to WhatsAppAutomationsDataTable component
   const columns = React.useMemo(
-    () => createWhatsAppAutomationColumns({ onEdit: handleEdit, onDelete: handleDelete }),
-    [handleEdit, handleDelete]
+    () => createWhatsAppAutomationColumns({ onEdit: handleEdit, onDelete: handleDelete, onManageTriggers: handleManageTriggers }),
+    [handleEdit, handleDelete, handleManageTriggers]
   );
 
   // Determine the title to show
@@ -172,6 +180,28 @@ export const WhatsAppAutomationsPage: React.FC = () => {
             enableGroupBy={false}
             enableSearch={true}
             columns={columns}
+            customActions={
+              <>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsCheckInSettingsOpen(true)}
+                  className="rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
+                  size="sm"
+                >
+                  <CalendarX className="h-4 w-4" />
+                  <span>תזכורות דיווח יומי</span>
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsDunningSettingsOpen(true)}
+                  className="rounded-lg flex items-center gap-1.5 sm:gap-2 flex-shrink-0 h-10 sm:h-11 px-3 sm:px-4 text-sm sm:text-base"
+                  size="sm"
+                >
+                  <CreditCard className="h-4 w-4" />
+                  <span>תזכורות תשלום</span>
+                </Button>
+              </>
+            }
           />
         </div>
 
@@ -190,6 +220,7 @@ export const WhatsAppAutomationsPage: React.FC = () => {
                 automations={automations}
                 onEdit={handleEdit}
                 onDelete={handleDelete}
+                onManageTriggers={handleManageTriggers}
                 onSortChange={handleSortChange}
                 sortBy={sortBy || undefined}
                 sortOrder={sortOrder || undefined}
@@ -235,6 +266,28 @@ export const WhatsAppAutomationsPage: React.FC = () => {
         />
       )}
 
+      {/* Automation Triggers Dialog */}
+      {triggersFlow && (
+        <AutomationRulesDialog
+          isOpen={!!triggersFlow}
+          onOpenChange={(open) => !open && setTriggersFlow(null)}
+          flowKey={triggersFlow.key}
+          flowLabel={triggersFlow.label}
+        />
+      )}
+
+      {/* Missed Check-In Settings Dialog */}
+      <CheckInReminderSettingsDialog
+        isOpen={isCheckInSettingsOpen}
+        onOpenChange={setIsCheckInSettingsOpen}
+      />
+
+      {/* Payment Dunning Settings Dialog */}
+      <PaymentDunningSettingsDialog
+        isOpen={isDunningSettingsOpen}
+        onOpenChange={setIsDunningSettingsOpen}
+      />
+
       {/* Delete Confirmation Dialog */}
       {deletingFlowKey && (
         <AlertDialog open={!!deletingFlowKey} onOpenChange={(open) => !open && setDeletingFlowKey(null)}>
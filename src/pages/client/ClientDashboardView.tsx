@@ -37,12 +37,14 @@ import { VisualProgressCard } from '@/components/client/VisualProgressCard';
 import { BloodTestsCard } from '@/components/client/BloodTestsCard.tsx';
 import { WeeklyReviewsList } from '@/components/client/WeeklyReviewsList';
 import { KnowledgeBaseArticles } from '@/components/client/KnowledgeBaseArticles';
+import { OnboardingWizard } from '@/components/client/OnboardingWizard';
 import { useClientDashboard } from '@/hooks/useClientDashboard';
 import { useAppSelector, useAppDispatch } from '@/store/hooks';
 import { useAuth } from '@/hooks/useAuth';
-import { stopImpersonation } from '@/store/slices/impersonationSlice';
+import { useLogImpersonationView, useStopImpersonation } from '@/hooks/useImpersonationSession';
+import { useTraineeOnboarding } from '@/hooks/useTraineeOnboarding';
 import { setSelectedDate } from '@/store/slices/clientSlice';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useSearchParams } from 'react-router-dom';
 import { useWorkoutPlan } from '@/hooks/useWorkoutPlan';
 import { useNutritionPlan } from '@/hooks/useNutritionPlan';
 import { useClientRealtime } from '@/hooks/useClientRealtime';
@@ -58,11 +60,11 @@ import { FooterContent } from '@/components/layout/AppFooter';
 
 export const ClientDashboardView: React.FC = () => {
   const dispatch = useAppDispatch();
-  const navigate = useNavigate();
   const { toast } = useToast();
   const { customer, leads, isLoading, error, stats, handleSelectLead } = useClientDashboard();
   const { user } = useAppSelector((state) => state.auth);
-  const { isImpersonating, previousLocation } = useAppSelector((state) => state.impersonation);
+  const { isImpersonating } = useAppSelector((state) => state.impersonation);
+  const stopImpersonationSession = useStopImpersonation();
   const { checkIns, selectedDate } = useAppSelector((state) => state.client);
   const { handleLogout } = useAuth();
   const [searchParams] = useSearchParams();
@@ -71,6 +73,17 @@ export const ClientDashboardView: React.FC = () => {
   const [isMultiDayModalOpen, setIsMultiDayModalOpen] = useState(false);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
+  // Every tab opened while viewing as the trainee is logged to the impersonation audit log
+  useLogImpersonationView(activeTab);
+
+  // First-login onboarding - only the trainee themselves goes through the wizard
+  const { data: onboardingData } = useTraineeOnboarding(customer?.id);
+  const showOnboarding =
+    user?.role === 'trainee' &&
+    !isImpersonating &&
+    !!onboardingData?.isAvailable &&
+    !onboardingData.onboarding?.completed_at;
+
   // Sync activeTab with URL param
   useEffect(() => {
     if (tabParam) {
@@ -374,16 +387,7 @@ export const ClientDashboardView: React.FC = () => {
                 <Button
                   variant="outline"
                   size="default"
-                  onClick={() => {
-                    dispatch(stopImpersonation());
-                    // Navigate back to previous location or default to dashboard
-                    const returnPath = previousLocation || '/dashboard';
-                    navigate(returnPath);
-                    toast({
-                      title: 'יציאה ממצב תצוגה',
-                      description: 'חזרת למצב מנהל',
-                    });
-                  }}
+                  onClick={() => stopImpersonationSession()}
                   className="border-[#5B6FB9] bg-[#5B6FB9]/10 text-[#5B6FB9] hover:bg-[#5B6FB9] hover:text-white hover:border-[#5B6FB9] text-xs sm:text-sm md:text-base font-semibold rounded-lg px-2 sm:px-3 md:px-4 py-1.5 sm:py-2 transition-all duration-200"
                 >
                   <X className="h-3.5 w-3.5 sm:h-4 sm:w-4 ml-1 sm:ml-2" />
@@ -560,6 +564,16 @@ export const ClientDashboardView: React.FC = () => {
                 existingCheckIns={checkIns}
               />
             )}
+
+            {/* First-login onboarding */}
+            {customer && showOnboarding && (
+              <OnboardingWizard
+                isOpen={showOnboarding}
+                customer={customer}
+                leads={leads}
+                onboarding={onboardingData?.onboarding || null}
+              />
+            )}
           </div>
         </div>
       </div>
@@ -24,6 +24,13 @@ export interface SendMessageParams {
   buttons?: Array<{ id: string; text: string }>;
   footer?: string;
   media?: MediaData;
+  // Link the message to a conversation thread (otherwise matched by phone number)
+  customerId?: string | null;
+  leadId?: string | null;
+  // Flow template key, so button replies can run the actions configured on the template
+  flowKey?: string | null;
+  // 'payment' for payment links and tax documents (allowed with the payments permission)
+  purpose?: 'payment';
 }
 
 export interface GreenApiResponse {
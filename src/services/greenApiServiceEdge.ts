@@ -7,6 +7,7 @@
 
 import { supabase } from '@/lib/supabaseClient';
 import { formatPhoneNumberForGreenAPI } from '@/components/ui/phone-input';
+import { renderTemplate } from '@/utils/templateRenderer';
 
 export interface MediaData {
   type: 'image' | 'video' | 'gif';
@@ -19,6 +20,13 @@ export interface SendMessageParams {
   buttons?: Array<{ id: string; text: string }>;
   footer?: string;
   media?: MediaData;
+  // Link the message to a conversation thread (otherwise matched by phone number)
+  customerId?: string | null;
+  leadId?: string | null;
+  // Flow template key, so button replies can run the actions configured on the template
+  flowKey?: string | null;
+  // 'payment' for payment links and tax documents (allowed with the payments permission)
+  purpose?: 'payment';
 }
 
 export interface GreenApiResponse {
@@ -86,27 +94,12 @@ export const cleanWhatsAppMessage = (text: string): string => {
 
 /**
  * Replace placeholders in template with actual values
+ * Supports fallbacks, conditional blocks, formatting and gender phrases (see utils/templateRenderer)
  */
 export const replacePlaceholders = (
   template: string,
   placeholders: Record<string, string | number | null | undefined>
-): string => {
-  let result = template;
-  Object.entries(placeholders).forEach(([key, value]) => {
-    // Handle keys with or without braces
-    // If key is '{{week_start}}', extract 'week_start'
-    // If key is 'week_start', use as is
-    const placeholderName = key.startsWith('{{') && key.endsWith('}}') 
-      ? key.slice(2, -2) 
-      : key;
-    
-    // Create regex to match {{placeholderName}}
-    const regex = new RegExp(`\\{\\{${placeholderName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\}\\}`, 'g');
-    const replacement = value != null ? String(value) : '';
-    result = result.replace(regex, replacement);
-  });
-  return result;
-};
+): string => renderTemplate(template, placeholders);
 
 /**
  * Send WhatsApp message via Edge Function
@@ -175,6 +168,10 @@ export const sendWhatsAppMessage = async (
         buttons: cleanedButtons.length > 0 ? cleanedButtons : undefined,
         footer: cleanedFooter,
         media: params.media,
+        customerId: params.customerId,
+        leadId: params.leadId,
+        flowKey: params.flowKey,
+        purpose: params.purpose,
       }),
     });
 
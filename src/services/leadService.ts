@@ -28,6 +28,7 @@ export interface LeadFilterParams {
   preferredTime?: string | null;
   source?: string | null;
   filterGroup?: FilterGroup | null;
+  assignedTo?: string | null; // Only leads assigned to this coach ("my trainees")
   // Pagination
   limit?: number;
   offset?: number;
@@ -67,6 +68,11 @@ export interface LeadFromDB {
   subscription_months: number | null;
   subscription_initial_price: number | null;
   subscription_renewal_price: number | null;
+  last_check_in_date?: string | null;
+  check_in_streak?: number;
+  check_ins_last_7_days?: number;
+  assigned_to?: string | null;
+  assigned_to_name?: string | null;
   // Related entities (from joins)
   budget_assignments?: Array<{
     id: string;
@@ -133,6 +139,7 @@ const leadFieldConfigs: FilterFieldConfigMap = {
   activity_level: { column: 'activity_level', type: 'text' },
   preferred_time: { column: 'preferred_time', type: 'text' },
   source_text: { column: 'source', type: 'text' },
+  assigned_to_name: { column: 'assigned_to_name', type: 'select' },
   // Related entity: Subscription (JSONB) - Entity exists
   'subscription.exists': {
     column: 'subscription_data',
@@ -364,6 +371,10 @@ export async function fetchFilteredLeads(
       query = applyFilterGroupToQuery(query, combinedGroup, leadFieldConfigs);
     }
 
+    if (filters.assignedTo) {
+      query = query.eq('assigned_to', filters.assignedTo);
+    }
+
     const groupByMap: Record<string, string> = {
       status: 'status_main',
       status_main: 'status_main',
@@ -379,6 +390,8 @@ export async function fetchFilteredLeads(
       age: 'age',
       height: 'height',
       weight: 'weight',
+      assignedToName: 'assigned_to_name',
+      assigned_to_name: 'assigned_to_name',
     };
 
     const sortMap: Record<string, string> = {
@@ -397,6 +410,10 @@ export async function fetchFilteredLeads(
       age: 'age',
       height: 'height',
       weight: 'weight',
+      checkInStreak: 'check_in_streak',
+      check_in_streak: 'check_in_streak',
+      assignedToName: 'assigned_to_name',
+      assigned_to_name: 'assigned_to_name',
     };
 
     const sortBy = sortMap[filters.sortBy || 'created_at'] || 'created_at';
@@ -440,6 +457,10 @@ export async function fetchLeadIdsByFilter(filters: LeadFilterParams): Promise<s
     query = applyFilterGroupToQuery(query, combinedGroup, leadFieldConfigs);
   }
 
+  if (filters.assignedTo) {
+    query = query.eq('assigned_to', filters.assignedTo);
+  }
+
   const { data, error } = await query;
   if (error) throw error;
   return (data || []).map((row: { id: string }) => row.id);
@@ -477,6 +498,7 @@ export async function getFilteredLeadsCount(
       activity_level: { column: 'activity_level', type: 'text' },
       preferred_time: { column: 'preferred_time', type: 'text' },
       source_text: { column: 'source', type: 'text' },
+      assigned_to_name: { column: 'assigned_to_name', type: 'select' },
     };
 
     const searchColumns = [
@@ -502,6 +524,10 @@ export async function getFilteredLeadsCount(
       query = applyFilterGroupToQuery(query, combinedGroup, leadFieldConfigs);
     }
 
+    if (filters.assignedTo) {
+      query = query.eq('assigned_to', filters.assignedTo);
+    }
+
     const { count, error } = await query;
 
     if (error) {
@@ -656,6 +682,11 @@ export function mapLeadToUIFormat(dbLead: LeadFromDB | any) {
     workoutProgramsHistory: [], // Would need to extract from workout_history if needed
     stepsHistory: [], // Would need to extract from steps_history if needed
     customerId: dbLead.customer_id,
+    lastCheckInDate: dbLead.last_check_in_date || null,
+    checkInStreak: dbLead.check_in_streak || 0,
+    checkInsLast7Days: dbLead.check_ins_last_7_days || 0,
+    assignedTo: dbLead.assigned_to || null,
+    assignedToName: dbLead.assigned_to_name || null,
     // Preserve related entity data for column accessors
     subscription_months: dbLead.subscription_months,
     subscription_initial_price: dbLead.subscription_initial_price,
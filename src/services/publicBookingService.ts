@@ -0,0 +1,75 @@
+/**
+ * Public Booking Service
+ *
+ * Calls the public-booking Edge Function from the public booking page (/book/:slug).
+ * Visitors are not logged in, so requests only carry the anon key.
+ */
+
+import type { BookingSlot } from '@/utils/bookingSlots';
+
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+const EDGE_FUNCTION_URL = `${supabaseUrl}/functions/v1/public-booking`;
+
+export interface PublicBookingPage {
+  coach_name: string | null;
+  meeting_type: string;
+  slot_duration_minutes: number;
+  slots: BookingSlot[];
+}
+
+export interface BookMeetingParams {
+  slug: string;
+  start_time: string;
+  full_name: string;
+  phone: string;
+  email?: string;
+  notes?: string;
+}
+
+export interface BookedMeeting {
+  meeting: { id: string; start_time: string; end_time: string };
+  message_queued: boolean;
+}
+
+export class PublicBookingError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = 'PublicBookingError';
+  }
+}
+
+async function callPublicBookingFunction<T>(action: 'get_slots' | 'book', params: Record<string, unknown>): Promise<T> {
+  const response = await fetch(EDGE_FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+    },
+    body: JSON.stringify({
+      action,
+      ...params,
+    }),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new PublicBookingError(result.error || `Failed to ${action}`, response.status, result.code);
+  }
+
+  return result.data as T;
+}
+
+/**
+ * Coach details and free slots for a booking page
+ */
+export async function getBookingPage(slug: string) {
+  return callPublicBookingFunction<PublicBookingPage>('get_slots', { slug });
+}
+
+/**
+ * Book a slot (creates the customer / lead when needed)
+ */
+export async function bookMeeting(params: BookMeetingParams) {
+  return callPublicBookingFunction<BookedMeeting>('book', { ...params });
+}
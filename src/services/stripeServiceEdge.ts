@@ -155,3 +155,68 @@ export const createStripePaymentLink = async (
     };
   }
 };
+
+export interface StripeInstallmentSubscriptionResponse {
+  success: boolean;
+  subscriptionId?: string | null;
+  error?: string;
+}
+
+const callInstallmentSubscriptionAction = async (
+  action: 'createInstallmentSubscription' | 'cancelInstallmentSubscription',
+  planId: string
+): Promise<StripeInstallmentSubscriptionResponse> => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+
+    if (!session) {
+      return {
+        success: false,
+        error: 'Not authenticated. Please log in to manage Stripe subscriptions.',
+      };
+    }
+
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || '';
+    const edgeFunctionUrl = `${supabaseUrl}/functions/v1/stripe-api`;
+
+    const response = await fetch(edgeFunctionUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ action, planId }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: result.error || `Stripe request failed: ${response.status}`,
+      };
+    }
+
+    return {
+      success: true,
+      subscriptionId: result.data.subscriptionId,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: (error as Error)?.message || 'Stripe request failed',
+    };
+  }
+};
+
+/**
+ * Create the Stripe subscription (recurring invoices) that bills an installment plan
+ */
+export const createStripeInstallmentSubscription = (planId: string) =>
+  callInstallmentSubscriptionAction('createInstallmentSubscription', planId);
+
+/**
+ * Cancel the Stripe subscription of an installment plan
+ */
+export const cancelStripeInstallmentSubscription = (planId: string) =>
+  callInstallmentSubscriptionAction('cancelInstallmentSubscription', planId);
@@ -10,6 +10,8 @@ import { supabase } from '@/lib/supabaseClient';
 export interface WhatsAppButton {
   id: string;
   text: string;
+  action?: string; // Action run when the client presses the button (see TemplateEditorModal)
+  actionConfig?: Record<string, string | undefined>;
 }
 
 export interface MediaData {
@@ -89,7 +91,9 @@ export const fetchTemplates = createAsyncThunk(
                   })
                   .map((btn: any) => ({
                     id: String(btn.id),
-                    text: String(btn.text || btn.name || '')
+                    text: String(btn.text || btn.name || ''),
+                    action: btn.action || undefined,
+                    actionConfig: btn.actionConfig || undefined,
                   }));
               } else if (typeof buttonsData === 'object' && buttonsData !== null) {
                 // Handle single object case (shouldn't happen, but be defensive)
@@ -23,6 +23,8 @@ const initialState: CalendarState = {
     type: false,
     phone: false,
     email: false,
+    owner: false,
+    location: false,
   },
 };
 
@@ -70,6 +70,8 @@ export interface ClientCustomer {
   daily_protocol?: any; // Customer-level daily protocol (stepsGoal, workoutGoal, supplements)
   workout_history?: any; // Customer-level workout history
   steps_history?: any; // Customer-level steps history
+  check_in_reminders_enabled?: boolean; // WhatsApp reminder on missed check-ins
+  meeting_reminders_enabled?: boolean; // WhatsApp reminders before meetings
 }
 
 interface ClientState {
@@ -51,6 +51,13 @@ export interface Lead {
   workoutProgramsHistory: WorkoutProgram[];
   stepsHistory: StepsHistory[];
   customerId?: string; // Link to customer
+  // Daily check-in compliance (v_leads_with_customer)
+  lastCheckInDate?: string | null;
+  checkInStreak?: number;
+  checkInsLast7Days?: number;
+  // Assigned coach (leads.assigned_to)
+  assignedTo?: string | null;
+  assignedToName?: string | null;
   // Related entity data (for column accessors)
   subscription_months?: number | null;
   subscription_initial_price?: number | null;
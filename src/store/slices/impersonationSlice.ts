@@ -3,6 +3,7 @@
  * 
  * Manages secure "View as Client" mode for admins
  * This is a preview/impersonation mode, not a real login
+ * Each mode is backed by a server-side impersonation session (see useImpersonationSession)
  */
 
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
@@ -17,6 +18,8 @@ export interface ImpersonationState {
     role: string;
   } | null;
   previousLocation: string | null; // Store the URL before entering impersonation mode
+  sessionId: string | null; // impersonation_sessions row
+  expiresAt: string | null; // The session ends automatically at this time
 }
 
 const initialState: ImpersonationState = {
@@ -25,6 +28,8 @@ const initialState: ImpersonationState = {
   impersonatedCustomerId: null,
   originalUser: null,
   previousLocation: null,
+  sessionId: null,
+  expiresAt: null,
 };
 
 const impersonationSlice = createSlice({
@@ -38,12 +43,16 @@ const impersonationSlice = createSlice({
         customerId: string;
         originalUser: { id: string; email: string; role: string };
         previousLocation?: string | null;
+        sessionId: string;
+        expiresAt: string;
       }>
     ) => {
       state.isImpersonating = true;
       state.impersonatedUserId = action.payload.userId;
       state.impersonatedCustomerId = action.payload.customerId;
       state.originalUser = action.payload.originalUser;
+      state.sessionId = action.payload.sessionId;
+      state.expiresAt = action.payload.expiresAt;
       if (action.payload.previousLocation !== undefined) {
         state.previousLocation = action.payload.previousLocation;
       }
@@ -53,6 +62,8 @@ const impersonationSlice = createSlice({
       state.impersonatedUserId = null;
       state.impersonatedCustomerId = null;
       state.originalUser = null;
+      state.sessionId = null;
+      state.expiresAt = null;
     },
   },
 });
@@ -2,7 +2,7 @@
  * leadViewSlice - Redux slice for Lead Details View
  * 
  * Manages:
- * - Sidebar state (history, notes, or none)
+ * - Sidebar state (history, whatsapp chat, notes, or none)
  * - Customer notes (customer-centric, unified across leads)
  */
 
@@ -13,8 +13,8 @@ import { supabase } from '@/lib/supabaseClient';
 // Types
 // ============================================
 
-export type SidebarType = 'none' | 'history' | 'notes' | 'submission';
-export type LeftSidebarType = 'none' | 'history' | 'submission';
+export type SidebarType = 'none' | 'history' | 'notes' | 'submission' | 'whatsapp';
+export type LeftSidebarType = 'none' | 'history' | 'submission' | 'whatsapp';
 
 export interface CustomerNote {
   id: string;
@@ -29,7 +29,7 @@ export interface CustomerNote {
 
 interface LeadViewState {
   // Sidebar state - split into left sidebar and notes (independent)
-  leftSidebar: LeftSidebarType; // Left sidebar: history or submission
+  leftSidebar: LeftSidebarType; // Left sidebar: history, whatsapp chat or submission
   notesOpen: boolean; // Right sidebar: notes (independent from left sidebar)
   selectedFormType: string | null; // Track which form is open in submission sidebar (e.g. details, intro, characterization, meeting, other_*)
   // Legacy: keep activeSidebar for backward compatibility, computed from leftSidebar and notesOpen
@@ -252,8 +252,8 @@ const leadViewSlice = createSlice({
         }
       } else {
         state.leftSidebar = action.payload;
-        // Clear selected form type when switching to history
-        if (action.payload === 'history') {
+        // Clear selected form type when switching to history or chat
+        if (action.payload === 'history' || action.payload === 'whatsapp') {
           state.selectedFormType = null;
         }
       }
@@ -0,0 +1,5 @@
+/**
+ * Booking slot helpers - shared with the public-booking edge function
+ */
+
+export * from '../../supabase/functions/_shared/bookingSlots';
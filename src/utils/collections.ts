@@ -0,0 +1,105 @@
+/**
+ * Collection (גבייה) helpers
+ *
+ * The balance and status of a collection are reconciled in the database from its linked
+ * payments (reconcile_collection). These helpers derive the overdue state and the ledger
+ * shown on the collection page.
+ */
+
+import { differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+
+export type CollectionStatus = 'ממתין' | 'חלקי' | 'הושלם' | 'בוטל';
+
+export interface LedgerPayment {
+  id: string;
+  product_name: string;
+  amount: number;
+  refunded_amount: number;
+  status: 'שולם' | 'ממתין' | 'הוחזר' | 'נכשל';
+  created_at: string;
+  refunded_at: string | null;
+  receipt_url: string | null;
+}
+
+export type LedgerEntryType = 'charge' | 'payment' | 'refund' | 'pending' | 'failed';
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  date: string;
+  description: string;
+  amount: number; // Signed effect on the balance: charges and refunds are positive, payments negative
+  balance: number; // Remaining balance after the entry
+  paymentId: string | null;
+  receiptUrl: string | null;
+}
+
+/** Open (ממתין / חלקי) and past its due date */
+export const isCollectionOverdue = (collection: { status: string; due_date?: string | null }) => {
+  if (!collection.due_date || !['ממתין', 'חלקי'].includes(collection.status)) return false;
+  return parseISO(collection.due_date) < startOfDay(new Date());
+};
+
+export const getCollectionDaysOverdue = (collection: { status: string; due_date?: string | null }) => {
+  if (!isCollectionOverdue(collection)) return 0;
+  return differenceInCalendarDays(new Date(), parseISO(collection.due_date as string));
+};
+
+/**
+ * Chronological ledger: the collection's total as the opening charge, paid payments as credits
+ * and refunds as debits, with the running balance. Pending and failed payments are listed
+ * without affecting the balance.
+ */
+export const buildCollectionLedger = (
+  collection: { id: string; total_amount: number; created_at: string; description?: string | null },
+  payments: LedgerPayment[]
+): LedgerEntry[] => {
+  const events: Omit<LedgerEntry, 'balance'>[] = [
+    {
+      id: `charge-${collection.id}`,
+      type: 'charge',
+      date: collection.created_at,
+      description: collection.description || 'סכום לגבייה',
+      amount: collection.total_amount,
+      paymentId: null,
+      receiptUrl: null,
+    },
+  ];
+
+  payments.forEach((payment) => {
+    const isPaid = payment.status === 'שולם' || payment.status === 'הוחזר';
+    const type: LedgerEntryType = isPaid ? 'payment' : payment.status === 'נכשל' ? 'failed' : 'pending';
+
+    events.push({
+      id: `payment-${payment.id}`,
+      type,
+      date: payment.created_at,
+      description: payment.product_name,
+      amount: isPaid ? -payment.amount : 0,
+      paymentId: payment.id,
+      receiptUrl: payment.receipt_url,
+    });
+
+    if (payment.refunded_amount > 0) {
+      events.push({
+        id: `refund-${payment.id}`,
+        type: 'refund',
+        date: payment.refunded_at || payment.created_at,
+        description: `החזר - ${payment.product_name}`,
+        amount: payment.refunded_amount,
+        paymentId: payment.id,
+        receiptUrl: null,
+      });
+    }
+  });
+
+  // The opening charge stays first even when a payment was recorded before the collection
+  const [charge, ...rest] = events;
+  rest.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  let balance = 0;
+  return [charge, ...rest].map((event) => {
+    balance = Math.round((balance + event.amount) * 100) / 100;
+    return { ...event, balance };
+  });
+};
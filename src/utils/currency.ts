@@ -0,0 +1,114 @@
+/**
+ * Currency helpers
+ *
+ * Amounts are stored in their own currency (payments.currency, collections.currency). Reports
+ * convert them into a reporting currency with the manually maintained exchange_rates table:
+ * each rate is the ILS value of one unit on its date, and an amount is converted with the latest
+ * rate on or before the amount's date.
+ */
+
+export type CurrencyCode = 'ILS' | 'USD' | 'EUR';
+
+export const CURRENCIES: { code: CurrencyCode; symbol: string; label: string }[] = [
+  { code: 'ILS', symbol: '₪', label: '₪ ILS (שקל)' },
+  { code: 'USD', symbol: '$', label: '$ USD (דולר)' },
+  { code: 'EUR', symbol: '€', label: '€ EUR (יורו)' },
+];
+
+export const BASE_CURRENCY: CurrencyCode = 'ILS';
+
+export interface ExchangeRate {
+  id: string;
+  currency: Exclude<CurrencyCode, 'ILS'>;
+  rate: number; // ILS per one unit of the currency
+  rate_date: string; // YYYY-MM-DD
+  notes: string | null;
+  created_at: string;
+}
+
+export const getCurrencySymbol = (currency: string | null | undefined) =>
+  CURRENCIES.find((item) => item.code === currency)?.symbol || '₪';
+
+export const formatMoney = (
+  amount: number,
+  currency: string | null | undefined = BASE_CURRENCY,
+  options: { maximumFractionDigits?: number } = {}
+) => {
+  const maximumFractionDigits = options.maximumFractionDigits ?? 2;
+  try {
+    return new Intl.NumberFormat('he-IL', {
+      style: 'currency',
+      currency: currency || BASE_CURRENCY,
+      minimumFractionDigits: Math.min(2, maximumFractionDigits),
+      maximumFractionDigits,
+    }).format(amount);
+  } catch {
+    // Unknown currency code
+    return `${amount.toLocaleString('he-IL', { maximumFractionDigits })} ${currency}`;
+  }
+};
+
+/**
+ * Amounts per currency, e.g. "₪1,200 · $300", for showing the original amounts next to a converted total
+ */
+export const formatMoneyBreakdown = (
+  amounts: Record<string, number>,
+  options: { maximumFractionDigits?: number } = {}
+) =>
+  Object.entries(amounts)
+    .filter(([, amount]) => amount !== 0)
+    .map(([currency, amount]) => formatMoney(amount, currency, options))
+    .join(' · ');
+
+export interface CurrencyConverter {
+  reportingCurrency: CurrencyCode;
+  /** The amount in the reporting currency, or null when a rate is missing */
+  convert: (amount: number, currency: string | null | undefined, date: string | Date) => number | null;
+}
+
+/**
+ * Converter into the reporting currency. A currency without a rate on or before the date uses its
+ * earliest rate; a currency without any rate can't be converted.
+ */
+export const createCurrencyConverter = (
+  rates: ExchangeRate[],
+  reportingCurrency: CurrencyCode
+): CurrencyConverter => {
+  // Per currency, oldest first
+  const ratesByCurrency = new Map<string, { date: string; rate: number }[]>();
+  rates.forEach((rate) => {
+    const list = ratesByCurrency.get(rate.currency) || [];
+    list.push({ date: rate.rate_date, rate: Number(rate.rate) });
+    ratesByCurrency.set(rate.currency, list);
+  });
+  ratesByCurrency.forEach((list) => list.sort((a, b) => a.date.localeCompare(b.date)));
+
+  const getRateToBase = (currency: string, day: string): number | null => {
+    if (currency === BASE_CURRENCY) return 1;
+
+    const list = ratesByCurrency.get(currency);
+    if (!list?.length) return null;
+
+    let rate = list[0].rate;
+    for (const item of list) {
+      if (item.date > day) break;
+      rate = item.rate;
+    }
+    return rate;
+  };
+
+  return {
+    reportingCurrency,
+    convert: (amount, currency, date) => {
+      const from = currency || BASE_CURRENCY;
+      if (from === reportingCurrency) return amount;
+
+      const day = (typeof date === 'string' ? date : date.toISOString()).slice(0, 10);
+      const fromRate = getRateToBase(from, day);
+      const toRate = getRateToBase(reportingCurrency, day);
+      if (fromRate === null || toRate === null) return null;
+
+      return Math.round(((amount * fromRate) / toRate) * 100) / 100;
+    },
+  };
+};
@@ -75,3 +75,13 @@ export const calculateCurrentWeekFromJoinDate = (joinDate: string | null | undef
     return 0;
   }
 }
+
+/**
+ * Format a week-over-week change with its sign (e.g. "+0.4", "-120")
+ * @returns "-" when there is no previous week to compare with
+ */
+export const formatWeeklyChange = (value: number | null | undefined, decimals = 0): string => {
+  if (value === null || value === undefined) return '-';
+  const formatted = Number(value).toFixed(decimals);
+  return Number(value) > 0 ? `+${formatted}` : formatted;
+};
@@ -0,0 +1,140 @@
+/**
+ * Entity change history (entity_audit_log) helpers
+ *
+ * The log_entity_changes() trigger records every create / update / delete of the audited tables;
+ * these helpers turn the stored before / after values into Hebrew, field-by-field lines.
+ */
+
+import { format } from 'date-fns';
+
+export type EntityHistoryTable = 'leads' | 'customers' | 'payments' | 'collections' | 'meetings' | 'customer_notes';
+
+export type EntityHistoryAction = 'create' | 'update' | 'delete';
+
+export const ENTITY_TABLE_LABELS: Record<EntityHistoryTable, string> = {
+  leads: 'ליד',
+  customers: 'לקוח',
+  payments: 'תשלום',
+  collections: 'גבייה',
+  meetings: 'פגישה',
+  customer_notes: 'הערה',
+};
+
+export const ENTITY_ACTION_LABELS: Record<EntityHistoryAction, string> = {
+  create: 'יצירה',
+  update: 'עדכון',
+  delete: 'מחיקה',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  // Shared
+  full_name: 'שם מלא',
+  phone: 'טלפון',
+  email: 'אימייל',
+  status: 'סטטוס',
+  notes: 'הערות',
+  description: 'תיאור',
+  currency: 'מטבע',
+  customer_id: 'לקוח',
+  lead_id: 'ליד',
+  created_by: 'נוצר על ידי',
+  paid_amount: 'סכום ששולם',
+  refunded_amount: 'סכום שהוחזר',
+  last_payment_at: 'תשלום אחרון',
+  // Leads
+  assigned_to: 'מאמן',
+  city: 'עיר',
+  birth_date: 'תאריך לידה',
+  age: 'גיל',
+  gender: 'מגדר',
+  status_main: 'סטטוס',
+  status_sub: 'תת סטטוס',
+  join_date: 'תאריך הצטרפות',
+  subscription_data: 'פרטי מנוי',
+  source: 'מקור',
+  preferred_time: 'זמן מועדף',
+  // Customers
+  user_id: 'משתמש מתאמן',
+  avatar_url: 'תמונת פרופיל',
+  membership_tier: 'דרגת מנוי',
+  total_spent: 'סה"כ הוצאות',
+  check_in_reminders_enabled: 'תזכורת דיווח יומי',
+  meeting_reminders_enabled: 'תזכורות לפגישות',
+  // Payments
+  product_name: 'מוצר',
+  amount: 'סכום',
+  stripe_payment_id: 'מזהה Stripe',
+  transaction_id: 'מספר עסקה',
+  receipt_url: 'קבלת Stripe',
+  collection_id: 'גבייה',
+  refunded_at: 'תאריך החזר',
+  // Collections
+  total_amount: 'סכום כולל',
+  remaining_amount: 'יתרה',
+  due_date: 'תאריך יעד',
+  // Meetings
+  fillout_submission_id: 'מזהה טופס',
+  meeting_date: 'תאריך פגישה',
+  start_time: 'שעת התחלה',
+  end_time: 'שעת סיום',
+  meeting_type: 'סוג פגישה',
+  location: 'מיקום',
+  video_link: 'קישור לשיחת וידאו',
+  owner_id: 'אחראי פגישה',
+  attendance_status: 'נוכחות',
+  attendance_updated_at: 'עדכון נוכחות',
+  attendance_updated_by: 'נוכחות עודכנה על ידי',
+  // Customer notes
+  content: 'תוכן',
+  attachment_url: 'קובץ מצורף',
+};
+
+const GENDER_LABELS: Record<string, string> = {
+  male: 'זכר',
+  female: 'נקבה',
+  other: 'אחר',
+};
+
+/** Fields holding a profile id; shown as the staff member's name */
+export const PROFILE_REFERENCE_FIELDS = ['assigned_to', 'owner_id', 'created_by', 'attendance_updated_by'];
+
+/** Fields not worth showing in a history line */
+const HIDDEN_FIELDS = ['id', 'updated_at', 'created_at'];
+
+const MAX_VALUE_LENGTH = 80;
+
+export const getEntityFieldLabel = (field: string): string => FIELD_LABELS[field] || field;
+
+export const isVisibleHistoryField = (field: string): boolean => !HIDDEN_FIELDS.includes(field);
+
+export const formatEntityHistoryValue = (
+  field: string,
+  value: unknown,
+  profileNames: Record<string, string> = {}
+): string => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'boolean') return value ? 'כן' : 'לא';
+  if (typeof value === 'number') return value.toLocaleString('he-IL');
+
+  if (typeof value === 'string') {
+    if (PROFILE_REFERENCE_FIELDS.includes(field)) {
+      return profileNames[value] || 'איש צוות';
+    }
+    if (field === 'gender') {
+      return GENDER_LABELS[value] || value;
+    }
+    // Timestamps and dates
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) {
+      return format(new Date(value), 'dd/MM/yyyy HH:mm');
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      return format(new Date(value), 'dd/MM/yyyy');
+    }
+    return value.length > MAX_VALUE_LENGTH ? `${value.substring(0, MAX_VALUE_LENGTH)}...` : value;
+  }
+
+  if (Array.isArray(value) && value.length === 0) return 'אין';
+
+  const json = JSON.stringify(value);
+  return json.length > MAX_VALUE_LENGTH ? `${json.substring(0, MAX_VALUE_LENGTH)}...` : json;
+};
@@ -0,0 +1,36 @@
+/**
+ * iCalendar Export
+ *
+ * Shared with the edge functions - the builder lives in
+ * supabase/functions/_shared/ics.ts (also used by the meetings-ics-feed feed)
+ */
+
+import type { Meeting } from '@/hooks/useMeetings';
+import { buildIcsCalendar, buildMeetingIcsEvent } from '../../supabase/functions/_shared/ics';
+
+export * from '../../supabase/functions/_shared/ics';
+
+const toIcsMeeting = (meeting: Meeting) => ({
+  ...meeting,
+  customer_name: meeting.customer?.full_name || meeting.lead?.customer?.full_name || null,
+  notes: meeting.meeting_data?.notes || meeting.meeting_data?.['הערות'] || null,
+});
+
+// Downloads the meetings as a .ics file (opens in the phone / desktop calendar)
+export const downloadMeetingsIcs = (meetings: Meeting[], fileName: string, calendarName = 'פגישות') => {
+  const appUrl = typeof window !== 'undefined' ? window.location.origin : null;
+  const content = buildIcsCalendar(
+    meetings.map((meeting) => buildMeetingIcsEvent(toIcsMeeting(meeting), appUrl)),
+    calendarName
+  );
+
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName.endsWith('.ics') ? fileName : `${fileName}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
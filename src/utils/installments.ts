@@ -0,0 +1,50 @@
+/**
+ * Installment schedule helpers
+ *
+ * Splits a subscription total into N payments with due dates. The schedule is passed to the
+ * create_installment_plan() RPC, which creates one collection per installment.
+ */
+
+import { addMonths, addWeeks, format, parseISO } from 'date-fns';
+
+export type InstallmentIntervalUnit = 'weeks' | 'months';
+
+export interface InstallmentScheduleItem {
+  installment_number: number;
+  amount: number;
+  due_date: string; // yyyy-MM-dd
+}
+
+export const MAX_INSTALLMENTS = 36;
+
+/**
+ * Equal payments rounded to the agora; the rounding difference goes to the first payment
+ * (Stripe bills it as a one-time item on the first invoice).
+ */
+export const buildInstallmentSchedule = ({
+  totalAmount,
+  count,
+  startDate,
+  intervalUnit = 'months',
+}: {
+  totalAmount: number;
+  count: number;
+  startDate: string;
+  intervalUnit?: InstallmentIntervalUnit;
+}): InstallmentScheduleItem[] => {
+  if (!(totalAmount > 0) || count < 1 || !startDate) return [];
+
+  const totalAgorot = Math.round(totalAmount * 100);
+  const baseAgorot = Math.floor(totalAgorot / count);
+  const firstAgorot = totalAgorot - baseAgorot * (count - 1);
+  const start = parseISO(startDate);
+
+  return Array.from({ length: count }, (_, index) => {
+    const dueDate = intervalUnit === 'weeks' ? addWeeks(start, index) : addMonths(start, index);
+    return {
+      installment_number: index + 1,
+      amount: (index === 0 ? firstAgorot : baseAgorot) / 100,
+      due_date: format(dueDate, 'yyyy-MM-dd'),
+    };
+  });
+};
@@ -0,0 +1,49 @@
+/**
+ * Staff Permissions
+ *
+ * Capabilities granted to staff roles (staff_role_permissions). The database enforces them
+ * with RLS and edge functions; the app uses them to hide pages and sidebar items.
+ */
+
+export type StaffPermission =
+  | 'leads'
+  | 'meetings'
+  | 'health_data'
+  | 'plans'
+  | 'payments'
+  | 'messaging'
+  | 'knowledge_base'
+  | 'analytics'
+  | 'settings'
+  | 'users';
+
+export const ALL_STAFF_PERMISSIONS: StaffPermission[] = [
+  'leads',
+  'meetings',
+  'health_data',
+  'plans',
+  'payments',
+  'messaging',
+  'knowledge_base',
+  'analytics',
+  'settings',
+  'users',
+];
+
+// Landing pages in order of preference, for staff who can't open the leads page
+const STAFF_HOME_PAGES: { path: string; permission: StaffPermission }[] = [
+  { path: '/dashboard', permission: 'leads' },
+  { path: '/dashboard/meetings', permission: 'meetings' },
+  { path: '/dashboard/templates', permission: 'plans' },
+  { path: '/dashboard/payments', permission: 'payments' },
+  { path: '/dashboard/whatsapp-automations', permission: 'messaging' },
+  { path: '/dashboard/knowledge-base', permission: 'knowledge_base' },
+  { path: '/dashboard/analytics', permission: 'analytics' },
+  { path: '/dashboard/check-in-settings', permission: 'settings' },
+];
+
+/**
+ * First page the staff member may open, or null when they have no page at all
+ */
+export const getStaffHomePath = (permissions: StaffPermission[]): string | null =>
+  STAFF_HOME_PAGES.find((page) => permissions.includes(page.permission))?.path ?? null;
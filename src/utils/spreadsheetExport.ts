@@ -0,0 +1,185 @@
+/**
+ * Spreadsheet export helpers
+ *
+ * Builds CSV and XLSX files from rows of cells and downloads them. XLSX is written directly
+ * (Office Open XML zipped with fflate): right-to-left sheets, a bold frozen header row and
+ * numeric cells kept as numbers so the bookkeeper can sum them.
+ */
+
+import { strToU8, zipSync } from 'fflate';
+
+export type SpreadsheetCell = string | number | null | undefined;
+
+export interface SpreadsheetSheet {
+  name: string;
+  columns: string[];
+  rows: SpreadsheetCell[][];
+}
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Formula-like text is prefixed so spreadsheet apps don't execute it (CSV injection)
+const neutralizeFormula = (value: string) => (/^[=+\-@\t\r]/.test(value) ? `'${value}` : value);
+
+const toCsvCell = (cell: SpreadsheetCell) => {
+  if (cell === null || cell === undefined) return '';
+  if (typeof cell === 'number') return String(cell);
+  const value = neutralizeFormula(cell);
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * CSV of a single sheet, with a BOM so Excel reads the Hebrew as UTF-8
+ */
+export const buildCsv = (sheet: SpreadsheetSheet): Blob => {
+  const lines = [sheet.columns, ...sheet.rows].map((row) => row.map(toCsvCell).join(','));
+  return new Blob(['﻿' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+const escapeXml = (value: string) =>
+  value
+    // Characters XML 1.0 doesn't allow
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnLetter = (index: number): string => {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+};
+
+const buildCellXml = (cell: SpreadsheetCell, ref: string, style?: number) => {
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (cell === null || cell === undefined || cell === '') return `<c r="${ref}"${styleAttr}/>`;
+  if (typeof cell === 'number' && Number.isFinite(cell)) return `<c r="${ref}"${styleAttr}><v>${cell}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(neutralizeFormula(String(cell)))}</t></is></c>`;
+};
+
+const buildSheetXml = (sheet: SpreadsheetSheet) => {
+  const widths = sheet.columns.map((column, index) =>
+    Math.min(60, Math.max(10, column.length + 2, ...sheet.rows.map((row) => String(row[index] ?? '').length + 2)))
+  );
+  const cols = widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('');
+
+  const rows = [sheet.columns, ...sheet.rows].map((row, rowIndex) => {
+    const cells = row.map((cell, columnIndex) =>
+      buildCellXml(cell, `${columnLetter(columnIndex)}${rowIndex + 1}`, rowIndex === 0 ? 1 : undefined)
+    );
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView rightToLeft="1" workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '</sheetView></sheetViews>' +
+    `<cols>${cols}</cols>` +
+    `<sheetData>${rows.join('')}</sheetData>` +
+    '</worksheet>'
+  );
+};
+
+// Sheet names: at most 31 characters, without []:*?/\
+const toSheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet';
+
+/**
+ * XLSX workbook with one worksheet per sheet
+ */
+export const buildXlsx = (sheets: SpreadsheetSheet[]): Blob => {
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets.map((_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ).join('') +
+      '</Types>'
+    ),
+    '_rels/.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+    ),
+    'xl/workbook.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets>' +
+      sheets.map((sheet, index) =>
+        `<sheet name="${escapeXml(toSheetName(sheet.name))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      ).join('') +
+      '</sheets></workbook>'
+    ),
+    'xl/_rels/workbook.xml.rels': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets.map((_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      ).join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>'
+    ),
+    // Style 0: default, style 1: bold (header row)
+    'xl/styles.xml': strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<fonts count="2"><font><sz val="11"/><name val="Arial"/></font><font><b/><sz val="11"/><name val="Arial"/></font></fonts>' +
+      '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+      '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+      '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+      '</styleSheet>'
+    ),
+  };
+
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(buildSheetXml(sheet));
+  });
+
+  return new Blob([zipSync(files)], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Download the sheets as one XLSX workbook, or as one CSV file per sheet (CSV has no sheets):
+ * the first sheet as `<baseFileName>.csv`, the others as `<baseFileName> - <sheet name>.csv`
+ */
+export const downloadSpreadsheet = (sheets: SpreadsheetSheet[], format: ExportFormat, baseFileName: string) => {
+  if (format === 'xlsx') {
+    downloadBlob(buildXlsx(sheets), `${baseFileName}.xlsx`);
+    return;
+  }
+
+  sheets.forEach((sheet, index) => {
+    const fileName = index === 0 ? baseFileName : `${baseFileName} - ${toSheetName(sheet.name)}`;
+    downloadBlob(buildCsv(sheet), `${fileName}.csv`);
+  });
+};
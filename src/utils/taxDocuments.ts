@@ -0,0 +1,59 @@
+/**
+ * Tax document (חשבונית / קבלה) helpers
+ *
+ * Documents are issued in the database (issue_payment_invoice / issue_credit_note_on_refund) with
+ * sequential numbering; the render-tax-document edge function renders their PDF into client-assets.
+ */
+
+export type TaxDocumentType = 'חשבונית מס קבלה' | 'קבלה' | 'חשבונית זיכוי';
+
+export interface TaxDocumentBusiness {
+  name: string;
+  type: string;
+  number: string;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface TaxDocument {
+  id: string;
+  document_type: TaxDocumentType;
+  document_number: number;
+  payment_id: string | null;
+  original_document_id: string | null;
+  customer_id: string | null;
+  lead_id: string | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  customer_email: string | null;
+  business: TaxDocumentBusiness;
+  description: string;
+  payment_method: string | null;
+  currency: string;
+  total_amount: number;
+  amount_before_vat: number;
+  vat_rate: number;
+  vat_amount: number;
+  issued_at: string;
+  pdf_path: string | null;
+  pdf_generated_at: string | null;
+  sent_at: string | null;
+  // Joined for credit notes
+  original_document?: { document_type: TaxDocumentType; document_number: number } | null;
+}
+
+export const isCreditNote = (document: Pick<TaxDocument, 'document_type'>) =>
+  document.document_type === 'חשבונית זיכוי';
+
+/** e.g. "חשבונית מס קבלה 1024" */
+export const getTaxDocumentTitle = (document: Pick<TaxDocument, 'document_type' | 'document_number'>) =>
+  `${document.document_type} ${document.document_number}`;
+
+export const formatTaxDocumentAmount = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('he-IL', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount} ${currency}`;
+  }
+};
@@ -0,0 +1,9 @@
+/**
+ * WhatsApp Template Renderer
+ *
+ * Shared with the edge functions - the implementation lives in
+ * supabase/functions/_shared/templateRenderer.ts (fallbacks, conditional blocks,
+ * number/date formatting and gender-aware phrases)
+ */
+
+export * from '../../supabase/functions/_shared/templateRenderer';
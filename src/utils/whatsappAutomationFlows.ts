@@ -1,8 +1,8 @@
 /**
  * WhatsApp Automation Flows Utility
- * 
+ *
  * Shared logic for determining which automation flows are active
- * This ensures consistency between the automations page and components that use templates
+ * Flow definitions live in the whatsapp_automation_flows table (see useAutomationFlows)
  */
 
 export interface FlowConfig {
@@ -11,6 +11,18 @@ export interface FlowConfig {
   icon?: React.ReactNode;
 }
 
+export interface AutomationFlowRow {
+  id: string;
+  flow_key: string;
+  label: string;
+  is_default: boolean;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Built-in flows (seeded into whatsapp_automation_flows by migration)
 export const DEFAULT_FLOW_CONFIGS: FlowConfig[] = [
   {
     key: 'customer_journey_start',
@@ -36,86 +48,80 @@ export const DEFAULT_FLOW_CONFIGS: FlowConfig[] = [
     key: 'weekly_review',
     label: 'סיכום שבועי ויעדים',
   },
+  {
+    key: 'meeting_reminder_24h',
+    label: 'תזכורת פגישה - 24 שעות לפני',
+  },
+  {
+    key: 'meeting_reminder_1h',
+    label: 'תזכורת פגישה - שעה לפני',
+  },
 ];
 
-// Load custom flows from localStorage
-export const loadCustomFlows = (): FlowConfig[] => {
-  try {
-    const stored = localStorage.getItem('custom_automation_flows');
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch (error) {
-  }
-  return [];
-};
+// Flows sent by send-meeting-reminders (their templates can use the meeting placeholders)
+export const MEETING_REMINDER_FLOW_KEYS = ['meeting_reminder_24h', 'meeting_reminder_1h'];
 
-// Save custom flows to localStorage
-export const saveCustomFlows = (flows: FlowConfig[]): void => {
-  try {
-    localStorage.setItem('custom_automation_flows', JSON.stringify(flows));
-  } catch (error) {
-    // Silent failure
-  }
-};
-
-// Load deleted default flows from localStorage
-export const loadDeletedDefaultFlows = (): string[] => {
-  try {
-    const stored = localStorage.getItem('deleted_default_automation_flows');
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch (error) {
-  }
-  return [];
-};
-
-// Save deleted default flows to localStorage
-export const saveDeletedDefaultFlows = (deletedKeys: string[]): void => {
-  try {
-    localStorage.setItem('deleted_default_automation_flows', JSON.stringify(deletedKeys));
-  } catch (error) {
-    // Silent failure
-  }
-};
+export const isDefaultFlowKey = (flowKey: string): boolean =>
+  DEFAULT_FLOW_CONFIGS.some(flow => flow.key === flowKey);
 
 /**
- * Get all active flows (same logic as WhatsAppAutomationsPage)
- * This ensures consistency - only flows shown on the automations page are available
+ * Resolve the active flows from the database rows
+ * Built-in flows come first (in DEFAULT_FLOW_CONFIGS order), then custom flows by creation date
+ * Falls back to the built-in flows when the table is empty (migration not applied yet)
  */
-export const getActiveFlows = (): FlowConfig[] => {
-  const customFlows = loadCustomFlows();
-  const deletedDefaultFlows = loadDeletedDefaultFlows();
-
-  // Filter out deleted default flows
-  const activeDefaultFlows = DEFAULT_FLOW_CONFIGS.filter(
-    flow => !deletedDefaultFlows.includes(flow.key)
-  );
+export const resolveActiveFlows = (rows: AutomationFlowRow[]): FlowConfig[] => {
+  if (rows.length === 0) {
+    return DEFAULT_FLOW_CONFIGS;
+  }
 
-  const defaultFlowKeys = new Set(activeDefaultFlows.map(f => f.key));
+  const defaultOrder = new Map(DEFAULT_FLOW_CONFIGS.map((flow, index) => [flow.key, index]));
 
-  // Get custom flows that are NOT overriding default flows
-  const pureCustomFlows = customFlows.filter(flow => !defaultFlowKeys.has(flow.key));
+  return rows
+    .filter(row => row.is_active)
+    .sort((a, b) => {
+      const aOrder = defaultOrder.get(a.flow_key) ?? Number.MAX_SAFE_INTEGER;
+      const bOrder = defaultOrder.get(b.flow_key) ?? Number.MAX_SAFE_INTEGER;
+      if (aOrder !== bOrder) return aOrder - bOrder;
+      return a.created_at.localeCompare(b.created_at);
+    })
+    .map(row => ({ key: row.flow_key, label: row.label }));
+};
 
-  // Get custom flows that override defaults (these will replace the defaults)
-  const overridingCustomFlows = customFlows.filter(flow => defaultFlowKeys.has(flow.key));
+// Legacy localStorage keys - flows were stored per-browser before whatsapp_automation_flows
+const LEGACY_CUSTOM_FLOWS_KEY = 'custom_automation_flows';
+const LEGACY_DELETED_DEFAULT_FLOWS_KEY = 'deleted_default_automation_flows';
 
-  // Use custom override if exists, otherwise use default
-  const mergedFlows = activeDefaultFlows.map(defaultFlow => {
-    const customOverride = overridingCustomFlows.find(cf => cf.key === defaultFlow.key);
-    return customOverride || defaultFlow;
-  });
+// Load flows saved in localStorage by older versions (custom flows + label overrides, deleted defaults)
+export const loadLegacyLocalStorageFlows = (): { customFlows: FlowConfig[]; deletedDefaultFlows: string[] } => {
+  const read = <T>(key: string): T[] => {
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        return Array.isArray(parsed) ? parsed : [];
+      }
+    } catch (error) {
+      // Silent failure
+    }
+    return [];
+  };
 
-  // Combine: merged defaults/customs + pure custom flows
-  return [...mergedFlows, ...pureCustomFlows];
+  return {
+    customFlows: read<FlowConfig>(LEGACY_CUSTOM_FLOWS_KEY).filter(
+      flow => flow && typeof flow.key === 'string' && typeof flow.label === 'string'
+    ),
+    deletedDefaultFlows: read<string>(LEGACY_DELETED_DEFAULT_FLOWS_KEY).filter(
+      key => typeof key === 'string'
+    ),
+  };
 };
 
-/**
- * Get flow label for a given flow key
- */
-export const getFlowLabel = (flowKey: string, defaultLabel?: string): string => {
-  const activeFlows = getActiveFlows();
-  const flow = activeFlows.find(f => f.key === flowKey);
-  return flow?.label || defaultLabel || flowKey;
+// Remove the legacy localStorage entries once they were saved to the database
+export const clearLegacyLocalStorageFlows = (): void => {
+  try {
+    localStorage.removeItem(LEGACY_CUSTOM_FLOWS_KEY);
+    localStorage.removeItem(LEGACY_DELETED_DEFAULT_FLOWS_KEY);
+  } catch (error) {
+    // Silent failure
+  }
 };
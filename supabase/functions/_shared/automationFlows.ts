@@ -0,0 +1,139 @@
+/**
+ * Automation Flow Helpers
+ * Reads flow definitions from whatsapp_automation_flows (managed on the WhatsApp automations page)
+ * and renders their whatsapp_flow_templates for a customer
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { stripHtmlForWhatsApp } from './utils.ts';
+import {
+  buildLeadPlaceholders,
+  renderTemplate,
+  type PlaceholderCustomer,
+  type PlaceholderLead,
+  type PlaceholderValues,
+} from './templateRenderer.ts';
+
+export interface FlowTemplate {
+  template_content: string;
+  buttons: unknown;
+  media: { type: 'image' | 'video' | 'gif'; url: string } | null;
+}
+
+export interface RenderedFlowMessage {
+  message: string;
+  buttons: Array<{ id: string; text: string }>;
+  media: { type: 'image' | 'video' | 'gif'; url: string } | null;
+}
+
+/**
+ * Whether a flow is active
+ * Flows without a row (or before the table exists) are treated as active
+ */
+export async function isAutomationFlowActive(
+  supabaseAdmin: SupabaseClient,
+  flowKey: string
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('whatsapp_automation_flows')
+    .select('is_active')
+    .eq('flow_key', flowKey)
+    .maybeSingle();
+
+  if (error || !data) {
+    return true;
+  }
+
+  return data.is_active !== false;
+}
+
+/**
+ * Load a flow template, preferring the coach's own copy
+ */
+export async function loadFlowTemplate(
+  supabaseAdmin: SupabaseClient,
+  flowKey: string,
+  coachId: string | null
+): Promise<FlowTemplate | null> {
+  if (coachId) {
+    const { data } = await supabaseAdmin
+      .from('whatsapp_flow_templates')
+      .select('template_content, buttons, media')
+      .eq('flow_key', flowKey)
+      .eq('user_id', coachId)
+      .maybeSingle();
+
+    if (data) {
+      return data as FlowTemplate;
+    }
+  }
+
+  const { data } = await supabaseAdmin
+    .from('whatsapp_flow_templates')
+    .select('template_content, buttons, media')
+    .eq('flow_key', flowKey)
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as FlowTemplate) || null;
+}
+
+/**
+ * Fill a flow template with the customer's data (plus extra placeholders, e.g. meeting details)
+ */
+export function renderFlowTemplate(
+  template: FlowTemplate,
+  customer: PlaceholderCustomer | null,
+  lead: PlaceholderLead | null,
+  extras: PlaceholderValues = {}
+): RenderedFlowMessage {
+  const placeholders = buildLeadPlaceholders(customer, lead, extras);
+
+  let rawButtons: unknown = template.buttons;
+  try {
+    rawButtons = typeof rawButtons === 'string' ? JSON.parse(rawButtons) : rawButtons;
+  } catch (error) {
+    rawButtons = [];
+  }
+
+  const buttons = (Array.isArray(rawButtons) ? rawButtons : []).map((btn: { id?: unknown; text?: unknown }) => ({
+    id: String(btn.id),
+    text: renderTemplate(String(btn.text || ''), placeholders),
+  }));
+
+  return {
+    message: stripHtmlForWhatsApp(renderTemplate(template.template_content, placeholders)),
+    buttons,
+    media: template.media?.url ? template.media : null,
+  };
+}
+
+/**
+ * Add the template's button actions to the buttons of a sent message (matched by button id)
+ * Stored with the outgoing message, so a reply runs the action of the button the client saw
+ */
+export function attachButtonActions(
+  template: FlowTemplate,
+  buttons: Array<{ id: string; text: string }>
+): Array<Record<string, unknown>> {
+  let rawButtons: unknown = template.buttons;
+  try {
+    rawButtons = typeof rawButtons === 'string' ? JSON.parse(rawButtons) : rawButtons;
+  } catch (error) {
+    rawButtons = [];
+  }
+
+  const templateButtons = (Array.isArray(rawButtons) ? rawButtons : []) as Array<{
+    id?: unknown;
+    action?: unknown;
+    actionConfig?: unknown;
+  }>;
+
+  return buttons.map((button) => {
+    const templateButton = templateButtons.find((btn) => String(btn.id) === String(button.id));
+    return templateButton?.action
+      ? { ...button, action: templateButton.action, actionConfig: templateButton.actionConfig || {} }
+      : button;
+  });
+}
@@ -0,0 +1,301 @@
+/**
+ * Automation Rules Engine
+ * Runs whatsapp_automation_rules for a trigger: checks the trigger options and conditions,
+ * renders the rule's flow and queues it in scheduled_messages.
+ * Every execution (queued, skipped or failed) is written to automation_rule_runs.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { isAutomationFlowActive, loadFlowTemplate, renderFlowTemplate } from './automationFlows.ts';
+
+export type AutomationTriggerType =
+  | 'lead_status_changed'
+  | 'payment_completed'
+  | 'budget_assigned'
+  | 'no_check_in'
+  | 'subscription_expiring';
+
+export type ConditionOperator = 'equals' | 'not_equals' | 'contains' | 'is_empty' | 'is_not_empty';
+
+export interface AutomationRuleCondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+export interface AutomationRule {
+  id: string;
+  flow_key: string;
+  name: string;
+  trigger_type: AutomationTriggerType;
+  trigger_config: {
+    statusMain?: string;
+    statusSub?: string;
+    days?: number;
+  };
+  conditions: AutomationRuleCondition[];
+  delay_minutes: number;
+  created_by: string | null;
+}
+
+export interface AutomationTrigger {
+  triggerType: AutomationTriggerType;
+  leadId: string | null;
+  customerId: string | null;
+  payload: Record<string, unknown>;
+  eventId?: string;
+  dedupeKey: string; // Same key = same occurrence; a rule runs once per key
+}
+
+type RunStatus = 'queued' | 'skipped' | 'failed';
+
+/**
+ * Load the active rules for a trigger type
+ */
+export async function loadActiveRules(
+  supabaseAdmin: SupabaseClient,
+  triggerType: AutomationTriggerType
+): Promise<AutomationRule[]> {
+  const { data, error } = await supabaseAdmin
+    .from('whatsapp_automation_rules')
+    .select('id, flow_key, name, trigger_type, trigger_config, conditions, delay_minutes, created_by')
+    .eq('trigger_type', triggerType)
+    .eq('is_active', true);
+
+  if (error || !data) {
+    return [];
+  }
+
+  return data as AutomationRule[];
+}
+
+/**
+ * Whether the trigger options of the rule match the event
+ * (conditions are checked separately so mismatches can be logged)
+ */
+function matchesTriggerConfig(rule: AutomationRule, trigger: AutomationTrigger): boolean {
+  if (rule.trigger_type !== 'lead_status_changed') {
+    return true;
+  }
+
+  const { statusMain, statusSub } = rule.trigger_config || {};
+  if (statusMain && trigger.payload.status_main !== statusMain) return false;
+  if (statusSub && trigger.payload.status_sub !== statusSub) return false;
+  return true;
+}
+
+/**
+ * Check all rule conditions against the lead, customer and event values
+ * Returns the first condition that failed, or null when all match
+ */
+function findFailedCondition(
+  conditions: AutomationRuleCondition[],
+  values: Record<string, unknown>
+): AutomationRuleCondition | null {
+  for (const condition of conditions || []) {
+    const raw = values[condition.field];
+    const actual = raw === null || raw === undefined ? '' : String(raw).trim();
+    const expected = (condition.value || '').trim();
+
+    let matches: boolean;
+    switch (condition.operator) {
+      case 'equals':
+        matches = actual === expected;
+        break;
+      case 'not_equals':
+        matches = actual !== expected;
+        break;
+      case 'contains':
+        matches = actual.toLowerCase().includes(expected.toLowerCase());
+        break;
+      case 'is_empty':
+        matches = actual === '';
+        break;
+      case 'is_not_empty':
+        matches = actual !== '';
+        break;
+      default:
+        matches = false;
+    }
+
+    if (!matches) {
+      return condition;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Write a rule execution to the audit log
+ * Returns the run id, or null when this rule already ran for the dedupe key
+ */
+async function logRun(
+  supabaseAdmin: SupabaseClient,
+  rule: AutomationRule,
+  trigger: AutomationTrigger,
+  status: RunStatus,
+  reason: string | null
+): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from('automation_rule_runs')
+    .insert({
+      rule_id: rule.id,
+      rule_name: rule.name,
+      flow_key: rule.flow_key,
+      trigger_type: trigger.triggerType,
+      event_id: trigger.eventId || null,
+      lead_id: trigger.leadId,
+      customer_id: trigger.customerId,
+      status,
+      reason,
+      dedupe_key: trigger.dedupeKey,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    // 23505 = unique violation on (rule_id, dedupe_key): already handled
+    if (error.code !== '23505') {
+      console.error('[automationRules] Failed to log rule run:', error.message);
+    }
+    return null;
+  }
+
+  return data?.id || null;
+}
+
+async function updateRun(
+  supabaseAdmin: SupabaseClient,
+  runId: string,
+  update: { status: RunStatus; reason?: string | null; scheduled_message_id?: string | null }
+): Promise<void> {
+  await supabaseAdmin.from('automation_rule_runs').update(update).eq('id', runId);
+}
+
+/**
+ * Execute one rule for a trigger
+ */
+async function executeRule(
+  supabaseAdmin: SupabaseClient,
+  rule: AutomationRule,
+  trigger: AutomationTrigger,
+  customer: Record<string, unknown> | null,
+  lead: Record<string, unknown> | null
+): Promise<RunStatus | null> {
+  const subscription = (lead?.subscription_data || {}) as Record<string, unknown>;
+  const failedCondition = findFailedCondition(rule.conditions, {
+    ...(lead || {}),
+    full_name: customer?.full_name,
+    email: customer?.email,
+    subscription_status: subscription.status,
+    ...trigger.payload,
+  });
+
+  if (failedCondition) {
+    const runId = await logRun(
+      supabaseAdmin,
+      rule,
+      trigger,
+      'skipped',
+      `Condition not met: ${failedCondition.field} ${failedCondition.operator} ${failedCondition.value || ''}`.trim()
+    );
+    return runId ? 'skipped' : null;
+  }
+
+  // Claim the run before sending so a rule never fires twice for the same occurrence
+  const runId = await logRun(supabaseAdmin, rule, trigger, 'queued', null);
+  if (!runId) {
+    return null;
+  }
+
+  try {
+    if (!(await isAutomationFlowActive(supabaseAdmin, rule.flow_key))) {
+      await updateRun(supabaseAdmin, runId, { status: 'skipped', reason: `Flow ${rule.flow_key} is not active` });
+      return 'skipped';
+    }
+
+    const phone = customer?.phone as string | undefined;
+    if (!phone) {
+      await updateRun(supabaseAdmin, runId, { status: 'skipped', reason: 'Customer has no phone number' });
+      return 'skipped';
+    }
+
+    const template = await loadFlowTemplate(supabaseAdmin, rule.flow_key, rule.created_by);
+    if (!template || !template.template_content?.trim()) {
+      throw new Error(`No template found for flow ${rule.flow_key}`);
+    }
+
+    const { message, buttons, media } = renderFlowTemplate(template, customer, lead);
+    const scheduledFor = new Date(Date.now() + (rule.delay_minutes || 0) * 60 * 1000);
+
+    const { data: scheduled, error } = await supabaseAdmin
+      .from('scheduled_messages')
+      .insert({
+        lead_id: trigger.leadId,
+        customer_id: trigger.customerId,
+        phone,
+        flow_key: rule.flow_key,
+        message,
+        buttons,
+        media,
+        scheduled_for: scheduledFor.toISOString(),
+        created_by: rule.created_by,
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+
+    await updateRun(supabaseAdmin, runId, { status: 'queued', scheduled_message_id: scheduled.id });
+    return 'queued';
+  } catch (error) {
+    await updateRun(supabaseAdmin, runId, {
+      status: 'failed',
+      reason: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return 'failed';
+  }
+}
+
+/**
+ * Run all matching rules for a trigger
+ * Never throws - returns how many rules were queued / skipped / failed
+ */
+export async function runAutomationRules(
+  supabaseAdmin: SupabaseClient,
+  trigger: AutomationTrigger,
+  rules?: AutomationRule[]
+): Promise<Record<RunStatus, number>> {
+  const counts: Record<RunStatus, number> = { queued: 0, skipped: 0, failed: 0 };
+
+  try {
+    const candidates = (rules || (await loadActiveRules(supabaseAdmin, trigger.triggerType)))
+      .filter((rule) => matchesTriggerConfig(rule, trigger));
+    if (candidates.length === 0 || (!trigger.leadId && !trigger.customerId)) {
+      return counts;
+    }
+
+    const { data: lead } = trigger.leadId
+      ? await supabaseAdmin.from('leads').select('*').eq('id', trigger.leadId).maybeSingle()
+      : { data: null };
+
+    const customerId = trigger.customerId || (lead?.customer_id as string | undefined) || null;
+    const { data: customer } = customerId
+      ? await supabaseAdmin.from('customers').select('id, full_name, phone, email').eq('id', customerId).maybeSingle()
+      : { data: null };
+
+    const resolvedTrigger = { ...trigger, customerId };
+
+    for (const rule of candidates) {
+      const status = await executeRule(supabaseAdmin, rule, resolvedTrigger, customer, lead);
+      if (status) {
+        counts[status]++;
+      }
+    }
+  } catch (error) {
+    console.error('[automationRules] Failed to run rules:', error instanceof Error ? error.message : error);
+  }
+
+  return counts;
+}
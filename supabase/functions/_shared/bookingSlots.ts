@@ -0,0 +1,170 @@
+/**
+ * Booking Slots
+ *
+ * Computes the free slots of a coach for the public booking page from their weekly hours,
+ * breaks, holidays and existing meetings. Used by the public-booking edge function and
+ * re-exported from src/utils/bookingSlots.ts for the availability settings preview.
+ * Must stay dependency-free so it runs in both Vite and Deno.
+ */
+
+export const BOOKING_TIME_ZONE = 'Asia/Jerusalem';
+
+export interface BookingSettings {
+  slot_duration_minutes: number;
+  buffer_minutes: number;
+  min_notice_hours: number;
+  max_days_ahead: number;
+}
+
+export interface AvailabilityRule {
+  weekday: number; // 0 = Sunday
+  kind: 'hours' | 'break';
+  start_time: string; // HH:mm[:ss]
+  end_time: string;
+}
+
+export interface AvailabilityException {
+  date_from: string; // yyyy-MM-dd
+  date_to: string;
+}
+
+export interface BusyInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface BookingSlot {
+  start: string; // ISO (UTC)
+  end: string;
+  date: string; // yyyy-MM-dd in BOOKING_TIME_ZONE
+  time: string; // HH:mm in BOOKING_TIME_ZONE
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const formatMinutes = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + days));
+  return `${next.getUTCFullYear()}-${pad(next.getUTCMonth() + 1)}-${pad(next.getUTCDate())}`;
+};
+
+const getWeekday = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+// Offset (ms) between the wall clock in timeZone and UTC at the given instant
+const getTimeZoneOffset = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const value = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+/**
+ * The calendar date (yyyy-MM-dd) of an instant in timeZone
+ */
+export const getZonedDate = (instant: Date, timeZone: string = BOOKING_TIME_ZONE) => {
+  const local = new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone));
+  return `${local.getUTCFullYear()}-${pad(local.getUTCMonth() + 1)}-${pad(local.getUTCDate())}`;
+};
+
+/**
+ * Convert a wall-clock date + time in timeZone to a UTC instant (handles DST changes)
+ */
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string = BOOKING_TIME_ZONE) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const minutes = toMinutes(time);
+  const wallClock = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60);
+
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  instant = wallClock - getTimeZoneOffset(new Date(instant), timeZone);
+
+  return new Date(instant);
+};
+
+const isHoliday = (date: string, exceptions: AvailabilityException[]) =>
+  exceptions.some((exception) => date >= exception.date_from && date <= exception.date_to);
+
+/**
+ * Free slots from now until settings.max_days_ahead, sorted by start time.
+ * Slots must fit inside a weekly window, avoid breaks and holidays, start at least
+ * min_notice_hours from now and keep buffer_minutes away from every busy interval.
+ */
+export const computeAvailableSlots = (params: {
+  settings: BookingSettings;
+  rules: AvailabilityRule[];
+  exceptions: AvailabilityException[];
+  busy: BusyInterval[];
+  now?: Date;
+  timeZone?: string;
+}): BookingSlot[] => {
+  const { settings, rules, exceptions, busy } = params;
+  const now = params.now || new Date();
+  const timeZone = params.timeZone || BOOKING_TIME_ZONE;
+
+  const duration = settings.slot_duration_minutes;
+  const bufferMs = settings.buffer_minutes * MINUTE_MS;
+  const earliestStart = now.getTime() + settings.min_notice_hours * 60 * MINUTE_MS;
+  const today = getZonedDate(now, timeZone);
+
+  const slots = new Map<string, BookingSlot>();
+
+  for (let offset = 0; offset <= settings.max_days_ahead; offset++) {
+    const date = addDays(today, offset);
+    if (isHoliday(date, exceptions)) continue;
+
+    const weekday = getWeekday(date);
+    const dayRules = rules.filter((rule) => rule.weekday === weekday);
+    const breaks = dayRules
+      .filter((rule) => rule.kind === 'break')
+      .map((rule) => ({ start: toMinutes(rule.start_time), end: toMinutes(rule.end_time) }));
+
+    for (const window of dayRules.filter((rule) => rule.kind === 'hours')) {
+      const windowEnd = toMinutes(window.end_time);
+
+      for (let slotStart = toMinutes(window.start_time); slotStart + duration <= windowEnd; slotStart += duration) {
+        const slotEnd = slotStart + duration;
+        if (breaks.some((pause) => slotStart < pause.end && slotEnd > pause.start)) continue;
+
+        const start = zonedTimeToUtc(date, formatMinutes(slotStart), timeZone);
+        const end = new Date(start.getTime() + duration * MINUTE_MS);
+        if (start.getTime() < earliestStart) continue;
+
+        const overlapsBusy = busy.some(
+          (interval) =>
+            start.getTime() < interval.end.getTime() + bufferMs &&
+            end.getTime() + bufferMs > interval.start.getTime()
+        );
+        if (overlapsBusy) continue;
+
+        const key = start.toISOString();
+        if (!slots.has(key)) {
+          slots.set(key, { start: key, end: end.toISOString(), date, time: formatMinutes(slotStart) });
+        }
+      }
+    }
+  }
+
+  return Array.from(slots.values()).sort((a, b) => a.start.localeCompare(b.start));
+};
@@ -0,0 +1,414 @@
+/**
+ * WhatsApp Button Action Helpers
+ * Executes the action bound to an interactive template button (see TemplateEditorModal)
+ * when the client presses it and the reply arrives in receive-whatsapp-webhook.
+ * The action is the one stored with the sent message (recordWhatsAppMessage), not the template's
+ * current buttons, which may have changed since.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { getChatId } from './utils.ts';
+import { getGreenApiCredentials, sendGreenApiMessage } from './greenApi.ts';
+import { recordWhatsAppMessage } from './whatsappMessages.ts';
+import { isAutomationFlowActive, loadFlowTemplate, renderFlowTemplate } from './automationFlows.ts';
+
+export type ButtonActionType = 'reply' | 'status' | 'meeting' | 'flow' | 'notify' | 'url' | 'none';
+
+export interface TemplateButton {
+  id: string;
+  text: string;
+  action?: ButtonActionType | string;
+  actionConfig?: {
+    replyMessage?: string; // For 'reply' action
+    statusMain?: string; // For 'status' action (STATUS_CATEGORIES label)
+    statusSub?: string; // For 'status' action (optional sub-status label)
+    meetingType?: string; // For 'meeting' action
+    flowKey?: string; // For 'flow' action (follow-up template)
+    notifyMessage?: string; // For 'notify' action (optional extra text)
+    url?: string; // For 'url' action
+  };
+}
+
+export interface ButtonReplyContext {
+  incomingMessageId: string | null; // whatsapp_messages row of the reply
+  phone: string;
+  customerId: string | null;
+  leadId: string | null;
+  buttonId: string | null;
+  buttonText: string | null;
+  stanzaId: string | null; // Green API idMessage of the message that carried the buttons
+}
+
+export interface ButtonActionResult {
+  action: string;
+  status: 'completed' | 'failed' | 'skipped';
+  flowKey?: string | null;
+  details?: Record<string, unknown>;
+  error?: string;
+}
+
+interface OriginatingMessage {
+  flow_key: string | null;
+  raw_payload: { buttons?: unknown } | null;
+  sent_by: string | null;
+  customer_id: string | null;
+  lead_id: string | null;
+}
+
+interface ActionTarget {
+  phone: string;
+  customerId: string | null;
+  leadId: string | null;
+  coachId: string | null;
+  buttonText: string;
+}
+
+/**
+ * Find the outgoing template message the client replied to
+ * Prefers the exact message (stanzaId), otherwise the latest flow message sent to the phone
+ */
+async function findOriginatingMessage(
+  supabaseAdmin: SupabaseClient,
+  context: ButtonReplyContext
+): Promise<OriginatingMessage | null> {
+  if (context.stanzaId) {
+    const { data } = await supabaseAdmin
+      .from('whatsapp_messages')
+      .select('flow_key, raw_payload, sent_by, customer_id, lead_id')
+      .eq('direction', 'outgoing')
+      .eq('green_api_message_id', context.stanzaId)
+      .maybeSingle();
+
+    if (data) {
+      return data as OriginatingMessage;
+    }
+  }
+
+  const { data } = await supabaseAdmin
+    .from('whatsapp_messages')
+    .select('flow_key, raw_payload, sent_by, customer_id, lead_id')
+    .eq('direction', 'outgoing')
+    .eq('phone', context.phone)
+    .eq('message_type', 'buttonsMessage')
+    .not('flow_key', 'is', null)
+    .order('message_timestamp', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as OriginatingMessage | null) || null;
+}
+
+function parseTemplateButtons(buttons: unknown): TemplateButton[] {
+  try {
+    const parsed = typeof buttons === 'string' ? JSON.parse(buttons) : buttons;
+    return Array.isArray(parsed) ? (parsed as TemplateButton[]) : [];
+  } catch (error) {
+    return [];
+  }
+}
+
+/**
+ * Match the pressed button to the buttons stored with the sent message
+ * Green API button ids are the 1-based position (see SendButtons in send-whatsapp-message)
+ */
+function matchPressedButton(
+  buttons: TemplateButton[],
+  buttonId: string | null,
+  buttonText: string | null
+): TemplateButton | null {
+  const index = Number(buttonId) - 1;
+  if (Number.isInteger(index) && index >= 0 && index < buttons.length) {
+    return buttons[index];
+  }
+
+  if (buttonText) {
+    return buttons.find((btn) => btn.text?.trim() === buttonText.trim()) || null;
+  }
+
+  return null;
+}
+
+async function sendTextToClient(
+  supabaseAdmin: SupabaseClient,
+  target: ActionTarget,
+  message: string,
+  options: { buttons?: Array<{ id: string; text: string }>; flowKey?: string | null } = {}
+): Promise<string> {
+  const credentials = await getGreenApiCredentials(supabaseAdmin);
+  if (!credentials) {
+    throw new Error('Green API configuration not found');
+  }
+
+  const idMessage = await sendGreenApiMessage(credentials, {
+    chatId: getChatId(target.phone),
+    message,
+    buttons: options.buttons,
+  });
+
+  if (!idMessage) {
+    throw new Error('Green API did not accept the message');
+  }
+
+  await recordWhatsAppMessage(supabaseAdmin, {
+    direction: 'outgoing',
+    phone: target.phone,
+    customer_id: target.customerId,
+    lead_id: target.leadId,
+    message_type: options.buttons?.length ? 'buttonsMessage' : 'textMessage',
+    body: message,
+    green_api_message_id: idMessage,
+    flow_key: options.flowKey || null,
+    raw_payload: options.buttons?.length ? { buttons: options.buttons } : {},
+    // Follow-ups go out on behalf of the coach who owns the flow
+    sent_by: target.coachId,
+  });
+
+  return idMessage;
+}
+
+async function updateLeadStatus(
+  supabaseAdmin: SupabaseClient,
+  target: ActionTarget,
+  config: TemplateButton['actionConfig']
+): Promise<Record<string, unknown>> {
+  if (!target.leadId) {
+    throw new Error('No lead linked to this phone number');
+  }
+  if (!config?.statusMain) {
+    throw new Error('Status action is missing a target status');
+  }
+
+  const { error } = await supabaseAdmin
+    .from('leads')
+    .update({
+      status_main: config.statusMain,
+      status_sub: config.statusSub || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', target.leadId);
+
+  if (error) throw error;
+
+  return { statusMain: config.statusMain, statusSub: config.statusSub || null };
+}
+
+async function createMeeting(
+  supabaseAdmin: SupabaseClient,
+  target: ActionTarget,
+  config: TemplateButton['actionConfig']
+): Promise<Record<string, unknown>> {
+  if (!target.leadId && !target.customerId) {
+    throw new Error('No customer linked to this phone number');
+  }
+
+  const meetingType = config?.meetingType || 'פגישת הכרות';
+  const notes = `נוצר אוטומטית מלחיצה על הכפתור "${target.buttonText}" בוואטסאפ`;
+
+  // No start time - the coach schedules it from the meeting dialog
+  const { data, error } = await supabaseAdmin
+    .from('meetings')
+    .insert({
+      lead_id: target.leadId,
+      customer_id: target.customerId,
+      created_by: target.coachId,
+      status: 'מתוכנן',
+      meeting_type: meetingType,
+      meeting_data: {
+        notes,
+        'הערות': notes,
+        source: 'whatsapp_button',
+      },
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+
+  return { meetingId: data?.id, meetingType };
+}
+
+async function sendFollowUpFlow(
+  supabaseAdmin: SupabaseClient,
+  target: ActionTarget,
+  config: TemplateButton['actionConfig']
+): Promise<Record<string, unknown>> {
+  const flowKey = config?.flowKey;
+  if (!flowKey) {
+    throw new Error('Flow action is missing a template');
+  }
+  if (!(await isAutomationFlowActive(supabaseAdmin, flowKey))) {
+    throw new Error(`Flow ${flowKey} is no longer active`);
+  }
+
+  const template = await loadFlowTemplate(supabaseAdmin, flowKey, target.coachId);
+  if (!template || !template.template_content?.trim()) {
+    throw new Error(`No template found for flow ${flowKey}`);
+  }
+
+  const [{ data: customer }, { data: lead }] = await Promise.all([
+    target.customerId
+      ? supabaseAdmin.from('customers').select('full_name, phone, email').eq('id', target.customerId).maybeSingle()
+      : Promise.resolve({ data: null }),
+    target.leadId
+      ? supabaseAdmin.from('leads').select('*').eq('id', target.leadId).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const { message, buttons } = renderFlowTemplate(template, customer, lead);
+
+  const idMessage = await sendTextToClient(supabaseAdmin, target, message, { buttons, flowKey });
+
+  return { flowKey, idMessage };
+}
+
+async function notifyCoach(
+  supabaseAdmin: SupabaseClient,
+  target: ActionTarget,
+  config: TemplateButton['actionConfig']
+): Promise<Record<string, unknown>> {
+  // The coach who sent the template, otherwise every active admin
+  let recipientIds: string[] = target.coachId ? [target.coachId] : [];
+  if (recipientIds.length === 0) {
+    const { data } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .eq('role', 'admin')
+      .eq('is_active', true);
+    recipientIds = (data || []).map((profile: { id: string }) => profile.id);
+  }
+
+  if (recipientIds.length === 0) {
+    throw new Error('No coach to notify');
+  }
+
+  let clientName = target.phone;
+  if (target.customerId) {
+    const { data: customer } = await supabaseAdmin
+      .from('customers')
+      .select('full_name')
+      .eq('id', target.customerId)
+      .maybeSingle();
+    clientName = customer?.full_name || clientName;
+  }
+
+  const message = config?.notifyMessage
+    ? `${clientName} לחצ/ה על "${target.buttonText}" - ${config.notifyMessage}`
+    : `${clientName} לחצ/ה על "${target.buttonText}"`;
+
+  const { error } = await supabaseAdmin.from('notifications').insert(
+    recipientIds.map((userId) => ({
+      user_id: userId,
+      customer_id: target.customerId,
+      lead_id: target.leadId,
+      type: 'whatsapp_button_reply',
+      title: 'תגובה בוואטסאפ',
+      message,
+      metadata: { button_text: target.buttonText },
+      is_read: false,
+    }))
+  );
+
+  if (error) throw error;
+
+  return { notified: recipientIds.length };
+}
+
+/**
+ * Run the action bound to a pressed button and store the outcome on the incoming message
+ * Never throws - a failed action must not make Green API retry the webhook
+ */
+export async function handleButtonReply(
+  supabaseAdmin: SupabaseClient,
+  context: ButtonReplyContext
+): Promise<ButtonActionResult> {
+  let result: ButtonActionResult;
+
+  try {
+    const original = await findOriginatingMessage(supabaseAdmin, context);
+
+    if (!original?.flow_key) {
+      result = { action: 'none', status: 'skipped', error: 'Originating template message not found' };
+    } else {
+      const button = matchPressedButton(
+        parseTemplateButtons(original.raw_payload?.buttons),
+        context.buttonId,
+        context.buttonText
+      );
+      const action = button?.action || 'none';
+
+      const target: ActionTarget = {
+        phone: context.phone,
+        customerId: context.customerId || original.customer_id,
+        leadId: context.leadId || original.lead_id,
+        coachId: original.sent_by,
+        buttonText: context.buttonText || button?.text || '',
+      };
+
+      try {
+        let details: Record<string, unknown> | undefined;
+        switch (action) {
+          case 'reply':
+            if (!button?.actionConfig?.replyMessage?.trim()) {
+              throw new Error('Reply action is missing a message');
+            }
+            details = { idMessage: await sendTextToClient(supabaseAdmin, target, button.actionConfig.replyMessage) };
+            break;
+          case 'url':
+            if (!button?.actionConfig?.url?.trim()) {
+              throw new Error('URL action is missing a link');
+            }
+            details = { idMessage: await sendTextToClient(supabaseAdmin, target, button.actionConfig.url) };
+            break;
+          case 'status':
+            details = await updateLeadStatus(supabaseAdmin, target, button?.actionConfig);
+            break;
+          case 'meeting':
+            details = await createMeeting(supabaseAdmin, target, button?.actionConfig);
+            break;
+          case 'flow':
+            details = await sendFollowUpFlow(supabaseAdmin, target, button?.actionConfig);
+            break;
+          case 'notify':
+            details = await notifyCoach(supabaseAdmin, target, button?.actionConfig);
+            break;
+          default:
+            break;
+        }
+
+        result = {
+          action,
+          status: action === 'none' ? 'skipped' : 'completed',
+          flowKey: original.flow_key,
+          details,
+        };
+      } catch (error) {
+        result = {
+          action,
+          status: 'failed',
+          flowKey: original.flow_key,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+  } catch (error) {
+    result = {
+      action: 'none',
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  if (context.incomingMessageId) {
+    await supabaseAdmin
+      .from('whatsapp_messages')
+      .update({
+        flow_key: result.flowKey || null,
+        button_action: result.action,
+        button_action_status: result.status,
+        button_action_result: { details: result.details || {}, error: result.error || null },
+      })
+      .eq('id', context.incomingMessageId);
+  }
+
+  return result;
+}
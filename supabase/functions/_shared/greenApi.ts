@@ -0,0 +1,155 @@
+/**
+ * Green API Helpers
+ * Server-side WhatsApp sending for automations running inside edge functions
+ * (webhooks have no user session, so they can't go through send-whatsapp-message)
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { timingSafeEqual } from './utils.ts';
+
+export interface GreenApiCredentials {
+  idInstance: string;
+  apiTokenInstance: string;
+}
+
+export interface GreenApiOutgoingMessage {
+  chatId: string;
+  message: string;
+  buttons?: Array<{ id: string; text: string }>;
+  media?: { type: 'image' | 'video' | 'gif'; url: string };
+}
+
+/**
+ * Resolve Green API credentials from secrets, falling back to the green_api_settings table
+ */
+export async function getGreenApiCredentials(
+  supabaseAdmin: SupabaseClient
+): Promise<GreenApiCredentials | null> {
+  const idInstance = Deno.env.get('GREEN_API_ID_INSTANCE') || Deno.env.get('VITE_GREEN_API_ID_INSTANCE');
+  const apiTokenInstance = Deno.env.get('GREEN_API_TOKEN_INSTANCE') || Deno.env.get('VITE_GREEN_API_TOKEN_INSTANCE');
+
+  if (idInstance && apiTokenInstance) {
+    return { idInstance, apiTokenInstance };
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('green_api_settings')
+    .select('id_instance, api_token_instance')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data?.id_instance || !data?.api_token_instance) {
+    return null;
+  }
+
+  // Ignore placeholder values left over from setup
+  if (data.id_instance === 'your_instance_id' || data.api_token_instance === 'your_token') {
+    return null;
+  }
+
+  return { idInstance: data.id_instance, apiTokenInstance: data.api_token_instance };
+}
+
+/**
+ * Send a text (or buttons) message via Green API
+ * Returns the Green API idMessage, or null if the message was not queued
+ */
+export async function sendGreenApiMessage(
+  credentials: GreenApiCredentials,
+  { chatId, message, buttons, media }: GreenApiOutgoingMessage
+): Promise<string | null> {
+  if (media?.url) {
+    return sendGreenApiFile(credentials, chatId, media, message);
+  }
+
+  const hasButtons = !!buttons && buttons.length > 0;
+  const endpoint = hasButtons ? 'SendButtons' : 'sendMessage';
+  const url = `https://api.green-api.com/waInstance${credentials.idInstance}/${endpoint}/${credentials.apiTokenInstance}`;
+
+  const requestBody = hasButtons
+    ? {
+        chatId,
+        message,
+        buttons: buttons.map((btn, index) => ({
+          buttonId: String(index + 1),
+          buttonText: btn.text,
+        })),
+      }
+    : { chatId, message };
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json() as { idMessage?: string };
+    return data?.idMessage || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Send an image/video by URL with the message as caption
+ * (the URL must be publicly reachable by Green API)
+ */
+async function sendGreenApiFile(
+  credentials: GreenApiCredentials,
+  chatId: string,
+  media: { type: 'image' | 'video' | 'gif'; url: string },
+  caption: string
+): Promise<string | null> {
+  const url = `https://api.green-api.com/waInstance${credentials.idInstance}/sendFileByUrl/${credentials.apiTokenInstance}`;
+  const extension = media.type === 'video' ? 'mp4' : media.type === 'gif' ? 'gif' : 'jpg';
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        chatId,
+        urlFile: media.url,
+        fileName: `${media.type}.${extension}`,
+        caption,
+      }),
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json() as { idMessage?: string };
+    return data?.idMessage || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Verify that a webhook request comes from Green API.
+ * Green API sends the instance's webhookUrlToken in the Authorization header
+ * ("Bearer <token>"); it must match the GREEN_API_WEBHOOK_TOKEN secret.
+ * Returns null when the secret is not configured.
+ */
+export function verifyGreenApiWebhook(req: Request): boolean | null {
+  const expectedToken = Deno.env.get('GREEN_API_WEBHOOK_TOKEN');
+  if (!expectedToken) {
+    return null;
+  }
+
+  const authorization = req.headers.get('Authorization') || '';
+  const token = authorization.replace(/^(Bearer|Basic)\s+/i, '').trim();
+
+  return token.length > 0 && timingSafeEqual(token, expectedToken);
+}
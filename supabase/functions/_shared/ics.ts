@@ -0,0 +1,160 @@
+/**
+ * iCalendar (RFC 5545) Builder
+ *
+ * Builds .ics calendars for meetings. Shared by the frontend "export to .ics" actions
+ * (re-exported from src/utils/ics.ts) and the meetings-ics-feed edge function.
+ * Must stay dependency-free so it runs in both Vite and Deno.
+ */
+
+export interface IcsEvent {
+  uid: string;
+  start: Date | null; // null + allDayDate for date-only events
+  end?: Date | null;
+  allDayDate?: string | null; // yyyy-MM-dd
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  lastModified?: Date | null;
+}
+
+export interface IcsMeeting {
+  id: string;
+  start_time: string | null;
+  end_time: string | null;
+  meeting_date: string | null;
+  meeting_type: string | null;
+  status: string | null;
+  location: string | null;
+  video_link: string | null;
+  updated_at?: string | null;
+  customer_name?: string | null;
+  notes?: string | null;
+}
+
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+const CANCELLED_STATUSES = ['בוטל', 'מבוטל'];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const formatUtc = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const formatDateValue = (date: string) => date.replace(/-/g, '');
+
+const nextDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return `${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`;
+};
+
+export const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded (continuation lines start with a space)
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const buildEventLines = (event: IcsEvent, stamp: Date): string[] => {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${formatUtc(stamp)}`];
+
+  if (event.start) {
+    const end = event.end && event.end > event.start ? event.end : new Date(event.start.getTime() + DEFAULT_DURATION_MS);
+    lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(end)}`);
+  } else if (event.allDayDate) {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDateValue(event.allDayDate)}`,
+      `DTEND;VALUE=DATE:${nextDate(event.allDayDate)}`
+    );
+  }
+
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtc(event.lastModified)}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+};
+
+export const buildIcsCalendar = (events: IcsEvent[], calendarName: string): string => {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Diet Neta//Meetings//HE',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    'X-WR-TIMEZONE:Asia/Jerusalem',
+    ...events
+      .filter((event) => event.start || event.allDayDate)
+      .flatMap((event) => buildEventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Meeting -> event. Title is "<meeting type> - <customer name>", with a link back to
+ * the meeting page (/dashboard/meetings/:id) when appUrl is known.
+ */
+export const buildMeetingIcsEvent = (meeting: IcsMeeting, appUrl?: string | null): IcsEvent => {
+  const meetingType = meeting.meeting_type || 'פגישה';
+  const summary = meeting.customer_name ? `${meetingType} - ${meeting.customer_name}` : meetingType;
+  const meetingUrl = appUrl ? `${appUrl.replace(/\/$/, '')}/dashboard/meetings/${meeting.id}` : null;
+
+  const description = [
+    meeting.video_link ? `קישור לשיחה: ${meeting.video_link}` : null,
+    meeting.notes || null,
+    meetingUrl ? `פרטי הפגישה: ${meetingUrl}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const start = meeting.start_time ? new Date(meeting.start_time) : null;
+  const end = meeting.end_time ? new Date(meeting.end_time) : null;
+
+  return {
+    uid: `meeting-${meeting.id}@diet-neta`,
+    start: start && !isNaN(start.getTime()) ? start : null,
+    end: end && !isNaN(end.getTime()) ? end : null,
+    allDayDate: meeting.meeting_date,
+    summary,
+    description: description || null,
+    location: meeting.location || meeting.video_link || null,
+    url: meetingUrl,
+    status: CANCELLED_STATUSES.includes(meeting.status || '') ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: meeting.updated_at ? new Date(meeting.updated_at) : null,
+  };
+};
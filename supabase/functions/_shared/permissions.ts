@@ -0,0 +1,41 @@
+/**
+ * Staff Permission Helpers
+ * Capability checks for edge functions, backed by staff_role_permissions
+ * (the same check RLS uses, see user_has_permission in the staff roles migration)
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export type StaffPermission =
+  | 'leads'
+  | 'meetings'
+  | 'health_data'
+  | 'plans'
+  | 'payments'
+  | 'messaging'
+  | 'knowledge_base'
+  | 'analytics'
+  | 'settings'
+  | 'users';
+
+/**
+ * Whether an active staff member has a capability (admins have every capability)
+ * Trainees and unknown users never do
+ */
+export async function hasPermission(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  permission: StaffPermission
+): Promise<boolean> {
+  const { data, error } = await supabaseAdmin.rpc('user_has_permission', {
+    p_user_id: userId,
+    p_permission: permission,
+  });
+
+  if (error) {
+    console.error('[permissions] Permission check failed:', error.message);
+    return false;
+  }
+
+  return data === true;
+}
@@ -0,0 +1,134 @@
+/**
+ * Stripe Helpers
+ * Shared Stripe REST calls for edge functions (stripe-api, process-payment-dunning)
+ */
+
+import { timingSafeEqual } from './utils.ts';
+
+export interface StripeObject {
+  id: string;
+  product?: string;
+  url?: string;
+}
+
+export interface PaymentLinkOptions {
+  priceId?: string;
+  amount?: number; // In the smallest currency unit (agorot / cents)
+  currency?: string;
+  productName?: string;
+  description?: string;
+  metadata?: Record<string, unknown>;
+  singleUse?: boolean;
+}
+
+/**
+ * Stripe secret key from the server-side environment (NO VITE_ prefix), or null when missing / invalid
+ */
+export const getStripeSecretKey = (): string | null => {
+  const secretKey = Deno.env.get('STRIPE_SECRET_KEY');
+  if (!secretKey || (!secretKey.startsWith('sk_test_') && !secretKey.startsWith('sk_live_'))) {
+    return null;
+  }
+  return secretKey;
+};
+
+/**
+ * Call the Stripe REST API (form-encoded), throwing Stripe's error message on failure
+ */
+export const stripeRequest = async (
+  secretKey: string,
+  path: string,
+  method: 'GET' | 'POST' | 'DELETE' = 'GET',
+  formData?: URLSearchParams
+): Promise<StripeObject> => {
+  const response = await fetch(`https://api.stripe.com/v1/${path}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${secretKey}`,
+      ...(formData ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {}),
+    },
+    body: formData?.toString(),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error?.message || `Stripe request failed: ${response.status}`);
+  }
+  return data;
+};
+
+/**
+ * Create a payment link for a price or an ad-hoc amount.
+ * The metadata is copied to the payment intent as well, so receive-stripe-webhook can link
+ * the payment to the customer / lead / collection.
+ */
+export const createPaymentLink = async (secretKey: string, options: PaymentLinkOptions) => {
+  const formData = new URLSearchParams();
+
+  if (options.priceId) {
+    formData.append('line_items[0][price]', options.priceId);
+  } else {
+    formData.append('line_items[0][price_data][currency]', (options.currency || 'ILS').toLowerCase());
+    formData.append('line_items[0][price_data][unit_amount]', String(options.amount));
+    formData.append('line_items[0][price_data][product_data][name]', options.productName || 'Payment');
+    if (options.description) {
+      formData.append('line_items[0][price_data][product_data][description]', options.description);
+    }
+  }
+  formData.append('line_items[0][quantity]', '1');
+
+  Object.entries(options.metadata || {}).forEach(([key, value]) => {
+    if (value === null || value === undefined) return;
+    formData.append(`metadata[${key}]`, String(value));
+    formData.append(`payment_intent_data[metadata][${key}]`, String(value));
+  });
+
+  if (options.singleUse) {
+    formData.append('restrictions[completed_sessions][limit]', '1');
+  }
+
+  const link = await stripeRequest(secretKey, 'payment_links', 'POST', formData);
+  return { paymentUrl: link.url as string, paymentLinkId: link.id };
+};
+
+/**
+ * Deactivate a payment link so it can no longer be paid
+ */
+export const deactivatePaymentLink = async (secretKey: string, paymentLinkId: string) => {
+  await stripeRequest(secretKey, `payment_links/${paymentLinkId}`, 'POST', new URLSearchParams({ active: 'false' }));
+};
+
+/**
+ * Verify the Stripe-Signature header of a webhook (HMAC-SHA256 of "<timestamp>.<raw body>"
+ * with the endpoint's signing secret). Events older than the tolerance are rejected (replays).
+ */
+export const verifyStripeSignature = async (
+  rawBody: string,
+  signatureHeader: string | null,
+  webhookSecret: string,
+  toleranceSeconds = 300
+): Promise<boolean> => {
+  if (!signatureHeader) return false;
+
+  const parts = signatureHeader.split(',').map((part) => part.trim().split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) return false;
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > toleranceSeconds) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(webhookSecret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${rawBody}`));
+  const expected = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+  return signatures.some((signature) => timingSafeEqual(signature, expected));
+};
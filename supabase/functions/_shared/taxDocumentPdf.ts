@@ -0,0 +1,264 @@
+/**
+ * Tax Document PDF
+ * Renders a tax document (חשבונית מס קבלה / קבלה / חשבונית זיכוי) as an A4 PDF.
+ * Used by render-tax-document right after a document is issued (see TAX_DOCUMENTS.md).
+ */
+
+import { PDFDocument, rgb, type PDFFont, type PDFPage } from 'https://esm.sh/pdf-lib@1.17.1';
+import fontkit from 'https://esm.sh/@pdf-lib/fontkit@1.1.1';
+
+// Alef covers Hebrew and Latin (digits, emails); override with a TTF/OTF of another font if needed
+const DEFAULT_FONT_URL = 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/alef/Alef-Regular.ttf';
+const DEFAULT_BOLD_FONT_URL = 'https://cdn.jsdelivr.net/gh/google/fonts@main/ofl/alef/Alef-Bold.ttf';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 45;
+const TEXT_COLOR = rgb(0.2, 0.2, 0.2);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const LIGHT_COLOR = rgb(0.6, 0.6, 0.6);
+const HEADER_FILL = rgb(0.96, 0.96, 0.96);
+const LINE_COLOR = rgb(0.94, 0.94, 0.94);
+
+const CURRENCY_SYMBOLS: Record<string, string> = { ILS: '₪', USD: '$', EUR: '€' };
+
+export interface TaxDocumentPdfInput {
+  document_type: string;
+  document_number: number;
+  customer_name: string | null;
+  customer_phone: string | null;
+  customer_email: string | null;
+  business: {
+    name: string;
+    type: string;
+    number: string;
+    address: string | null;
+    phone: string | null;
+    email: string | null;
+  };
+  description: string;
+  payment_method: string | null;
+  currency: string;
+  total_amount: number;
+  amount_before_vat: number;
+  vat_rate: number;
+  vat_amount: number;
+  issued_at: string;
+  // Joined for credit notes
+  original_document?: { document_type: string; document_number: number } | null;
+}
+
+// From the first to the last Latin letter / digit / amount character, with no Hebrew in between
+const LTR_RUN = /[A-Za-z0-9₪$€](?:[^\u0590-\u05FF]*[A-Za-z0-9₪$€%)\]])?/g;
+const MIRRORED: Record<string, string> = { '(': ')', ')': '(', '[': ']', ']': '[', '<': '>', '>': '<' };
+
+/**
+ * Visual (left-to-right) order of a right-to-left line: Hebrew runs are reversed, Latin words,
+ * numbers and amounts keep their order. pdf-lib draws glyphs in the given order without bidi.
+ */
+export const toVisualOrder = (text: string): string => {
+  const runs: Array<{ text: string; isLtr: boolean }> = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(LTR_RUN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      runs.push({ text: text.slice(lastIndex, index), isLtr: false });
+    }
+    runs.push({ text: match[0], isLtr: true });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    runs.push({ text: text.slice(lastIndex), isLtr: false });
+  }
+
+  return runs
+    .reverse()
+    .map((run) =>
+      run.isLtr
+        ? run.text
+        : Array.from(run.text).reverse().map((char) => MIRRORED[char] || char).join('')
+    )
+    .join('');
+};
+
+const formatAmount = (amount: number, currency: string) => {
+  const value = Number(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const symbol = CURRENCY_SYMBOLS[currency];
+  return symbol ? `${symbol}${value}` : `${value} ${currency}`;
+};
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat('en-GB', { timeZone: 'Asia/Jerusalem' }).format(new Date(value));
+
+const loadFont = async (url: string): Promise<ArrayBuffer> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load font ${url}: ${response.status}`);
+  }
+  return await response.arrayBuffer();
+};
+
+interface TextOptions {
+  size: number;
+  font: PDFFont;
+  color?: ReturnType<typeof rgb>;
+}
+
+// Right edge of the text at x (Hebrew is right aligned)
+const drawRight = (page: PDFPage, text: string, x: number, y: number, options: TextOptions) => {
+  const visual = toVisualOrder(text);
+  const width = options.font.widthOfTextAtSize(visual, options.size);
+  page.drawText(visual, { x: x - width, y, size: options.size, font: options.font, color: options.color || TEXT_COLOR });
+};
+
+// Left edge of the text at x
+const drawLeft = (page: PDFPage, text: string, x: number, y: number, options: TextOptions) => {
+  page.drawText(toVisualOrder(text), { x, y, size: options.size, font: options.font, color: options.color || TEXT_COLOR });
+};
+
+/**
+ * Two-row table: a shaded header and one line, columns from right to left.
+ * Returns the y below the table.
+ */
+const drawTable = (
+  page: PDFPage,
+  y: number,
+  columns: Array<{ header: string; value: string; width: number }>,
+  fonts: { regular: PDFFont; bold: PDFFont }
+) => {
+  const rowHeight = 28;
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+
+  page.drawRectangle({ x: MARGIN, y: y - rowHeight, width: contentWidth, height: rowHeight, color: HEADER_FILL });
+  page.drawLine({
+    start: { x: MARGIN, y: y - rowHeight * 2 },
+    end: { x: PAGE_WIDTH - MARGIN, y: y - rowHeight * 2 },
+    thickness: 1,
+    color: LINE_COLOR,
+  });
+
+  let right = PAGE_WIDTH - MARGIN;
+  columns.forEach((column) => {
+    drawRight(page, column.header, right - 12, y - 18, { size: 11, font: fonts.bold });
+    drawRight(page, column.value, right - 12, y - rowHeight - 18, { size: 12, font: fonts.regular });
+    right -= column.width;
+  });
+
+  return y - rowHeight * 2 - 24;
+};
+
+export const renderTaxDocumentPdf = async (document: TaxDocumentPdfInput): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create();
+  pdf.registerFontkit(fontkit);
+
+  const [regularBytes, boldBytes] = await Promise.all([
+    loadFont(Deno.env.get('TAX_DOCUMENT_FONT_URL') || DEFAULT_FONT_URL),
+    loadFont(Deno.env.get('TAX_DOCUMENT_FONT_BOLD_URL') || DEFAULT_BOLD_FONT_URL),
+  ]);
+  const fonts = {
+    regular: await pdf.embedFont(regularBytes, { subset: true }),
+    bold: await pdf.embedFont(boldBytes, { subset: true }),
+  };
+
+  const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  const right = PAGE_WIDTH - MARGIN;
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const { business, currency } = document;
+  const isCreditNote = document.document_type === 'חשבונית זיכוי';
+  const hasVat = Number(document.vat_rate) > 0;
+  const issuedAt = formatDate(document.issued_at);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  // Issuer
+  drawRight(page, business.name, right, y - 22, { size: 22, font: fonts.bold });
+  const businessDetails = [`${business.type} ${business.number}`, business.address, business.phone, business.email]
+    .filter(Boolean)
+    .join(' | ');
+  drawRight(page, businessDetails, right, y - 42, { size: 11, font: fonts.regular, color: MUTED_COLOR });
+  y -= 56;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: right, y }, thickness: 2, color: TEXT_COLOR });
+
+  // Title
+  y -= 34;
+  drawRight(page, `${document.document_type} ${document.document_number}`, right, y, { size: 24, font: fonts.bold });
+  drawLeft(page, `תאריך: ${issuedAt}`, MARGIN, y, { size: 12, font: fonts.regular });
+  y -= 18;
+  drawRight(page, 'מקור', right, y, { size: 11, font: fonts.regular, color: MUTED_COLOR });
+
+  // Recipient
+  const recipientLines = [
+    `לכבוד: ${document.customer_name || 'לקוח'}`,
+    document.customer_phone ? `טלפון: ${document.customer_phone}` : null,
+    document.customer_email ? `אימייל: ${document.customer_email}` : null,
+    isCreditNote && document.original_document
+      ? `זיכוי עבור: ${document.original_document.document_type} ${document.original_document.document_number}`
+      : null,
+  ].filter((line): line is string => !!line);
+
+  y -= 24;
+  const recipientHeight = recipientLines.length * 20 + 16;
+  page.drawRectangle({ x: MARGIN, y: y - recipientHeight, width: contentWidth, height: recipientHeight, color: rgb(0.98, 0.98, 0.98) });
+  recipientLines.forEach((line, index) => {
+    drawRight(page, line, right - 16, y - 24 - index * 20, { size: 12, font: index === 0 ? fonts.bold : fonts.regular });
+  });
+  y -= recipientHeight + 24;
+
+  // Lines
+  y = drawTable(
+    page,
+    y,
+    [
+      { header: 'תיאור', value: `${isCreditNote ? 'זיכוי - ' : ''}${document.description}`, width: contentWidth - 200 },
+      { header: 'כמות', value: '1', width: 70 },
+      { header: 'סכום', value: formatAmount(document.amount_before_vat, currency), width: 130 },
+    ],
+    fonts
+  );
+
+  // Totals (left column)
+  const totalsLeft = MARGIN;
+  const totalsRight = MARGIN + 250;
+  const totalRows: Array<[string, string]> = hasVat
+    ? [
+        ['סכום לפני מע"מ', formatAmount(document.amount_before_vat, currency)],
+        [`מע"מ ${Number(document.vat_rate)}%`, formatAmount(document.vat_amount, currency)],
+      ]
+    : [];
+  totalRows.forEach(([label, value]) => {
+    drawRight(page, label, totalsRight, y, { size: 12, font: fonts.regular });
+    drawLeft(page, value, totalsLeft, y, { size: 12, font: fonts.regular });
+    y -= 22;
+  });
+  page.drawLine({ start: { x: totalsLeft, y: y + 12 }, end: { x: totalsRight, y: y + 12 }, thickness: 2, color: TEXT_COLOR });
+  y -= 6;
+  drawRight(page, isCreditNote ? 'סה"כ זיכוי' : 'סה"כ לתשלום', totalsRight, y, { size: 15, font: fonts.bold });
+  drawLeft(page, formatAmount(document.total_amount, currency), totalsLeft, y, { size: 15, font: fonts.bold });
+  y -= 36;
+
+  // Payment
+  y = drawTable(
+    page,
+    y,
+    [
+      { header: isCreditNote ? 'אמצעי החזר' : 'אמצעי תשלום', value: document.payment_method || 'אחר', width: contentWidth - 260 },
+      { header: 'תאריך', value: issuedAt, width: 130 },
+      { header: 'סכום', value: formatAmount(document.total_amount, currency), width: 130 },
+    ],
+    fonts
+  );
+
+  // Footer
+  const footer = `${business.type === 'עוסק פטור' ? 'עוסק פטור - לא נגבה מע"מ. ' : ''}מסמך ממוחשב`;
+  const footerVisual = toVisualOrder(footer);
+  const footerWidth = fonts.regular.widthOfTextAtSize(footerVisual, 10);
+  page.drawText(footerVisual, {
+    x: (PAGE_WIDTH - footerWidth) / 2,
+    y: y - 24,
+    size: 10,
+    font: fonts.regular,
+    color: LIGHT_COLOR,
+  });
+
+  return await pdf.save();
+};
@@ -0,0 +1,343 @@
+/**
+ * WhatsApp Template Renderer
+ *
+ * Single implementation of the placeholder catalog, placeholder values and template
+ * rendering, shared by the frontend (re-exported from src/utils/templateRenderer.ts)
+ * and the edge functions. Must stay dependency-free so it runs in both Vite and Deno.
+ *
+ * Syntax:
+ *   {{name}}                          plain value
+ *   {{first_name|חברה}}               fallback when the value is empty
+ *   {{weight:number}}                 formatting (see TEMPLATE_FORMATS)
+ *   {{created_at:date|לא ידוע}}       formatting + fallback
+ *   {{#if budget_link}}...{{/if}}     block shown only when the value is not empty
+ *   {{#if x}}...{{else}}...{{/if}}    with an alternative
+ *   {{#unless x}}...{{/unless}}       block shown only when the value is empty
+ *   {{g:מוכן|מוכנה}}                  Hebrew gender-aware phrase (male|female[|unknown])
+ *
+ * Placeholders without a value and without a fallback are left untouched.
+ */
+
+export type PlaceholderValue = string | number | null | undefined;
+export type PlaceholderValues = Record<string, PlaceholderValue>;
+
+export interface Placeholder {
+  key: string;
+  label: string;
+  description: string;
+  category: 'customer' | 'lead' | 'fitness' | 'plans' | 'weekly_review' | 'meeting';
+}
+
+export const AVAILABLE_PLACEHOLDERS: Placeholder[] = [
+  // Customer information
+  { key: 'name', label: 'שם מלא', description: 'שם הלקוח', category: 'customer' },
+  { key: 'first_name', label: 'שם פרטי', description: 'השם הפרטי של הלקוח', category: 'customer' },
+  { key: 'phone', label: 'טלפון', description: 'מספר טלפון', category: 'customer' },
+  { key: 'email', label: 'אימייל', description: 'כתובת אימייל', category: 'customer' },
+  { key: 'password', label: 'סיסמה', description: 'סיסמת המשתמש', category: 'customer' },
+  { key: 'login_url', label: 'קישור התחברות', description: 'קישור לדף ההתחברות', category: 'customer' },
+  { key: 'city', label: 'עיר', description: 'עיר מגורים', category: 'customer' },
+  { key: 'gender', label: 'מגדר', description: 'מגדר הלקוח', category: 'customer' },
+
+  // Lead/Inquiry information
+  { key: 'status', label: 'סטטוס', description: 'סטטוס ההתעניינות', category: 'lead' },
+  { key: 'created_date', label: 'תאריך יצירה', description: 'תאריך יצירת ההתעניינות', category: 'lead' },
+  { key: 'lead_id', label: 'מזהה ליד', description: 'מזהה ייחודי של הליד ב-Supabase (לשימוש בפרמטר URL)', category: 'lead' },
+
+  // Fitness information
+  { key: 'fitness_goal', label: 'מטרת כושר', description: 'מטרת הכושר של הלקוח', category: 'fitness' },
+  { key: 'activity_level', label: 'רמת פעילות', description: 'רמת הפעילות הגופנית', category: 'fitness' },
+  { key: 'preferred_time', label: 'זמן מועדף', description: 'זמן אימון מועדף', category: 'fitness' },
+  { key: 'height', label: 'גובה', description: 'גובה בס"מ', category: 'fitness' },
+  { key: 'weight', label: 'משקל', description: 'משקל בק"ג', category: 'fitness' },
+  { key: 'bmi', label: 'BMI', description: 'מדד מסת הגוף', category: 'fitness' },
+  { key: 'age', label: 'גיל', description: 'גיל הלקוח', category: 'fitness' },
+
+  // Plans (if available)
+  { key: 'workout_plan_name', label: 'שם תוכנית אימונים', description: 'שם תוכנית האימונים הפעילה', category: 'plans' },
+  { key: 'nutrition_plan_name', label: 'שם תוכנית תזונה', description: 'שם תוכנית התזונה הפעילה', category: 'plans' },
+  { key: 'budget_link', label: 'קישור תכנית פעולה', description: 'קישור לתכנית פעולה (Taktziv)', category: 'plans' },
+  { key: 'budget_name', label: 'שם תכנית פעולה', description: 'שם תכנית הפעולה', category: 'plans' },
+
+  // Payment
+  { key: 'payment_link', label: 'קישור תשלום', description: 'קישור לתשלום Stripe', category: 'customer' },
+  { key: 'payment_amount', label: 'סכום לתשלום', description: 'הסכום שלא שולם (תזכורות תשלום)', category: 'customer' },
+
+  // Weekly Review placeholders (for weekly_review template)
+  { key: 'week_label', label: 'תווית שבוע', description: 'טווח התאריכים של השבוע (למשל: שבוע 01/01 - 07/01)', category: 'weekly_review' },
+  { key: 'week_start', label: 'תחילת שבוע', description: 'תאריך תחילת השבוע', category: 'weekly_review' },
+  { key: 'week_end', label: 'סוף שבוע', description: 'תאריך סוף השבוע', category: 'weekly_review' },
+  { key: 'full_name', label: 'שם מלא', description: 'השם המלא של הלקוח', category: 'weekly_review' },
+  { key: 'target_calories', label: 'יעד קלוריות', description: 'יעד קלוריות יומי', category: 'weekly_review' },
+  { key: 'target_protein', label: 'יעד חלבון', description: 'יעד חלבון יומי בגרמים', category: 'weekly_review' },
+  { key: 'target_fiber', label: 'יעד סיבים', description: 'יעד סיבים יומי בגרמים', category: 'weekly_review' },
+  { key: 'target_steps', label: 'יעד צעדים', description: 'יעד צעדים יומי', category: 'weekly_review' },
+  { key: 'actual_calories', label: 'קלוריות בפועל', description: 'ממוצע קלוריות בפועל', category: 'weekly_review' },
+  { key: 'actual_protein', label: 'חלבון בפועל', description: 'ממוצע חלבון בפועל בגרמים', category: 'weekly_review' },
+  { key: 'actual_fiber', label: 'סיבים בפועל', description: 'ממוצע סיבים בפועל בגרמים', category: 'weekly_review' },
+  { key: 'actual_weight', label: 'משקל ממוצע', description: 'משקל ממוצע לשבוע בק"ג', category: 'weekly_review' },
+  { key: 'actual_steps', label: 'צעדים בפועל', description: 'ממוצע צעדים יומי בפועל', category: 'weekly_review' },
+  { key: 'check_ins_count', label: 'מספר דיווחים', description: 'מספר הדיווחים היומיים בשבוע', category: 'weekly_review' },
+  { key: 'weight_change', label: 'שינוי משקל', description: 'שינוי המשקל הממוצע משבוע שעבר בק"ג (למשל: -0.4)', category: 'weekly_review' },
+  { key: 'waist_change', label: 'שינוי היקף מותן', description: 'שינוי היקף המותן משבוע שעבר בס"מ', category: 'weekly_review' },
+  { key: 'calories_change', label: 'שינוי קלוריות', description: 'שינוי ממוצע הקלוריות משבוע שעבר', category: 'weekly_review' },
+  { key: 'trainer_summary', label: 'סיכום מאמן', description: 'סיכום ומסקנות המאמן', category: 'weekly_review' },
+  { key: 'action_plan', label: 'תוכנית פעולה', description: 'דגשים ומטרות לשבוע הבא', category: 'weekly_review' },
+
+  // Meeting placeholders (for meeting reminder templates)
+  { key: 'meeting_date', label: 'תאריך פגישה', description: 'תאריך הפגישה (למשל: 05/03/2026)', category: 'meeting' },
+  { key: 'meeting_time', label: 'שעת פגישה', description: 'שעת תחילת הפגישה (למשל: 09:30)', category: 'meeting' },
+  { key: 'meeting_start', label: 'מועד פגישה', description: 'מועד הפגישה, לשימוש עם פורמט (למשל: {{meeting_start:weekday}})', category: 'meeting' },
+  { key: 'meeting_type', label: 'סוג פגישה', description: 'סוג הפגישה', category: 'meeting' },
+  { key: 'meeting_location', label: 'מיקום פגישה', description: 'מיקום הפגישה', category: 'meeting' },
+  { key: 'meeting_link', label: 'קישור לשיחת וידאו', description: 'קישור לשיחת הווידאו של הפגישה', category: 'meeting' },
+  { key: 'coach_name', label: 'שם המאמן', description: 'המאמן האחראי על הפגישה', category: 'meeting' },
+];
+
+// Formats usable as {{key:format}}
+export const TEMPLATE_FORMATS: Array<{ key: string; label: string; example: string }> = [
+  { key: 'number', label: 'מספר', example: '1,250.5' },
+  { key: 'int', label: 'מספר שלם', example: '1,251' },
+  { key: 'currency', label: 'מטבע', example: '1,250 ₪' },
+  { key: 'date', label: 'תאריך', example: '05/03/2026' },
+  { key: 'date_long', label: 'תאריך מלא', example: '5 במרץ 2026' },
+  { key: 'weekday', label: 'יום בשבוע', example: 'יום חמישי' },
+  { key: 'time', label: 'שעה', example: '09:30' },
+];
+
+export interface PlaceholderCustomer {
+  full_name?: string | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+export interface PlaceholderLead {
+  id?: string | null;
+  city?: string | null;
+  gender?: string | null;
+  status_main?: string | null;
+  status_sub?: string | null;
+  created_at?: string | null;
+  fitness_goal?: string | null;
+  activity_level?: string | null;
+  preferred_time?: string | null;
+  height?: number | null;
+  weight?: number | null;
+  birth_date?: string | null;
+}
+
+const GENDER_LABELS: Record<string, string> = {
+  male: 'זכר',
+  female: 'נקבה',
+  other: 'אחר',
+};
+
+const calculateAge = (birthDate: string | null | undefined): number | null => {
+  if (!birthDate) return null;
+  const birth = new Date(birthDate);
+  if (isNaN(birth.getTime())) return null;
+  const today = new Date();
+  let age = today.getFullYear() - birth.getFullYear();
+  const monthDiff = today.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
+    age--;
+  }
+  return age;
+};
+
+const calculateBMI = (height: number | null | undefined, weight: number | null | undefined): number | null => {
+  if (!height || !weight) return null;
+  const heightInMeters = height / 100;
+  return Math.round((weight / (heightInMeters * heightInMeters)) * 10) / 10;
+};
+
+/**
+ * Build placeholder values from customer and lead data
+ * extras are added on top (plan names, links, passwords...)
+ */
+export function buildLeadPlaceholders(
+  customer: PlaceholderCustomer | null,
+  lead: PlaceholderLead | null,
+  extras: PlaceholderValues = {}
+): Record<string, string | number> {
+  const fullName = customer?.full_name?.trim() || '';
+  const createdDate = lead?.created_at ? new Date(lead.created_at) : null;
+
+  const values: Record<string, string | number> = {
+    name: fullName,
+    full_name: fullName,
+    first_name: fullName.split(/\s+/)[0] || '',
+    phone: customer?.phone || '',
+    email: customer?.email || '',
+    city: lead?.city || '',
+    gender: lead?.gender ? GENDER_LABELS[lead.gender] || lead.gender : '',
+    status: lead?.status_sub || lead?.status_main || '',
+    created_date: createdDate && !isNaN(createdDate.getTime()) ? createdDate.toLocaleDateString('he-IL') : '',
+    lead_id: lead?.id || '', // Supabase row ID for URL parameters
+    fitness_goal: lead?.fitness_goal || '',
+    activity_level: lead?.activity_level || '',
+    preferred_time: lead?.preferred_time || '',
+    height: lead?.height || '',
+    weight: lead?.weight || '',
+    bmi: calculateBMI(lead?.height, lead?.weight) || '',
+    age: calculateAge(lead?.birth_date) || '',
+    workout_plan_name: '',
+    nutrition_plan_name: '',
+  };
+
+  Object.entries(extras).forEach(([key, value]) => {
+    values[key] = value ?? '';
+  });
+
+  return values;
+}
+
+export interface PlaceholderMeeting {
+  start_time?: string | null;
+  meeting_type?: string | null;
+  location?: string | null;
+  video_link?: string | null;
+  owner_name?: string | null;
+}
+
+/**
+ * Meeting placeholder values (passed as extras to buildLeadPlaceholders)
+ */
+export function buildMeetingPlaceholders(meeting: PlaceholderMeeting): PlaceholderValues {
+  return {
+    meeting_date: meeting.start_time ? formatPlaceholderValue(meeting.start_time, 'date') : '',
+    meeting_time: meeting.start_time ? formatPlaceholderValue(meeting.start_time, 'time') : '',
+    meeting_start: meeting.start_time || '',
+    meeting_type: meeting.meeting_type || '',
+    meeting_location: meeting.location || '',
+    meeting_link: meeting.video_link || '',
+    coach_name: meeting.owner_name || '',
+  };
+}
+
+const isEmptyValue = (value: PlaceholderValue): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+const parseDate = (value: string | number): Date | null => {
+  if (typeof value === 'number') return new Date(value);
+  // dd/mm/yyyy (already formatted dates)
+  const match = value.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  const date = match
+    ? new Date(Number(match[3]), Number(match[2]) - 1, Number(match[1]))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Format a value - unknown formats and unparsable values are returned as-is
+ */
+export function formatPlaceholderValue(value: string | number, format: string): string {
+  const raw = String(value);
+
+  switch (format) {
+    case 'number':
+    case 'int':
+    case 'currency': {
+      const num = typeof value === 'number' ? value : Number(raw.replace(/,/g, ''));
+      if (!Number.isFinite(num)) return raw;
+      if (format === 'currency') {
+        return new Intl.NumberFormat('he-IL', { style: 'currency', currency: 'ILS', minimumFractionDigits: 0, maximumFractionDigits: 2 }).format(num);
+      }
+      return new Intl.NumberFormat('he-IL', { maximumFractionDigits: format === 'int' ? 0 : 2 }).format(num);
+    }
+    case 'date':
+    case 'date_long':
+    case 'weekday':
+    case 'time': {
+      const date = parseDate(value);
+      if (!date) return raw;
+      const options: Record<string, Intl.DateTimeFormatOptions> = {
+        date: { day: '2-digit', month: '2-digit', year: 'numeric' },
+        date_long: { day: 'numeric', month: 'long', year: 'numeric' },
+        weekday: { weekday: 'long' },
+        time: { hour: '2-digit', minute: '2-digit', hour12: false },
+      };
+      return new Intl.DateTimeFormat('he-IL', { timeZone: 'Asia/Jerusalem', ...options[format] }).format(date);
+    }
+    default:
+      return raw;
+  }
+}
+
+const resolveGender = (value: PlaceholderValue): 'male' | 'female' | null => {
+  const gender = String(value ?? '').trim().toLowerCase();
+  if (gender === 'male' || gender === 'זכר') return 'male';
+  if (gender === 'female' || gender === 'נקבה') return 'female';
+  return null;
+};
+
+const BLOCK_TAG = '\\{\\{\\s*(?:#(?:if|unless)\\s+[\\w.]+|else|\\/(?:if|unless))\\s*\\}\\}';
+
+/**
+ * Render a template with placeholder values
+ */
+export function renderTemplate(template: string, values: PlaceholderValues): string {
+  if (!template) return template;
+
+  // Normalize keys passed as '{{key}}'
+  const lookup: PlaceholderValues = {};
+  Object.entries(values).forEach(([key, value]) => {
+    const name = key.startsWith('{{') && key.endsWith('}}') ? key.slice(2, -2).trim() : key;
+    lookup[name] = value;
+  });
+
+  let result = template;
+
+  // Block tags on their own line/paragraph shouldn't leave empty lines behind
+  result = result
+    .replace(new RegExp(`<p>\\s*(${BLOCK_TAG})\\s*(?:<br\\s*\\/?>)?\\s*<\\/p>`, 'gi'), '$1')
+    .replace(new RegExp(`^[ \\t]*(${BLOCK_TAG})[ \\t]*\\r?\\n`, 'gm'), '$1');
+
+  // Conditional blocks - innermost first so blocks can be nested
+  const blockRegex = /\{\{\s*#(if|unless)\s+([\w.]+)\s*\}\}((?:(?!\{\{\s*#(?:if|unless)\s)[\s\S])*?)\{\{\s*\/\1\s*\}\}/;
+  let match = result.match(blockRegex);
+  while (match) {
+    const [block, kind, key, body] = match;
+    const [whenTrue, whenFalse = ''] = body.split(/\{\{\s*else\s*\}\}/);
+    const hasValue = !isEmptyValue(lookup[key]);
+    const show = kind === 'if' ? hasValue : !hasValue;
+    const replacement = show ? whenTrue : kind === 'if' ? whenFalse : '';
+    result = result.replace(block, () => replacement);
+    match = result.match(blockRegex);
+  }
+
+  // Gender-aware phrases
+  const gender = resolveGender(lookup.gender);
+  result = result.replace(/\{\{\s*g:([^|}]*)\|([^|}]*)(?:\|([^}]*))?\s*\}\}/g, (_m, male: string, female: string, unknown?: string) => {
+    if (gender === 'male') return male.trim();
+    if (gender === 'female') return female.trim();
+    return unknown !== undefined ? unknown.trim() : `${male.trim()}/${female.trim()}`;
+  });
+
+  // Values: {{key}}, {{key|fallback}}, {{key:format}}, {{key:format|fallback}}
+  result = result.replace(/\{\{\s*([\w.]+)\s*(?::\s*(\w+)\s*)?(?:\|([^}]*))?\}\}/g, (placeholder, key: string, format?: string, fallback?: string) => {
+    const value = lookup[key];
+    if (isEmptyValue(value)) {
+      if (fallback !== undefined) return fallback.trim();
+      return key in lookup ? '' : placeholder;
+    }
+    return format ? formatPlaceholderValue(value as string | number, format) : String(value);
+  });
+
+  return result;
+}
+
+/**
+ * Placeholder keys used by a template (including keys in conditions and formats)
+ */
+export function extractTemplatePlaceholders(template: string): string[] {
+  const keys = new Set<string>();
+  const regex = /\{\{\s*(?:#(?:if|unless)\s+)?([\w.]+)\s*(?::\s*\w+\s*)?(?:\|[^}]*)?\}\}/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(template || '')) !== null) {
+    if (match[1] !== 'else' && match[1] !== 'g') {
+      keys.add(match[1]);
+    }
+  }
+  return Array.from(keys);
+}
@@ -7,6 +7,10 @@ export interface WhatsAppWebhookBody {
   typeWebhook?: string;
   timestamp?: number;
   idMessage?: string;
+  // outgoingMessageStatus webhooks
+  status?: string;
+  description?: string;
+  chatId?: string;
   senderData?: {
     sender?: string;
     senderName?: string;
@@ -23,6 +27,19 @@ export interface WhatsAppWebhookBody {
     buttonResponseMessageData?: {
       selectedButtonId?: string;
       selectedButtonText?: string;
+      stanzaId?: string;
+    };
+    templateButtonReplyMessage?: {
+      selectedId?: string;
+      selectedIndex?: number;
+      selectedDisplayText?: string;
+      stanzaId?: string;
+    };
+    fileMessageData?: {
+      downloadUrl?: string;
+      caption?: string;
+      fileName?: string;
+      mimeType?: string;
     };
   };
   [key: string]: any;
@@ -37,5 +54,12 @@ export interface SendMessageRequest {
     type: 'image' | 'video' | 'gif';
     url: string;
   };
+  // Optional conversation linkage (otherwise matched by phone number)
+  customerId?: string | null;
+  leadId?: string | null;
+  // Flow template the message was rendered from (used to resolve button actions on reply)
+  flowKey?: string | null;
+  // 'payment' for payment links and tax documents, which the payments permission may send too
+  purpose?: 'payment' | null;
 }
 
@@ -89,3 +89,22 @@ export function stripHtmlForWhatsApp(html: string): string {
   return text.trim();
 }
 
+
+/**
+ * Compare two secrets in constant time (webhook tokens and signatures)
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+
+  if (aBytes.length !== bBytes.length) {
+    return false;
+  }
+
+  let diff = 0;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ bBytes[i];
+  }
+  return diff === 0;
+}
@@ -0,0 +1,246 @@
+/**
+ * WhatsApp Message Helpers
+ * Shared utilities for storing the WhatsApp conversation history in edge functions
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { formatPhoneNumber } from './utils.ts';
+import { attachButtonActions, loadFlowTemplate } from './automationFlows.ts';
+import type { WhatsAppWebhookBody } from './types.ts';
+
+export interface WhatsAppMessageRecord {
+  customer_id?: string | null;
+  lead_id?: string | null;
+  direction: 'incoming' | 'outgoing';
+  phone: string;
+  sender_name?: string | null;
+  message_type?: string;
+  body?: string | null;
+  button_id?: string | null;
+  button_text?: string | null;
+  media_url?: string | null;
+  green_api_message_id?: string | null;
+  webhook_type?: string | null;
+  raw_payload?: Record<string, unknown>;
+  sent_by?: string | null;
+  flow_key?: string | null;
+  delivery_status?: DeliveryStatus | null;
+  message_timestamp?: string;
+}
+
+export type DeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+// Green API outgoingMessageStatus values that mean the message will never arrive
+const FAILED_GREEN_API_STATUSES = ['failed', 'noAccount', 'notInGroup', 'yellowCard'];
+
+/**
+ * Get the phone number from a Green API chat id (e.g. 972501234567@c.us)
+ */
+export function phoneFromChatId(chatId: string): string {
+  return formatPhoneNumber(chatId.split('@')[0]);
+}
+
+/**
+ * Find the customer and most recent lead for a phone number
+ * Uses the same normalization as formatPhoneNumber (see normalize_whatsapp_phone in SQL)
+ */
+export async function findCustomerByPhone(
+  supabaseAdmin: SupabaseClient,
+  phone: string
+): Promise<{ customerId: string | null; leadId: string | null }> {
+  const { data, error } = await supabaseAdmin
+    .rpc('find_customer_by_whatsapp_phone', { p_phone: formatPhoneNumber(phone) })
+    .maybeSingle();
+
+  const match = data as { customer_id: string | null; lead_id: string | null } | null;
+  if (error || !match) {
+    return { customerId: null, leadId: null };
+  }
+
+  return { customerId: match.customer_id || null, leadId: match.lead_id || null };
+}
+
+/**
+ * Extract the readable text of an incoming Green API message
+ */
+export function extractIncomingText(body: WhatsAppWebhookBody): string | null {
+  const messageData = body.messageData;
+  if (!messageData) return null;
+
+  return (
+    messageData.textMessageData?.textMessage ||
+    messageData.extendedTextMessageData?.text ||
+    messageData.buttonResponseMessageData?.selectedButtonText ||
+    messageData.templateButtonReplyMessage?.selectedDisplayText ||
+    messageData.fileMessageData?.caption ||
+    null
+  );
+}
+
+/**
+ * Insert a message into the conversation table
+ * Outgoing flow messages keep their buttons' actions, so replies run what was sent (see buttonActions.ts)
+ * Never throws - message logging must not break sending or webhook handling
+ */
+export async function recordWhatsAppMessage(
+  supabaseAdmin: SupabaseClient,
+  record: WhatsAppMessageRecord
+): Promise<{ id: string; customer_id: string | null; lead_id: string | null } | null> {
+  try {
+    let customerId = record.customer_id ?? null;
+    let leadId = record.lead_id ?? null;
+
+    if (!customerId) {
+      const match = await findCustomerByPhone(supabaseAdmin, record.phone);
+      customerId = match.customerId;
+      leadId = leadId ?? match.leadId;
+    }
+
+    let rawPayload = record.raw_payload || {};
+    const sentButtons = rawPayload.buttons as Array<{ id: string; text: string }> | undefined;
+    if (record.direction === 'outgoing' && record.flow_key && Array.isArray(sentButtons) && sentButtons.length > 0) {
+      const template = await loadFlowTemplate(supabaseAdmin, record.flow_key, record.sent_by ?? null);
+      if (template) {
+        rawPayload = { ...rawPayload, buttons: attachButtonActions(template, sentButtons) };
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('whatsapp_messages')
+      .insert({
+        ...record,
+        phone: formatPhoneNumber(record.phone),
+        customer_id: customerId,
+        lead_id: leadId,
+        message_type: record.message_type || 'textMessage',
+        raw_payload: rawPayload,
+        // Green API returned an idMessage, so the message was accepted
+        delivery_status: record.delivery_status ??
+          (record.direction === 'outgoing' && record.green_api_message_id ? 'sent' : null),
+        message_timestamp: record.message_timestamp || new Date().toISOString(),
+      })
+      .select('id, customer_id, lead_id')
+      .single();
+
+    if (error) {
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Apply an outgoingMessageStatus webhook to the stored outgoing message
+ * Failed messages notify the coach who sent them (otherwise every active admin)
+ * Never throws - returns the new status, or null when nothing changed
+ */
+export async function applyOutgoingMessageStatus(
+  supabaseAdmin: SupabaseClient,
+  body: WhatsAppWebhookBody
+): Promise<DeliveryStatus | null> {
+  try {
+    const rawStatus = String(body.status || '');
+    if (!body.idMessage || !rawStatus) {
+      return null;
+    }
+
+    const failed = FAILED_GREEN_API_STATUSES.includes(rawStatus);
+    const status: DeliveryStatus | null = failed
+      ? 'failed'
+      : ['sent', 'delivered', 'read'].includes(rawStatus)
+        ? (rawStatus as DeliveryStatus)
+        : null;
+    if (!status) {
+      return null;
+    }
+
+    const params = {
+      p_green_api_message_id: body.idMessage,
+      p_status: status,
+      p_status_at: body.timestamp ? new Date(body.timestamp * 1000).toISOString() : new Date().toISOString(),
+      p_error: failed ? [rawStatus, body.description].filter(Boolean).join(': ') : null,
+    };
+
+    let { data } = await supabaseAdmin.rpc('update_whatsapp_message_status', params);
+
+    // The status can arrive before send-whatsapp-message stored the message - retry once
+    if ((!data || data.length === 0) && status !== 'sent') {
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+      ({ data } = await supabaseAdmin.rpc('update_whatsapp_message_status', params));
+    }
+
+    const updated = (data || [])[0] as
+      | { customer_id: string | null; lead_id: string | null; phone: string; body: string | null; sent_by: string | null }
+      | undefined;
+    if (!updated) {
+      return null;
+    }
+
+    if (failed) {
+      await notifyDeliveryFailure(supabaseAdmin, updated, params.p_error);
+    }
+
+    return status;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function notifyDeliveryFailure(
+  supabaseAdmin: SupabaseClient,
+  message: { customer_id: string | null; lead_id: string | null; phone: string; body: string | null; sent_by: string | null },
+  reason: string | null
+): Promise<void> {
+  // The staff member who sent it and the lead's coach (leads.assigned_to), or all admins when neither exists
+  let assignedTo: string | null = null;
+  if (message.lead_id) {
+    const { data: lead } = await supabaseAdmin
+      .from('leads')
+      .select('assigned_to')
+      .eq('id', message.lead_id)
+      .maybeSingle();
+    assignedTo = lead?.assigned_to || null;
+  }
+
+  let recipientIds = [...new Set([message.sent_by, assignedTo].filter((id): id is string => !!id))];
+  if (recipientIds.length === 0) {
+    const { data } = await supabaseAdmin
+      .from('profiles')
+      .select('id')
+      .eq('role', 'admin')
+      .eq('is_active', true);
+    recipientIds = (data || []).map((profile: { id: string }) => profile.id);
+  }
+
+  if (recipientIds.length === 0) {
+    return;
+  }
+
+  let clientName = message.phone;
+  if (message.customer_id) {
+    const { data: customer } = await supabaseAdmin
+      .from('customers')
+      .select('full_name')
+      .eq('id', message.customer_id)
+      .maybeSingle();
+    clientName = customer?.full_name || clientName;
+  }
+
+  const preview = (message.body || '').replace(/\s+/g, ' ').trim().slice(0, 60);
+
+  await supabaseAdmin.from('notifications').insert(
+    recipientIds.map((userId) => ({
+      user_id: userId,
+      customer_id: message.customer_id,
+      lead_id: message.lead_id,
+      type: 'whatsapp_delivery_failed',
+      title: 'הודעת וואטסאפ לא נמסרה',
+      message: preview ? `ההודעה ל${clientName} לא נמסרה: "${preview}"` : `ההודעה ל${clientName} לא נמסרה`,
+      metadata: { reason },
+      is_read: false,
+    }))
+  );
+}
@@ -10,6 +10,7 @@ import { handleCors, corsHeaders } from '../_shared/cors.ts';
 import { createSupabaseAdmin, verifyUser } from '../_shared/supabase.ts';
 import { successResponse, errorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/utils.ts';
+import { hasPermission, type StaffPermission } from '../_shared/permissions.ts';
 
 serve(async (req) => {
   // Handle CORS preflight - MUST be first
@@ -39,6 +40,7 @@ serve(async (req) => {
     const isInvitationAcceptance = action === 'createUser' && invitationToken && invitationId;
     
     let user = null;
+    let isAdminCaller = false;
     if (!isInvitationAcceptance) {
       // Get authorization header for regular admin operations
       const authHeader = req.headers.get('Authorization');
@@ -55,16 +57,34 @@ serve(async (req) => {
       // Create Supabase admin client
       const supabaseAdmin = createSupabaseAdmin();
 
-      // Check if user is admin/manager
-      const { data: profile, error: profileError } = await supabaseAdmin
+      // Trainee accounts are managed with the leads permission; creating and looking up
+      // accounts (any role) and managing staff accounts need the users permission
+      let requiredPermission: StaffPermission = 'leads';
+      if (action === 'createUser' || action === 'listUsers' || action === 'getUserByEmail') {
+        requiredPermission = 'users';
+      } else if ((action === 'updateUser' || action === 'deleteUser') && params.userId) {
+        const { data: targetProfile } = await supabaseAdmin
+          .from('profiles')
+          .select('role')
+          .eq('id', params.userId)
+          .maybeSingle();
+
+        if (targetProfile && targetProfile.role !== 'trainee') {
+          requiredPermission = 'users';
+        }
+      }
+
+      if (!(await hasPermission(supabaseAdmin, user.id, requiredPermission))) {
+        return errorResponse('Unauthorized: You do not have permission to perform this user operation', 403);
+      }
+
+      const { data: callerProfile } = await supabaseAdmin
         .from('profiles')
         .select('role')
         .eq('id', user.id)
-        .single();
+        .maybeSingle();
 
-      if (profileError || !profile || !['admin', 'user'].includes(profile.role)) {
-        return errorResponse('Unauthorized: Only admins and managers can perform admin user operations', 403);
-      }
+      isAdminCaller = callerProfile?.role === 'admin';
     } else {
       // For invitation acceptance, verify the invitation token
       const supabaseAdmin = createSupabaseAdmin();
@@ -116,12 +136,18 @@ serve(async (req) => {
           return errorResponse('Missing required field: email', 400);
         }
 
+        // handle_new_user copies the role from user_metadata into profiles, so only admins
+        // may choose it; invitations and other staff always create trainee accounts
+        const metadata = isAdminCaller
+          ? user_metadata
+          : { ...user_metadata, role: 'trainee' };
+
         // Create user
         const { data: newUser, error: createError } = await supabaseAdmin.auth.admin.createUser({
           email,
           password,
           email_confirm,
-          user_metadata,
+          user_metadata: metadata,
         });
 
         if (createError || !newUser.user) {
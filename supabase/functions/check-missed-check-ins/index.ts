@@ -0,0 +1,132 @@
+/**
+ * Check Missed Check-Ins Edge Function
+ *
+ * Runs check_missed_check_ins(): active trainees without a daily check-in for
+ * check_in_reminder_settings.missed_days days are flagged and their coach is notified.
+ * When a reminder flow is set, the flow is rendered for every newly flagged trainee and
+ * queued in scheduled_messages (sent by process-scheduled-messages), unless the trainee turned
+ * check-in reminders off (customers.check_in_reminders_enabled).
+ *
+ * Called once a day by pg_cron with the service role key (see CHECK_IN_REMINDERS.md),
+ * or manually by staff.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, verifyUser } from '../_shared/supabase.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { successResponse, errorResponse } from '../_shared/response.ts';
+import { isAutomationFlowActive, loadFlowTemplate, renderFlowTemplate } from '../_shared/automationFlows.ts';
+
+interface MissedCheckInRow {
+  lead_id: string;
+  customer_id: string;
+  last_check_in_date: string | null;
+  days_missed: number;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return errorResponse('Missing authorization header', 401);
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+
+    // Cron runs with the service role key; anyone else needs the messaging permission
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const isServiceRole = !!serviceRoleKey && authHeader.replace('Bearer ', '') === serviceRoleKey;
+
+    if (!isServiceRole) {
+      const user = await verifyUser(authHeader);
+      if (!user) {
+        return errorResponse('Unauthorized', 401);
+      }
+
+      if (!(await hasPermission(supabaseAdmin, user.id, 'messaging'))) {
+        return errorResponse('Unauthorized: You do not have permission to run check-in reminders', 403);
+      }
+    }
+
+    const { data: flagged, error: checkError } = await supabaseAdmin.rpc('check_missed_check_ins');
+
+    if (checkError) {
+      return errorResponse(`Failed to check missed check-ins: ${checkError.message}`, 500);
+    }
+
+    const rows = (flagged || []) as MissedCheckInRow[];
+    const totals = { flagged: rows.length, reminders_queued: 0, reminders_skipped: 0 };
+
+    if (rows.length === 0) {
+      return successResponse(totals);
+    }
+
+    // Optional WhatsApp reminder to the trainees
+    const { data: settings } = await supabaseAdmin
+      .from('check_in_reminder_settings')
+      .select('reminder_flow_key, updated_by')
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    const flowKey = settings?.reminder_flow_key as string | null | undefined;
+    if (!flowKey || !(await isAutomationFlowActive(supabaseAdmin, flowKey))) {
+      return successResponse(totals);
+    }
+
+    for (const row of rows) {
+      const { data: lead } = await supabaseAdmin.from('leads').select('*').eq('id', row.lead_id).maybeSingle();
+      const { data: customer } = await supabaseAdmin
+        .from('customers')
+        .select('id, full_name, phone, email, check_in_reminders_enabled')
+        .eq('id', row.customer_id)
+        .maybeSingle();
+
+      // The trainee turned off check-in reminders (client portal onboarding)
+      if (!customer?.phone || customer.check_in_reminders_enabled === false) {
+        totals.reminders_skipped++;
+        continue;
+      }
+
+      // The coach's own copy of the template when the trainee is assigned
+      const coachId = (lead?.assigned_to as string | null) || settings?.updated_by || null;
+      const template = await loadFlowTemplate(supabaseAdmin, flowKey, coachId);
+      if (!template || !template.template_content?.trim()) {
+        totals.reminders_skipped++;
+        continue;
+      }
+
+      const { message, buttons, media } = renderFlowTemplate(template, customer, lead);
+
+      const { error: insertError } = await supabaseAdmin.from('scheduled_messages').insert({
+        lead_id: row.lead_id,
+        customer_id: row.customer_id,
+        phone: customer.phone,
+        flow_key: flowKey,
+        message,
+        buttons,
+        media,
+        scheduled_for: new Date().toISOString(),
+        created_by: coachId,
+      });
+
+      if (insertError) {
+        console.error('[check-missed-check-ins] Failed to queue reminder:', insertError.message);
+        totals.reminders_skipped++;
+      } else {
+        totals.reminders_queued++;
+      }
+    }
+
+    return successResponse(totals);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+});
@@ -5,6 +5,7 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { handleCors, corsHeaders } from '../_shared/cors.ts';
 import { successResponse, errorResponse } from '../_shared/response.ts';
 import { createSupabaseAdmin } from '../_shared/supabase.ts';
+import { hasPermission } from '../_shared/permissions.ts';
 
 interface CreatePaymentRequest {
   customer_id: string;
@@ -50,6 +51,10 @@ serve(async (req) => {
       return errorResponse('Invalid or expired token', 401);
     }
 
+    if (!(await hasPermission(supabase, user.id, 'payments'))) {
+      return errorResponse('Only staff with access to payments can create payments', 403);
+    }
+
 
     // Parse request body
     const body: CreatePaymentRequest = await req.json();
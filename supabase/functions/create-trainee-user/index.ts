@@ -9,6 +9,7 @@ import { handleCors, corsHeaders } from '../_shared/cors.ts';
 import { createSupabaseAdmin, verifyUser } from '../_shared/supabase.ts';
 import { successResponse, errorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/utils.ts';
+import { hasPermission } from '../_shared/permissions.ts';
 
 serve(async (req) => {
   // Handle CORS preflight - MUST be first
@@ -39,15 +40,9 @@ serve(async (req) => {
     // Create Supabase admin client
     const supabaseAdmin = createSupabaseAdmin();
 
-    // Check if user is admin/manager
-    const { data: profile, error: profileError } = await supabaseAdmin
-      .from('profiles')
-      .select('role')
-      .eq('id', user.id)
-      .single();
-
-    if (profileError || !profile || !['admin', 'user'].includes(profile.role)) {
-      return errorResponse('Unauthorized: Only admins and managers can create trainee users', 403);
+    // Trainee accounts are managed by staff with the leads permission
+    if (!(await hasPermission(supabaseAdmin, user.id, 'leads'))) {
+      return errorResponse('Unauthorized: Only staff with access to leads can create trainee users', 403);
     }
 
     // Parse request body
@@ -8,6 +8,15 @@ export const getLeadsConfig = async (supabase: SupabaseClient) => {
   // Helper to safely get options or return empty array
   const getOptions = (key: string) => filterOptions?.[key] || []
 
+  // Coach names for the assigned coach filter
+  const { data: coaches } = await supabase
+    .from('profiles')
+    .select('full_name, email')
+    .in('role', ['admin', 'user'])
+    .eq('is_active', true)
+    .order('full_name', { ascending: true })
+  const coachNames = (coaches || []).map((coach: { full_name: string | null; email: string }) => coach.full_name || coach.email)
+
   return {
     entity: 'leads',
     tableName: 'v_leads_with_customer',
@@ -96,6 +105,14 @@ export const getLeadsConfig = async (supabase: SupabaseClient) => {
         visible: true,
         category: 'לידים'
       },
+      {
+        id: 'assigned_to_name',
+        label: 'מאמן',
+        type: 'text',
+        sortable: true,
+        visible: true,
+        category: 'לידים'
+      },
       {
         id: 'fitness_goal',
         label: 'מטרה',
@@ -361,6 +378,14 @@ export const getLeadsConfig = async (supabase: SupabaseClient) => {
         operators: ['gte', 'lte'],
         category: 'לידים'
       },
+      {
+        id: 'assigned_to_name',
+        label: 'מאמן',
+        type: 'select',
+        operators: ['eq', 'in', 'neq'],
+        options: coachNames,
+        category: 'לידים'
+      },
       {
         id: 'age',
         label: 'גיל',
@@ -507,6 +532,11 @@ export const getLeadsConfig = async (supabase: SupabaseClient) => {
         label: 'לפי זמן מועדף',
         category: 'לידים'
       },
+      {
+        id: 'assigned_to_name',
+        label: 'לפי מאמן',
+        category: 'לידים'
+      },
       {
         id: 'active_budget_name',
         label: 'לפי תקציב',
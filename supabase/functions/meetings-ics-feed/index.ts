@@ -0,0 +1,109 @@
+/**
+ * Meetings ICS Feed Edge Function
+ *
+ * GET /meetings-ics-feed?token=<secret> returns the meetings owned by the token's coach
+ * as an iCalendar feed, for subscribing from a phone / Google / Outlook calendar.
+ * Tokens are created and revoked from the user menu (calendar_feed_tokens).
+ *
+ * Event links point to APP_URL/dashboard/meetings/:id (see CALENDAR_FEED.md).
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { corsHeaders, handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin } from '../_shared/supabase.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { errorResponse } from '../_shared/response.ts';
+import { buildIcsCalendar, buildMeetingIcsEvent, type IcsMeeting } from '../_shared/ics.ts';
+
+interface FeedMeetingRow extends Omit<IcsMeeting, 'customer_name' | 'notes'> {
+  meeting_data: Record<string, unknown> | null;
+  customer: { full_name: string | null } | null;
+  lead: { customer: { full_name: string | null } | null } | null;
+}
+
+// Past meetings kept in the feed
+const HISTORY_DAYS = 90;
+const MAX_EVENTS = 2000;
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    if (!token) {
+      return errorResponse('Missing token', 401);
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+
+    const { data: feedToken, error: tokenError } = await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .select('id, user_id, revoked_at, owner:profiles(full_name, email, role, is_active)')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (tokenError) {
+      return errorResponse(`Failed to load calendar feed: ${tokenError.message}`, 500);
+    }
+
+    const owner = feedToken?.owner as { full_name: string | null; email: string; role: string; is_active: boolean | null } | null;
+    if (!feedToken || feedToken.revoked_at || !owner || !['admin', 'user'].includes(owner.role) || owner.is_active === false) {
+      return errorResponse('Invalid or revoked calendar feed', 404);
+    }
+
+    // The feed stops working once the coach loses the meetings permission
+    if (!(await hasPermission(supabaseAdmin, feedToken.user_id, 'meetings'))) {
+      return errorResponse('Invalid or revoked calendar feed', 404);
+    }
+
+    const since = new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    const { data: meetings, error: meetingsError } = await supabaseAdmin
+      .from('meetings')
+      .select(`
+        id, start_time, end_time, meeting_date, meeting_type, status, location, video_link, updated_at, meeting_data,
+        customer:customers(full_name),
+        lead:leads(customer:customers(full_name))
+      `)
+      .eq('owner_id', feedToken.user_id)
+      .gte('meeting_date', since)
+      .order('meeting_date', { ascending: true })
+      .limit(MAX_EVENTS);
+
+    if (meetingsError) {
+      return errorResponse(`Failed to load meetings: ${meetingsError.message}`, 500);
+    }
+
+    const appUrl = Deno.env.get('APP_URL') || null;
+    const events = ((meetings || []) as unknown as FeedMeetingRow[]).map((meeting) =>
+      buildMeetingIcsEvent(
+        {
+          ...meeting,
+          customer_name: meeting.customer?.full_name || meeting.lead?.customer?.full_name || null,
+          notes: (meeting.meeting_data?.notes || meeting.meeting_data?.['הערות'] || null) as string | null,
+        },
+        appUrl
+      )
+    );
+
+    await supabaseAdmin
+      .from('calendar_feed_tokens')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', feedToken.id);
+
+    const calendar = buildIcsCalendar(events, `פגישות - ${owner.full_name || owner.email}`);
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="meetings.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    return errorResponse(error instanceof Error ? error.message : 'Internal server error', 500);
+  }
+});
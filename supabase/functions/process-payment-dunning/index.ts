@@ -0,0 +1,322 @@
+/**
+ * Process Payment Dunning Edge Function
+ *
+ * Advances the dunning cases opened for failed Stripe payments (see PAYMENT_DUNNING.md):
+ * - Opens cases for overdue collections when enabled (start_overdue_collection_dunning)
+ * - Closes cases whose reminders were used up and alerts the coach (escalate_payment_dunning)
+ * - Sends the due reminders: a fresh single-use Stripe payment link in the settings flow's
+ *   template (payment_request by default), through send-whatsapp-message. The previous link is
+ *   deactivated once the new one was sent.
+ *
+ * Reminders go out on payment_dunning_settings.step_days (days after the failure). Cases close
+ * themselves when the customer pays (DB triggers), so a paid case is never reminded.
+ *
+ * Called hourly by pg_cron with the service role key, or manually by staff.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, verifyUser } from '../_shared/supabase.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { successResponse, errorResponse } from '../_shared/response.ts';
+import {
+  isAutomationFlowActive,
+  loadFlowTemplate,
+  renderFlowTemplate,
+  type FlowTemplate,
+} from '../_shared/automationFlows.ts';
+import type { PlaceholderLead } from '../_shared/templateRenderer.ts';
+import { createPaymentLink, deactivatePaymentLink, getStripeSecretKey } from '../_shared/stripe.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETRY_DELAY_MS = 60 * 60 * 1000; // Failed sends are retried on the next hourly run
+const SEND_PAUSE_MS = 1000; // Pause between two sends (Green API rate limit)
+const DEFAULT_FLOW_KEY = 'payment_request';
+
+interface DunningSettings {
+  is_active: boolean;
+  step_days: number[];
+  flow_key: string | null;
+  escalate_after_days: number;
+}
+
+interface DunningCustomer {
+  id: string;
+  full_name: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+interface DunningRow {
+  id: string;
+  lead_id: string | null;
+  customer_id: string;
+  collection_id: string | null;
+  product_name: string;
+  amount: number;
+  currency: string;
+  messages_sent: number;
+  started_at: string;
+  last_payment_link_id: string | null;
+  customer: DunningCustomer | null;
+  lead: (PlaceholderLead & { assigned_to: string | null }) | null;
+}
+
+/**
+ * Send through the send-whatsapp-message function with the service role key
+ */
+const sendWhatsAppMessage = async (payload: Record<string, unknown>): Promise<string | null> => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-whatsapp-message`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${serviceRoleKey}`,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (response.ok) {
+    return null;
+  }
+
+  const result = await response.json().catch(() => ({}));
+  return result.error || `send-whatsapp-message returned ${response.status}`;
+};
+
+/**
+ * When the reminder after this one is due: the next step day, or the escalation day after the last step
+ */
+const getNextAttemptAt = (dunning: DunningRow, settings: DunningSettings, messagesSent: number) => {
+  const days = messagesSent < settings.step_days.length
+    ? settings.step_days[messagesSent]
+    : settings.escalate_after_days;
+  const dueMs = new Date(dunning.started_at).getTime() + days * DAY_MS;
+  return new Date(Math.max(dueMs, Date.now())).toISOString();
+};
+
+const formatAmount = (amount: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat('he-IL', { style: 'currency', currency }).format(amount);
+  } catch (error) {
+    return `${amount} ${currency}`;
+  }
+};
+
+const processDunning = async (
+  supabaseAdmin: SupabaseClient,
+  stripeSecretKey: string,
+  settings: DunningSettings,
+  totals: { sent: number; skipped: number; failed: number }
+) => {
+  const flowKey = settings.flow_key || DEFAULT_FLOW_KEY;
+  if (!(await isAutomationFlowActive(supabaseAdmin, flowKey))) {
+    return;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('payment_dunning')
+    .select(`
+      id, lead_id, customer_id, collection_id, product_name, amount, currency, messages_sent, started_at,
+      last_payment_link_id,
+      customer:customers(id, full_name, phone, email),
+      lead:leads(*)
+    `)
+    .eq('status', 'פעיל')
+    .lt('messages_sent', settings.step_days.length)
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load dunning cases: ${error.message}`);
+  }
+
+  const templates = new Map<string, FlowTemplate | null>();
+
+  for (const dunning of (data || []) as unknown as DunningRow[]) {
+    const customer = dunning.customer;
+
+    // The coach's own copy of the template when the lead is assigned
+    const coachId = dunning.lead?.assigned_to || null;
+    const templateKey = coachId || '';
+    if (!templates.has(templateKey)) {
+      templates.set(templateKey, await loadFlowTemplate(supabaseAdmin, flowKey, coachId));
+    }
+    const template = templates.get(templateKey);
+
+    if (!customer?.phone || !template || !template.template_content?.trim()) {
+      await supabaseAdmin
+        .from('payment_dunning')
+        .update({
+          last_error: !customer?.phone ? 'ללקוח אין מספר טלפון' : 'לא הוגדרה תבנית הודעה',
+          next_attempt_at: new Date(Date.now() + DAY_MS).toISOString(),
+        })
+        .eq('id', dunning.id);
+      totals.skipped++;
+      continue;
+    }
+
+    // Claim the case first so overlapping runs don't send the reminder twice
+    const { data: claimed } = await supabaseAdmin
+      .from('payment_dunning')
+      .update({ next_attempt_at: null })
+      .eq('id', dunning.id)
+      .eq('status', 'פעיל')
+      .not('next_attempt_at', 'is', null)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      continue;
+    }
+
+    if (totals.sent + totals.failed > 0) {
+      await new Promise((resolve) => setTimeout(resolve, SEND_PAUSE_MS));
+    }
+
+    let link: { paymentUrl: string; paymentLinkId: string } | null = null;
+    let sendError: string | null;
+    try {
+      link = await createPaymentLink(stripeSecretKey, {
+        amount: Math.round(Number(dunning.amount) * 100),
+        currency: dunning.currency,
+        productName: dunning.product_name,
+        metadata: {
+          customer_id: dunning.customer_id,
+          lead_id: dunning.lead_id,
+          collection_id: dunning.collection_id,
+          product_name: dunning.product_name,
+          dunning_id: dunning.id,
+        },
+        singleUse: true,
+      });
+
+      const { message, buttons, media } = renderFlowTemplate(template, customer, dunning.lead, {
+        payment_link: link.paymentUrl,
+        payment_amount: formatAmount(Number(dunning.amount), dunning.currency),
+      });
+
+      sendError = await sendWhatsAppMessage({
+        phoneNumber: customer.phone,
+        message,
+        buttons: buttons.length > 0 ? buttons : undefined,
+        media: media || undefined,
+        customerId: customer.id,
+        leadId: dunning.lead_id,
+        flowKey,
+      });
+    } catch (error) {
+      sendError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    if (sendError) {
+      // Release the claim so a later run retries; the unsent link must not stay payable
+      console.error(`[process-payment-dunning] reminder failed for dunning ${dunning.id}:`, sendError);
+      if (link) {
+        await deactivatePaymentLink(stripeSecretKey, link.paymentLinkId).catch(() => undefined);
+      }
+      await supabaseAdmin
+        .from('payment_dunning')
+        .update({
+          last_error: sendError,
+          next_attempt_at: new Date(Date.now() + RETRY_DELAY_MS).toISOString(),
+        })
+        .eq('id', dunning.id);
+      totals.failed++;
+      continue;
+    }
+
+    // Only the latest link can be paid
+    if (dunning.last_payment_link_id) {
+      await deactivatePaymentLink(stripeSecretKey, dunning.last_payment_link_id).catch((error) => {
+        console.error(`[process-payment-dunning] failed to deactivate ${dunning.last_payment_link_id}:`, error);
+      });
+    }
+
+    const messagesSent = dunning.messages_sent + 1;
+    await supabaseAdmin
+      .from('payment_dunning')
+      .update({
+        messages_sent: messagesSent,
+        last_sent_at: new Date().toISOString(),
+        last_payment_link: link?.paymentUrl || null,
+        last_payment_link_id: link?.paymentLinkId || null,
+        last_error: null,
+        next_attempt_at: getNextAttemptAt(dunning, settings, messagesSent),
+      })
+      .eq('id', dunning.id);
+
+    totals.sent++;
+  }
+};
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return errorResponse('Missing authorization header', 401);
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+
+    // Cron runs with the service role key; anyone else needs the payments permission
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const isServiceRole = !!serviceRoleKey && authHeader.replace('Bearer ', '') === serviceRoleKey;
+
+    if (!isServiceRole) {
+      const user = await verifyUser(authHeader);
+      if (!user) {
+        return errorResponse('Unauthorized', 401);
+      }
+
+      if (!(await hasPermission(supabaseAdmin, user.id, 'payments'))) {
+        return errorResponse('Unauthorized: You do not have permission to process payment reminders', 403);
+      }
+    }
+
+    const { data: settings, error: settingsError } = await supabaseAdmin
+      .from('payment_dunning_settings')
+      .select('is_active, step_days, flow_key, escalate_after_days')
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (settingsError) {
+      return errorResponse(`Failed to load dunning settings: ${settingsError.message}`, 500);
+    }
+
+    if (!settings?.is_active) {
+      return successResponse({ started: 0, escalated: 0, sent: 0, skipped: 0, failed: 0 });
+    }
+
+    const stripeSecretKey = getStripeSecretKey();
+    if (!stripeSecretKey) {
+      return errorResponse('Stripe secret key not configured (STRIPE_SECRET_KEY)', 500);
+    }
+
+    const { data: started, error: startError } = await supabaseAdmin.rpc('start_overdue_collection_dunning');
+    if (startError) {
+      return errorResponse(`Failed to start overdue collection dunning: ${startError.message}`, 500);
+    }
+
+    const { data: escalated, error: escalateError } = await supabaseAdmin.rpc('escalate_payment_dunning');
+    if (escalateError) {
+      return errorResponse(`Failed to escalate payment dunning: ${escalateError.message}`, 500);
+    }
+
+    const totals = { sent: 0, skipped: 0, failed: 0 };
+    await processDunning(supabaseAdmin, stripeSecretKey, settings as DunningSettings, totals);
+
+    return successResponse({ started: started || 0, escalated: escalated || 0, ...totals });
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+});
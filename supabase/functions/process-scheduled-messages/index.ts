@@ -0,0 +1,167 @@
+/**
+ * Process Scheduled Messages Edge Function
+ *
+ * Sends due WhatsApp messages from the scheduled_messages queue via Green API.
+ * Failed sends stay pending and are retried with backoff (see claim_due_scheduled_messages)
+ * until max_attempts is reached, then the message is marked as failed.
+ *
+ * Called every minute by pg_cron with the service role key (see SCHEDULED_MESSAGES.md),
+ * or manually by staff.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, verifyUser } from '../_shared/supabase.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { successResponse, errorResponse } from '../_shared/response.ts';
+import { getChatId, formatPhoneNumber } from '../_shared/utils.ts';
+import { getGreenApiCredentials, sendGreenApiMessage } from '../_shared/greenApi.ts';
+import { recordWhatsAppMessage } from '../_shared/whatsappMessages.ts';
+
+const BATCH_SIZE = 20;
+const SEND_PAUSE_MS = 1000; // Pause between two sends in a batch (Green API rate limit)
+
+interface ScheduledMessageRow {
+  id: string;
+  lead_id: string | null;
+  customer_id: string | null;
+  phone: string;
+  flow_key: string | null;
+  message: string;
+  buttons: Array<{ id: string; text: string }> | null;
+  media: { type: 'image' | 'video' | 'gif'; url: string } | null;
+  attempts: number;
+  max_attempts: number;
+  created_by: string | null;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return errorResponse('Missing authorization header', 401);
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+
+    // Cron runs with the service role key; anyone else needs the messaging permission
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const isServiceRole = !!serviceRoleKey && authHeader.replace('Bearer ', '') === serviceRoleKey;
+
+    if (!isServiceRole) {
+      const user = await verifyUser(authHeader);
+      if (!user) {
+        return errorResponse('Unauthorized', 401);
+      }
+
+      if (!(await hasPermission(supabaseAdmin, user.id, 'messaging'))) {
+        return errorResponse('Unauthorized: You do not have permission to process scheduled messages', 403);
+      }
+    }
+
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .rpc('claim_due_scheduled_messages', { p_limit: BATCH_SIZE });
+
+    if (claimError) {
+      return errorResponse(`Failed to claim scheduled messages: ${claimError.message}`, 500);
+    }
+
+    const messages = (claimed || []) as ScheduledMessageRow[];
+    if (messages.length === 0) {
+      return successResponse({ processed: 0, sent: 0, failed: 0, retrying: 0 });
+    }
+
+    const credentials = await getGreenApiCredentials(supabaseAdmin);
+
+    let sent = 0;
+    let failed = 0;
+    let retrying = 0;
+
+    for (const [index, scheduled] of messages.entries()) {
+      if (index > 0) {
+        await new Promise((resolve) => setTimeout(resolve, SEND_PAUSE_MS));
+      }
+
+      let idMessage: string | null = null;
+      let sendError: string | null = null;
+
+      if (!credentials) {
+        sendError = 'Green API credentials not configured';
+      } else {
+        try {
+          idMessage = await sendGreenApiMessage(credentials, {
+            chatId: getChatId(scheduled.phone),
+            message: scheduled.message,
+            buttons: scheduled.buttons || undefined,
+            media: scheduled.media || undefined,
+          });
+          if (!idMessage) {
+            sendError = 'Green API did not accept the message';
+          }
+        } catch (error) {
+          sendError = error instanceof Error ? error.message : 'Unknown error';
+        }
+      }
+
+      if (idMessage) {
+        await supabaseAdmin
+          .from('scheduled_messages')
+          .update({
+            status: 'sent',
+            sent_at: new Date().toISOString(),
+            green_api_message_id: idMessage,
+            next_attempt_at: null,
+            last_error: null,
+          })
+          .eq('id', scheduled.id)
+          .eq('status', 'pending'); // Cancelled by staff while sending - keep it cancelled
+
+        await recordWhatsAppMessage(supabaseAdmin, {
+          customer_id: scheduled.customer_id,
+          lead_id: scheduled.lead_id,
+          direction: 'outgoing',
+          phone: formatPhoneNumber(scheduled.phone),
+          message_type: scheduled.media?.url
+            ? `${scheduled.media.type}Message`
+            : scheduled.buttons?.length ? 'buttonsMessage' : 'textMessage',
+          body: scheduled.message,
+          media_url: scheduled.media?.url || null,
+          green_api_message_id: idMessage,
+          raw_payload: scheduled.buttons?.length ? { buttons: scheduled.buttons } : {},
+          sent_by: scheduled.created_by,
+          flow_key: scheduled.flow_key,
+        });
+
+        sent++;
+        continue;
+      }
+
+      // Keep pending for another attempt (next_attempt_at was already pushed back by the claim)
+      const exhausted = scheduled.attempts >= scheduled.max_attempts;
+      await supabaseAdmin
+        .from('scheduled_messages')
+        .update({
+          status: exhausted ? 'failed' : 'pending',
+          last_error: sendError,
+        })
+        .eq('id', scheduled.id)
+        .eq('status', 'pending'); // Never revive a message cancelled during the attempt
+
+      if (exhausted) {
+        failed++;
+      } else {
+        retrying++;
+      }
+    }
+
+    return successResponse({ processed: messages.length, sent, failed, retrying });
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+});
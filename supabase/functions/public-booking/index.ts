@@ -0,0 +1,398 @@
+/**
+ * Public Booking Edge Function
+ *
+ * Backs the public booking page (/book/:slug), replacing the Fillout scheduling form for the first call.
+ * No login - the coach is identified by their booking slug.
+ *
+ * POST { action: 'get_slots', slug } returns the coach's free slots
+ * POST { action: 'book', slug, start_time, full_name, phone, email?, notes? }
+ *   - throttles attempts per phone and per IP
+ *   - re-checks the slot against the coach's availability and meetings before writing anything
+ *   - finds the customer by phone and their latest lead (never changing either), or creates a lead assigned to the coach
+ *   - creates the meeting under a per-coach lock (book_public_meeting) and, for new leads only,
+ *     queues the customer_journey_start WhatsApp flow
+ *
+ * See BOOKING.md.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin } from '../_shared/supabase.ts';
+import { successResponse, errorResponse } from '../_shared/response.ts';
+import { formatPhoneNumber } from '../_shared/utils.ts';
+import { isAutomationFlowActive, loadFlowTemplate, renderFlowTemplate } from '../_shared/automationFlows.ts';
+import {
+  computeAvailableSlots,
+  type AvailabilityException,
+  type AvailabilityRule,
+  type BookingSettings,
+  type BookingSlot,
+} from '../_shared/bookingSlots.ts';
+
+const BOOKING_FLOW_KEY = 'customer_journey_start';
+const BOOKING_LEAD_SOURCE = 'עמוד קביעת פגישה';
+const CANCELLED_STATUSES = ['בוטל', 'מבוטל'];
+// Meetings without an end time block one hour (same as the dashboard calendar)
+const DEFAULT_MEETING_DURATION_MS = 60 * 60 * 1000;
+// Booking attempts allowed per hour (see record_public_booking_attempt)
+const MAX_ATTEMPTS_PER_PHONE = 5;
+const MAX_ATTEMPTS_PER_IP = 20;
+
+interface CoachBookingRow extends BookingSettings {
+  coach_id: string;
+  display_name: string | null;
+  meeting_type: string;
+  coach: { full_name: string | null; email: string; role: string; is_active: boolean | null } | null;
+}
+
+interface BookingRequest {
+  action?: 'get_slots' | 'book';
+  slug?: string;
+  start_time?: string;
+  full_name?: string;
+  phone?: string;
+  email?: string;
+  notes?: string;
+}
+
+const loadBookableCoach = async (supabaseAdmin: SupabaseClient, slug: string): Promise<CoachBookingRow | null> => {
+  const { data, error } = await supabaseAdmin
+    .from('coach_booking_settings')
+    .select(`
+      coach_id, display_name, meeting_type, slot_duration_minutes, buffer_minutes, min_notice_hours, max_days_ahead,
+      coach:profiles(full_name, email, role, is_active)
+    `)
+    .eq('booking_slug', slug.toLowerCase())
+    .eq('is_bookable', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load booking page: ${error.message}`);
+  }
+
+  const row = data as unknown as CoachBookingRow | null;
+  if (!row?.coach || !['admin', 'user'].includes(row.coach.role) || row.coach.is_active === false) {
+    return null;
+  }
+
+  return row;
+};
+
+const loadAvailableSlots = async (supabaseAdmin: SupabaseClient, coach: CoachBookingRow): Promise<BookingSlot[]> => {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + (coach.max_days_ahead + 1) * 24 * 60 * 60 * 1000);
+
+  const [rulesResult, exceptionsResult, meetingsResult] = await Promise.all([
+    supabaseAdmin
+      .from('coach_availability_rules')
+      .select('weekday, kind, start_time, end_time')
+      .eq('coach_id', coach.coach_id),
+    supabaseAdmin
+      .from('coach_availability_exceptions')
+      .select('date_from, date_to')
+      .eq('coach_id', coach.coach_id)
+      .gte('date_to', now.toISOString().split('T')[0]),
+    // Starting a day early catches meetings that began before now and are still running
+    supabaseAdmin
+      .from('meetings')
+      .select('start_time, end_time, status')
+      .eq('owner_id', coach.coach_id)
+      .gte('start_time', new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString())
+      .lte('start_time', horizon.toISOString()),
+  ]);
+
+  const failed = rulesResult.error || exceptionsResult.error || meetingsResult.error;
+  if (failed) {
+    throw new Error(`Failed to load availability: ${failed.message}`);
+  }
+
+  const busy = (meetingsResult.data || [])
+    .filter((meeting) => meeting.start_time && !CANCELLED_STATUSES.includes(meeting.status || ''))
+    .map((meeting) => {
+      const start = new Date(meeting.start_time as string);
+      const end = meeting.end_time ? new Date(meeting.end_time) : new Date(start.getTime() + DEFAULT_MEETING_DURATION_MS);
+      return { start, end };
+    });
+
+  return computeAvailableSlots({
+    settings: coach,
+    rules: (rulesResult.data || []) as AvailabilityRule[],
+    exceptions: (exceptionsResult.data || []) as AvailabilityException[],
+    busy,
+    now,
+  });
+};
+
+/**
+ * Visitor IP from the proxy headers (the first address is the client)
+ */
+const getClientIp = (req: Request): string | null => {
+  const forwardedFor = req.headers.get('x-forwarded-for');
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim() || null;
+  }
+  return req.headers.get('x-real-ip');
+};
+
+/**
+ * Existing customer by phone (stored with or without the country code), or a new one
+ */
+const findOrCreateCustomer = async (
+  supabaseAdmin: SupabaseClient,
+  fullName: string,
+  phone: string,
+  email: string | null
+): Promise<string> => {
+  const localPhone = phone.startsWith('972') ? `0${phone.substring(3)}` : phone;
+
+  const { data: existing } = await supabaseAdmin
+    .from('customers')
+    .select('id')
+    .or(`phone.eq.${phone},phone.eq.+${phone},phone.eq.${localPhone}`)
+    .limit(1)
+    .maybeSingle();
+
+  // A public form never changes an existing customer
+  if (existing) {
+    return existing.id;
+  }
+
+  const { data: created, error } = await supabaseAdmin
+    .from('customers')
+    .insert({ full_name: fullName, phone, email })
+    .select('id')
+    .single();
+
+  if (error || !created) {
+    throw new Error(`Failed to create customer: ${error?.message}`);
+  }
+
+  return created.id;
+};
+
+/**
+ * The customer's latest lead, or a new lead assigned to the coach.
+ * A public form never changes an existing lead (not even its coach).
+ */
+const findOrCreateLead = async (
+  supabaseAdmin: SupabaseClient,
+  customerId: string,
+  coachId: string
+): Promise<{ lead: Record<string, unknown>; isNew: boolean }> => {
+  const { data: existing } = await supabaseAdmin
+    .from('leads')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) {
+    return { lead: existing, isNew: false };
+  }
+
+  const { data: created, error } = await supabaseAdmin
+    .from('leads')
+    .insert({
+      customer_id: customerId,
+      assigned_to: coachId,
+      source: BOOKING_LEAD_SOURCE,
+      daily_protocol: {},
+      workout_history: [],
+      steps_history: [],
+      subscription_data: {},
+    })
+    .select('*')
+    .single();
+
+  if (error || !created) {
+    throw new Error(`Failed to create lead: ${error?.message}`);
+  }
+
+  return { lead: created, isNew: true };
+};
+
+/**
+ * Queue the customer_journey_start flow (sent by process-scheduled-messages).
+ * Booking still succeeds when the flow is off or has no template.
+ */
+const queueJourneyStartMessage = async (
+  supabaseAdmin: SupabaseClient,
+  coachId: string,
+  customerId: string,
+  lead: Record<string, unknown>
+): Promise<boolean> => {
+  if (!(await isAutomationFlowActive(supabaseAdmin, BOOKING_FLOW_KEY))) {
+    return false;
+  }
+
+  const template = await loadFlowTemplate(supabaseAdmin, BOOKING_FLOW_KEY, coachId);
+  if (!template || !template.template_content?.trim()) {
+    return false;
+  }
+
+  const { data: customer } = await supabaseAdmin
+    .from('customers')
+    .select('id, full_name, phone, email')
+    .eq('id', customerId)
+    .single();
+
+  if (!customer?.phone) {
+    return false;
+  }
+
+  const { message, buttons, media } = renderFlowTemplate(template, customer, lead);
+
+  const { error } = await supabaseAdmin.from('scheduled_messages').insert({
+    lead_id: lead.id,
+    customer_id: customerId,
+    phone: customer.phone,
+    flow_key: BOOKING_FLOW_KEY,
+    message,
+    buttons,
+    media,
+    scheduled_for: new Date().toISOString(),
+    created_by: coachId,
+  });
+
+  if (error) {
+    console.error('[public-booking] Failed to queue journey start message:', error.message);
+    return false;
+  }
+
+  return true;
+};
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  if (req.method !== 'POST') {
+    return errorResponse('Method not allowed', 405);
+  }
+
+  try {
+    let body: BookingRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse('Invalid JSON in request body', 400);
+    }
+
+    const slug = body.slug?.trim();
+    if (!slug) {
+      return errorResponse('Missing booking page', 400);
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+    const coach = await loadBookableCoach(supabaseAdmin, slug);
+    if (!coach) {
+      return errorResponse('Booking page not found', 404);
+    }
+
+    const slots = await loadAvailableSlots(supabaseAdmin, coach);
+
+    if (body.action === 'get_slots') {
+      return successResponse({
+        coach_name: coach.display_name || coach.coach?.full_name || null,
+        meeting_type: coach.meeting_type,
+        slot_duration_minutes: coach.slot_duration_minutes,
+        slots,
+      });
+    }
+
+    if (body.action !== 'book') {
+      return errorResponse('Unknown action', 400);
+    }
+
+    const fullName = body.full_name?.trim() || '';
+    const phone = formatPhoneNumber(body.phone?.trim() || '');
+    const email = body.email?.trim().toLowerCase() || null;
+    const notes = body.notes?.trim().slice(0, 1000) || null;
+
+    if (fullName.length < 2 || fullName.length > 100) {
+      return errorResponse('Please enter a full name', 400);
+    }
+    if (!/^\d{9,15}$/.test(phone)) {
+      return errorResponse('Invalid phone number', 400);
+    }
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return errorResponse('Invalid email address', 400);
+    }
+
+    const { data: isAllowed, error: throttleError } = await supabaseAdmin.rpc('record_public_booking_attempt', {
+      p_phone: phone,
+      p_ip_address: getClientIp(req),
+      p_max_per_phone: MAX_ATTEMPTS_PER_PHONE,
+      p_max_per_ip: MAX_ATTEMPTS_PER_IP,
+    });
+    if (throttleError) {
+      return errorResponse(`Failed to check booking attempts: ${throttleError.message}`, 500);
+    }
+    if (!isAllowed) {
+      return errorResponse('Too many booking attempts, please try again later', 429, { code: 'TOO_MANY_ATTEMPTS' });
+    }
+
+    const requestedDate = body.start_time ? new Date(body.start_time) : null;
+    if (!requestedDate || isNaN(requestedDate.getTime())) {
+      return errorResponse('Invalid start time', 400);
+    }
+
+    const requestedStart = requestedDate.toISOString();
+    const slot = slots.find((candidate) => candidate.start === requestedStart);
+    if (!slot) {
+      return errorResponse('This time is no longer available', 409, { code: 'SLOT_TAKEN' });
+    }
+
+    // Check before saving anything - another visitor may have taken the slot meanwhile
+    // (book_public_meeting checks again under a lock)
+    const { data: conflicts, error: conflictsError } = await supabaseAdmin.rpc('get_meeting_conflicts', {
+      p_owner_id: coach.coach_id,
+      p_start: slot.start,
+      p_end: slot.end,
+    });
+    if (conflictsError) {
+      return errorResponse(`Failed to check the slot: ${conflictsError.message}`, 500);
+    }
+    if (conflicts && conflicts.length > 0) {
+      return errorResponse('This time is no longer available', 409, { code: 'SLOT_TAKEN' });
+    }
+
+    const customerId = await findOrCreateCustomer(supabaseAdmin, fullName, phone, email);
+    const { lead, isNew: isNewLead } = await findOrCreateLead(supabaseAdmin, customerId, coach.coach_id);
+
+    const { data: meetingId, error: meetingError } = await supabaseAdmin.rpc('book_public_meeting', {
+      p_owner_id: coach.coach_id,
+      p_lead_id: lead.id,
+      p_customer_id: customerId,
+      p_start: slot.start,
+      p_end: slot.end,
+      p_meeting_type: coach.meeting_type,
+      p_meeting_data: {
+        source: 'booking_page',
+        ...(notes ? { notes } : {}),
+      },
+    });
+
+    if (meetingError) {
+      return errorResponse(`Failed to create meeting: ${meetingError.message}`, 500);
+    }
+    if (!meetingId) {
+      return errorResponse('This time is no longer available', 409, { code: 'SLOT_TAKEN' });
+    }
+
+    // Only new leads get the welcome flow: anyone can type an existing customer's phone number
+    const messageQueued = isNewLead
+      ? await queueJourneyStartMessage(supabaseAdmin, coach.coach_id, customerId, lead)
+      : false;
+
+    return successResponse(
+      { meeting: { id: meetingId, start_time: slot.start, end_time: slot.end }, message_queued: messageQueued },
+      'Meeting booked',
+      201
+    );
+  } catch (error) {
+    return errorResponse(error instanceof Error ? error.message : 'Internal server error', 500);
+  }
+});
@@ -5,7 +5,11 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { handleCors, corsHeaders } from '../_shared/cors.ts';
 import { successResponse, errorResponse } from '../_shared/response.ts';
 import { createSupabaseAdmin } from '../_shared/supabase.ts';
-import { stripHtmlForWhatsApp } from '../_shared/utils.ts';
+import { stripHtmlForWhatsApp, getChatId } from '../_shared/utils.ts';
+import { getGreenApiCredentials, sendGreenApiMessage } from '../_shared/greenApi.ts';
+import { buildLeadPlaceholders, renderTemplate } from '../_shared/templateRenderer.ts';
+import { recordWhatsAppMessage, phoneFromChatId } from '../_shared/whatsappMessages.ts';
+import { isAutomationFlowActive } from '../_shared/automationFlows.ts';
 
 interface FilloutWebhookBody {
   eventId?: string;
@@ -896,6 +900,11 @@ serve(async (req) => {
         });
       }
 
+      // A lead without a coach gets one on its first submission of this form
+      if (leadId) {
+        await assignLeadCoach(leadId, body, supabase);
+      }
+
 
       // Trigger intro_questionnaire automation automatically ONLY for open-meeting form submissions
       // Run this asynchronously so it doesn't block the webhook response
@@ -920,6 +929,50 @@ serve(async (req) => {
   }
 });
 
+/**
+ * Give an unassigned lead a coach: the coach_id URL parameter when the form link carries one
+ * (e.g. a coach's personal form link), otherwise the round-robin rotation (no-op in manual mode).
+ * Leads that already have a coach are left as they are.
+ */
+async function assignLeadCoach(
+  leadId: string,
+  body: FilloutWebhookBody,
+  supabase: ReturnType<typeof createSupabaseAdmin>
+): Promise<void> {
+  try {
+    const coachParam = (body.urlParameters || []).find((param) =>
+      param.name === 'coach_id' || param.id === 'coach_id'
+    );
+    const coachId = coachParam?.value || null;
+
+    if (coachId) {
+      const { data: coach } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('id', coachId)
+        .in('role', ['admin', 'user'])
+        .eq('is_active', true)
+        .maybeSingle();
+
+      if (coach) {
+        await supabase
+          .from('leads')
+          .update({ assigned_to: coach.id })
+          .eq('id', leadId)
+          .is('assigned_to', null);
+        return;
+      }
+    }
+
+    const { error } = await supabase.rpc('assign_lead_round_robin', { p_lead_id: leadId });
+    if (error) {
+      console.error('[receive-fillout-webhook] Lead assignment failed:', error.message);
+    }
+  } catch (error) {
+    console.error('[receive-fillout-webhook] Lead assignment failed:', error instanceof Error ? error.message : error);
+  }
+}
+
 /**
  * Update lead fields from questionnaire form submission
  * Extracts period, age, email, height, weight from form answers
@@ -1116,6 +1169,11 @@ async function triggerIntroQuestionnaireAutomation(
       return;
     }
 
+    // Skip if the flow was removed on the WhatsApp automations page
+    if (!(await isAutomationFlowActive(supabase, 'intro_questionnaire'))) {
+      return;
+    }
+
 
     // Fetch lead data for placeholders
     let lead: any = null;
@@ -1151,14 +1209,10 @@ async function triggerIntroQuestionnaireAutomation(
     }
 
     // Build placeholders
-    const placeholders = buildPlaceholders(customer, lead);
+    const placeholders = buildLeadPlaceholders(customer, lead);
 
-    // Replace placeholders in template
-    let message = template.template_content;
-    Object.keys(placeholders).forEach((key) => {
-      const value = String(placeholders[key] || '');
-      message = message.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
-    });
+    // Render placeholders, fallbacks and conditional blocks
+    let message = renderTemplate(template.template_content, placeholders);
 
     // Strip HTML tags and format for WhatsApp
     message = stripHtmlForWhatsApp(message);
@@ -1174,7 +1228,7 @@ async function triggerIntroQuestionnaireAutomation(
         if (Array.isArray(buttonsData)) {
           processedButtons = buttonsData.map((btn: any) => ({
             id: String(btn.id),
-            text: replacePlaceholdersInText(String(btn.text || btn.name || ''), placeholders),
+            text: renderTemplate(String(btn.text || btn.name || ''), placeholders),
           }));
         }
       } catch (error) {
@@ -1182,10 +1236,8 @@ async function triggerIntroQuestionnaireAutomation(
     }
 
     // Get Green API credentials
-    const idInstance = Deno.env.get('GREEN_API_ID_INSTANCE') || Deno.env.get('VITE_GREEN_API_ID_INSTANCE');
-    const apiTokenInstance = Deno.env.get('GREEN_API_TOKEN_INSTANCE') || Deno.env.get('VITE_GREEN_API_TOKEN_INSTANCE');
-
-    if (!idInstance || !apiTokenInstance) {
+    const credentials = await getGreenApiCredentials(supabase);
+    if (!credentials) {
       return;
     }
 
@@ -1193,151 +1245,29 @@ async function triggerIntroQuestionnaireAutomation(
     const chatId = getChatId(customer.phone);
 
     // Send message via Green API
-    if (processedButtons && processedButtons.length > 0) {
-      // Send with buttons
-      const url = `https://api.green-api.com/waInstance${idInstance}/SendButtons/${apiTokenInstance}`;
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chatId,
-          message,
-          buttons: processedButtons.map((btn, index) => ({
-            buttonId: String(index + 1),
-            buttonText: btn.text,
-          })),
-        }),
-      });
-
-      if (!response.ok) {
-        return;
-      }
-    } else {
-      // Send regular message
-      const url = `https://api.green-api.com/waInstance${idInstance}/sendMessage/${apiTokenInstance}`;
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          chatId,
-          message,
-        }),
-      });
-
-      if (!response.ok) {
-        return;
-      }
-    }
-
-  } catch (error: any) {
-  }
-}
+    const idMessage = await sendGreenApiMessage(credentials, {
+      chatId,
+      message,
+      buttons: processedButtons,
+    });
 
-/**
- * Build placeholders object from customer and lead data
- */
-function buildPlaceholders(customer: any, lead: any | null): Record<string, string | number> {
-  const calculateAge = (birthDate: string | null | undefined): number => {
-    if (!birthDate) return 0;
-    try {
-      const birth = new Date(birthDate);
-      const today = new Date();
-      let age = today.getFullYear() - birth.getFullYear();
-      const monthDiff = today.getMonth() - birth.getMonth();
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
-        age--;
-      }
-      return age;
-    } catch {
-      return 0;
-    }
-  };
-
-  const calculateBMI = (height: number | null | undefined, weight: number | null | undefined): number => {
-    if (!height || !weight) return 0;
-    const heightInMeters = height / 100;
-    const bmi = weight / (heightInMeters * heightInMeters);
-    return Math.round(bmi * 10) / 10;
-  };
-
-  const getGenderLabel = (gender: string | null | undefined): string => {
-    if (!gender) return '';
-    switch (gender) {
-      case 'male': return 'זכר';
-      case 'female': return 'נקבה';
-      case 'other': return 'אחר';
-      default: return gender;
+    if (!idMessage) {
+      return;
     }
-  };
 
-  const formatDate = (date: string | null | undefined): string => {
-    if (!date) return '';
-    try {
-      return new Date(date).toLocaleDateString('he-IL');
-    } catch {
-      return date;
-    }
-  };
-
-  const age = calculateAge(lead?.birth_date);
-  const bmi = calculateBMI(lead?.height, lead?.weight);
-  const status = lead?.status_sub || lead?.status_main || '';
-
-  return {
-    name: customer?.full_name || '',
-    phone: customer?.phone || '',
-    email: customer?.email || '',
-    city: lead?.city || '',
-    gender: getGenderLabel(lead?.gender),
-    status: status,
-    created_date: formatDate(lead?.created_at),
-    lead_id: lead?.id || '',
-    fitness_goal: lead?.fitness_goal || '',
-    activity_level: lead?.activity_level || '',
-    preferred_time: lead?.preferred_time || '',
-    height: lead?.height || '',
-    weight: lead?.weight || '',
-    bmi: bmi || '',
-    age: age || '',
-    workout_plan_name: '',
-    nutrition_plan_name: '',
-  };
-}
-
-/**
- * Replace placeholders in text
- */
-function replacePlaceholdersInText(text: string, placeholders: Record<string, string | number>): string {
-  let result = text;
-  Object.keys(placeholders).forEach((key) => {
-    const value = String(placeholders[key] || '');
-    result = result.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
-  });
-  return result;
-}
-
-/**
- * Get chat ID from phone number (helper function)
- */
-function getChatId(phoneNumber: string): string {
-  let formatted = phoneNumber.replace(/[\s\-\(\)]/g, '');
-
-  if (formatted.startsWith('+')) {
-    formatted = formatted.substring(1);
-  }
-
-  if (formatted.startsWith('0')) {
-    formatted = '972' + formatted.substring(1);
-  }
+    // Store in the conversation so button replies can be matched back to this flow
+    await recordWhatsAppMessage(supabase, {
+      direction: 'outgoing',
+      phone: phoneFromChatId(chatId),
+      customer_id: customer.id,
+      lead_id: leadId,
+      message_type: processedButtons?.length ? 'buttonsMessage' : 'textMessage',
+      body: message,
+      green_api_message_id: idMessage,
+      flow_key: 'intro_questionnaire',
+      raw_payload: processedButtons?.length ? { buttons: processedButtons } : {},
+    });
 
-  if (!formatted.startsWith('972') && formatted.length === 9) {
-    formatted = '972' + formatted;
+  } catch (error: any) {
   }
-
-  return `${formatted}@c.us`;
 }
@@ -3,6 +3,10 @@
  * 
  * Receives Stripe webhook events and saves payment records to the database.
  * Handles: payment_intent.succeeded, payment_intent.payment_failed, etc.
+ * invoice.paid / invoice.payment_failed are reconciled against installment plans (see INSTALLMENTS.md).
+ * charge.refunded records full and partial refunds; the linked collection reopens (see COLLECTIONS_RECONCILIATION.md).
+ * A failed payment opens a dunning case and a successful one closes it (DB triggers, see PAYMENT_DUNNING.md).
+ * Every event must carry a valid Stripe-Signature (STRIPE_WEBHOOK_SECRET).
  * 
  * NO tokens stored in frontend - all Stripe communication is server-side.
  */
@@ -11,6 +15,8 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { handleCors, corsHeaders } from '../_shared/cors.ts';
 import { successResponse, errorResponse } from '../_shared/response.ts';
 import { createSupabaseAdmin } from '../_shared/supabase.ts';
+import { verifyStripeSignature } from '../_shared/stripe.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
 
 interface StripeEvent {
   id: string;
@@ -20,6 +26,61 @@ interface StripeEvent {
   };
 }
 
+interface StripeInvoice {
+  id: string;
+  subscription?: string | null;
+  subscription_details?: { metadata?: Record<string, string> } | null;
+  parent?: {
+    subscription_details?: { subscription?: string; metadata?: Record<string, string> } | null;
+  } | null;
+  amount_paid: number;
+  currency: string;
+  payment_intent?: string | null;
+  hosted_invoice_url?: string | null;
+  attempt_count?: number;
+}
+
+/**
+ * Find the installment a Stripe invoice pays: the installment already linked to the invoice,
+ * otherwise the first open installment of the plan billed by the invoice's subscription.
+ */
+const findInstallmentForInvoice = async (supabase: SupabaseClient, invoice: StripeInvoice) => {
+  const { data: linked } = await supabase
+    .from('payment_installments')
+    .select('*, plan:installment_plans(*)')
+    .eq('stripe_invoice_id', invoice.id)
+    .maybeSingle();
+
+  if (linked) return linked;
+
+  const subscriptionId = invoice.subscription || invoice.parent?.subscription_details?.subscription || null;
+  const planId = invoice.subscription_details?.metadata?.installment_plan_id
+    || invoice.parent?.subscription_details?.metadata?.installment_plan_id
+    || null;
+
+  if (!subscriptionId && !planId) return null;
+
+  let planQuery = supabase.from('installment_plans').select('id');
+  planQuery = subscriptionId
+    ? planQuery.eq('stripe_subscription_id', subscriptionId)
+    : planQuery.eq('id', planId);
+  const { data: plan } = await planQuery.maybeSingle();
+
+  if (!plan) return null;
+
+  const { data: next } = await supabase
+    .from('payment_installments')
+    .select('*, plan:installment_plans(*)')
+    .eq('plan_id', plan.id)
+    .is('stripe_invoice_id', null)
+    .in('status', ['ממתין', 'נכשל'])
+    .order('installment_number', { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  return next;
+};
+
 serve(async (req) => {
 
   // Handle CORS preflight
@@ -36,12 +97,18 @@ serve(async (req) => {
   try {
     // Get Stripe webhook secret from environment
     const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
-    
-    // Note: In production, verify webhook signature
-    // For now, we'll process webhooks (signature verification should be added for production)
+    if (!webhookSecret) {
+      return errorResponse('Stripe webhook secret not configured (STRIPE_WEBHOOK_SECRET)', 500);
+    }
 
-    // Parse request body
+    // Events create payments, close installments and issue tax documents - only Stripe may send them
     const rawBody = await req.text();
+    const isSigned = await verifyStripeSignature(rawBody, req.headers.get('Stripe-Signature'), webhookSecret);
+    if (!isSigned) {
+      return errorResponse('Invalid Stripe signature', 400);
+    }
+
+    // Parse request body
     let event: StripeEvent;
     
     try {
@@ -68,6 +135,7 @@ serve(async (req) => {
         const customerId = metadata.customer_id || metadata.customerId || null;
         const leadId = metadata.lead_id || metadata.leadId || null;
         const productName = metadata.product_name || metadata.productName || 'תשלום';
+        const collectionId = metadata.collection_id || null;
         
         // Extract receipt URL if available
         const receiptUrl = paymentIntent.charges?.data?.[0]?.receipt_url || null;
@@ -106,6 +174,7 @@ serve(async (req) => {
         const paymentData = {
           customer_id: customerId,
           lead_id: leadId || null,
+          collection_id: collectionId,
           product_name: productName,
           amount: amount,
           currency: currency,
@@ -168,6 +237,7 @@ serve(async (req) => {
           const paymentData = {
             customer_id: customerId,
             lead_id: leadId || null,
+            collection_id: metadata.collection_id || null,
             product_name: productName,
             amount: amount,
             currency: currency,
@@ -196,30 +266,127 @@ serve(async (req) => {
           return successResponse({ message: 'Refund processed but no payment_intent found' });
         }
 
-        // Find payment by stripe_payment_id and update status
+        // Find payment by stripe_payment_id and record the refund
         const { data: payment } = await supabase
           .from('payments')
-          .select('id')
+          .select('id, amount')
           .eq('stripe_payment_id', paymentIntentId)
           .maybeSingle();
 
         if (payment) {
+          // amount_refunded is cumulative; a partial refund keeps the payment paid.
+          // Either way the linked collection is reconciled (and reopened) by the payments trigger.
+          const refundedAmount = charge.amount_refunded ? charge.amount_refunded / 100 : Number(payment.amount);
+          const isFullRefund = charge.refunded === true || refundedAmount >= Number(payment.amount);
+
           const { error: updateError } = await supabase
             .from('payments')
             .update({
-              status: 'הוחזר',
+              ...(isFullRefund ? { status: 'הוחזר' } : {}),
+              refunded_amount: refundedAmount,
+              refunded_at: new Date().toISOString(),
               updated_at: new Date().toISOString(),
             })
             .eq('id', payment.id);
 
           if (updateError) {
-          } else {
+            return errorResponse(`Failed to record refund: ${updateError.message}`, 500);
           }
         }
 
         return successResponse({ message: 'Refund processed' });
       }
 
+      case 'invoice.paid': {
+        const invoice: StripeInvoice = event.data.object;
+
+        // $0 invoices (e.g. the trial invoice of a plan that starts later) don't pay an installment
+        if (!invoice.amount_paid) {
+          return successResponse({ message: 'Zero amount invoice ignored' });
+        }
+
+        const installment = await findInstallmentForInvoice(supabase, invoice);
+        if (!installment) {
+          return successResponse({ message: 'Invoice paid but no installment plan matched' });
+        }
+        if (installment.status === 'שולם') {
+          return successResponse({ message: 'Installment already paid', installmentId: installment.id });
+        }
+
+        const plan = installment.plan;
+        let customerId = plan.customer_id;
+        if (!customerId) {
+          const { data: lead } = await supabase.from('leads').select('customer_id').eq('id', plan.lead_id).maybeSingle();
+          customerId = lead?.customer_id || null;
+        }
+        if (!customerId) {
+          return successResponse({ message: 'Invoice paid but the installment plan has no customer' });
+        }
+
+        const { data: newPayment, error: insertError } = await supabase
+          .from('payments')
+          .insert({
+            customer_id: customerId,
+            lead_id: plan.lead_id,
+            collection_id: installment.collection_id,
+            product_name: `${plan.subscription_name} - תשלום ${installment.installment_number}/${plan.installments_count}`,
+            amount: invoice.amount_paid / 100,
+            currency: (invoice.currency || plan.currency || 'ils').toUpperCase(),
+            status: 'שולם' as const,
+            stripe_payment_id: invoice.payment_intent || invoice.id,
+            transaction_id: invoice.id,
+            receipt_url: invoice.hosted_invoice_url || null,
+          })
+          .select('id')
+          .single();
+
+        if (insertError) {
+          return errorResponse(`Failed to create payment: ${insertError.message}`, 500);
+        }
+
+        // The payments trigger marks the installment, its collection and the plan as paid;
+        // link the invoice for later events
+        const { error: installmentError } = await supabase
+          .from('payment_installments')
+          .update({ stripe_invoice_id: invoice.id })
+          .eq('id', installment.id);
+
+        if (installmentError) {
+          return errorResponse(`Failed to update installment: ${installmentError.message}`, 500);
+        }
+
+        return successResponse({ message: 'Installment paid', installmentId: installment.id, paymentId: newPayment.id });
+      }
+
+      case 'invoice.payment_failed': {
+        const invoice: StripeInvoice = event.data.object;
+
+        const installment = await findInstallmentForInvoice(supabase, invoice);
+        if (!installment) {
+          return successResponse({ message: 'Invoice payment failed but no installment plan matched' });
+        }
+        if (installment.status === 'שולם') {
+          return successResponse({ message: 'Installment already paid', installmentId: installment.id });
+        }
+
+        const { error: updateError } = await supabase
+          .from('payment_installments')
+          .update({
+            status: 'נכשל',
+            stripe_invoice_id: invoice.id,
+            failed_at: new Date().toISOString(),
+            attempt_count: invoice.attempt_count || (installment.attempt_count || 0) + 1,
+            failure_reason: 'חיוב החשבונית נכשל',
+          })
+          .eq('id', installment.id);
+
+        if (updateError) {
+          return errorResponse(`Failed to update installment: ${updateError.message}`, 500);
+        }
+
+        return successResponse({ message: 'Installment failure recorded', installmentId: installment.id });
+      }
+
       default:
         // Ignore other event types (we can add more handlers later)
         return successResponse({ message: `Event ${eventType} received but not processed` });
@@ -4,6 +4,15 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { handleCors, corsHeaders } from '../_shared/cors.ts';
 import { successResponse, errorResponse } from '../_shared/response.ts';
+import { createSupabaseAdmin } from '../_shared/supabase.ts';
+import {
+  recordWhatsAppMessage,
+  extractIncomingText,
+  phoneFromChatId,
+  applyOutgoingMessageStatus,
+} from '../_shared/whatsappMessages.ts';
+import { handleButtonReply, type ButtonActionResult } from '../_shared/buttonActions.ts';
+import { verifyGreenApiWebhook } from '../_shared/greenApi.ts';
 import type { WhatsAppWebhookBody } from '../_shared/types.ts';
 
 serve(async (req) => {
@@ -22,6 +31,15 @@ serve(async (req) => {
     });
   }
 
+  // The endpoint is public (no JWT) - only Green API knows the webhook token
+  const isVerified = verifyGreenApiWebhook(req);
+  if (isVerified === null) {
+    return errorResponse('Webhook token not configured (GREEN_API_WEBHOOK_TOKEN)', 500);
+  }
+  if (!isVerified) {
+    return errorResponse('Unauthorized', 401);
+  }
+
   try {
     // Parse request body
     let body: WhatsAppWebhookBody;
@@ -51,33 +69,59 @@ serve(async (req) => {
 
     // Log structured information
 
-    // Handle button reply
-    if (body.messageData?.buttonResponseMessageData) {
-      const buttonData = body.messageData.buttonResponseMessageData;
+    // Only incoming messages are stored in the conversation (outgoing are logged by send-whatsapp-message)
+    let storedMessageId: string | null = null;
+    let buttonAction: ButtonActionResult | null = null;
+    if (webhookType === 'incomingMessageReceived' && sender && !sender.endsWith('@g.us')) {
+      const supabaseAdmin = createSupabaseAdmin();
+      const messageData = body.messageData || {};
+      const buttonData = messageData.buttonResponseMessageData;
+      const templateButtonData = messageData.templateButtonReplyMessage;
 
-      // TODO: Add logic to handle button replies
-      // - Save to database
-      // - Trigger automated responses
-      // - Update lead/customer status
-      // etc.
-    }
+      const stored = await recordWhatsAppMessage(supabaseAdmin, {
+        direction: 'incoming',
+        phone: phoneFromChatId(sender),
+        sender_name: senderName || null,
+        message_type: messageData.typeMessage || 'textMessage',
+        body: extractIncomingText(body),
+        button_id: buttonData?.selectedButtonId || templateButtonData?.selectedId || null,
+        button_text: buttonData?.selectedButtonText || templateButtonData?.selectedDisplayText || null,
+        media_url: messageData.fileMessageData?.downloadUrl || null,
+        green_api_message_id: messageId || null,
+        webhook_type: webhookType,
+        raw_payload: body,
+        message_timestamp: timestamp ? new Date(timestamp * 1000).toISOString() : undefined,
+      });
+      storedMessageId = stored?.id || null;
 
-    // Handle incoming text message
-    if (body.messageData?.typeMessage === 'textMessage' || body.messageData?.textMessageData) {
-      const textMessage = body.messageData.textMessageData?.textMessage || 
-                         body.messageData.extendedTextMessageData?.text;
+      // Button replies trigger the action bound to the button in the template editor
+      // (webhook retries are rejected by the unique idMessage index, so actions run once)
+      if (stored && (buttonData || templateButtonData)) {
+        buttonAction = await handleButtonReply(supabaseAdmin, {
+          incomingMessageId: storedMessageId,
+          phone: phoneFromChatId(sender),
+          customerId: stored?.customer_id || null,
+          leadId: stored?.lead_id || null,
+          buttonId: buttonData?.selectedButtonId || templateButtonData?.selectedId || null,
+          buttonText: buttonData?.selectedButtonText || templateButtonData?.selectedDisplayText || null,
+          stanzaId: buttonData?.stanzaId || templateButtonData?.stanzaId || null,
+        });
+      }
+    }
 
-      // TODO: Add logic to handle incoming messages
-      // - Save to database
-      // - Auto-reply logic
-      // - Lead assignment
-      // etc.
+    // Delivery status of a message we sent (sent / delivered / read / failed)
+    let deliveryStatus: string | null = null;
+    if (webhookType === 'outgoingMessageStatus') {
+      deliveryStatus = await applyOutgoingMessageStatus(createSupabaseAdmin(), body);
     }
 
     // Return success response to Green API
     return successResponse({
       message: 'Webhook received and logged',
       webhookType,
+      storedMessageId,
+      buttonAction,
+      deliveryStatus,
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
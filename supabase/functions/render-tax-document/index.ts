@@ -0,0 +1,139 @@
+/**
+ * Render Tax Document Edge Function
+ *
+ * Renders the PDF of issued tax documents and stores it once in
+ * client-assets/tax-documents/{document_id}.pdf (an issued document's PDF is never replaced).
+ *
+ * POST { document_id } renders one document; POST {} renders documents still without a PDF.
+ *
+ * Called by the render_tax_document_pdf trigger right after a document is issued, with the
+ * service role key (see TAX_DOCUMENTS.md), and by the app when a document still has no PDF.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, verifyUser } from '../_shared/supabase.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { successResponse, errorResponse } from '../_shared/response.ts';
+import { renderTaxDocumentPdf, type TaxDocumentPdfInput } from '../_shared/taxDocumentPdf.ts';
+
+const STORAGE_BUCKET = 'client-assets';
+const BATCH_SIZE = 20;
+
+const TAX_DOCUMENT_SELECT = `
+  id, document_type, document_number, customer_name, customer_phone, customer_email, business,
+  description, payment_method, currency, total_amount, amount_before_vat, vat_rate, vat_amount,
+  issued_at, pdf_path,
+  original_document:original_document_id(document_type, document_number)
+`;
+
+type TaxDocumentRow = TaxDocumentPdfInput & { id: string; pdf_path: string | null };
+
+/**
+ * Render and store the PDF of a document without one. Returns the storage path.
+ */
+const renderAndStore = async (supabaseAdmin: SupabaseClient, document: TaxDocumentRow): Promise<string> => {
+  if (document.pdf_path) {
+    return document.pdf_path;
+  }
+
+  const pdfPath = `tax-documents/${document.id}.pdf`;
+  const file = await renderTaxDocumentPdf({
+    ...document,
+    total_amount: Number(document.total_amount),
+    amount_before_vat: Number(document.amount_before_vat),
+    vat_rate: Number(document.vat_rate),
+    vat_amount: Number(document.vat_amount),
+  });
+
+  // Uploaded once - if another call stored it meanwhile, the stored file is kept
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from(STORAGE_BUCKET)
+    .upload(pdfPath, file, { contentType: 'application/pdf' });
+  if (uploadError && !/already exists|duplicate/i.test(uploadError.message)) {
+    throw new Error(`Failed to store PDF: ${uploadError.message}`);
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('tax_documents')
+    .update({ pdf_path: pdfPath, pdf_generated_at: new Date().toISOString() })
+    .eq('id', document.id)
+    .is('pdf_path', null);
+  if (updateError) {
+    throw new Error(`Failed to save PDF path: ${updateError.message}`);
+  }
+
+  return pdfPath;
+};
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return errorResponse('Missing authorization header', 401);
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+
+    // The issuing trigger runs with the service role key; anyone else needs the payments permission
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const isServiceRole = !!serviceRoleKey && authHeader.replace('Bearer ', '') === serviceRoleKey;
+
+    if (!isServiceRole) {
+      const user = await verifyUser(authHeader);
+      if (!user) {
+        return errorResponse('Unauthorized', 401);
+      }
+
+      if (!(await hasPermission(supabaseAdmin, user.id, 'payments'))) {
+        return errorResponse('Unauthorized: You do not have permission to render tax documents', 403);
+      }
+    }
+
+    let body: { document_id?: string } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // No body: render pending documents
+    }
+
+    let query = supabaseAdmin.from('tax_documents').select(TAX_DOCUMENT_SELECT);
+    query = body.document_id
+      ? query.eq('id', body.document_id)
+      : query.is('pdf_path', null).order('issued_at', { ascending: true }).limit(BATCH_SIZE);
+
+    const { data: documents, error: loadError } = await query;
+    if (loadError) {
+      return errorResponse(`Failed to load tax documents: ${loadError.message}`, 500);
+    }
+
+    if (body.document_id && (!documents || documents.length === 0)) {
+      return errorResponse('Tax document not found', 404);
+    }
+
+    const rendered: Array<{ id: string; pdf_path: string }> = [];
+    const failed: Array<{ id: string; error: string }> = [];
+
+    for (const document of (documents || []) as unknown as TaxDocumentRow[]) {
+      try {
+        rendered.push({ id: document.id, pdf_path: await renderAndStore(supabaseAdmin, document) });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[render-tax-document] Failed to render ${document.id}:`, message);
+        failed.push({ id: document.id, error: message });
+      }
+    }
+
+    if (body.document_id && failed.length > 0) {
+      return errorResponse(failed[0].error, 500);
+    }
+
+    return successResponse({ rendered, failed });
+  } catch (error) {
+    return errorResponse(error instanceof Error ? error.message : 'Internal server error', 500);
+  }
+});
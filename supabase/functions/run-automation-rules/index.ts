@@ -0,0 +1,190 @@
+/**
+ * Run Automation Rules Edge Function
+ *
+ * Executes whatsapp_automation_rules:
+ * - Event triggers (lead status change, payment paid, budget assigned) are queued in
+ *   automation_rule_events by table triggers and processed here
+ * - Time-based triggers (no check-in for N days, subscription expiring) are evaluated
+ *   during TIME_BASED_SEND_HOUR (Israel time)
+ *
+ * Matching rules queue their flow in scheduled_messages (sent by process-scheduled-messages).
+ * Called every minute by pg_cron with the service role key (see AUTOMATION_RULES.md),
+ * or manually by staff.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, verifyUser } from '../_shared/supabase.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { successResponse, errorResponse } from '../_shared/response.ts';
+import {
+  runAutomationRules,
+  loadActiveRules,
+  type AutomationRule,
+  type AutomationTriggerType,
+} from '../_shared/automationRules.ts';
+
+const EVENT_BATCH_SIZE = 50;
+
+// Time-based rules are evaluated during this hour only (Asia/Jerusalem)
+const TIME_BASED_SEND_HOUR = 9;
+
+interface AutomationRuleEvent {
+  id: string;
+  trigger_type: AutomationTriggerType;
+  lead_id: string | null;
+  customer_id: string | null;
+  payload: Record<string, unknown>;
+}
+
+function getIsraelHour(): number {
+  return Number(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: 'Asia/Jerusalem',
+      hour: 'numeric',
+      hourCycle: 'h23',
+    }).format(new Date())
+  );
+}
+
+/**
+ * Evaluate a time-based rule against the leads it currently applies to
+ */
+async function runTimeBasedRule(
+  supabaseAdmin: ReturnType<typeof createSupabaseAdmin>,
+  rule: AutomationRule
+): Promise<Record<string, number>> {
+  const counts = { queued: 0, skipped: 0, failed: 0 };
+  const days = Number(rule.trigger_config?.days);
+  if (!Number.isFinite(days) || days < 0) {
+    return counts;
+  }
+
+  const { data, error } = rule.trigger_type === 'no_check_in'
+    ? await supabaseAdmin.rpc('find_leads_without_check_in', { p_days: days })
+    : await supabaseAdmin.rpc('find_leads_with_expiring_subscription', { p_days: days });
+
+  if (error || !data) {
+    return counts;
+  }
+
+  // Fire once per check-in gap / per expiration date
+  const rows = (data as Array<Record<string, string | null>>).map((row) => ({
+    ...row,
+    dedupeKey: rule.trigger_type === 'no_check_in'
+      ? `no_check_in:${row.lead_id}:${row.last_check_in_date || 'never'}`
+      : `subscription_expiring:${row.lead_id}:${row.expiration_date}`,
+  }));
+  if (rows.length === 0) {
+    return counts;
+  }
+
+  // Skip leads this rule already ran for (the cron runs every minute)
+  const { data: existingRuns } = await supabaseAdmin
+    .from('automation_rule_runs')
+    .select('dedupe_key')
+    .eq('rule_id', rule.id)
+    .in('dedupe_key', rows.map((row) => row.dedupeKey));
+  const alreadyRan = new Set((existingRuns || []).map((run) => run.dedupe_key));
+
+  for (const row of rows) {
+    if (alreadyRan.has(row.dedupeKey)) {
+      continue;
+    }
+
+    const result = await runAutomationRules(
+      supabaseAdmin,
+      {
+        triggerType: rule.trigger_type,
+        leadId: row.lead_id,
+        customerId: row.customer_id,
+        payload: { days, last_check_in_date: row.last_check_in_date, expiration_date: row.expiration_date },
+        dedupeKey: row.dedupeKey,
+      },
+      [rule]
+    );
+
+    counts.queued += result.queued;
+    counts.skipped += result.skipped;
+    counts.failed += result.failed;
+  }
+
+  return counts;
+}
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return errorResponse('Missing authorization header', 401);
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+
+    // Cron runs with the service role key; anyone else needs the messaging permission
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const isServiceRole = !!serviceRoleKey && authHeader.replace('Bearer ', '') === serviceRoleKey;
+
+    if (!isServiceRole) {
+      const user = await verifyUser(authHeader);
+      if (!user) {
+        return errorResponse('Unauthorized', 401);
+      }
+
+      if (!(await hasPermission(supabaseAdmin, user.id, 'messaging'))) {
+        return errorResponse('Unauthorized: You do not have permission to run automation rules', 403);
+      }
+    }
+
+    const totals = { events: 0, queued: 0, skipped: 0, failed: 0 };
+
+    // 1. Event triggers
+    const { data: events, error: claimError } = await supabaseAdmin
+      .rpc('claim_automation_rule_events', { p_limit: EVENT_BATCH_SIZE });
+
+    if (claimError) {
+      return errorResponse(`Failed to claim automation events: ${claimError.message}`, 500);
+    }
+
+    for (const event of (events || []) as AutomationRuleEvent[]) {
+      const result = await runAutomationRules(supabaseAdmin, {
+        triggerType: event.trigger_type,
+        leadId: event.lead_id,
+        customerId: event.customer_id,
+        payload: event.payload || {},
+        eventId: event.id,
+        dedupeKey: `event:${event.id}`,
+      });
+
+      totals.events++;
+      totals.queued += result.queued;
+      totals.skipped += result.skipped;
+      totals.failed += result.failed;
+    }
+
+    // 2. Time-based triggers (dedupe keys make repeated runs during the hour a no-op)
+    if (getIsraelHour() === TIME_BASED_SEND_HOUR) {
+      const timeBasedRules = [
+        ...(await loadActiveRules(supabaseAdmin, 'no_check_in')),
+        ...(await loadActiveRules(supabaseAdmin, 'subscription_expiring')),
+      ];
+
+      for (const rule of timeBasedRules) {
+        const result = await runTimeBasedRule(supabaseAdmin, rule);
+        totals.queued += result.queued;
+        totals.skipped += result.skipped;
+        totals.failed += result.failed;
+      }
+    }
+
+    return successResponse(totals);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+});
@@ -0,0 +1,244 @@
+/**
+ * Send Meeting Reminders Edge Function
+ *
+ * Sends WhatsApp reminders to leads before their meetings:
+ * - meeting_reminder_24h: 24 hours before (skipped when the meeting starts within the hour,
+ *   or was booked less than 24 hours ahead)
+ * - meeting_reminder_1h: 1 hour before
+ * The templates are the flows of the same keys (WhatsApp automations page). Messages go out through
+ * send-whatsapp-message so they land in the conversation history like any other message.
+ *
+ * Each reminder is sent once per meeting (meetings.reminder_24h_sent_at / reminder_1h_sent_at).
+ * Cancelled meetings, meetings that already have an attendance status and trainees who turned
+ * meeting reminders off (customers.meeting_reminders_enabled) are skipped.
+ *
+ * Called every 10 minutes by pg_cron with the service role key (see MEETING_REMINDERS.md),
+ * or manually by staff.
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { handleCors } from '../_shared/cors.ts';
+import { createSupabaseAdmin, verifyUser } from '../_shared/supabase.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+import { successResponse, errorResponse } from '../_shared/response.ts';
+import {
+  isAutomationFlowActive,
+  loadFlowTemplate,
+  renderFlowTemplate,
+  type FlowTemplate,
+} from '../_shared/automationFlows.ts';
+import { buildMeetingPlaceholders, type PlaceholderLead } from '../_shared/templateRenderer.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+const CANCELLED_STATUSES = ['בוטל', 'מבוטל'];
+const SEND_PAUSE_MS = 1000; // Pause between two sends (Green API rate limit)
+
+interface ReminderConfig {
+  flowKey: string;
+  column: 'reminder_24h_sent_at' | 'reminder_1h_sent_at';
+  leadTimeMs: number;
+  // Meetings starting sooner than this are left to the next (shorter) reminder
+  minLeadTimeMs: number;
+}
+
+const REMINDERS: ReminderConfig[] = [
+  { flowKey: 'meeting_reminder_24h', column: 'reminder_24h_sent_at', leadTimeMs: 24 * HOUR_MS, minLeadTimeMs: HOUR_MS },
+  { flowKey: 'meeting_reminder_1h', column: 'reminder_1h_sent_at', leadTimeMs: HOUR_MS, minLeadTimeMs: 0 },
+];
+
+interface ReminderCustomer {
+  id: string;
+  full_name: string | null;
+  phone: string | null;
+  email: string | null;
+  meeting_reminders_enabled: boolean | null;
+}
+
+interface ReminderMeetingRow {
+  id: string;
+  lead_id: string | null;
+  customer_id: string | null;
+  owner_id: string | null;
+  start_time: string;
+  created_at: string;
+  meeting_type: string | null;
+  location: string | null;
+  video_link: string | null;
+  status: string | null;
+  customer: ReminderCustomer | null;
+  lead: (PlaceholderLead & { assigned_to: string | null; customer: ReminderCustomer | null }) | null;
+  owner: { full_name: string | null; email: string } | null;
+}
+
+/**
+ * Send through the send-whatsapp-message function with the service role key
+ */
+const sendWhatsAppMessage = async (payload: Record<string, unknown>): Promise<string | null> => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL') || '';
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || '';
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-whatsapp-message`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${serviceRoleKey}`,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  if (response.ok) {
+    return null;
+  }
+
+  const result = await response.json().catch(() => ({}));
+  return result.error || `send-whatsapp-message returned ${response.status}`;
+};
+
+const processReminder = async (
+  supabaseAdmin: SupabaseClient,
+  reminder: ReminderConfig,
+  totals: { sent: number; skipped: number; failed: number }
+) => {
+  if (!(await isAutomationFlowActive(supabaseAdmin, reminder.flowKey))) {
+    return;
+  }
+
+  const now = Date.now();
+  const { data, error } = await supabaseAdmin
+    .from('meetings')
+    .select(`
+      id, lead_id, customer_id, owner_id, start_time, created_at, meeting_type, location, video_link, status,
+      customer:customers(id, full_name, phone, email, meeting_reminders_enabled),
+      lead:leads(*, customer:customers(id, full_name, phone, email, meeting_reminders_enabled)),
+      owner:profiles(full_name, email)
+    `)
+    .is(reminder.column, null)
+    .is('attendance_status', null)
+    .gt('start_time', new Date(now + reminder.minLeadTimeMs).toISOString())
+    .lte('start_time', new Date(now + reminder.leadTimeMs).toISOString())
+    .order('start_time', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load meetings for ${reminder.flowKey}: ${error.message}`);
+  }
+
+  const templates = new Map<string, FlowTemplate | null>();
+
+  for (const meeting of (data || []) as unknown as ReminderMeetingRow[]) {
+    const startMs = new Date(meeting.start_time).getTime();
+    const bookedTooLate = new Date(meeting.created_at).getTime() > startMs - reminder.leadTimeMs;
+    const customer = meeting.customer || meeting.lead?.customer || null;
+
+    const remindersDisabled = customer?.meeting_reminders_enabled === false;
+
+    if (CANCELLED_STATUSES.includes(meeting.status || '') || bookedTooLate || !customer?.phone || remindersDisabled) {
+      totals.skipped++;
+      continue;
+    }
+
+    // The coach's own copy of the template when the meeting has an owner
+    const coachId = meeting.owner_id || meeting.lead?.assigned_to || null;
+    const templateKey = coachId || '';
+    if (!templates.has(templateKey)) {
+      templates.set(templateKey, await loadFlowTemplate(supabaseAdmin, reminder.flowKey, coachId));
+    }
+    const template = templates.get(templateKey);
+    if (!template || !template.template_content?.trim()) {
+      totals.skipped++;
+      continue;
+    }
+
+    // Claim the reminder first so overlapping runs don't send it twice
+    const { data: claimed } = await supabaseAdmin
+      .from('meetings')
+      .update({ [reminder.column]: new Date().toISOString() })
+      .eq('id', meeting.id)
+      .is(reminder.column, null)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      continue;
+    }
+
+    const { message, buttons, media } = renderFlowTemplate(
+      template,
+      customer,
+      meeting.lead,
+      buildMeetingPlaceholders({
+        ...meeting,
+        owner_name: meeting.owner?.full_name || meeting.owner?.email || null,
+      })
+    );
+
+    if (totals.sent + totals.failed > 0) {
+      await new Promise((resolve) => setTimeout(resolve, SEND_PAUSE_MS));
+    }
+
+    let sendError: string | null;
+    try {
+      sendError = await sendWhatsAppMessage({
+        phoneNumber: customer.phone,
+        message,
+        buttons: buttons.length > 0 ? buttons : undefined,
+        media: media || undefined,
+        customerId: customer.id,
+        leadId: meeting.lead_id,
+        flowKey: reminder.flowKey,
+      });
+    } catch (error) {
+      sendError = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    if (sendError) {
+      // Release the claim so the next run retries (while the meeting is still in the window)
+      console.error(`[send-meeting-reminders] ${reminder.flowKey} failed for meeting ${meeting.id}:`, sendError);
+      await supabaseAdmin.from('meetings').update({ [reminder.column]: null }).eq('id', meeting.id);
+      totals.failed++;
+    } else {
+      totals.sent++;
+    }
+  }
+};
+
+serve(async (req) => {
+  const corsResponse = handleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return errorResponse('Missing authorization header', 401);
+    }
+
+    const supabaseAdmin = createSupabaseAdmin();
+
+    // Cron runs with the service role key; anyone else needs the meetings permission
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const isServiceRole = !!serviceRoleKey && authHeader.replace('Bearer ', '') === serviceRoleKey;
+
+    if (!isServiceRole) {
+      const user = await verifyUser(authHeader);
+      if (!user) {
+        return errorResponse('Unauthorized', 401);
+      }
+
+      if (!(await hasPermission(supabaseAdmin, user.id, 'meetings'))) {
+        return errorResponse('Unauthorized: You do not have permission to send meeting reminders', 403);
+      }
+    }
+
+    const totals = { sent: 0, skipped: 0, failed: 0 };
+
+    for (const reminder of REMINDERS) {
+      await processReminder(supabaseAdmin, reminder, totals);
+    }
+
+    return successResponse(totals);
+  } catch (error) {
+    return errorResponse(
+      error instanceof Error ? error.message : 'Internal server error',
+      500
+    );
+  }
+});
@@ -6,8 +6,40 @@ import { handleCors } from '../_shared/cors.ts';
 import { createSupabaseClient, createSupabaseAdmin } from '../_shared/supabase.ts';
 import { successResponse, errorResponse } from '../_shared/response.ts';
 import { parseJsonBody, getChatId } from '../_shared/utils.ts';
+import { recordWhatsAppMessage, phoneFromChatId } from '../_shared/whatsappMessages.ts';
+import { hasPermission } from '../_shared/permissions.ts';
 import type { SendMessageRequest } from '../_shared/types.ts';
 
+interface OutgoingMessageContext {
+  chatId: string;
+  message: string;
+  buttons?: Array<{ id: string; text: string }>;
+  media?: { type: 'image' | 'video' | 'gif'; url: string };
+  customerId?: string | null;
+  leadId?: string | null;
+  flowKey?: string | null;
+  sentBy: string | null;
+}
+
+/**
+ * Store a successfully queued outgoing message in the conversation history
+ */
+async function recordOutgoingMessage(context: OutgoingMessageContext, data: { idMessage?: string }) {
+  await recordWhatsAppMessage(createSupabaseAdmin(), {
+    direction: 'outgoing',
+    phone: phoneFromChatId(context.chatId),
+    customer_id: context.customerId || null,
+    lead_id: context.leadId || null,
+    message_type: context.media ? `${context.media.type}Message` : context.buttons?.length ? 'buttonsMessage' : 'textMessage',
+    body: context.message || null,
+    media_url: context.media?.url || null,
+    green_api_message_id: data?.idMessage || null,
+    raw_payload: context.buttons?.length ? { buttons: context.buttons } : {},
+    flow_key: context.flowKey || null,
+    sent_by: context.sentBy,
+  });
+}
+
 /**
  * Handle media message sending
  */
@@ -16,7 +48,8 @@ async function handleMediaMessage(
   apiTokenInstance: string,
   chatId: string,
   caption: string,
-  media: { type: 'image' | 'video' | 'gif'; url: string }
+  media: { type: 'image' | 'video' | 'gif'; url: string },
+  logContext: OutgoingMessageContext
 ) {
   let mediaUrl = media.url;
   const mediaType = media.type;
@@ -245,6 +278,7 @@ async function handleMediaMessage(
   }
   
   // Success - message was sent (idMessage confirms it was queued)
+  await recordOutgoingMessage(logContext, data);
   return successResponse(data);
 }
 
@@ -323,15 +357,24 @@ serve(async (req) => {
       return errorResponse('Missing authorization header', 401);
     }
 
-    // Verify the requesting user is authenticated
-    const supabaseClient = createSupabaseClient(authHeader);
-    const {
-      data: { user },
-      error: authError,
-    } = await supabaseClient.auth.getUser();
+    // Other edge functions (e.g. send-meeting-reminders) call with the service role key
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    const isServiceRole = !!serviceRoleKey && authHeader.replace('Bearer ', '') === serviceRoleKey;
+
+    let senderId: string | null = null;
+    if (!isServiceRole) {
+      // Verify the requesting user is authenticated
+      const supabaseClient = createSupabaseClient(authHeader);
+      const {
+        data: { user },
+        error: authError,
+      } = await supabaseClient.auth.getUser();
+
+      if (authError || !user) {
+        return errorResponse('Unauthorized', 401);
+      }
 
-    if (authError || !user) {
-      return errorResponse('Unauthorized', 401);
+      senderId = user.id;
     }
 
     // Check WhatsApp instance state before sending
@@ -403,7 +446,18 @@ serve(async (req) => {
       return errorResponse('Request body is required', 400);
     }
 
-    const { phoneNumber, message, buttons, footer, media } = body;
+    const { phoneNumber, message, buttons, footer, media, customerId, leadId, flowKey, purpose } = body;
+
+    // Payment links and tax documents can be sent with the payments permission (sales has no messaging)
+    if (senderId) {
+      const supabaseAdmin = createSupabaseAdmin();
+      const canSend =
+        (await hasPermission(supabaseAdmin, senderId, 'messaging')) ||
+        (purpose === 'payment' && (await hasPermission(supabaseAdmin, senderId, 'payments')));
+      if (!canSend) {
+        return errorResponse('Unauthorized: You do not have permission to send WhatsApp messages', 403);
+      }
+    }
 
     if (!phoneNumber) {
       return errorResponse('phoneNumber is required', 400);
@@ -425,9 +479,20 @@ serve(async (req) => {
       return errorResponse(`Invalid phone number format. Got chatId: ${chatId}`, 400);
     }
 
+    const logContext: OutgoingMessageContext = {
+      chatId,
+      message,
+      buttons,
+      media,
+      customerId,
+      leadId,
+      flowKey,
+      sentBy: senderId,
+    };
+
     // Handle media messages
     if (media?.url) {
-      return await handleMediaMessage(finalIdInstance, finalApiTokenInstance, chatId, message || '', media);
+      return await handleMediaMessage(finalIdInstance, finalApiTokenInstance, chatId, message || '', media, logContext);
     }
 
     // If buttons are provided, use SendButtons endpoint
@@ -543,6 +608,7 @@ serve(async (req) => {
       }
       
       // Success - message was sent (idMessage confirms it was queued)
+      await recordOutgoingMessage(logContext, data);
       return successResponse(data);
     } else {
       // Use standard sendMessage endpoint
@@ -638,6 +704,7 @@ serve(async (req) => {
       }
       
       // Success - message was sent (idMessage confirms it was queued)
+      await recordOutgoingMessage(logContext, data);
       return successResponse(data);
     }
   } catch (error: any) {
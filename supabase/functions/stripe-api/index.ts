@@ -2,6 +2,7 @@
  * Stripe API Edge Function
  * 
  * Proxies Stripe API requests to keep secret key secure on server-side
+ * Also creates / cancels the Stripe subscriptions that bill installment plans (see INSTALLMENTS.md)
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
@@ -9,6 +10,21 @@ import { handleCors, corsHeaders } from '../_shared/cors.ts';
 import { createSupabaseAdmin, verifyUser } from '../_shared/supabase.ts';
 import { successResponse, errorResponse } from '../_shared/response.ts';
 import { parseJsonBody } from '../_shared/utils.ts';
+import { createPaymentLink, stripeRequest } from '../_shared/stripe.ts';
+import { hasPermission } from '../_shared/permissions.ts';
+
+const INVOICE_DAYS_UNTIL_DUE = 7;
+
+// Unix timestamp N weeks / months after the given one
+const addInterval = (timestamp: number, unit: 'weeks' | 'months', count: number) => {
+  const date = new Date(timestamp * 1000);
+  if (unit === 'weeks') {
+    date.setUTCDate(date.getUTCDate() + count * 7);
+  } else {
+    date.setUTCMonth(date.getUTCMonth() + count);
+  }
+  return Math.floor(date.getTime() / 1000);
+};
 
 serve(async (req) => {
   // Handle CORS preflight - MUST be first
@@ -36,6 +52,10 @@ serve(async (req) => {
       return errorResponse('Unauthorized', 401);
     }
 
+    if (!(await hasPermission(createSupabaseAdmin(), user.id, 'payments'))) {
+      return errorResponse('Unauthorized: Only staff with access to payments can use Stripe', 403);
+    }
+
     // Get Stripe secret key from server-side environment (NO VITE_ prefix)
     // Priority 1: Try Supabase secrets (production) or env vars (local dev with --env-file)
     let stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY');
@@ -177,51 +197,149 @@ serve(async (req) => {
           return errorResponse('Either priceId or (amount and currency) are required', 400);
         }
 
-        // Create payment link
-        const formData = new URLSearchParams();
-        
-        if (priceId) {
-          formData.append('line_items[0][price]', priceId);
-          formData.append('line_items[0][quantity]', '1');
-        } else {
-          formData.append('line_items[0][price_data][currency]', currency.toLowerCase());
-          formData.append('line_items[0][price_data][unit_amount]', String(amount));
-          formData.append('line_items[0][price_data][product_data][name]', productName || 'Payment');
-          if (description) {
-            formData.append('line_items[0][price_data][product_data][description]', description);
+        try {
+          const link = await createPaymentLink(stripeSecretKey, {
+            priceId,
+            amount,
+            currency,
+            productName,
+            description,
+            metadata,
+          });
+          return successResponse(link);
+        } catch (linkError) {
+          return errorResponse(
+            linkError instanceof Error ? linkError.message : 'Failed to create payment link',
+            500
+          );
+        }
+      }
+
+      case 'createInstallmentSubscription':
+      case 'cancelInstallmentSubscription': {
+        const { planId } = params;
+        if (!planId) {
+          return errorResponse('Missing required field: planId', 400);
+        }
+
+        const supabaseAdmin = createSupabaseAdmin();
+
+        const { data: plan, error: planError } = await supabaseAdmin
+          .from('installment_plans')
+          .select('*, customer:customers(id, full_name, email, phone), installments:payment_installments(installment_number, amount)')
+          .eq('id', planId)
+          .single();
+
+        if (planError || !plan) {
+          return errorResponse('Installment plan not found', 404);
+        }
+
+        if (action === 'cancelInstallmentSubscription') {
+          if (plan.stripe_subscription_id) {
+            await stripeRequest(stripeSecretKey, `subscriptions/${plan.stripe_subscription_id}`, 'DELETE');
           }
-          formData.append('line_items[0][quantity]', '1');
+          return successResponse({ subscriptionId: plan.stripe_subscription_id });
         }
 
-        // Add metadata if provided
-        if (metadata) {
-          Object.entries(metadata).forEach(([key, value]) => {
-            formData.append(`metadata[${key}]`, String(value));
-          });
+        if (plan.billing_method !== 'stripe' || plan.status !== 'פעיל') {
+          return errorResponse('Only active Stripe installment plans can be billed through Stripe', 400);
+        }
+        if (plan.stripe_subscription_id) {
+          return errorResponse('A Stripe subscription already exists for this plan', 409);
         }
 
-        const response = await fetch('https://api.stripe.com/v1/payment_links', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${stripeSecretKey}`,
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-          body: formData.toString(),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          return errorResponse(
-            errorData.error?.message || `HTTP error! status: ${response.status}`,
-            response.status
-          );
+        const installments = [...((plan.installments || []) as { installment_number: number; amount: number }[])].sort(
+          (a, b) => a.installment_number - b.installment_number
+        );
+        if (installments.length === 0) {
+          return errorResponse('Installment plan has no installments', 400);
+        }
+
+        const currency = String(plan.currency || 'ILS').toLowerCase();
+        const recurringAgorot = Math.round(Number(installments[installments.length - 1].amount) * 100);
+        const firstDifference = Math.round(Number(installments[0].amount) * 100) - recurringAgorot;
+
+        // Stripe customer
+        let stripeCustomerId = plan.stripe_customer_id;
+        if (!stripeCustomerId) {
+          const customerForm = new URLSearchParams();
+          if (plan.customer?.full_name) customerForm.append('name', plan.customer.full_name);
+          if (plan.customer?.email) customerForm.append('email', plan.customer.email);
+          if (plan.customer?.phone) customerForm.append('phone', plan.customer.phone);
+          if (plan.customer_id) customerForm.append('metadata[customer_id]', plan.customer_id);
+          customerForm.append('metadata[lead_id]', plan.lead_id);
+          const stripeCustomer = await stripeRequest(stripeSecretKey, 'customers', 'POST', customerForm);
+          stripeCustomerId = stripeCustomer.id;
+        }
+
+        // Recurring price for the installment amount
+        const priceForm = new URLSearchParams();
+        priceForm.append('currency', currency);
+        priceForm.append('unit_amount', String(recurringAgorot));
+        priceForm.append('recurring[interval]', plan.interval_unit === 'weeks' ? 'week' : 'month');
+        priceForm.append('product_data[name]', plan.subscription_name);
+        const price = await stripeRequest(stripeSecretKey, 'prices', 'POST', priceForm);
+
+        // Invoices are sent to the customer (hosted payment page) every period, from the start
+        // date until all installments were billed
+        const now = Math.floor(Date.now() / 1000);
+        const startTimestamp = Math.floor(Date.parse(`${plan.start_date}T09:00:00Z`) / 1000);
+        const billingStart = startTimestamp > now + 60 ? startTimestamp : now;
+
+        const subscriptionForm = new URLSearchParams();
+        subscriptionForm.append('customer', stripeCustomerId);
+        subscriptionForm.append('items[0][price]', price.id);
+        subscriptionForm.append('collection_method', 'send_invoice');
+        subscriptionForm.append('days_until_due', String(INVOICE_DAYS_UNTIL_DUE));
+        subscriptionForm.append('proration_behavior', 'none');
+        subscriptionForm.append('cancel_at', String(addInterval(billingStart, plan.interval_unit, installments.length)));
+        const hasTrial = billingStart !== now;
+        if (hasTrial) {
+          subscriptionForm.append('trial_end', String(billingStart));
+        }
+        if (firstDifference > 0 && !hasTrial) {
+          // Rounding difference of the first installment (see utils/installments.ts)
+          subscriptionForm.append('add_invoice_items[0][price_data][currency]', currency);
+          subscriptionForm.append('add_invoice_items[0][price_data][product]', price.product || '');
+          subscriptionForm.append('add_invoice_items[0][price_data][unit_amount]', String(firstDifference));
+        }
+        subscriptionForm.append('metadata[installment_plan_id]', plan.id);
+        subscriptionForm.append('metadata[lead_id]', plan.lead_id);
+        if (plan.customer_id) subscriptionForm.append('metadata[customer_id]', plan.customer_id);
+
+        const subscription = await stripeRequest(stripeSecretKey, 'subscriptions', 'POST', subscriptionForm);
+
+        // With a trial, add_invoice_items would land on the $0 invoice Stripe issues at creation.
+        // A pending invoice item is picked up by the subscription's next invoice - the first real one.
+        if (firstDifference > 0 && hasTrial) {
+          const itemForm = new URLSearchParams();
+          itemForm.append('customer', stripeCustomerId);
+          itemForm.append('subscription', subscription.id);
+          itemForm.append('price_data[currency]', currency);
+          itemForm.append('price_data[product]', price.product || '');
+          itemForm.append('price_data[unit_amount]', String(firstDifference));
+          try {
+            await stripeRequest(stripeSecretKey, 'invoiceitems', 'POST', itemForm);
+          } catch (error) {
+            // Don't leave a subscription that would under-bill the first installment
+            await stripeRequest(stripeSecretKey, `subscriptions/${subscription.id}`, 'DELETE').catch(() => {});
+            throw error;
+          }
+        }
+
+        const { error: updateError } = await supabaseAdmin
+          .from('installment_plans')
+          .update({
+            stripe_customer_id: stripeCustomerId,
+            stripe_subscription_id: subscription.id,
+          })
+          .eq('id', plan.id);
+
+        if (updateError) {
+          return errorResponse(`Stripe subscription created but not saved: ${updateError.message}`, 500);
         }
 
-        const data = await response.json();
-        return successResponse({
-          paymentUrl: data.url,
-          paymentLinkId: data.id,
-        });
+        return successResponse({ subscriptionId: subscription.id });
       }
 
       default:
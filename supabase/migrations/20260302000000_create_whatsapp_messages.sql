@@ -0,0 +1,172 @@
+-- =====================================================
+-- Create WhatsApp Messages (Conversation) Table
+-- Created: 2026-03-02
+-- Description: Stores incoming and outgoing WhatsApp messages exchanged via Green API
+--              Messages are matched to customers/leads by normalized phone number
+-- =====================================================
+
+-- Normalize a phone number the same way the frontend/edge functions do before calling Green API
+-- (mirrors formatPhoneNumber in _shared/utils.ts and greenApiService.ts)
+CREATE OR REPLACE FUNCTION public.normalize_whatsapp_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+    formatted TEXT;
+BEGIN
+    IF p_phone IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- Strip Green API chat suffix (e.g. 972501234567@c.us) and formatting characters
+    formatted := split_part(p_phone, '@', 1);
+    formatted := regexp_replace(formatted, '[\s\-\(\)]', '', 'g');
+
+    IF left(formatted, 1) = '+' THEN
+        formatted := substring(formatted FROM 2);
+    END IF;
+
+    IF left(formatted, 1) = '0' THEN
+        formatted := '972' || substring(formatted FROM 2);
+    END IF;
+
+    IF left(formatted, 3) <> '972' AND length(formatted) = 9 THEN
+        formatted := '972' || formatted;
+    END IF;
+
+    RETURN formatted;
+END;
+$$;
+
+-- Find the customer (and their most recent lead) for a WhatsApp phone number
+CREATE OR REPLACE FUNCTION public.find_customer_by_whatsapp_phone(p_phone TEXT)
+RETURNS TABLE (customer_id UUID, lead_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        c.id AS customer_id,
+        (
+            SELECT l.id
+            FROM public.leads l
+            WHERE l.customer_id = c.id
+            ORDER BY l.created_at DESC
+            LIMIT 1
+        ) AS lead_id
+    FROM public.customers c
+    WHERE public.normalize_whatsapp_phone(c.phone) = public.normalize_whatsapp_phone(p_phone)
+    ORDER BY c.created_at DESC
+    LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.normalize_whatsapp_phone(TEXT) TO authenticated;
+-- Only edge functions (service role) match incoming messages to customers
+REVOKE EXECUTE ON FUNCTION public.find_customer_by_whatsapp_phone(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_customer_by_whatsapp_phone(TEXT) TO service_role;
+
+-- Create whatsapp_messages table
+CREATE TABLE IF NOT EXISTS public.whatsapp_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    direction TEXT NOT NULL CHECK (direction IN ('incoming', 'outgoing')),
+    phone TEXT NOT NULL,
+    sender_name TEXT,
+    message_type TEXT NOT NULL DEFAULT 'textMessage',
+    body TEXT,
+    button_id TEXT,
+    button_text TEXT,
+    media_url TEXT,
+    green_api_message_id TEXT,
+    webhook_type TEXT,
+    raw_payload JSONB DEFAULT '{}'::jsonb,
+    sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    is_read BOOLEAN NOT NULL DEFAULT FALSE,
+    message_timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for efficient queries
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_customer_id ON public.whatsapp_messages(customer_id, message_timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_lead_id ON public.whatsapp_messages(lead_id);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_phone ON public.whatsapp_messages(phone, message_timestamp DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_messages_green_api_id
+    ON public.whatsapp_messages(green_api_message_id, direction)
+    WHERE green_api_message_id IS NOT NULL;
+
+-- Normalize phone on write so threads group consistently regardless of input format
+CREATE OR REPLACE FUNCTION public.normalize_whatsapp_message_phone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.phone := public.normalize_whatsapp_phone(NEW.phone);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS normalize_whatsapp_message_phone ON public.whatsapp_messages;
+CREATE TRIGGER normalize_whatsapp_message_phone
+    BEFORE INSERT OR UPDATE OF phone ON public.whatsapp_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.normalize_whatsapp_message_phone();
+
+-- Enable RLS on whatsapp_messages table
+ALTER TABLE public.whatsapp_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for whatsapp_messages
+-- Staff (admin/user) can read the conversation history
+DROP POLICY IF EXISTS "Staff can read whatsapp messages" ON public.whatsapp_messages;
+CREATE POLICY "Staff can read whatsapp messages"
+    ON public.whatsapp_messages FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+-- Staff can mark messages as read
+DROP POLICY IF EXISTS "Staff can update whatsapp messages" ON public.whatsapp_messages;
+CREATE POLICY "Staff can update whatsapp messages"
+    ON public.whatsapp_messages FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+-- Inserts happen from edge functions using the service role (bypasses RLS)
+
+-- Enable realtime so open chat panels update when a reply arrives
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.whatsapp_messages;
+    END IF;
+EXCEPTION
+    WHEN duplicate_object THEN NULL;
+END;
+$$;
+
+-- Add comments
+COMMENT ON TABLE public.whatsapp_messages IS 'WhatsApp conversation history (incoming webhooks and outgoing sends via Green API)';
+COMMENT ON COLUMN public.whatsapp_messages.direction IS 'incoming (from client) or outgoing (sent by coach/automation)';
+COMMENT ON COLUMN public.whatsapp_messages.phone IS 'Phone number normalized with normalize_whatsapp_phone (e.g. 972501234567)';
+COMMENT ON COLUMN public.whatsapp_messages.message_type IS 'Green API typeMessage (textMessage, extendedTextMessage, buttonsResponseMessage, imageMessage, ...)';
+COMMENT ON COLUMN public.whatsapp_messages.green_api_message_id IS 'Green API idMessage';
+COMMENT ON COLUMN public.whatsapp_messages.sent_by IS 'User who sent an outgoing message (NULL for automations/webhooks)';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
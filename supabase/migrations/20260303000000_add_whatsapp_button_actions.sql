@@ -0,0 +1,30 @@
+-- =====================================================
+-- Add WhatsApp Button Actions Tracking
+-- Created: 2026-03-03
+-- Description: Links outgoing messages to the flow template they were rendered from,
+--              so interactive button replies can run the action configured on the button
+--              (status change, meeting, follow-up template, coach notification)
+-- =====================================================
+
+ALTER TABLE public.whatsapp_messages
+    ADD COLUMN IF NOT EXISTS flow_key TEXT,
+    ADD COLUMN IF NOT EXISTS button_action TEXT,
+    ADD COLUMN IF NOT EXISTS button_action_status TEXT
+        CHECK (button_action_status IS NULL OR button_action_status IN ('completed', 'failed', 'skipped')),
+    ADD COLUMN IF NOT EXISTS button_action_result JSONB;
+
+-- Replies are matched to the message they answer by Green API idMessage (stanzaId),
+-- falling back to the latest flow message sent to the same phone
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_phone_flow
+    ON public.whatsapp_messages(phone, message_timestamp DESC)
+    WHERE direction = 'outgoing' AND flow_key IS NOT NULL;
+
+-- Add comments
+COMMENT ON COLUMN public.whatsapp_messages.flow_key IS 'whatsapp_flow_templates.flow_key the message was rendered from (outgoing) or replied to (incoming)';
+COMMENT ON COLUMN public.whatsapp_messages.button_action IS 'Action bound to the pressed button (reply, status, meeting, flow, notify, url, none)';
+COMMENT ON COLUMN public.whatsapp_messages.button_action_status IS 'Outcome of the button action: completed, failed or skipped';
+COMMENT ON COLUMN public.whatsapp_messages.button_action_result IS 'Details or error returned by the button action';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
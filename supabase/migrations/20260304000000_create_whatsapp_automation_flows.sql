@@ -0,0 +1,101 @@
+-- =====================================================
+-- Create WhatsApp Automation Flows Table
+-- Created: 2026-03-04
+-- Description: Flow definitions (key + label) shared by all coaches
+--              Previously kept per-browser in localStorage (custom_automation_flows,
+--              deleted_default_automation_flows)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_automation_flows (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    flow_key TEXT NOT NULL UNIQUE, -- Matches whatsapp_flow_templates.flow_key
+    label TEXT NOT NULL,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE, -- Built-in flow (deleting hides it instead of removing the row)
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_automation_flows_active ON public.whatsapp_automation_flows(is_active);
+
+-- Seed the built-in flows (same as DEFAULT_FLOW_CONFIGS in utils/whatsappAutomationFlows.ts)
+INSERT INTO public.whatsapp_automation_flows (flow_key, label, is_default)
+VALUES
+    ('customer_journey_start', 'תחילת מסע לקוח ותיאום פגישה', TRUE),
+    ('intro_questionnaire', 'אוטומטי שליחת שאלון הכרות לאחר קביעת שיחה', TRUE),
+    ('budget', 'שליחת תכנית פעולה', TRUE),
+    ('payment_request', 'בקשת תשלום', TRUE),
+    ('trainee_user_credentials', 'שליחת פרטי משתמש חניך', TRUE),
+    ('weekly_review', 'סיכום שבועי ויעדים', TRUE)
+ON CONFLICT (flow_key) DO NOTHING;
+
+-- Trigger to auto-update updated_at
+DROP TRIGGER IF EXISTS update_whatsapp_automation_flows_updated_at ON public.whatsapp_automation_flows;
+CREATE TRIGGER update_whatsapp_automation_flows_updated_at
+    BEFORE UPDATE ON public.whatsapp_automation_flows
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable RLS on whatsapp_automation_flows table
+ALTER TABLE public.whatsapp_automation_flows ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for whatsapp_automation_flows
+-- Staff (admin/user) manage flows; service role (edge functions) bypasses RLS
+DROP POLICY IF EXISTS "Staff can read automation flows" ON public.whatsapp_automation_flows;
+CREATE POLICY "Staff can read automation flows"
+    ON public.whatsapp_automation_flows FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can insert automation flows" ON public.whatsapp_automation_flows;
+CREATE POLICY "Staff can insert automation flows"
+    ON public.whatsapp_automation_flows FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can update automation flows" ON public.whatsapp_automation_flows;
+CREATE POLICY "Staff can update automation flows"
+    ON public.whatsapp_automation_flows FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+-- Only custom flows can be removed; built-in flows are deactivated instead
+DROP POLICY IF EXISTS "Staff can delete custom automation flows" ON public.whatsapp_automation_flows;
+CREATE POLICY "Staff can delete custom automation flows"
+    ON public.whatsapp_automation_flows FOR DELETE
+    USING (
+        is_default = FALSE
+        AND EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+-- Add comments
+COMMENT ON TABLE public.whatsapp_automation_flows IS 'WhatsApp automation flow definitions shared by all coaches';
+COMMENT ON COLUMN public.whatsapp_automation_flows.flow_key IS 'Flow identifier, matches whatsapp_flow_templates.flow_key';
+COMMENT ON COLUMN public.whatsapp_automation_flows.is_default IS 'Built-in flow seeded by migration';
+COMMENT ON COLUMN public.whatsapp_automation_flows.is_active IS 'FALSE when a built-in flow was removed from the automations page';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
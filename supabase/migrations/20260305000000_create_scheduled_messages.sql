@@ -0,0 +1,129 @@
+-- =====================================================
+-- Create Scheduled Messages (WhatsApp Queue) Table
+-- Created: 2026-03-05
+-- Description: Queue of WhatsApp messages to send at a later time
+--              Processed by the process-scheduled-messages edge function (retries Green API failures)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.scheduled_messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+    customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE,
+    phone TEXT NOT NULL,
+    flow_key TEXT, -- whatsapp_flow_templates.flow_key the message was rendered from
+    message TEXT NOT NULL DEFAULT '', -- Rendered message (placeholders replaced when scheduling)
+    buttons JSONB DEFAULT '[]'::jsonb,
+    media JSONB,
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'cancelled')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    next_attempt_at TIMESTAMP WITH TIME ZONE, -- Set after a failed attempt (retry backoff)
+    last_error TEXT,
+    green_api_message_id TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    cancelled_at TIMESTAMP WITH TIME ZONE,
+    cancelled_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Create indexes for efficient queries
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_due
+    ON public.scheduled_messages(COALESCE(next_attempt_at, scheduled_for))
+    WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_lead_id ON public.scheduled_messages(lead_id, scheduled_for DESC);
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_customer_id ON public.scheduled_messages(customer_id, scheduled_for DESC);
+
+-- Trigger to auto-update updated_at
+DROP TRIGGER IF EXISTS update_scheduled_messages_updated_at ON public.scheduled_messages;
+CREATE TRIGGER update_scheduled_messages_updated_at
+    BEFORE UPDATE ON public.scheduled_messages
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Claim due messages for sending
+-- Bumps attempts and pushes next_attempt_at forward (backoff) so concurrent runs skip them;
+-- the processor then marks each message sent, or failed once max_attempts is reached
+CREATE OR REPLACE FUNCTION public.claim_due_scheduled_messages(p_limit INTEGER DEFAULT 20)
+RETURNS SETOF public.scheduled_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.scheduled_messages sm
+    SET
+        attempts = sm.attempts + 1,
+        next_attempt_at = NOW() + make_interval(mins => 5 * (sm.attempts + 1) * (sm.attempts + 1))
+    WHERE sm.id IN (
+        SELECT id
+        FROM public.scheduled_messages
+        WHERE status = 'pending'
+          AND COALESCE(next_attempt_at, scheduled_for) <= NOW()
+        ORDER BY scheduled_for
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING sm.*;
+END;
+$$;
+
+-- Only the processor (service role) claims messages
+REVOKE EXECUTE ON FUNCTION public.claim_due_scheduled_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Enable RLS on scheduled_messages table
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for scheduled_messages
+DROP POLICY IF EXISTS "Staff can read scheduled messages" ON public.scheduled_messages;
+CREATE POLICY "Staff can read scheduled messages"
+    ON public.scheduled_messages FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can schedule messages" ON public.scheduled_messages;
+CREATE POLICY "Staff can schedule messages"
+    ON public.scheduled_messages FOR INSERT
+    WITH CHECK (
+        status = 'pending'
+        AND EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+-- Staff can only cancel messages that haven't been sent yet
+DROP POLICY IF EXISTS "Staff can cancel pending messages" ON public.scheduled_messages;
+CREATE POLICY "Staff can cancel pending messages"
+    ON public.scheduled_messages FOR UPDATE
+    USING (
+        status = 'pending'
+        AND EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    )
+    WITH CHECK (
+        status IN ('pending', 'cancelled')
+        AND EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+-- Add comments
+COMMENT ON TABLE public.scheduled_messages IS 'Queue of delayed WhatsApp messages, sent by the process-scheduled-messages edge function';
+COMMENT ON COLUMN public.scheduled_messages.scheduled_for IS 'When the message should be sent';
+COMMENT ON COLUMN public.scheduled_messages.status IS 'pending, sent, failed (after max_attempts) or cancelled';
+COMMENT ON COLUMN public.scheduled_messages.next_attempt_at IS 'Earliest time for the next attempt after a Green API failure';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
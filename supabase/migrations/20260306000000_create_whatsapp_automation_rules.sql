@@ -0,0 +1,316 @@
+-- =====================================================
+-- Create WhatsApp Automation Rules
+-- Created: 2026-03-06
+-- Description: Trigger-based rules that send a WhatsApp flow automatically
+--              - whatsapp_automation_rules: trigger + conditions attached to a flow
+--              - automation_rule_events: queue of trigger events written by table triggers
+--              - automation_rule_runs: audit log of every rule execution
+--              Processed by the run-automation-rules edge function (messages are sent
+--              through the scheduled_messages queue)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_automation_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    flow_key TEXT NOT NULL REFERENCES public.whatsapp_automation_flows(flow_key) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    trigger_type TEXT NOT NULL CHECK (trigger_type IN (
+        'lead_status_changed',
+        'payment_completed',
+        'budget_assigned',
+        'no_check_in',
+        'subscription_expiring'
+    )),
+    trigger_config JSONB NOT NULL DEFAULT '{}'::jsonb, -- e.g. { "statusMain": "...", "statusSub": "..." } or { "days": 3 }
+    conditions JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ "field": "city", "operator": "equals", "value": "..." }]
+    delay_minutes INTEGER NOT NULL DEFAULT 0 CHECK (delay_minutes >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_automation_rules_trigger
+    ON public.whatsapp_automation_rules(trigger_type)
+    WHERE is_active = TRUE;
+CREATE INDEX IF NOT EXISTS idx_whatsapp_automation_rules_flow_key ON public.whatsapp_automation_rules(flow_key);
+
+DROP TRIGGER IF EXISTS update_whatsapp_automation_rules_updated_at ON public.whatsapp_automation_rules;
+CREATE TRIGGER update_whatsapp_automation_rules_updated_at
+    BEFORE UPDATE ON public.whatsapp_automation_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- Trigger events queue
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.automation_rule_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    trigger_type TEXT NOT NULL,
+    lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+    customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_automation_rule_events_unprocessed
+    ON public.automation_rule_events(created_at)
+    WHERE processed_at IS NULL;
+
+-- =====================================================
+-- Audit log
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.automation_rule_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    rule_id UUID REFERENCES public.whatsapp_automation_rules(id) ON DELETE SET NULL,
+    rule_name TEXT, -- Kept for the log after the rule is deleted
+    flow_key TEXT,
+    trigger_type TEXT NOT NULL,
+    event_id UUID REFERENCES public.automation_rule_events(id) ON DELETE SET NULL,
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+    status TEXT NOT NULL CHECK (status IN ('queued', 'skipped', 'failed')),
+    reason TEXT,
+    scheduled_message_id UUID REFERENCES public.scheduled_messages(id) ON DELETE SET NULL,
+    dedupe_key TEXT, -- One run per rule + key (event id, or the period for time-based triggers)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automation_rule_runs_dedupe
+    ON public.automation_rule_runs(rule_id, dedupe_key)
+    WHERE dedupe_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_automation_rule_runs_created_at ON public.automation_rule_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_automation_rule_runs_rule_id ON public.automation_rule_runs(rule_id, created_at DESC);
+
+-- =====================================================
+-- Event triggers
+-- SECURITY DEFINER so coaches' updates can write to the (service-only) events table
+-- =====================================================
+
+-- Lead status changed
+CREATE OR REPLACE FUNCTION public.enqueue_lead_status_automation_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status_main IS DISTINCT FROM OLD.status_main OR NEW.status_sub IS DISTINCT FROM OLD.status_sub THEN
+        INSERT INTO public.automation_rule_events (trigger_type, lead_id, customer_id, payload)
+        VALUES (
+            'lead_status_changed',
+            NEW.id,
+            NEW.customer_id,
+            jsonb_build_object(
+                'old_status_main', OLD.status_main,
+                'old_status_sub', OLD.status_sub,
+                'status_main', NEW.status_main,
+                'status_sub', NEW.status_sub
+            )
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_lead_status_automation_event ON public.leads;
+CREATE TRIGGER enqueue_lead_status_automation_event
+    AFTER UPDATE OF status_main, status_sub ON public.leads
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enqueue_lead_status_automation_event();
+
+-- Payment marked as paid (receive-stripe-webhook or manually)
+CREATE OR REPLACE FUNCTION public.enqueue_payment_automation_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'שולם' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status) THEN
+        INSERT INTO public.automation_rule_events (trigger_type, lead_id, customer_id, payload)
+        VALUES (
+            'payment_completed',
+            NEW.lead_id,
+            NEW.customer_id,
+            jsonb_build_object(
+                'payment_id', NEW.id,
+                'amount', NEW.amount,
+                'currency', NEW.currency,
+                'product_name', NEW.product_name
+            )
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_payment_automation_event ON public.payments;
+CREATE TRIGGER enqueue_payment_automation_event
+    AFTER INSERT OR UPDATE OF status ON public.payments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enqueue_payment_automation_event();
+
+-- Budget assigned to a lead/customer
+CREATE OR REPLACE FUNCTION public.enqueue_budget_assignment_automation_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.is_active THEN
+        INSERT INTO public.automation_rule_events (trigger_type, lead_id, customer_id, payload)
+        VALUES (
+            'budget_assigned',
+            NEW.lead_id,
+            COALESCE(NEW.customer_id, (SELECT customer_id FROM public.leads WHERE id = NEW.lead_id)),
+            jsonb_build_object('budget_id', NEW.budget_id, 'assignment_id', NEW.id)
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enqueue_budget_assignment_automation_event ON public.budget_assignments;
+CREATE TRIGGER enqueue_budget_assignment_automation_event
+    AFTER INSERT ON public.budget_assignments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enqueue_budget_assignment_automation_event();
+
+-- =====================================================
+-- Processor helpers (service role only)
+-- =====================================================
+
+-- Claim unprocessed events (marks them processed so concurrent runs skip them)
+CREATE OR REPLACE FUNCTION public.claim_automation_rule_events(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.automation_rule_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE public.automation_rule_events e
+    SET processed_at = NOW()
+    WHERE e.id IN (
+        SELECT id
+        FROM public.automation_rule_events
+        WHERE processed_at IS NULL
+        ORDER BY created_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING e.*;
+END;
+$$;
+
+-- Active clients whose last check-in (or lead creation) is at least p_days ago
+CREATE OR REPLACE FUNCTION public.find_leads_without_check_in(p_days INTEGER)
+RETURNS TABLE (lead_id UUID, customer_id UUID, last_check_in_date DATE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT l.id, l.customer_id, last_check_in.check_in_date
+    FROM public.leads l
+    LEFT JOIN LATERAL (
+        SELECT MAX(d.check_in_date) AS check_in_date
+        FROM public.daily_check_ins d
+        WHERE d.customer_id = l.customer_id
+    ) last_check_in ON TRUE
+    WHERE (l.subscription_data->>'status')::TEXT = 'פעיל'
+      AND COALESCE(last_check_in.check_in_date, l.created_at::DATE) <= CURRENT_DATE - p_days;
+$$;
+
+-- Leads whose active subscription expires in exactly p_days days
+CREATE OR REPLACE FUNCTION public.find_leads_with_expiring_subscription(p_days INTEGER)
+RETURNS TABLE (lead_id UUID, customer_id UUID, expiration_date DATE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT l.id, l.customer_id, (l.subscription_data->>'expirationDate')::DATE
+    FROM public.leads l
+    WHERE l.subscription_data->>'expirationDate' IS NOT NULL
+      AND (l.subscription_data->>'status')::TEXT = 'פעיל'
+      AND (l.subscription_data->>'expirationDate')::DATE = CURRENT_DATE + p_days;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_automation_rule_events(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_leads_without_check_in(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.find_leads_with_expiring_subscription(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE public.whatsapp_automation_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.automation_rule_events ENABLE ROW LEVEL SECURITY; -- No policies: service role only
+ALTER TABLE public.automation_rule_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read automation rules" ON public.whatsapp_automation_rules;
+CREATE POLICY "Staff can read automation rules"
+    ON public.whatsapp_automation_rules FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can create automation rules" ON public.whatsapp_automation_rules;
+CREATE POLICY "Staff can create automation rules"
+    ON public.whatsapp_automation_rules FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can update automation rules" ON public.whatsapp_automation_rules;
+CREATE POLICY "Staff can update automation rules"
+    ON public.whatsapp_automation_rules FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can delete automation rules" ON public.whatsapp_automation_rules;
+CREATE POLICY "Staff can delete automation rules"
+    ON public.whatsapp_automation_rules FOR DELETE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+-- The audit log is written by the edge function only
+DROP POLICY IF EXISTS "Staff can read automation rule runs" ON public.automation_rule_runs;
+CREATE POLICY "Staff can read automation rule runs"
+    ON public.automation_rule_runs FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+-- Add comments
+COMMENT ON TABLE public.whatsapp_automation_rules IS 'Triggers + conditions that send a WhatsApp flow automatically';
+COMMENT ON COLUMN public.whatsapp_automation_rules.trigger_config IS 'Trigger options: statusMain/statusSub for lead_status_changed, days for no_check_in/subscription_expiring';
+COMMENT ON COLUMN public.whatsapp_automation_rules.conditions IS 'All conditions must match: [{ field, operator (equals, not_equals, contains, is_empty, is_not_empty), value }]';
+COMMENT ON TABLE public.automation_rule_events IS 'Trigger events waiting for run-automation-rules';
+COMMENT ON TABLE public.automation_rule_runs IS 'Audit log of automation rule executions';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
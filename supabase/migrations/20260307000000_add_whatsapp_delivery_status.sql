@@ -0,0 +1,88 @@
+-- =====================================================
+-- Add Delivery Status to WhatsApp Messages
+-- Created: 2026-03-07
+-- Description: Tracks Green API outgoingMessageStatus webhooks (sent/delivered/read/failed)
+--              on outgoing messages, matched by green_api_message_id
+-- =====================================================
+
+ALTER TABLE public.whatsapp_messages
+    ADD COLUMN IF NOT EXISTS delivery_status TEXT
+        CHECK (delivery_status IN ('sent', 'delivered', 'read', 'failed')),
+    ADD COLUMN IF NOT EXISTS delivery_error TEXT,
+    ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- Outgoing messages already stored were accepted by Green API
+UPDATE public.whatsapp_messages
+SET delivery_status = 'sent'
+WHERE direction = 'outgoing'
+  AND green_api_message_id IS NOT NULL
+  AND delivery_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_failed
+    ON public.whatsapp_messages(status_updated_at DESC)
+    WHERE delivery_status = 'failed';
+
+-- Apply a status webhook to the outgoing message
+-- Statuses only move forward (sent -> delivered -> read); failed never overrides delivered/read
+-- Returns the message only when its status changed
+CREATE OR REPLACE FUNCTION public.update_whatsapp_message_status(
+    p_green_api_message_id TEXT,
+    p_status TEXT,
+    p_status_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    p_error TEXT DEFAULT NULL
+)
+RETURNS SETOF public.whatsapp_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    new_rank INTEGER := CASE p_status
+        WHEN 'sent' THEN 1
+        WHEN 'failed' THEN 2
+        WHEN 'delivered' THEN 3
+        WHEN 'read' THEN 4
+        ELSE NULL
+    END;
+BEGIN
+    IF new_rank IS NULL THEN
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    UPDATE public.whatsapp_messages wm
+    SET
+        delivery_status = p_status,
+        delivery_error = CASE WHEN p_status = 'failed' THEN p_error ELSE NULL END,
+        delivered_at = CASE
+            WHEN p_status IN ('delivered', 'read') THEN COALESCE(wm.delivered_at, p_status_at)
+            ELSE wm.delivered_at
+        END,
+        read_at = CASE WHEN p_status = 'read' THEN p_status_at ELSE wm.read_at END,
+        status_updated_at = p_status_at
+    WHERE wm.green_api_message_id = p_green_api_message_id
+      AND wm.direction = 'outgoing'
+      AND new_rank > CASE wm.delivery_status
+          WHEN 'sent' THEN 1
+          WHEN 'failed' THEN 2
+          WHEN 'delivered' THEN 3
+          WHEN 'read' THEN 4
+          ELSE 0
+      END
+    RETURNING wm.*;
+END;
+$$;
+
+-- Only receive-whatsapp-webhook (service role) applies statuses
+REVOKE EXECUTE ON FUNCTION public.update_whatsapp_message_status(TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Add comments
+COMMENT ON COLUMN public.whatsapp_messages.delivery_status IS 'Outgoing messages: sent, delivered, read or failed (from Green API outgoingMessageStatus webhooks)';
+COMMENT ON COLUMN public.whatsapp_messages.delivery_error IS 'Green API failure description (failed, noAccount, ...)';
+COMMENT ON COLUMN public.whatsapp_messages.read_at IS 'When the client read the message (blue ticks)';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
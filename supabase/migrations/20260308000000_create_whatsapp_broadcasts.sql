@@ -0,0 +1,144 @@
+-- =====================================================
+-- Create WhatsApp Broadcasts Table
+-- Created: 2026-03-08
+-- Description: Bulk WhatsApp sends to a filtered lead/customer view or selection
+--              Each recipient gets a rendered row in scheduled_messages, spaced out
+--              by send_interval_seconds so Green API isn't flooded
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_broadcasts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL,
+    flow_key TEXT NOT NULL, -- whatsapp_flow_templates.flow_key the messages were rendered from
+    audience TEXT NOT NULL CHECK (audience IN ('leads', 'customers')),
+    filter_snapshot JSONB DEFAULT '{}'::jsonb, -- Filter / selection the recipients were resolved from
+    total_recipients INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0, -- No phone number or duplicate phone
+    send_interval_seconds INTEGER NOT NULL DEFAULT 10 CHECK (send_interval_seconds >= 1),
+    starts_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_broadcasts_created_at ON public.whatsapp_broadcasts(created_at DESC);
+
+-- Link queued messages to their broadcast
+ALTER TABLE public.scheduled_messages
+    ADD COLUMN IF NOT EXISTS broadcast_id UUID REFERENCES public.whatsapp_broadcasts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_broadcast_id
+    ON public.scheduled_messages(broadcast_id)
+    WHERE broadcast_id IS NOT NULL;
+
+-- Trigger to auto-update updated_at
+DROP TRIGGER IF EXISTS update_whatsapp_broadcasts_updated_at ON public.whatsapp_broadcasts;
+CREATE TRIGGER update_whatsapp_broadcasts_updated_at
+    BEFORE UPDATE ON public.whatsapp_broadcasts
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Broadcast progress: queue status plus delivery status of the sent messages
+CREATE OR REPLACE VIEW public.whatsapp_broadcasts_with_stats AS
+SELECT
+    b.*,
+    COUNT(sm.id) AS queued_count,
+    COUNT(sm.id) FILTER (WHERE sm.status = 'pending') AS pending_count,
+    COUNT(sm.id) FILTER (WHERE sm.status = 'sent') AS sent_count,
+    COUNT(sm.id) FILTER (WHERE sm.status = 'failed') AS failed_count,
+    COUNT(sm.id) FILTER (WHERE sm.status = 'cancelled') AS cancelled_count,
+    COUNT(wm.id) FILTER (WHERE wm.delivery_status IN ('delivered', 'read')) AS delivered_count,
+    COUNT(wm.id) FILTER (WHERE wm.delivery_status = 'read') AS read_count,
+    COUNT(wm.id) FILTER (WHERE wm.delivery_status = 'failed') AS undelivered_count
+FROM public.whatsapp_broadcasts b
+LEFT JOIN public.scheduled_messages sm ON sm.broadcast_id = b.id
+LEFT JOIN public.whatsapp_messages wm
+    ON wm.green_api_message_id = sm.green_api_message_id
+    AND wm.direction = 'outgoing'
+GROUP BY b.id;
+
+ALTER VIEW public.whatsapp_broadcasts_with_stats SET (security_invoker = true);
+
+-- Enable RLS on whatsapp_broadcasts table
+ALTER TABLE public.whatsapp_broadcasts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for whatsapp_broadcasts
+DROP POLICY IF EXISTS "Staff can read whatsapp broadcasts" ON public.whatsapp_broadcasts;
+CREATE POLICY "Staff can read whatsapp broadcasts"
+    ON public.whatsapp_broadcasts FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can create whatsapp broadcasts" ON public.whatsapp_broadcasts;
+CREATE POLICY "Staff can create whatsapp broadcasts"
+    ON public.whatsapp_broadcasts FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+DROP POLICY IF EXISTS "Staff can update whatsapp broadcasts" ON public.whatsapp_broadcasts;
+CREATE POLICY "Staff can update whatsapp broadcasts"
+    ON public.whatsapp_broadcasts FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+-- Create a broadcast and queue all of its messages in one transaction, so a failed insert
+-- never leaves a half-queued broadcast. Runs with the caller's RLS policies.
+CREATE OR REPLACE FUNCTION public.create_whatsapp_broadcast(p_broadcast JSONB, p_messages JSONB)
+RETURNS public.whatsapp_broadcasts
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    v_broadcast public.whatsapp_broadcasts;
+BEGIN
+    INSERT INTO public.whatsapp_broadcasts (
+        name, flow_key, audience, filter_snapshot, total_recipients, skipped_count,
+        send_interval_seconds, starts_at, created_by
+    )
+    SELECT
+        b.name, b.flow_key, b.audience, COALESCE(b.filter_snapshot, '{}'::jsonb), b.total_recipients,
+        b.skipped_count, b.send_interval_seconds, COALESCE(b.starts_at, NOW()), auth.uid()
+    FROM jsonb_populate_record(NULL::public.whatsapp_broadcasts, p_broadcast) b
+    RETURNING * INTO v_broadcast;
+
+    INSERT INTO public.scheduled_messages (
+        broadcast_id, customer_id, lead_id, phone, flow_key, message, buttons, media, scheduled_for, created_by
+    )
+    SELECT
+        v_broadcast.id, m.customer_id, m.lead_id, m.phone, m.flow_key, m.message,
+        COALESCE(m.buttons, '[]'::jsonb), m.media, m.scheduled_for, auth.uid()
+    FROM jsonb_populate_recordset(NULL::public.scheduled_messages, p_messages) m;
+
+    RETURN v_broadcast;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_whatsapp_broadcast(JSONB, JSONB) TO authenticated;
+
+-- Add comments
+COMMENT ON TABLE public.whatsapp_broadcasts IS 'Bulk WhatsApp sends; messages are queued in scheduled_messages (broadcast_id)';
+COMMENT ON COLUMN public.whatsapp_broadcasts.send_interval_seconds IS 'Seconds between two consecutive messages of the broadcast (Green API rate limit)';
+COMMENT ON COLUMN public.scheduled_messages.broadcast_id IS 'Broadcast the message belongs to (NULL for single scheduled messages)';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
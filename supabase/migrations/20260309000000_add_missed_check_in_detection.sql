@@ -0,0 +1,375 @@
+-- =====================================================
+-- Add Missed Daily Check-In Detection
+-- Created: 2026-03-09
+-- Description: Notices trainees who stopped filling their daily check-in
+--              - customer_check_in_stats: last check-in, current streak and 7-day count per customer
+--              - check_in_reminder_settings: how many missed days trigger an alert, optional reminder flow
+--              - check_missed_check_ins(): notifies the trainee's coach (or admins) once per gap
+--                Run daily by the check-missed-check-ins edge function (see CHECK_IN_REMINDERS.md)
+--              - v_leads_with_customer: adds the check-in columns for the leads table
+-- =====================================================
+
+-- =====================================================
+-- Check-in stats per customer
+-- =====================================================
+
+-- Streak = consecutive check-in days ending today or yesterday (0 once a day was missed)
+CREATE OR REPLACE VIEW public.customer_check_in_stats AS
+WITH check_in_islands AS (
+    -- Consecutive dates share the same (date - row number)
+    SELECT
+        d.customer_id,
+        MAX(d.check_in_date) AS end_date,
+        COUNT(*) AS length
+    FROM (
+        SELECT
+            customer_id,
+            check_in_date,
+            check_in_date - (ROW_NUMBER() OVER (PARTITION BY customer_id ORDER BY check_in_date))::INTEGER AS island
+        FROM public.daily_check_ins
+    ) d
+    GROUP BY d.customer_id, d.island
+)
+SELECT
+    i.customer_id,
+    MAX(i.end_date) AS last_check_in_date,
+    COALESCE(MAX(i.length) FILTER (WHERE i.end_date >= CURRENT_DATE - 1), 0)::INTEGER AS current_streak,
+    MAX(i.length)::INTEGER AS longest_streak,
+    (
+        SELECT COUNT(*)::INTEGER
+        FROM public.daily_check_ins recent
+        WHERE recent.customer_id = i.customer_id
+          AND recent.check_in_date > CURRENT_DATE - 7
+    ) AS check_ins_last_7_days
+FROM check_in_islands i
+GROUP BY i.customer_id;
+
+ALTER VIEW public.customer_check_in_stats SET (security_invoker = true);
+
+GRANT SELECT ON public.customer_check_in_stats TO authenticated;
+
+-- =====================================================
+-- Settings
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.check_in_reminder_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    missed_days INTEGER NOT NULL DEFAULT 3 CHECK (missed_days BETWEEN 1 AND 30),
+    reminder_flow_key TEXT REFERENCES public.whatsapp_automation_flows(flow_key) ON DELETE SET NULL, -- Optional WhatsApp reminder to the trainee
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Single settings row
+INSERT INTO public.check_in_reminder_settings (missed_days)
+SELECT 3
+WHERE NOT EXISTS (SELECT 1 FROM public.check_in_reminder_settings);
+
+DROP TRIGGER IF EXISTS update_check_in_reminder_settings_updated_at ON public.check_in_reminder_settings;
+CREATE TRIGGER update_check_in_reminder_settings_updated_at
+    BEFORE UPDATE ON public.check_in_reminder_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.check_in_reminder_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read check-in reminder settings" ON public.check_in_reminder_settings;
+CREATE POLICY "Staff can read check-in reminder settings"
+    ON public.check_in_reminder_settings FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role IN ('admin', 'user')
+        )
+    );
+
+DROP POLICY IF EXISTS "Admins can update check-in reminder settings" ON public.check_in_reminder_settings;
+CREATE POLICY "Admins can update check-in reminder settings"
+    ON public.check_in_reminder_settings FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- Detection
+-- =====================================================
+
+-- Find active trainees (active subscription + active portal user) without a check-in for
+-- missed_days days and notify their coach (leads.assigned_to), or all admins when unassigned.
+-- A trainee is flagged once per gap: the next alert comes only after a new check-in.
+-- Returns the newly flagged trainees (the edge function sends their WhatsApp reminder).
+CREATE OR REPLACE FUNCTION public.check_missed_check_ins()
+RETURNS TABLE (lead_id UUID, customer_id UUID, last_check_in_date DATE, days_missed INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    settings RECORD;
+    trainee RECORD;
+    recipient RECORD;
+    message_text TEXT;
+BEGIN
+    SELECT s.is_active, s.missed_days INTO settings
+    FROM public.check_in_reminder_settings s
+    ORDER BY s.created_at
+    LIMIT 1;
+
+    IF NOT FOUND OR NOT settings.is_active THEN
+        RETURN;
+    END IF;
+
+    FOR trainee IN
+        SELECT DISTINCT ON (c.id)
+            l.id AS lead_id,
+            c.id AS customer_id,
+            c.full_name,
+            l.assigned_to,
+            stats.last_check_in_date,
+            (CURRENT_DATE - COALESCE(stats.last_check_in_date, l.created_at::DATE))::INTEGER AS days_missed
+        FROM public.customers c
+        JOIN public.profiles p ON p.id = c.user_id AND p.is_active = TRUE
+        JOIN public.leads l ON l.customer_id = c.id AND (l.subscription_data->>'status')::TEXT = 'פעיל'
+        LEFT JOIN public.customer_check_in_stats stats ON stats.customer_id = c.id
+        WHERE COALESCE(stats.last_check_in_date, l.created_at::DATE) <= CURRENT_DATE - settings.missed_days
+        ORDER BY c.id, l.created_at DESC
+    LOOP
+        -- Already flagged for this gap
+        IF EXISTS (
+            SELECT 1
+            FROM public.notifications n
+            WHERE n.type = 'missed_check_in'
+              AND n.customer_id = trainee.customer_id
+              AND (n.metadata->>'last_check_in_date') IS NOT DISTINCT FROM trainee.last_check_in_date::TEXT
+        ) THEN
+            CONTINUE;
+        END IF;
+
+        IF trainee.last_check_in_date IS NULL THEN
+            message_text := COALESCE(trainee.full_name, 'מתאמן') || ' לא מילא/ה דיווח יומי כבר ' || trainee.days_missed || ' ימים';
+        ELSE
+            message_text := COALESCE(trainee.full_name, 'מתאמן') || ' לא מילא/ה דיווח יומי כבר ' || trainee.days_missed
+                || ' ימים (דיווח אחרון: ' || TO_CHAR(trainee.last_check_in_date, 'DD/MM/YYYY') || ')';
+        END IF;
+
+        FOR recipient IN
+            SELECT pr.id
+            FROM public.profiles pr
+            WHERE (trainee.assigned_to IS NOT NULL AND pr.id = trainee.assigned_to)
+               OR (trainee.assigned_to IS NULL AND pr.role = 'admin' AND pr.is_active = TRUE)
+        LOOP
+            INSERT INTO public.notifications (
+                user_id, customer_id, lead_id, type, title, message, action_url, metadata
+            ) VALUES (
+                recipient.id,
+                trainee.customer_id,
+                trainee.lead_id,
+                'missed_check_in',
+                'דיווח יומי חסר',
+                message_text,
+                '/leads/' || trainee.lead_id,
+                jsonb_build_object(
+                    'last_check_in_date', trainee.last_check_in_date,
+                    'days_missed', trainee.days_missed
+                )
+            );
+        END LOOP;
+
+        lead_id := trainee.lead_id;
+        customer_id := trainee.customer_id;
+        last_check_in_date := trainee.last_check_in_date;
+        days_missed := trainee.days_missed;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+-- Only the check-missed-check-ins edge function (service role) runs the detection
+REVOKE EXECUTE ON FUNCTION public.check_missed_check_ins() FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- Leads view: check-in columns
+-- =====================================================
+
+-- Same definition as 20260202000000_update_leads_view.sql with the check-in columns appended
+CREATE OR REPLACE VIEW "public"."v_leads_with_customer" AS
+SELECT 
+    l.id,
+    l.created_at,
+    l.updated_at,
+    l.assigned_to,
+    l.customer_id,
+    l.city,
+    l.birth_date,
+    l.age,
+    l.gender,
+    l.period,
+    l.status_main,
+    l.status_sub,
+    l.height,
+    l.weight,
+    l.bmi,
+    l.join_date,
+    l.subscription_data,
+    l.daily_protocol,
+    l.workout_history,
+    l.steps_history,
+    l.source,
+    l.fitness_goal,
+    l.activity_level,
+    l.preferred_time,
+    l.notes,
+    -- Customer data (One-to-One)
+    c.full_name as customer_name,
+    c.phone as customer_phone,
+    c.email as customer_email,
+    -- Calculated fields
+    TO_CHAR(l.created_at, 'YYYY-MM-DD') as created_date_formatted,
+    TO_CHAR(l.birth_date, 'YYYY-MM-DD') as birth_date_formatted,
+    -- JSONB fields extracted for convenience
+    (l.daily_protocol->>'stepsGoal')::INTEGER as daily_steps_goal,
+    (l.daily_protocol->>'workoutGoal')::INTEGER as weekly_workouts_goal,
+    (l.daily_protocol->>'supplements')::JSONB as daily_supplements,
+    (l.subscription_data->>'months')::INTEGER as subscription_months,
+    (l.subscription_data->>'initialPrice')::DECIMAL as subscription_initial_price,
+    (l.subscription_data->>'renewalPrice')::DECIMAL as subscription_renewal_price,
+    (l.subscription_data->>'name')::TEXT as subscription_name,
+    
+    -- Active Budget (One-to-One via assignment)
+    b.name as active_budget_name,
+    b.id as active_budget_id,
+    to_jsonb(b.*) as active_budget_json,
+    
+    -- Payments (One-to-Many)
+    COALESCE(p_agg.total_paid, 0) as total_paid,
+    p_agg.last_payment_date,
+    COALESCE(p_agg.payments_json, '[]'::jsonb) as payments_json,
+    
+    -- Collections (One-to-Many)
+    COALESCE(col_agg.total_expected, 0) as total_expected,
+    (COALESCE(col_agg.total_expected, 0) - COALESCE(p_agg.total_paid, 0)) as debt_amount,
+    COALESCE(col_agg.collections_json, '[]'::jsonb) as collections_json,
+    
+    -- Workout Plans (One-to-Many)
+    COALESCE(wp_agg.plan_count, 0) as workout_plans_count,
+    wp_agg.latest_plan_date as latest_workout_plan_date,
+    COALESCE(wp_agg.plans_json, '[]'::jsonb) as workout_plans_json,
+    
+    -- Nutrition Plans (One-to-Many)
+    COALESCE(np_agg.plan_count, 0) as nutrition_plans_count,
+    np_agg.latest_plan_date as latest_nutrition_plan_date,
+    COALESCE(np_agg.plans_json, '[]'::jsonb) as nutrition_plans_json,
+
+    -- Supplement Plans (One-to-Many)
+    COALESCE(sup_agg.plan_count, 0) as supplement_plans_count,
+    sup_agg.latest_plan_date as latest_supplement_plan_date,
+    COALESCE(sup_agg.plans_json, '[]'::jsonb) as supplement_plans_json,
+
+    -- Steps Plans (One-to-Many)
+    COALESCE(step_agg.plan_count, 0) as steps_plans_count,
+    step_agg.latest_plan_date as latest_steps_plan_date,
+    COALESCE(step_agg.plans_json, '[]'::jsonb) as steps_plans_json,
+
+    -- Meetings (One-to-Many)
+    COALESCE(meet_agg.meeting_count, 0) as meetings_count,
+    meet_agg.latest_meeting_date,
+    meet_agg.next_meeting_date,
+    COALESCE(meet_agg.meetings_json, '[]'::jsonb) as meetings_json,
+
+    -- Blood Tests (One-to-Many)
+    COALESCE(blood_agg.test_count, 0) as blood_tests_count,
+    blood_agg.latest_test_date,
+    COALESCE(blood_agg.tests_json, '[]'::jsonb) as blood_tests_json,
+
+    -- Daily check-in compliance (customer_check_in_stats)
+    ci_stats.last_check_in_date,
+    COALESCE(ci_stats.current_streak, 0) as check_in_streak,
+    COALESCE(ci_stats.check_ins_last_7_days, 0) as check_ins_last_7_days
+
+FROM public.leads l
+LEFT JOIN public.customers c ON l.customer_id = c.id
+LEFT JOIN public.budget_assignments ba ON l.id = ba.lead_id AND ba.is_active = true
+LEFT JOIN public.budgets b ON ba.budget_id = b.id
+
+-- Payments Aggregation
+LEFT JOIN (
+    SELECT lead_id, SUM(amount) as total_paid, MAX(created_at) as last_payment_date,
+           jsonb_agg(to_jsonb(p.*) ORDER BY created_at DESC) as payments_json
+    FROM public.payments p GROUP BY lead_id
+) p_agg ON l.id = p_agg.lead_id
+
+-- Collections Aggregation
+LEFT JOIN (
+    SELECT lead_id, SUM(total_amount) as total_expected,
+           jsonb_agg(to_jsonb(cl.*) ORDER BY due_date ASC) as collections_json
+    FROM public.collections cl GROUP BY lead_id
+) col_agg ON l.id = col_agg.lead_id
+
+-- Workout Plans
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as plan_count, MAX(start_date) as latest_plan_date,
+           jsonb_agg(to_jsonb(wp.*) ORDER BY start_date DESC) as plans_json
+    FROM public.workout_plans wp GROUP BY lead_id
+) wp_agg ON l.id = wp_agg.lead_id
+
+-- Nutrition Plans
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as plan_count, MAX(start_date) as latest_plan_date,
+           jsonb_agg(to_jsonb(np.*) ORDER BY start_date DESC) as plans_json
+    FROM public.nutrition_plans np GROUP BY lead_id
+) np_agg ON l.id = np_agg.lead_id
+
+-- Supplement Plans
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as plan_count, MAX(start_date) as latest_plan_date,
+           jsonb_agg(to_jsonb(sp.*) ORDER BY start_date DESC) as plans_json
+    FROM public.supplement_plans sp GROUP BY lead_id
+) sup_agg ON l.id = sup_agg.lead_id
+
+-- Steps Plans
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as plan_count, MAX(start_date) as latest_plan_date,
+           jsonb_agg(to_jsonb(stp.*) ORDER BY start_date DESC) as plans_json
+    FROM public.steps_plans stp GROUP BY lead_id
+) step_agg ON l.id = step_agg.lead_id
+
+-- Meetings
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as meeting_count, 
+           MAX(created_at) FILTER (WHERE created_at < now()) as latest_meeting_date,
+           MIN(created_at) FILTER (WHERE created_at >= now()) as next_meeting_date,
+           jsonb_agg(to_jsonb(m.*) ORDER BY created_at DESC) as meetings_json
+    FROM public.meetings m GROUP BY lead_id
+) meet_agg ON l.id = meet_agg.lead_id
+
+-- Blood Tests
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as test_count, MAX(created_at) as latest_test_date,
+           jsonb_agg(to_jsonb(bt.*) ORDER BY created_at DESC) as tests_json
+    FROM public.blood_tests bt GROUP BY lead_id
+) blood_agg ON l.id = blood_agg.lead_id
+
+-- Daily check-ins
+LEFT JOIN public.customer_check_in_stats ci_stats ON l.customer_id = ci_stats.customer_id;
+
+
+-- Add comments
+COMMENT ON VIEW public.customer_check_in_stats IS 'Daily check-in compliance per customer: last check-in, current/longest streak, check-ins in the last 7 days';
+COMMENT ON TABLE public.check_in_reminder_settings IS 'Missed daily check-in alerts: days without a check-in before the coach is notified, optional WhatsApp reminder flow';
+COMMENT ON COLUMN public.check_in_reminder_settings.reminder_flow_key IS 'Flow sent to the trainee when flagged (NULL = notify the coach only)';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
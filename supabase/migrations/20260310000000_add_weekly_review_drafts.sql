@@ -0,0 +1,299 @@
+-- =====================================================
+-- Add Auto-Generated Weekly Review Drafts
+-- Created: 2026-03-10
+-- Description: Builds a draft weekly_reviews row per active trainee at week end
+--              - Targets from the active nutrition plan / steps plan (budget as fallback)
+--              - Averages from daily_check_ins and week-over-week changes
+--              - Drafts are hidden from trainees until the coach saves the review
+--              Scheduled with pg_cron (see WEEKLY_REVIEW_DRAFTS.md)
+-- =====================================================
+
+-- =====================================================
+-- Draft and week-over-week columns
+-- =====================================================
+
+ALTER TABLE public.weekly_reviews
+ADD COLUMN IF NOT EXISTS is_draft BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS generated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS check_ins_count INTEGER,
+ADD COLUMN IF NOT EXISTS actual_steps_avg NUMERIC(10,2),
+ADD COLUMN IF NOT EXISTS weight_change NUMERIC(5,2),
+ADD COLUMN IF NOT EXISTS waist_change INTEGER,
+ADD COLUMN IF NOT EXISTS calories_avg_change NUMERIC(10,2),
+ADD COLUMN IF NOT EXISTS protein_avg_change NUMERIC(10,2),
+ADD COLUMN IF NOT EXISTS steps_avg_change NUMERIC(10,2);
+
+CREATE INDEX IF NOT EXISTS idx_weekly_reviews_is_draft ON public.weekly_reviews(is_draft) WHERE is_draft = TRUE;
+
+-- Trainees only see reviews their coach saved
+DROP POLICY IF EXISTS "Trainees can view own weekly reviews" ON public.weekly_reviews;
+CREATE POLICY "Trainees can view own weekly reviews"
+    ON public.weekly_reviews FOR SELECT
+    USING (
+        is_draft = FALSE
+        AND EXISTS (
+            SELECT 1 FROM public.customers
+            WHERE customers.id = weekly_reviews.customer_id
+            AND customers.user_id = auth.uid()
+        )
+    );
+
+-- =====================================================
+-- Draft for a single trainee
+-- =====================================================
+
+-- Builds (or refreshes) the draft review of one customer for the week containing p_week_start
+-- (weeks start on Sunday, like the weekly review module). Reviews the coach already saved are
+-- never touched. Returns the review id.
+CREATE OR REPLACE FUNCTION public.generate_weekly_review_draft(
+    p_customer_id UUID,
+    p_week_start DATE,
+    p_lead_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_week_start DATE := p_week_start - EXTRACT(DOW FROM p_week_start)::INTEGER;
+    v_week_end DATE := p_week_start - EXTRACT(DOW FROM p_week_start)::INTEGER + 6;
+    v_lead_id UUID := p_lead_id;
+    v_review_id UUID;
+    v_is_draft BOOLEAN;
+    v_nutrition JSONB;
+    v_budget_targets JSONB;
+    v_budget_steps INTEGER;
+    v_plan_steps INTEGER;
+    v_target_calories INTEGER;
+    v_target_protein INTEGER;
+    v_target_carbs INTEGER;
+    v_target_fat INTEGER;
+    v_target_fiber INTEGER;
+    v_target_steps INTEGER;
+    v_target_weight NUMERIC;
+    v_target_waist INTEGER;
+    v_stats RECORD;
+BEGIN
+    -- Called by pg_cron / service role (no auth.uid()) or by staff with the health_data
+    -- permission from the weekly review module (has_permission: 20260321000000_add_staff_roles_and_permissions.sql)
+    IF auth.uid() IS NOT NULL AND NOT public.has_permission('health_data') THEN
+        RAISE EXCEPTION 'Only staff with the health_data permission can generate weekly review drafts';
+    END IF;
+
+    IF v_lead_id IS NULL THEN
+        SELECT l.id INTO v_lead_id
+        FROM public.leads l
+        WHERE l.customer_id = p_customer_id
+        ORDER BY l.created_at DESC
+        LIMIT 1;
+    END IF;
+
+    SELECT wr.id, wr.is_draft INTO v_review_id, v_is_draft
+    FROM public.weekly_reviews wr
+    WHERE wr.week_start_date = v_week_start
+      AND (wr.customer_id = p_customer_id OR (v_lead_id IS NOT NULL AND wr.lead_id = v_lead_id))
+    LIMIT 1;
+
+    IF v_review_id IS NOT NULL AND NOT v_is_draft THEN
+        RETURN v_review_id;
+    END IF;
+
+    -- Targets: active nutrition plan and steps plan, falling back to the active budget
+    SELECT np.targets INTO v_nutrition
+    FROM public.nutrition_plans np
+    WHERE np.is_active = TRUE
+      AND (np.customer_id = p_customer_id OR (v_lead_id IS NOT NULL AND np.lead_id = v_lead_id))
+    ORDER BY np.updated_at DESC
+    LIMIT 1;
+
+    SELECT NULLIF(sp.steps_goal, 0) INTO v_plan_steps
+    FROM public.steps_plans sp
+    WHERE sp.is_active = TRUE
+      AND (sp.customer_id = p_customer_id OR (v_lead_id IS NOT NULL AND sp.lead_id = v_lead_id))
+    ORDER BY sp.updated_at DESC
+    LIMIT 1;
+
+    SELECT b.nutrition_targets, NULLIF(b.steps_goal, 0) INTO v_budget_targets, v_budget_steps
+    FROM public.budget_assignments ba
+    JOIN public.budgets b ON b.id = ba.budget_id
+    WHERE ba.is_active = TRUE
+      AND (ba.customer_id = p_customer_id OR (v_lead_id IS NOT NULL AND ba.lead_id = v_lead_id))
+    ORDER BY ba.assigned_at DESC
+    LIMIT 1;
+
+    v_target_calories := ROUND(COALESCE(NULLIF(v_nutrition->>'calories', '')::NUMERIC, NULLIF(v_budget_targets->>'calories', '')::NUMERIC));
+    v_target_protein := ROUND(COALESCE(NULLIF(v_nutrition->>'protein', '')::NUMERIC, NULLIF(v_budget_targets->>'protein', '')::NUMERIC));
+    v_target_carbs := ROUND(COALESCE(NULLIF(v_nutrition->>'carbs', '')::NUMERIC, NULLIF(v_budget_targets->>'carbs', '')::NUMERIC));
+    v_target_fat := ROUND(COALESCE(NULLIF(v_nutrition->>'fat', '')::NUMERIC, NULLIF(v_budget_targets->>'fat', '')::NUMERIC));
+    v_target_fiber := ROUND(COALESCE(NULLIF(v_nutrition->>'fiber', '')::NUMERIC, NULLIF(v_budget_targets->>'fiber_min', '')::NUMERIC));
+    v_target_steps := COALESCE(v_plan_steps, v_budget_steps);
+
+    -- Weight / waist targets are set by the coach - carry them over from the previous review
+    SELECT wr.target_weight, wr.target_waist INTO v_target_weight, v_target_waist
+    FROM public.weekly_reviews wr
+    WHERE wr.customer_id = p_customer_id
+      AND wr.week_start_date < v_week_start
+    ORDER BY wr.week_start_date DESC
+    LIMIT 1;
+
+    -- This week's averages and the previous week's, for the week-over-week changes
+    SELECT
+        COUNT(*) FILTER (WHERE ci.check_in_date >= v_week_start) AS check_ins_count,
+        AVG(ci.calories_daily) FILTER (WHERE ci.check_in_date >= v_week_start) AS calories_avg,
+        AVG(ci.protein_daily) FILTER (WHERE ci.check_in_date >= v_week_start) AS protein_avg,
+        AVG(ci.fiber_daily) FILTER (WHERE ci.check_in_date >= v_week_start) AS fiber_avg,
+        AVG(ci.steps_actual) FILTER (WHERE ci.check_in_date >= v_week_start) AS steps_avg,
+        AVG(ci.weight) FILTER (WHERE ci.check_in_date >= v_week_start) AS weight_avg,
+        (ARRAY_AGG(ci.waist_circumference ORDER BY ci.check_in_date DESC)
+            FILTER (WHERE ci.check_in_date >= v_week_start AND ci.waist_circumference IS NOT NULL))[1] AS waist,
+        AVG(ci.calories_daily) FILTER (WHERE ci.check_in_date < v_week_start) AS prev_calories_avg,
+        AVG(ci.protein_daily) FILTER (WHERE ci.check_in_date < v_week_start) AS prev_protein_avg,
+        AVG(ci.steps_actual) FILTER (WHERE ci.check_in_date < v_week_start) AS prev_steps_avg,
+        AVG(ci.weight) FILTER (WHERE ci.check_in_date < v_week_start) AS prev_weight_avg,
+        (ARRAY_AGG(ci.waist_circumference ORDER BY ci.check_in_date DESC)
+            FILTER (WHERE ci.check_in_date < v_week_start AND ci.waist_circumference IS NOT NULL))[1] AS prev_waist
+    INTO v_stats
+    FROM public.daily_check_ins ci
+    WHERE ci.customer_id = p_customer_id
+      AND ci.check_in_date BETWEEN v_week_start - 7 AND v_week_end;
+
+    IF v_review_id IS NOT NULL THEN
+        -- Refresh the draft numbers, keep whatever the coach already wrote
+        UPDATE public.weekly_reviews SET
+            target_calories = v_target_calories,
+            target_protein = v_target_protein,
+            target_carbs = v_target_carbs,
+            target_fat = v_target_fat,
+            target_fiber = v_target_fiber,
+            target_steps = v_target_steps,
+            actual_calories_avg = ROUND(v_stats.calories_avg, 1),
+            actual_protein_avg = ROUND(v_stats.protein_avg, 1),
+            actual_fiber_avg = ROUND(v_stats.fiber_avg, 1),
+            actual_calories_weekly_avg = ROUND(v_stats.calories_avg, 1),
+            actual_steps_avg = ROUND(v_stats.steps_avg),
+            weekly_avg_weight = ROUND(v_stats.weight_avg, 2),
+            waist_measurement = v_stats.waist,
+            check_ins_count = v_stats.check_ins_count,
+            weight_change = ROUND(v_stats.weight_avg - v_stats.prev_weight_avg, 2),
+            waist_change = v_stats.waist - v_stats.prev_waist,
+            calories_avg_change = ROUND(v_stats.calories_avg - v_stats.prev_calories_avg, 1),
+            protein_avg_change = ROUND(v_stats.protein_avg - v_stats.prev_protein_avg, 1),
+            steps_avg_change = ROUND(v_stats.steps_avg - v_stats.prev_steps_avg),
+            generated_at = NOW()
+        WHERE id = v_review_id;
+
+        RETURN v_review_id;
+    END IF;
+
+    INSERT INTO public.weekly_reviews (
+        lead_id, customer_id, week_start_date, week_end_date,
+        target_calories, target_protein, target_carbs, target_fat, target_fiber, target_steps,
+        target_weight, target_waist,
+        actual_calories_avg, actual_protein_avg, actual_fiber_avg, actual_calories_weekly_avg, actual_steps_avg,
+        weekly_avg_weight, waist_measurement, check_ins_count,
+        weight_change, waist_change, calories_avg_change, protein_avg_change, steps_avg_change,
+        updated_steps_goal, updated_calories_target,
+        is_draft, generated_at, created_by
+    ) VALUES (
+        v_lead_id, p_customer_id, v_week_start, v_week_end,
+        v_target_calories, v_target_protein, v_target_carbs, v_target_fat, v_target_fiber, v_target_steps,
+        v_target_weight, v_target_waist,
+        ROUND(v_stats.calories_avg, 1), ROUND(v_stats.protein_avg, 1), ROUND(v_stats.fiber_avg, 1),
+        ROUND(v_stats.calories_avg, 1), ROUND(v_stats.steps_avg),
+        ROUND(v_stats.weight_avg, 2), v_stats.waist, v_stats.check_ins_count,
+        ROUND(v_stats.weight_avg - v_stats.prev_weight_avg, 2),
+        v_stats.waist - v_stats.prev_waist,
+        ROUND(v_stats.calories_avg - v_stats.prev_calories_avg, 1),
+        ROUND(v_stats.protein_avg - v_stats.prev_protein_avg, 1),
+        ROUND(v_stats.steps_avg - v_stats.prev_steps_avg),
+        -- Next week's protocol starts from the current targets
+        v_target_steps, v_target_calories,
+        TRUE, NOW(), auth.uid()
+    )
+    RETURNING id INTO v_review_id;
+
+    RETURN v_review_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.generate_weekly_review_draft(UUID, DATE, UUID) TO authenticated;
+
+-- =====================================================
+-- Drafts for all active trainees
+-- =====================================================
+
+-- Creates the drafts of every active trainee (active subscription + active portal user) that
+-- checked in at least once during the week. Defaults to the week ending today when run on
+-- Saturday, otherwise to the last completed week. Returns the number of drafts created/refreshed.
+CREATE OR REPLACE FUNCTION public.generate_weekly_review_drafts(p_week_start DATE DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_week_start DATE;
+    trainee RECORD;
+    v_review_id UUID;
+    v_count INTEGER := 0;
+BEGIN
+    IF p_week_start IS NOT NULL THEN
+        v_week_start := p_week_start - EXTRACT(DOW FROM p_week_start)::INTEGER;
+    ELSIF EXTRACT(DOW FROM CURRENT_DATE) = 6 THEN
+        v_week_start := CURRENT_DATE - 6;
+    ELSE
+        v_week_start := CURRENT_DATE - EXTRACT(DOW FROM CURRENT_DATE)::INTEGER - 7;
+    END IF;
+
+    FOR trainee IN
+        SELECT DISTINCT ON (c.id)
+            c.id AS customer_id,
+            l.id AS lead_id
+        FROM public.customers c
+        JOIN public.profiles p ON p.id = c.user_id AND p.is_active = TRUE
+        JOIN public.leads l ON l.customer_id = c.id AND (l.subscription_data->>'status')::TEXT = 'פעיל'
+        WHERE EXISTS (
+            SELECT 1 FROM public.daily_check_ins ci
+            WHERE ci.customer_id = c.id
+              AND ci.check_in_date BETWEEN v_week_start AND v_week_start + 6
+        )
+        ORDER BY c.id, l.created_at DESC
+    LOOP
+        BEGIN
+            v_review_id := public.generate_weekly_review_draft(trainee.customer_id, v_week_start, trainee.lead_id);
+            IF v_review_id IS NOT NULL THEN
+                v_count := v_count + 1;
+            END IF;
+        EXCEPTION WHEN OTHERS THEN
+            -- One broken trainee must not stop the whole run
+            RAISE WARNING 'Weekly review draft failed for customer %: %', trainee.customer_id, SQLERRM;
+        END;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+-- Only pg_cron / the service role runs the batch
+REVOKE EXECUTE ON FUNCTION public.generate_weekly_review_drafts(DATE) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON COLUMN public.weekly_reviews.is_draft IS 'Auto-generated review the coach has not saved yet (hidden from the trainee)';
+COMMENT ON COLUMN public.weekly_reviews.generated_at IS 'When the draft numbers were last computed by generate_weekly_review_draft()';
+COMMENT ON COLUMN public.weekly_reviews.check_ins_count IS 'Number of daily check-ins during the week';
+COMMENT ON COLUMN public.weekly_reviews.actual_steps_avg IS 'Average daily steps from check-ins during the week';
+COMMENT ON COLUMN public.weekly_reviews.weight_change IS 'Average weight change vs. the previous week (kg)';
+COMMENT ON COLUMN public.weekly_reviews.waist_change IS 'Latest waist change vs. the previous week (cm)';
+COMMENT ON COLUMN public.weekly_reviews.calories_avg_change IS 'Average daily calories change vs. the previous week';
+COMMENT ON COLUMN public.weekly_reviews.protein_avg_change IS 'Average daily protein change vs. the previous week (g)';
+COMMENT ON COLUMN public.weekly_reviews.steps_avg_change IS 'Average daily steps change vs. the previous week';
+COMMENT ON FUNCTION public.generate_weekly_review_draft(UUID, DATE, UUID) IS 'Build or refresh the draft weekly review of one customer';
+COMMENT ON FUNCTION public.generate_weekly_review_drafts(DATE) IS 'Build draft weekly reviews for all active trainees (pg_cron, end of week)';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
@@ -0,0 +1,297 @@
+-- =====================================================
+-- Add Structured Meeting Columns
+-- Created: 2026-03-11
+-- Description: Moves meeting scheduling out of the opaque meeting_data JSONB
+--              - meetings: start_time, end_time, meeting_date, meeting_type, status,
+--                location, video_link and owner_id (the coach running the meeting)
+--              - parse_meeting_data(): reads the Fillout / legacy dialog keys out of meeting_data
+--              - sync trigger: Fillout inserts and re-syncs that only send meeting_data keep
+--                filling the columns, without overwriting columns edited in the app
+--              - backfill of existing meetings
+--              - get_meeting_conflicts(): overlapping meetings of the same coach
+--              - profiles: staff can see other staff members (for the owner picker)
+-- =====================================================
+
+-- =====================================================
+-- Columns
+-- =====================================================
+
+ALTER TABLE public.meetings
+    ADD COLUMN IF NOT EXISTS start_time TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS end_time TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS meeting_date DATE,
+    ADD COLUMN IF NOT EXISTS meeting_type TEXT,
+    ADD COLUMN IF NOT EXISTS status TEXT,
+    ADD COLUMN IF NOT EXISTS location TEXT,
+    ADD COLUMN IF NOT EXISTS video_link TEXT,
+    ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.meetings
+    DROP CONSTRAINT IF EXISTS meetings_end_after_start;
+ALTER TABLE public.meetings
+    ADD CONSTRAINT meetings_end_after_start CHECK (end_time IS NULL OR start_time IS NULL OR end_time > start_time);
+
+CREATE INDEX IF NOT EXISTS idx_meetings_start_time ON public.meetings(start_time);
+CREATE INDEX IF NOT EXISTS idx_meetings_meeting_date ON public.meetings(meeting_date);
+CREATE INDEX IF NOT EXISTS idx_meetings_status ON public.meetings(status);
+CREATE INDEX IF NOT EXISTS idx_meetings_owner_start ON public.meetings(owner_id, start_time);
+
+COMMENT ON COLUMN public.meetings.start_time IS 'Meeting start. Source of truth for scheduling (meeting_data is kept as the raw Fillout payload)';
+COMMENT ON COLUMN public.meetings.meeting_date IS 'Local (Asia/Jerusalem) date of start_time, or a date-only legacy meeting';
+COMMENT ON COLUMN public.meetings.owner_id IS 'Coach running the meeting. Defaults to the lead''s assigned coach';
+
+-- =====================================================
+-- Parse meeting_data
+-- =====================================================
+
+-- Text -> timestamp without failing the whole statement on garbage input
+CREATE OR REPLACE FUNCTION public.try_parse_timestamptz(p_value TEXT)
+RETURNS TIMESTAMPTZ AS $$
+BEGIN
+    IF p_value IS NULL OR btrim(p_value) = '' THEN
+        RETURN NULL;
+    END IF;
+    RETURN p_value::TIMESTAMPTZ;
+EXCEPTION WHEN OTHERS THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION public.try_parse_date(p_value TEXT)
+RETURNS DATE AS $$
+BEGIN
+    IF p_value IS NULL OR btrim(p_value) = '' THEN
+        RETURN NULL;
+    END IF;
+    RETURN p_value::DATE;
+EXCEPTION WHEN OTHERS THEN
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Same key priority as the calendar getters used before these columns existed
+CREATE OR REPLACE FUNCTION public.parse_meeting_data(p_data JSONB)
+RETURNS TABLE (
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    meeting_date DATE,
+    meeting_type TEXT,
+    status TEXT,
+    location TEXT,
+    video_link TEXT
+) AS $$
+DECLARE
+    v_data JSONB := COALESCE(p_data, '{}'::jsonb);
+    v_date DATE;
+    v_start_text TEXT;
+    v_end_text TEXT;
+BEGIN
+    -- Full timestamps: dialog / webhook keys, then the Fillout scheduling question
+    start_time := public.try_parse_timestamptz(COALESCE(
+        v_data->>'event_start_time',
+        v_data->>'eventStartTime',
+        v_data->'scheduling'->0->'value'->>'eventStartTime',
+        v_data->>'scheduling[0].value.eventStartTime'
+    ));
+    end_time := public.try_parse_timestamptz(COALESCE(
+        v_data->>'event_end_time',
+        v_data->>'eventEndTime',
+        v_data->'scheduling'->0->'value'->>'eventEndTime',
+        v_data->>'scheduling[0].value.eventEndTime'
+    ));
+
+    v_date := public.try_parse_date(COALESCE(
+        v_data->>'date',
+        v_data->>'meeting_date',
+        v_data->>'תאריך',
+        v_data->>'תאריך פגישה',
+        v_data->>'Date',
+        v_data->>'Meeting Date'
+    ));
+
+    -- Date + "HH:MM" pairs are local Israel time
+    IF v_date IS NOT NULL THEN
+        v_start_text := substring(COALESCE(v_data->>'meeting_time_start', v_data->>'time_start', v_data->>'שעת התחלה') FROM '^\d{1,2}:\d{2}');
+        v_end_text := substring(COALESCE(v_data->>'meeting_time_end', v_data->>'time_end', v_data->>'שעת סיום') FROM '^\d{1,2}:\d{2}');
+
+        IF start_time IS NULL AND v_start_text IS NOT NULL THEN
+            start_time := public.try_parse_timestamptz(v_date::TEXT || ' ' || v_start_text || ' Asia/Jerusalem');
+        END IF;
+        IF end_time IS NULL AND v_end_text IS NOT NULL AND start_time IS NOT NULL THEN
+            end_time := public.try_parse_timestamptz(
+                (start_time AT TIME ZONE 'Asia/Jerusalem')::DATE::TEXT || ' ' || v_end_text || ' Asia/Jerusalem'
+            );
+        END IF;
+    END IF;
+
+    IF end_time IS NOT NULL AND start_time IS NOT NULL AND end_time <= start_time THEN
+        end_time := NULL;
+    END IF;
+
+    meeting_date := COALESCE((start_time AT TIME ZONE 'Asia/Jerusalem')::DATE, v_date);
+    meeting_type := NULLIF(btrim(COALESCE(v_data->>'סוג פגישה', v_data->>'meeting_type', v_data->>'type')), '');
+    status := NULLIF(btrim(COALESCE(v_data->>'status', v_data->>'סטטוס')), '');
+    location := NULLIF(btrim(COALESCE(v_data->>'location', v_data->>'מיקום')), '');
+    video_link := NULLIF(btrim(COALESCE(v_data->>'video_link', v_data->>'meeting_link', v_data->>'קישור לפגישה')), '');
+
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =====================================================
+-- Keep columns in sync with meeting_data
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.sync_meeting_columns()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_new RECORD;
+    v_old RECORD;
+BEGIN
+    SELECT * INTO v_new FROM public.parse_meeting_data(NEW.meeting_data);
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.start_time := COALESCE(NEW.start_time, v_new.start_time);
+        NEW.end_time := COALESCE(NEW.end_time, v_new.end_time);
+        NEW.meeting_type := COALESCE(NEW.meeting_type, v_new.meeting_type);
+        NEW.status := COALESCE(NEW.status, v_new.status);
+        NEW.location := COALESCE(NEW.location, v_new.location);
+        NEW.video_link := COALESCE(NEW.video_link, v_new.video_link);
+
+        IF NEW.meeting_date IS NULL AND NEW.start_time IS NULL THEN
+            NEW.meeting_date := v_new.meeting_date;
+        END IF;
+
+        IF NEW.owner_id IS NULL AND NEW.lead_id IS NOT NULL THEN
+            SELECT assigned_to INTO NEW.owner_id FROM public.leads WHERE id = NEW.lead_id;
+        END IF;
+        IF NEW.owner_id IS NULL AND NEW.created_by IS NOT NULL THEN
+            SELECT id INTO NEW.owner_id FROM public.profiles
+            WHERE id = NEW.created_by AND role IN ('admin', 'user');
+        END IF;
+    ELSIF NEW.meeting_data IS DISTINCT FROM OLD.meeting_data THEN
+        -- A re-synced payload only wins for fields it actually changed and the same
+        -- update did not set explicitly, so stale JSON never overwrites app edits
+        SELECT * INTO v_old FROM public.parse_meeting_data(OLD.meeting_data);
+
+        IF v_new.start_time IS DISTINCT FROM v_old.start_time AND NEW.start_time IS NOT DISTINCT FROM OLD.start_time THEN
+            NEW.start_time := v_new.start_time;
+            IF NEW.start_time IS NULL THEN
+                NEW.meeting_date := v_new.meeting_date;
+            END IF;
+        END IF;
+        IF v_new.end_time IS DISTINCT FROM v_old.end_time AND NEW.end_time IS NOT DISTINCT FROM OLD.end_time THEN
+            NEW.end_time := v_new.end_time;
+        END IF;
+        IF v_new.meeting_type IS DISTINCT FROM v_old.meeting_type AND NEW.meeting_type IS NOT DISTINCT FROM OLD.meeting_type THEN
+            NEW.meeting_type := v_new.meeting_type;
+        END IF;
+        IF v_new.status IS DISTINCT FROM v_old.status AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+            NEW.status := v_new.status;
+        END IF;
+        IF v_new.location IS DISTINCT FROM v_old.location AND NEW.location IS NOT DISTINCT FROM OLD.location THEN
+            NEW.location := v_new.location;
+        END IF;
+        IF v_new.video_link IS DISTINCT FROM v_old.video_link AND NEW.video_link IS NOT DISTINCT FROM OLD.video_link THEN
+            NEW.video_link := v_new.video_link;
+        END IF;
+    END IF;
+
+    IF NEW.start_time IS NOT NULL THEN
+        NEW.meeting_date := (NEW.start_time AT TIME ZONE 'Asia/Jerusalem')::DATE;
+    END IF;
+    IF NEW.end_time IS NOT NULL AND (NEW.start_time IS NULL OR NEW.end_time <= NEW.start_time) THEN
+        NEW.end_time := NULL;
+    END IF;
+    NEW.status := COALESCE(NEW.status, 'פעיל');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- Backfill existing meetings
+-- =====================================================
+
+UPDATE public.meetings m
+SET
+    start_time = p.start_time,
+    end_time = p.end_time,
+    meeting_date = p.meeting_date,
+    meeting_type = p.meeting_type,
+    status = COALESCE(p.status, 'פעיל'),
+    location = p.location,
+    video_link = p.video_link,
+    owner_id = COALESCE(
+        (SELECT l.assigned_to FROM public.leads l WHERE l.id = m.lead_id),
+        (SELECT pr.id FROM public.profiles pr WHERE pr.id = m.created_by AND pr.role IN ('admin', 'user'))
+    )
+FROM (
+    SELECT mt.id AS meeting_id, parsed.*
+    FROM public.meetings mt
+    CROSS JOIN LATERAL public.parse_meeting_data(mt.meeting_data) parsed
+) p
+WHERE m.id = p.meeting_id
+  AND m.start_time IS NULL
+  AND m.status IS NULL;
+
+DROP TRIGGER IF EXISTS sync_meeting_columns ON public.meetings;
+CREATE TRIGGER sync_meeting_columns
+    BEFORE INSERT OR UPDATE ON public.meetings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_meeting_columns();
+
+-- =====================================================
+-- Conflict detection
+-- =====================================================
+
+-- Non-cancelled meetings of the same coach overlapping [p_start, p_end).
+-- Meetings without an end time count as one hour.
+CREATE OR REPLACE FUNCTION public.get_meeting_conflicts(
+    p_owner_id UUID,
+    p_start TIMESTAMPTZ,
+    p_end TIMESTAMPTZ DEFAULT NULL,
+    p_exclude_meeting_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    start_time TIMESTAMPTZ,
+    end_time TIMESTAMPTZ,
+    meeting_type TEXT,
+    customer_name TEXT
+) AS $$
+    SELECT
+        m.id,
+        m.start_time,
+        m.end_time,
+        m.meeting_type,
+        COALESCE(c.full_name, lc.full_name) AS customer_name
+    FROM public.meetings m
+    LEFT JOIN public.customers c ON c.id = m.customer_id
+    LEFT JOIN public.leads l ON l.id = m.lead_id
+    LEFT JOIN public.customers lc ON lc.id = l.customer_id
+    WHERE p_owner_id IS NOT NULL
+      AND p_start IS NOT NULL
+      AND m.owner_id = p_owner_id
+      AND m.start_time IS NOT NULL
+      AND (p_exclude_meeting_id IS NULL OR m.id <> p_exclude_meeting_id)
+      AND COALESCE(m.status, '') NOT IN ('בוטל', 'מבוטל')
+      AND m.start_time < COALESCE(p_end, p_start + INTERVAL '1 hour')
+      AND COALESCE(m.end_time, m.start_time + INTERVAL '1 hour') > p_start
+    ORDER BY m.start_time;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.get_meeting_conflicts(UUID, TIMESTAMPTZ, TIMESTAMPTZ, UUID) TO authenticated;
+
+-- =====================================================
+-- Staff can list staff profiles (meeting owner picker)
+-- =====================================================
+
+DROP POLICY IF EXISTS "Staff can view staff profiles" ON public.profiles;
+CREATE POLICY "Staff can view staff profiles"
+    ON public.profiles FOR SELECT
+    USING (role IN ('admin', 'user') AND public.is_admin_or_manager());
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
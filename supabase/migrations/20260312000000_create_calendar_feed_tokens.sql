@@ -0,0 +1,81 @@
+-- =====================================================
+-- Create Calendar Feed Tokens
+-- Created: 2026-03-12
+-- Description: Secret per-coach tokens for the meetings iCalendar feed
+--              - calendar_feed_tokens: one row per subscribed calendar (phone, laptop...)
+--              - create_calendar_feed_token() / revoke_calendar_feed_token(): the only way to
+--                add or revoke a token, so tokens are always server-generated
+--              Served by the meetings-ics-feed edge function (see CALENDAR_FEED.md)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE,
+    label TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_tokens_user_id ON public.calendar_feed_tokens(user_id);
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Secret tokens for the per-coach meetings ICS feed (meetings-ics-feed edge function)';
+COMMENT ON COLUMN public.calendar_feed_tokens.revoked_at IS 'Revoked tokens stop working immediately; kept for the settings history';
+
+-- =====================================================
+-- RLS - users see their own tokens; writes go through the functions below
+-- =====================================================
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own calendar feed tokens" ON public.calendar_feed_tokens;
+CREATE POLICY "Users can view own calendar feed tokens"
+    ON public.calendar_feed_tokens FOR SELECT
+    USING (user_id = auth.uid());
+
+-- =====================================================
+-- Create / revoke
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.create_calendar_feed_token(p_label TEXT DEFAULT NULL)
+RETURNS public.calendar_feed_tokens AS $$
+DECLARE
+    v_token public.calendar_feed_tokens;
+BEGIN
+    -- has_permission: 20260321000000_add_staff_roles_and_permissions.sql
+    IF NOT public.has_permission('meetings') THEN
+        RAISE EXCEPTION 'Only staff with the meetings permission can create calendar feeds';
+    END IF;
+
+    INSERT INTO public.calendar_feed_tokens (user_id, token, label)
+    VALUES (
+        auth.uid(),
+        replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+        NULLIF(btrim(p_label), '')
+    )
+    RETURNING * INTO v_token;
+
+    RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.revoke_calendar_feed_token(p_token_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE public.calendar_feed_tokens
+    SET revoked_at = NOW()
+    WHERE id = p_token_id
+      AND user_id = auth.uid()
+      AND revoked_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_calendar_feed_token(TEXT) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.revoke_calendar_feed_token(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_calendar_feed_token(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_calendar_feed_token(UUID) TO authenticated;
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
@@ -0,0 +1,228 @@
+-- =====================================================
+-- Create Coach Availability (Self-Service Booking)
+-- Created: 2026-03-13
+-- Description: Availability rules behind the public booking page (/book/:slug)
+--              - coach_booking_settings: public link, slot length, buffer and booking window per coach
+--              - coach_availability_rules: weekly working hours and breaks
+--              - coach_availability_exceptions: holidays / days off (date ranges)
+--              - public_booking_attempts: per-phone and per-IP throttling of the public page
+--              - book_public_meeting(): books a slot under a per-coach lock
+--              Slots are computed and booked by the public-booking edge function (see BOOKING.md)
+-- =====================================================
+
+-- =====================================================
+-- Booking settings - one row per coach
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.coach_booking_settings (
+    coach_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    is_bookable BOOLEAN NOT NULL DEFAULT false,
+    booking_slug TEXT UNIQUE,
+    display_name TEXT,
+    meeting_type TEXT NOT NULL DEFAULT 'פגישת הכרות',
+    slot_duration_minutes INTEGER NOT NULL DEFAULT 30 CHECK (slot_duration_minutes BETWEEN 10 AND 240),
+    buffer_minutes INTEGER NOT NULL DEFAULT 0 CHECK (buffer_minutes BETWEEN 0 AND 120),
+    min_notice_hours INTEGER NOT NULL DEFAULT 12 CHECK (min_notice_hours BETWEEN 0 AND 168),
+    max_days_ahead INTEGER NOT NULL DEFAULT 21 CHECK (max_days_ahead BETWEEN 1 AND 90),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT coach_booking_settings_slug_format CHECK (booking_slug IS NULL OR booking_slug ~ '^[a-z0-9][a-z0-9-]{1,48}[a-z0-9]$')
+);
+
+COMMENT ON TABLE public.coach_booking_settings IS 'Per-coach settings for the public booking page';
+COMMENT ON COLUMN public.coach_booking_settings.booking_slug IS 'Public link: /book/<booking_slug>';
+COMMENT ON COLUMN public.coach_booking_settings.buffer_minutes IS 'Free time kept before and after every meeting';
+COMMENT ON COLUMN public.coach_booking_settings.min_notice_hours IS 'Slots starting sooner than this are not offered';
+
+-- =====================================================
+-- Weekly hours and breaks (Asia/Jerusalem wall-clock times)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.coach_availability_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    coach_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+    kind TEXT NOT NULL DEFAULT 'hours' CHECK (kind IN ('hours', 'break')),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT coach_availability_rules_time_order CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coach_availability_rules_coach_id ON public.coach_availability_rules(coach_id);
+
+COMMENT ON COLUMN public.coach_availability_rules.weekday IS '0 = Sunday ... 6 = Saturday';
+COMMENT ON COLUMN public.coach_availability_rules.kind IS 'hours = bookable window, break = blocked inside the windows of the same day';
+
+-- =====================================================
+-- Holidays / days off
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.coach_availability_exceptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    coach_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    date_from DATE NOT NULL,
+    date_to DATE NOT NULL,
+    label TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT coach_availability_exceptions_date_order CHECK (date_to >= date_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coach_availability_exceptions_coach_dates
+    ON public.coach_availability_exceptions(coach_id, date_to);
+
+-- =====================================================
+-- updated_at
+-- =====================================================
+
+DROP TRIGGER IF EXISTS update_coach_booking_settings_updated_at ON public.coach_booking_settings;
+CREATE TRIGGER update_coach_booking_settings_updated_at
+    BEFORE UPDATE ON public.coach_booking_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- RLS - coaches manage their own availability, managers can view everyone's.
+-- The public page never reads these tables directly (public-booking uses the service role).
+-- =====================================================
+
+ALTER TABLE public.coach_booking_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coach_availability_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coach_availability_exceptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coaches can manage own booking settings" ON public.coach_booking_settings;
+CREATE POLICY "Coaches can manage own booking settings"
+    ON public.coach_booking_settings FOR ALL
+    USING (coach_id = auth.uid() AND public.is_admin_or_manager())
+    WITH CHECK (coach_id = auth.uid() AND public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Staff can view booking settings" ON public.coach_booking_settings;
+CREATE POLICY "Staff can view booking settings"
+    ON public.coach_booking_settings FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Coaches can manage own availability rules" ON public.coach_availability_rules;
+CREATE POLICY "Coaches can manage own availability rules"
+    ON public.coach_availability_rules FOR ALL
+    USING (coach_id = auth.uid() AND public.is_admin_or_manager())
+    WITH CHECK (coach_id = auth.uid() AND public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Staff can view availability rules" ON public.coach_availability_rules;
+CREATE POLICY "Staff can view availability rules"
+    ON public.coach_availability_rules FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Coaches can manage own availability exceptions" ON public.coach_availability_exceptions;
+CREATE POLICY "Coaches can manage own availability exceptions"
+    ON public.coach_availability_exceptions FOR ALL
+    USING (coach_id = auth.uid() AND public.is_admin_or_manager())
+    WITH CHECK (coach_id = auth.uid() AND public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Staff can view availability exceptions" ON public.coach_availability_exceptions;
+CREATE POLICY "Staff can view availability exceptions"
+    ON public.coach_availability_exceptions FOR SELECT
+    USING (public.is_admin_or_manager());
+
+-- =====================================================
+-- Public booking throttling
+-- =====================================================
+
+-- Booking attempts of the last day. No policies: only the public-booking function
+-- (service role) reads and writes it.
+CREATE TABLE IF NOT EXISTS public.public_booking_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    phone TEXT NOT NULL,
+    ip_address TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_public_booking_attempts_phone ON public.public_booking_attempts(phone, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_public_booking_attempts_ip ON public.public_booking_attempts(ip_address, created_at DESC);
+
+ALTER TABLE public.public_booking_attempts ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.public_booking_attempts IS 'Booking attempts of the public booking page, kept for a day for throttling';
+
+-- Records an attempt and returns FALSE (without recording it) when the phone or the IP
+-- made too many attempts within the last hour
+CREATE OR REPLACE FUNCTION public.record_public_booking_attempt(
+    p_phone TEXT,
+    p_ip_address TEXT,
+    p_max_per_phone INTEGER DEFAULT 5,
+    p_max_per_ip INTEGER DEFAULT 20
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM public.public_booking_attempts WHERE created_at < NOW() - INTERVAL '1 day';
+
+    IF (
+        SELECT COUNT(*) FROM public.public_booking_attempts
+        WHERE phone = p_phone AND created_at > NOW() - INTERVAL '1 hour'
+    ) >= p_max_per_phone THEN
+        RETURN FALSE;
+    END IF;
+
+    IF p_ip_address IS NOT NULL AND (
+        SELECT COUNT(*) FROM public.public_booking_attempts
+        WHERE ip_address = p_ip_address AND created_at > NOW() - INTERVAL '1 hour'
+    ) >= p_max_per_ip THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO public.public_booking_attempts (phone, ip_address) VALUES (p_phone, p_ip_address);
+    RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_public_booking_attempt(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_public_booking_attempt(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+-- =====================================================
+-- Booking a slot
+-- =====================================================
+
+-- Checks the slot and creates the meeting in one transaction, holding a per-coach lock so two
+-- visitors can't book the same time. Returns the meeting id, or NULL when the slot is taken.
+CREATE OR REPLACE FUNCTION public.book_public_meeting(
+    p_owner_id UUID,
+    p_lead_id UUID,
+    p_customer_id UUID,
+    p_start TIMESTAMPTZ,
+    p_end TIMESTAMPTZ,
+    p_meeting_type TEXT,
+    p_meeting_data JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_meeting_id UUID;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('public_booking:' || p_owner_id::TEXT));
+
+    IF EXISTS (SELECT 1 FROM public.get_meeting_conflicts(p_owner_id, p_start, p_end)) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.meetings (
+        lead_id, customer_id, owner_id, start_time, end_time, meeting_type, status, meeting_data
+    )
+    VALUES (
+        p_lead_id, p_customer_id, p_owner_id, p_start, p_end, p_meeting_type, 'מתוכנן', COALESCE(p_meeting_data, '{}'::JSONB)
+    )
+    RETURNING id INTO v_meeting_id;
+
+    RETURN v_meeting_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.book_public_meeting(UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.book_public_meeting(UUID, UUID, UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT, JSONB) TO service_role;
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
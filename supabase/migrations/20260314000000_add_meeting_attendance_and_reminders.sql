@@ -0,0 +1,48 @@
+-- =====================================================
+-- Meeting Attendance & Reminders
+-- Created: 2026-03-14
+-- Description: Attendance tracking and WhatsApp reminders before meetings
+--              - meetings.attendance_status: attended / no_show / rescheduled / cancelled
+--                (NULL = not recorded yet), with who recorded it and when
+--              - meetings.reminder_24h_sent_at / reminder_1h_sent_at: set once the reminder was sent
+--              - meeting_reminder_24h / meeting_reminder_1h flows: the reminder templates,
+--                edited on the WhatsApp automations page
+--              Reminders are sent by the send-meeting-reminders edge function (see MEETING_REMINDERS.md)
+-- =====================================================
+
+ALTER TABLE public.meetings
+    ADD COLUMN IF NOT EXISTS attendance_status TEXT,
+    ADD COLUMN IF NOT EXISTS attendance_updated_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS attendance_updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS reminder_24h_sent_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS reminder_1h_sent_at TIMESTAMPTZ;
+
+ALTER TABLE public.meetings DROP CONSTRAINT IF EXISTS meetings_attendance_status_check;
+ALTER TABLE public.meetings
+    ADD CONSTRAINT meetings_attendance_status_check
+    CHECK (attendance_status IS NULL OR attendance_status IN ('attended', 'no_show', 'rescheduled', 'cancelled'));
+
+COMMENT ON COLUMN public.meetings.attendance_status IS 'attended / no_show / rescheduled / cancelled - NULL until recorded by the coach';
+COMMENT ON COLUMN public.meetings.reminder_24h_sent_at IS 'When the 24h WhatsApp reminder was sent (send-meeting-reminders)';
+COMMENT ON COLUMN public.meetings.reminder_1h_sent_at IS 'When the 1h WhatsApp reminder was sent (send-meeting-reminders)';
+
+CREATE INDEX IF NOT EXISTS idx_meetings_attendance_status ON public.meetings(attendance_status);
+
+-- Upcoming meetings still waiting for a reminder
+CREATE INDEX IF NOT EXISTS idx_meetings_pending_reminders
+    ON public.meetings(start_time)
+    WHERE attendance_status IS NULL AND (reminder_24h_sent_at IS NULL OR reminder_1h_sent_at IS NULL);
+
+-- =====================================================
+-- Reminder flows (same as DEFAULT_FLOW_CONFIGS in utils/whatsappAutomationFlows.ts)
+-- =====================================================
+
+INSERT INTO public.whatsapp_automation_flows (flow_key, label, is_default)
+VALUES
+    ('meeting_reminder_24h', 'תזכורת פגישה - 24 שעות לפני', TRUE),
+    ('meeting_reminder_1h', 'תזכורת פגישה - שעה לפני', TRUE)
+ON CONFLICT (flow_key) DO NOTHING;
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
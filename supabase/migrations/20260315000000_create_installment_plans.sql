@@ -0,0 +1,231 @@
+-- =====================================================
+-- Installment Plans (תשלומים)
+-- Created: 2026-03-15
+-- Description: Payment schedules for subscriptions
+--              - installment_plans: a subscription's total split into N payments, billed manually
+--                or through a Stripe subscription (recurring invoices)
+--              - payment_installments: one row per payment with its due date, each linked to
+--                its own collection (גבייה)
+--              Stripe invoices are reconciled against installments by receive-stripe-webhook
+--              (see INSTALLMENTS.md)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.installment_plans (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+    customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+    subscription_name TEXT NOT NULL,
+    total_amount NUMERIC(10, 2) NOT NULL CHECK (total_amount > 0),
+    currency TEXT NOT NULL DEFAULT 'ILS' CHECK (currency IN ('ILS', 'USD', 'EUR')),
+    installments_count INTEGER NOT NULL CHECK (installments_count BETWEEN 1 AND 36),
+    interval_unit TEXT NOT NULL DEFAULT 'months' CHECK (interval_unit IN ('weeks', 'months')),
+    start_date DATE NOT NULL,
+    billing_method TEXT NOT NULL DEFAULT 'manual' CHECK (billing_method IN ('manual', 'stripe')),
+    stripe_customer_id TEXT,
+    stripe_subscription_id TEXT UNIQUE,
+    status TEXT NOT NULL DEFAULT 'פעיל' CHECK (status IN ('פעיל', 'הושלם', 'בוטל')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.payment_installments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    plan_id UUID NOT NULL REFERENCES public.installment_plans(id) ON DELETE CASCADE,
+    collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL,
+    installment_number INTEGER NOT NULL CHECK (installment_number >= 1),
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+    due_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'ממתין' CHECK (status IN ('ממתין', 'שולם', 'נכשל', 'בוטל')),
+    payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+    stripe_invoice_id TEXT UNIQUE,
+    paid_at TIMESTAMP WITH TIME ZONE,
+    failed_at TIMESTAMP WITH TIME ZONE,
+    failure_reason TEXT,
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    UNIQUE (plan_id, installment_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_installment_plans_lead_id ON public.installment_plans(lead_id);
+CREATE INDEX IF NOT EXISTS idx_installment_plans_customer_id ON public.installment_plans(customer_id);
+CREATE INDEX IF NOT EXISTS idx_payment_installments_plan_id ON public.payment_installments(plan_id, installment_number);
+CREATE INDEX IF NOT EXISTS idx_payment_installments_collection_id ON public.payment_installments(collection_id);
+CREATE INDEX IF NOT EXISTS idx_payment_installments_due_date ON public.payment_installments(due_date) WHERE status IN ('ממתין', 'נכשל');
+
+CREATE TRIGGER update_installment_plans_updated_at
+    BEFORE UPDATE ON public.installment_plans
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_payment_installments_updated_at
+    BEFORE UPDATE ON public.payment_installments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- =====================================================
+-- RLS: staff only (the webhook uses the service role)
+-- =====================================================
+
+ALTER TABLE public.installment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_installments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can manage installment plans" ON public.installment_plans;
+CREATE POLICY "Staff can manage installment plans"
+    ON public.installment_plans FOR ALL
+    USING (public.is_admin_or_manager())
+    WITH CHECK (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Staff can manage payment installments" ON public.payment_installments;
+CREATE POLICY "Staff can manage payment installments"
+    ON public.payment_installments FOR ALL
+    USING (public.is_admin_or_manager())
+    WITH CHECK (public.is_admin_or_manager());
+
+-- =====================================================
+-- create_installment_plan(): the plan, its installments and one collection per installment
+-- in a single transaction. The schedule (amount + due date per payment) is computed by the
+-- client (utils/installments.ts) and must add up to the total.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.create_installment_plan(
+    p_lead_id UUID,
+    p_subscription_name TEXT,
+    p_total_amount NUMERIC,
+    p_currency TEXT,
+    p_interval_unit TEXT,
+    p_billing_method TEXT,
+    p_installments JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_customer_id UUID;
+    v_plan_id UUID;
+    v_collection_id UUID;
+    v_count INTEGER;
+    v_sum NUMERIC;
+    v_item RECORD;
+BEGIN
+    SELECT customer_id INTO v_customer_id FROM public.leads WHERE id = p_lead_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lead % not found', p_lead_id;
+    END IF;
+
+    v_count := jsonb_array_length(p_installments);
+    SELECT COALESCE(SUM((item->>'amount')::NUMERIC), 0) INTO v_sum FROM jsonb_array_elements(p_installments) AS item;
+
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'An installment plan needs at least one installment';
+    END IF;
+    IF ROUND(v_sum, 2) <> ROUND(p_total_amount, 2) THEN
+        RAISE EXCEPTION 'Installments add up to % instead of %', v_sum, p_total_amount;
+    END IF;
+
+    INSERT INTO public.installment_plans (
+        lead_id, customer_id, subscription_name, total_amount, currency,
+        installments_count, interval_unit, start_date, billing_method, created_by
+    )
+    VALUES (
+        p_lead_id, v_customer_id, p_subscription_name, p_total_amount, COALESCE(p_currency, 'ILS'),
+        v_count, COALESCE(p_interval_unit, 'months'), (p_installments->0->>'due_date')::DATE,
+        COALESCE(p_billing_method, 'manual'), auth.uid()
+    )
+    RETURNING id INTO v_plan_id;
+
+    FOR v_item IN
+        SELECT (item.value->>'amount')::NUMERIC AS amount, (item.value->>'due_date')::DATE AS due_date, item.number
+        FROM jsonb_array_elements(p_installments) WITH ORDINALITY AS item(value, number)
+    LOOP
+        INSERT INTO public.collections (lead_id, customer_id, total_amount, due_date, status, description, created_by)
+        VALUES (
+            p_lead_id, v_customer_id, v_item.amount, v_item.due_date, 'ממתין',
+            p_subscription_name || ' - תשלום ' || v_item.number || '/' || v_count,
+            auth.uid()
+        )
+        RETURNING id INTO v_collection_id;
+
+        INSERT INTO public.payment_installments (plan_id, collection_id, installment_number, amount, due_date)
+        VALUES (v_plan_id, v_collection_id, v_item.number, v_item.amount, v_item.due_date);
+    END LOOP;
+
+    RETURN v_plan_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_installment_plan(UUID, TEXT, NUMERIC, TEXT, TEXT, TEXT, JSONB) TO authenticated;
+
+-- =====================================================
+-- Paid payments close their installment: once the paid payments of an installment's collection
+-- cover its amount, the installment is paid, the collection completed and - when nothing is
+-- left to pay - the plan completed. Covers manual payments and the Stripe webhook alike.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.sync_installment_from_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_installment public.payment_installments%ROWTYPE;
+    v_paid NUMERIC;
+BEGIN
+    IF NEW.collection_id IS NULL OR NEW.status <> 'שולם' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO v_installment
+    FROM public.payment_installments
+    WHERE collection_id = NEW.collection_id AND status IN ('ממתין', 'נכשל');
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid
+    FROM public.payments
+    WHERE collection_id = NEW.collection_id AND status = 'שולם';
+
+    IF v_paid < v_installment.amount THEN
+        UPDATE public.collections SET status = 'חלקי' WHERE id = NEW.collection_id AND status = 'ממתין';
+        RETURN NEW;
+    END IF;
+
+    UPDATE public.payment_installments
+    SET status = 'שולם', payment_id = NEW.id, paid_at = NOW(), failure_reason = NULL
+    WHERE id = v_installment.id;
+
+    UPDATE public.collections SET status = 'הושלם' WHERE id = NEW.collection_id;
+
+    UPDATE public.installment_plans
+    SET status = 'הושלם'
+    WHERE id = v_installment.plan_id
+      AND status = 'פעיל'
+      AND NOT EXISTS (
+          SELECT 1 FROM public.payment_installments
+          WHERE plan_id = v_installment.plan_id AND status IN ('ממתין', 'נכשל')
+      );
+
+    RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_installment_from_payment() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS sync_installment_from_payment ON public.payments;
+CREATE TRIGGER sync_installment_from_payment
+    AFTER INSERT OR UPDATE OF status, collection_id ON public.payments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_installment_from_payment();
+
+COMMENT ON TABLE public.installment_plans IS 'Payment schedules (תשלומים) for lead subscriptions - manual or Stripe recurring invoices';
+COMMENT ON TABLE public.payment_installments IS 'Single payments of an installment plan, each linked to a collection';
+COMMENT ON COLUMN public.payment_installments.stripe_invoice_id IS 'Stripe invoice reconciled against this installment (receive-stripe-webhook)';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
@@ -0,0 +1,381 @@
+-- =====================================================
+-- Collection Reconciliation (גבייה)
+-- Created: 2026-03-16
+-- Description: Derives a collection's balance and status from its linked payments
+--              - collections.paid_amount / refunded_amount / remaining_amount / last_payment_at,
+--                kept up to date by a trigger on payments
+--              - status: ממתין -> חלקי -> הושלם follows the paid amount (a refund reopens the
+--                collection); בוטל is the only status set by hand
+--              - payments.refunded_amount / refunded_at (full and partial Stripe refunds)
+--              - installments follow their collection (replaces sync_installment_from_payment)
+--              - check_overdue_collections(): notifies the coach (or admins) once per due date
+--              (see COLLECTIONS_RECONCILIATION.md)
+-- =====================================================
+
+-- =====================================================
+-- Columns
+-- =====================================================
+
+ALTER TABLE public.payments
+    ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0),
+    ADD COLUMN IF NOT EXISTS refunded_at TIMESTAMP WITH TIME ZONE;
+
+-- Payments refunded before this migration were refunded in full
+UPDATE public.payments
+SET refunded_amount = amount, refunded_at = COALESCE(refunded_at, updated_at)
+WHERE status = 'הוחזר' AND refunded_amount = 0;
+
+ALTER TABLE public.collections
+    ADD COLUMN IF NOT EXISTS paid_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS last_payment_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.collections
+    ADD COLUMN IF NOT EXISTS remaining_amount NUMERIC(10, 2)
+    GENERATED ALWAYS AS (GREATEST(total_amount - paid_amount, 0)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_collections_open_due_date
+    ON public.collections(due_date)
+    WHERE status IN ('ממתין', 'חלקי');
+
+-- =====================================================
+-- Status
+-- =====================================================
+
+-- בוטל is kept; any other status follows the paid amount
+CREATE OR REPLACE FUNCTION public.derive_collection_status(p_status TEXT, p_total NUMERIC, p_paid NUMERIC)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_status = 'בוטל' THEN 'בוטל'
+        WHEN p_paid > 0 AND p_paid >= p_total THEN 'הושלם'
+        WHEN p_paid > 0 THEN 'חלקי'
+        ELSE 'ממתין'
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_collection_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.status := public.derive_collection_status(NEW.status, NEW.total_amount, NEW.paid_amount);
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_collection_status ON public.collections;
+CREATE TRIGGER set_collection_status
+    BEFORE INSERT OR UPDATE ON public.collections
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_collection_status();
+
+-- =====================================================
+-- Refunds: a payment marked הוחזר is refunded in full unless a partial amount was recorded
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.stamp_payment_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF NEW.status = 'הוחזר' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'הוחזר') THEN
+        NEW.refunded_amount := NEW.amount;
+        NEW.refunded_at := COALESCE(NEW.refunded_at, NOW());
+    ELSIF TG_OP = 'UPDATE' AND OLD.status = 'הוחזר' AND NEW.status <> 'הוחזר' THEN
+        NEW.refunded_amount := 0;
+        NEW.refunded_at := NULL;
+    ELSIF NEW.refunded_amount > 0 THEN
+        NEW.refunded_amount := LEAST(NEW.refunded_amount, NEW.amount);
+        NEW.refunded_at := COALESCE(NEW.refunded_at, NOW());
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stamp_payment_refund ON public.payments;
+CREATE TRIGGER stamp_payment_refund
+    BEFORE INSERT OR UPDATE OF status, refunded_amount, amount ON public.payments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.stamp_payment_refund();
+
+-- =====================================================
+-- Reconciliation: paid = paid payments minus their refunds
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.reconcile_collection(p_collection_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.collections c
+    SET
+        paid_amount = totals.paid_amount,
+        refunded_amount = totals.refunded_amount,
+        last_payment_at = totals.last_payment_at
+    FROM (
+        SELECT
+            COALESCE(SUM(p.amount - p.refunded_amount) FILTER (WHERE p.status = 'שולם'), 0) AS paid_amount,
+            COALESCE(SUM(p.refunded_amount) FILTER (WHERE p.status IN ('שולם', 'הוחזר')), 0) AS refunded_amount,
+            MAX(p.created_at) FILTER (WHERE p.status = 'שולם') AS last_payment_at
+        FROM public.payments p
+        WHERE p.collection_id = p_collection_id
+    ) totals
+    WHERE c.id = p_collection_id
+      AND (
+          c.paid_amount IS DISTINCT FROM totals.paid_amount
+          OR c.refunded_amount IS DISTINCT FROM totals.refunded_amount
+          OR c.last_payment_at IS DISTINCT FROM totals.last_payment_at
+      );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reconcile_collection(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.reconcile_collection_from_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.collection_id IS NOT NULL THEN
+        PERFORM public.reconcile_collection(NEW.collection_id);
+    END IF;
+
+    -- Moved to another collection or deleted
+    IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.collection_id IS NOT NULL
+       AND (TG_OP = 'DELETE' OR OLD.collection_id IS DISTINCT FROM NEW.collection_id) THEN
+        PERFORM public.reconcile_collection(OLD.collection_id);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reconcile_collection_from_payment() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS reconcile_collection_from_payment ON public.payments;
+CREATE TRIGGER reconcile_collection_from_payment
+    AFTER INSERT OR DELETE OR UPDATE OF amount, status, refunded_amount, collection_id ON public.payments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reconcile_collection_from_payment();
+
+-- =====================================================
+-- Installments follow their collection: a completed collection pays its installment,
+-- a refund that reopens the collection reopens the installment (and a completed plan).
+-- Replaces sync_installment_from_payment (20260315000000_create_installment_plans.sql).
+-- =====================================================
+
+DROP TRIGGER IF EXISTS sync_installment_from_payment ON public.payments;
+DROP FUNCTION IF EXISTS public.sync_installment_from_payment();
+
+CREATE OR REPLACE FUNCTION public.sync_installment_from_collection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_installment public.payment_installments%ROWTYPE;
+BEGIN
+    IF NEW.status = 'הושלם' THEN
+        UPDATE public.payment_installments
+        SET
+            status = 'שולם',
+            paid_at = NOW(),
+            failure_reason = NULL,
+            payment_id = (
+                SELECT p.id FROM public.payments p
+                WHERE p.collection_id = NEW.id AND p.status = 'שולם'
+                ORDER BY p.created_at DESC
+                LIMIT 1
+            )
+        WHERE collection_id = NEW.id AND status IN ('ממתין', 'נכשל')
+        RETURNING * INTO v_installment;
+
+        IF FOUND THEN
+            UPDATE public.installment_plans
+            SET status = 'הושלם'
+            WHERE id = v_installment.plan_id
+              AND status = 'פעיל'
+              AND NOT EXISTS (
+                  SELECT 1 FROM public.payment_installments
+                  WHERE plan_id = v_installment.plan_id AND status IN ('ממתין', 'נכשל')
+              );
+        END IF;
+    ELSIF OLD.status = 'הושלם' AND NEW.status IN ('ממתין', 'חלקי') THEN
+        UPDATE public.payment_installments
+        SET status = 'ממתין', payment_id = NULL, paid_at = NULL
+        WHERE collection_id = NEW.id AND status = 'שולם'
+        RETURNING * INTO v_installment;
+
+        IF FOUND THEN
+            UPDATE public.installment_plans
+            SET status = 'פעיל'
+            WHERE id = v_installment.plan_id AND status = 'הושלם';
+        END IF;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_installment_from_collection() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS sync_installment_from_collection ON public.collections;
+CREATE TRIGGER sync_installment_from_collection
+    AFTER UPDATE ON public.collections
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.sync_installment_from_collection();
+
+-- =====================================================
+-- Backfill: existing collections get their balance, and their status follows it
+-- =====================================================
+
+UPDATE public.collections c
+SET
+    paid_amount = totals.paid_amount,
+    refunded_amount = totals.refunded_amount,
+    last_payment_at = totals.last_payment_at
+FROM (
+    SELECT
+        col.id,
+        COALESCE(SUM(p.amount - p.refunded_amount) FILTER (WHERE p.status = 'שולם'), 0) AS paid_amount,
+        COALESCE(SUM(p.refunded_amount) FILTER (WHERE p.status IN ('שולם', 'הוחזר')), 0) AS refunded_amount,
+        MAX(p.created_at) FILTER (WHERE p.status = 'שולם') AS last_payment_at
+    FROM public.collections col
+    LEFT JOIN public.payments p ON p.collection_id = col.id
+    GROUP BY col.id
+) totals
+WHERE c.id = totals.id;
+
+-- =====================================================
+-- Collections list view: the balance now comes from the table, plus overdue columns
+-- =====================================================
+
+-- c.* now includes paid_amount/remaining_amount, so the view is recreated instead of replaced
+DROP VIEW IF EXISTS public.collections_with_payments;
+
+CREATE VIEW public.collections_with_payments AS
+SELECT
+    c.*,
+    lead_customer.full_name AS lead_name,
+    customer.full_name AS customer_name,
+    (c.status IN ('ממתין', 'חלקי') AND c.due_date < CURRENT_DATE) AS is_overdue,
+    CASE
+        WHEN c.status IN ('ממתין', 'חלקי') AND c.due_date < CURRENT_DATE THEN (CURRENT_DATE - c.due_date)
+        ELSE 0
+    END AS days_overdue
+FROM public.collections c
+LEFT JOIN public.leads l ON l.id = c.lead_id
+LEFT JOIN public.customers lead_customer ON lead_customer.id = l.customer_id
+LEFT JOIN public.customers customer ON customer.id = c.customer_id;
+
+ALTER VIEW public.collections_with_payments SET (security_invoker = true);
+
+-- =====================================================
+-- Overdue detection
+-- =====================================================
+
+-- Open collections (ממתין / חלקי) past their due date notify the lead's coach (leads.assigned_to),
+-- or all admins when unassigned. A collection is flagged once per due date: moving the due date
+-- flags it again. Returns the number of newly flagged collections.
+CREATE OR REPLACE FUNCTION public.check_overdue_collections()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    overdue RECORD;
+    recipient RECORD;
+    message_text TEXT;
+    flagged_count INTEGER := 0;
+BEGIN
+    FOR overdue IN
+        SELECT
+            c.id,
+            c.lead_id,
+            COALESCE(c.customer_id, l.customer_id) AS customer_id,
+            c.description,
+            c.due_date,
+            c.remaining_amount,
+            (CURRENT_DATE - c.due_date)::INTEGER AS days_overdue,
+            cu.full_name,
+            l.assigned_to
+        FROM public.collections c
+        JOIN public.leads l ON l.id = c.lead_id
+        LEFT JOIN public.customers cu ON cu.id = COALESCE(c.customer_id, l.customer_id)
+        WHERE c.status IN ('ממתין', 'חלקי')
+          AND c.due_date < CURRENT_DATE
+          AND c.remaining_amount > 0
+    LOOP
+        -- Already flagged for this due date
+        IF EXISTS (
+            SELECT 1
+            FROM public.notifications n
+            WHERE n.type = 'collection_overdue'
+              AND n.metadata->>'collection_id' = overdue.id::TEXT
+              AND n.metadata->>'due_date' = overdue.due_date::TEXT
+        ) THEN
+            CONTINUE;
+        END IF;
+
+        message_text := COALESCE(overdue.full_name, 'לקוח')
+            || COALESCE(' - ' || overdue.description, '')
+            || ': יתרה של ₪' || TO_CHAR(overdue.remaining_amount, 'FM999,999,990.00')
+            || ' באיחור של ' || overdue.days_overdue || ' ימים (יעד: ' || TO_CHAR(overdue.due_date, 'DD/MM/YYYY') || ')';
+
+        FOR recipient IN
+            SELECT pr.id
+            FROM public.profiles pr
+            WHERE (overdue.assigned_to IS NOT NULL AND pr.id = overdue.assigned_to)
+               OR (overdue.assigned_to IS NULL AND pr.role = 'admin' AND pr.is_active = TRUE)
+        LOOP
+            INSERT INTO public.notifications (
+                user_id, customer_id, lead_id, type, title, message, action_url, metadata
+            ) VALUES (
+                recipient.id,
+                overdue.customer_id,
+                overdue.lead_id,
+                'collection_overdue',
+                'גבייה באיחור',
+                message_text,
+                '/dashboard/collections/' || overdue.id,
+                jsonb_build_object(
+                    'collection_id', overdue.id,
+                    'due_date', overdue.due_date,
+                    'remaining_amount', overdue.remaining_amount,
+                    'days_overdue', overdue.days_overdue
+                )
+            );
+        END LOOP;
+
+        flagged_count := flagged_count + 1;
+    END LOOP;
+
+    RETURN flagged_count;
+END;
+$$;
+
+-- Run daily by pg_cron (see COLLECTIONS_RECONCILIATION.md)
+REVOKE EXECUTE ON FUNCTION public.check_overdue_collections() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.collections.status IS 'Collection status: ממתין (pending), חלקי (partial), הושלם (completed) follow paid_amount; בוטל (cancelled) is set by hand';
+COMMENT ON COLUMN public.collections.paid_amount IS 'Paid payments minus their refunds (reconcile_collection)';
+COMMENT ON COLUMN public.collections.refunded_amount IS 'Refunded amount of the linked payments';
+COMMENT ON COLUMN public.collections.remaining_amount IS 'total_amount - paid_amount, never below 0';
+COMMENT ON COLUMN public.collections.last_payment_at IS 'Latest paid payment linked to the collection';
+COMMENT ON COLUMN public.payments.refunded_amount IS 'Refunded part of the payment; equals amount once the status is הוחזר';
+COMMENT ON COLUMN public.payments.refunded_at IS 'When the refund was recorded';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
@@ -0,0 +1,440 @@
+-- =====================================================
+-- Payment Dunning (גבייה חוזרת)
+-- Created: 2026-03-17
+-- Description: Follow-up sequence for failed Stripe payments (and, optionally, overdue collections)
+--              - payment_dunning_settings: reminder days, WhatsApp flow, coach escalation
+--              - payment_dunning: one case per failed payment / overdue collection
+--              - A failed Stripe payment opens a case and notifies the coach; the
+--                process-payment-dunning edge function sends the reminders with a fresh Stripe link
+--              - A successful payment (or a completed collection) closes the case
+--              (see PAYMENT_DUNNING.md)
+-- =====================================================
+
+-- =====================================================
+-- Reminder flow
+-- =====================================================
+
+-- The reminders use the payment_request flow by default; make sure it exists for the settings FK
+INSERT INTO public.whatsapp_automation_flows (flow_key, label, is_default)
+VALUES ('payment_request', 'בקשת תשלום', TRUE)
+ON CONFLICT (flow_key) DO NOTHING;
+
+-- =====================================================
+-- Settings
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.payment_dunning_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Days after the failure on which a reminder is sent (0 = right away)
+    step_days INTEGER[] NOT NULL DEFAULT '{0,3,7}' CHECK (cardinality(step_days) BETWEEN 1 AND 10),
+    flow_key TEXT REFERENCES public.whatsapp_automation_flows(flow_key) ON DELETE SET NULL DEFAULT 'payment_request',
+    -- Days after the failure on which an unpaid case is closed and the coach is alerted
+    escalate_after_days INTEGER NOT NULL DEFAULT 10 CHECK (escalate_after_days BETWEEN 1 AND 90),
+    include_overdue_collections BOOLEAN NOT NULL DEFAULT FALSE,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Single settings row
+INSERT INTO public.payment_dunning_settings (is_active)
+SELECT TRUE
+WHERE NOT EXISTS (SELECT 1 FROM public.payment_dunning_settings);
+
+DROP TRIGGER IF EXISTS update_payment_dunning_settings_updated_at ON public.payment_dunning_settings;
+CREATE TRIGGER update_payment_dunning_settings_updated_at
+    BEFORE UPDATE ON public.payment_dunning_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.payment_dunning_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read payment dunning settings" ON public.payment_dunning_settings;
+CREATE POLICY "Staff can read payment dunning settings"
+    ON public.payment_dunning_settings FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Admins can update payment dunning settings" ON public.payment_dunning_settings;
+CREATE POLICY "Admins can update payment dunning settings"
+    ON public.payment_dunning_settings FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- Dunning cases
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.payment_dunning (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL,
+    failed_payment_id UUID UNIQUE REFERENCES public.payments(id) ON DELETE SET NULL,
+    product_name TEXT NOT NULL,
+    amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+    currency TEXT NOT NULL DEFAULT 'ILS',
+    -- פעיל (reminders running), שולם (paid), הופסק (stopped by staff), הסתיים (reminders used up, unpaid)
+    status TEXT NOT NULL DEFAULT 'פעיל' CHECK (status IN ('פעיל', 'שולם', 'הופסק', 'הסתיים')),
+    messages_sent INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
+    last_sent_at TIMESTAMP WITH TIME ZONE,
+    last_payment_link TEXT,
+    last_payment_link_id TEXT,
+    last_error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+    stopped_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_dunning_lead_id ON public.payment_dunning(lead_id);
+CREATE INDEX IF NOT EXISTS idx_payment_dunning_customer_id ON public.payment_dunning(customer_id);
+CREATE INDEX IF NOT EXISTS idx_payment_dunning_collection_id ON public.payment_dunning(collection_id);
+CREATE INDEX IF NOT EXISTS idx_payment_dunning_due ON public.payment_dunning(next_attempt_at) WHERE status = 'פעיל';
+
+DROP TRIGGER IF EXISTS update_payment_dunning_updated_at ON public.payment_dunning;
+CREATE TRIGGER update_payment_dunning_updated_at
+    BEFORE UPDATE ON public.payment_dunning
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.payment_dunning ENABLE ROW LEVEL SECURITY;
+
+-- Cases are opened by triggers and advanced by the edge function (service role); staff can read and stop them
+DROP POLICY IF EXISTS "Staff can read payment dunning" ON public.payment_dunning;
+CREATE POLICY "Staff can read payment dunning"
+    ON public.payment_dunning FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Staff can update payment dunning" ON public.payment_dunning;
+CREATE POLICY "Staff can update payment dunning"
+    ON public.payment_dunning FOR UPDATE
+    USING (public.is_admin_or_manager())
+    WITH CHECK (public.is_admin_or_manager());
+
+-- =====================================================
+-- Coach notification: the lead's coach (leads.assigned_to), or all admins when unassigned
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.notify_payment_dunning(
+    p_dunning public.payment_dunning,
+    p_type TEXT,
+    p_title TEXT,
+    p_message TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_assigned_to UUID;
+    recipient RECORD;
+BEGIN
+    SELECT l.assigned_to INTO v_assigned_to FROM public.leads l WHERE l.id = p_dunning.lead_id;
+
+    FOR recipient IN
+        SELECT pr.id
+        FROM public.profiles pr
+        WHERE (v_assigned_to IS NOT NULL AND pr.id = v_assigned_to)
+           OR (v_assigned_to IS NULL AND pr.role = 'admin' AND pr.is_active = TRUE)
+    LOOP
+        INSERT INTO public.notifications (
+            user_id, customer_id, lead_id, type, title, message, action_url, metadata
+        ) VALUES (
+            recipient.id,
+            p_dunning.customer_id,
+            p_dunning.lead_id,
+            p_type,
+            p_title,
+            p_message,
+            CASE
+                WHEN p_dunning.lead_id IS NOT NULL THEN '/leads/' || p_dunning.lead_id
+                ELSE '/dashboard/customers/' || p_dunning.customer_id
+            END,
+            jsonb_build_object(
+                'dunning_id', p_dunning.id,
+                'amount', p_dunning.amount,
+                'currency', p_dunning.currency,
+                'messages_sent', p_dunning.messages_sent
+            )
+        );
+    END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.notify_payment_dunning(public.payment_dunning, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- Start: a failed Stripe payment opens a case and notifies the coach.
+-- A failure of a payment the customer is already being reminded about (e.g. a failed retry
+-- through the reminder link) doesn't open a second case.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.start_payment_dunning()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    settings RECORD;
+    v_dunning public.payment_dunning%ROWTYPE;
+    v_customer_name TEXT;
+BEGIN
+    IF NEW.stripe_payment_id IS NULL OR NEW.amount <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT s.is_active, s.step_days INTO settings
+    FROM public.payment_dunning_settings s
+    ORDER BY s.created_at
+    LIMIT 1;
+
+    IF NOT FOUND OR NOT settings.is_active THEN
+        RETURN NULL;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.payment_dunning d
+        WHERE d.status = 'פעיל'
+          AND d.customer_id = NEW.customer_id
+          AND d.currency = NEW.currency
+          AND d.amount = NEW.amount
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.payment_dunning (
+        lead_id, customer_id, collection_id, failed_payment_id, product_name, amount, currency, next_attempt_at
+    ) VALUES (
+        NEW.lead_id, NEW.customer_id, NEW.collection_id, NEW.id, NEW.product_name, NEW.amount, NEW.currency,
+        NOW() + make_interval(days => settings.step_days[1])
+    )
+    ON CONFLICT (failed_payment_id) DO NOTHING
+    RETURNING * INTO v_dunning;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT full_name INTO v_customer_name FROM public.customers WHERE id = NEW.customer_id;
+
+    PERFORM public.notify_payment_dunning(
+        v_dunning,
+        'payment_dunning_started',
+        'תשלום נכשל',
+        COALESCE(v_customer_name, 'לקוח') || ': תשלום של ' || NEW.amount || ' ' || NEW.currency
+            || ' (' || NEW.product_name || ') נכשל. תזכורות תשלום יישלחו בוואטסאפ'
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.start_payment_dunning() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS start_payment_dunning ON public.payments;
+CREATE TRIGGER start_payment_dunning
+    AFTER INSERT OR UPDATE OF status ON public.payments
+    FOR EACH ROW
+    WHEN (NEW.status = 'נכשל')
+    EXECUTE FUNCTION public.start_payment_dunning();
+
+-- =====================================================
+-- Stop: the failed payment succeeds after all, or the customer pays at least the amount
+-- in the same currency (e.g. through the reminder link)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.resolve_payment_dunning_from_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.payment_dunning d
+    SET status = 'שולם', resolved_at = NOW(), resolved_payment_id = NEW.id, next_attempt_at = NULL
+    WHERE d.status = 'פעיל'
+      AND (
+          d.failed_payment_id = NEW.id
+          OR (
+              d.customer_id = NEW.customer_id
+              AND d.currency = NEW.currency
+              AND NEW.amount >= d.amount
+              AND NEW.created_at >= d.started_at
+          )
+      );
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_payment_dunning_from_payment() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS resolve_payment_dunning_from_payment ON public.payments;
+CREATE TRIGGER resolve_payment_dunning_from_payment
+    AFTER INSERT OR UPDATE OF status ON public.payments
+    FOR EACH ROW
+    WHEN (NEW.status = 'שולם')
+    EXECUTE FUNCTION public.resolve_payment_dunning_from_payment();
+
+-- A completed (or cancelled) collection closes its case as well
+CREATE OR REPLACE FUNCTION public.resolve_payment_dunning_from_collection()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.payment_dunning d
+    SET
+        status = CASE WHEN NEW.status = 'הושלם' THEN 'שולם' ELSE 'הופסק' END,
+        resolved_at = NOW(),
+        next_attempt_at = NULL
+    WHERE d.status = 'פעיל' AND d.collection_id = NEW.id;
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.resolve_payment_dunning_from_collection() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS resolve_payment_dunning_from_collection ON public.collections;
+CREATE TRIGGER resolve_payment_dunning_from_collection
+    AFTER UPDATE ON public.collections
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.status IN ('הושלם', 'בוטל'))
+    EXECUTE FUNCTION public.resolve_payment_dunning_from_collection();
+
+-- =====================================================
+-- Overdue collections (include_overdue_collections): open a case for the remaining amount of each
+-- overdue collection that never had one. The coach is already alerted by check_overdue_collections().
+-- Called by process-payment-dunning before sending; returns the number of new cases.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.start_overdue_collection_dunning()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    settings RECORD;
+    started_count INTEGER;
+BEGIN
+    SELECT s.is_active, s.step_days, s.include_overdue_collections INTO settings
+    FROM public.payment_dunning_settings s
+    ORDER BY s.created_at
+    LIMIT 1;
+
+    IF NOT FOUND OR NOT settings.is_active OR NOT settings.include_overdue_collections THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO public.payment_dunning (
+        lead_id, customer_id, collection_id, product_name, amount, currency, next_attempt_at
+    )
+    SELECT
+        c.lead_id,
+        COALESCE(c.customer_id, l.customer_id),
+        c.id,
+        COALESCE(c.description, 'גבייה'),
+        c.remaining_amount,
+        'ILS',
+        NOW() + make_interval(days => settings.step_days[1])
+    FROM public.collections c
+    JOIN public.leads l ON l.id = c.lead_id
+    WHERE c.status IN ('ממתין', 'חלקי')
+      AND c.due_date < CURRENT_DATE
+      AND c.remaining_amount > 0
+      AND COALESCE(c.customer_id, l.customer_id) IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM public.payment_dunning d
+          WHERE d.collection_id = c.id AND d.status <> 'שולם'
+      );
+
+    GET DIAGNOSTICS started_count = ROW_COUNT;
+    RETURN started_count;
+END;
+$$;
+
+-- Only the process-payment-dunning edge function (service role) runs it
+REVOKE EXECUTE ON FUNCTION public.start_overdue_collection_dunning() FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- Escalation: once all reminders were sent and escalate_after_days passed without a payment,
+-- the case is closed (הסתיים) and the coach is asked to follow up personally.
+-- Called by process-payment-dunning; returns the number of escalated cases.
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.escalate_payment_dunning()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    settings RECORD;
+    v_dunning public.payment_dunning%ROWTYPE;
+    v_customer_name TEXT;
+    escalated_count INTEGER := 0;
+BEGIN
+    SELECT s.step_days, s.escalate_after_days INTO settings
+    FROM public.payment_dunning_settings s
+    ORDER BY s.created_at
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RETURN 0;
+    END IF;
+
+    FOR v_dunning IN
+        UPDATE public.payment_dunning d
+        SET status = 'הסתיים', resolved_at = NOW(), next_attempt_at = NULL
+        WHERE d.status = 'פעיל'
+          AND d.messages_sent >= cardinality(settings.step_days)
+          AND d.started_at + make_interval(days => settings.escalate_after_days) <= NOW()
+        RETURNING d.*
+    LOOP
+        SELECT full_name INTO v_customer_name FROM public.customers WHERE id = v_dunning.customer_id;
+
+        PERFORM public.notify_payment_dunning(
+            v_dunning,
+            'payment_dunning_escalated',
+            'תשלום לא הוסדר',
+            COALESCE(v_customer_name, 'לקוח') || ' לא שילם/ה ' || v_dunning.amount || ' ' || v_dunning.currency
+                || ' (' || v_dunning.product_name || ') אחרי ' || v_dunning.messages_sent
+                || ' תזכורות. נדרש טיפול אישי'
+        );
+
+        escalated_count := escalated_count + 1;
+    END LOOP;
+
+    RETURN escalated_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_payment_dunning() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.payment_dunning_settings IS 'Dunning sequence: reminder days after a failed payment, WhatsApp flow, coach escalation';
+COMMENT ON TABLE public.payment_dunning IS 'Dunning cases for failed Stripe payments and overdue collections (process-payment-dunning)';
+COMMENT ON COLUMN public.payment_dunning.next_attempt_at IS 'When process-payment-dunning sends the next reminder (or escalates); NULL while a run handles the case';
+COMMENT ON COLUMN public.payment_dunning.last_payment_link IS 'Stripe payment link sent in the latest reminder (earlier links are deactivated)';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
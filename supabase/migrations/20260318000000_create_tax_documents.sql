@@ -0,0 +1,489 @@
+-- =====================================================
+-- Tax Documents (חשבוניות וקבלות)
+-- Created: 2026-03-18
+-- Description: Israeli tax documents for payments
+--              - business_settings: business details and VAT rate printed on the documents
+--              - tax_documents: issued documents with sequential numbering per document type
+--              - A paid payment gets a tax invoice / receipt (חשבונית מס קבלה, or קבלה for an
+--                exempt dealer); a refund gets a credit note (חשבונית זיכוי)
+--              - The PDF is rendered when the document is issued (render-tax-document edge
+--                function, called by a trigger) and stored in client-assets/tax-documents
+--              (see TAX_DOCUMENTS.md)
+-- =====================================================
+
+-- =====================================================
+-- Business settings
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.business_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Issue documents automatically for paid payments and refunds
+    is_active BOOLEAN NOT NULL DEFAULT FALSE,
+    business_name TEXT NOT NULL DEFAULT '',
+    business_type TEXT NOT NULL DEFAULT 'עוסק מורשה' CHECK (business_type IN ('עוסק מורשה', 'עוסק פטור', 'חברה בע"מ')),
+    -- ע.מ. / ח.פ.
+    business_number TEXT NOT NULL DEFAULT '',
+    address TEXT,
+    phone TEXT,
+    email TEXT,
+    vat_rate NUMERIC(5, 2) NOT NULL DEFAULT 18 CHECK (vat_rate >= 0 AND vat_rate < 100),
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    -- Documents can't be issued without the business's identity
+    CONSTRAINT business_settings_complete_when_active
+        CHECK (NOT is_active OR (btrim(business_name) <> '' AND btrim(business_number) <> ''))
+);
+
+-- Single settings row
+INSERT INTO public.business_settings (is_active)
+SELECT FALSE
+WHERE NOT EXISTS (SELECT 1 FROM public.business_settings);
+
+DROP TRIGGER IF EXISTS update_business_settings_updated_at ON public.business_settings;
+CREATE TRIGGER update_business_settings_updated_at
+    BEFORE UPDATE ON public.business_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.business_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read business settings" ON public.business_settings;
+CREATE POLICY "Staff can read business settings"
+    ON public.business_settings FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Admins can update business settings" ON public.business_settings;
+CREATE POLICY "Admins can update business settings"
+    ON public.business_settings FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- Numbering: one gap-free sequence per document type.
+-- The counter row is locked while a document is issued, so numbers are never skipped or reused.
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.tax_document_sequences (
+    document_type TEXT PRIMARY KEY CHECK (document_type IN ('חשבונית מס קבלה', 'קבלה', 'חשבונית זיכוי')),
+    next_number INTEGER NOT NULL DEFAULT 1 CHECK (next_number > 0)
+);
+
+INSERT INTO public.tax_document_sequences (document_type)
+VALUES ('חשבונית מס קבלה'), ('קבלה'), ('חשבונית זיכוי')
+ON CONFLICT (document_type) DO NOTHING;
+
+-- Only the issuing function touches the counters
+ALTER TABLE public.tax_document_sequences ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- Documents
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.tax_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    document_type TEXT NOT NULL CHECK (document_type IN ('חשבונית מס קבלה', 'קבלה', 'חשבונית זיכוי')),
+    document_number INTEGER NOT NULL,
+    payment_id UUID REFERENCES public.payments(id) ON DELETE SET NULL,
+    -- The invoice a credit note cancels (in part)
+    original_document_id UUID REFERENCES public.tax_documents(id) ON DELETE SET NULL,
+    customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+    lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+    -- Snapshot of the recipient and the issuer at issue time
+    customer_name TEXT,
+    customer_phone TEXT,
+    customer_email TEXT,
+    business JSONB NOT NULL,
+    description TEXT NOT NULL,
+    payment_method TEXT,
+    currency TEXT NOT NULL DEFAULT 'ILS',
+    -- Amounts including VAT; amount_before_vat + vat_amount = total_amount
+    total_amount NUMERIC(10, 2) NOT NULL CHECK (total_amount > 0),
+    amount_before_vat NUMERIC(10, 2) NOT NULL,
+    vat_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+    vat_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+    issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    -- Path in the client-assets bucket, set once render-tax-document stored the PDF
+    pdf_path TEXT,
+    pdf_generated_at TIMESTAMP WITH TIME ZONE,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    UNIQUE (document_type, document_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_documents_payment_id ON public.tax_documents(payment_id);
+CREATE INDEX IF NOT EXISTS idx_tax_documents_customer_id ON public.tax_documents(customer_id);
+CREATE INDEX IF NOT EXISTS idx_tax_documents_issued_at ON public.tax_documents(issued_at DESC);
+
+-- An issued document can't be changed; only its PDF (once) and sending are recorded later.
+-- Links to the payment, original document, customer and lead can only be cleared
+-- (ON DELETE SET NULL), never pointed at another row.
+CREATE OR REPLACE FUNCTION public.protect_tax_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        RAISE EXCEPTION 'Tax documents cannot be deleted; issue a credit note instead';
+    END IF;
+
+    IF (to_jsonb(NEW) - ARRAY['pdf_path', 'pdf_generated_at', 'sent_at', 'payment_id', 'original_document_id', 'customer_id', 'lead_id'])
+        IS DISTINCT FROM
+       (to_jsonb(OLD) - ARRAY['pdf_path', 'pdf_generated_at', 'sent_at', 'payment_id', 'original_document_id', 'customer_id', 'lead_id']) THEN
+        RAISE EXCEPTION 'Issued tax documents cannot be changed';
+    END IF;
+
+    IF (NEW.payment_id IS DISTINCT FROM OLD.payment_id AND NEW.payment_id IS NOT NULL)
+       OR (NEW.original_document_id IS DISTINCT FROM OLD.original_document_id AND NEW.original_document_id IS NOT NULL)
+       OR (NEW.customer_id IS DISTINCT FROM OLD.customer_id AND NEW.customer_id IS NOT NULL)
+       OR (NEW.lead_id IS DISTINCT FROM OLD.lead_id AND NEW.lead_id IS NOT NULL) THEN
+        RAISE EXCEPTION 'Issued tax documents cannot be linked to another payment, document, customer or lead';
+    END IF;
+
+    IF NEW.pdf_path IS DISTINCT FROM OLD.pdf_path OR NEW.pdf_generated_at IS DISTINCT FROM OLD.pdf_generated_at THEN
+        IF OLD.pdf_path IS NOT NULL THEN
+            RAISE EXCEPTION 'The PDF of an issued tax document cannot be replaced';
+        END IF;
+        -- Only render-tax-document (service role, no user) stores the PDF
+        IF auth.uid() IS NOT NULL THEN
+            RAISE EXCEPTION 'The PDF of a tax document is stored by the render-tax-document function';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_tax_document ON public.tax_documents;
+CREATE TRIGGER protect_tax_document
+    BEFORE UPDATE OR DELETE ON public.tax_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_tax_document();
+
+ALTER TABLE public.tax_documents ENABLE ROW LEVEL SECURITY;
+
+-- Documents are issued by the functions below; staff read them and record the sending
+DROP POLICY IF EXISTS "Staff can read tax documents" ON public.tax_documents;
+CREATE POLICY "Staff can read tax documents"
+    ON public.tax_documents FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Staff can update tax documents" ON public.tax_documents;
+CREATE POLICY "Staff can update tax documents"
+    ON public.tax_documents FOR UPDATE
+    USING (public.is_admin_or_manager())
+    WITH CHECK (public.is_admin_or_manager());
+
+-- =====================================================
+-- Issuing
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.issue_tax_document(
+    p_payment public.payments,
+    p_document_type TEXT,
+    p_total_amount NUMERIC,
+    p_vat_rate NUMERIC,
+    p_original_document_id UUID DEFAULT NULL
+)
+RETURNS public.tax_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    settings public.business_settings%ROWTYPE;
+    v_customer RECORD;
+    v_number INTEGER;
+    v_before_vat NUMERIC(10, 2);
+    v_document public.tax_documents%ROWTYPE;
+BEGIN
+    SELECT * INTO settings FROM public.business_settings ORDER BY created_at LIMIT 1;
+
+    SELECT full_name, phone, email INTO v_customer FROM public.customers WHERE id = p_payment.customer_id;
+
+    UPDATE public.tax_document_sequences
+    SET next_number = next_number + 1
+    WHERE document_type = p_document_type
+    RETURNING next_number - 1 INTO v_number;
+
+    -- Amounts include VAT
+    v_before_vat := ROUND(p_total_amount / (1 + p_vat_rate / 100), 2);
+
+    INSERT INTO public.tax_documents (
+        document_type, document_number, payment_id, original_document_id, customer_id, lead_id,
+        customer_name, customer_phone, customer_email, business, description, payment_method,
+        currency, total_amount, amount_before_vat, vat_rate, vat_amount
+    ) VALUES (
+        p_document_type,
+        v_number,
+        p_payment.id,
+        p_original_document_id,
+        p_payment.customer_id,
+        p_payment.lead_id,
+        v_customer.full_name,
+        v_customer.phone,
+        v_customer.email,
+        jsonb_build_object(
+            'name', settings.business_name,
+            'type', settings.business_type,
+            'number', settings.business_number,
+            'address', settings.address,
+            'phone', settings.phone,
+            'email', settings.email
+        ),
+        p_payment.product_name,
+        CASE WHEN p_payment.stripe_payment_id IS NOT NULL THEN 'כרטיס אשראי' ELSE 'אחר' END,
+        p_payment.currency,
+        p_total_amount,
+        v_before_vat,
+        p_vat_rate,
+        p_total_amount - v_before_vat
+    )
+    RETURNING * INTO v_document;
+
+    RETURN v_document;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_tax_document(public.payments, TEXT, NUMERIC, NUMERIC, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Tax invoice / receipt of a paid payment (קבלה without VAT for an exempt dealer);
+-- returns the existing one when already issued
+CREATE OR REPLACE FUNCTION public.issue_payment_invoice(p_payment_id UUID)
+RETURNS public.tax_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    settings public.business_settings%ROWTYPE;
+    v_payment public.payments%ROWTYPE;
+    v_document public.tax_documents%ROWTYPE;
+    v_is_exempt BOOLEAN;
+BEGIN
+    SELECT * INTO settings FROM public.business_settings ORDER BY created_at LIMIT 1;
+
+    -- Lock the payment so concurrent calls don't issue twice
+    SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+    SELECT * INTO v_document
+    FROM public.tax_documents
+    WHERE payment_id = p_payment_id AND document_type <> 'חשבונית זיכוי'
+    LIMIT 1;
+
+    IF FOUND THEN
+        RETURN v_document;
+    END IF;
+
+    v_is_exempt := settings.business_type = 'עוסק פטור';
+
+    RETURN public.issue_tax_document(
+        v_payment,
+        CASE WHEN v_is_exempt THEN 'קבלה' ELSE 'חשבונית מס קבלה' END,
+        v_payment.amount,
+        CASE WHEN v_is_exempt THEN 0 ELSE settings.vat_rate END
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_payment_invoice(UUID) FROM PUBLIC, anon, authenticated;
+
+-- From the payment page: payments paid before issuing was enabled
+CREATE OR REPLACE FUNCTION public.issue_payment_tax_document(p_payment_id UUID)
+RETURNS public.tax_documents
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- has_permission: 20260321000000_add_staff_roles_and_permissions.sql
+    IF NOT public.has_permission('payments') THEN
+        RAISE EXCEPTION 'Only staff with the payments permission can issue tax documents';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.business_settings WHERE is_active) THEN
+        RAISE EXCEPTION 'הפקת מסמכי מס אינה פעילה. יש להשלים את פרטי העסק';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.payments WHERE id = p_payment_id AND status = 'שולם' AND amount > 0) THEN
+        RAISE EXCEPTION 'ניתן להפיק מסמך רק לתשלום ששולם';
+    END IF;
+
+    RETURN public.issue_payment_invoice(p_payment_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_payment_tax_document(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.issue_payment_tax_document(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.issue_tax_document_on_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.amount <= 0 OR NOT EXISTS (SELECT 1 FROM public.business_settings WHERE is_active) THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM public.issue_payment_invoice(NEW.id);
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_tax_document_on_payment() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS issue_tax_document_on_payment ON public.payments;
+CREATE TRIGGER issue_tax_document_on_payment
+    AFTER INSERT OR UPDATE OF status ON public.payments
+    FOR EACH ROW
+    WHEN (NEW.status = 'שולם')
+    EXECUTE FUNCTION public.issue_tax_document_on_payment();
+
+-- Credit note for each refund of a payment that has a tax invoice (the refunded part only).
+-- Not a column-list trigger: refunded_amount is also set by the stamp_payment_refund BEFORE trigger.
+CREATE OR REPLACE FUNCTION public.issue_credit_note_on_refund()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_original public.tax_documents%ROWTYPE;
+BEGIN
+    SELECT * INTO v_original
+    FROM public.tax_documents
+    WHERE payment_id = NEW.id AND document_type = 'חשבונית מס קבלה'
+    ORDER BY issued_at
+    LIMIT 1;
+
+    -- Receipts of an exempt dealer (קבלה) aren't credited; payments without a document neither
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM public.issue_tax_document(
+        NEW,
+        'חשבונית זיכוי',
+        NEW.refunded_amount - OLD.refunded_amount,
+        v_original.vat_rate,
+        v_original.id
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.issue_credit_note_on_refund() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS issue_credit_note_on_refund ON public.payments;
+CREATE TRIGGER issue_credit_note_on_refund
+    AFTER UPDATE ON public.payments
+    FOR EACH ROW
+    WHEN (NEW.refunded_amount > OLD.refunded_amount)
+    EXECUTE FUNCTION public.issue_credit_note_on_refund();
+
+-- =====================================================
+-- PDF at issue time
+-- =====================================================
+
+-- Calls render-tax-document for each new document (pg_net, after the transaction commits).
+-- Needs the pg_net extension and the project_url / service_role_key Vault secrets
+-- (see TAX_DOCUMENTS.md); without them the PDF is rendered when the app first opens the document.
+CREATE OR REPLACE FUNCTION public.render_tax_document_pdf()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_project_url TEXT;
+    v_service_role_key TEXT;
+BEGIN
+    IF to_regnamespace('net') IS NULL OR to_regnamespace('vault') IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT decrypted_secret INTO v_project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+    SELECT decrypted_secret INTO v_service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+    IF v_project_url IS NULL OR v_service_role_key IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM net.http_post(
+        url := rtrim(v_project_url, '/') || '/functions/v1/render-tax-document',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || v_service_role_key
+        ),
+        body := jsonb_build_object('document_id', NEW.id)
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.render_tax_document_pdf() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS render_tax_document_pdf ON public.tax_documents;
+CREATE TRIGGER render_tax_document_pdf
+    AFTER INSERT ON public.tax_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION public.render_tax_document_pdf();
+
+-- =====================================================
+-- Storage: PDFs in client-assets/tax-documents/{document_id}.pdf
+-- =====================================================
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT FROM information_schema.tables
+    WHERE table_schema = 'storage'
+    AND table_name = 'objects'
+  ) THEN
+    -- PDFs are stored by render-tax-document with the service role (no INSERT policy)
+    DROP POLICY IF EXISTS "Staff can upload tax documents" ON storage.objects;
+
+    DROP POLICY IF EXISTS "Staff can view tax documents" ON storage.objects;
+    EXECUTE '
+    CREATE POLICY "Staff can view tax documents"
+    ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (
+      bucket_id = ''client-assets'' AND
+      EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = auth.uid()
+        AND profiles.role IN (''admin'', ''user'')
+      ) AND
+      (storage.foldername(name))[1] = ''tax-documents''
+    )';
+
+    -- The PDF of an issued document is uploaded once and never replaced (no UPDATE policy)
+    DROP POLICY IF EXISTS "Staff can replace tax documents" ON storage.objects;
+  ELSE
+    RAISE NOTICE 'Storage schema not available. Skipping tax documents storage policies.';
+  END IF;
+END $$;
+
+COMMENT ON TABLE public.business_settings IS 'Business details and VAT rate printed on tax documents';
+COMMENT ON TABLE public.tax_documents IS 'Issued tax invoices / receipts and credit notes, numbered per document type';
+COMMENT ON COLUMN public.tax_documents.pdf_path IS 'PDF in the client-assets bucket, rendered by render-tax-document when the document is issued';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
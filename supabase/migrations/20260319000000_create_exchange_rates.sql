@@ -0,0 +1,383 @@
+-- =====================================================
+-- Multi-Currency Reporting
+-- Created: 2026-03-19
+-- Description: Exchange rates for reporting revenue in a single currency
+--              - exchange_rates: manually maintained, date-stamped rates to ILS
+--              - collections.currency: the currency a collection is charged in
+--                (installment plans pass their currency to their collections)
+--              - Overdue alerts and dunning cases of collections use the collection's currency
+--              - Collection balances only count payments in the collection's currency
+--              (see MULTI_CURRENCY.md)
+-- =====================================================
+
+-- =====================================================
+-- Exchange rates
+-- =====================================================
+
+-- ILS is the base currency: rate is the ILS value of one unit of the currency on rate_date.
+-- An amount is converted with the latest rate on or before its date.
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    currency TEXT NOT NULL CHECK (currency IN ('USD', 'EUR')),
+    rate NUMERIC(12, 6) NOT NULL CHECK (rate > 0),
+    rate_date DATE NOT NULL,
+    notes TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    UNIQUE (currency, rate_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_currency_date ON public.exchange_rates(currency, rate_date DESC);
+
+DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON public.exchange_rates;
+CREATE TRIGGER update_exchange_rates_updated_at
+    BEFORE UPDATE ON public.exchange_rates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read exchange rates" ON public.exchange_rates;
+CREATE POLICY "Staff can read exchange rates"
+    ON public.exchange_rates FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Admins can manage exchange rates" ON public.exchange_rates;
+CREATE POLICY "Admins can manage exchange rates"
+    ON public.exchange_rates FOR ALL
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    );
+
+COMMENT ON TABLE public.exchange_rates IS 'Manually maintained exchange rates to ILS, used to convert reports into a reporting currency';
+COMMENT ON COLUMN public.exchange_rates.rate IS 'ILS value of one unit of the currency on rate_date';
+
+-- =====================================================
+-- Collection currency
+-- =====================================================
+
+ALTER TABLE public.collections
+    ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'ILS' CHECK (currency IN ('ILS', 'USD', 'EUR'));
+
+COMMENT ON COLUMN public.collections.currency IS 'Currency of total_amount and the reconciled balance';
+
+-- Installment collections take their plan's currency
+UPDATE public.collections c
+SET currency = plan.currency
+FROM public.payment_installments installment
+JOIN public.installment_plans plan ON plan.id = installment.plan_id
+WHERE installment.collection_id = c.id
+  AND c.currency <> plan.currency;
+
+-- c.* is expanded when the view is created, so the view is recreated to include the new column
+DROP VIEW IF EXISTS public.collections_with_payments;
+
+CREATE VIEW public.collections_with_payments AS
+SELECT
+    c.*,
+    lead_customer.full_name AS lead_name,
+    customer.full_name AS customer_name,
+    (c.status IN ('ממתין', 'חלקי') AND c.due_date < CURRENT_DATE) AS is_overdue,
+    CASE
+        WHEN c.status IN ('ממתין', 'חלקי') AND c.due_date < CURRENT_DATE THEN (CURRENT_DATE - c.due_date)
+        ELSE 0
+    END AS days_overdue
+FROM public.collections c
+LEFT JOIN public.leads l ON l.id = c.lead_id
+LEFT JOIN public.customers lead_customer ON lead_customer.id = l.customer_id
+LEFT JOIN public.customers customer ON customer.id = c.customer_id;
+
+ALTER VIEW public.collections_with_payments SET (security_invoker = true);
+
+-- Same as before, with the plan's currency on each installment's collection
+CREATE OR REPLACE FUNCTION public.create_installment_plan(
+    p_lead_id UUID,
+    p_subscription_name TEXT,
+    p_total_amount NUMERIC,
+    p_currency TEXT,
+    p_interval_unit TEXT,
+    p_billing_method TEXT,
+    p_installments JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_customer_id UUID;
+    v_plan_id UUID;
+    v_collection_id UUID;
+    v_count INTEGER;
+    v_sum NUMERIC;
+    v_item RECORD;
+BEGIN
+    SELECT customer_id INTO v_customer_id FROM public.leads WHERE id = p_lead_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Lead % not found', p_lead_id;
+    END IF;
+
+    v_count := jsonb_array_length(p_installments);
+    SELECT COALESCE(SUM((item->>'amount')::NUMERIC), 0) INTO v_sum FROM jsonb_array_elements(p_installments) AS item;
+
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'An installment plan needs at least one installment';
+    END IF;
+    IF ROUND(v_sum, 2) <> ROUND(p_total_amount, 2) THEN
+        RAISE EXCEPTION 'Installments add up to % instead of %', v_sum, p_total_amount;
+    END IF;
+
+    INSERT INTO public.installment_plans (
+        lead_id, customer_id, subscription_name, total_amount, currency,
+        installments_count, interval_unit, start_date, billing_method, created_by
+    )
+    VALUES (
+        p_lead_id, v_customer_id, p_subscription_name, p_total_amount, COALESCE(p_currency, 'ILS'),
+        v_count, COALESCE(p_interval_unit, 'months'), (p_installments->0->>'due_date')::DATE,
+        COALESCE(p_billing_method, 'manual'), auth.uid()
+    )
+    RETURNING id INTO v_plan_id;
+
+    FOR v_item IN
+        SELECT (item.value->>'amount')::NUMERIC AS amount, (item.value->>'due_date')::DATE AS due_date, item.number
+        FROM jsonb_array_elements(p_installments) WITH ORDINALITY AS item(value, number)
+    LOOP
+        INSERT INTO public.collections (lead_id, customer_id, total_amount, currency, due_date, status, description, created_by)
+        VALUES (
+            p_lead_id, v_customer_id, v_item.amount, COALESCE(p_currency, 'ILS'), v_item.due_date, 'ממתין',
+            p_subscription_name || ' - תשלום ' || v_item.number || '/' || v_count,
+            auth.uid()
+        )
+        RETURNING id INTO v_collection_id;
+
+        INSERT INTO public.payment_installments (plan_id, collection_id, installment_number, amount, due_date)
+        VALUES (v_plan_id, v_collection_id, v_item.number, v_item.amount, v_item.due_date);
+    END LOOP;
+
+    RETURN v_plan_id;
+END;
+$$;
+
+-- =====================================================
+-- Collection balances in their own currency
+-- =====================================================
+
+-- Same as before, counting only payments in the collection's currency (a $300 payment
+-- is not ₪300 toward an ILS collection)
+CREATE OR REPLACE FUNCTION public.reconcile_collection(p_collection_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.collections c
+    SET
+        paid_amount = totals.paid_amount,
+        refunded_amount = totals.refunded_amount,
+        last_payment_at = totals.last_payment_at
+    FROM (
+        SELECT
+            COALESCE(SUM(p.amount - p.refunded_amount) FILTER (WHERE p.status = 'שולם'), 0) AS paid_amount,
+            COALESCE(SUM(p.refunded_amount) FILTER (WHERE p.status IN ('שולם', 'הוחזר')), 0) AS refunded_amount,
+            MAX(p.created_at) FILTER (WHERE p.status = 'שולם') AS last_payment_at
+        FROM public.payments p
+        JOIN public.collections pc ON pc.id = p.collection_id
+        WHERE p.collection_id = p_collection_id
+          AND UPPER(p.currency) = pc.currency
+    ) totals
+    WHERE c.id = p_collection_id
+      AND (
+          c.paid_amount IS DISTINCT FROM totals.paid_amount
+          OR c.refunded_amount IS DISTINCT FROM totals.refunded_amount
+          OR c.last_payment_at IS DISTINCT FROM totals.last_payment_at
+      );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reconcile_collection(UUID) FROM PUBLIC, anon, authenticated;
+
+-- A payment's currency can now change what it counts toward
+DROP TRIGGER IF EXISTS reconcile_collection_from_payment ON public.payments;
+CREATE TRIGGER reconcile_collection_from_payment
+    AFTER INSERT OR DELETE OR UPDATE OF amount, currency, status, refunded_amount, collection_id ON public.payments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reconcile_collection_from_payment();
+
+-- Changing a collection's currency recounts its payments
+CREATE OR REPLACE FUNCTION public.reconcile_collection_on_currency_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM public.reconcile_collection(NEW.id);
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reconcile_collection_on_currency_change() FROM PUBLIC;
+
+DROP TRIGGER IF EXISTS reconcile_collection_on_currency_change ON public.collections;
+CREATE TRIGGER reconcile_collection_on_currency_change
+    AFTER UPDATE OF currency ON public.collections
+    FOR EACH ROW
+    WHEN (OLD.currency IS DISTINCT FROM NEW.currency)
+    EXECUTE FUNCTION public.reconcile_collection_on_currency_change();
+
+-- Recount existing collections that have payments in another currency
+SELECT public.reconcile_collection(c.id)
+FROM public.collections c
+WHERE EXISTS (
+    SELECT 1 FROM public.payments p
+    WHERE p.collection_id = c.id AND UPPER(p.currency) <> c.currency
+);
+
+-- =====================================================
+-- Overdue collections in their own currency
+-- =====================================================
+
+-- Same as before, with the collection's currency in the coach alert
+CREATE OR REPLACE FUNCTION public.check_overdue_collections()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    overdue RECORD;
+    recipient RECORD;
+    message_text TEXT;
+    flagged_count INTEGER := 0;
+BEGIN
+    FOR overdue IN
+        SELECT
+            c.id,
+            c.lead_id,
+            COALESCE(c.customer_id, l.customer_id) AS customer_id,
+            c.description,
+            c.due_date,
+            c.remaining_amount,
+            c.currency,
+            (CURRENT_DATE - c.due_date)::INTEGER AS days_overdue,
+            cu.full_name,
+            l.assigned_to
+        FROM public.collections c
+        JOIN public.leads l ON l.id = c.lead_id
+        LEFT JOIN public.customers cu ON cu.id = COALESCE(c.customer_id, l.customer_id)
+        WHERE c.status IN ('ממתין', 'חלקי')
+          AND c.due_date < CURRENT_DATE
+          AND c.remaining_amount > 0
+    LOOP
+        -- Already flagged for this due date
+        IF EXISTS (
+            SELECT 1
+            FROM public.notifications n
+            WHERE n.type = 'collection_overdue'
+              AND n.metadata->>'collection_id' = overdue.id::TEXT
+              AND n.metadata->>'due_date' = overdue.due_date::TEXT
+        ) THEN
+            CONTINUE;
+        END IF;
+
+        message_text := COALESCE(overdue.full_name, 'לקוח')
+            || COALESCE(' - ' || overdue.description, '')
+            || ': יתרה של '
+            || CASE overdue.currency WHEN 'USD' THEN '$' WHEN 'EUR' THEN '€' ELSE '₪' END
+            || TO_CHAR(overdue.remaining_amount, 'FM999,999,990.00')
+            || ' באיחור של ' || overdue.days_overdue || ' ימים (יעד: ' || TO_CHAR(overdue.due_date, 'DD/MM/YYYY') || ')';
+
+        FOR recipient IN
+            SELECT pr.id
+            FROM public.profiles pr
+            WHERE (overdue.assigned_to IS NOT NULL AND pr.id = overdue.assigned_to)
+               OR (overdue.assigned_to IS NULL AND pr.role = 'admin' AND pr.is_active = TRUE)
+        LOOP
+            INSERT INTO public.notifications (
+                user_id, customer_id, lead_id, type, title, message, action_url, metadata
+            ) VALUES (
+                recipient.id,
+                overdue.customer_id,
+                overdue.lead_id,
+                'collection_overdue',
+                'גבייה באיחור',
+                message_text,
+                '/dashboard/collections/' || overdue.id,
+                jsonb_build_object(
+                    'collection_id', overdue.id,
+                    'due_date', overdue.due_date,
+                    'remaining_amount', overdue.remaining_amount,
+                    'currency', overdue.currency,
+                    'days_overdue', overdue.days_overdue
+                )
+            );
+        END LOOP;
+
+        flagged_count := flagged_count + 1;
+    END LOOP;
+
+    RETURN flagged_count;
+END;
+$$;
+
+-- Same as before, opening the dunning case in the collection's currency (the payment link is
+-- created in the case currency)
+CREATE OR REPLACE FUNCTION public.start_overdue_collection_dunning()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    settings RECORD;
+    started_count INTEGER;
+BEGIN
+    SELECT s.is_active, s.step_days, s.include_overdue_collections INTO settings
+    FROM public.payment_dunning_settings s
+    ORDER BY s.created_at
+    LIMIT 1;
+
+    IF NOT FOUND OR NOT settings.is_active OR NOT settings.include_overdue_collections THEN
+        RETURN 0;
+    END IF;
+
+    INSERT INTO public.payment_dunning (
+        lead_id, customer_id, collection_id, product_name, amount, currency, next_attempt_at
+    )
+    SELECT
+        c.lead_id,
+        COALESCE(c.customer_id, l.customer_id),
+        c.id,
+        COALESCE(c.description, 'גבייה'),
+        c.remaining_amount,
+        c.currency,
+        NOW() + make_interval(days => settings.step_days[1])
+    FROM public.collections c
+    JOIN public.leads l ON l.id = c.lead_id
+    WHERE c.status IN ('ממתין', 'חלקי')
+      AND c.due_date < CURRENT_DATE
+      AND c.remaining_amount > 0
+      AND COALESCE(c.customer_id, l.customer_id) IS NOT NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM public.payment_dunning d
+          WHERE d.collection_id = c.id AND d.status <> 'שולם'
+      );
+
+    GET DIAGNOSTICS started_count = ROW_COUNT;
+    RETURN started_count;
+END;
+$$;
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
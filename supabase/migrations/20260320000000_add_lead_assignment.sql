@@ -0,0 +1,400 @@
+-- =====================================================
+-- Lead Assignment and Coach Caseloads
+-- Created: 2026-03-20
+-- Description: Puts leads.assigned_to (the trainee's coach) to use
+--              - lead_assignment_settings: manual or round-robin assignment of new leads
+--              - New leads without a coach get the next coach in the rotation (round-robin mode)
+--              - assign_lead_round_robin(): assigns an existing unassigned lead (Fillout webhook)
+--              - get_coach_caseloads(): active trainees / leads per coach for the analytics page
+--              - v_leads_with_customer: adds assigned_to_name for the leads table
+--              (see LEAD_ASSIGNMENT.md)
+-- =====================================================
+
+-- =====================================================
+-- Settings
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.lead_assignment_settings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- manual: new leads stay unassigned unless a coach is picked; round_robin: rotate between coach_ids
+    mode TEXT NOT NULL DEFAULT 'manual' CHECK (mode IN ('manual', 'round_robin')),
+    coach_ids UUID[] NOT NULL DEFAULT '{}',
+    last_assigned_to UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Single settings row
+INSERT INTO public.lead_assignment_settings (mode)
+SELECT 'manual'
+WHERE NOT EXISTS (SELECT 1 FROM public.lead_assignment_settings);
+
+DROP TRIGGER IF EXISTS update_lead_assignment_settings_updated_at ON public.lead_assignment_settings;
+CREATE TRIGGER update_lead_assignment_settings_updated_at
+    BEFORE UPDATE ON public.lead_assignment_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.lead_assignment_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read lead assignment settings" ON public.lead_assignment_settings;
+CREATE POLICY "Staff can read lead assignment settings"
+    ON public.lead_assignment_settings FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Admins can update lead assignment settings" ON public.lead_assignment_settings;
+CREATE POLICY "Admins can update lead assignment settings"
+    ON public.lead_assignment_settings FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- Round-robin assignment
+-- =====================================================
+
+-- Next active coach in the rotation (NULL in manual mode or when no coach takes part).
+-- The settings row is locked so concurrent leads don't get the same coach.
+CREATE OR REPLACE FUNCTION public.next_round_robin_coach()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    settings RECORD;
+    next_coach_id UUID;
+BEGIN
+    SELECT s.id, s.mode, s.coach_ids, s.last_assigned_to INTO settings
+    FROM public.lead_assignment_settings s
+    ORDER BY s.created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF NOT FOUND OR settings.mode <> 'round_robin' THEN
+        RETURN NULL;
+    END IF;
+
+    -- The first coach after the last assigned one, wrapping around to the start
+    SELECT p.id INTO next_coach_id
+    FROM public.profiles p
+    WHERE p.id = ANY(settings.coach_ids)
+      AND p.is_active = TRUE
+      AND p.role IN ('admin', 'user')
+    ORDER BY (settings.last_assigned_to IS NOT NULL AND p.id > settings.last_assigned_to) DESC, p.id
+    LIMIT 1;
+
+    IF next_coach_id IS NOT NULL THEN
+        UPDATE public.lead_assignment_settings
+        SET last_assigned_to = next_coach_id
+        WHERE id = settings.id;
+    END IF;
+
+    RETURN next_coach_id;
+END;
+$$;
+
+-- Only the lead trigger and assign_lead_round_robin() advance the rotation
+REVOKE EXECUTE ON FUNCTION public.next_round_robin_coach() FROM PUBLIC, anon, authenticated;
+
+-- New leads without a coach (add-lead dialog, public booking, edge functions) join the rotation
+CREATE OR REPLACE FUNCTION public.assign_new_lead_coach()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.assigned_to IS NULL THEN
+        NEW.assigned_to := public.next_round_robin_coach();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_new_lead_coach ON public.leads;
+CREATE TRIGGER assign_new_lead_coach
+    BEFORE INSERT ON public.leads
+    FOR EACH ROW
+    EXECUTE FUNCTION public.assign_new_lead_coach();
+
+-- Assigns an existing unassigned lead with the rotation; returns the lead's coach (NULL if none)
+CREATE OR REPLACE FUNCTION public.assign_lead_round_robin(p_lead_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    current_coach_id UUID;
+    next_coach_id UUID;
+BEGIN
+    SELECT assigned_to INTO current_coach_id
+    FROM public.leads
+    WHERE id = p_lead_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR current_coach_id IS NOT NULL THEN
+        RETURN current_coach_id;
+    END IF;
+
+    next_coach_id := public.next_round_robin_coach();
+
+    IF next_coach_id IS NOT NULL THEN
+        UPDATE public.leads SET assigned_to = next_coach_id WHERE id = p_lead_id;
+    END IF;
+
+    RETURN next_coach_id;
+END;
+$$;
+
+-- Called by the receive-fillout-webhook edge function (service role)
+REVOKE EXECUTE ON FUNCTION public.assign_lead_round_robin(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- Caseloads
+-- =====================================================
+
+-- Active trainees (subscription status פעיל), all leads and new leads in the date range per coach.
+-- Inactive coaches are listed while they still have leads; unassigned leads come as coach_id NULL.
+CREATE OR REPLACE FUNCTION public.get_coach_caseloads(
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    coach_id UUID,
+    coach_name TEXT,
+    is_active BOOLEAN,
+    active_trainees INTEGER,
+    total_leads INTEGER,
+    new_leads INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH lead_counts AS (
+        SELECT
+            l.assigned_to,
+            COUNT(*) FILTER (WHERE (l.subscription_data->>'status')::TEXT = 'פעיל')::INTEGER AS active_trainees,
+            COUNT(*)::INTEGER AS total_leads,
+            COUNT(*) FILTER (
+                WHERE (p_from IS NULL OR l.created_at >= p_from)
+                  AND (p_to IS NULL OR l.created_at <= p_to)
+            )::INTEGER AS new_leads
+        FROM public.leads l
+        GROUP BY l.assigned_to
+    )
+    SELECT
+        p.id,
+        COALESCE(p.full_name, p.email),
+        p.is_active,
+        COALESCE(lc.active_trainees, 0),
+        COALESCE(lc.total_leads, 0),
+        COALESCE(lc.new_leads, 0)
+    FROM public.profiles p
+    LEFT JOIN lead_counts lc ON lc.assigned_to = p.id
+    WHERE public.is_admin_or_manager()
+      AND p.role IN ('admin', 'user')
+      AND (p.is_active = TRUE OR lc.total_leads > 0)
+    UNION ALL
+    SELECT NULL, NULL, TRUE, lc.active_trainees, lc.total_leads, lc.new_leads
+    FROM lead_counts lc
+    WHERE public.is_admin_or_manager()
+      AND lc.assigned_to IS NULL
+    ORDER BY 4 DESC, 5 DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_coach_caseloads(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- =====================================================
+-- Leads view: coach name
+-- =====================================================
+
+-- Same definition as 20260309000000_add_missed_check_in_detection.sql with assigned_to_name appended
+CREATE OR REPLACE VIEW "public"."v_leads_with_customer" AS
+SELECT
+    l.id,
+    l.created_at,
+    l.updated_at,
+    l.assigned_to,
+    l.customer_id,
+    l.city,
+    l.birth_date,
+    l.age,
+    l.gender,
+    l.period,
+    l.status_main,
+    l.status_sub,
+    l.height,
+    l.weight,
+    l.bmi,
+    l.join_date,
+    l.subscription_data,
+    l.daily_protocol,
+    l.workout_history,
+    l.steps_history,
+    l.source,
+    l.fitness_goal,
+    l.activity_level,
+    l.preferred_time,
+    l.notes,
+    -- Customer data (One-to-One)
+    c.full_name as customer_name,
+    c.phone as customer_phone,
+    c.email as customer_email,
+    -- Calculated fields
+    TO_CHAR(l.created_at, 'YYYY-MM-DD') as created_date_formatted,
+    TO_CHAR(l.birth_date, 'YYYY-MM-DD') as birth_date_formatted,
+    -- JSONB fields extracted for convenience
+    (l.daily_protocol->>'stepsGoal')::INTEGER as daily_steps_goal,
+    (l.daily_protocol->>'workoutGoal')::INTEGER as weekly_workouts_goal,
+    (l.daily_protocol->>'supplements')::JSONB as daily_supplements,
+    (l.subscription_data->>'months')::INTEGER as subscription_months,
+    (l.subscription_data->>'initialPrice')::DECIMAL as subscription_initial_price,
+    (l.subscription_data->>'renewalPrice')::DECIMAL as subscription_renewal_price,
+    (l.subscription_data->>'name')::TEXT as subscription_name,
+
+    -- Active Budget (One-to-One via assignment)
+    b.name as active_budget_name,
+    b.id as active_budget_id,
+    to_jsonb(b.*) as active_budget_json,
+
+    -- Payments (One-to-Many)
+    COALESCE(p_agg.total_paid, 0) as total_paid,
+    p_agg.last_payment_date,
+    COALESCE(p_agg.payments_json, '[]'::jsonb) as payments_json,
+
+    -- Collections (One-to-Many)
+    COALESCE(col_agg.total_expected, 0) as total_expected,
+    (COALESCE(col_agg.total_expected, 0) - COALESCE(p_agg.total_paid, 0)) as debt_amount,
+    COALESCE(col_agg.collections_json, '[]'::jsonb) as collections_json,
+
+    -- Workout Plans (One-to-Many)
+    COALESCE(wp_agg.plan_count, 0) as workout_plans_count,
+    wp_agg.latest_plan_date as latest_workout_plan_date,
+    COALESCE(wp_agg.plans_json, '[]'::jsonb) as workout_plans_json,
+
+    -- Nutrition Plans (One-to-Many)
+    COALESCE(np_agg.plan_count, 0) as nutrition_plans_count,
+    np_agg.latest_plan_date as latest_nutrition_plan_date,
+    COALESCE(np_agg.plans_json, '[]'::jsonb) as nutrition_plans_json,
+
+    -- Supplement Plans (One-to-Many)
+    COALESCE(sup_agg.plan_count, 0) as supplement_plans_count,
+    sup_agg.latest_plan_date as latest_supplement_plan_date,
+    COALESCE(sup_agg.plans_json, '[]'::jsonb) as supplement_plans_json,
+
+    -- Steps Plans (One-to-Many)
+    COALESCE(step_agg.plan_count, 0) as steps_plans_count,
+    step_agg.latest_plan_date as latest_steps_plan_date,
+    COALESCE(step_agg.plans_json, '[]'::jsonb) as steps_plans_json,
+
+    -- Meetings (One-to-Many)
+    COALESCE(meet_agg.meeting_count, 0) as meetings_count,
+    meet_agg.latest_meeting_date,
+    meet_agg.next_meeting_date,
+    COALESCE(meet_agg.meetings_json, '[]'::jsonb) as meetings_json,
+
+    -- Blood Tests (One-to-Many)
+    COALESCE(blood_agg.test_count, 0) as blood_tests_count,
+    blood_agg.latest_test_date,
+    COALESCE(blood_agg.tests_json, '[]'::jsonb) as blood_tests_json,
+
+    -- Daily check-in compliance (customer_check_in_stats)
+    ci_stats.last_check_in_date,
+    COALESCE(ci_stats.current_streak, 0) as check_in_streak,
+    COALESCE(ci_stats.check_ins_last_7_days, 0) as check_ins_last_7_days,
+
+    -- Assigned coach
+    COALESCE(coach.full_name, coach.email) as assigned_to_name
+
+FROM public.leads l
+LEFT JOIN public.customers c ON l.customer_id = c.id
+LEFT JOIN public.budget_assignments ba ON l.id = ba.lead_id AND ba.is_active = true
+LEFT JOIN public.budgets b ON ba.budget_id = b.id
+
+-- Payments Aggregation
+LEFT JOIN (
+    SELECT lead_id, SUM(amount) as total_paid, MAX(created_at) as last_payment_date,
+           jsonb_agg(to_jsonb(p.*) ORDER BY created_at DESC) as payments_json
+    FROM public.payments p GROUP BY lead_id
+) p_agg ON l.id = p_agg.lead_id
+
+-- Collections Aggregation
+LEFT JOIN (
+    SELECT lead_id, SUM(total_amount) as total_expected,
+           jsonb_agg(to_jsonb(cl.*) ORDER BY due_date ASC) as collections_json
+    FROM public.collections cl GROUP BY lead_id
+) col_agg ON l.id = col_agg.lead_id
+
+-- Workout Plans
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as plan_count, MAX(start_date) as latest_plan_date,
+           jsonb_agg(to_jsonb(wp.*) ORDER BY start_date DESC) as plans_json
+    FROM public.workout_plans wp GROUP BY lead_id
+) wp_agg ON l.id = wp_agg.lead_id
+
+-- Nutrition Plans
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as plan_count, MAX(start_date) as latest_plan_date,
+           jsonb_agg(to_jsonb(np.*) ORDER BY start_date DESC) as plans_json
+    FROM public.nutrition_plans np GROUP BY lead_id
+) np_agg ON l.id = np_agg.lead_id
+
+-- Supplement Plans
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as plan_count, MAX(start_date) as latest_plan_date,
+           jsonb_agg(to_jsonb(sp.*) ORDER BY start_date DESC) as plans_json
+    FROM public.supplement_plans sp GROUP BY lead_id
+) sup_agg ON l.id = sup_agg.lead_id
+
+-- Steps Plans
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as plan_count, MAX(start_date) as latest_plan_date,
+           jsonb_agg(to_jsonb(stp.*) ORDER BY start_date DESC) as plans_json
+    FROM public.steps_plans stp GROUP BY lead_id
+) step_agg ON l.id = step_agg.lead_id
+
+-- Meetings
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as meeting_count,
+           MAX(created_at) FILTER (WHERE created_at < now()) as latest_meeting_date,
+           MIN(created_at) FILTER (WHERE created_at >= now()) as next_meeting_date,
+           jsonb_agg(to_jsonb(m.*) ORDER BY created_at DESC) as meetings_json
+    FROM public.meetings m GROUP BY lead_id
+) meet_agg ON l.id = meet_agg.lead_id
+
+-- Blood Tests
+LEFT JOIN (
+    SELECT lead_id, COUNT(*) as test_count, MAX(created_at) as latest_test_date,
+           jsonb_agg(to_jsonb(bt.*) ORDER BY created_at DESC) as tests_json
+    FROM public.blood_tests bt GROUP BY lead_id
+) blood_agg ON l.id = blood_agg.lead_id
+
+-- Daily check-ins
+LEFT JOIN public.customer_check_in_stats ci_stats ON l.customer_id = ci_stats.customer_id
+
+-- Assigned coach
+LEFT JOIN public.profiles coach ON l.assigned_to = coach.id;
+
+
+-- Add comments
+COMMENT ON TABLE public.lead_assignment_settings IS 'How new leads get a coach: manual, or round-robin between coach_ids';
+COMMENT ON COLUMN public.lead_assignment_settings.last_assigned_to IS 'Coach who got the last round-robin lead; the rotation continues after them';
+COMMENT ON FUNCTION public.get_coach_caseloads(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) IS 'Active trainees, leads and new leads in the date range per coach (coach_id NULL = unassigned)';
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
@@ -0,0 +1,390 @@
+-- =====================================================
+-- Staff Roles & Permissions
+-- Created: 2026-03-21
+-- Description: Capability-based access for staff beyond admin / user / trainee
+--              - staff_permissions: the capabilities (leads, payments, health_data, ...)
+--              - staff_roles + staff_role_permissions: which capabilities each role has
+--              - profiles.staff_role: the role of a staff member (profiles.role stays admin / user / trainee)
+--              - has_permission() / user_has_permission(): capability checks for RLS and edge functions
+--              - restrictive RLS policies on leads, meetings, health data, plans, payments and messaging
+--              (see STAFF_PERMISSIONS.md)
+-- =====================================================
+
+-- =====================================================
+-- Permissions, roles and role permissions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.staff_permissions (
+    key TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    description TEXT,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.staff_permissions (key, label, description, display_order) VALUES
+    ('leads', 'לידים ולקוחות', 'רשימות הלידים והלקוחות, כרטיס המתאמן וחשבונות מתאמנים', 1),
+    ('meetings', 'פגישות', 'יומן הפגישות ופרטי פגישה', 2),
+    ('health_data', 'נתוני בריאות', 'דיווחים יומיים, סיכומים שבועיים ובדיקות דם', 3),
+    ('plans', 'תכניות ותבניות', 'תכניות אימון, תזונה, תוספים וצעדים, תבניות, תרגילים ותכניות פעולה', 4),
+    ('payments', 'תשלומים וגבייה', 'תשלומים, גבייה, סוגי מנויים, מסמכי מס ושערי מטבע', 5),
+    ('messaging', 'אוטומציות WhatsApp', 'אוטומציות, תבניות, הודעות מתוזמנות ושליחה מרוכזת', 6),
+    ('knowledge_base', 'מאגר ידע', 'מאגר הידע הפנימי', 7),
+    ('analytics', 'אנליטיקה', 'עמוד האנליטיקה', 8),
+    ('settings', 'הגדרות', 'הגדרות צ''ק-אין', 9),
+    ('users', 'ניהול צוות', 'תפקידים והרשאות של אנשי הצוות', 10)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.staff_roles (
+    key TEXT PRIMARY KEY,
+    label TEXT NOT NULL,
+    description TEXT,
+    -- System roles can't be edited (admin always has every permission)
+    is_system BOOLEAN NOT NULL DEFAULT FALSE,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.staff_roles (key, label, description, is_system, display_order) VALUES
+    ('admin', 'מנהל', 'גישה מלאה', TRUE, 1),
+    ('head_coach', 'מאמן ראשי', 'כל המערכת מלבד ניהול צוות', FALSE, 2),
+    ('coach', 'מאמן', 'מתאמנים, פגישות, נתוני בריאות ותכניות', FALSE, 3),
+    ('nutritionist', 'תזונאי/ת', 'תכניות ותבניות בלבד', FALSE, 4),
+    ('sales', 'מכירות וגבייה', 'לידים, פגישות ותשלומים, ללא נתוני בריאות', FALSE, 5)
+ON CONFLICT (key) DO NOTHING;
+
+DROP TRIGGER IF EXISTS update_staff_roles_updated_at ON public.staff_roles;
+CREATE TRIGGER update_staff_roles_updated_at
+    BEFORE UPDATE ON public.staff_roles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.staff_role_permissions (
+    role_key TEXT NOT NULL REFERENCES public.staff_roles(key) ON DELETE CASCADE ON UPDATE CASCADE,
+    permission TEXT NOT NULL REFERENCES public.staff_permissions(key) ON DELETE CASCADE ON UPDATE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (role_key, permission)
+);
+
+-- Default capabilities per role
+INSERT INTO public.staff_role_permissions (role_key, permission)
+SELECT role_permission.role_key, role_permission.permission
+FROM (VALUES
+    ('admin', 'leads'), ('admin', 'meetings'), ('admin', 'health_data'), ('admin', 'plans'), ('admin', 'payments'),
+    ('admin', 'messaging'), ('admin', 'knowledge_base'), ('admin', 'analytics'), ('admin', 'settings'), ('admin', 'users'),
+    ('head_coach', 'leads'), ('head_coach', 'meetings'), ('head_coach', 'health_data'), ('head_coach', 'plans'),
+    ('head_coach', 'payments'), ('head_coach', 'messaging'), ('head_coach', 'knowledge_base'), ('head_coach', 'analytics'),
+    ('head_coach', 'settings'),
+    ('coach', 'leads'), ('coach', 'meetings'), ('coach', 'health_data'), ('coach', 'plans'), ('coach', 'messaging'),
+    ('coach', 'knowledge_base'),
+    ('nutritionist', 'plans'), ('nutritionist', 'knowledge_base'),
+    ('sales', 'leads'), ('sales', 'meetings'), ('sales', 'payments')
+) AS role_permission(role_key, permission)
+ON CONFLICT (role_key, permission) DO NOTHING;
+
+ALTER TABLE public.staff_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_role_permissions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can read staff permissions" ON public.staff_permissions;
+CREATE POLICY "Staff can read staff permissions"
+    ON public.staff_permissions FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Staff can read staff roles" ON public.staff_roles;
+CREATE POLICY "Staff can read staff roles"
+    ON public.staff_roles FOR SELECT
+    USING (public.is_admin_or_manager());
+
+DROP POLICY IF EXISTS "Staff can read staff role permissions" ON public.staff_role_permissions;
+CREATE POLICY "Staff can read staff role permissions"
+    ON public.staff_role_permissions FOR SELECT
+    USING (public.is_admin_or_manager());
+
+COMMENT ON TABLE public.staff_permissions IS 'Capabilities that can be granted to staff roles';
+COMMENT ON TABLE public.staff_roles IS 'Staff roles (head coach, coach, nutritionist, sales, ...)';
+COMMENT ON TABLE public.staff_role_permissions IS 'Capabilities of each staff role';
+
+-- =====================================================
+-- Staff role of a profile
+-- =====================================================
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS staff_role TEXT REFERENCES public.staff_roles(key) ON DELETE SET NULL ON UPDATE CASCADE;
+
+COMMENT ON COLUMN public.profiles.staff_role IS 'Staff role for admin / user profiles; staff without one are treated as coach';
+
+-- Existing staff keep the access they had
+UPDATE public.profiles SET staff_role = 'admin' WHERE role = 'admin' AND staff_role IS NULL;
+UPDATE public.profiles SET staff_role = 'head_coach' WHERE role = 'user' AND staff_role IS NULL;
+
+-- Staff may update their own profile, so the staff role can only be changed with the users
+-- permission (see set_staff_role) and staff access only be granted by admins
+CREATE OR REPLACE FUNCTION public.prevent_staff_role_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Service role / SQL (no auth.uid()) and admins are not restricted
+    IF auth.uid() IS NULL OR public.is_admin(auth.uid()) THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.role IS DISTINCT FROM OLD.role AND NEW.role IN ('admin', 'user') THEN
+        RAISE EXCEPTION 'Only admins can grant staff access';
+    END IF;
+
+    IF NEW.staff_role IS DISTINCT FROM OLD.staff_role AND NOT public.has_permission('users') THEN
+        RAISE EXCEPTION 'Only staff with the users permission can change staff roles';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_staff_role_escalation ON public.profiles;
+CREATE TRIGGER prevent_staff_role_escalation
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_staff_role_escalation();
+
+-- =====================================================
+-- Capability checks
+-- =====================================================
+
+-- Whether an active staff member has a capability. Admins have every capability.
+CREATE OR REPLACE FUNCTION public.user_has_permission(p_user_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.profiles p
+        WHERE p.id = p_user_id
+          AND p.is_active IS DISTINCT FROM FALSE
+          AND (
+              p.role = 'admin'
+              OR (
+                  p.role = 'user'
+                  AND EXISTS (
+                      SELECT 1 FROM public.staff_role_permissions rp
+                      WHERE rp.role_key = COALESCE(p.staff_role, 'coach')
+                        AND rp.permission = p_permission
+                  )
+              )
+          )
+    );
+$$;
+
+-- Edge functions call it with the service role key
+REVOKE EXECUTE ON FUNCTION public.user_has_permission(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.user_has_permission(UUID, TEXT) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.user_has_permission(auth.uid(), p_permission);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_permission(TEXT) TO authenticated;
+
+-- Capabilities of the logged-in user, for hiding pages and actions in the app
+CREATE OR REPLACE FUNCTION public.get_my_permissions()
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(array_agg(sp.key ORDER BY sp.display_order), '{}')
+    FROM public.staff_permissions sp
+    WHERE public.user_has_permission(auth.uid(), sp.key);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_permissions() TO authenticated;
+
+-- RLS helper: staff need the capability; trainees and anonymous users fall through to the
+-- table's other policies
+CREATE OR REPLACE FUNCTION public.passes_staff_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT NOT public.is_admin_or_manager() OR public.has_permission(p_permission);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.passes_staff_permission(TEXT) TO anon, authenticated;
+
+-- The admin role is fixed; other roles' permissions are managed with the users permission
+DROP POLICY IF EXISTS "Team managers can manage staff role permissions" ON public.staff_role_permissions;
+CREATE POLICY "Team managers can manage staff role permissions"
+    ON public.staff_role_permissions FOR ALL
+    USING (role_key <> 'admin' AND public.has_permission('users'))
+    WITH CHECK (role_key <> 'admin' AND public.has_permission('users'));
+
+-- Sets the staff role of a coach (admins always have every permission)
+CREATE OR REPLACE FUNCTION public.set_staff_role(p_profile_id UUID, p_staff_role TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_permission('users') THEN
+        RAISE EXCEPTION 'Only staff with the users permission can change staff roles';
+    END IF;
+
+    IF p_staff_role = 'admin' THEN
+        RAISE EXCEPTION 'The admin role is granted by making the user an admin';
+    END IF;
+
+    UPDATE public.profiles
+    SET staff_role = p_staff_role
+    WHERE id = p_profile_id
+      AND role = 'user';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Staff member not found';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_staff_role(UUID, TEXT) TO authenticated;
+
+-- Same as before (20260320000000_add_lead_assignment.sql), for staff with the leads permission.
+-- The RPCs written in PL/pgSQL check their capability themselves.
+CREATE OR REPLACE FUNCTION public.get_coach_caseloads(
+    p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+    coach_id UUID,
+    coach_name TEXT,
+    is_active BOOLEAN,
+    active_trainees INTEGER,
+    total_leads INTEGER,
+    new_leads INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH lead_counts AS (
+        SELECT
+            l.assigned_to,
+            COUNT(*) FILTER (WHERE (l.subscription_data->>'status')::TEXT = 'פעיל')::INTEGER AS active_trainees,
+            COUNT(*)::INTEGER AS total_leads,
+            COUNT(*) FILTER (
+                WHERE (p_from IS NULL OR l.created_at >= p_from)
+                  AND (p_to IS NULL OR l.created_at <= p_to)
+            )::INTEGER AS new_leads
+        FROM public.leads l
+        GROUP BY l.assigned_to
+    )
+    SELECT
+        p.id,
+        COALESCE(p.full_name, p.email),
+        p.is_active,
+        COALESCE(lc.active_trainees, 0),
+        COALESCE(lc.total_leads, 0),
+        COALESCE(lc.new_leads, 0)
+    FROM public.profiles p
+    LEFT JOIN lead_counts lc ON lc.assigned_to = p.id
+    WHERE public.has_permission('leads')
+      AND p.role IN ('admin', 'user')
+      AND (p.is_active = TRUE OR lc.total_leads > 0)
+    UNION ALL
+    SELECT NULL, NULL, TRUE, lc.active_trainees, lc.total_leads, lc.new_leads
+    FROM lead_counts lc
+    WHERE public.has_permission('leads')
+      AND lc.assigned_to IS NULL
+    ORDER BY 4 DESC, 5 DESC;
+$$;
+
+-- =====================================================
+-- Enforcement
+-- =====================================================
+
+-- Restrictive policies are ANDed with the existing (permissive) policies of each table,
+-- so they only take access away from staff without the capability.
+DO $$
+DECLARE
+    v_item RECORD;
+BEGIN
+    FOR v_item IN
+        SELECT * FROM (VALUES
+            ('leads', 'leads'),
+            ('customers', 'leads'),
+            ('customer_notes', 'leads'),
+            ('lead_assignment_settings', 'leads'),
+            ('meetings', 'meetings'),
+            ('calendar_feed_tokens', 'meetings'),
+            ('coach_booking_settings', 'meetings'),
+            ('coach_availability_rules', 'meetings'),
+            ('coach_availability_exceptions', 'meetings'),
+            ('daily_check_ins', 'health_data'),
+            ('weekly_reviews', 'health_data'),
+            ('blood_tests', 'health_data'),
+            ('check_in_reminder_settings', 'health_data'),
+            ('workout_plans', 'plans'),
+            ('nutrition_plans', 'plans'),
+            ('supplement_plans', 'plans'),
+            ('steps_plans', 'plans'),
+            ('workout_templates', 'plans'),
+            ('nutrition_templates', 'plans'),
+            ('supplement_templates', 'plans'),
+            ('exercises', 'plans'),
+            ('budgets', 'plans'),
+            ('budget_assignments', 'plans'),
+            ('budget_history', 'plans'),
+            ('saved_action_plans', 'plans'),
+            ('payments', 'payments'),
+            ('collections', 'payments'),
+            ('installment_plans', 'payments'),
+            ('payment_installments', 'payments'),
+            ('payment_dunning', 'payments'),
+            ('payment_dunning_settings', 'payments'),
+            ('tax_documents', 'payments'),
+            ('tax_document_sequences', 'payments'),
+            ('business_settings', 'payments'),
+            ('subscription_types', 'payments'),
+            ('exchange_rates', 'payments'),
+            ('whatsapp_automation_flows', 'messaging'),
+            ('whatsapp_automation_rules', 'messaging'),
+            ('automation_rule_events', 'messaging'),
+            ('automation_rule_runs', 'messaging'),
+            ('whatsapp_flow_templates', 'messaging'),
+            ('whatsapp_broadcasts', 'messaging'),
+            ('scheduled_messages', 'messaging'),
+            ('whatsapp_messages', 'messaging')
+        ) AS protected_table(table_name, permission)
+    LOOP
+        IF to_regclass('public.' || v_item.table_name) IS NOT NULL THEN
+            EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Staff need the ' || v_item.permission || ' permission', v_item.table_name);
+            EXECUTE format(
+                'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR ALL USING ((SELECT public.passes_staff_permission(%L))) WITH CHECK ((SELECT public.passes_staff_permission(%L)))',
+                'Staff need the ' || v_item.permission || ' permission',
+                v_item.table_name,
+                v_item.permission,
+                v_item.permission
+            );
+        END IF;
+    END LOOP;
+END $$;
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
@@ -0,0 +1,281 @@
+-- =====================================================
+-- Impersonation Sessions
+-- Created: 2026-03-22
+-- Description: Server-side record of "View as Client" sessions
+--              - impersonation_sessions: who viewed which trainee, why, and for how long
+--              - impersonation_audit_log: started / viewed / ended / expired events
+--                (next to invitation_audit_log), including every trainee screen viewed
+--              - RPCs to start, end and log sessions; a session expires at expires_at
+--              (see IMPERSONATION.md)
+-- =====================================================
+
+-- =====================================================
+-- Sessions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.impersonation_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    actor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    target_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    target_customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    -- manual: exited by the coach; expired: timed out; replaced: the coach started another session
+    end_reason TEXT CHECK (end_reason IN ('manual', 'expired', 'replaced')),
+    user_agent TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_actor_id ON public.impersonation_sessions(actor_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_impersonation_sessions_target_customer_id ON public.impersonation_sessions(target_customer_id, started_at DESC);
+
+-- =====================================================
+-- Audit log
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.impersonation_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES public.impersonation_sessions(id) ON DELETE CASCADE,
+    action TEXT NOT NULL CHECK (action IN ('started', 'viewed', 'ended', 'expired')),
+    performed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    target_customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE,
+    -- viewed: { section, health_data }; started: { reason, duration_minutes }
+    metadata JSONB DEFAULT '{}'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_impersonation_audit_log_session_id ON public.impersonation_audit_log(session_id);
+CREATE INDEX IF NOT EXISTS idx_impersonation_audit_log_performed_by ON public.impersonation_audit_log(performed_by);
+CREATE INDEX IF NOT EXISTS idx_impersonation_audit_log_target_customer_id ON public.impersonation_audit_log(target_customer_id, created_at DESC);
+
+-- =====================================================
+-- RLS: written only through the functions below
+-- =====================================================
+
+ALTER TABLE public.impersonation_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.impersonation_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view own impersonation sessions" ON public.impersonation_sessions;
+CREATE POLICY "Staff can view own impersonation sessions"
+    ON public.impersonation_sessions FOR SELECT
+    USING (actor_id = auth.uid());
+
+DROP POLICY IF EXISTS "Team managers can view impersonation sessions" ON public.impersonation_sessions;
+CREATE POLICY "Team managers can view impersonation sessions"
+    ON public.impersonation_sessions FOR SELECT
+    USING (public.has_permission('users'));
+
+DROP POLICY IF EXISTS "Team managers can view impersonation audit log" ON public.impersonation_audit_log;
+CREATE POLICY "Team managers can view impersonation audit log"
+    ON public.impersonation_audit_log FOR SELECT
+    USING (public.has_permission('users'));
+
+COMMENT ON TABLE public.impersonation_sessions IS 'Audited, time-limited "View as Client" sessions';
+COMMENT ON TABLE public.impersonation_audit_log IS 'Events of impersonation sessions, including every trainee screen viewed';
+
+-- =====================================================
+-- Session functions
+-- =====================================================
+
+-- Marks the caller's sessions that are past expires_at as expired
+CREATE OR REPLACE FUNCTION public.expire_impersonation_sessions(p_actor_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session RECORD;
+BEGIN
+    FOR v_session IN
+        UPDATE public.impersonation_sessions
+        SET ended_at = expires_at, end_reason = 'expired'
+        WHERE actor_id = p_actor_id
+          AND ended_at IS NULL
+          AND expires_at <= NOW()
+        RETURNING id, target_customer_id, expires_at
+    LOOP
+        INSERT INTO public.impersonation_audit_log (session_id, action, performed_by, target_customer_id, created_at)
+        VALUES (v_session.id, 'expired', p_actor_id, v_session.target_customer_id, v_session.expires_at);
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_impersonation_sessions(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Starts a session for viewing a trainee as them; any open session of the caller is ended.
+-- Viewing as a trainee shows their health data, so both leads and health_data are required.
+CREATE OR REPLACE FUNCTION public.start_impersonation_session(
+    p_customer_id UUID,
+    p_reason TEXT,
+    p_duration_minutes INTEGER DEFAULT 30,
+    p_user_agent TEXT DEFAULT NULL
+)
+RETURNS public.impersonation_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_actor_id UUID := auth.uid();
+    v_target_user_id UUID;
+    v_duration INTEGER := LEAST(GREATEST(COALESCE(p_duration_minutes, 30), 5), 120);
+    v_session public.impersonation_sessions;
+    v_previous RECORD;
+BEGIN
+    IF NOT (public.has_permission('leads') AND public.has_permission('health_data')) THEN
+        RAISE EXCEPTION 'You do not have permission to view trainees as them';
+    END IF;
+
+    IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+        RAISE EXCEPTION 'A reason is required';
+    END IF;
+
+    SELECT user_id INTO v_target_user_id
+    FROM public.customers
+    WHERE id = p_customer_id;
+
+    IF v_target_user_id IS NULL THEN
+        RAISE EXCEPTION 'The trainee has no user account';
+    END IF;
+
+    PERFORM public.expire_impersonation_sessions(v_actor_id);
+
+    FOR v_previous IN
+        UPDATE public.impersonation_sessions
+        SET ended_at = NOW(), end_reason = 'replaced'
+        WHERE actor_id = v_actor_id
+          AND ended_at IS NULL
+        RETURNING id, target_customer_id
+    LOOP
+        INSERT INTO public.impersonation_audit_log (session_id, action, performed_by, target_customer_id, metadata)
+        VALUES (v_previous.id, 'ended', v_actor_id, v_previous.target_customer_id, jsonb_build_object('end_reason', 'replaced'));
+    END LOOP;
+
+    INSERT INTO public.impersonation_sessions (
+        actor_id, target_user_id, target_customer_id, reason, expires_at, user_agent
+    )
+    VALUES (
+        v_actor_id, v_target_user_id, p_customer_id, trim(p_reason),
+        NOW() + make_interval(mins => v_duration), p_user_agent
+    )
+    RETURNING * INTO v_session;
+
+    INSERT INTO public.impersonation_audit_log (session_id, action, performed_by, target_customer_id, metadata)
+    VALUES (
+        v_session.id, 'started', v_actor_id, p_customer_id,
+        jsonb_build_object('reason', v_session.reason, 'duration_minutes', v_duration)
+    );
+
+    RETURN v_session;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_impersonation_session(UUID, TEXT, INTEGER, TEXT) TO authenticated;
+
+-- The caller's active session for a trainee (e.g. to resume after a page refresh), or NULL
+CREATE OR REPLACE FUNCTION public.get_active_impersonation_session(p_customer_id UUID)
+RETURNS public.impersonation_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session public.impersonation_sessions;
+BEGIN
+    PERFORM public.expire_impersonation_sessions(auth.uid());
+
+    SELECT * INTO v_session
+    FROM public.impersonation_sessions
+    WHERE actor_id = auth.uid()
+      AND target_customer_id = p_customer_id
+      AND ended_at IS NULL
+    ORDER BY started_at DESC
+    LIMIT 1;
+
+    RETURN v_session;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_active_impersonation_session(UUID) TO authenticated;
+
+-- Logs a trainee screen viewed during a session. Returns FALSE once the session is over.
+CREATE OR REPLACE FUNCTION public.log_impersonation_view(
+    p_session_id UUID,
+    p_section TEXT,
+    p_health_data BOOLEAN DEFAULT FALSE
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session public.impersonation_sessions;
+BEGIN
+    PERFORM public.expire_impersonation_sessions(auth.uid());
+
+    SELECT * INTO v_session
+    FROM public.impersonation_sessions
+    WHERE id = p_session_id
+      AND actor_id = auth.uid();
+
+    IF v_session.id IS NULL OR v_session.ended_at IS NOT NULL THEN
+        RETURN FALSE;
+    END IF;
+
+    INSERT INTO public.impersonation_audit_log (session_id, action, performed_by, target_customer_id, metadata)
+    VALUES (
+        v_session.id, 'viewed', auth.uid(), v_session.target_customer_id,
+        jsonb_build_object('section', p_section, 'health_data', COALESCE(p_health_data, FALSE))
+    );
+
+    RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.log_impersonation_view(UUID, TEXT, BOOLEAN) TO authenticated;
+
+-- Ends the caller's session (manual exit, or 'expired' when the app's timer ran out)
+CREATE OR REPLACE FUNCTION public.end_impersonation_session(
+    p_session_id UUID,
+    p_end_reason TEXT DEFAULT 'manual'
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session_id UUID;
+    v_customer_id UUID;
+    v_end_reason TEXT := CASE WHEN p_end_reason = 'expired' THEN 'expired' ELSE 'manual' END;
+BEGIN
+    PERFORM public.expire_impersonation_sessions(auth.uid());
+
+    UPDATE public.impersonation_sessions
+    SET ended_at = LEAST(NOW(), expires_at), end_reason = v_end_reason
+    WHERE id = p_session_id
+      AND actor_id = auth.uid()
+      AND ended_at IS NULL
+    RETURNING id, target_customer_id INTO v_session_id, v_customer_id;
+
+    IF v_session_id IS NOT NULL THEN
+        INSERT INTO public.impersonation_audit_log (session_id, action, performed_by, target_customer_id)
+        VALUES (
+            v_session_id,
+            CASE WHEN v_end_reason = 'expired' THEN 'expired' ELSE 'ended' END,
+            auth.uid(),
+            v_customer_id
+        );
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.end_impersonation_session(UUID, TEXT) TO authenticated;
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
@@ -0,0 +1,185 @@
+-- =====================================================
+-- Entity Audit Log
+-- Created: 2026-03-23
+-- Description: Change history for the core tables, next to budget_history and the plan history
+--              - entity_audit_log: who changed which row, when, and the changed fields (before / after)
+--              - log_entity_changes(): generic row-level trigger on leads, customers, payments,
+--                collections, meetings and customer_notes, logging only each table's listed columns
+--                (no health data or large JSON blobs)
+--              - Rows keep customer_id / lead_id so a trainee profile can show all its history
+--              (see ENTITY_HISTORY.md)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.entity_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name TEXT NOT NULL,
+    record_id UUID NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+    -- update: only the changed fields; create / delete: the logged columns of the row
+    changed_fields TEXT[] NOT NULL DEFAULT '{}',
+    old_values JSONB,
+    new_values JSONB,
+    -- No foreign keys: the history stays after the row is deleted
+    customer_id UUID,
+    lead_id UUID,
+    changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_entity_audit_log_record ON public.entity_audit_log(table_name, record_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_entity_audit_log_customer_id ON public.entity_audit_log(customer_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_entity_audit_log_lead_id ON public.entity_audit_log(lead_id, changed_at DESC);
+
+COMMENT ON TABLE public.entity_audit_log IS 'Row-level change history of leads, customers, payments, collections, meetings and customer_notes';
+
+-- =====================================================
+-- RLS: written only by the trigger; read with the permission of the audited table
+-- =====================================================
+
+ALTER TABLE public.entity_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view entity audit log" ON public.entity_audit_log;
+CREATE POLICY "Staff can view entity audit log"
+    ON public.entity_audit_log FOR SELECT
+    USING (
+        public.has_permission(
+            CASE table_name
+                WHEN 'payments' THEN 'payments'
+                WHEN 'collections' THEN 'payments'
+                WHEN 'meetings' THEN 'meetings'
+                ELSE 'leads'
+            END
+        )
+    );
+
+-- =====================================================
+-- Trigger function
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.log_entity_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+    v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+    v_row JSONB := COALESCE(v_new, v_old);
+    -- The logged columns come as the trigger arguments
+    v_logged TEXT[] := TG_ARGV;
+    v_changed_fields TEXT[];
+    v_old_values JSONB;
+    v_new_values JSONB;
+    v_customer_id UUID;
+    v_lead_id UUID;
+    v_changed_by UUID;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        SELECT
+            COALESCE(array_agg(n.key ORDER BY n.key), '{}'),
+            jsonb_object_agg(n.key, v_old -> n.key),
+            jsonb_object_agg(n.key, n.value)
+        INTO v_changed_fields, v_old_values, v_new_values
+        FROM jsonb_each(v_new) AS n
+        WHERE n.key = ANY (v_logged)
+          AND n.value IS DISTINCT FROM v_old -> n.key;
+
+        IF cardinality(v_changed_fields) = 0 THEN
+            RETURN NEW;
+        END IF;
+    ELSE
+        v_changed_fields := '{}';
+        SELECT jsonb_object_agg(o.key, o.value) INTO v_old_values
+        FROM jsonb_each(v_old) AS o
+        WHERE o.key = ANY (v_logged);
+        SELECT jsonb_object_agg(n.key, n.value) INTO v_new_values
+        FROM jsonb_each(v_new) AS n
+        WHERE n.key = ANY (v_logged);
+    END IF;
+
+    -- Tie the row to its trainee so the profile can show all of its history
+    v_customer_id := CASE TG_TABLE_NAME
+        WHEN 'customers' THEN (v_row ->> 'id')::UUID
+        ELSE NULLIF(v_row ->> 'customer_id', '')::UUID
+    END;
+    v_lead_id := CASE TG_TABLE_NAME
+        WHEN 'leads' THEN (v_row ->> 'id')::UUID
+        ELSE NULLIF(v_row ->> 'lead_id', '')::UUID
+    END;
+
+    -- Changes made by edge functions / webhooks (service role) have no actor
+    SELECT id INTO v_changed_by FROM public.profiles WHERE id = auth.uid();
+
+    INSERT INTO public.entity_audit_log (
+        table_name, record_id, action, changed_fields, old_values, new_values,
+        customer_id, lead_id, changed_by
+    )
+    VALUES (
+        TG_TABLE_NAME,
+        (v_row ->> 'id')::UUID,
+        CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+        v_changed_fields,
+        v_old_values,
+        v_new_values,
+        v_customer_id,
+        v_lead_id,
+        v_changed_by
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- =====================================================
+-- Triggers
+-- =====================================================
+
+-- Logged columns of each table. Health data (height, weight, protocols, plan histories, meeting
+-- forms) is left out: the history is read with the leads / meetings permission, not health_data.
+DO $$
+DECLARE
+    v_item RECORD;
+BEGIN
+    FOR v_item IN
+        SELECT * FROM (VALUES
+            ('leads', ARRAY[
+                'customer_id', 'assigned_to', 'status_main', 'status_sub', 'source', 'city', 'birth_date', 'age',
+                'gender', 'join_date', 'preferred_time', 'subscription_data', 'notes'
+            ]),
+            ('customers', ARRAY[
+                'full_name', 'phone', 'email', 'user_id', 'avatar_url', 'membership_tier', 'total_spent',
+                'check_in_reminders_enabled', 'meeting_reminders_enabled', 'notes'
+            ]),
+            ('payments', ARRAY[
+                'customer_id', 'lead_id', 'collection_id', 'product_name', 'description', 'amount', 'currency',
+                'status', 'stripe_payment_id', 'transaction_id', 'receipt_url', 'refunded_amount', 'refunded_at',
+                'notes'
+            ]),
+            ('collections', ARRAY[
+                'customer_id', 'lead_id', 'description', 'total_amount', 'paid_amount', 'remaining_amount',
+                'refunded_amount', 'currency', 'status', 'due_date', 'last_payment_at', 'created_by', 'notes'
+            ]),
+            ('meetings', ARRAY[
+                'customer_id', 'lead_id', 'owner_id', 'status', 'meeting_type', 'meeting_date', 'start_time',
+                'end_time', 'location', 'video_link', 'attendance_status', 'attendance_updated_at',
+                'attendance_updated_by', 'fillout_submission_id'
+            ]),
+            ('customer_notes', ARRAY['customer_id', 'lead_id', 'content', 'attachment_url', 'created_by'])
+        ) AS audited_table(table_name, logged_columns)
+    LOOP
+        EXECUTE format('DROP TRIGGER IF EXISTS log_entity_changes_trigger ON public.%I', v_item.table_name);
+        EXECUTE format(
+            'CREATE TRIGGER log_entity_changes_trigger
+                AFTER INSERT OR UPDATE OR DELETE ON public.%I
+                FOR EACH ROW
+                EXECUTE FUNCTION public.log_entity_changes(%s)',
+            v_item.table_name,
+            (SELECT string_agg(quote_literal(c), ', ') FROM unnest(v_item.logged_columns) AS c)
+        );
+    END LOOP;
+END $$;
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================
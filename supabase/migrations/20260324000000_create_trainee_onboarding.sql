@@ -0,0 +1,117 @@
+-- =====================================================
+-- Trainee Onboarding
+-- Created: 2026-03-24
+-- Description: First-login onboarding wizard of the client portal
+--              - trainee_onboarding: progress of each trainee through the wizard steps
+--                (baseline measurements, progress photos, blood tests, action plan, notifications)
+--              - customers.check_in_reminders_enabled / meeting_reminders_enabled: WhatsApp
+--                reminder preferences, respected by check-missed-check-ins and send-meeting-reminders
+--              - Existing trainees are marked as onboarded
+--              (see TRAINEE_ONBOARDING.md)
+-- =====================================================
+
+-- =====================================================
+-- Notification preferences
+-- =====================================================
+
+ALTER TABLE public.customers
+    ADD COLUMN IF NOT EXISTS check_in_reminders_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    ADD COLUMN IF NOT EXISTS meeting_reminders_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+
+COMMENT ON COLUMN public.customers.check_in_reminders_enabled IS 'WhatsApp reminder when the trainee misses daily check-ins';
+COMMENT ON COLUMN public.customers.meeting_reminders_enabled IS 'WhatsApp reminders before meetings';
+
+-- =====================================================
+-- Onboarding progress
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.trainee_onboarding (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    customer_id UUID NOT NULL UNIQUE REFERENCES public.customers(id) ON DELETE CASCADE,
+    measurements_completed_at TIMESTAMP WITH TIME ZONE,
+    photos_completed_at TIMESTAMP WITH TIME ZONE,
+    blood_tests_completed_at TIMESTAMP WITH TIME ZONE,
+    action_plan_acknowledged_at TIMESTAMP WITH TIME ZONE,
+    acknowledged_budget_id UUID REFERENCES public.budgets(id) ON DELETE SET NULL,
+    notifications_completed_at TIMESTAMP WITH TIME ZONE,
+    -- Steps the trainee chose to do later (photos, blood_tests)
+    skipped_steps TEXT[] NOT NULL DEFAULT '{}',
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+DROP TRIGGER IF EXISTS update_trainee_onboarding_updated_at ON public.trainee_onboarding;
+CREATE TRIGGER update_trainee_onboarding_updated_at
+    BEFORE UPDATE ON public.trainee_onboarding
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.trainee_onboarding IS 'First-login onboarding progress of trainees in the client portal';
+
+-- =====================================================
+-- RLS
+-- =====================================================
+
+ALTER TABLE public.trainee_onboarding ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Trainees can view own onboarding" ON public.trainee_onboarding;
+CREATE POLICY "Trainees can view own onboarding"
+    ON public.trainee_onboarding FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.customers
+            WHERE customers.id = trainee_onboarding.customer_id
+              AND customers.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Trainees can insert own onboarding" ON public.trainee_onboarding;
+CREATE POLICY "Trainees can insert own onboarding"
+    ON public.trainee_onboarding FOR INSERT
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.customers
+            WHERE customers.id = trainee_onboarding.customer_id
+              AND customers.user_id = auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Trainees can update own onboarding" ON public.trainee_onboarding;
+CREATE POLICY "Trainees can update own onboarding"
+    ON public.trainee_onboarding FOR UPDATE
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.customers
+            WHERE customers.id = trainee_onboarding.customer_id
+              AND customers.user_id = auth.uid()
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.customers
+            WHERE customers.id = trainee_onboarding.customer_id
+              AND customers.user_id = auth.uid()
+        )
+    );
+
+-- Coaches follow the onboarding; resetting it lets a trainee go through the wizard again
+DROP POLICY IF EXISTS "Staff can manage trainee onboarding" ON public.trainee_onboarding;
+CREATE POLICY "Staff can manage trainee onboarding"
+    ON public.trainee_onboarding FOR ALL
+    USING (public.has_permission('leads'))
+    WITH CHECK (public.has_permission('leads'));
+
+-- =====================================================
+-- Existing trainees don't go through the wizard
+-- =====================================================
+
+INSERT INTO public.trainee_onboarding (customer_id, completed_at)
+SELECT c.id, NOW()
+FROM public.customers c
+WHERE c.user_id IS NOT NULL
+ON CONFLICT (customer_id) DO NOTHING;
+
+-- =====================================================
+-- Migration Complete
+-- =====================================================